@@ -0,0 +1,193 @@
+/*
+ * Machine signal simulator for the machine-ingest edge function.
+ *
+ * Generates a run of machine cycles with random stops and scrap, then posts
+ * it in batches the way a PLC gateway would. Optionally shuffles batches and
+ * re-sends messages to exercise out-of-order and duplicate handling.
+ *
+ * Usage:
+ *   node scripts/simulate_machine_signals.cjs \
+ *     --state-tag press3/state --cycle-tag press3/cycles --scrap-tag press3/scrap \
+ *     [--source mqtt|opcua] [--cycles 200] [--cycle-seconds 30] [--batch 50] \
+ *     [--cumulative] [--shuffle] [--duplicates 0.1] [--seed 42] [--dry-run]
+ *
+ * Env: VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY, MACHINE_INGEST_KEY
+ * Tags must be mapped under Production > Machine Integration first.
+ */
+
+const args = process.argv.slice(2);
+
+function option(name, fallback) {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return fallback;
+  const value = args[index + 1];
+  return value === undefined || value.startsWith('--') ? true : value;
+}
+
+const config = {
+  source: option('source', 'mqtt'),
+  stateTag: option('state-tag', null),
+  cycleTag: option('cycle-tag', null),
+  scrapTag: option('scrap-tag', null),
+  cycles: parseInt(option('cycles', '200'), 10),
+  cycleSeconds: parseFloat(option('cycle-seconds', '30')),
+  batchSize: parseInt(option('batch', '50'), 10),
+  cumulative: option('cumulative', false) === true,
+  shuffle: option('shuffle', false) === true,
+  duplicateRate: parseFloat(option('duplicates', '0')),
+  seed: parseInt(option('seed', String(Date.now() % 100000)), 10),
+  dryRun: option('dry-run', false) === true,
+};
+
+if (!config.stateTag && !config.cycleTag) {
+  console.error('At least one of --state-tag or --cycle-tag is required.');
+  process.exit(1);
+}
+
+// Small seeded PRNG so a scenario can be replayed
+let rngState = config.seed;
+function random() {
+  rngState = (rngState * 1664525 + 1013904223) % 4294967296;
+  return rngState / 4294967296;
+}
+
+function toMessage(tag, value, ts, messageId) {
+  if (config.source === 'opcua') {
+    return {
+      nodeId: tag,
+      value: { value, sourceTimestamp: ts },
+      sequenceNumber: messageId,
+    };
+  }
+  return {
+    topic: tag,
+    payload: { value, ts },
+    message_id: `${tag}#${messageId}`,
+  };
+}
+
+function generateSignals() {
+  const messages = [];
+  let sequence = 0;
+  let clock = Date.now() - config.cycles * config.cycleSeconds * 1000 * 1.5;
+  let goodCounter = 0;
+  let scrapCounter = 0;
+
+  const emit = (tag, value) => {
+    if (!tag) return;
+    sequence++;
+    messages.push(toMessage(tag, value, new Date(clock).toISOString(), sequence));
+  };
+
+  emit(config.stateTag, 'RUN');
+
+  for (let cycle = 0; cycle < config.cycles; cycle++) {
+    clock += config.cycleSeconds * 1000 * (0.9 + random() * 0.2);
+
+    const isScrap = random() < 0.03;
+    if (isScrap && config.scrapTag) {
+      scrapCounter++;
+      emit(config.scrapTag, config.cumulative ? scrapCounter : 1);
+    } else {
+      goodCounter++;
+      emit(config.cycleTag, config.cumulative ? goodCounter : 1);
+    }
+
+    // Occasional unplanned stop of 2-15 minutes
+    if (random() < 0.02) {
+      emit(config.stateTag, 'STOP');
+      clock += (2 + random() * 13) * 60 * 1000;
+      emit(config.stateTag, 'RUN');
+    }
+  }
+
+  clock += 1000;
+  emit(config.stateTag, 'IDLE');
+
+  console.log(`Generated ${messages.length} signals (${goodCounter} good, ${scrapCounter} scrap cycles).`);
+  return messages;
+}
+
+function toBatches(messages) {
+  const batches = [];
+  for (let i = 0; i < messages.length; i += config.batchSize) {
+    const batch = messages.slice(i, i + config.batchSize);
+
+    // Re-send a share of already generated messages as duplicates
+    if (config.duplicateRate > 0) {
+      const pool = messages.slice(0, i + batch.length);
+      const duplicates = Math.round(batch.length * config.duplicateRate);
+      for (let d = 0; d < duplicates; d++) {
+        batch.push(pool[Math.floor(random() * pool.length)]);
+      }
+    }
+
+    batches.push(batch);
+  }
+
+  if (config.shuffle) {
+    // Deliver batches out of order, as a gateway reconnecting after a buffer would
+    for (let i = batches.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [batches[i], batches[j]] = [batches[j], batches[i]];
+    }
+  }
+
+  return batches;
+}
+
+async function postBatch(url, headers, messages) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ source: config.source, messages }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${body.error || response.statusText}`);
+  }
+  return body;
+}
+
+async function main() {
+  const batches = toBatches(generateSignals());
+
+  if (config.dryRun) {
+    console.log(JSON.stringify({ source: config.source, messages: batches[0] }, null, 2));
+    console.log(`Dry run: ${batches.length} batches not sent.`);
+    return;
+  }
+
+  const supabaseUrl = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL;
+  const anonKey = process.env.VITE_SUPABASE_ANON_KEY || process.env.SUPABASE_ANON_KEY;
+  const ingestKey = process.env.MACHINE_INGEST_KEY;
+
+  if (!supabaseUrl || !anonKey || !ingestKey) {
+    console.error('VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY and MACHINE_INGEST_KEY must be set.');
+    process.exit(1);
+  }
+
+  const url = `${supabaseUrl}/functions/v1/machine-ingest`;
+  const headers = {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${anonKey}`,
+    'X-Ingest-Key': ingestKey,
+  };
+
+  const totals = {};
+  for (let i = 0; i < batches.length; i++) {
+    const result = await postBatch(url, headers, batches[i]);
+    Object.entries(result.summary || {}).forEach(([status, count]) => {
+      totals[status] = (totals[status] || 0) + count;
+    });
+    console.log(`Batch ${i + 1}/${batches.length}:`, result.summary);
+  }
+
+  console.log('Totals:', totals);
+}
+
+main().catch((error) => {
+  console.error('Simulation failed:', error.message);
+  process.exit(1);
+});
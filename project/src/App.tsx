@@ -32,6 +32,7 @@ const LeadTimeReportsView = lazy(() => import('./components/Parts/LeadTimeReport
 const FinancialsReport = lazy(() => import('./components/BI/FinancialsReport').then(m => ({ default: m.FinancialsReport })));
 const TechnicianMetricsReport = lazy(() => import('./components/BI/TechnicianMetricsReport').then(m => ({ default: m.TechnicianMetricsReport })));
 const ProjectMarginsReport = lazy(() => import('./components/BI/ProjectMarginsReport').then(m => ({ default: m.ProjectMarginsReport })));
+const JobFormAnswersReport = lazy(() => import('./components/BI/JobFormAnswersReport').then(m => ({ default: m.JobFormAnswersReport })));
 const RevenueTrendsInsight = lazy(() => import('./components/BI/RevenueTrendsInsight').then(m => ({ default: m.RevenueTrendsInsight })));
 const CustomerValueInsight = lazy(() => import('./components/BI/CustomerValueInsight').then(m => ({ default: m.CustomerValueInsight })));
 const DSOInsight = lazy(() => import('./components/BI/DSOInsight').then(m => ({ default: m.DSOInsight })));
@@ -46,6 +47,12 @@ const ProductionSchedulingView = lazy(() => import('./components/Manufacturing/P
 const OEEDashboard = lazy(() => import('./components/Manufacturing/OEE/OEEDashboard').then(m => ({ default: m.OEEDashboard })));
 const DowntimeLogView = lazy(() => import('./components/Manufacturing/Downtime/DowntimeLogView').then(m => ({ default: m.DowntimeLogView })));
 const ReasonCodesView = lazy(() => import('./components/Manufacturing/ReasonCodes/ReasonCodesView').then(m => ({ default: m.ReasonCodesView })));
+const ProductMasterView = lazy(() => import('./components/Manufacturing/ProductMaster/ProductMasterView').then(m => ({ default: m.ProductMasterView })));
+const ShiftCalendarsView = lazy(() => import('./components/Manufacturing/ShiftCalendars/ShiftCalendarsView').then(m => ({ default: m.ShiftCalendarsView })));
+const MRPView = lazy(() => import('./components/Manufacturing/MRP/MRPView').then(m => ({ default: m.MRPView })));
+const MachineIntegrationView = lazy(() => import('./components/Manufacturing/MachineIntegration/MachineIntegrationView').then(m => ({ default: m.MachineIntegrationView })));
+const AndonBoardView = lazy(() => import('./components/Manufacturing/Andon/AndonBoardView').then(m => ({ default: m.AndonBoardView })));
+const PMPlansView = lazy(() => import('./components/Maintenance/PMPlansView').then(m => ({ default: m.PMPlansView })));
 
 // Quality views
 const InspectionWorkbenchView = lazy(() => import('./components/Manufacturing/Quality/InspectionWorkbenchView').then(m => ({ default: m.InspectionWorkbenchView })));
@@ -53,6 +60,12 @@ const NonconformanceView = lazy(() => import('./components/Manufacturing/Quality
 const SPCDashboardView = lazy(() => import('./components/Manufacturing/Quality/SPCDashboardView').then(m => ({ default: m.SPCDashboardView })));
 const InspectionPlansView = lazy(() => import('./components/Manufacturing/Quality/InspectionPlansView').then(m => ({ default: m.InspectionPlansView })));
 const DefectCodesView = lazy(() => import('./components/Manufacturing/Quality/DefectCodesView').then(m => ({ default: m.DefectCodesView })));
+const GaugesView = lazy(() => import('./components/Manufacturing/Quality/GaugesView').then(m => ({ default: m.GaugesView })));
+const GageRRView = lazy(() => import('./components/Manufacturing/Quality/GageRRView').then(m => ({ default: m.GageRRView })));
+const SupplierQualityView = lazy(() => import('./components/Manufacturing/Quality/SupplierQualityView').then(m => ({ default: m.SupplierQualityView })));
+const CAPAView = lazy(() => import('./components/Manufacturing/Quality/CAPAView').then(m => ({ default: m.CAPAView })));
+const FirstArticleView = lazy(() => import('./components/Manufacturing/Quality/FirstArticleView').then(m => ({ default: m.FirstArticleView })));
+const SignatureReportView = lazy(() => import('./components/Manufacturing/Quality/SignatureReportView').then(m => ({ default: m.SignatureReportView })));
 
 // Loading spinner for Suspense fallback
 const LoadingSpinner = () => (
@@ -148,6 +161,8 @@ function AppContent() {
       case 'equipment-parts':
       case 'equipment-warranty':
         return <EquipmentView />;
+      case 'equipment-pm':
+        return <PMPlansView targetType="customer_equipment" />;
       case 'vendors':
       case 'vendors-list':
         return <VendorsView initialTab="vendors-list" onViewChange={handleViewChange} />;
@@ -210,6 +225,8 @@ function AppContent() {
         return <TechnicianMetricsReport />;
       case 'reports-margins':
         return <ProjectMarginsReport />;
+      case 'reports-job-forms':
+        return <JobFormAnswersReport />;
       case 'insights':
       case 'insights-revenue':
         return <RevenueTrendsInsight />;
@@ -225,6 +242,8 @@ function AppContent() {
       case 'settings-notifications':
       case 'settings-permissions':
       case 'settings-vehicles':
+      case 'settings-job-forms':
+      case 'settings-dispatch':
         return <SettingsView initialTab={currentView} />;
       case 'settings-contract-plans':
         return <ContractPlansView />;
@@ -268,6 +287,18 @@ function AppContent() {
         return <MaterialHandlerView />;
       case 'production-reason-codes':
         return <ReasonCodesView />;
+      case 'production-products':
+        return <ProductMasterView />;
+      case 'production-shift-calendars':
+        return <ShiftCalendarsView />;
+      case 'production-mrp':
+        return <MRPView />;
+      case 'production-machine-integration':
+        return <MachineIntegrationView />;
+      case 'production-andon':
+        return <AndonBoardView />;
+      case 'production-maintenance':
+        return <PMPlansView targetType="shop_asset" />;
       // Quality views
       case 'quality-inspection-workbench':
         return <InspectionWorkbenchView />;
@@ -279,6 +310,18 @@ function AppContent() {
         return <InspectionPlansView />;
       case 'quality-defect-codes':
         return <DefectCodesView />;
+      case 'quality-gauges':
+        return <GaugesView />;
+      case 'quality-gage-rr':
+        return <GageRRView />;
+      case 'quality-supplier':
+        return <SupplierQualityView />;
+      case 'quality-capa':
+        return <CAPAView />;
+      case 'quality-fai':
+        return <FirstArticleView />;
+      case 'quality-signatures':
+        return <SignatureReportView />;
       default:
         return <DashboardView />;
     }
@@ -0,0 +1,376 @@
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import { ClipboardCheck, AlertTriangle, Activity, Gauge } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { BIPageLayout } from './BIPageLayout';
+import { DateRangeSelector } from './DateRangeSelector';
+import { useBIDateRange } from '../../hooks/useBIDateRange';
+import { ExportData } from '../../services/ExportService';
+import { JobFormService, type JobFormAnswerRow, type JobFormTemplate } from '../../services/JobFormService';
+
+type ReadingMeasure = 'superheat' | 'subcooling' | 'suction_pressure' | 'liquid_pressure' | 'outdoor_ambient';
+
+const READING_MEASURES: Record<ReadingMeasure, string> = {
+  superheat: 'Superheat (°F)',
+  subcooling: 'Subcooling (°F)',
+  suction_pressure: 'Suction Pressure (psig)',
+  liquid_pressure: 'Liquid Pressure (psig)',
+  outdoor_ambient: 'Outdoor Ambient (°F)',
+};
+
+const equipmentLabel = (row: JobFormAnswerRow): string =>
+  row.equipment_id
+    ? [row.equipment_type, row.manufacturer, row.model_number, row.serial_number && `S/N ${row.serial_number}`]
+        .filter(Boolean)
+        .join(' ')
+    : '-';
+
+const formatAnswer = (row: JobFormAnswerRow): string => {
+  switch (row.field_type) {
+    case 'checkbox':
+      return row.value_boolean ? 'Checked' : 'Not checked';
+    case 'pass_fail':
+      return row.value_boolean === null ? '-' : row.value_boolean ? 'Pass' : 'Fail';
+    case 'numeric':
+      return row.value_numeric === null ? '-' : `${row.value_numeric}${row.unit ? ` ${row.unit}` : ''}`;
+    case 'dropdown':
+      return row.value_text || '-';
+    case 'photo':
+      return row.photo_url ? 'Photo' : '-';
+    case 'refrigerant_reading':
+      return `${row.refrigerant || ''} SH ${row.superheat ?? '-'}°F / SC ${row.subcooling ?? '-'}°F, ` +
+        `${row.suction_pressure ?? '-'}/${row.liquid_pressure ?? '-'} psig`;
+  }
+};
+
+export function JobFormAnswersReport() {
+  const { dateRange, setDateRange, start, end } = useBIDateRange('quarter');
+  const [templates, setTemplates] = useState<JobFormTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [fieldId, setFieldId] = useState('');
+  const [measure, setMeasure] = useState<ReadingMeasure>('superheat');
+  const [customerId, setCustomerId] = useState('');
+  const [equipmentId, setEquipmentId] = useState('');
+  const [outOfRangeOnly, setOutOfRangeOnly] = useState(false);
+  const [rows, setRows] = useState<JobFormAnswerRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    JobFormService.getTemplates(true)
+      .then(setTemplates)
+      .catch(error => console.error('Error loading job forms:', error));
+  }, []);
+
+  const loadAnswers = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRows(await JobFormService.getAnswerReport({
+        templateId: templateId || undefined,
+        fieldId: fieldId || undefined,
+        startDate: start,
+        endDate: end,
+        outOfRangeOnly,
+      }));
+    } catch (error) {
+      console.error('Error loading job form answers:', error);
+    } finally {
+      setLoading(false);
+    }
+  // start/end are recalculated every render; the range type is the real dependency
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [templateId, fieldId, outOfRangeOnly, dateRange]);
+
+  useEffect(() => {
+    loadAnswers();
+  }, [loadAnswers]);
+
+  const template = templates.find(t => t.id === templateId);
+  const field = template?.fields.find(f => f.id === fieldId);
+  const isReading = field?.field_type === 'refrigerant_reading';
+  const isNumeric = field?.field_type === 'numeric' || isReading;
+
+  const customers = useMemo(
+    () => [...new Map(rows.filter(r => r.customer_id).map(r => [r.customer_id as string, r.customer_name || 'Unknown'])).entries()]
+      .sort((a, b) => a[1].localeCompare(b[1])),
+    [rows]
+  );
+  const equipment = useMemo(
+    () => [...new Map(
+      rows.filter(r => r.equipment_id && (!customerId || r.customer_id === customerId))
+        .map(r => [r.equipment_id as string, equipmentLabel(r)])
+    ).entries()],
+    [rows, customerId]
+  );
+
+  const filteredRows = rows.filter(r =>
+    (!customerId || r.customer_id === customerId) && (!equipmentId || r.equipment_id === equipmentId)
+  );
+
+  const valueOf = useCallback(
+    (row: JobFormAnswerRow): number | null => (isReading ? row[measure] : row.value_numeric),
+    [isReading, measure]
+  );
+
+  const values = isNumeric ? filteredRows.map(valueOf).filter((v): v is number => v !== null) : [];
+  const chartData = isNumeric
+    ? filteredRows
+        .filter(r => valueOf(r) !== null)
+        .map(r => ({ date: new Date(r.answered_at).toLocaleDateString(), ticket: r.ticket_number, value: valueOf(r) }))
+        .reverse()
+    : [];
+
+  const summary = {
+    answers: filteredRows.length,
+    tickets: new Set(filteredRows.map(r => r.ticket_id)).size,
+    outOfRange: filteredRows.filter(r => r.out_of_range).length,
+    average: values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null,
+    min: values.length > 0 ? Math.min(...values) : null,
+    max: values.length > 0 ? Math.max(...values) : null,
+  };
+
+  const getExportData = (): ExportData | null => {
+    if (filteredRows.length === 0) return null;
+    return {
+      title: `Job Form Answers${field ? ` - ${field.label}` : template ? ` - ${template.name}` : ''}`,
+      dateRange: { start, end },
+      columns: [
+        { header: 'Date', key: 'date', width: 12 },
+        { header: 'Ticket', key: 'ticket_number', width: 12 },
+        { header: 'Customer', key: 'customer_name', width: 20 },
+        { header: 'Equipment', key: 'equipment', width: 25 },
+        { header: 'Form', key: 'template_name', width: 18 },
+        { header: 'Field', key: 'field_label', width: 18 },
+        { header: 'Answer', key: 'answer', width: 25 },
+        { header: 'Out of Range', key: 'out_of_range', width: 10 },
+        { header: 'Technician', key: 'answered_by_name', width: 15 },
+      ],
+      rows: filteredRows.map(r => ({
+        ...r,
+        date: new Date(r.answered_at).toLocaleDateString(),
+        equipment: equipmentLabel(r),
+        answer: formatAnswer(r),
+        out_of_range: r.out_of_range ? 'Yes' : '',
+      })),
+      summary: {
+        'Answers': summary.answers,
+        'Tickets': summary.tickets,
+        'Out of Range': summary.outOfRange,
+        ...(summary.average !== null ? { 'Average': summary.average.toFixed(1) } : {}),
+      },
+    };
+  };
+
+  return (
+    <BIPageLayout
+      title="Job Form Answers"
+      subtitle="Checklist results and readings recorded on tickets, across customers and equipment"
+      getExportData={getExportData}
+      exportEnabled={filteredRows.length > 0}
+    >
+      <DateRangeSelector value={dateRange} onChange={setDateRange} />
+
+      <div className="card p-4 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        <select
+          value={templateId}
+          onChange={(e) => { setTemplateId(e.target.value); setFieldId(''); }}
+          className="input"
+        >
+          <option value="">All forms</option>
+          {templates.map(t => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        <select
+          value={fieldId}
+          onChange={(e) => setFieldId(e.target.value)}
+          disabled={!template}
+          className="input"
+        >
+          <option value="">All fields</option>
+          {template?.fields.map(f => (
+            <option key={f.id} value={f.id}>{f.label}{!f.is_active ? ' (retired)' : ''}</option>
+          ))}
+        </select>
+        {isReading && (
+          <select value={measure} onChange={(e) => setMeasure(e.target.value as ReadingMeasure)} className="input">
+            {(Object.keys(READING_MEASURES) as ReadingMeasure[]).map(m => (
+              <option key={m} value={m}>{READING_MEASURES[m]}</option>
+            ))}
+          </select>
+        )}
+        <select
+          value={customerId}
+          onChange={(e) => { setCustomerId(e.target.value); setEquipmentId(''); }}
+          className="input"
+        >
+          <option value="">All customers</option>
+          {customers.map(([id, name]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+        <select value={equipmentId} onChange={(e) => setEquipmentId(e.target.value)} className="input">
+          <option value="">All equipment</option>
+          {equipment.map(([id, label]) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={outOfRangeOnly}
+            onChange={(e) => setOutOfRangeOnly(e.target.checked)}
+            className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+          />
+          <span>Out of range only</span>
+        </label>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="card p-4">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+                  <ClipboardCheck className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Answers</p>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-white">{summary.answers}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{summary.tickets} tickets</p>
+                </div>
+              </div>
+            </div>
+
+            <div className="card p-4">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-amber-100 dark:bg-amber-900/30 rounded-lg">
+                  <AlertTriangle className="w-6 h-6 text-amber-600 dark:text-amber-400" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Out of Range / Failed</p>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-white">{summary.outOfRange}</p>
+                </div>
+              </div>
+            </div>
+
+            <div className="card p-4">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-green-100 dark:bg-green-900/30 rounded-lg">
+                  <Activity className="w-6 h-6 text-green-600 dark:text-green-400" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Average</p>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                    {summary.average !== null ? summary.average.toFixed(1) : '-'}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            <div className="card p-4">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-purple-100 dark:bg-purple-900/30 rounded-lg">
+                  <Gauge className="w-6 h-6 text-purple-600 dark:text-purple-400" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Min / Max</p>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                    {summary.min !== null ? `${summary.min} / ${summary.max}` : '-'}
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Readings over time */}
+          {isNumeric && chartData.length > 0 && (
+            <div className="card p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                {field?.label}{isReading ? ` - ${READING_MEASURES[measure]}` : field?.unit ? ` (${field.unit})` : ''}
+              </h3>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                    <XAxis dataKey="date" tick={{ fontSize: 11 }} />
+                    <YAxis />
+                    <Tooltip labelFormatter={(label, payload) => `${label} · ${payload?.[0]?.payload?.ticket ?? ''}`} />
+                    {(!isReading || measure === 'superheat') && field?.min_value !== null && field?.min_value !== undefined && (
+                      <ReferenceLine y={field.min_value} stroke="#f59e0b" strokeDasharray="4 4" />
+                    )}
+                    {(!isReading || measure === 'superheat') && field?.max_value !== null && field?.max_value !== undefined && (
+                      <ReferenceLine y={field.max_value} stroke="#f59e0b" strokeDasharray="4 4" />
+                    )}
+                    <Line type="monotone" dataKey="value" stroke="#3b82f6" dot />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+
+          {/* Answers Table */}
+          <div className="card overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Date</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Ticket</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Customer</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Equipment</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Field</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Answer</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Technician</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {filteredRows.map((row) => (
+                    <tr key={row.answer_id} className={row.out_of_range ? 'bg-amber-50 dark:bg-amber-900/10' : ''}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {new Date(row.answered_at).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {row.ticket_number}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {row.customer_name || '-'}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">{equipmentLabel(row)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">
+                        {row.field_label}
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{row.template_name}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {row.field_type === 'photo' && row.photo_url ? (
+                          <a href={row.photo_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                            View Photo
+                          </a>
+                        ) : (
+                          <span className={row.out_of_range ? 'text-amber-700 dark:text-amber-400 font-medium' : 'text-gray-900 dark:text-white'}>
+                            {formatAnswer(row)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {row.answered_by_name || '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {filteredRows.length === 0 && (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                No answers recorded for the selected filters.
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </BIPageLayout>
+  );
+}
@@ -0,0 +1,313 @@
+import { useState } from 'react';
+import { Route, X, AlertTriangle, Coffee, CheckCircle, User } from 'lucide-react';
+import {
+  DispatchPlanService,
+  formatPlanTime,
+  type DayPlanComparison,
+  type DayPlanOptions,
+} from '../../services/DispatchPlanService';
+import { RouteOptimizationService, type DayPlan } from '../../services/RouteOptimizationService';
+
+interface DayPlanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  date: Date;
+  onAccepted: () => void;
+}
+
+const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const COMPARISON_ROWS: Array<{
+  label: string;
+  value: (plan: DayPlan) => number;
+  format: (value: number) => string;
+  higherIsBetter?: boolean;
+}> = [
+  { label: 'Jobs scheduled', value: p => p.scheduledJobs, format: v => String(v), higherIsBetter: true },
+  { label: 'Not scheduled', value: p => p.unassignedJobIds.length, format: v => String(v) },
+  { label: 'Drive time', value: p => p.totalDriveMinutes, format: formatMinutes },
+  { label: 'Distance', value: p => p.totalDistance, format: v => `${v.toFixed(1)} mi` },
+  { label: 'Late arrivals', value: p => p.lateVisits, format: v => String(v) },
+  { label: 'Overtime', value: p => p.overtimeMinutes, format: formatMinutes },
+];
+
+/**
+ * Plan the dispatch day across all technicians, compare with the current
+ * schedule and accept the plan into it.
+ */
+export function DayPlanModal({ isOpen, onClose, date, onAccepted }: DayPlanModalProps) {
+  const [options, setOptions] = useState<DayPlanOptions>({ includeUnscheduled: true, keepAssignments: false });
+  const [result, setResult] = useState<DayPlanComparison | null>(null);
+  const [optimizing, setOptimizing] = useState(false);
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleOptimize = async () => {
+    try {
+      setOptimizing(true);
+      setError(null);
+      setResult(await DispatchPlanService.optimizeDay(date, options));
+    } catch (err) {
+      console.error('Error optimizing day:', err);
+      setError('Could not plan the day');
+    } finally {
+      setOptimizing(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!result) return;
+    try {
+      setAccepting(true);
+      setError(null);
+      await DispatchPlanService.acceptPlan(date, result.proposed);
+      setResult(null);
+      onAccepted();
+      onClose();
+    } catch (err) {
+      console.error('Error accepting day plan:', err);
+      setError('Could not save the plan. Some tickets may already be updated; re-run the optimizer to check.');
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  const handleClose = () => {
+    setResult(null);
+    setError(null);
+    onClose();
+  };
+
+  const changedJobs = result
+    ? result.proposed.routes.reduce((count, route) => count + route.visits.filter(visit => {
+        const info = result.jobs[visit.jobId];
+        return info.currentTechnicianId !== route.technicianId || info.currentStart !== visit.start;
+      }).length, 0)
+    : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-5xl w-full max-h-[90vh] flex flex-col shadow-xl">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Route className="w-6 h-6 text-blue-600" />
+            <div>
+              <h2 className="text-lg font-bold text-gray-900 dark:text-white">Optimize Day</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+              </p>
+            </div>
+          </div>
+          <button onClick={handleClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="flex flex-wrap items-center gap-6">
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={options.includeUnscheduled}
+                onChange={(e) => setOptions({ ...options, includeUnscheduled: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              <span>Include unscheduled tickets</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={options.keepAssignments}
+                onChange={(e) => setOptions({ ...options, keepAssignments: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              <span>Keep current technician assignments</span>
+            </label>
+            <button onClick={handleOptimize} disabled={optimizing} className="btn btn-primary ml-auto">
+              {optimizing ? 'Planning...' : result ? 'Re-run' : 'Optimize'}
+            </button>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-400">
+              {error}
+            </div>
+          )}
+
+          {!result && !optimizing && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Assigns and sequences the day's tickets across technicians, emergencies first, within customer
+              arrival windows, shifts and lunch breaks. Nothing changes until you accept the plan.
+            </p>
+          )}
+
+          {result && (
+            <>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-2 font-medium"></th>
+                      <th className="py-2 font-medium text-right">Current</th>
+                      <th className="py-2 font-medium text-right">Proposed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {COMPARISON_ROWS.map(row => {
+                      const current = row.value(result.current);
+                      const proposed = row.value(result.proposed);
+                      const better = row.higherIsBetter ? proposed > current : proposed < current;
+                      const worse = row.higherIsBetter ? proposed < current : proposed > current;
+                      return (
+                        <tr key={row.label} className="border-b border-gray-100 dark:border-gray-700/50">
+                          <td className="py-2 text-gray-700 dark:text-gray-300">{row.label}</td>
+                          <td className="py-2 text-right text-gray-900 dark:text-white">{row.format(current)}</td>
+                          <td className={`py-2 text-right font-medium ${
+                            better ? 'text-green-600 dark:text-green-400' : worse ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'
+                          }`}>
+                            {row.format(proposed)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {result.proposed.routes.map(route => (
+                  <div key={route.technicianId} className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="flex items-center font-medium text-gray-900 dark:text-white">
+                        <User className="w-4 h-4 mr-2 text-gray-500" />
+                        {route.technicianName}
+                      </span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {route.visits.length} jobs · {formatMinutes(route.totalDriveMinutes)} driving
+                        {route.visits.length > 0 && ` · done ${formatPlanTime(route.endTime)}`}
+                      </span>
+                    </div>
+                    {route.visits.length === 0 ? (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">No jobs</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {route.visits.map((visit, index) => {
+                          const info = result.jobs[visit.jobId];
+                          const moved = info.currentTechnicianId !== route.technicianId;
+                          const lunchBefore = route.lunch && route.lunch.start <= visit.start
+                            && (index === 0 || route.lunch.start > route.visits[index - 1].start);
+                          return (
+                            <li key={visit.jobId}>
+                              {lunchBefore && route.lunch && (
+                                <div className="flex items-center text-xs text-gray-500 dark:text-gray-400 py-1">
+                                  <Coffee className="w-3 h-3 mr-1" />
+                                  Lunch {formatPlanTime(route.lunch.start)} - {formatPlanTime(route.lunch.end)}
+                                </div>
+                              )}
+                              <div className="bg-white dark:bg-gray-800 rounded p-2 text-sm">
+                                <div className="flex items-center justify-between">
+                                  <span className="font-medium text-gray-900 dark:text-white">
+                                    {formatPlanTime(visit.start)} · {info.ticketNumber}
+                                  </span>
+                                  <span className={`text-xs px-2 py-0.5 rounded-full ${RouteOptimizationService.getPriorityColor(info.priority)}`}>
+                                    {info.priority}
+                                  </span>
+                                </div>
+                                <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                                  {info.customerName} · {formatMinutes(info.duration)} on site · {visit.driveMinutes} min drive
+                                </p>
+                                {info.windowStart !== null && info.windowEnd !== null && (
+                                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    Window {formatPlanTime(info.windowStart)} - {formatPlanTime(info.windowEnd)}
+                                  </p>
+                                )}
+                                {visit.lateMinutes > 0 && (
+                                  <p className="flex items-center text-xs text-red-600 dark:text-red-400">
+                                    <AlertTriangle className="w-3 h-3 mr-1" />
+                                    {visit.lateMinutes} min after the arrival window
+                                  </p>
+                                )}
+                                {moved && (
+                                  <p className="text-xs text-blue-600 dark:text-blue-400">
+                                    {info.currentTechnicianId
+                                      ? `From ${result.technicians.find(t => t.id === info.currentTechnicianId)?.name || 'another technician'}`
+                                      : 'Newly assigned'}
+                                  </p>
+                                )}
+                              </div>
+                            </li>
+                          );
+                        })}
+                        {route.lunch && route.lunch.start > route.visits[route.visits.length - 1].start && (
+                          <li className="flex items-center text-xs text-gray-500 dark:text-gray-400 py-1">
+                            <Coffee className="w-3 h-3 mr-1" />
+                            Lunch {formatPlanTime(route.lunch.start)} - {formatPlanTime(route.lunch.end)}
+                          </li>
+                        )}
+                      </ul>
+                    )}
+                    {route.overtimeMinutes > 0 && (
+                      <p className="flex items-center text-xs text-red-600 dark:text-red-400 mt-2">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        {formatMinutes(route.overtimeMinutes)} past end of shift
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {(result.proposed.unassignedJobIds.length > 0 || result.skipped.length > 0) && (
+                <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg space-y-2">
+                  {result.proposed.unassignedJobIds.length > 0 && (
+                    <div>
+                      <p className="text-sm font-medium text-yellow-800 dark:text-yellow-200">
+                        Could not fit on time; these keep their current schedule:
+                      </p>
+                      <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                        {result.proposed.unassignedJobIds
+                          .map(id => `${result.jobs[id].ticketNumber} (${result.jobs[id].priority})`)
+                          .join(', ')}
+                      </p>
+                    </div>
+                  )}
+                  {result.skipped.length > 0 && (
+                    <div>
+                      <p className="text-sm font-medium text-yellow-800 dark:text-yellow-200">Not planned:</p>
+                      <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                        {result.skipped.map(s => `${s.ticketNumber}: ${s.reason}`).join('; ')}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {result && `${changedJobs} ticket${changedJobs === 1 ? '' : 's'} will be assigned or rescheduled`}
+          </span>
+          <div className="flex space-x-3">
+            <button onClick={handleClose} className="btn btn-outline">
+              Cancel
+            </button>
+            <button
+              onClick={handleAccept}
+              disabled={!result || changedJobs === 0 || accepting}
+              className="btn btn-primary flex items-center space-x-2"
+            >
+              <CheckCircle className="w-4 h-4" />
+              <span>{accepting ? 'Saving...' : 'Accept Plan'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useEffect, useState, useCallback } from 'react';
-import { Clock, User, AlertCircle, ChevronLeft, ChevronRight, ArrowLeft, AlertTriangle } from 'lucide-react';
+import { Clock, User, AlertCircle, ChevronLeft, ChevronRight, ArrowLeft, AlertTriangle, Route } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import type { Database } from '../../lib/database.types';
 import { TicketDetailModal } from './TicketDetailModal';
 import { ConflictWarningModal } from './ConflictWarningModal';
+import { DayPlanModal } from './DayPlanModal';
 import { checkForConflicts, getAllConflictsForDate, type ConflictingTicket } from '../../services/ScheduleConflictService';
 
 type TicketAssignment = {
@@ -34,6 +35,7 @@ export function DispatchDayView({ selectedDate, onDateChange, onBackToCalendar }
   const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
   const [conflictMap, setConflictMap] = useState<Map<string, boolean>>(new Map());
   const [showConflictModal, setShowConflictModal] = useState(false);
+  const [showDayPlan, setShowDayPlan] = useState(false);
   const [pendingAssignment, setPendingAssignment] = useState<{
     ticket: Ticket;
     technicianId: string;
@@ -287,7 +289,13 @@ export function DispatchDayView({ selectedDate, onDateChange, onBackToCalendar }
           </button>
         </div>
 
-        <div className="w-[150px]"></div>
+        <button
+          onClick={() => setShowDayPlan(true)}
+          className="btn btn-primary flex items-center space-x-2"
+        >
+          <Route className="w-4 h-4" />
+          <span>Optimize Day</span>
+        </button>
       </div>
 
       <div className="grid grid-cols-12 gap-4">
@@ -430,6 +438,16 @@ export function DispatchDayView({ selectedDate, onDateChange, onBackToCalendar }
         onUpdate={loadData}
       />
 
+      <DayPlanModal
+        isOpen={showDayPlan}
+        onClose={() => setShowDayPlan(false)}
+        date={selectedDate}
+        onAccepted={() => {
+          loadData();
+          loadConflicts();
+        }}
+      />
+
       {pendingAssignment && (
         <ConflictWarningModal
           isOpen={showConflictModal}
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Sparkles, CheckCircle, AlertTriangle, RefreshCw, Clock } from 'lucide-react';
+import {
+  DispatchRecommendationService,
+  type DispatchRecommendations,
+} from '../../services/DispatchRecommendationService';
+
+interface TechnicianRecommendationsProps {
+  ticketId: string;
+  /** Changes whenever the ticket's technicians change, to re-rank */
+  refreshKey?: string | number;
+  onSelect: (technicianId: string) => void;
+}
+
+const scoreColor = (score: number): string => {
+  if (score >= 75) return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
+  if (score >= 50) return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400';
+  return 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300';
+};
+
+/**
+ * Top technicians for a ticket with the reasons behind each ranking.
+ */
+export function TechnicianRecommendations({ ticketId, refreshKey, onSelect }: TechnicianRecommendationsProps) {
+  const [result, setResult] = useState<DispatchRecommendations | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRecommendations = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setResult(await DispatchRecommendationService.recommendTechnicians(ticketId));
+    } catch (err) {
+      console.error('Error loading technician recommendations:', err);
+      setError('Could not load recommendations');
+    } finally {
+      setLoading(false);
+    }
+  }, [ticketId]);
+
+  useEffect(() => {
+    loadRecommendations();
+  }, [loadRecommendations, refreshKey]);
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2 flex items-center justify-between">
+        <span className="flex items-center">
+          <Sparkles className="w-4 h-4 mr-2" />
+          Recommended Technicians
+        </span>
+        <button
+          type="button"
+          onClick={loadRecommendations}
+          disabled={loading}
+          className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 flex items-center disabled:opacity-50"
+        >
+          <RefreshCw className={`w-3 h-3 mr-1 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </h4>
+      <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-3 space-y-2">
+        {result?.slaDeadline && (
+          <p className={`text-xs flex items-center ${
+            result.slaDeadline < new Date() ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'
+          }`}>
+            <Clock className="w-3 h-3 mr-1" />
+            {result.slaHours}h response SLA: on site by {result.slaDeadline.toLocaleString()}
+          </p>
+        )}
+
+        {loading && !result ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        ) : !result || result.recommendations.length === 0 ? (
+          <p className="text-gray-600 dark:text-gray-400 text-sm">No other technicians available</p>
+        ) : (
+          result.recommendations.map((rec, index) => (
+            <div key={rec.technicianId} className="bg-white dark:bg-gray-800 p-2 rounded text-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <span className="text-xs text-gray-400">#{index + 1}</span>
+                  <span className="font-medium text-gray-900 dark:text-white">{rec.technicianName}</span>
+                  <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${scoreColor(rec.score)}`}>
+                    {rec.score}
+                  </span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onSelect(rec.technicianId)}
+                  className="px-2 py-0.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  Assign
+                </button>
+              </div>
+              <ul className="mt-1 space-y-0.5">
+                {rec.reasons.map((reason) => (
+                  <li
+                    key={`${reason.factor}-${reason.text}`}
+                    className={`flex items-start text-xs ${
+                      reason.positive ? 'text-gray-600 dark:text-gray-400' : 'text-amber-700 dark:text-amber-400'
+                    }`}
+                  >
+                    {reason.positive ? (
+                      <CheckCircle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0 text-green-600" />
+                    ) : (
+                      <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                    )}
+                    {reason.text}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
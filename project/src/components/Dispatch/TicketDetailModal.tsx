@@ -3,6 +3,7 @@ import { X, Clock, User, Calendar, Wrench, AlertCircle, Plus, Trash2, UserPlus,
 import { supabase } from '../../lib/supabase';
 import { CodeSelector } from '../CRM/CodeSelector';
 import { checkForConflicts, type ConflictingTicket } from '../../services/ScheduleConflictService';
+import { TechnicianRecommendations } from './TechnicianRecommendations';
 import { useAuth } from '../../contexts/AuthContext';
 import type { Database } from '../../lib/database.types';
 
@@ -65,6 +66,8 @@ export function TicketDetailModal({ isOpen, onClose, ticketId, onUpdate }: Ticke
   const [problemCode, setProblemCode] = useState<string | null>(null);
   const [resolutionCode, setResolutionCode] = useState<string | null>(null);
   const [scheduledDate, setScheduledDate] = useState<string>('');
+  const [arrivalWindowStart, setArrivalWindowStart] = useState<string>('');
+  const [arrivalWindowEnd, setArrivalWindowEnd] = useState<string>('');
   const [assignments, setAssignments] = useState<TicketAssignment[]>([]);
   const [technicians, setTechnicians] = useState<Profile[]>([]);
   const [showAddTechnician, setShowAddTechnician] = useState(false);
@@ -177,6 +180,10 @@ export function TicketDetailModal({ isOpen, onClose, ticketId, onUpdate }: Ticke
         } else {
           setScheduledDate('');
         }
+        // Arrival window columns are TIME (HH:MM:SS); time inputs take HH:MM
+        const arrivalWindow = ticketData as { arrival_window_start?: string | null; arrival_window_end?: string | null };
+        setArrivalWindowStart(arrivalWindow.arrival_window_start?.slice(0, 5) || '');
+        setArrivalWindowEnd(arrivalWindow.arrival_window_end?.slice(0, 5) || '');
         // Load available contracts for this customer
         if (ticketData.customer_id) {
           loadCustomerContracts(ticketData.customer_id);
@@ -492,15 +499,25 @@ export function TicketDetailModal({ isOpen, onClose, ticketId, onUpdate }: Ticke
       }
     }
 
+    if (arrivalWindowStart && arrivalWindowEnd && arrivalWindowStart >= arrivalWindowEnd) {
+      alert('The arrival window must end after it starts.');
+      return;
+    }
+
     setSaving(true);
     try {
-      const updates: Partial<Database['public']['Tables']['tickets']['Update']> = {
+      const updates: Partial<Database['public']['Tables']['tickets']['Update']> & {
+        arrival_window_start?: string | null;
+        arrival_window_end?: string | null;
+      } = {
         status,
         hours_onsite: hoursOnsite ? parseFloat(hoursOnsite) : null,
         problem_code: problemCode,
         resolution_code: resolutionCode,
         scheduled_date: scheduledDate ? new Date(scheduledDate).toISOString() : null,
         service_contract_id: serviceContractId,
+        arrival_window_start: arrivalWindowStart || null,
+        arrival_window_end: arrivalWindowEnd || null,
       };
 
       if (status === 'completed' && !ticket.completed_date) {
@@ -526,6 +543,8 @@ export function TicketDetailModal({ isOpen, onClose, ticketId, onUpdate }: Ticke
             errorMessage = 'You do not have permission to update this ticket. Please contact your administrator.';
           } else if (error.message.includes('Cannot change status of billed ticket')) {
             errorMessage = 'Cannot change status of billed ticket. Invoice must be voided first.';
+          } else if (error.message.includes('signed completion acceptance')) {
+            errorMessage = error.message;
           } else if (error.message.includes('Cannot mark non-billable ticket')) {
             errorMessage = 'Cannot mark non-billable ticket as ready to invoice.';
           } else if (error.code === '23502') {
@@ -927,6 +946,21 @@ export function TicketDetailModal({ isOpen, onClose, ticketId, onUpdate }: Ticke
                   )}
                 </div>
 
+                {['open', 'scheduled', 'in_progress'].includes(ticket.status || '') && (
+                  <TechnicianRecommendations
+                    ticketId={ticket.id}
+                    refreshKey={`${ticket.assigned_to}:${assignments.map(a => a.technician_id).join(',')}`}
+                    onSelect={(technicianId) => {
+                      setNewAssignment({
+                        ...newAssignment,
+                        technician_id: technicianId,
+                        scheduled_start: newAssignment.scheduled_start || scheduledDate,
+                      });
+                      setShowAddTechnician(true);
+                    }}
+                  />
+                )}
+
                 <div>
                   <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2 flex items-center">
                     <Calendar className="w-4 h-4 mr-2" />
@@ -944,6 +978,26 @@ export function TicketDetailModal({ isOpen, onClose, ticketId, onUpdate }: Ticke
                         className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                       />
                     </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                        Customer Arrival Window
+                      </label>
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="time"
+                          value={arrivalWindowStart}
+                          onChange={(e) => setArrivalWindowStart(e.target.value)}
+                          className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <span className="text-xs text-gray-500 dark:text-gray-400">to</span>
+                        <input
+                          type="time"
+                          value={arrivalWindowEnd}
+                          onChange={(e) => setArrivalWindowEnd(e.target.value)}
+                          className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                    </div>
                     {ticket.completed_date && (
                       <p className="text-sm text-gray-600 dark:text-gray-400">
                         Completed: {new Date(ticket.completed_date).toLocaleString()}
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CheckSquare, Square } from 'lucide-react';
+import { PreventiveMaintenanceService, PMChecklistItem } from '../../services/PreventiveMaintenanceService';
+
+interface PMChecklistProps {
+  workOrderId?: string;
+  ticketId?: string;
+  readOnly?: boolean;
+}
+
+export function PMChecklist({ workOrderId, ticketId, readOnly = false }: PMChecklistProps) {
+  const [items, setItems] = useState<PMChecklistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    const data = await PreventiveMaintenanceService.getChecklist({ workOrderId, ticketId });
+    setItems(data);
+    setLoading(false);
+  }, [workOrderId, ticketId]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const handleToggle = async (item: PMChecklistItem) => {
+    setSavingId(item.id);
+    try {
+      const result = await PreventiveMaintenanceService.setChecklistItem(item.id, !item.is_completed);
+      if (!result.success) {
+        alert(result.error || 'Failed to update checklist');
+        return;
+      }
+      await loadItems();
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading checklist...</p>;
+  }
+
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No checklist tasks</p>;
+  }
+
+  const done = items.filter((i) => i.is_completed).length;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {done} of {items.length} done
+      </p>
+      {items.map((item) => (
+        <button
+          key={item.id}
+          type="button"
+          onClick={() => handleToggle(item)}
+          disabled={readOnly || savingId === item.id}
+          className="w-full flex items-start space-x-3 text-left disabled:cursor-default"
+        >
+          {item.is_completed ? (
+            <CheckSquare className="w-5 h-5 text-green-600 flex-shrink-0" />
+          ) : (
+            <Square className="w-5 h-5 text-gray-400 flex-shrink-0" />
+          )}
+          <div className="flex-1">
+            <p className={`text-sm ${item.is_completed ? 'text-gray-500 line-through' : 'text-gray-900 dark:text-white'}`}>
+              {item.description}
+              {item.is_required && !item.is_completed && <span className="ml-1 text-red-600">*</span>}
+            </p>
+            {item.is_completed && item.completed_at && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {item.completed_by_name || 'Done'} · {new Date(item.completed_at).toLocaleString()}
+              </p>
+            )}
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
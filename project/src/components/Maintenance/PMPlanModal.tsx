@@ -0,0 +1,518 @@
+import { useState, useEffect } from 'react';
+import { X, CalendarCheck, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import {
+  PreventiveMaintenanceService,
+  PMPlan,
+  PMPlanTaskInput,
+  PMTargetType,
+  PMTriggerType,
+} from '../../services/PreventiveMaintenanceService';
+import { DowntimeService, DowntimeReason } from '../../services/DowntimeService';
+
+interface AssetOption {
+  id: string;
+  name: string;
+  work_center: { name: string } | null;
+}
+
+interface ContractOption {
+  id: string;
+  name: string;
+  customer_id: string;
+  included_visits_per_year: number | null;
+  customer: { name: string } | null;
+}
+
+interface EquipmentOption {
+  id: string;
+  customer_id: string | null;
+  equipment_type: string;
+  manufacturer: string;
+  model_number: string;
+  serial_number: string;
+}
+
+interface TechnicianOption {
+  id: string;
+  full_name: string;
+}
+
+interface PMPlanModalProps {
+  plan?: PMPlan | null;
+  targetType: PMTargetType;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const TRIGGER_HELP: Record<PMTriggerType, string> = {
+  calendar: 'Every N days from the next due date.',
+  runtime: 'After N hours in RUN state since the last completion.',
+  count: 'After N units produced on the asset since the last completion.',
+};
+
+export function PMPlanModal({ plan, targetType, onClose, onSaved }: PMPlanModalProps) {
+  const isShopAsset = targetType === 'shop_asset';
+
+  const [assets, setAssets] = useState<AssetOption[]>([]);
+  const [contracts, setContracts] = useState<ContractOption[]>([]);
+  const [equipment, setEquipment] = useState<EquipmentOption[]>([]);
+  const [technicians, setTechnicians] = useState<TechnicianOption[]>([]);
+  const [reasons, setReasons] = useState<DowntimeReason[]>([]);
+
+  const [name, setName] = useState(plan?.name || '');
+  const [description, setDescription] = useState(plan?.description || '');
+  const [assetId, setAssetId] = useState(plan?.equipment_asset_id || '');
+  const [contractId, setContractId] = useState(plan?.service_contract_id || '');
+  const [equipmentId, setEquipmentId] = useState(plan?.equipment_id || '');
+  const [triggerType, setTriggerType] = useState<PMTriggerType>(plan?.trigger_type || 'calendar');
+  const [intervalDays, setIntervalDays] = useState<string>(plan?.interval_days?.toString() || '');
+  const [intervalHours, setIntervalHours] = useState<string>(plan?.interval_runtime_hours?.toString() || '');
+  const [intervalCount, setIntervalCount] = useState<string>(plan?.interval_count?.toString() || '');
+  const [leadDays, setLeadDays] = useState(plan?.lead_days ?? 0);
+  const [duration, setDuration] = useState(plan?.estimated_duration_minutes ?? 60);
+  const [createsDowntime, setCreatesDowntime] = useState(plan?.creates_planned_downtime ?? true);
+  const [downtimeStart, setDowntimeStart] = useState((plan?.downtime_start_time || '06:00').slice(0, 5));
+  const [reasonId, setReasonId] = useState(plan?.downtime_reason_code_id || '');
+  const [assignedTo, setAssignedTo] = useState(plan?.assigned_to || '');
+  const [nextDueDate, setNextDueDate] = useState(plan?.next_due_date || '');
+  const [isActive, setIsActive] = useState(plan?.is_active ?? true);
+  const [tasks, setTasks] = useState<PMPlanTaskInput[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const [{ data: techs }, planTasks] = await Promise.all([
+        supabase.from('profiles').select('id, full_name').eq('role', 'technician').eq('is_active', true).order('full_name'),
+        plan ? PreventiveMaintenanceService.getPlanTasks(plan.id) : Promise.resolve([]),
+      ]);
+      setTechnicians((techs as unknown as TechnicianOption[]) || []);
+      setTasks(planTasks.map((t) => ({ description: t.description, is_required: t.is_required })));
+
+      if (isShopAsset) {
+        const [{ data: assetData }, reasonData] = await Promise.all([
+          supabase
+            .from('equipment_assets')
+            .select('id, name, work_center:work_centers(name)')
+            .eq('is_active', true)
+            .order('name'),
+          DowntimeService.getReasons(true),
+        ]);
+        setAssets((assetData as unknown as AssetOption[]) || []);
+        setReasons(reasonData.filter((r) => r.category === 'planned'));
+      } else {
+        const [{ data: contractData }, { data: equipmentData }] = await Promise.all([
+          supabase
+            .from('service_contracts')
+            .select('id, name, customer_id, included_visits_per_year, customer:customers(name)')
+            .eq('status', 'active')
+            .order('name'),
+          supabase
+            .from('equipment')
+            .select('id, customer_id, equipment_type, manufacturer, model_number, serial_number')
+            .eq('is_active', true),
+        ]);
+        setContracts((contractData as unknown as ContractOption[]) || []);
+        setEquipment((equipmentData as unknown as EquipmentOption[]) || []);
+      }
+    };
+    load();
+  }, [plan, isShopAsset]);
+
+  const selectedContract = contracts.find((c) => c.id === contractId);
+  const contractEquipment = equipment.filter((eq) => eq.customer_id === selectedContract?.customer_id);
+  const visitIntervalDays = selectedContract?.included_visits_per_year
+    ? Math.floor(365 / selectedContract.included_visits_per_year)
+    : null;
+
+  const updateTask = (index: number, changes: Partial<PMPlanTaskInput>) => {
+    setTasks((prev) => prev.map((t, i) => (i === index ? { ...t, ...changes } : t)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+    try {
+      const input = {
+        name,
+        description,
+        target_type: targetType,
+        equipment_asset_id: assetId || null,
+        equipment_id: equipmentId || null,
+        service_contract_id: contractId || null,
+        trigger_type: isShopAsset ? triggerType : 'calendar' as PMTriggerType,
+        interval_days: intervalDays ? parseInt(intervalDays) : null,
+        interval_runtime_hours: intervalHours ? parseFloat(intervalHours) : null,
+        interval_count: intervalCount ? parseFloat(intervalCount) : null,
+        lead_days: leadDays,
+        estimated_duration_minutes: duration,
+        creates_planned_downtime: createsDowntime,
+        downtime_start_time: downtimeStart,
+        downtime_reason_code_id: reasonId || null,
+        assigned_to: assignedTo || null,
+        next_due_date: nextDueDate || null,
+        is_active: isActive,
+        tasks: tasks.filter((t) => t.description.trim()),
+      };
+
+      const result = plan
+        ? await PreventiveMaintenanceService.updatePlan(plan.id, input)
+        : await PreventiveMaintenanceService.createPlan(input);
+
+      if (!result.success) {
+        setError(result.error || 'Failed to save PM plan');
+        return;
+      }
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <CalendarCheck className="w-6 h-6 text-blue-600" />
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+              {plan ? 'Edit PM Plan' : 'New PM Plan'}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className={labelClass}>Plan Name *</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={isShopAsset ? 'Quarterly lubrication' : 'Spring AC tune-up'}
+              className={inputClass}
+              required
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+
+          {isShopAsset ? (
+            <>
+              <div>
+                <label className={labelClass}>Asset *</label>
+                <select value={assetId} onChange={(e) => setAssetId(e.target.value)} className={inputClass} required>
+                  <option value="">Select asset...</option>
+                  {assets.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {a.name}{a.work_center ? ` (${a.work_center.name})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Trigger *</label>
+                  <select
+                    value={triggerType}
+                    onChange={(e) => setTriggerType(e.target.value as PMTriggerType)}
+                    className={inputClass}
+                  >
+                    <option value="calendar">Calendar</option>
+                    <option value="runtime">Runtime hours</option>
+                    <option value="count">Production count</option>
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{TRIGGER_HELP[triggerType]}</p>
+                </div>
+                <div>
+                  {triggerType === 'calendar' && (
+                    <>
+                      <label className={labelClass}>Every (days) *</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={intervalDays}
+                        onChange={(e) => setIntervalDays(e.target.value)}
+                        className={inputClass}
+                        required
+                      />
+                    </>
+                  )}
+                  {triggerType === 'runtime' && (
+                    <>
+                      <label className={labelClass}>Every (run hours) *</label>
+                      <input
+                        type="number"
+                        min="0.01"
+                        step="any"
+                        value={intervalHours}
+                        onChange={(e) => setIntervalHours(e.target.value)}
+                        className={inputClass}
+                        required
+                      />
+                    </>
+                  )}
+                  {triggerType === 'count' && (
+                    <>
+                      <label className={labelClass}>Every (units) *</label>
+                      <input
+                        type="number"
+                        min="1"
+                        step="any"
+                        value={intervalCount}
+                        onChange={(e) => setIntervalCount(e.target.value)}
+                        className={inputClass}
+                        required
+                      />
+                    </>
+                  )}
+                </div>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Service Contract *</label>
+                  <select
+                    value={contractId}
+                    onChange={(e) => {
+                      setContractId(e.target.value);
+                      setEquipmentId('');
+                    }}
+                    className={inputClass}
+                    required
+                  >
+                    <option value="">Select contract...</option>
+                    {contracts.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.customer?.name ? `${c.customer.name} - ` : ''}{c.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Equipment *</label>
+                  <select
+                    value={equipmentId}
+                    onChange={(e) => setEquipmentId(e.target.value)}
+                    className={inputClass}
+                    required
+                    disabled={!contractId}
+                  >
+                    <option value="">Select equipment...</option>
+                    {contractEquipment.map((eq) => (
+                      <option key={eq.id} value={eq.id}>
+                        {eq.equipment_type} - {eq.manufacturer} {eq.model_number} ({eq.serial_number})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>Every (days)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={intervalDays}
+                  onChange={(e) => setIntervalDays(e.target.value)}
+                  placeholder={visitIntervalDays ? `${visitIntervalDays} (from included visits)` : ''}
+                  className={inputClass}
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {selectedContract
+                    ? `Contract includes ${selectedContract.included_visits_per_year || 0} visits per year. Leave blank to spread them evenly; no PM tickets are generated once the term's visits are used.`
+                    : 'Leave blank to pace visits by the contract.'}
+                </p>
+              </div>
+            </>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            {(!isShopAsset || triggerType === 'calendar') && (
+              <div>
+                <label className={labelClass}>Next Due</label>
+                <input
+                  type="date"
+                  value={nextDueDate}
+                  onChange={(e) => setNextDueDate(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            )}
+            {(!isShopAsset || triggerType === 'calendar') && (
+              <div>
+                <label className={labelClass}>Lead (days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={leadDays}
+                  onChange={(e) => setLeadDays(parseInt(e.target.value) || 0)}
+                  className={inputClass}
+                />
+              </div>
+            )}
+            <div>
+              <label className={labelClass}>Duration (min)</label>
+              <input
+                type="number"
+                min="1"
+                value={duration}
+                onChange={(e) => setDuration(parseInt(e.target.value) || 60)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {isShopAsset && (
+            <div className="grid grid-cols-3 gap-4 items-end">
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300 pb-2">
+                <input
+                  type="checkbox"
+                  checked={createsDowntime}
+                  onChange={(e) => setCreatesDowntime(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <span>Plan downtime</span>
+              </label>
+              {createsDowntime && (
+                <>
+                  <div>
+                    <label className={labelClass}>Starts at</label>
+                    <input
+                      type="time"
+                      value={downtimeStart}
+                      onChange={(e) => setDowntimeStart(e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Reason</label>
+                    <select value={reasonId} onChange={(e) => setReasonId(e.target.value)} className={inputClass}>
+                      <option value="">None</option>
+                      {reasons.map((r) => (
+                        <option key={r.id} value={r.id}>
+                          {r.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Assign To</label>
+            <select value={assignedTo} onChange={(e) => setAssignedTo(e.target.value)} className={inputClass}>
+              <option value="">Unassigned</option>
+              {technicians.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.full_name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Checklist Tasks</label>
+              <button
+                type="button"
+                onClick={() => setTasks((prev) => [...prev, { description: '', is_required: true }])}
+                className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add Task</span>
+              </button>
+            </div>
+            {tasks.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No tasks. Generated work will have no checklist.</p>
+            ) : (
+              <div className="space-y-2">
+                {tasks.map((task, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <span className="text-sm text-gray-500 dark:text-gray-400 w-6">{index + 1}.</span>
+                    <input
+                      type="text"
+                      value={task.description}
+                      onChange={(e) => updateTask(index, { description: e.target.value })}
+                      placeholder="Inspect drive belt for wear"
+                      className={inputClass}
+                    />
+                    <label className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={task.is_required ?? true}
+                        onChange={(e) => updateTask(index, { is_required: e.target.checked })}
+                        className="rounded border-gray-300"
+                      />
+                      <span>Required</span>
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setTasks((prev) => prev.filter((_, i) => i !== index))}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={isActive}
+              onChange={(e) => setIsActive(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>Active</span>
+          </label>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex items-center justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Plan'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
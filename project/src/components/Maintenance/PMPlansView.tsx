@@ -0,0 +1,453 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import {
+  CalendarCheck,
+  Plus,
+  Edit2,
+  Trash2,
+  RefreshCw,
+  Play,
+  CheckCircle,
+  Ban,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+import {
+  PreventiveMaintenanceService,
+  MaintenanceWorkOrder,
+  MaintenanceWorkOrderStatus,
+  PMPlan,
+  PMTargetType,
+} from '../../services/PreventiveMaintenanceService';
+import { useAuth } from '../../contexts/AuthContext';
+import { PMPlanModal } from './PMPlanModal';
+import { PMChecklist } from './PMChecklist';
+
+interface PMPlansViewProps {
+  targetType: PMTargetType;
+}
+
+const WO_STATUS_STYLES: Record<MaintenanceWorkOrderStatus, string> = {
+  open: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400',
+  in_progress: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
+  completed: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+  cancelled: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const describeTrigger = (plan: PMPlan) => {
+  if (plan.trigger_type === 'runtime') return `Every ${Number(plan.interval_runtime_hours)} run hours`;
+  if (plan.trigger_type === 'count') return `Every ${Number(plan.interval_count).toLocaleString()} units`;
+  if (plan.interval_days) return `Every ${plan.interval_days} days`;
+  return plan.included_visits_per_year
+    ? `${plan.included_visits_per_year} visits / year`
+    : 'Contract visits';
+};
+
+const formatDate = (value: string | null | undefined) =>
+  value ? new Date(value.length === 10 ? `${value}T00:00:00` : value).toLocaleDateString() : '—';
+
+export function PMPlansView({ targetType }: PMPlansViewProps) {
+  const { profile } = useAuth();
+  const canManage = ['admin', 'dispatcher', 'supervisor'].includes(profile?.role || '');
+  const isShopAsset = targetType === 'shop_asset';
+
+  const [tab, setTab] = useState<'work-orders' | 'plans'>(isShopAsset ? 'work-orders' : 'plans');
+  const [plans, setPlans] = useState<PMPlan[]>([]);
+  const [meters, setMeters] = useState<Record<string, number | null>>({});
+  const [workOrders, setWorkOrders] = useState<MaintenanceWorkOrder[]>([]);
+  const [showClosed, setShowClosed] = useState(false);
+  const [expandedWoId, setExpandedWoId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<PMPlan | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [planData, woData] = await Promise.all([
+        PreventiveMaintenanceService.getPlans(targetType),
+        isShopAsset
+          ? PreventiveMaintenanceService.getWorkOrders({
+              status: showClosed ? undefined : ['open', 'in_progress'],
+            })
+          : Promise.resolve([]),
+      ]);
+      setPlans(planData);
+      setWorkOrders(woData);
+
+      // Meter readings for runtime/count plans
+      const metered = planData.filter((p) => p.trigger_type !== 'calendar');
+      const readings = await Promise.all(
+        metered.map((p) => PreventiveMaintenanceService.getMeterReading(p.id))
+      );
+      setMeters(Object.fromEntries(metered.map((p, i) => [p.id, readings[i]])));
+    } catch (error) {
+      console.error('Error loading PM data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [targetType, isShopAsset, showClosed]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const result = await PreventiveMaintenanceService.generateDueWork();
+      if (!result.success) {
+        alert(result.error || 'Failed to generate PM work');
+        return;
+      }
+      const generated = result.generated || [];
+      alert(
+        generated.length === 0
+          ? 'No PM plans are due.'
+          : `Generated ${generated.length} PM ${generated.length === 1 ? 'job' : 'jobs'}:\n\n${generated
+              .map((g) => `${g.plan_name}: ${g.reason}`)
+              .join('\n')}`
+      );
+      loadData();
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleDeletePlan = async (plan: PMPlan) => {
+    if (!confirm(`Delete PM plan "${plan.name}"? Work already generated is kept.`)) return;
+
+    const result = await PreventiveMaintenanceService.deletePlan(plan.id);
+    if (!result.success) {
+      alert(result.error || 'Failed to delete PM plan');
+      return;
+    }
+    loadData();
+  };
+
+  const handleStart = async (wo: MaintenanceWorkOrder) => {
+    const result = await PreventiveMaintenanceService.startWorkOrder(wo.id);
+    if (!result.success) {
+      alert(result.error || 'Failed to start work order');
+      return;
+    }
+    loadData();
+  };
+
+  const handleComplete = async (wo: MaintenanceWorkOrder) => {
+    const notes = prompt(`Complete ${wo.wo_number}. Notes (optional):`);
+    if (notes === null) return;
+
+    const result = await PreventiveMaintenanceService.completeWorkOrder(wo.id, notes);
+    if (!result.success) {
+      alert(result.error || 'Failed to complete work order');
+      return;
+    }
+    loadData();
+  };
+
+  const handleCancel = async (wo: MaintenanceWorkOrder) => {
+    const reason = prompt(`Cancel ${wo.wo_number}? Reason:`);
+    if (!reason) return;
+
+    const result = await PreventiveMaintenanceService.cancelWorkOrder(wo.id, reason);
+    if (!result.success) {
+      alert(result.error || 'Failed to cancel work order');
+      return;
+    }
+    loadData();
+  };
+
+  const describeMeter = (plan: PMPlan) => {
+    const reading = meters[plan.id];
+    if (reading === undefined || reading === null) return null;
+    const target = Number(plan.trigger_type === 'runtime' ? plan.interval_runtime_hours : plan.interval_count);
+    return `${reading.toLocaleString()} / ${target.toLocaleString()}${plan.trigger_type === 'runtime' ? ' h' : ''}`;
+  };
+
+  if (loading && plans.length === 0 && workOrders.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <CalendarCheck className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+              {isShopAsset ? 'Maintenance' : 'PM Plans'}
+            </h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {isShopAsset
+                ? 'Preventive maintenance plans and work orders for shop assets'
+                : 'Preventive maintenance visits for contract customer equipment'}
+            </p>
+          </div>
+        </div>
+        {canManage && (
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={handleGenerate}
+              disabled={generating}
+              className="flex items-center space-x-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${generating ? 'animate-spin' : ''}`} />
+              <span>Generate Due PM</span>
+            </button>
+            <button
+              onClick={() => {
+                setEditingPlan(null);
+                setShowModal(true);
+              }}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Plan</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isShopAsset && (
+        <div className="flex space-x-4 border-b border-gray-200 dark:border-gray-700">
+          {(['work-orders', 'plans'] as const).map((t) => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`pb-2 text-sm font-medium border-b-2 ${
+                tab === t
+                  ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400'
+              }`}
+            >
+              {t === 'work-orders' ? `Work Orders (${workOrders.filter((w) => w.status === 'open' || w.status === 'in_progress').length})` : `PM Plans (${plans.length})`}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {tab === 'work-orders' && (
+        <div className="card overflow-hidden">
+          <div className="flex items-center justify-end p-4 border-b border-gray-200 dark:border-gray-700">
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={showClosed}
+                onChange={(e) => setShowClosed(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              <span>Show completed and cancelled</span>
+            </label>
+          </div>
+          {workOrders.length === 0 ? (
+            <p className="p-8 text-center text-gray-500 dark:text-gray-400">No maintenance work orders</p>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="w-8"></th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Work Order</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Asset</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Due</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Planned Downtime</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {workOrders.map((wo) => {
+                  const isOpen = wo.status === 'open' || wo.status === 'in_progress';
+                  const expanded = expandedWoId === wo.id;
+                  return (
+                    <Fragment key={wo.id}>
+                      <tr className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                        <td className="pl-4">
+                          <button
+                            onClick={() => setExpandedWoId(expanded ? null : wo.id)}
+                            className="text-gray-400 hover:text-gray-600"
+                          >
+                            {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          </button>
+                        </td>
+                        <td className="px-4 py-3">
+                          <p className="text-sm font-medium text-gray-900 dark:text-white">{wo.wo_number}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">{wo.title}</p>
+                          {wo.trigger_reason && (
+                            <p className="text-xs text-gray-400 dark:text-gray-500">{wo.trigger_reason}</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                          {wo.asset_name}
+                          {wo.work_center_name && (
+                            <span className="block text-xs text-gray-500 dark:text-gray-400">{wo.work_center_name}</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{formatDate(wo.due_date)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                          {wo.downtime_start_ts
+                            ? `${new Date(wo.downtime_start_ts).toLocaleString()} – ${new Date(wo.downtime_end_ts || wo.downtime_start_ts).toLocaleTimeString()}`
+                            : '—'}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className={`px-2 py-1 text-xs font-medium rounded-full ${WO_STATUS_STYLES[wo.status]}`}>
+                            {wo.status.replace('_', ' ')}
+                          </span>
+                          {wo.assigned_to_name && (
+                            <span className="block text-xs text-gray-500 dark:text-gray-400 mt-1">{wo.assigned_to_name}</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                          {wo.status === 'open' && (
+                            <button
+                              onClick={() => handleStart(wo)}
+                              className="p-1 text-gray-500 hover:text-blue-600"
+                              title="Start"
+                            >
+                              <Play className="w-4 h-4" />
+                            </button>
+                          )}
+                          {isOpen && (
+                            <button
+                              onClick={() => handleComplete(wo)}
+                              className="p-1 text-gray-500 hover:text-green-600"
+                              title="Complete"
+                            >
+                              <CheckCircle className="w-4 h-4" />
+                            </button>
+                          )}
+                          {isOpen && canManage && (
+                            <button
+                              onClick={() => handleCancel(wo)}
+                              className="p-1 text-gray-500 hover:text-red-600"
+                              title="Cancel"
+                            >
+                              <Ban className="w-4 h-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                      {expanded && (
+                        <tr>
+                          <td></td>
+                          <td colSpan={6} className="px-4 pb-4">
+                            {wo.completion_notes && (
+                              <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">{wo.completion_notes}</p>
+                            )}
+                            <PMChecklist workOrderId={wo.id} readOnly={!isOpen} />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {tab === 'plans' && (
+        <div className="card overflow-hidden">
+          {plans.length === 0 ? (
+            <p className="p-8 text-center text-gray-500 dark:text-gray-400">No PM plans yet</p>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Plan</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    {isShopAsset ? 'Asset' : 'Customer / Equipment'}
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Trigger</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Next Due</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Last Done</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Assigned</th>
+                  {canManage && (
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Actions</th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {plans.map((plan) => {
+                  const meter = describeMeter(plan);
+                  return (
+                    <tr key={plan.id} className={`hover:bg-gray-50 dark:hover:bg-gray-800 ${plan.is_active ? '' : 'opacity-50'}`}>
+                      <td className="px-4 py-3">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">{plan.name}</p>
+                        {!plan.is_active && <p className="text-xs text-gray-500">Inactive</p>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {isShopAsset ? (
+                          <>
+                            {plan.asset_name}
+                            {plan.work_center_name && (
+                              <span className="block text-xs text-gray-500 dark:text-gray-400">{plan.work_center_name}</span>
+                            )}
+                          </>
+                        ) : (
+                          <>
+                            {plan.customer_name}
+                            <span className="block text-xs text-gray-500 dark:text-gray-400">{plan.equipment_label}</span>
+                            <span className="block text-xs text-gray-400 dark:text-gray-500">{plan.contract_name}</span>
+                          </>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {describeTrigger(plan)}
+                        {meter && <span className="block text-xs text-gray-500 dark:text-gray-400">Meter: {meter}</span>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {plan.trigger_type === 'calendar' ? formatDate(plan.next_due_date) : 'On meter'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{formatDate(plan.last_completed_at)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{plan.assigned_to_name || '—'}</td>
+                      {canManage && (
+                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => {
+                              setEditingPlan(plan);
+                              setShowModal(true);
+                            }}
+                            className="p-1 text-gray-500 hover:text-blue-600"
+                            title="Edit"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeletePlan(plan)}
+                            className="p-1 text-gray-500 hover:text-red-600"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {showModal && (
+        <PMPlanModal
+          plan={editingPlan}
+          targetType={targetType}
+          onClose={() => setShowModal(false)}
+          onSaved={() => {
+            setShowModal(false);
+            loadData();
+          }}
+        />
+      )}
+    </div>
+  );
+}
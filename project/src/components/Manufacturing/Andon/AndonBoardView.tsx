@@ -0,0 +1,385 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  Siren,
+  Maximize2,
+  Minimize2,
+  RefreshCw,
+  Wrench,
+  ShieldAlert,
+  Package,
+  CheckCircle,
+  X,
+} from 'lucide-react';
+import {
+  AndonService,
+  AndonCall,
+  AndonCallType,
+  AndonScope,
+  AndonTile,
+  AndonTileStatus,
+} from '../../../services/AndonService';
+import { ManufacturingService, WorkCenter } from '../../../services/ManufacturingService';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useAndonBoard } from '../../../hooks/useAndonBoard';
+
+// Board selection survives reloads so a wall display comes back on its own area
+const SCOPE_STORAGE_KEY = 'andonBoardScope';
+
+const TILE_STYLES: Record<AndonTileStatus, string> = {
+  down: 'bg-red-600 text-white',
+  attention: 'bg-yellow-400 text-gray-900',
+  planned: 'bg-blue-600 text-white',
+  running: 'bg-green-600 text-white',
+  idle: 'bg-gray-500 text-white',
+};
+
+const TILE_LABELS: Record<AndonTileStatus, string> = {
+  down: 'DOWN',
+  attention: 'ATTENTION',
+  planned: 'PLANNED STOP',
+  running: 'RUNNING',
+  idle: 'IDLE',
+};
+
+const CALL_TYPES: { type: AndonCallType; label: string; icon: typeof Wrench }[] = [
+  { type: 'maintenance', label: 'Maintenance', icon: Wrench },
+  { type: 'quality', label: 'Quality', icon: ShieldAlert },
+  { type: 'material', label: 'Material', icon: Package },
+];
+
+const formatElapsed = (since: string | null) => {
+  if (!since) return '';
+  const minutes = Math.max(0, Math.floor((Date.now() - new Date(since).getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export function AndonBoardView() {
+  const { profile } = useAuth();
+  const canManage = ['admin', 'dispatcher', 'supervisor'].includes(profile?.role || '');
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scope, setScope] = useState(() => localStorage.getItem(SCOPE_STORAGE_KEY) || '');
+  const [scopeWorkCenterIds, setScopeWorkCenterIds] = useState<string[] | null>(null);
+  const [scopes, setScopes] = useState<AndonScope[]>([]);
+  const [workCenters, setWorkCenters] = useState<WorkCenter[]>([]);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [busyCallId, setBusyCallId] = useState<string | null>(null);
+
+  const { tiles, loading, error, lastUpdated, refresh } = useAndonBoard({ workCenterIds: scopeWorkCenterIds });
+
+  useEffect(() => {
+    const load = async () => {
+      const [scopeData, wcs] = await Promise.all([
+        AndonService.getScopes(),
+        ManufacturingService.getWorkCenters(true),
+      ]);
+      setScopes(scopeData);
+      setWorkCenters(wcs);
+    };
+    load();
+  }, []);
+
+  // Scope value is '' (all), 'wc:<id>' or 'area:<plant hierarchy id>'
+  useEffect(() => {
+    localStorage.setItem(SCOPE_STORAGE_KEY, scope);
+
+    if (!scope) {
+      setScopeWorkCenterIds(null);
+    } else if (scope.startsWith('wc:')) {
+      setScopeWorkCenterIds([scope.slice(3)]);
+    } else {
+      AndonService.getWorkCenterIdsForScope(scope.slice(5)).then(setScopeWorkCenterIds);
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    const onChange = () => setIsFullscreen(document.fullscreenElement === containerRef.current);
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+
+  const toggleFullscreen = async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await containerRef.current?.requestFullscreen();
+      }
+    } catch (err) {
+      console.error('Error toggling full screen:', err);
+    }
+  };
+
+  const handleRaiseCall = async (tile: AndonTile, callType: AndonCallType) => {
+    const existing = tile.open_calls.find((c) => c.call_type === callType);
+    if (existing) {
+      alert(`A ${callType} call is already open for ${tile.work_center_name}.`);
+      return;
+    }
+
+    const message = prompt(`Call ${callType} to ${tile.work_center_name}. What is needed? (optional)`);
+    if (message === null) return;
+
+    const result = await AndonService.raiseCall({
+      work_center_id: tile.work_center_id,
+      call_type: callType,
+      message,
+      equipment_asset_id: tile.current_run?.equipment_asset_id || undefined,
+      operation_run_id: tile.current_run?.id,
+    });
+    if (!result.success) {
+      alert(result.error || 'Failed to raise help call');
+      return;
+    }
+    refresh();
+  };
+
+  const runCallAction = async (call: AndonCall, action: () => Promise<{ success: boolean; error?: string }>) => {
+    setBusyCallId(call.id);
+    try {
+      const result = await action();
+      if (!result.success) {
+        alert(result.error || 'Failed to update help call');
+        return;
+      }
+      refresh();
+    } finally {
+      setBusyCallId(null);
+    }
+  };
+
+  const handleResolve = (call: AndonCall) => {
+    const notes = prompt('Resolution notes (optional)');
+    if (notes === null) return;
+    runCallAction(call, () => AndonService.resolveCall(call.id, notes));
+  };
+
+  const handleCancel = (call: AndonCall) => {
+    if (!confirm(`Cancel the ${call.call_type} call?`)) return;
+    runCallAction(call, () => AndonService.cancelCall(call.id));
+  };
+
+  const areas = scopes.filter((s) => s.level_type === 'area');
+  const lines = scopes.filter((s) => s.level_type === 'line');
+
+  return (
+    <div
+      ref={containerRef}
+      className={isFullscreen ? 'h-full overflow-y-auto bg-gray-900 p-6 space-y-6' : 'space-y-6'}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Siren className="w-8 h-8 text-red-600 dark:text-red-400" />
+          <div>
+            <h1 className={`text-2xl font-bold ${isFullscreen ? 'text-white' : 'text-gray-900 dark:text-white'}`}>
+              Andon Board
+            </h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {lastUpdated ? `Live · updated ${lastUpdated.toLocaleTimeString()}` : 'Live work center status and help calls'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All work centers</option>
+            {areas.length > 0 && (
+              <optgroup label="Areas">
+                {areas.map((a) => (
+                  <option key={a.id} value={`area:${a.id}`}>{a.name}</option>
+                ))}
+              </optgroup>
+            )}
+            {lines.length > 0 && (
+              <optgroup label="Lines">
+                {lines.map((l) => (
+                  <option key={l.id} value={`area:${l.id}`}>{l.name}</option>
+                ))}
+              </optgroup>
+            )}
+            <optgroup label="Work Centers">
+              {workCenters.map((wc) => (
+                <option key={wc.id} value={`wc:${wc.id}`}>{wc.code} - {wc.name}</option>
+              ))}
+            </optgroup>
+          </select>
+          <button
+            onClick={() => refresh()}
+            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            title="Refresh"
+          >
+            <RefreshCw className="w-5 h-5" />
+          </button>
+          <button
+            onClick={toggleFullscreen}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            {isFullscreen ? <Minimize2 className="w-4 h-4" /> : <Maximize2 className="w-4 h-4" />}
+            <span>{isFullscreen ? 'Exit Full Screen' : 'Full Screen'}</span>
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : tiles.length === 0 ? (
+        <div className="card p-12 text-center text-gray-500 dark:text-gray-400">
+          No active work centers in this view
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {tiles.map((tile) => {
+            const behind = tile.target_qty !== null && tile.actual_good < tile.target_qty;
+
+            return (
+              <div key={tile.work_center_id} className={`rounded-lg shadow-lg overflow-hidden ${TILE_STYLES[tile.status]}`}>
+                <div className="p-4 space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="text-sm font-medium opacity-80">{tile.work_center_code}</p>
+                      <h2 className="text-xl font-bold">{tile.work_center_name}</h2>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-lg font-extrabold tracking-wide">{TILE_LABELS[tile.status]}</p>
+                      {tile.machine_state && (
+                        <p className="text-xs opacity-80">
+                          {tile.machine_state.replace('_', ' ')} · {formatElapsed(tile.state_since)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  {tile.current_run ? (
+                    <div>
+                      <p className="font-semibold">
+                        {tile.current_run.order_number}
+                        {tile.current_run.status === 'PAUSED' && <span className="ml-2 text-xs">(paused)</span>}
+                      </p>
+                      <p className="text-sm opacity-80 truncate">
+                        {tile.current_run.order_title}
+                        {tile.current_run.step_name && ` · ${tile.current_run.step_name}`}
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-sm opacity-80">No operation running</p>
+                  )}
+
+                  {tile.current_run && (
+                    <div className="grid grid-cols-3 gap-2 text-center bg-black/10 rounded-lg py-2">
+                      <div>
+                        <p className="text-xs uppercase opacity-80">Target</p>
+                        <p className="text-3xl font-bold">{tile.target_qty ?? '—'}</p>
+                      </div>
+                      <div>
+                        <p className="text-xs uppercase opacity-80">Actual</p>
+                        <p className={`text-3xl font-bold ${behind ? 'underline decoration-4' : ''}`}>
+                          {tile.actual_good}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-xs uppercase opacity-80">Scrap</p>
+                        <p className="text-3xl font-bold">{tile.actual_scrap}</p>
+                      </div>
+                    </div>
+                  )}
+
+                  {(tile.open_ncr_count > 0 || tile.open_spc_violation_count > 0) && (
+                    <div className="flex flex-wrap gap-2 text-xs font-semibold">
+                      {tile.open_ncr_count > 0 && (
+                        <span className="px-2 py-1 rounded-full bg-black/20">
+                          {tile.open_ncr_count} open NCR{tile.open_ncr_count !== 1 ? 's' : ''}
+                        </span>
+                      )}
+                      {tile.open_spc_violation_count > 0 && (
+                        <span className="px-2 py-1 rounded-full bg-black/20">
+                          {tile.open_spc_violation_count} SPC alarm{tile.open_spc_violation_count !== 1 ? 's' : ''}
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  {tile.open_calls.length > 0 && (
+                    <div className="space-y-2">
+                      {tile.open_calls.map((call) => (
+                        <div key={call.id} className="bg-white/90 text-gray-900 rounded-lg p-2 text-sm">
+                          <div className="flex items-center justify-between">
+                            <span className="font-bold uppercase">
+                              {call.call_type} · {formatElapsed(call.raised_at)}
+                            </span>
+                            <span className="text-xs">
+                              {call.status === 'acknowledged'
+                                ? `On the way: ${call.acknowledged_by_name || 'responder'}`
+                                : 'Waiting'}
+                            </span>
+                          </div>
+                          {call.message && <p className="text-gray-700 mt-1">{call.message}</p>}
+                          <div className="flex items-center justify-end space-x-2 mt-2">
+                            {call.status === 'open' && (
+                              <button
+                                onClick={() => runCallAction(call, () => AndonService.acknowledgeCall(call.id))}
+                                disabled={busyCallId === call.id}
+                                className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                              >
+                                Acknowledge
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleResolve(call)}
+                              disabled={busyCallId === call.id}
+                              className="flex items-center space-x-1 px-2 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                            >
+                              <CheckCircle className="w-3 h-3" />
+                              <span>Resolve</span>
+                            </button>
+                            {call.status === 'open' && (canManage || call.raised_by === profile?.id) && (
+                              <button
+                                onClick={() => handleCancel(call)}
+                                disabled={busyCallId === call.id}
+                                className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                                title="Cancel call"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Help call buttons */}
+                <div className="grid grid-cols-3 border-t border-black/10">
+                  {CALL_TYPES.map(({ type, label, icon: Icon }) => {
+                    const active = tile.open_calls.some((c) => c.call_type === type);
+                    return (
+                      <button
+                        key={type}
+                        onClick={() => handleRaiseCall(tile, type)}
+                        className={`flex flex-col items-center py-3 text-sm font-semibold hover:bg-black/10 ${
+                          active ? 'bg-black/20' : ''
+                        }`}
+                      >
+                        <Icon className="w-6 h-6 mb-1" />
+                        <span>{label}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
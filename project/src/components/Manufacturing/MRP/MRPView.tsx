@@ -0,0 +1,441 @@
+import { useState, useEffect, useCallback, Fragment } from 'react';
+import {
+  Calculator,
+  Play,
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  ShoppingCart,
+  Factory,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+import {
+  MRPService,
+  MRPRun,
+  MRPPlannedOrder,
+  MRPPlannedOrderStatus,
+  MRPPlannedOrderType,
+  MRPPeg,
+  MRPDemandSource,
+} from '../../../services/MRPService';
+import { useAuth } from '../../../contexts/AuthContext';
+
+const SOURCE_LABELS: Record<MRPDemandSource, string> = {
+  production_bom: 'Production BOM',
+  ticket_planned: 'Ticket (planned)',
+  ticket_request: 'Parts request',
+  safety_stock: 'Safety stock',
+  reorder_min: 'Reorder min',
+  dependent: 'Planned production',
+};
+
+const LEAD_SOURCE_LABELS: Record<string, string> = {
+  policy: 'policy',
+  vendor_history: 'vendor history',
+  vendor_catalog: 'vendor catalog',
+  vendor_default: 'vendor default',
+  default: 'default',
+  routing: 'routing',
+};
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const formatQty = (qty: number) => Number(qty).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export function MRPView() {
+  const { profile } = useAuth();
+  const canManage = ['admin', 'dispatcher', 'supervisor'].includes(profile?.role || '');
+
+  const [latestRun, setLatestRun] = useState<MRPRun | null>(null);
+  const [orders, setOrders] = useState<MRPPlannedOrder[]>([]);
+  const [statusFilter, setStatusFilter] = useState<MRPPlannedOrderStatus | ''>('planned');
+  const [typeFilter, setTypeFilter] = useState<MRPPlannedOrderType | ''>('');
+  const [horizonDays, setHorizonDays] = useState(90);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [pegs, setPegs] = useState<MRPPeg[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [firming, setFirming] = useState(false);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const runs = await MRPService.getRuns(1);
+      const run = runs[0] || null;
+      setLatestRun(run);
+      setOrders(run
+        ? await MRPService.getPlannedOrders({
+            run_id: run.id,
+            status: statusFilter || undefined,
+            order_type: typeFilter || undefined,
+          })
+        : []);
+      setSelected(new Set());
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, typeFilter]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const result = await MRPService.runMRP({ horizon_days: horizonDays });
+      if (!result.success) {
+        alert(result.error || 'MRP run failed');
+      }
+      await loadData();
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleFirm = async () => {
+    if (!confirm(`Firm ${selected.size} planned order(s)?`)) return;
+    setFirming(true);
+    try {
+      const result = await MRPService.firmPlannedOrders([...selected]);
+      const created = [
+        ...result.purchase_orders.map(po => po.po_number),
+        ...result.production_orders.map(po => po.order_number),
+      ];
+      const messages: string[] = [];
+      if (created.length > 0) messages.push(`Created: ${created.join(', ')}`);
+      if (result.error) messages.push(result.error);
+      result.failed.forEach(f => messages.push(f.error));
+      if (messages.length > 0) alert(messages.join('\n'));
+      await loadData();
+    } finally {
+      setFirming(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm(`Cancel ${selected.size} planned order(s)?`)) return;
+    const result = await MRPService.cancelPlannedOrders([...selected]);
+    if (!result.success) {
+      alert(result.error || 'Failed to cancel planned orders');
+    }
+    await loadData();
+  };
+
+  const handleEditQuantity = async (order: MRPPlannedOrder) => {
+    const value = prompt(`Quantity for ${order.part_number}`, String(order.quantity));
+    if (value === null) return;
+    const quantity = Number(value);
+    if (!(quantity > 0)) {
+      alert('Quantity must be greater than zero');
+      return;
+    }
+    const result = await MRPService.updatePlannedOrder(order.id, { quantity });
+    if (!result.success) {
+      alert(result.error || 'Failed to update planned order');
+      return;
+    }
+    await loadData();
+  };
+
+  const toggleExpanded = async (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(id);
+    setPegs(await MRPService.getPegs(id));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const selectable = orders.filter(o => o.status === 'planned');
+  const allSelected = selectable.length > 0 && selectable.every(o => selected.has(o.id));
+  const purchaseCount = orders.filter(o => o.order_type === 'purchase').length;
+  const pastDueCount = orders.filter(o => o.is_past_due && o.status === 'planned').length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Calculator className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Material Planning</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Net production, ticket and reorder demand against stock and open orders
+            </p>
+          </div>
+        </div>
+        {canManage && (
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-600 dark:text-gray-300">Horizon</label>
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={horizonDays}
+              onChange={(e) => setHorizonDays(Math.max(1, parseInt(e.target.value) || 1))}
+              className="w-20 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+            <span className="text-sm text-gray-600 dark:text-gray-300">days</span>
+            <button
+              onClick={handleRun}
+              disabled={running}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Play className="w-4 h-4" />
+              <span>{running ? 'Running...' : 'Run MRP'}</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Run summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="card p-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Last Run</p>
+          <p className="text-lg font-semibold text-gray-900 dark:text-white">
+            {latestRun ? new Date(latestRun.started_at).toLocaleString() : 'Never'}
+          </p>
+          {latestRun?.status === 'failed' && (
+            <p className="text-xs text-red-600 mt-1">{latestRun.error_message || 'Failed'}</p>
+          )}
+        </div>
+        <div className="card p-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Parts Planned</p>
+          <p className="text-lg font-semibold text-gray-900 dark:text-white">{latestRun?.parts_planned ?? 0}</p>
+        </div>
+        <div className="card p-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Planned Orders</p>
+          <p className="text-lg font-semibold text-gray-900 dark:text-white">
+            {latestRun?.planned_order_count ?? 0}
+          </p>
+        </div>
+        <div className="card p-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Exceptions</p>
+          <p className={`text-lg font-semibold ${latestRun?.exception_count ? 'text-orange-600' : 'text-gray-900 dark:text-white'}`}>
+            {latestRun?.exception_count ?? 0}
+          </p>
+        </div>
+      </div>
+
+      {/* Planned orders */}
+      <div className="card overflow-hidden">
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as MRPPlannedOrderStatus | '')}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="">All statuses</option>
+              <option value="planned">Planned</option>
+              <option value="firmed">Firmed</option>
+              <option value="cancelled">Cancelled</option>
+            </select>
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as MRPPlannedOrderType | '')}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="">Purchase & production</option>
+              <option value="purchase">Purchase</option>
+              <option value="production">Production</option>
+            </select>
+            <span className="text-sm text-gray-500">
+              {purchaseCount} purchase, {orders.length - purchaseCount} production
+              {pastDueCount > 0 && <span className="text-red-600"> · {pastDueCount} past due</span>}
+            </span>
+          </div>
+          {canManage && (
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handleCancel}
+                disabled={selected.size === 0}
+                className="flex items-center space-x-1 px-3 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                <XCircle className="w-4 h-4" />
+                <span>Cancel</span>
+              </button>
+              <button
+                onClick={handleFirm}
+                disabled={selected.size === 0 || firming}
+                className="flex items-center space-x-1 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                <CheckCircle className="w-4 h-4" />
+                <span>{firming ? 'Firming...' : `Firm Selected (${selected.size})`}</span>
+              </button>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            <Calculator className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>{latestRun ? 'No planned orders match the filters' : 'Run MRP to plan material'}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700/50">
+                <tr className="text-left text-gray-600 dark:text-gray-300">
+                  <th className="px-4 py-3 w-8">
+                    {canManage && (
+                      <input
+                        type="checkbox"
+                        checked={allSelected}
+                        onChange={() => setSelected(allSelected ? new Set() : new Set(selectable.map(o => o.id)))}
+                      />
+                    )}
+                  </th>
+                  <th className="px-4 py-3">Part</th>
+                  <th className="px-4 py-3">Type</th>
+                  <th className="px-4 py-3">Source</th>
+                  <th className="px-4 py-3 text-right">Quantity</th>
+                  <th className="px-4 py-3">Release</th>
+                  <th className="px-4 py-3">Need</th>
+                  <th className="px-4 py-3">Lead Time</th>
+                  <th className="px-4 py-3">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {orders.map((order) => (
+                  <Fragment key={order.id}>
+                    <tr className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                      <td className="px-4 py-3">
+                        {canManage && order.status === 'planned' && (
+                          <input
+                            type="checkbox"
+                            checked={selected.has(order.id)}
+                            onChange={() => toggleSelected(order.id)}
+                          />
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <button
+                          onClick={() => toggleExpanded(order.id)}
+                          className="flex items-center text-left text-gray-900 dark:text-white"
+                        >
+                          {expandedId === order.id
+                            ? <ChevronDown className="w-4 h-4 mr-1 text-gray-400" />
+                            : <ChevronRight className="w-4 h-4 mr-1 text-gray-400" />}
+                          <span>
+                            <span className="font-medium">{order.part_number}</span>
+                            {order.part_description && (
+                              <span className="block text-xs text-gray-500">{order.part_description}</span>
+                            )}
+                          </span>
+                        </button>
+                        {order.exception_message && (
+                          <p className="flex items-center text-xs text-orange-600 mt-1">
+                            <AlertTriangle className="w-3 h-3 mr-1" />
+                            {order.exception_message}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {order.order_type === 'purchase' ? (
+                          <span className="inline-flex items-center text-blue-700 dark:text-blue-300">
+                            <ShoppingCart className="w-4 h-4 mr-1" /> Buy
+                          </span>
+                        ) : (
+                          <span className="inline-flex items-center text-purple-700 dark:text-purple-300">
+                            <Factory className="w-4 h-4 mr-1" /> Make
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700 dark:text-gray-300">
+                        {order.order_type === 'purchase' ? order.vendor_name || '—' : 'Released revision'}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {canManage && order.status === 'planned' ? (
+                          <button
+                            onClick={() => handleEditQuantity(order)}
+                            className="font-medium text-blue-600 hover:text-blue-700"
+                            title="Edit quantity"
+                          >
+                            {formatQty(order.quantity)}
+                          </button>
+                        ) : (
+                          <span className="font-medium text-gray-900 dark:text-white">{formatQty(order.quantity)}</span>
+                        )}
+                        {order.quantity !== order.net_requirement && (
+                          <span className="block text-xs text-gray-500">net {formatQty(order.net_requirement)}</span>
+                        )}
+                      </td>
+                      <td className={`px-4 py-3 ${order.is_past_due ? 'text-red-600 font-medium' : 'text-gray-700 dark:text-gray-300'}`}>
+                        {formatDate(order.release_date)}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{formatDate(order.need_date)}</td>
+                      <td className="px-4 py-3 text-gray-700 dark:text-gray-300">
+                        {order.lead_days}d
+                        {order.lead_time_source && (
+                          <span className="block text-xs text-gray-500">
+                            {LEAD_SOURCE_LABELS[order.lead_time_source] || order.lead_time_source}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 text-xs rounded-full ${
+                          order.status === 'firmed'
+                            ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                            : order.status === 'cancelled'
+                              ? 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400'
+                              : 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300'
+                        }`}>
+                          {order.status}
+                        </span>
+                        {(order.firmed_po_number || order.firmed_order_number) && (
+                          <span className="block text-xs text-gray-500 mt-1">
+                            {order.firmed_po_number || order.firmed_order_number}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedId === order.id && (
+                      <tr className="bg-gray-50 dark:bg-gray-700/30">
+                        <td></td>
+                        <td colSpan={8} className="px-4 py-3">
+                          <p className="text-xs font-medium text-gray-600 dark:text-gray-300 mb-2">Covers demand</p>
+                          {pegs.length === 0 ? (
+                            <p className="text-xs text-gray-500">No pegged demand</p>
+                          ) : (
+                            <ul className="space-y-1">
+                              {pegs.map((peg) => (
+                                <li key={peg.id} className="text-xs text-gray-700 dark:text-gray-300">
+                                  {formatDate(peg.need_date)} · {SOURCE_LABELS[peg.source_type] || peg.source_type}
+                                  {peg.source_reference && ` ${peg.source_reference}`} · {formatQty(peg.quantity)}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Cpu, Plus, Edit2, Trash2, RefreshCw, AlertTriangle } from 'lucide-react';
+import {
+  MachineIntegrationService,
+  MachineTagMapping,
+  MachineSignalLogEntry,
+  MachineSignalStatus,
+  MachineSignalType,
+  UnmappedTag,
+} from '../../../services/MachineIntegrationService';
+import { ManufacturingService, WorkCenter } from '../../../services/ManufacturingService';
+import { useAuth } from '../../../contexts/AuthContext';
+import { MachineTagMappingModal } from './MachineTagMappingModal';
+
+const SIGNAL_TYPE_LABELS: Record<MachineSignalType, string> = {
+  state: 'Run state',
+  cycle: 'Cycle',
+  good_count: 'Good count',
+  scrap_count: 'Scrap count',
+};
+
+const STATUS_STYLES: Record<MachineSignalStatus, string> = {
+  processed: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+  unchanged: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  stale: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  unmapped: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
+  no_active_run: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+};
+
+export function MachineIntegrationView() {
+  const { profile } = useAuth();
+  const canManage = ['admin', 'dispatcher', 'supervisor'].includes(profile?.role || '');
+
+  const [mappings, setMappings] = useState<MachineTagMapping[]>([]);
+  const [signals, setSignals] = useState<MachineSignalLogEntry[]>([]);
+  const [unmappedTags, setUnmappedTags] = useState<UnmappedTag[]>([]);
+  const [workCenters, setWorkCenters] = useState<WorkCenter[]>([]);
+  const [statusFilter, setStatusFilter] = useState<MachineSignalStatus | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingMapping, setEditingMapping] = useState<MachineTagMapping | null>(null);
+  const [prefill, setPrefill] = useState<{ source: string; tag: string } | null>(null);
+
+  const loadSignals = useCallback(async () => {
+    const log = await MachineIntegrationService.getSignalLog({
+      status: statusFilter || undefined,
+      limit: 100,
+    });
+    setSignals(log);
+  }, [statusFilter]);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [mappingData, unmapped, wcs] = await Promise.all([
+        MachineIntegrationService.getMappings(),
+        MachineIntegrationService.getUnmappedTags(),
+        ManufacturingService.getWorkCenters(true),
+      ]);
+      setMappings(mappingData);
+      // A tag mapped after its first signals no longer needs attention
+      setUnmappedTags(unmapped.filter(
+        (u) => !mappingData.some((m) => m.source === u.source && m.tag === u.tag && m.is_active)
+      ));
+      setWorkCenters(wcs);
+    } catch (error) {
+      console.error('Error loading machine integration data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useEffect(() => {
+    loadSignals();
+  }, [loadSignals]);
+
+  const openModal = (mapping: MachineTagMapping | null, unmapped?: UnmappedTag) => {
+    setEditingMapping(mapping);
+    setPrefill(unmapped ? { source: unmapped.source, tag: unmapped.tag } : null);
+    setShowModal(true);
+  };
+
+  const handleDelete = async (mapping: MachineTagMapping) => {
+    if (!confirm(`Delete the mapping for ${mapping.tag}? Signals for this tag will be logged as unmapped.`)) return;
+
+    const result = await MachineIntegrationService.deleteMapping(mapping.id);
+    if (!result.success) {
+      alert(result.error || 'Failed to delete mapping');
+      return;
+    }
+    loadData();
+  };
+
+  const describeMode = (mapping: MachineTagMapping) => {
+    if (mapping.signal_type === 'state') {
+      const entries = Object.entries(mapping.state_map || {});
+      return entries.length > 0
+        ? entries.map(([raw, state]) => `${raw}=${state}`).join(', ')
+        : 'State names';
+    }
+    const units = Number(mapping.units_per_signal);
+    return `${mapping.is_cumulative ? 'Running counter' : 'Delta'}${units !== 1 ? ` × ${units}` : ''}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Cpu className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Machine Integration</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Map PLC tags to work centers for automatic counts and downtime
+            </p>
+          </div>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => openModal(null)}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Map Tag</span>
+          </button>
+        )}
+      </div>
+
+      {/* Unmapped tags */}
+      {unmappedTags.length > 0 && (
+        <div className="card p-4 border-l-4 border-yellow-500">
+          <div className="flex items-center space-x-2 mb-3">
+            <AlertTriangle className="w-5 h-5 text-yellow-600" />
+            <h3 className="font-semibold text-gray-900 dark:text-white">Unmapped Tags</h3>
+            <span className="text-sm text-gray-500 dark:text-gray-400">Machines are sending these tags but nothing is recorded</span>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {unmappedTags.map((u) => (
+              <div
+                key={`${u.source}|${u.tag}`}
+                className="flex items-center space-x-2 px-3 py-1.5 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg text-sm"
+              >
+                <span className="text-gray-500 dark:text-gray-400">{u.source}</span>
+                <span className="font-mono text-gray-900 dark:text-white">{u.tag}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">({u.signal_count})</span>
+                {canManage && (
+                  <button
+                    onClick={() => openModal(null, u)}
+                    className="text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    Map
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Mappings */}
+      <div className="card overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="font-semibold text-gray-900 dark:text-white">Tag Mappings</h3>
+        </div>
+        {mappings.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            <Cpu className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No machine tags mapped yet</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Tag</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Signal</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Work Center / Equipment</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Mode</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Last Signal</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {mappings.map((mapping) => (
+                  <tr key={mapping.id} className={mapping.is_active ? '' : 'opacity-50'}>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-mono text-gray-900 dark:text-white">{mapping.tag}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {mapping.source}{mapping.description ? ` · ${mapping.description}` : ''}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
+                      {SIGNAL_TYPE_LABELS[mapping.signal_type]}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
+                      {mapping.work_center_name || '-'}
+                      {mapping.equipment_name && (
+                        <span className="text-gray-500 dark:text-gray-400"> / {mapping.equipment_name}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-300">{describeMode(mapping)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-300">
+                      {mapping.last_received_at ? new Date(mapping.last_received_at).toLocaleString() : 'Never'}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {canManage && (
+                        <>
+                          <button
+                            onClick={() => openModal(mapping)}
+                            className="p-1 text-gray-400 hover:text-blue-600"
+                            title="Edit mapping"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(mapping)}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="Delete mapping"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Signal log */}
+      <div className="card overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900 dark:text-white">Recent Signals</h3>
+          <div className="flex items-center space-x-2">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as MachineSignalStatus | '')}
+              className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="">All statuses</option>
+              {Object.keys(STATUS_STYLES).map((status) => (
+                <option key={status} value={status}>
+                  {status.replace(/_/g, ' ')}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={loadSignals}
+              className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              title="Refresh"
+            >
+              <RefreshCw className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        {signals.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            <p>No signals received</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Machine Time</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Tag</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Value</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Received</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {signals.map((signal) => (
+                  <tr key={signal.id}>
+                    <td className="px-4 py-3 text-sm text-gray-900 dark:text-white whitespace-nowrap">
+                      {new Date(signal.source_ts).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 text-sm font-mono text-gray-900 dark:text-white">{signal.tag}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-300">{signal.raw_value ?? '-'}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[signal.status]}`}>
+                        {signal.status.replace(/_/g, ' ')}
+                      </span>
+                      {signal.message && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{signal.message}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-300 whitespace-nowrap">
+                      {new Date(signal.received_at).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <MachineTagMappingModal
+          mapping={editingMapping}
+          initialSource={prefill?.source}
+          initialTag={prefill?.tag}
+          workCenters={workCenters}
+          onClose={() => setShowModal(false)}
+          onSaved={() => {
+            setShowModal(false);
+            loadData();
+            loadSignals();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import { useState, useEffect } from 'react';
+import { X, Cpu } from 'lucide-react';
+import { supabase } from '../../../lib/supabase';
+import {
+  MachineIntegrationService,
+  MachineTagMapping,
+  MachineSignalType,
+} from '../../../services/MachineIntegrationService';
+import { WorkCenter } from '../../../services/ManufacturingService';
+
+interface EquipmentOption {
+  id: string;
+  name: string;
+  work_center_id: string;
+}
+
+interface MachineTagMappingModalProps {
+  mapping?: MachineTagMapping | null;
+  initialSource?: string;
+  initialTag?: string;
+  workCenters: WorkCenter[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const SIGNAL_TYPE_HELP: Record<MachineSignalType, string> = {
+  state: 'Run state. Opens and closes equipment state events; stops become downtime.',
+  cycle: 'Machine cycles. Each cycle records units per signal as good.',
+  good_count: 'Good part counter. Recorded as good units.',
+  scrap_count: 'Scrap counter. Recorded as scrap units.',
+};
+
+// Raw PLC value -> equipment state, edited as "0=STOP, 1=RUN"
+const formatStateMap = (stateMap: Record<string, string>) =>
+  Object.entries(stateMap).map(([raw, state]) => `${raw}=${state}`).join(', ');
+
+const parseStateMap = (text: string): Record<string, string> =>
+  text
+    .split(',')
+    .map((pair) => pair.split('='))
+    .filter(([raw, state]) => raw?.trim() && state?.trim())
+    .reduce<Record<string, string>>((acc, [raw, state]) => {
+      acc[raw.trim()] = state.trim().toUpperCase();
+      return acc;
+    }, {});
+
+export function MachineTagMappingModal({
+  mapping,
+  initialSource,
+  initialTag,
+  workCenters,
+  onClose,
+  onSaved,
+}: MachineTagMappingModalProps) {
+  const [equipment, setEquipment] = useState<EquipmentOption[]>([]);
+  const [source, setSource] = useState(mapping?.source || initialSource || 'mqtt');
+  const [tag, setTag] = useState(mapping?.tag || initialTag || '');
+  const [signalType, setSignalType] = useState<MachineSignalType>(mapping?.signal_type || 'cycle');
+  const [workCenterId, setWorkCenterId] = useState(mapping?.work_center_id || '');
+  const [equipmentId, setEquipmentId] = useState(mapping?.equipment_asset_id || '');
+  const [stateMapText, setStateMapText] = useState(
+    mapping ? formatStateMap(mapping.state_map || {}) : '0=STOP, 1=RUN'
+  );
+  const [unitsPerSignal, setUnitsPerSignal] = useState(mapping?.units_per_signal ?? 1);
+  const [isCumulative, setIsCumulative] = useState(mapping?.is_cumulative ?? false);
+  const [description, setDescription] = useState(mapping?.description || '');
+  const [isActive, setIsActive] = useState(mapping?.is_active ?? true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data } = await supabase
+        .from('equipment_assets')
+        .select('id, name, work_center_id')
+        .eq('is_active', true)
+        .order('name');
+      setEquipment((data as unknown as EquipmentOption[]) || []);
+    };
+    load();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+    try {
+      const input = {
+        source,
+        tag,
+        signal_type: signalType,
+        work_center_id: workCenterId,
+        equipment_asset_id: equipmentId || null,
+        state_map: signalType === 'state' ? parseStateMap(stateMapText) : {},
+        units_per_signal: unitsPerSignal,
+        is_cumulative: signalType !== 'state' && isCumulative,
+        description,
+        is_active: isActive,
+      };
+
+      const result = mapping
+        ? await MachineIntegrationService.updateMapping(mapping.id, input)
+        : await MachineIntegrationService.createMapping(input);
+
+      if (!result.success) {
+        setError(result.error || 'Failed to save mapping');
+        return;
+      }
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const equipmentOptions = workCenterId
+    ? equipment.filter((eq) => eq.work_center_id === workCenterId)
+    : equipment;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <Cpu className="w-6 h-6 text-blue-600" />
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+              {mapping ? 'Edit Tag Mapping' : 'Map Machine Tag'}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Source *</label>
+              <input
+                type="text"
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                placeholder="mqtt"
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tag *</label>
+              <input
+                type="text"
+                value={tag}
+                onChange={(e) => setTag(e.target.value)}
+                placeholder="plant1/press3/cycles or ns=2;s=Press3.Cycles"
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Signal Type *</label>
+            <select
+              value={signalType}
+              onChange={(e) => setSignalType(e.target.value as MachineSignalType)}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="cycle">Cycle</option>
+              <option value="good_count">Good count</option>
+              <option value="scrap_count">Scrap count</option>
+              <option value="state">Run state</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{SIGNAL_TYPE_HELP[signalType]}</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Work Center *</label>
+              <select
+                value={workCenterId}
+                onChange={(e) => {
+                  setWorkCenterId(e.target.value);
+                  setEquipmentId('');
+                }}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+                required
+              >
+                <option value="">Select work center...</option>
+                {workCenters.map((wc) => (
+                  <option key={wc.id} value={wc.id}>
+                    {wc.code} - {wc.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Equipment{signalType === 'state' ? ' *' : ''}
+              </label>
+              <select
+                value={equipmentId}
+                onChange={(e) => setEquipmentId(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+                required={signalType === 'state'}
+              >
+                <option value="">{signalType === 'state' ? 'Select equipment...' : 'Whole work center'}</option>
+                {equipmentOptions.map((eq) => (
+                  <option key={eq.id} value={eq.id}>
+                    {eq.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {signalType === 'state' ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">State Map</label>
+              <input
+                type="text"
+                value={stateMapText}
+                onChange={(e) => setStateMapText(e.target.value)}
+                placeholder="0=STOP, 1=RUN, 2=IDLE"
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Raw value = RUN, STOP, IDLE, CHANGEOVER or PLANNED_STOP. Unlisted values are read as state names.
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Units per Signal</label>
+                <input
+                  type="number"
+                  min="0.0001"
+                  step="any"
+                  value={unitsPerSignal}
+                  onChange={(e) => setUnitsPerSignal(parseFloat(e.target.value) || 0)}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="flex items-end pb-2">
+                <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={isCumulative}
+                    onChange={(e) => setIsCumulative(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  <span>Running counter (not delta)</span>
+                </label>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={isActive}
+              onChange={(e) => setIsActive(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>Active</span>
+          </label>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex items-center justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Mapping'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
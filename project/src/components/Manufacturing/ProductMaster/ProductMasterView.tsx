@@ -0,0 +1,624 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Boxes,
+  Plus,
+  Trash2,
+  GitBranch,
+  CheckCircle,
+  Layers,
+  ListTree,
+  Search,
+} from 'lucide-react';
+import { useAuth } from '../../../contexts/AuthContext';
+import { supabase } from '../../../lib/supabase';
+import {
+  ProductMasterService,
+  ProductRevision,
+  ProductBOMLine,
+  ProductRoutingOperation,
+  BOMExplosionNode,
+  CreateProductBOMLineInput,
+  CreateRoutingOperationInput,
+} from '../../../services/ProductMasterService';
+
+interface Part {
+  id: string;
+  name: string;
+  part_number: string;
+}
+
+interface WorkCenterOption {
+  id: string;
+  name: string;
+  code: string;
+}
+
+const EMPTY_LINE: CreateProductBOMLineInput = {
+  component_part_id: '',
+  quantity_per: 1,
+  scrap_percent: 0,
+  is_phantom: false,
+};
+
+const EMPTY_OPERATION: CreateRoutingOperationInput = {
+  name: '',
+  work_center_id: '',
+  setup_minutes: 0,
+  run_minutes_per_unit: 0,
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm';
+
+export function ProductMasterView() {
+  const { profile } = useAuth();
+  const [revisions, setRevisions] = useState<ProductRevision[]>([]);
+  const [parts, setParts] = useState<Part[]>([]);
+  const [workCenters, setWorkCenters] = useState<WorkCenterOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+  const [bomLines, setBomLines] = useState<ProductBOMLine[]>([]);
+  const [operations, setOperations] = useState<ProductRoutingOperation[]>([]);
+  const [explosion, setExplosion] = useState<BOMExplosionNode[] | null>(null);
+  const [newProductPartId, setNewProductPartId] = useState('');
+  const [newLine, setNewLine] = useState<CreateProductBOMLineInput>(EMPTY_LINE);
+  const [newOperation, setNewOperation] = useState<CreateRoutingOperationInput>(EMPTY_OPERATION);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const canManage = profile?.role === 'admin' || profile?.role === 'dispatcher' || profile?.role === 'supervisor';
+  const selectedRevision = revisions.find((r) => r.id === selectedRevisionId) || null;
+  const isDraft = selectedRevision?.status === 'draft';
+
+  const loadRevisions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await ProductMasterService.getRevisions();
+      setRevisions(data);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadRevisionDetail = useCallback(async (revisionId: string) => {
+    try {
+      const detail = await ProductMasterService.getRevisionDetail(revisionId);
+      setBomLines(detail?.bomLines || []);
+      setOperations(detail?.operations || []);
+      setExplosion(null);
+    } catch (error) {
+      console.error('Error loading revision detail:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRevisions();
+    Promise.all([
+      supabase.from('parts').select('id, name, part_number').order('part_number'),
+      supabase.from('work_centers').select('id, name, code').eq('is_active', true).order('name'),
+    ]).then(([partsRes, wcRes]) => {
+      setParts((partsRes.data as unknown as Part[]) || []);
+      setWorkCenters((wcRes.data as unknown as WorkCenterOption[]) || []);
+    });
+  }, [loadRevisions]);
+
+  useEffect(() => {
+    if (selectedRevisionId) {
+      loadRevisionDetail(selectedRevisionId);
+    }
+  }, [selectedRevisionId, loadRevisionDetail]);
+
+  const runAction = async (key: string, action: () => Promise<{ success: boolean; error?: string }>) => {
+    setActionLoading(key);
+    try {
+      const result = await action();
+      if (!result.success) {
+        alert(result.error || 'Action failed');
+        return false;
+      }
+      return true;
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const openRevision = async (partId: string, changeReason?: string) => {
+    setActionLoading('revision');
+    try {
+      const result = await ProductMasterService.createRevision(partId, changeReason);
+      if (!result.success || !result.revisionId) {
+        alert(result.error || 'Failed to create revision');
+        return;
+      }
+      await loadRevisions();
+      setSelectedRevisionId(result.revisionId);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleEngineeringChange = () => {
+    if (!selectedRevision) return;
+    const reason = prompt('Reason for engineering change:');
+    if (!reason) return;
+    openRevision(selectedRevision.part_id, reason);
+  };
+
+  const handleRelease = async () => {
+    if (!selectedRevision) return;
+    if (!confirm(`Release Rev ${selectedRevision.revision_code}? The current released revision will be superseded. Existing orders are not affected.`)) return;
+    if (await runAction('release', () => ProductMasterService.releaseRevision(selectedRevision.id))) {
+      await loadRevisions();
+    }
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!selectedRevision) return;
+    if (!confirm(`Discard draft Rev ${selectedRevision.revision_code}?`)) return;
+    if (await runAction('discard', () => ProductMasterService.deleteDraftRevision(selectedRevision.id))) {
+      setSelectedRevisionId(null);
+      await loadRevisions();
+    }
+  };
+
+  const handleAddLine = async () => {
+    if (!selectedRevisionId || !newLine.component_part_id) return;
+    const ok = await runAction('add-line', () => ProductMasterService.addBOMLine(selectedRevisionId, {
+      ...newLine,
+      operation_sequence: newLine.operation_sequence || undefined,
+    }));
+    if (ok) {
+      setNewLine(EMPTY_LINE);
+      loadRevisionDetail(selectedRevisionId);
+      loadRevisions();
+    }
+  };
+
+  const handleAddOperation = async () => {
+    if (!selectedRevisionId || !newOperation.name.trim()) return;
+    const ok = await runAction('add-op', () => ProductMasterService.addOperation(selectedRevisionId, {
+      ...newOperation,
+      work_center_id: newOperation.work_center_id || undefined,
+    }));
+    if (ok) {
+      setNewOperation(EMPTY_OPERATION);
+      loadRevisionDetail(selectedRevisionId);
+      loadRevisions();
+    }
+  };
+
+  const handleRemoveLine = async (lineId: string) => {
+    if (!selectedRevisionId) return;
+    if (await runAction(lineId, () => ProductMasterService.removeBOMLine(lineId))) {
+      loadRevisionDetail(selectedRevisionId);
+      loadRevisions();
+    }
+  };
+
+  const handleRemoveOperation = async (operationId: string) => {
+    if (!selectedRevisionId) return;
+    if (await runAction(operationId, () => ProductMasterService.removeOperation(operationId))) {
+      loadRevisionDetail(selectedRevisionId);
+      loadRevisions();
+    }
+  };
+
+  const handleShowExplosion = async () => {
+    if (!selectedRevisionId) return;
+    if (explosion) {
+      setExplosion(null);
+      return;
+    }
+    setActionLoading('explode');
+    try {
+      setExplosion(await ProductMasterService.getMultiLevelBOM(selectedRevisionId));
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'released':
+        return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300';
+      case 'draft':
+        return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300';
+      default:
+        return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300';
+    }
+  };
+
+  const filteredRevisions = revisions.filter((r) => {
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return r.part_number.toLowerCase().includes(query) || r.part_name.toLowerCase().includes(query);
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Boxes className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Product Master</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Versioned bills of material and standard routings
+            </p>
+          </div>
+        </div>
+        {canManage && (
+          <div className="flex items-center space-x-2">
+            <select
+              value={newProductPartId}
+              onChange={(e) => setNewProductPartId(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Select part to add as product...</option>
+              {parts.map((part) => (
+                <option key={part.id} value={part.id}>
+                  {part.part_number} - {part.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => {
+                if (newProductPartId) {
+                  openRevision(newProductPartId);
+                  setNewProductPartId('');
+                }
+              }}
+              disabled={!newProductPartId || actionLoading === 'revision'}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Product</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Revision List */}
+        <div className="card p-4 space-y-3">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search products..."
+              className={`${inputClass} pl-9`}
+            />
+          </div>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : filteredRevisions.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No products defined yet</p>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {filteredRevisions.map((rev) => (
+                <button
+                  key={rev.id}
+                  onClick={() => setSelectedRevisionId(rev.id)}
+                  className={`w-full text-left py-2 px-2 rounded ${
+                    rev.id === selectedRevisionId ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-900 dark:text-white">{rev.part_number}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${getStatusColor(rev.status)}`}>
+                      Rev {rev.revision_code} · {rev.status}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{rev.part_name}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Revision Detail */}
+        <div className="lg:col-span-2 space-y-6">
+          {!selectedRevision ? (
+            <div className="card p-12 text-center text-gray-500 dark:text-gray-400">
+              Select a product revision to view its BOM and routing
+            </div>
+          ) : (
+            <>
+              <div className="card p-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                      {selectedRevision.part_number} · Rev {selectedRevision.revision_code}
+                    </h2>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{selectedRevision.part_name}</p>
+                    {selectedRevision.change_reason && (
+                      <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                        Change: {selectedRevision.change_reason}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">
+                      {selectedRevision.order_count} production order(s) built to this revision
+                      {selectedRevision.released_at &&
+                        ` · Released ${new Date(selectedRevision.released_at).toLocaleDateString()}${selectedRevision.released_by_name ? ` by ${selectedRevision.released_by_name}` : ''}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={handleShowExplosion}
+                      disabled={actionLoading === 'explode'}
+                      className="flex items-center space-x-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      <ListTree className="w-4 h-4" />
+                      <span>{explosion ? 'Hide' : 'Multi-Level'}</span>
+                    </button>
+                    {canManage && isDraft && (
+                      <>
+                        <button
+                          onClick={handleDiscardDraft}
+                          disabled={actionLoading === 'discard'}
+                          className="px-3 py-1.5 text-sm text-red-600 border border-red-300 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20"
+                        >
+                          Discard
+                        </button>
+                        <button
+                          onClick={handleRelease}
+                          disabled={actionLoading === 'release'}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                        >
+                          <CheckCircle className="w-4 h-4" />
+                          <span>Release</span>
+                        </button>
+                      </>
+                    )}
+                    {canManage && selectedRevision.status === 'released' && (
+                      <button
+                        onClick={handleEngineeringChange}
+                        disabled={actionLoading === 'revision'}
+                        className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        <GitBranch className="w-4 h-4" />
+                        <span>New Revision</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* Multi-level explosion */}
+              {explosion && (
+                <div className="card p-4">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                    Multi-Level BOM (per 1 unit, incl. scrap)
+                  </h3>
+                  {explosion.length === 0 ? (
+                    <p className="text-sm text-gray-500">No components</p>
+                  ) : (
+                    <div className="space-y-1 text-sm">
+                      {explosion.map((node, index) => (
+                        <div
+                          key={`${node.part_id}-${index}`}
+                          className="flex items-center justify-between"
+                          style={{ paddingLeft: `${(node.level - 1) * 1.25}rem` }}
+                        >
+                          <span className="text-gray-900 dark:text-white">
+                            <span className="text-gray-400 mr-2">{node.level}</span>
+                            {node.part_number} - {node.part_name}
+                            {node.is_phantom && <span className="ml-2 text-xs text-purple-600">phantom</span>}
+                            {node.revision_code && <span className="ml-2 text-xs text-gray-500">Rev {node.revision_code}</span>}
+                          </span>
+                          <span className="text-gray-600 dark:text-gray-300">{Number(node.extended_quantity.toFixed(4))}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* BOM Lines */}
+              <div className="card p-4">
+                <div className="flex items-center space-x-2 mb-3">
+                  <Boxes className="w-5 h-5 text-gray-400" />
+                  <h3 className="font-medium text-gray-900 dark:text-white">Bill of Materials</h3>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-2">Line</th>
+                      <th className="py-2">Component</th>
+                      <th className="py-2 text-right">Qty Per</th>
+                      <th className="py-2 text-right">Scrap %</th>
+                      <th className="py-2 text-center">Op</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                    {bomLines.map((line) => (
+                      <tr key={line.id}>
+                        <td className="py-2 text-gray-500">{line.line_number}</td>
+                        <td className="py-2 text-gray-900 dark:text-white">
+                          {line.component_part_number} - {line.component_part_name}
+                          {line.is_phantom && <span className="ml-2 text-xs text-purple-600">phantom</span>}
+                        </td>
+                        <td className="py-2 text-right">{line.quantity_per}</td>
+                        <td className="py-2 text-right">{line.scrap_percent}</td>
+                        <td className="py-2 text-center">{line.operation_sequence ?? '-'}</td>
+                        <td className="py-2 text-right">
+                          {canManage && isDraft && (
+                            <button
+                              onClick={() => handleRemoveLine(line.id)}
+                              disabled={actionLoading === line.id}
+                              className="text-red-500 hover:text-red-700"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {canManage && isDraft && (
+                  <div className="grid grid-cols-2 md:grid-cols-6 gap-2 mt-3">
+                    <select
+                      value={newLine.component_part_id}
+                      onChange={(e) => setNewLine({ ...newLine, component_part_id: e.target.value })}
+                      className={`${inputClass} md:col-span-2`}
+                    >
+                      <option value="">Component...</option>
+                      {parts.filter((p) => p.id !== selectedRevision.part_id).map((part) => (
+                        <option key={part.id} value={part.id}>
+                          {part.part_number} - {part.name}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0.0001"
+                      step="any"
+                      value={newLine.quantity_per}
+                      onChange={(e) => setNewLine({ ...newLine, quantity_per: Number(e.target.value) })}
+                      className={inputClass}
+                      title="Quantity per unit"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      max="99"
+                      step="any"
+                      value={newLine.scrap_percent}
+                      onChange={(e) => setNewLine({ ...newLine, scrap_percent: Number(e.target.value) })}
+                      className={inputClass}
+                      title="Scrap %"
+                    />
+                    <select
+                      value={newLine.operation_sequence ?? ''}
+                      onChange={(e) => setNewLine({ ...newLine, operation_sequence: e.target.value ? Number(e.target.value) : undefined })}
+                      className={inputClass}
+                    >
+                      <option value="">Issue at op...</option>
+                      {operations.map((op) => (
+                        <option key={op.id} value={op.sequence}>
+                          {op.sequence} - {op.name}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="flex items-center space-x-2">
+                      <label className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={newLine.is_phantom}
+                          onChange={(e) => setNewLine({ ...newLine, is_phantom: e.target.checked })}
+                        />
+                        <span>Phantom</span>
+                      </label>
+                      <button
+                        onClick={handleAddLine}
+                        disabled={!newLine.component_part_id || actionLoading === 'add-line'}
+                        className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Routing */}
+              <div className="card p-4">
+                <div className="flex items-center space-x-2 mb-3">
+                  <Layers className="w-5 h-5 text-gray-400" />
+                  <h3 className="font-medium text-gray-900 dark:text-white">Routing</h3>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-2">Seq</th>
+                      <th className="py-2">Operation</th>
+                      <th className="py-2">Work Center</th>
+                      <th className="py-2 text-right">Setup (min)</th>
+                      <th className="py-2 text-right">Run (min/unit)</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                    {operations.map((op) => (
+                      <tr key={op.id}>
+                        <td className="py-2 text-gray-500">{op.sequence}</td>
+                        <td className="py-2 text-gray-900 dark:text-white">{op.name}</td>
+                        <td className="py-2">{op.work_center_code ? `${op.work_center_code} - ${op.work_center_name}` : '-'}</td>
+                        <td className="py-2 text-right">{op.setup_minutes}</td>
+                        <td className="py-2 text-right">{op.run_minutes_per_unit}</td>
+                        <td className="py-2 text-right">
+                          {canManage && isDraft && (
+                            <button
+                              onClick={() => handleRemoveOperation(op.id)}
+                              disabled={actionLoading === op.id}
+                              className="text-red-500 hover:text-red-700"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {canManage && isDraft && (
+                  <div className="grid grid-cols-2 md:grid-cols-6 gap-2 mt-3">
+                    <input
+                      type="text"
+                      value={newOperation.name}
+                      onChange={(e) => setNewOperation({ ...newOperation, name: e.target.value })}
+                      placeholder="Operation name"
+                      className={`${inputClass} md:col-span-2`}
+                    />
+                    <select
+                      value={newOperation.work_center_id}
+                      onChange={(e) => setNewOperation({ ...newOperation, work_center_id: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Work center...</option>
+                      {workCenters.map((wc) => (
+                        <option key={wc.id} value={wc.id}>
+                          {wc.code} - {wc.name}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={newOperation.setup_minutes}
+                      onChange={(e) => setNewOperation({ ...newOperation, setup_minutes: Number(e.target.value) })}
+                      className={inputClass}
+                      title="Setup minutes"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={newOperation.run_minutes_per_unit}
+                      onChange={(e) => setNewOperation({ ...newOperation, run_minutes_per_unit: Number(e.target.value) })}
+                      className={inputClass}
+                      title="Run minutes per unit"
+                    />
+                    <button
+                      onClick={handleAddOperation}
+                      disabled={!newOperation.name.trim() || actionLoading === 'add-op'}
+                      className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 justify-self-start"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
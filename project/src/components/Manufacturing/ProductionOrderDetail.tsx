@@ -27,6 +27,7 @@ import type { Database } from '../../lib/database.types';
 import { ProductionStepList } from './ProductionStepList';
 import { BOMManager } from './BOMManager';
 import { ProductionTimeClock } from './ProductionTimeClock';
+import { FinishedGoodsReceiptModal } from './WorkOrders/FinishedGoodsReceiptModal';
 
 type TimeLogRow = Database['public']['Tables']['production_time_logs']['Row'];
 
@@ -49,6 +50,7 @@ export function ProductionOrderDetail({ orderId, onBack }: ProductionOrderDetail
   const [actionLoading, setActionLoading] = useState(false);
   const [showHoldModal, setShowHoldModal] = useState(false);
   const [holdReason, setHoldReason] = useState('');
+  const [showReceiptModal, setShowReceiptModal] = useState(false);
 
   const loadOrderData = useCallback(async () => {
     setLoading(true);
@@ -104,6 +106,11 @@ export function ProductionOrderDetail({ orderId, onBack }: ProductionOrderDetail
   };
 
   const handleComplete = async () => {
+    // Product orders post finished goods to stock, which needs a location
+    if (order?.product_id) {
+      setShowReceiptModal(true);
+      return;
+    }
     if (!confirm('Are you sure you want to mark this order as complete?')) return;
     setActionLoading(true);
     try {
@@ -462,6 +469,20 @@ export function ProductionOrderDetail({ orderId, onBack }: ProductionOrderDetail
       </div>
 
       {/* Hold Modal */}
+      {showReceiptModal && order && (
+        <FinishedGoodsReceiptModal
+          orderId={order.id}
+          orderNumber={order.order_number}
+          quantityOrdered={order.quantity_ordered || 1}
+          mode="complete"
+          onClose={() => setShowReceiptModal(false)}
+          onSaved={() => {
+            setShowReceiptModal(false);
+            loadOrderData();
+          }}
+        />
+      )}
+
       {showHoldModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
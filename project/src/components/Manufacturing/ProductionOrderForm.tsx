@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { X, Factory } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { ManufacturingService, CreateProductionOrderInput } from '../../services/ManufacturingService';
+import { ProductMasterService, ProductRevision } from '../../services/ProductMasterService';
 
 interface ProductionOrder {
   title?: string;
@@ -36,6 +37,7 @@ export function ProductionOrderForm({ order, ticketId, onClose, onSave }: Produc
   const [loading, setLoading] = useState(false);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [technicians, setTechnicians] = useState<Profile[]>([]);
+  const [products, setProducts] = useState<ProductRevision[]>([]);
   const [formData, setFormData] = useState<CreateProductionOrderInput>({
     title: '',
     description: '',
@@ -46,6 +48,7 @@ export function ProductionOrderForm({ order, ticketId, onClose, onSave }: Produc
     scheduled_end: '',
     quantity_ordered: 1,
     ticket_id: ticketId,
+    product_id: '',
   });
 
   useEffect(() => {
@@ -67,13 +70,15 @@ export function ProductionOrderForm({ order, ticketId, onClose, onSave }: Produc
 
   const loadFormData = async () => {
     try {
-      const [customersRes, techsRes] = await Promise.all([
+      const [customersRes, techsRes, releasedProducts] = await Promise.all([
         supabase.from('customers').select('id, name').order('name'),
         supabase.from('profiles').select('id, full_name').in('role', ['admin', 'dispatcher', 'technician']).order('full_name'),
+        ProductMasterService.getReleasedProducts(),
       ]);
 
       setCustomers(customersRes.data || []);
       setTechnicians(techsRes.data || []);
+      setProducts(releasedProducts);
     } catch (error) {
       console.error('Error loading form data:', error);
     }
@@ -89,6 +94,7 @@ export function ProductionOrderForm({ order, ticketId, onClose, onSave }: Produc
         ...formData,
         customer_id: formData.customer_id || undefined,
         assigned_to: formData.assigned_to || undefined,
+        product_id: formData.product_id || undefined,
         scheduled_start: formData.scheduled_start ? new Date(formData.scheduled_start).toISOString() : undefined,
         scheduled_end: formData.scheduled_end ? new Date(formData.scheduled_end).toISOString() : undefined,
       };
@@ -100,7 +106,11 @@ export function ProductionOrderForm({ order, ticketId, onClose, onSave }: Produc
           assigned_to: formData.assigned_to || undefined,
         });
       } else {
-        await ManufacturingService.createOrder(input);
+        const result = await ManufacturingService.createOrder(input);
+        if (!result.success) {
+          alert(result.error || 'Failed to create order');
+          return;
+        }
       }
 
       onSave();
@@ -111,6 +121,17 @@ export function ProductionOrderForm({ order, ticketId, onClose, onSave }: Produc
     }
   };
 
+  const selectedProduct = products.find((p) => p.part_id === formData.product_id);
+
+  const handleProductChange = (partId: string) => {
+    const product = products.find((p) => p.part_id === partId);
+    setFormData({
+      ...formData,
+      product_id: partId,
+      title: formData.title || (product ? `${product.part_number} - ${product.part_name}` : ''),
+    });
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
@@ -132,6 +153,33 @@ export function ProductionOrderForm({ order, ticketId, onClose, onSave }: Produc
 
         {/* Form */}
         <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {/* Product */}
+          {!order && !ticketId && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Product
+              </label>
+              <select
+                value={formData.product_id}
+                onChange={(e) => handleProductChange(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">No product (build BOM and steps manually)</option>
+                {products.map((product) => (
+                  <option key={product.part_id} value={product.part_id}>
+                    {product.part_number} - {product.part_name} (Rev {product.revision_code})
+                  </option>
+                ))}
+              </select>
+              {selectedProduct && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {selectedProduct.bom_line_count} BOM line(s) and {selectedProduct.operation_count} operation(s) from
+                  Rev {selectedProduct.revision_code} will be added, scaled by quantity.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Title */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
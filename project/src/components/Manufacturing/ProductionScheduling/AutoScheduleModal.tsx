@@ -0,0 +1,264 @@
+import { useState } from 'react';
+import { X, Wand2, AlertTriangle, ArrowRight } from 'lucide-react';
+import {
+  ProductionSchedulingService,
+  AutoSchedulePlan,
+  AutoScheduleOptions,
+} from '../../../services/ProductionSchedulingService';
+import { WorkCenter } from '../../../services/ManufacturingService';
+
+interface AutoScheduleModalProps {
+  workCenters: WorkCenter[];
+  selectedWorkCenter: string; // 'all' or a work center id
+  defaultStart: Date;
+  onClose: () => void;
+  onCommitted: () => void;
+}
+
+export function AutoScheduleModal({
+  workCenters,
+  selectedWorkCenter,
+  defaultStart,
+  onClose,
+  onCommitted,
+}: AutoScheduleModalProps) {
+  const [direction, setDirection] = useState<AutoScheduleOptions['direction']>('forward');
+  const [startDate, setStartDate] = useState(() => {
+    const now = new Date();
+    const start = defaultStart > now ? defaultStart : now;
+    // datetime-local expects local time without a zone
+    return new Date(start.getTime() - start.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+  });
+  const [horizonDays, setHorizonDays] = useState(14);
+  const [plan, setPlan] = useState<AutoSchedulePlan | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const scopeName = selectedWorkCenter === 'all'
+    ? 'All work centers'
+    : workCenters.find(wc => wc.id === selectedWorkCenter)?.name || 'Selected work center';
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const result = await ProductionSchedulingService.generateAutoSchedule({
+        direction,
+        horizon_start: new Date(startDate).toISOString(),
+        horizon_days: horizonDays,
+        work_center_ids: selectedWorkCenter === 'all' ? undefined : [selectedWorkCenter],
+      });
+      setPlan(result);
+    } catch (error) {
+      console.error('Error generating schedule:', error);
+      alert('Failed to generate schedule');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!plan) return;
+    setCommitting(true);
+    try {
+      const result = await ProductionSchedulingService.commitAutoSchedule(plan);
+      if (!result.success) {
+        const details = result.failed.map(f => `${f.item.order_number} ${f.item.step_name}: ${f.error}`).join('\n');
+        alert(`Applied ${result.applied} change(s).${result.error ? `\n${result.error}` : ''}${details ? `\n\nNot applied:\n${details}` : ''}`);
+      }
+      onCommitted();
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const formatTs = (value: string | null) =>
+    value
+      ? new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+      : '—';
+
+  const changes = plan?.items.filter(i => i.action !== 'unchanged') || [];
+  const visibleItems = plan ? (showUnchanged ? plan.items : changes) : [];
+  const counts = {
+    create: plan?.items.filter(i => i.action === 'create').length || 0,
+    move: plan?.items.filter(i => i.action === 'move').length || 0,
+    unchanged: plan?.items.filter(i => i.action === 'unchanged').length || 0,
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-5xl w-full mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <Wand2 className="w-6 h-6 text-blue-600" />
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">Auto-Schedule</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">{scopeName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Options */}
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Direction</label>
+            <select
+              value={direction}
+              onChange={(e) => setDirection(e.target.value as AutoScheduleOptions['direction'])}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="forward">Forward (as soon as possible)</option>
+              <option value="backward">Backward (just in time for due date)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Start From</label>
+            <input
+              type="datetime-local"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Horizon (days)</label>
+            <input
+              type="number"
+              min="1"
+              max="90"
+              value={horizonDays}
+              onChange={(e) => setHorizonDays(Math.min(90, Math.max(1, parseInt(e.target.value) || 1)))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+          <button
+            onClick={handleGenerate}
+            disabled={generating || !startDate}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {generating ? 'Planning...' : plan ? 'Regenerate Preview' : 'Generate Preview'}
+          </button>
+        </div>
+
+        {/* Preview */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {!plan ? (
+            <p className="text-center text-gray-500 py-8">
+              Locked and started operations stay in place. Generate a preview to review changes before applying them.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span className="text-green-600">{counts.create} new</span>
+                <span className="text-blue-600">{counts.move} moved</span>
+                <span className="text-gray-500">{counts.unchanged} unchanged</span>
+                {plan.late_order_ids.length > 0 && (
+                  <span className="flex items-center text-red-600">
+                    <AlertTriangle className="w-4 h-4 mr-1" />
+                    {plan.late_order_ids.length} order(s) finish after due date
+                  </span>
+                )}
+                <label className="ml-auto flex items-center space-x-2 text-gray-600 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={showUnchanged}
+                    onChange={(e) => setShowUnchanged(e.target.checked)}
+                  />
+                  <span>Show unchanged</span>
+                </label>
+              </div>
+
+              {visibleItems.length === 0 ? (
+                <p className="text-center text-gray-500 py-4">No schedule changes needed</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-700/50">
+                    <tr className="text-left text-gray-500 dark:text-gray-400">
+                      <th className="px-3 py-2">Order</th>
+                      <th className="px-3 py-2">Step</th>
+                      <th className="px-3 py-2">Work Center</th>
+                      <th className="px-3 py-2">Current</th>
+                      <th className="px-3 py-2"></th>
+                      <th className="px-3 py-2">Proposed</th>
+                      <th className="px-3 py-2">Due</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {visibleItems.map((item) => (
+                      <tr
+                        key={item.production_step_id}
+                        className={item.is_late ? 'bg-red-50 dark:bg-red-900/10' : ''}
+                      >
+                        <td className="px-3 py-2 font-medium text-gray-900 dark:text-white">
+                          {item.order_number}
+                          {item.order_priority !== null && (
+                            <span className="ml-1 text-xs text-gray-500">P{item.order_priority}</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600 dark:text-gray-300">
+                          {item.step_number}. {item.step_name}
+                          <span className="ml-1 text-xs text-gray-400">({item.duration_minutes} min)</span>
+                        </td>
+                        <td className="px-3 py-2 text-gray-600 dark:text-gray-300">{item.work_center_name}</td>
+                        <td className="px-3 py-2 text-gray-500">
+                          {item.action === 'create' ? <span className="text-green-600">New</span> : formatTs(item.current_start_ts)}
+                        </td>
+                        <td className="px-3 py-2">
+                          <ArrowRight className="w-4 h-4 text-gray-400" />
+                        </td>
+                        <td className="px-3 py-2 text-gray-900 dark:text-white">
+                          {formatTs(item.proposed_start_ts)} – {formatTs(item.proposed_end_ts)}
+                        </td>
+                        <td className={`px-3 py-2 ${item.is_late ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                          {formatTs(item.due_ts)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {plan.skipped.length > 0 && (
+                <div className="p-3 border border-yellow-200 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+                  <p className="text-sm font-medium text-yellow-800 dark:text-yellow-300 mb-1">Not scheduled</p>
+                  <ul className="text-sm text-yellow-700 dark:text-yellow-400 space-y-0.5">
+                    {plan.skipped.map((s, i) => (
+                      <li key={`${s.production_order_id}-${s.production_step_id ?? i}`}>
+                        {s.order_number}{s.step_name ? ` · ${s.step_name}` : ''}: {s.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCommit}
+            disabled={!plan || changes.length === 0 || committing}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {committing ? 'Applying...' : `Apply ${changes.length} Change(s)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
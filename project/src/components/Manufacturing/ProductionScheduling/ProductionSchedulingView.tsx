@@ -1,12 +1,13 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Calendar, ChevronLeft, ChevronRight, RefreshCw, Layers } from 'lucide-react';
+import { Calendar, ChevronLeft, ChevronRight, RefreshCw, Layers, Wand2 } from 'lucide-react';
 import { ProductionSchedulingService, WorkCenterSchedule, WorkCenterCapacity } from '../../../services/ProductionSchedulingService';
 import { ManufacturingService, WorkCenter } from '../../../services/ManufacturingService';
 import { SchedulingGrid } from './SchedulingGrid';
+import { AutoScheduleModal } from './AutoScheduleModal';
 import { useAuth } from '../../../contexts/AuthContext';
 
 export function ProductionSchedulingView() {
-  const { profile: _profile } = useAuth();
+  const { profile } = useAuth();
   const [workCenters, setWorkCenters] = useState<WorkCenter[]>([]);
   const [schedules, setSchedules] = useState<WorkCenterSchedule[]>([]);
   const [capacities, setCapacities] = useState<WorkCenterCapacity[]>([]);
@@ -20,6 +21,9 @@ export function ProductionSchedulingView() {
     return { start, end };
   });
   const [_viewMode, _setViewMode] = useState<'grid' | 'list'>('grid');
+  const [showAutoSchedule, setShowAutoSchedule] = useState(false);
+
+  const canSchedule = profile?.role === 'admin' || profile?.role === 'dispatcher' || profile?.role === 'supervisor';
 
   const loadWorkCenters = useCallback(async () => {
     try {
@@ -132,6 +136,15 @@ export function ProductionSchedulingView() {
             </p>
           </div>
         </div>
+        {canSchedule && (
+          <button
+            onClick={() => setShowAutoSchedule(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <Wand2 className="w-4 h-4" />
+            <span>Auto-Schedule</span>
+          </button>
+        )}
       </div>
 
       {/* Work Center Summary Cards */}
@@ -231,6 +244,20 @@ export function ProductionSchedulingView() {
           dateRange={dateRange}
           capacities={capacities}
           onRefresh={loadSchedules}
+          canLock={canSchedule}
+        />
+      )}
+
+      {showAutoSchedule && (
+        <AutoScheduleModal
+          workCenters={workCenters}
+          selectedWorkCenter={selectedWorkCenter}
+          defaultStart={dateRange.start}
+          onClose={() => setShowAutoSchedule(false)}
+          onCommitted={() => {
+            setShowAutoSchedule(false);
+            loadSchedules();
+          }}
         />
       )}
     </div>
@@ -1,6 +1,10 @@
 import { useState } from 'react';
-import { Clock, PlayCircle, Pause, CheckCircle, AlertCircle, ChevronRight } from 'lucide-react';
-import { WorkCenterSchedule, WorkCenterCapacity } from '../../../services/ProductionSchedulingService';
+import { Clock, PlayCircle, Pause, CheckCircle, AlertCircle, ChevronRight, Lock, Unlock } from 'lucide-react';
+import {
+  ProductionSchedulingService,
+  WorkCenterSchedule,
+  WorkCenterCapacity,
+} from '../../../services/ProductionSchedulingService';
 import { WorkCenter } from '../../../services/ManufacturingService';
 
 interface SchedulingGridProps {
@@ -9,6 +13,7 @@ interface SchedulingGridProps {
   dateRange: { start: Date; end: Date };
   capacities: WorkCenterCapacity[];
   onRefresh: () => void;
+  canLock?: boolean;
 }
 
 export function SchedulingGrid({
@@ -16,10 +21,20 @@ export function SchedulingGrid({
   workCenters,
   dateRange,
   capacities,
-  onRefresh: _onRefresh,
+  onRefresh,
+  canLock = false,
 }: SchedulingGridProps) {
   const [expandedSchedule, setExpandedSchedule] = useState<string | null>(null);
 
+  const handleToggleLock = async (schedule: WorkCenterSchedule) => {
+    const result = await ProductionSchedulingService.setScheduleLock(schedule.operation_run_id, !schedule.is_locked);
+    if (result.success) {
+      onRefresh();
+    } else {
+      alert(result.error || 'Failed to update lock');
+    }
+  };
+
   // Generate array of dates in range
   const dates: Date[] = [];
   const current = new Date(dateRange.start);
@@ -165,6 +180,7 @@ export function SchedulingGrid({
                               <span className="font-medium truncate">
                                 {schedule.order_number}
                               </span>
+                              {schedule.is_locked && <Lock className="w-3 h-3 text-gray-500 flex-shrink-0" />}
                             </div>
                             {schedule.step_name && (
                               <p className="text-xs text-gray-500 truncate mt-0.5">
@@ -196,7 +212,20 @@ export function SchedulingGrid({
                                     Est: {schedule.estimated_minutes} min
                                   </p>
                                 )}
-                                <div className="flex items-center justify-end mt-2">
+                                <div className="flex items-center justify-end space-x-3 mt-2">
+                                  {canLock && schedule.status === 'NOT_STARTED' && (
+                                    <button
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        handleToggleLock(schedule);
+                                      }}
+                                      className="flex items-center text-gray-600 hover:text-gray-800 dark:text-gray-300 text-xs"
+                                      title={schedule.is_locked ? 'Allow auto-scheduling to move this' : 'Keep this slot when auto-scheduling'}
+                                    >
+                                      {schedule.is_locked ? <Unlock className="w-3 h-3 mr-0.5" /> : <Lock className="w-3 h-3 mr-0.5" />}
+                                      <span>{schedule.is_locked ? 'Unlock' : 'Lock'}</span>
+                                    </button>
+                                  )}
                                   <button className="flex items-center text-blue-600 hover:text-blue-700 text-xs">
                                     <span>Details</span>
                                     <ChevronRight className="w-3 h-3" />
@@ -0,0 +1,815 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  X,
+  Check,
+  FileDown,
+  Plus,
+  Trash2,
+  AlertTriangle,
+  Link2,
+} from 'lucide-react';
+import {
+  CAPAService,
+  CAPA8D,
+  CAPAAction,
+  CAPAActionType,
+  CAPATeamRole,
+  CustomerComplaint,
+  DISCIPLINES,
+  FISHBONE_CATEGORIES,
+  PersonOption,
+} from '../../../services/CAPAService';
+import {
+  QualityExecutionService,
+  Fishbone,
+  FiveWhyStep,
+  Nonconformance,
+} from '../../../services/QualityExecutionService';
+import { useAuth } from '../../../contexts/AuthContext';
+import { CAPA8DReportPDF } from './CAPA8DReportPDF';
+import { ESignatureModal } from './ESignatureModal';
+import type { SignatureCredentials } from '../../../services/ElectronicSignatureService';
+
+interface CAPA8DModalProps {
+  capaId: string;
+  users: PersonOption[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const ACTION_STATUS_STYLES: Record<string, string> = {
+  OPEN: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  COMPLETED: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  CANCELLED: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+const formatDate = (value: string | null | undefined) =>
+  value ? new Date(value.length === 10 ? `${value}T00:00:00` : value).toLocaleDateString() : '—';
+
+export function CAPA8DModal({ capaId, users, onClose, onChanged }: CAPA8DModalProps) {
+  const { profile } = useAuth();
+  const canManage = ['admin', 'dispatcher', 'supervisor'].includes(profile?.role || '');
+
+  const [capa, setCapa] = useState<CAPA8D | null>(null);
+  const [selected, setSelected] = useState(1);
+  const [saving, setSaving] = useState(false);
+  const [verifying, setVerifying] = useState<boolean | null>(null);
+
+  const loadCAPA = useCallback(async () => {
+    try {
+      const data = await CAPAService.getCAPA(capaId);
+      setCapa(data);
+      return data;
+    } catch (error) {
+      console.error('Error loading CAPA:', error);
+      return null;
+    }
+  }, [capaId]);
+
+  useEffect(() => {
+    loadCAPA().then(data => {
+      if (data) setSelected(data.discipline || 1);
+    });
+  }, [loadCAPA]);
+
+  const run = async (action: () => Promise<unknown>, failure: string): Promise<boolean> => {
+    setSaving(true);
+    try {
+      await action();
+      const data = await loadCAPA();
+      // Follow the CAPA when it moves to another discipline
+      if (data && data.discipline !== capa?.discipline) setSelected(data.discipline || 1);
+      onChanged();
+      return true;
+    } catch (error) {
+      console.error(failure, error);
+      alert(error instanceof Error ? error.message : failure);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!capa) {
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  const current = capa.discipline || 1;
+  const closed = capa.status === 'CLOSED';
+  const editable = canManage && !closed && selected <= current;
+  const blocker = selected === current && !closed ? CAPAService.getGateBlocker(capa) : null;
+  const discipline = DISCIPLINES[selected - 1];
+
+  // Signature errors are shown in the signature prompt
+  const handleVerify = async (credentials: SignatureCredentials) => {
+    if (verifying === null) return;
+    await CAPAService.verifyEffectiveness(capa.id, verifying, credentials);
+    setVerifying(null);
+    const data = await loadCAPA();
+    if (data) setSelected(data.discipline || 1);
+    onChanged();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-4xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {capa.capa_number} – {capa.title}
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Owner: {capa.owner?.full_name || '—'} · Due {formatDate(capa.due_date)} · {capa.status.replace(/_/g, ' ')}
+              {capa.escalation_level ? ` · Escalated (level ${capa.escalation_level})` : ''}
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => CAPA8DReportPDF.generatePDF(capa)}
+              className="flex items-center space-x-1 px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <FileDown className="w-4 h-4" />
+              <span>8D Report</span>
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Discipline stepper */}
+        <div className="flex border-b border-gray-200 dark:border-gray-700 overflow-x-auto">
+          {DISCIPLINES.map(d => {
+            const done = closed || d.number < current;
+            return (
+              <button
+                key={d.number}
+                onClick={() => setSelected(d.number)}
+                className={`flex-1 min-w-[90px] px-2 py-3 text-xs font-medium border-b-2 ${
+                  selected === d.number
+                    ? 'border-purple-600 text-purple-600 dark:text-purple-400'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400'
+                }`}
+              >
+                <span className={`inline-flex items-center justify-center w-6 h-6 mb-1 rounded-full ${
+                  done
+                    ? 'bg-green-600 text-white'
+                    : d.number === current
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+                }`}>
+                  {done ? <Check className="w-3 h-3" /> : d.number}
+                </span>
+                <span className="block">{d.name}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto flex-1">
+          <div>
+            <h4 className="font-semibold text-gray-900 dark:text-white">{discipline.code} {discipline.name}</h4>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{discipline.description}</p>
+          </div>
+
+          {selected === 1 && (
+            <TeamPanel capa={capa} users={users} editable={editable} run={run} />
+          )}
+          {selected === 2 && (
+            <ProblemPanel capa={capa} editable={editable} run={run} />
+          )}
+          {selected === 3 && (
+            <ActionsPanel capa={capa} type="CONTAINMENT" users={users} editable={editable} run={run} />
+          )}
+          {selected === 4 && (
+            <RootCausePanel capa={capa} editable={editable} run={run} />
+          )}
+          {selected === 5 && (
+            <>
+              <ActionsPanel capa={capa} type="CORRECTIVE" users={users} editable={editable} run={run} />
+              <TextField
+                label="Effectiveness Criteria *"
+                placeholder="How and when the corrective actions will be shown to work, e.g. zero repeat defects over 3 production lots"
+                value={capa.effectiveness_criteria}
+                editable={editable}
+                onSave={(value) => run(() => CAPAService.updateCAPA(capa.id, { effectiveness_criteria: value }), 'Failed to save criteria')}
+              />
+            </>
+          )}
+          {selected === 6 && (
+            <>
+              <ActionsPanel capa={capa} type="CORRECTIVE" users={users} editable={editable} allowAdd={false} run={run} />
+              <div className="text-sm">
+                <p className="font-medium text-gray-700 dark:text-gray-300">Effectiveness Criteria</p>
+                <p className="text-gray-600 dark:text-gray-400 whitespace-pre-line">{capa.effectiveness_criteria || '—'}</p>
+              </div>
+              {capa.is_effective !== undefined && capa.is_effective !== null && (
+                <p className={`text-sm ${capa.is_effective ? 'text-green-600' : 'text-red-600'}`}>
+                  {capa.is_effective ? 'Verified effective' : 'Previously found not effective'}
+                  {capa.verified_at && capa.is_effective ? ` by ${capa.verifier?.full_name || '—'} on ${formatDate(capa.verified_at)}` : ''}
+                  {capa.verification_notes ? `: ${capa.verification_notes}` : ''}
+                </p>
+              )}
+            </>
+          )}
+          {selected === 7 && (
+            <ActionsPanel capa={capa} type="PREVENTIVE" users={users} editable={editable} run={run} />
+          )}
+          {selected === 8 && (
+            <div className="text-sm space-y-2">
+              {closed ? (
+                <>
+                  <p className="font-medium text-gray-700 dark:text-gray-300">Lessons Learned</p>
+                  <p className="text-gray-600 dark:text-gray-400 whitespace-pre-line">{capa.lessons_learned}</p>
+                  <p className="text-green-600">Closed {formatDate(capa.closed_at)}</p>
+                </>
+              ) : (
+                <p className="text-gray-500">
+                  Closing asks for the lessons learned. Linked customer complaints are resolved with the CAPA.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex items-center justify-end space-x-3">
+          {blocker && (
+            <p className="flex-1 flex items-center text-sm text-yellow-700 dark:text-yellow-400">
+              <AlertTriangle className="w-4 h-4 mr-1" />
+              {blocker}
+            </p>
+          )}
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-400">
+            Close
+          </button>
+          {canManage && !closed && selected === current && (
+            current === 6 ? (
+              <>
+                <button
+                  onClick={() => setVerifying(false)}
+                  disabled={saving || !!blocker}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                >
+                  Not Effective
+                </button>
+                <button
+                  onClick={() => setVerifying(true)}
+                  disabled={saving || !!blocker}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                >
+                  Verified Effective
+                </button>
+              </>
+            ) : current === 8 ? (
+              <button
+                onClick={() => {
+                  const lessons = prompt('Lessons learned:', capa.lessons_learned || '');
+                  if (lessons === null) return;
+                  run(() => CAPAService.closeCAPA(capa.id, lessons), 'Failed to close CAPA');
+                }}
+                disabled={saving}
+                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+              >
+                Close CAPA
+              </button>
+            ) : (
+              <button
+                onClick={() => run(() => CAPAService.advanceDiscipline(capa.id), 'Failed to advance CAPA')}
+                disabled={saving || !!blocker}
+                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+              >
+                Complete {discipline.code}
+              </button>
+            )
+          )}
+        </div>
+      </div>
+
+      {verifying !== null && (
+        <ESignatureModal
+          title={verifying ? 'Verify Effectiveness' : 'Record Not Effective'}
+          meaning={verifying ? 'VERIFIED' : 'REVIEWED'}
+          recordLabel={verifying
+            ? `the effectiveness of ${capa.capa_number}`
+            : `the finding that ${capa.capa_number} is not effective (it returns to D4)`}
+          reasonLabel={verifying
+            ? 'Evidence the corrective actions are effective'
+            : 'Why the corrective actions are not effective'}
+          onSign={handleVerify}
+          onClose={() => setVerifying(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+// =====================================================
+// PANELS
+// =====================================================
+
+interface PanelProps {
+  capa: CAPA8D;
+  editable: boolean;
+  run: (action: () => Promise<unknown>, failure: string) => Promise<boolean>;
+}
+
+function TeamPanel({ capa, users, editable, run }: PanelProps & { users: PersonOption[] }) {
+  const [form, setForm] = useState({ user_id: '', team_role: 'MEMBER' as CAPATeamRole, responsibility: '' });
+
+  const handleAdd = async () => {
+    if (!form.user_id) return;
+    const added = await run(
+      () => CAPAService.addTeamMember(capa.id, form.user_id, form.team_role, form.responsibility),
+      'Failed to add team member'
+    );
+    if (added) setForm({ user_id: '', team_role: 'MEMBER', responsibility: '' });
+  };
+
+  return (
+    <div className="space-y-3">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 uppercase">
+            <th className="py-2">Name</th>
+            <th className="py-2">Role</th>
+            <th className="py-2">Responsibility</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {(capa.team || []).map(member => (
+            <tr key={member.id}>
+              <td className="py-2 text-gray-900 dark:text-white">{member.user?.full_name}</td>
+              <td className="py-2 text-gray-700 dark:text-gray-300">{member.team_role.toLowerCase()}</td>
+              <td className="py-2 text-gray-700 dark:text-gray-300">{member.responsibility || '—'}</td>
+              <td className="py-2 text-right">
+                {editable && (
+                  <button
+                    onClick={() => run(() => CAPAService.removeTeamMember(member.id), 'Failed to remove team member')}
+                    className="text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {editable && (
+        <div className="grid grid-cols-4 gap-2 items-end">
+          <select
+            value={form.user_id}
+            onChange={(e) => setForm({ ...form, user_id: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Select person...</option>
+            {users.filter(u => !(capa.team || []).some(m => m.user_id === u.id)).map(u => (
+              <option key={u.id} value={u.id}>{u.full_name}</option>
+            ))}
+          </select>
+          <select
+            value={form.team_role}
+            onChange={(e) => setForm({ ...form, team_role: e.target.value as CAPATeamRole })}
+            className={inputClass}
+          >
+            <option value="CHAMPION">Champion</option>
+            <option value="LEADER">Leader</option>
+            <option value="MEMBER">Member</option>
+          </select>
+          <input
+            type="text"
+            value={form.responsibility}
+            onChange={(e) => setForm({ ...form, responsibility: e.target.value })}
+            placeholder="Responsibility"
+            className={inputClass}
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!form.user_id}
+            className="flex items-center justify-center space-x-1 px-3 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ProblemPanel({ capa, editable, run }: PanelProps) {
+  const [form, setForm] = useState({
+    problem_statement: capa.problem_statement || '',
+    problem_is_not: capa.problem_is_not || '',
+  });
+  const [nonconformances, setNonconformances] = useState<Nonconformance[]>([]);
+  const [complaints, setComplaints] = useState<CustomerComplaint[]>([]);
+  const [linkValue, setLinkValue] = useState('');
+
+  useEffect(() => {
+    if (!editable) return;
+    Promise.all([
+      QualityExecutionService.getNonconformances(),
+      CAPAService.getLinkedNonconformanceIds(),
+      CAPAService.getComplaints(),
+    ])
+      .then(([ncs, linked, complaintData]) => {
+        setNonconformances(ncs.filter(nc => nc.status !== 'CLOSED' && !linked.has(nc.id)));
+        setComplaints(complaintData.filter(c => c.status !== 'CLOSED' && (c.capa_link || []).length === 0));
+      })
+      .catch(error => console.error('Error loading linkable items:', error));
+  }, [editable, capa.links]);
+
+  const handleLink = async () => {
+    const [kind, id] = linkValue.split(':');
+    if (!id) return;
+    const linked = await run(
+      () => kind === 'nc' ? CAPAService.linkNonconformance(capa.id, id) : CAPAService.linkComplaint(capa.id, id),
+      'Failed to link'
+    );
+    if (linked) setLinkValue('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={labelClass}>Problem Statement (what, where, when, how many) *</label>
+        <textarea
+          value={form.problem_statement}
+          onChange={(e) => setForm({ ...form, problem_statement: e.target.value })}
+          rows={3}
+          disabled={!editable}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Is Not (where the problem could occur but does not)</label>
+        <textarea
+          value={form.problem_is_not}
+          onChange={(e) => setForm({ ...form, problem_is_not: e.target.value })}
+          rows={2}
+          disabled={!editable}
+          className={inputClass}
+        />
+      </div>
+      {editable && (
+        <div className="flex justify-end">
+          <button
+            onClick={() => run(() => CAPAService.updateCAPA(capa.id, form), 'Failed to save problem description')}
+            className="px-3 py-1 text-sm bg-purple-600 text-white rounded hover:bg-purple-700"
+          >
+            Save
+          </button>
+        </div>
+      )}
+
+      <div>
+        <p className={labelClass}>Nonconformances and Complaints</p>
+        {(capa.links || []).length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing linked yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            {(capa.links || []).map(link => (
+              <li key={link.id} className="flex items-center justify-between py-2">
+                <span className="text-gray-900 dark:text-white">
+                  <Link2 className="w-4 h-4 inline mr-1 text-gray-400" />
+                  {link.nonconformance
+                    ? `${link.nonconformance.nc_number} – ${link.nonconformance.title}`
+                    : `${link.complaint?.complaint_number} – ${link.complaint?.title}${link.complaint?.customer ? ` (${link.complaint.customer.name})` : ''}`}
+                  <span className="ml-2 text-xs text-gray-500">
+                    {(link.nonconformance || link.complaint)?.severity} · {(link.nonconformance || link.complaint)?.status}
+                  </span>
+                </span>
+                {editable && (
+                  <button
+                    onClick={() => run(() => CAPAService.unlink(link.id), 'Failed to unlink')}
+                    className="text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {editable && (
+        <div className="flex space-x-2">
+          <select value={linkValue} onChange={(e) => setLinkValue(e.target.value)} className={inputClass}>
+            <option value="">Link a nonconformance or complaint...</option>
+            <optgroup label="Nonconformances">
+              {nonconformances.map(nc => (
+                <option key={nc.id} value={`nc:${nc.id}`}>{nc.nc_number} – {nc.title}</option>
+              ))}
+            </optgroup>
+            <optgroup label="Customer Complaints">
+              {complaints.map(c => (
+                <option key={c.id} value={`complaint:${c.id}`}>
+                  {c.complaint_number} – {c.title}{c.customer ? ` (${c.customer.name})` : ''}
+                </option>
+              ))}
+            </optgroup>
+          </select>
+          <button
+            onClick={handleLink}
+            disabled={!linkValue}
+            className="px-3 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            Link
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RootCausePanel({ capa, editable, run }: PanelProps) {
+  const [whys, setWhys] = useState<FiveWhyStep[]>(
+    capa.five_whys && capa.five_whys.length > 0 ? capa.five_whys : [{ why: '', because: '' }]
+  );
+  const [fishbone, setFishbone] = useState<Record<string, string>>(
+    Object.fromEntries(FISHBONE_CATEGORIES.map(c => [c.key, (capa.fishbone?.[c.key] || []).join('\n')]))
+  );
+  const [rootCause, setRootCause] = useState(capa.root_cause || '');
+
+  const updateWhy = (index: number, field: keyof FiveWhyStep, value: string) => {
+    setWhys(whys.map((step, i) => (i === index ? { ...step, [field]: value } : step)));
+  };
+
+  const handleSave = () => {
+    const causes: Fishbone = {};
+    for (const { key } of FISHBONE_CATEGORIES) {
+      causes[key] = (fishbone[key] || '').split('\n');
+    }
+    run(
+      () => CAPAService.saveRootCause(capa.id, { root_cause: rootCause, five_whys: whys, fishbone: causes }),
+      'Failed to save root cause analysis'
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className={labelClass}>5-Why</p>
+        <div className="space-y-2">
+          {whys.map((step, index) => (
+            <div key={index} className="grid grid-cols-[2rem_1fr_1fr] gap-2 items-center">
+              <span className="text-sm font-medium text-gray-500">{index + 1}.</span>
+              <input
+                type="text"
+                value={step.why}
+                onChange={(e) => updateWhy(index, 'why', e.target.value)}
+                placeholder={index === 0 ? 'Why did the problem occur?' : 'Why?'}
+                disabled={!editable}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={step.because}
+                onChange={(e) => updateWhy(index, 'because', e.target.value)}
+                placeholder="Because..."
+                disabled={!editable}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+        {editable && (
+          <button
+            onClick={() => setWhys([...whys, { why: whys[whys.length - 1]?.because || '', because: '' }])}
+            className="mt-2 flex items-center space-x-1 text-sm text-purple-600 hover:text-purple-700"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Ask why again</span>
+          </button>
+        )}
+      </div>
+
+      <div>
+        <p className={labelClass}>Fishbone (one potential cause per line)</p>
+        <div className="grid grid-cols-3 gap-3">
+          {FISHBONE_CATEGORIES.map(category => (
+            <div key={category.key}>
+              <p className="text-xs font-medium text-gray-500 uppercase mb-1">{category.label}</p>
+              <textarea
+                value={fishbone[category.key] || ''}
+                onChange={(e) => setFishbone({ ...fishbone, [category.key]: e.target.value })}
+                rows={3}
+                disabled={!editable}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Root Cause *</label>
+        <textarea
+          value={rootCause}
+          onChange={(e) => setRootCause(e.target.value)}
+          rows={2}
+          disabled={!editable}
+          className={inputClass}
+        />
+      </div>
+
+      {editable && (
+        <div className="flex justify-end">
+          <button onClick={handleSave} className="px-3 py-1 text-sm bg-purple-600 text-white rounded hover:bg-purple-700">
+            Save Analysis
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ActionsPanel({
+  capa,
+  type,
+  users,
+  editable,
+  allowAdd = true,
+  run,
+}: PanelProps & { type: CAPAActionType; users: PersonOption[]; allowAdd?: boolean }) {
+  const { profile } = useAuth();
+  const [form, setForm] = useState({ description: '', owner_id: '', due_date: '' });
+  const actions = (capa.actions || []).filter(a => a.action_type === type);
+  const closed = capa.status === 'CLOSED';
+
+  const handleAdd = async () => {
+    const added = await run(
+      () => CAPAService.addAction(capa.id, {
+        action_type: type,
+        description: form.description,
+        owner_id: form.owner_id || undefined,
+        due_date: form.due_date || undefined,
+      }),
+      'Failed to add action'
+    );
+    if (added) setForm({ description: '', owner_id: '', due_date: '' });
+  };
+
+  const handleComplete = (action: CAPAAction) => {
+    const notes = prompt('Completion notes (optional):');
+    if (notes === null) return;
+    run(() => CAPAService.completeAction(action.id, notes), 'Failed to complete action');
+  };
+
+  const handleCancel = (action: CAPAAction) => {
+    const reason = prompt('Reason for cancelling this action:');
+    if (reason === null) return;
+    run(() => CAPAService.cancelAction(action.id, reason), 'Failed to cancel action');
+  };
+
+  return (
+    <div className="space-y-3">
+      {actions.length === 0 ? (
+        <p className="text-sm text-gray-500">No {type.toLowerCase()} actions yet</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase">
+              <th className="py-2">Action</th>
+              <th className="py-2">Owner</th>
+              <th className="py-2">Due</th>
+              <th className="py-2">Status</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {actions.map(action => {
+              const overdue = CAPAService.isActionOverdue(action);
+              const canComplete = !closed && action.status === 'OPEN' && (editable || action.owner_id === profile?.id);
+              return (
+                <tr key={action.id}>
+                  <td className="py-2 text-gray-900 dark:text-white">
+                    {action.description}
+                    {action.completion_notes && (
+                      <span className="block text-xs text-gray-500">{action.completion_notes}</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-gray-700 dark:text-gray-300">{action.owner?.full_name || '—'}</td>
+                  <td className={`py-2 ${overdue ? 'text-red-600 font-medium' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {formatDate(action.due_date)}
+                    {overdue && <span className="block text-xs">Overdue</span>}
+                  </td>
+                  <td className="py-2">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${ACTION_STATUS_STYLES[action.status]}`}>
+                      {action.status.toLowerCase()}
+                    </span>
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    {canComplete && (
+                      <button
+                        onClick={() => handleComplete(action)}
+                        className="px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700"
+                      >
+                        Complete
+                      </button>
+                    )}
+                    {editable && action.status === 'OPEN' && (
+                      <button
+                        onClick={() => handleCancel(action)}
+                        className="ml-2 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {editable && allowAdd && (
+        <div className="grid grid-cols-[1fr_12rem_10rem_auto] gap-2">
+          <input
+            type="text"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            placeholder={`New ${type.toLowerCase()} action`}
+            className={inputClass}
+          />
+          <select
+            value={form.owner_id}
+            onChange={(e) => setForm({ ...form, owner_id: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Owner...</option>
+            {users.map(u => (
+              <option key={u.id} value={u.id}>{u.full_name}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={form.due_date}
+            onChange={(e) => setForm({ ...form, due_date: e.target.value })}
+            className={inputClass}
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!form.description.trim()}
+            className="flex items-center justify-center space-x-1 px-3 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TextField({
+  label,
+  placeholder,
+  value,
+  editable,
+  onSave,
+}: {
+  label: string;
+  placeholder?: string;
+  value?: string;
+  editable: boolean;
+  onSave: (value: string) => void;
+}) {
+  const [text, setText] = useState(value || '');
+
+  return (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={2}
+        placeholder={placeholder}
+        disabled={!editable}
+        className={inputClass}
+      />
+      {editable && text !== (value || '') && (
+        <div className="flex justify-end mt-2">
+          <button
+            onClick={() => onSave(text)}
+            className="px-3 py-1 text-sm bg-purple-600 text-white rounded hover:bg-purple-700"
+          >
+            Save
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { DISCIPLINES, FISHBONE_CATEGORIES } from '../../../services/CAPAService';
+import type { CAPA8D, CAPAActionType } from '../../../services/CAPAService';
+
+interface JsPDFWithAutoTable extends jsPDF {
+  lastAutoTable?: { finalY: number };
+}
+
+const HEAD_STYLES = { fillColor: [59, 130, 246] as [number, number, number], textColor: 255 };
+
+export class CAPA8DReportPDF {
+  static generatePDF(capa: CAPA8D): void {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+
+    // Header
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.text('8D Corrective Action Report', pageWidth / 2, 20, { align: 'center' });
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${capa.capa_number} - ${capa.title || ''}`, pageWidth / 2, 28, { align: 'center' });
+
+    autoTable(doc, {
+      startY: 34,
+      body: [
+        ['Status', capa.status, 'Owner', capa.owner?.full_name || '-'],
+        ['Current Discipline', `D${capa.discipline || 1}`, 'Due Date', this.formatDate(capa.due_date)],
+        ['Opened', this.formatDate(capa.created_at), 'Closed', this.formatDate(capa.closed_at)],
+      ],
+      theme: 'grid',
+      styles: { fontSize: 8, cellPadding: 2 },
+      columnStyles: { 0: { fontStyle: 'bold' }, 2: { fontStyle: 'bold' } },
+      margin: { left: 14, right: 14 },
+    });
+    let yPos = this.lastY(doc, 60) + 8;
+
+    // D1 Team
+    yPos = this.section(doc, yPos, 1);
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Name', 'Role', 'Responsibility']],
+      body: (capa.team || []).map(m => [m.user?.full_name || '-', m.team_role, m.responsibility || '']),
+      theme: 'striped',
+      styles: { fontSize: 8, cellPadding: 2 },
+      headStyles: HEAD_STYLES,
+      margin: { left: 14, right: 14 },
+    });
+    yPos = this.lastY(doc, yPos) + 8;
+
+    // D2 Problem
+    yPos = this.section(doc, yPos, 2);
+    yPos = this.paragraph(doc, yPos, 'Problem', capa.problem_statement);
+    yPos = this.paragraph(doc, yPos, 'Is Not', capa.problem_is_not);
+    if ((capa.links || []).length > 0) {
+      autoTable(doc, {
+        startY: yPos,
+        head: [['Reference', 'Title', 'Severity', 'Qty', 'Status']],
+        body: (capa.links || []).map(link => {
+          const item = link.nonconformance || link.complaint;
+          const ref = link.nonconformance?.nc_number
+            || `${link.complaint?.complaint_number || ''}${link.complaint?.customer ? ` (${link.complaint.customer.name})` : ''}`;
+          return [ref, item?.title || '', item?.severity || '', String(item?.qty_affected ?? ''), item?.status || ''];
+        }),
+        theme: 'striped',
+        styles: { fontSize: 8, cellPadding: 2 },
+        headStyles: HEAD_STYLES,
+        margin: { left: 14, right: 14 },
+      });
+      yPos = this.lastY(doc, yPos) + 8;
+    }
+
+    // D3 Containment
+    yPos = this.section(doc, yPos, 3);
+    yPos = this.actionsTable(doc, yPos, capa, 'CONTAINMENT');
+
+    // D4 Root cause
+    yPos = this.section(doc, yPos, 4);
+    yPos = this.paragraph(doc, yPos, 'Root Cause', capa.root_cause);
+    if ((capa.five_whys || []).length > 0) {
+      autoTable(doc, {
+        startY: yPos,
+        head: [['#', 'Why?', 'Because']],
+        body: (capa.five_whys || []).map((step, i) => [String(i + 1), step.why, step.because]),
+        theme: 'striped',
+        styles: { fontSize: 8, cellPadding: 2 },
+        headStyles: HEAD_STYLES,
+        columnStyles: { 0: { cellWidth: 8 } },
+        margin: { left: 14, right: 14 },
+      });
+      yPos = this.lastY(doc, yPos) + 6;
+    }
+    const fishboneRows = FISHBONE_CATEGORIES
+      .filter(c => (capa.fishbone?.[c.key] || []).length > 0)
+      .map(c => [c.label, (capa.fishbone?.[c.key] || []).join('\n')]);
+    if (fishboneRows.length > 0) {
+      autoTable(doc, {
+        startY: yPos,
+        head: [['Fishbone Category', 'Potential Causes']],
+        body: fishboneRows,
+        theme: 'striped',
+        styles: { fontSize: 8, cellPadding: 2 },
+        headStyles: HEAD_STYLES,
+        columnStyles: { 0: { cellWidth: 40 } },
+        margin: { left: 14, right: 14 },
+      });
+      yPos = this.lastY(doc, yPos) + 8;
+    }
+
+    // D5 / D6 Corrective actions and verification
+    yPos = this.section(doc, yPos, 5);
+    yPos = this.actionsTable(doc, yPos, capa, 'CORRECTIVE');
+    yPos = this.section(doc, yPos, 6);
+    yPos = this.paragraph(doc, yPos, 'Effectiveness Criteria', capa.effectiveness_criteria);
+    yPos = this.paragraph(
+      doc,
+      yPos,
+      'Verification',
+      capa.is_effective === undefined || capa.is_effective === null
+        ? undefined
+        : `${capa.is_effective ? 'Effective' : 'Not effective'}${capa.verification_notes ? ` - ${capa.verification_notes}` : ''}`
+          + (capa.verified_at ? ` (${capa.verifier?.full_name || ''} ${this.formatDate(capa.verified_at)})` : '')
+    );
+
+    // D7 Prevent recurrence
+    yPos = this.section(doc, yPos, 7);
+    yPos = this.actionsTable(doc, yPos, capa, 'PREVENTIVE');
+
+    // D8 Closure
+    yPos = this.section(doc, yPos, 8);
+    yPos = this.paragraph(doc, yPos, 'Lessons Learned', capa.lessons_learned);
+
+    // Sign-off
+    if (yPos > pageHeight - 40) {
+      doc.addPage();
+      yPos = 20;
+    }
+    const signY = Math.max(yPos + 10, pageHeight - 40);
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(9);
+    doc.line(14, signY, 90, signY);
+    doc.line(pageWidth - 90, signY, pageWidth - 14, signY);
+    doc.text('Team Leader / Date', 14, signY + 5);
+    doc.text('Quality Approval / Date', pageWidth - 90, signY + 5);
+
+    // Footer on every page
+    const pageCount = doc.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i);
+      doc.setFontSize(8);
+      doc.setTextColor(150, 150, 150);
+      doc.text(
+        `${capa.capa_number} - Page ${i} of ${pageCount} - Generated: ${new Date().toLocaleString()}`,
+        pageWidth / 2,
+        pageHeight - 10,
+        { align: 'center' }
+      );
+    }
+
+    doc.save(`8D_${capa.capa_number}.pdf`);
+  }
+
+  private static section(doc: jsPDF, yPos: number, discipline: number): number {
+    const d = DISCIPLINES[discipline - 1];
+    if (yPos > doc.internal.pageSize.getHeight() - 40) {
+      doc.addPage();
+      yPos = 20;
+    }
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(0, 0, 0);
+    doc.text(`${d.code} ${d.name}`, 14, yPos);
+    doc.setFont('helvetica', 'normal');
+    return yPos + 5;
+  }
+
+  private static paragraph(doc: jsPDF, yPos: number, label: string, text: string | undefined | null): number {
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const lines = doc.splitTextToSize(text?.trim() || '-', pageWidth - 28);
+    if (yPos + lines.length * 4 + 6 > doc.internal.pageSize.getHeight() - 20) {
+      doc.addPage();
+      yPos = 20;
+    }
+    doc.setFontSize(8);
+    doc.setTextColor(100, 100, 100);
+    doc.text(label, 14, yPos);
+    doc.setFontSize(9);
+    doc.setTextColor(0, 0, 0);
+    doc.text(lines, 14, yPos + 4);
+    return yPos + 4 + lines.length * 4 + 4;
+  }
+
+  private static actionsTable(doc: jsPDF, yPos: number, capa: CAPA8D, type: CAPAActionType): number {
+    const actions = (capa.actions || []).filter(a => a.action_type === type);
+    if (actions.length === 0) {
+      return this.paragraph(doc, yPos, 'Actions', undefined);
+    }
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Action', 'Owner', 'Due', 'Status', 'Completed']],
+      body: actions.map(a => [
+        a.description + (a.completion_notes ? `\n${a.completion_notes}` : ''),
+        a.owner?.full_name || '-',
+        this.formatDate(a.due_date),
+        a.status,
+        this.formatDate(a.completed_at),
+      ]),
+      theme: 'striped',
+      styles: { fontSize: 8, cellPadding: 2 },
+      headStyles: HEAD_STYLES,
+      columnStyles: { 0: { cellWidth: 80 } },
+      margin: { left: 14, right: 14 },
+    });
+    return this.lastY(doc, yPos) + 8;
+  }
+
+  private static lastY(doc: jsPDF, fallback: number): number {
+    return (doc as unknown as JsPDFWithAutoTable).lastAutoTable?.finalY || fallback;
+  }
+
+  private static formatDate(dateStr: string | undefined | null): string {
+    if (!dateStr) return '-';
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  }
+}
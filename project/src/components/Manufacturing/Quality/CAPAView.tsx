@@ -0,0 +1,683 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  ListChecks,
+  Plus,
+  AlertTriangle,
+  TrendingUp,
+  MessageSquareWarning,
+  X,
+} from 'lucide-react';
+import {
+  CAPAService,
+  CAPA8D,
+  CustomerComplaint,
+  ComplaintStatus,
+  DISCIPLINES,
+  PersonOption,
+} from '../../../services/CAPAService';
+import {
+  QualityExecutionService,
+  CAPAStatus,
+  NCSeverity,
+  Nonconformance,
+} from '../../../services/QualityExecutionService';
+import { useAuth } from '../../../contexts/AuthContext';
+import { CAPA8DModal } from './CAPA8DModal';
+
+type Tab = 'capas' | 'complaints';
+
+const CAPA_STATUS_STYLES: Record<CAPAStatus, string> = {
+  OPEN: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  IN_PROGRESS: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  VERIFIED: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300',
+  CLOSED: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+};
+
+const COMPLAINT_STATUS_STYLES: Record<ComplaintStatus, string> = {
+  OPEN: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  INVESTIGATING: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  RESOLVED: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  CLOSED: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const SEVERITY_STYLES: Record<NCSeverity, string> = {
+  MINOR: 'text-yellow-600 dark:text-yellow-400',
+  MAJOR: 'text-orange-600 dark:text-orange-400',
+  CRITICAL: 'text-red-600 dark:text-red-400',
+};
+
+const formatDate = (value: string | null | undefined) =>
+  value ? new Date(value.length === 10 ? `${value}T00:00:00` : value).toLocaleDateString() : '—';
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ').toLowerCase();
+
+export function CAPAView() {
+  const { profile } = useAuth();
+  const canManage = ['admin', 'dispatcher', 'supervisor'].includes(profile?.role || '');
+
+  const [activeTab, setActiveTab] = useState<Tab>('capas');
+  const [capas, setCapas] = useState<CAPA8D[]>([]);
+  const [complaints, setComplaints] = useState<CustomerComplaint[]>([]);
+  const [people, setPeople] = useState<PersonOption[]>([]);
+  const [showClosed, setShowClosed] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [openCapaId, setOpenCapaId] = useState<string | null>(null);
+  const [newCapaComplaint, setNewCapaComplaint] = useState<CustomerComplaint | null | undefined>(undefined);
+  const [showComplaintModal, setShowComplaintModal] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [capaData, complaintData, peopleData] = await Promise.all([
+        CAPAService.getCAPAs({ openOnly: !showClosed }),
+        CAPAService.getComplaints(),
+        CAPAService.getPeople(),
+      ]);
+      setCapas(capaData);
+      setComplaints(showClosed ? complaintData : complaintData.filter(c => c.status !== 'CLOSED'));
+      setPeople(peopleData);
+    } catch (error) {
+      console.error('Error loading CAPAs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [showClosed]);
+
+  useEffect(() => {
+    // Escalate anything that has gone overdue since the last visit, then load
+    CAPAService.escalateOverdue()
+      .catch(error => console.error('Error escalating overdue CAPAs:', error))
+      .finally(() => loadData());
+  }, [loadData]);
+
+  const handleCloseComplaint = async (complaint: CustomerComplaint) => {
+    const resolution = prompt('Resolution:', complaint.resolution || '');
+    if (resolution === null) return;
+    try {
+      await CAPAService.updateComplaint(complaint.id, { status: 'CLOSED', resolution: resolution || null });
+      loadData();
+    } catch (error) {
+      console.error('Error closing complaint:', error);
+      alert(error instanceof Error ? error.message : 'Failed to close complaint');
+    }
+  };
+
+  const openCapas = capas.filter(c => c.status === 'OPEN' || c.status === 'IN_PROGRESS');
+  const overdueCount = openCapas.filter(c => CAPAService.isOverdue(c)).length;
+  const escalatedCount = openCapas.filter(c => (c.escalation_level || 0) >= 2).length;
+  const openComplaints = complaints.filter(c => c.status === 'OPEN' || c.status === 'INVESTIGATING');
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <ListChecks className="w-8 h-8 text-purple-600 dark:text-purple-400" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Corrective Actions (8D)</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              8D problem solving for nonconformances and customer complaints
+            </p>
+          </div>
+        </div>
+        {canManage && (
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setShowComplaintModal(true)}
+              className="flex items-center space-x-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <MessageSquareWarning className="w-4 h-4" />
+              <span>Log Complaint</span>
+            </button>
+            <button
+              onClick={() => setNewCapaComplaint(null)}
+              className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New CAPA</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-4 gap-4">
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <ListChecks className="w-4 h-4 text-blue-500" />
+            <span className="text-sm text-gray-500">Open CAPAs</span>
+          </div>
+          <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">{openCapas.length}</p>
+        </div>
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <AlertTriangle className="w-4 h-4 text-red-500" />
+            <span className="text-sm text-gray-500">Overdue</span>
+          </div>
+          <p className="text-2xl font-bold text-red-600 dark:text-red-400">{overdueCount}</p>
+        </div>
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <TrendingUp className="w-4 h-4 text-orange-500" />
+            <span className="text-sm text-gray-500">Escalated to Management</span>
+          </div>
+          <p className="text-2xl font-bold text-orange-600 dark:text-orange-400">{escalatedCount}</p>
+        </div>
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <MessageSquareWarning className="w-4 h-4 text-yellow-500" />
+            <span className="text-sm text-gray-500">Open Complaints</span>
+          </div>
+          <p className="text-2xl font-bold text-yellow-600 dark:text-yellow-400">{openComplaints.length}</p>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700">
+        <nav className="flex space-x-6">
+          {([
+            ['capas', `CAPAs (${openCapas.length})`],
+            ['complaints', `Customer Complaints (${openComplaints.length})`],
+          ] as [Tab, string][]).map(([tab, label]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`py-3 text-sm font-medium border-b-2 ${
+                activeTab === tab
+                  ? 'border-purple-600 text-purple-600 dark:text-purple-400'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </nav>
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={showClosed}
+            onChange={(e) => setShowClosed(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          <span>Show verified and closed</span>
+        </label>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+        </div>
+      ) : activeTab === 'capas' ? (
+        <div className="card overflow-hidden">
+          {capas.length === 0 ? (
+            <div className="p-12 text-center text-gray-500">
+              <ListChecks className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No corrective actions</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">CAPA</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Owner</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Discipline</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Linked</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Open Actions</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Due</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {capas.map(capa => {
+                  const overdue = CAPAService.isOverdue(capa);
+                  const discipline = DISCIPLINES[(capa.discipline || 1) - 1];
+                  const links = capa.links || [];
+                  const openActions = (capa.actions || []).filter(a => a.status === 'OPEN').length;
+                  return (
+                    <tr
+                      key={capa.id}
+                      onClick={() => setOpenCapaId(capa.id)}
+                      className="hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer"
+                    >
+                      <td className="px-4 py-3">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">{capa.capa_number}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{capa.title}</p>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{capa.owner?.full_name || '—'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {capa.status === 'CLOSED' ? 'Closed' : `${discipline.code} ${discipline.name}`}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {links.filter(l => l.nonconformance_id).length} NC · {links.filter(l => l.complaint_id).length} complaint
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{openActions}</td>
+                      <td className={`px-4 py-3 text-sm ${overdue ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-700 dark:text-gray-300'}`}>
+                        {formatDate(capa.due_date)}
+                        {overdue && (
+                          <span className="block text-xs">
+                            Overdue{(capa.escalation_level || 0) >= 2 ? ' · escalated' : ''}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${CAPA_STATUS_STYLES[capa.status]}`}>
+                          {formatStatus(capa.status)}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ) : (
+        <div className="card overflow-hidden">
+          {complaints.length === 0 ? (
+            <div className="p-12 text-center text-gray-500">
+              <MessageSquareWarning className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No customer complaints</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Complaint</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Customer</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Received</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Severity</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {complaints.map(complaint => {
+                  const capaId = complaint.capa_link?.[0]?.capa_id;
+                  return (
+                    <tr key={complaint.id} className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                      <td className="px-4 py-3">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">{complaint.complaint_number}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{complaint.title}</p>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{complaint.customer?.name || '—'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{formatDate(complaint.received_at)}</td>
+                      <td className={`px-4 py-3 text-sm font-medium ${SEVERITY_STYLES[complaint.severity]}`}>{complaint.severity}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${COMPLAINT_STATUS_STYLES[complaint.status]}`}>
+                          {formatStatus(complaint.status)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <div className="flex items-center justify-end space-x-2">
+                          {capaId ? (
+                            <button
+                              onClick={() => setOpenCapaId(capaId)}
+                              className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                            >
+                              View CAPA
+                            </button>
+                          ) : canManage && complaint.status !== 'CLOSED' && (
+                            <button
+                              onClick={() => setNewCapaComplaint(complaint)}
+                              className="px-3 py-1 bg-purple-600 text-white text-sm rounded hover:bg-purple-700"
+                            >
+                              Open CAPA
+                            </button>
+                          )}
+                          {canManage && complaint.status !== 'CLOSED' && (
+                            <button
+                              onClick={() => handleCloseComplaint(complaint)}
+                              className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                            >
+                              Close
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {openCapaId && (
+        <CAPA8DModal
+          capaId={openCapaId}
+          users={people}
+          onClose={() => setOpenCapaId(null)}
+          onChanged={loadData}
+        />
+      )}
+
+      {newCapaComplaint !== undefined && (
+        <NewCAPAModal
+          people={people}
+          complaint={newCapaComplaint}
+          onClose={() => setNewCapaComplaint(undefined)}
+          onCreated={(capa) => {
+            setNewCapaComplaint(undefined);
+            loadData();
+            setOpenCapaId(capa.id);
+          }}
+        />
+      )}
+
+      {showComplaintModal && (
+        <ComplaintModal
+          onClose={() => setShowComplaintModal(false)}
+          onSaved={() => {
+            setShowComplaintModal(false);
+            setActiveTab('complaints');
+            loadData();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// =====================================================
+// NEW CAPA MODAL
+// =====================================================
+
+interface NewCAPAModalProps {
+  people: PersonOption[];
+  complaint: CustomerComplaint | null;
+  onClose: () => void;
+  onCreated: (capa: CAPA8D) => void;
+}
+
+function NewCAPAModal({ people, complaint, onClose, onCreated }: NewCAPAModalProps) {
+  const { profile } = useAuth();
+  const [form, setForm] = useState({
+    title: complaint?.title || '',
+    owner_id: profile?.id || '',
+    due_date: '',
+    problem_statement: complaint?.description || '',
+  });
+  const [nonconformances, setNonconformances] = useState<Nonconformance[]>([]);
+  const [selectedNCs, setSelectedNCs] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  useEffect(() => {
+    Promise.all([QualityExecutionService.getNonconformances(), CAPAService.getLinkedNonconformanceIds()])
+      .then(([ncs, linked]) => setNonconformances(ncs.filter(nc => nc.status !== 'CLOSED' && !linked.has(nc.id))))
+      .catch(error => console.error('Error loading nonconformances:', error));
+  }, []);
+
+  const toggleNC = (id: string) => {
+    setSelectedNCs(selectedNCs.includes(id) ? selectedNCs.filter(n => n !== id) : [...selectedNCs, id]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const capa = await CAPAService.createCAPA({
+        ...form,
+        due_date: form.due_date || undefined,
+        nonconformance_ids: selectedNCs,
+        complaint_ids: complaint ? [complaint.id] : [],
+      });
+      onCreated(capa);
+    } catch (error) {
+      console.error('Error creating CAPA:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create CAPA');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg mx-4">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            New CAPA{complaint ? ` – ${complaint.complaint_number}` : ''}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className={labelClass}>Title *</label>
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Owner / Team Leader *</label>
+              <select
+                value={form.owner_id}
+                onChange={(e) => setForm({ ...form, owner_id: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Select...</option>
+                {people.map(p => (
+                  <option key={p.id} value={p.id}>{p.full_name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Target Close Date</label>
+              <input
+                type="date"
+                value={form.due_date}
+                onChange={(e) => setForm({ ...form, due_date: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Problem Statement</label>
+            <textarea
+              value={form.problem_statement}
+              onChange={(e) => setForm({ ...form, problem_statement: e.target.value })}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Nonconformances</label>
+            {nonconformances.length === 0 ? (
+              <p className="text-sm text-gray-500">No open nonconformances without a CAPA</p>
+            ) : (
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {nonconformances.map(nc => (
+                  <label key={nc.id} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={selectedNCs.includes(nc.id)}
+                      onChange={() => toggleNC(nc.id)}
+                      className="rounded border-gray-300"
+                    />
+                    <span>{nc.nc_number} – {nc.title}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-400">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !form.title.trim() || !form.owner_id}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            {saving ? 'Creating...' : 'Create CAPA'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =====================================================
+// COMPLAINT MODAL
+// =====================================================
+
+interface ComplaintModalProps {
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function ComplaintModal({ onClose, onSaved }: ComplaintModalProps) {
+  const [customers, setCustomers] = useState<{ id: string; name: string }[]>([]);
+  const [form, setForm] = useState({
+    customer_id: '',
+    title: '',
+    description: '',
+    severity: 'MAJOR' as NCSeverity,
+    serial_number: '',
+    qty_affected: '',
+    received_at: new Date().toISOString().split('T')[0],
+  });
+  const [saving, setSaving] = useState(false);
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  useEffect(() => {
+    CAPAService.getCustomers()
+      .then(setCustomers)
+      .catch(error => console.error('Error loading customers:', error));
+  }, []);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await CAPAService.createComplaint({
+        customer_id: form.customer_id || null,
+        title: form.title,
+        description: form.description || null,
+        severity: form.severity,
+        serial_number: form.serial_number || null,
+        qty_affected: form.qty_affected ? parseFloat(form.qty_affected) : null,
+        received_at: form.received_at,
+      });
+      onSaved();
+    } catch (error) {
+      console.error('Error logging complaint:', error);
+      alert(error instanceof Error ? error.message : 'Failed to log complaint');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg mx-4">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Log Customer Complaint</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className={labelClass}>Customer</label>
+            <select
+              value={form.customer_id}
+              onChange={(e) => setForm({ ...form, customer_id: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Select...</option>
+              {customers.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Title *</label>
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Description</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Severity</label>
+              <select
+                value={form.severity}
+                onChange={(e) => setForm({ ...form, severity: e.target.value as NCSeverity })}
+                className={inputClass}
+              >
+                <option value="MINOR">Minor</option>
+                <option value="MAJOR">Major</option>
+                <option value="CRITICAL">Critical</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Received</label>
+              <input
+                type="date"
+                value={form.received_at}
+                onChange={(e) => setForm({ ...form, received_at: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Serial Number</label>
+              <input
+                type="text"
+                value={form.serial_number}
+                onChange={(e) => setForm({ ...form, serial_number: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Qty Affected</label>
+              <input
+                type="number"
+                min="0"
+                value={form.qty_affected}
+                onChange={(e) => setForm({ ...form, qty_affected: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-400">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !form.title.trim()}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Log Complaint'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { CapabilityStudy, ConfidenceInterval } from '../../../services/SPCService';
+
+interface JsPDFWithAutoTable extends jsPDF {
+  lastAutoTable?: { finalY: number };
+}
+
+const METHOD_NOTES: Record<string, string> = {
+  normal: 'Data passed the Anderson-Darling normality test; indices assume a normal distribution.',
+  box_cox: 'Data failed the normality test. Indices were computed on Box-Cox transformed data and spec limits.',
+  percentile: 'Data is non-normal and no transform normalized it. Pp/Ppk use the 0.135th, 50th and 99.865th percentiles (ISO 22514-2).',
+};
+
+const CHART_NAMES: Record<string, string> = {
+  XBAR_R: 'X-bar R',
+  XBAR_S: 'X-bar S',
+  IMR: 'Individuals / Moving Range',
+};
+
+export class CapabilityStudyPDF {
+  static generatePDF(study: CapabilityStudy): void {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const cap = study.capability;
+
+    // Header
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Process Capability Study', pageWidth / 2, 20, { align: 'center' });
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(
+      `${study.characteristic_name}${study.uom ? ` (${study.uom})` : ''}`,
+      pageWidth / 2,
+      28,
+      { align: 'center' }
+    );
+    doc.setFontSize(9);
+    doc.setTextColor(100, 100, 100);
+    if (study.plan_name) {
+      doc.text(`Inspection Plan: ${study.plan_name}`, pageWidth / 2, 34, { align: 'center' });
+    }
+    doc.setTextColor(0, 0, 0);
+
+    // Study details and specification side by side
+    autoTable(doc, {
+      startY: 40,
+      head: [['Study', '']],
+      body: [
+        ['Period', `${this.formatDate(study.from)} - ${this.formatDate(study.to)}`],
+        ['Control Chart', CHART_NAMES[study.chart_type] || study.chart_type],
+        ['Subgroups', `${study.subgroup_count} (avg n = ${study.subgroup_size.toFixed(1)})`],
+        ['Readings', String(cap.n)],
+        ['UCL / CL / LCL', `${this.num(study.controlLimits.ucl)} / ${this.num(study.controlLimits.centerLine)} / ${this.num(study.controlLimits.lcl)}`],
+        ['Out-of-Control Points', String(study.out_of_control_count)],
+      ],
+      theme: 'striped',
+      styles: { fontSize: 8, cellPadding: 2 },
+      headStyles: { fillColor: [59, 130, 246], textColor: 255 },
+      margin: { left: 14, right: pageWidth / 2 + 2 },
+    });
+    const studyY = (doc as unknown as JsPDFWithAutoTable).lastAutoTable?.finalY || 90;
+
+    autoTable(doc, {
+      startY: 40,
+      head: [['Specification', '']],
+      body: [
+        ['LSL', this.num(study.controlLimits.lsl)],
+        ['Target', this.num(study.controlLimits.target)],
+        ['USL', this.num(study.controlLimits.usl)],
+        ['Mean', this.num(cap.mean)],
+        ['Std Dev (Within)', this.num(cap.stddevWithin)],
+        ['Std Dev (Overall)', this.num(cap.stddev)],
+      ],
+      theme: 'striped',
+      styles: { fontSize: 8, cellPadding: 2 },
+      headStyles: { fillColor: [59, 130, 246], textColor: 255 },
+      margin: { left: pageWidth / 2 + 2, right: 14 },
+    });
+    const specY = (doc as unknown as JsPDFWithAutoTable).lastAutoTable?.finalY || 90;
+
+    let yPos = Math.max(studyY, specY) + 8;
+
+    // Histogram
+    yPos = this.drawHistogram(doc, study, 14, yPos, pageWidth - 28, 60) + 8;
+
+    // Capability indices
+    const confidence = `${Math.round(cap.confidenceLevel * 100)}% CI`;
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Index', 'Value', confidence]],
+      body: [
+        ['Cp (within)', this.num(cap.cp, 2), this.interval(cap.cpCI)],
+        ['Cpk (within)', this.num(cap.cpk, 2), this.interval(cap.cpkCI)],
+        ['Pp (overall)', this.num(cap.pp, 2), this.interval(cap.ppCI)],
+        ['Ppk (overall)', this.num(cap.ppk, 2), this.interval(cap.ppkCI)],
+      ],
+      theme: 'striped',
+      styles: { fontSize: 9, cellPadding: 2 },
+      headStyles: { fillColor: [59, 130, 246], textColor: 255 },
+      columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } },
+      margin: { left: 14, right: pageWidth / 2 + 2 },
+    });
+    const indicesY = (doc as unknown as JsPDFWithAutoTable).lastAutoTable?.finalY || yPos + 30;
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Distribution & Performance', '']],
+      body: [
+        ['Anderson-Darling A²', this.num(cap.normality.statistic, 3)],
+        ['p-value', cap.normality.pValue < 0.005 ? '< 0.005' : this.num(cap.normality.pValue, 3)],
+        ['Method', cap.boxCoxLambda !== undefined ? `Box-Cox (lambda = ${cap.boxCoxLambda})` : cap.method === 'percentile' ? 'Percentile' : 'Normal'],
+        ...(cap.transformedNormality ? [['Transformed p-value', this.num(cap.transformedNormality.pValue, 3)]] : []),
+        ['Expected PPM (within)', cap.ppmWithin !== undefined ? Math.round(cap.ppmWithin).toString() : '-'],
+        ['Expected PPM (overall)', cap.method === 'percentile' ? '-' : Math.round(cap.ppm || 0).toString()],
+        ['Observed PPM', Math.round(cap.ppmObserved || 0).toString()],
+        ['Z.Bench (within)', this.num(cap.sigmaLevel, 2)],
+      ],
+      theme: 'striped',
+      styles: { fontSize: 8, cellPadding: 2 },
+      headStyles: { fillColor: [59, 130, 246], textColor: 255 },
+      columnStyles: { 1: { halign: 'right' } },
+      margin: { left: pageWidth / 2 + 2, right: 14 },
+    });
+    const distY = (doc as unknown as JsPDFWithAutoTable).lastAutoTable?.finalY || yPos + 30;
+
+    yPos = Math.max(indicesY, distY) + 8;
+
+    // Method and stability notes
+    doc.setFontSize(8);
+    doc.setTextColor(80, 80, 80);
+    const notes = [METHOD_NOTES[cap.method]];
+    if (study.out_of_control_count > 0) {
+      notes.push(`${study.out_of_control_count} subgroup(s) fall outside control limits; the process may not be stable, so Cp/Cpk may not predict future performance.`);
+    }
+    for (const note of notes) {
+      const lines = doc.splitTextToSize(note, pageWidth - 28);
+      doc.text(lines, 14, yPos);
+      yPos += lines.length * 4 + 2;
+    }
+
+    // Sign-off
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const signY = Math.max(yPos + 10, pageHeight - 40);
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(9);
+    doc.line(14, signY, 90, signY);
+    doc.line(pageWidth - 90, signY, pageWidth - 14, signY);
+    doc.text('Prepared By / Date', 14, signY + 5);
+    doc.text('Approved By / Date', pageWidth - 90, signY + 5);
+
+    // Footer
+    doc.setFontSize(8);
+    doc.setTextColor(150, 150, 150);
+    doc.text(`Generated: ${new Date(study.generated_at).toLocaleString()}`, pageWidth / 2, pageHeight - 14, { align: 'center' });
+
+    const fileName = `Capability_${study.characteristic_name.replace(/\s+/g, '_')}_${study.generated_at.split('T')[0]}.pdf`;
+    doc.save(fileName);
+  }
+
+  private static drawHistogram(
+    doc: jsPDF,
+    study: CapabilityStudy,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): number {
+    const bins = study.histogram;
+    if (bins.length === 0) return y;
+
+    const min = bins[0].lower;
+    const max = bins[bins.length - 1].upper;
+    const maxCount = Math.max(...bins.map(b => b.count), 1);
+    const toX = (value: number) => x + ((value - min) / (max - min || 1)) * width;
+    const baseY = y + height;
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(0, 0, 0);
+    doc.text('Distribution', x, y);
+    doc.setFont('helvetica', 'normal');
+
+    // Bars
+    doc.setFillColor(147, 197, 253);
+    doc.setDrawColor(59, 130, 246);
+    for (const bin of bins) {
+      const barHeight = (bin.count / maxCount) * (height - 12);
+      if (barHeight > 0) {
+        doc.rect(toX(bin.lower), baseY - barHeight, toX(bin.upper) - toX(bin.lower), barHeight, 'FD');
+      }
+    }
+
+    // Axis
+    doc.setDrawColor(120, 120, 120);
+    doc.line(x, baseY, x + width, baseY);
+    doc.setFontSize(7);
+    doc.setTextColor(100, 100, 100);
+    doc.text(this.num(min), x, baseY + 4);
+    doc.text(this.num(max), x + width, baseY + 4, { align: 'right' });
+
+    // Spec limits and mean
+    const marker = (value: number | undefined, label: string, color: [number, number, number]) => {
+      if (value === undefined || value < min || value > max) return;
+      doc.setDrawColor(...color);
+      doc.setTextColor(...color);
+      doc.line(toX(value), y + 8, toX(value), baseY);
+      doc.text(label, toX(value), y + 7, { align: 'center' });
+    };
+    marker(study.controlLimits.lsl, 'LSL', [220, 38, 38]);
+    marker(study.controlLimits.usl, 'USL', [220, 38, 38]);
+    marker(study.capability.mean, 'Mean', [22, 163, 74]);
+
+    doc.setTextColor(0, 0, 0);
+    doc.setDrawColor(0, 0, 0);
+    return baseY + 4;
+  }
+
+  private static num(value: number | undefined, digits = 4): string {
+    return value === undefined || value === null || Number.isNaN(value) ? '-' : value.toFixed(digits);
+  }
+
+  private static interval(ci: ConfidenceInterval | undefined): string {
+    return ci ? `${ci.lower.toFixed(2)} - ${ci.upper.toFixed(2)}` : '-';
+  }
+
+  private static formatDate(dateStr: string | undefined): string {
+    if (!dateStr) return '-';
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  }
+}
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { X, PenLine } from 'lucide-react';
+import {
+  SIGNATURE_MEANINGS,
+  SignatureCredentials,
+  SignatureMeaning,
+} from '../../../services/ElectronicSignatureService';
+import { useAuth } from '../../../contexts/AuthContext';
+
+interface ESignatureModalProps {
+  title: string;
+  meaning: SignatureMeaning;
+  recordLabel: string;
+  reasonLabel?: string;
+  confirmLabel?: string;
+  onSign: (credentials: SignatureCredentials) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white';
+
+/**
+ * Electronic signature prompt: the signer re-enters their password and
+ * states a reason; the meaning of the signature is shown before signing.
+ */
+export function ESignatureModal({
+  title,
+  meaning,
+  recordLabel,
+  reasonLabel = 'Reason',
+  confirmLabel = 'Sign',
+  onSign,
+  onClose,
+}: ESignatureModalProps) {
+  const { profile, user } = useAuth();
+  const [password, setPassword] = useState('');
+  const [reason, setReason] = useState('');
+  const [signing, setSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSigning(true);
+    setError(null);
+    try {
+      await onSign({ password, reason });
+    } catch (err) {
+      console.error('Error signing record:', err);
+      setError(err instanceof Error ? err.message : 'Signature failed');
+      setPassword('');
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60] p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white dark:bg-gray-800 rounded-lg w-full max-w-md shadow-xl"
+      >
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <PenLine className="w-5 h-5 text-purple-600" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h3>
+          </div>
+          <button type="button" onClick={onClose} className="p-2 text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="p-3 bg-purple-50 dark:bg-purple-900/20 rounded-lg text-sm text-gray-700 dark:text-gray-300">
+            I, <span className="font-medium">{profile?.full_name || user?.email}</span>, sign{' '}
+            <span className="font-medium">{recordLabel}</span> as{' '}
+            <span className="font-medium">{SIGNATURE_MEANINGS[meaning].toLowerCase()}</span>.
+            This electronic signature is the legally binding equivalent of my handwritten signature.
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">{reasonLabel} *</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              required
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">Password *</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+              className={inputClass}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={signing || !password || !reason.trim()}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            {signing ? 'Signing...' : confirmLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,907 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  X,
+  FileDown,
+  Plus,
+  Trash2,
+  AlertTriangle,
+  CheckCircle,
+  XCircle,
+} from 'lucide-react';
+import {
+  FirstArticleService,
+  FirstArticle,
+  FAICharacteristic,
+  FAIItemType,
+  FAISignatureRole,
+  FAI_ITEM_TYPE_LABELS,
+  FAI_REASON_LABELS,
+} from '../../../services/FirstArticleService';
+import { CharacteristicType } from '../../../services/QualityExecutionService';
+import { GaugeService, Gauge } from '../../../services/GaugeService';
+import { useAuth } from '../../../contexts/AuthContext';
+import { FirstArticleReportPDF } from './FirstArticleReportPDF';
+
+interface FirstArticleModalProps {
+  faiId: string;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+type Form = 'part' | 'product' | 'characteristics' | 'approvals';
+
+const FORMS: { id: Form; label: string }[] = [
+  { id: 'part', label: 'Form 1 · Part' },
+  { id: 'product', label: 'Form 2 · Product' },
+  { id: 'characteristics', label: 'Form 3 · Characteristics' },
+  { id: 'approvals', label: 'Approvals' },
+];
+
+const SIGNATURE_LABELS: Record<FAISignatureRole, string> = {
+  INSPECTOR: 'Inspector',
+  QUALITY: 'Quality',
+  CUSTOMER: 'Customer',
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+const formatDateTime = (value: string | null | undefined) =>
+  value ? new Date(value).toLocaleString() : '—';
+
+const ResultBadge = ({ conforming }: { conforming?: boolean | null }) => {
+  if (conforming === null || conforming === undefined) {
+    return <span className="text-xs text-gray-400">Pending</span>;
+  }
+  return conforming ? (
+    <span className="flex items-center text-xs text-green-600 dark:text-green-400">
+      <CheckCircle className="w-4 h-4 mr-1" /> Conforming
+    </span>
+  ) : (
+    <span className="flex items-center text-xs text-red-600 dark:text-red-400">
+      <XCircle className="w-4 h-4 mr-1" /> Nonconforming
+    </span>
+  );
+};
+
+export function FirstArticleModal({ faiId, onClose, onChanged }: FirstArticleModalProps) {
+  const { profile } = useAuth();
+  const canInspect = ['admin', 'dispatcher', 'supervisor', 'operator', 'technician'].includes(profile?.role || '');
+  const canApprove = ['admin', 'dispatcher', 'supervisor'].includes(profile?.role || '');
+
+  const [fai, setFai] = useState<FirstArticle | null>(null);
+  const [gauges, setGauges] = useState<Gauge[]>([]);
+  const [activeForm, setActiveForm] = useState<Form>('characteristics');
+  const [saving, setSaving] = useState(false);
+
+  const loadFAI = useCallback(async () => {
+    try {
+      setFai(await FirstArticleService.getFirstArticle(faiId));
+    } catch (error) {
+      console.error('Error loading first article:', error);
+    }
+  }, [faiId]);
+
+  useEffect(() => {
+    loadFAI();
+    GaugeService.getGauges()
+      .then(data => setGauges(data.filter(g => GaugeService.isGaugeUsable(g))))
+      .catch(error => console.error('Error loading gauges:', error));
+  }, [loadFAI]);
+
+  const run = async (action: () => Promise<unknown>, failure: string): Promise<boolean> => {
+    setSaving(true);
+    try {
+      await action();
+      await loadFAI();
+      onChanged();
+      return true;
+    } catch (error) {
+      console.error(failure, error);
+      alert(error instanceof Error ? error.message : failure);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!fai) {
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  const editable = canInspect && fai.status === 'OPEN';
+  const progress = FirstArticleService.getProgress(fai);
+  const submitBlocker = fai.status === 'OPEN' ? FirstArticleService.getSubmitBlocker(fai) : null;
+  const hasSigned = (role: FAISignatureRole) => (fai.signatures || []).some(s => s.signature_role === role);
+
+  const handleReject = (role: 'QUALITY' | 'CUSTOMER') => {
+    const reason = prompt('Reason for rejecting the first article:');
+    if (reason === null) return;
+    run(() => FirstArticleService.reject(fai.id, role, reason), 'Failed to reject first article');
+  };
+
+  const handleCustomerApproval = () => {
+    const signer = prompt('Customer representative approving the first article:');
+    if (signer === null) return;
+    run(() => FirstArticleService.recordCustomerApproval(fai.id, signer), 'Failed to record customer approval');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {fai.fai_number} – {fai.part?.part_number} {fai.part?.name}
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {FAI_REASON_LABELS[fai.reason]}
+              {fai.revision ? ` · Rev ${fai.revision.revision_code}` : ''}
+              {fai.production_order ? ` · ${fai.production_order.order_number}` : ''}
+              {' · '}{progress.inspected}/{progress.total} inspected · {fai.status}
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => FirstArticleReportPDF.generatePDF(fai)}
+              className="flex items-center space-x-1 px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <FileDown className="w-4 h-4" />
+              <span>FAI Report</span>
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex border-b border-gray-200 dark:border-gray-700 px-6 space-x-6">
+          {FORMS.map(form => (
+            <button
+              key={form.id}
+              onClick={() => setActiveForm(form.id)}
+              className={`py-3 text-sm font-medium border-b-2 ${
+                activeForm === form.id
+                  ? 'border-purple-600 text-purple-600 dark:text-purple-400'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400'
+              }`}
+            >
+              {form.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto flex-1">
+          {fai.status === 'FAILED' && (
+            <div className="flex items-center p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              First article failed
+              {fai.nonconformance ? ` · ${fai.nonconformance.nc_number} raised` : ''}.
+              Reopen it to re-inspect the nonconforming characteristics once corrected.
+            </div>
+          )}
+
+          {activeForm === 'part' && (
+            <PartPanel fai={fai} editable={editable} run={run} />
+          )}
+          {activeForm === 'product' && (
+            <ProductPanel fai={fai} editable={editable} run={run} />
+          )}
+          {activeForm === 'characteristics' && (
+            <CharacteristicsPanel fai={fai} gauges={gauges} editable={editable} run={run} />
+          )}
+          {activeForm === 'approvals' && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-2">Role</th>
+                  <th className="py-2">Signed By</th>
+                  <th className="py-2">Decision</th>
+                  <th className="py-2">Date</th>
+                  <th className="py-2">Comments</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {(['INSPECTOR', 'QUALITY', 'CUSTOMER'] as FAISignatureRole[])
+                  .filter(role => role !== 'CUSTOMER' || fai.customer_approval_required)
+                  .map(role => {
+                    const signature = (fai.signatures || []).find(s => s.signature_role === role);
+                    return (
+                      <tr key={role}>
+                        <td className="py-2 text-gray-900 dark:text-white">{SIGNATURE_LABELS[role]}</td>
+                        <td className="py-2 text-gray-700 dark:text-gray-300">
+                          {signature ? signature.signer_name || signature.signer?.full_name : '—'}
+                          {signature?.signer_name && (
+                            <span className="block text-xs text-gray-500">recorded by {signature.signer?.full_name}</span>
+                          )}
+                        </td>
+                        <td className="py-2">
+                          {signature ? (
+                            <span className={signature.approved ? 'text-green-600' : 'text-red-600'}>
+                              {signature.approved ? 'Approved' : 'Rejected'}
+                            </span>
+                          ) : (
+                            <span className="text-gray-400">Pending</span>
+                          )}
+                        </td>
+                        <td className="py-2 text-gray-700 dark:text-gray-300">{formatDateTime(signature?.signed_at)}</td>
+                        <td className="py-2 text-gray-700 dark:text-gray-300">{signature?.comments || ''}</td>
+                      </tr>
+                    );
+                  })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex items-center justify-end space-x-3">
+          {submitBlocker && (
+            <p className="flex-1 flex items-center text-sm text-yellow-700 dark:text-yellow-400">
+              <AlertTriangle className="w-4 h-4 mr-1" />
+              {submitBlocker}
+            </p>
+          )}
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-400">
+            Close
+          </button>
+          {canInspect && fai.status === 'OPEN' && (
+            <button
+              onClick={() => {
+                if (!confirm('Sign and submit this first article as inspected?')) return;
+                run(() => FirstArticleService.submit(fai.id), 'Failed to submit first article');
+              }}
+              disabled={saving || !!submitBlocker}
+              className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+            >
+              Submit Inspection
+            </button>
+          )}
+          {canApprove && fai.status === 'SUBMITTED' && (
+            <>
+              {!hasSigned('QUALITY') && (
+                <>
+                  <button
+                    onClick={() => handleReject('QUALITY')}
+                    disabled={saving}
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    onClick={() => {
+                      const comments = prompt('Approval comments (optional):');
+                      if (comments === null) return;
+                      run(() => FirstArticleService.approve(fai.id, comments), 'Failed to approve first article');
+                    }}
+                    disabled={saving}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                  >
+                    Quality Approve
+                  </button>
+                </>
+              )}
+              {fai.customer_approval_required && !hasSigned('CUSTOMER') && (
+                <>
+                  <button
+                    onClick={() => handleReject('CUSTOMER')}
+                    disabled={saving}
+                    className="px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Customer Rejected
+                  </button>
+                  <button
+                    onClick={handleCustomerApproval}
+                    disabled={saving}
+                    className="px-4 py-2 border border-green-300 text-green-700 rounded-lg hover:bg-green-50 disabled:opacity-50"
+                  >
+                    Customer Approved
+                  </button>
+                </>
+              )}
+            </>
+          )}
+          {canApprove && fai.status === 'FAILED' && (
+            <button
+              onClick={() => {
+                if (!confirm('Reopen this first article? Nonconforming results are cleared and all signatures must be given again.')) return;
+                run(() => FirstArticleService.reopen(fai.id), 'Failed to reopen first article');
+              }}
+              disabled={saving}
+              className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+            >
+              Reopen for Re-inspection
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =====================================================
+// PANELS
+// =====================================================
+
+interface PanelProps {
+  fai: FirstArticle;
+  editable: boolean;
+  run: (action: () => Promise<unknown>, failure: string) => Promise<boolean>;
+}
+
+function PartPanel({ fai, editable, run }: PanelProps) {
+  const [form, setForm] = useState({
+    serial_number: fai.serial_number || '',
+    drawing_number: fai.drawing_number || '',
+    drawing_revision: fai.drawing_revision || '',
+    customer_approval_required: fai.customer_approval_required,
+    notes: fai.notes || '',
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-gray-500">Part</p>
+          <p className="text-gray-900 dark:text-white">{fai.part?.part_number} – {fai.part?.name}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Production Order</p>
+          <p className="text-gray-900 dark:text-white">
+            {fai.production_order ? `${fai.production_order.order_number} – ${fai.production_order.title}` : '—'}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">Reason for FAI</p>
+          <p className="text-gray-900 dark:text-white">{FAI_REASON_LABELS[fai.reason]}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Submitted</p>
+          <p className="text-gray-900 dark:text-white">{formatDateTime(fai.submitted_at)}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className={labelClass}>Serial Number *</label>
+          <input
+            type="text"
+            value={form.serial_number}
+            onChange={(e) => setForm({ ...form, serial_number: e.target.value })}
+            disabled={!editable}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Drawing Number</label>
+          <input
+            type="text"
+            value={form.drawing_number}
+            onChange={(e) => setForm({ ...form, drawing_number: e.target.value })}
+            disabled={!editable}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Drawing Revision</label>
+          <input
+            type="text"
+            value={form.drawing_revision}
+            onChange={(e) => setForm({ ...form, drawing_revision: e.target.value })}
+            disabled={!editable}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div>
+        <label className={labelClass}>Notes</label>
+        <textarea
+          value={form.notes}
+          onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          disabled={!editable}
+          rows={3}
+          className={inputClass}
+        />
+      </div>
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={form.customer_approval_required}
+          onChange={(e) => setForm({ ...form, customer_approval_required: e.target.checked })}
+          disabled={!editable}
+          className="rounded border-gray-300"
+        />
+        <span className="text-sm text-gray-600 dark:text-gray-400">Customer approval required</span>
+      </label>
+      {editable && (
+        <div className="flex justify-end">
+          <button
+            onClick={() => run(() => FirstArticleService.updateHeader(fai.id, form), 'Failed to save first article')}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+          >
+            Save
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ProductPanel({ fai, editable, run }: PanelProps) {
+  const emptyForm = { item_type: 'MATERIAL' as FAIItemType, name: '', specification: '', supplier: '', certificate_number: '' };
+  const [form, setForm] = useState(emptyForm);
+
+  const handleAdd = async () => {
+    const added = await run(() => FirstArticleService.addProductItem(fai.id, form), 'Failed to add item');
+    if (added) setForm(emptyForm);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Raw materials, special processes and functional tests, with the certificates that prove them.
+      </p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 uppercase">
+            <th className="py-2">Type</th>
+            <th className="py-2">Name</th>
+            <th className="py-2">Specification</th>
+            <th className="py-2">Supplier</th>
+            <th className="py-2">Certificate</th>
+            <th className="py-2">Result</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {(fai.product_items || []).map(item => (
+            <tr key={item.id}>
+              <td className="py-2 text-gray-700 dark:text-gray-300">{FAI_ITEM_TYPE_LABELS[item.item_type]}</td>
+              <td className="py-2 text-gray-900 dark:text-white">{item.name}</td>
+              <td className="py-2 text-gray-700 dark:text-gray-300">{item.specification || '—'}</td>
+              <td className="py-2 text-gray-700 dark:text-gray-300">{item.supplier || '—'}</td>
+              <td className="py-2">
+                {editable ? (
+                  <input
+                    type="text"
+                    defaultValue={item.certificate_number || ''}
+                    onBlur={(e) => {
+                      if (e.target.value !== (item.certificate_number || '')) {
+                        run(() => FirstArticleService.updateProductItem(item.id, { certificate_number: e.target.value || null }), 'Failed to save certificate');
+                      }
+                    }}
+                    className="w-32 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                ) : (
+                  <span className="text-gray-700 dark:text-gray-300">{item.certificate_number || '—'}</span>
+                )}
+              </td>
+              <td className="py-2">
+                {editable ? (
+                  <select
+                    value={item.is_conforming === null || item.is_conforming === undefined ? '' : String(item.is_conforming)}
+                    onChange={(e) => run(
+                      () => FirstArticleService.updateProductItem(item.id, {
+                        is_conforming: e.target.value === '' ? null : e.target.value === 'true',
+                      }),
+                      'Failed to save result'
+                    )}
+                    className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  >
+                    <option value="">Pending</option>
+                    <option value="true">Conforming</option>
+                    <option value="false">Nonconforming</option>
+                  </select>
+                ) : (
+                  <ResultBadge conforming={item.is_conforming} />
+                )}
+              </td>
+              <td className="py-2 text-right">
+                {editable && (
+                  <button
+                    onClick={() => run(() => FirstArticleService.removeProductItem(item.id), 'Failed to remove item')}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+          {(fai.product_items || []).length === 0 && (
+            <tr>
+              <td colSpan={7} className="py-4 text-center text-gray-500">No product accountability items</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+      {editable && (
+        <div className="grid grid-cols-6 gap-2 items-end">
+          <select
+            value={form.item_type}
+            onChange={(e) => setForm({ ...form, item_type: e.target.value as FAIItemType })}
+            className={inputClass}
+          >
+            {(Object.keys(FAI_ITEM_TYPE_LABELS) as FAIItemType[]).map(type => (
+              <option key={type} value={type}>{FAI_ITEM_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            placeholder="Specification"
+            value={form.specification}
+            onChange={(e) => setForm({ ...form, specification: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            placeholder="Supplier"
+            value={form.supplier}
+            onChange={(e) => setForm({ ...form, supplier: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            placeholder="Certificate"
+            value={form.certificate_number}
+            onChange={(e) => setForm({ ...form, certificate_number: e.target.value })}
+            className={inputClass}
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!form.name.trim()}
+            className="flex items-center justify-center space-x-1 px-3 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CharacteristicsPanel({ fai, gauges, editable, run }: PanelProps & { gauges: Gauge[] }) {
+  const [recording, setRecording] = useState<FAICharacteristic | null>(null);
+  const [showAdd, setShowAdd] = useState(false);
+
+  return (
+    <div className="space-y-3">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 uppercase">
+            <th className="py-2 w-16">Balloon</th>
+            <th className="py-2">Characteristic</th>
+            <th className="py-2">Zone</th>
+            <th className="py-2">Requirement</th>
+            <th className="py-2">Result</th>
+            <th className="py-2">Gauge</th>
+            <th className="py-2">Status</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {(fai.characteristics || []).map(c => (
+            <tr key={c.id} className={c.is_conforming === false ? 'bg-red-50 dark:bg-red-900/10' : ''}>
+              <td className="py-2">
+                <span className="inline-flex items-center justify-center w-7 h-7 rounded-full border-2 border-purple-500 text-xs font-bold text-purple-700 dark:text-purple-300">
+                  {c.balloon_number}
+                </span>
+              </td>
+              <td className="py-2 text-gray-900 dark:text-white">
+                {c.characteristic}
+                {c.notes && <span className="block text-xs text-gray-500">{c.notes}</span>}
+              </td>
+              <td className="py-2 text-gray-700 dark:text-gray-300">{c.drawing_zone || '—'}</td>
+              <td className="py-2 text-gray-700 dark:text-gray-300">{FirstArticleService.formatRequirement(c)}</td>
+              <td className="py-2 text-gray-900 dark:text-white font-medium">{FirstArticleService.formatActual(c)}</td>
+              <td className="py-2 text-gray-700 dark:text-gray-300">{c.gauge?.gauge_number || '—'}</td>
+              <td className="py-2"><ResultBadge conforming={c.is_conforming} /></td>
+              <td className="py-2 text-right whitespace-nowrap">
+                {editable && (
+                  <>
+                    <button
+                      onClick={() => setRecording(c)}
+                      className="px-2 py-1 text-xs text-purple-600 hover:bg-purple-50 dark:hover:bg-purple-900/20 rounded"
+                    >
+                      {c.is_conforming === null || c.is_conforming === undefined ? 'Record' : 'Edit'}
+                    </button>
+                    {!c.characteristic_id && (
+                      <button
+                        onClick={() => run(() => FirstArticleService.removeCharacteristic(c.id), 'Failed to remove characteristic')}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </>
+                )}
+              </td>
+            </tr>
+          ))}
+          {(fai.characteristics || []).length === 0 && (
+            <tr>
+              <td colSpan={8} className="py-4 text-center text-gray-500">
+                No characteristics. Add the drawing's ballooned requirements.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      {editable && (
+        <button
+          onClick={() => setShowAdd(true)}
+          className="flex items-center space-x-1 text-sm text-purple-600 hover:text-purple-700"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add ballooned characteristic</span>
+        </button>
+      )}
+
+      {recording && (
+        <RecordResultModal
+          characteristic={recording}
+          gauges={gauges}
+          onClose={() => setRecording(null)}
+          onSave={async (input) => {
+            const saved = await run(() => FirstArticleService.recordResult(recording, input), 'Failed to record result');
+            if (saved) setRecording(null);
+          }}
+        />
+      )}
+      {showAdd && (
+        <AddCharacteristicModal
+          onClose={() => setShowAdd(false)}
+          onSave={async (input) => {
+            const saved = await run(() => FirstArticleService.addCharacteristic(fai.id, input), 'Failed to add characteristic');
+            if (saved) setShowAdd(false);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// =====================================================
+// MODALS
+// =====================================================
+
+function RecordResultModal({ characteristic, gauges, onClose, onSave }: {
+  characteristic: FAICharacteristic;
+  gauges: Gauge[];
+  onClose: () => void;
+  onSave: (input: Parameters<typeof FirstArticleService.recordResult>[1]) => Promise<void>;
+}) {
+  const isVariable = characteristic.char_type === 'VARIABLE';
+  const [value, setValue] = useState(characteristic.actual_value?.toString() ?? '');
+  const [passed, setPassed] = useState<boolean | undefined>(characteristic.is_conforming ?? undefined);
+  const [actualText, setActualText] = useState(characteristic.actual_text || '');
+  const [gaugeId, setGaugeId] = useState(characteristic.gauge_id || '');
+  const [notes, setNotes] = useState(characteristic.notes || '');
+
+  const numeric = value === '' ? undefined : parseFloat(value);
+  const preview = isVariable && numeric !== undefined && !Number.isNaN(numeric)
+    ? FirstArticleService.isWithinLimits(characteristic, numeric)
+    : undefined;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60]">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Balloon {characteristic.balloon_number} – {characteristic.characteristic}
+          </h3>
+          <p className="text-sm text-gray-500">Requirement: {FirstArticleService.formatRequirement(characteristic)}</p>
+        </div>
+        <div className="p-6 space-y-4">
+          {isVariable ? (
+            <div>
+              <label className={labelClass}>Measured Value {characteristic.uom ? `(${characteristic.uom})` : ''} *</label>
+              <input
+                type="number"
+                step="any"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                autoFocus
+                className={inputClass}
+              />
+              {preview !== undefined && (
+                <p className={`mt-1 text-xs ${preview ? 'text-green-600' : 'text-red-600'}`}>
+                  {preview ? 'Within specification' : 'Out of specification'}
+                </p>
+              )}
+            </div>
+          ) : (
+            <>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setPassed(true)}
+                  className={`flex-1 px-4 py-2 rounded-lg border ${passed === true ? 'bg-green-600 text-white border-green-600' : 'border-gray-300 text-gray-700 dark:text-gray-300'}`}
+                >
+                  Pass
+                </button>
+                <button
+                  onClick={() => setPassed(false)}
+                  className={`flex-1 px-4 py-2 rounded-lg border ${passed === false ? 'bg-red-600 text-white border-red-600' : 'border-gray-300 text-gray-700 dark:text-gray-300'}`}
+                >
+                  Fail
+                </button>
+              </div>
+              <div>
+                <label className={labelClass}>Observed Result</label>
+                <input
+                  type="text"
+                  value={actualText}
+                  onChange={(e) => setActualText(e.target.value)}
+                  placeholder="e.g. Finish per spec, marking legible"
+                  className={inputClass}
+                />
+              </div>
+            </>
+          )}
+          <div>
+            <label className={labelClass}>Gauge</label>
+            <select value={gaugeId} onChange={(e) => setGaugeId(e.target.value)} className={inputClass}>
+              <option value="">Visual / none</option>
+              {gauges.map(g => (
+                <option key={g.id} value={g.id}>{g.gauge_number} – {g.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Notes</label>
+            <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-400">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave({
+              actual_value: numeric,
+              actual_text: actualText,
+              passed,
+              gauge_id: gaugeId || undefined,
+              notes,
+            })}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+          >
+            Save Result
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function AddCharacteristicModal({ onClose, onSave }: {
+  onClose: () => void;
+  onSave: (input: Parameters<typeof FirstArticleService.addCharacteristic>[1]) => Promise<void>;
+}) {
+  const [form, setForm] = useState({
+    characteristic: '',
+    drawing_zone: '',
+    requirement: '',
+    char_type: 'VARIABLE' as CharacteristicType,
+    target_value: '',
+    lsl: '',
+    usl: '',
+    uom: '',
+  });
+
+  const toNumber = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60]">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg mx-4">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Add Ballooned Characteristic</h3>
+        </div>
+        <div className="p-6 space-y-4">
+          <div>
+            <label className={labelClass}>Characteristic *</label>
+            <input
+              type="text"
+              value={form.characteristic}
+              onChange={(e) => setForm({ ...form, characteristic: e.target.value })}
+              placeholder="e.g. Bore diameter, Note 4 surface finish"
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Drawing Zone</label>
+              <input
+                type="text"
+                value={form.drawing_zone}
+                onChange={(e) => setForm({ ...form, drawing_zone: e.target.value })}
+                placeholder="e.g. B3"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Type</label>
+              <select
+                value={form.char_type}
+                onChange={(e) => setForm({ ...form, char_type: e.target.value as CharacteristicType })}
+                className={inputClass}
+              >
+                <option value="VARIABLE">Variable</option>
+                <option value="ATTRIBUTE">Attribute</option>
+              </select>
+            </div>
+          </div>
+          {form.char_type === 'VARIABLE' ? (
+            <div className="grid grid-cols-4 gap-2">
+              {(['lsl', 'target_value', 'usl'] as const).map(field => (
+                <div key={field}>
+                  <label className={labelClass}>{field === 'target_value' ? 'Nominal' : field.toUpperCase()}</label>
+                  <input
+                    type="number"
+                    step="any"
+                    value={form[field]}
+                    onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+              <div>
+                <label className={labelClass}>UOM</label>
+                <input
+                  type="text"
+                  value={form.uom}
+                  onChange={(e) => setForm({ ...form, uom: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          ) : (
+            <div>
+              <label className={labelClass}>Requirement</label>
+              <input
+                type="text"
+                value={form.requirement}
+                onChange={(e) => setForm({ ...form, requirement: e.target.value })}
+                placeholder="e.g. Per MIL-A-8625 Type II, black"
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-400">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave({
+              characteristic: form.characteristic,
+              drawing_zone: form.drawing_zone,
+              requirement: form.requirement,
+              char_type: form.char_type,
+              target_value: toNumber(form.target_value),
+              lsl: toNumber(form.lsl),
+              usl: toNumber(form.usl),
+              uom: form.uom,
+            })}
+            disabled={!form.characteristic.trim()}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
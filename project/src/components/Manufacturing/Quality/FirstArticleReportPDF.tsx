@@ -0,0 +1,169 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import {
+  FirstArticleService,
+  FAI_ITEM_TYPE_LABELS,
+  FAI_REASON_LABELS,
+} from '../../../services/FirstArticleService';
+import type { FirstArticle, FAISignatureRole } from '../../../services/FirstArticleService';
+
+interface JsPDFWithAutoTable extends jsPDF {
+  lastAutoTable?: { finalY: number };
+}
+
+const HEAD_STYLES = { fillColor: [59, 130, 246] as [number, number, number], textColor: 255 };
+
+const SIGNATURE_LABELS: Record<FAISignatureRole, string> = {
+  INSPECTOR: 'Inspector',
+  QUALITY: 'Quality Approval',
+  CUSTOMER: 'Customer Approval',
+};
+
+export class FirstArticleReportPDF {
+  static generatePDF(fai: FirstArticle): void {
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+
+    // Header
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.text('First Article Inspection Report', pageWidth / 2, 18, { align: 'center' });
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${fai.fai_number} - ${fai.status}`, pageWidth / 2, 26, { align: 'center' });
+
+    // Form 1
+    this.heading(doc, 34, 'Form 1 - Part Number Accountability');
+    autoTable(doc, {
+      startY: 38,
+      body: [
+        ['Part Number', fai.part?.part_number || '-', 'Part Name', fai.part?.name || '-'],
+        ['Drawing Number', fai.drawing_number || '-', 'Drawing Revision', fai.drawing_revision || fai.revision?.revision_code || '-'],
+        ['Serial Number', fai.serial_number || '-', 'Production Order', fai.production_order?.order_number || '-'],
+        ['Reason', FAI_REASON_LABELS[fai.reason], 'Customer Approval', fai.customer_approval_required ? 'Required' : 'Not required'],
+      ],
+      theme: 'grid',
+      styles: { fontSize: 8, cellPadding: 2 },
+      columnStyles: { 0: { fontStyle: 'bold' }, 2: { fontStyle: 'bold' } },
+      margin: { left: 14, right: 14 },
+    });
+    let yPos = this.lastY(doc, 70) + 8;
+
+    // Form 2
+    yPos = this.heading(doc, yPos, 'Form 2 - Product Accountability');
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Type', 'Material / Process / Test', 'Specification', 'Supplier', 'Certificate', 'Result']],
+      body: (fai.product_items || []).map(item => [
+        FAI_ITEM_TYPE_LABELS[item.item_type],
+        item.name,
+        item.specification || '',
+        item.supplier || '',
+        item.certificate_number || '',
+        item.is_conforming === null || item.is_conforming === undefined ? '-' : item.is_conforming ? 'Conforming' : 'Nonconforming',
+      ]),
+      theme: 'striped',
+      styles: { fontSize: 8, cellPadding: 2 },
+      headStyles: HEAD_STYLES,
+      margin: { left: 14, right: 14 },
+    });
+    yPos = this.lastY(doc, yPos) + 8;
+
+    // Form 3
+    yPos = this.heading(doc, yPos, 'Form 3 - Characteristic Accountability');
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Balloon', 'Characteristic', 'Zone', 'Requirement', 'Result', 'Gauge', 'Conforming', 'Inspected By']],
+      body: (fai.characteristics || []).map(c => [
+        String(c.balloon_number),
+        c.characteristic,
+        c.drawing_zone || '',
+        FirstArticleService.formatRequirement(c),
+        FirstArticleService.formatActual(c),
+        c.gauge?.gauge_number || '',
+        c.is_conforming === null || c.is_conforming === undefined ? '-' : c.is_conforming ? 'Yes' : 'No',
+        c.measurer?.full_name || '',
+      ]),
+      theme: 'striped',
+      styles: { fontSize: 8, cellPadding: 2 },
+      headStyles: HEAD_STYLES,
+      columnStyles: { 0: { cellWidth: 16 } },
+      margin: { left: 14, right: 14 },
+      didParseCell: (data) => {
+        if (data.section === 'body' && data.column.index === 6 && data.cell.raw === 'No') {
+          data.cell.styles.textColor = [220, 38, 38];
+          data.cell.styles.fontStyle = 'bold';
+        }
+      },
+    });
+    yPos = this.lastY(doc, yPos) + 8;
+
+    // Signatures
+    const roles: FAISignatureRole[] = fai.customer_approval_required
+      ? ['INSPECTOR', 'QUALITY', 'CUSTOMER']
+      : ['INSPECTOR', 'QUALITY'];
+    yPos = this.heading(doc, yPos, 'Approvals');
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Role', 'Signed By', 'Decision', 'Date', 'Comments']],
+      body: roles.map(role => {
+        const signature = (fai.signatures || []).find(s => s.signature_role === role);
+        return [
+          SIGNATURE_LABELS[role],
+          signature ? signature.signer_name || signature.signer?.full_name || '-' : '-',
+          signature ? (signature.approved ? 'Approved' : 'Rejected') : 'Pending',
+          this.formatDate(signature?.signed_at),
+          signature?.comments || '',
+        ];
+      }),
+      theme: 'grid',
+      styles: { fontSize: 8, cellPadding: 2 },
+      headStyles: HEAD_STYLES,
+      margin: { left: 14, right: 14 },
+    });
+
+    // Footer on every page
+    const pageCount = doc.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i);
+      doc.setFontSize(8);
+      doc.setTextColor(150, 150, 150);
+      doc.text(
+        `${fai.fai_number} - Page ${i} of ${pageCount} - Generated: ${new Date().toLocaleString()}`,
+        pageWidth / 2,
+        pageHeight - 8,
+        { align: 'center' }
+      );
+    }
+
+    doc.save(`FAI_${fai.fai_number}.pdf`);
+  }
+
+  private static heading(doc: jsPDF, yPos: number, title: string): number {
+    if (yPos > doc.internal.pageSize.getHeight() - 30) {
+      doc.addPage();
+      yPos = 20;
+    }
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(0, 0, 0);
+    doc.text(title, 14, yPos);
+    doc.setFont('helvetica', 'normal');
+    return yPos + 4;
+  }
+
+  private static lastY(doc: jsPDF, fallback: number): number {
+    return (doc as unknown as JsPDFWithAutoTable).lastAutoTable?.finalY || fallback;
+  }
+
+  private static formatDate(dateStr: string | undefined | null): string {
+    if (!dateStr) return '-';
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  }
+}
@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  BadgeCheck,
+  ClipboardCheck,
+  Clock,
+  XCircle,
+} from 'lucide-react';
+import {
+  FirstArticleService,
+  FirstArticle,
+  FAIStatus,
+  FAI_REASON_LABELS,
+} from '../../../services/FirstArticleService';
+import { FirstArticleModal } from './FirstArticleModal';
+
+const FAI_STATUS_STYLES: Record<FAIStatus, string> = {
+  OPEN: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  SUBMITTED: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  PASSED: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  FAILED: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const formatDate = (value: string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString() : '—';
+
+export function FirstArticleView() {
+  const [firstArticles, setFirstArticles] = useState<FirstArticle[]>([]);
+  const [statusFilter, setStatusFilter] = useState<FAIStatus | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+  const [openFaiId, setOpenFaiId] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setFirstArticles(await FirstArticleService.getFirstArticles());
+    } catch (error) {
+      console.error('Error loading first articles:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const countByStatus = (status: FAIStatus) => firstArticles.filter(f => f.status === status).length;
+  const filtered = statusFilter === 'all' ? firstArticles : firstArticles.filter(f => f.status === statusFilter);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <BadgeCheck className="w-8 h-8 text-purple-600 dark:text-purple-400" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">First Article Inspection</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              AS9102 first articles for new parts, revisions and routing changes
+            </p>
+          </div>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as FAIStatus | 'all')}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+        >
+          <option value="all">All statuses</option>
+          {(Object.keys(FAI_STATUS_STYLES) as FAIStatus[]).map(status => (
+            <option key={status} value={status}>{status.toLowerCase()}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-4 gap-4">
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <ClipboardCheck className="w-4 h-4 text-blue-500" />
+            <span className="text-sm text-gray-500">Awaiting Inspection</span>
+          </div>
+          <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">{countByStatus('OPEN')}</p>
+        </div>
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <Clock className="w-4 h-4 text-yellow-500" />
+            <span className="text-sm text-gray-500">Awaiting Approval</span>
+          </div>
+          <p className="text-2xl font-bold text-yellow-600 dark:text-yellow-400">{countByStatus('SUBMITTED')}</p>
+        </div>
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <XCircle className="w-4 h-4 text-red-500" />
+            <span className="text-sm text-gray-500">Failed</span>
+          </div>
+          <p className="text-2xl font-bold text-red-600 dark:text-red-400">{countByStatus('FAILED')}</p>
+        </div>
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <BadgeCheck className="w-4 h-4 text-green-500" />
+            <span className="text-sm text-gray-500">Passed</span>
+          </div>
+          <p className="text-2xl font-bold text-green-600 dark:text-green-400">{countByStatus('PASSED')}</p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+        </div>
+      ) : (
+        <div className="card overflow-hidden">
+          {filtered.length === 0 ? (
+            <div className="p-12 text-center text-gray-500">
+              <BadgeCheck className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No first article inspections</p>
+              <p className="text-sm mt-1">
+                Flag an inspection plan as first article required to raise them on new production runs
+              </p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">FAI</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Part</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Order</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Reason</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Inspected</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Raised</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {filtered.map(fai => {
+                  const progress = FirstArticleService.getProgress(fai);
+                  return (
+                    <tr
+                      key={fai.id}
+                      onClick={() => setOpenFaiId(fai.id)}
+                      className="hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer"
+                    >
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-white">{fai.fai_number}</td>
+                      <td className="px-4 py-3">
+                        <p className="text-sm text-gray-900 dark:text-white">{fai.part?.part_number}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {fai.part?.name}{fai.revision ? ` · Rev ${fai.revision.revision_code}` : ''}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {fai.production_order?.order_number || '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{FAI_REASON_LABELS[fai.reason]}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {progress.inspected}/{progress.total}
+                        {progress.nonconforming > 0 && (
+                          <span className="block text-xs text-red-600 dark:text-red-400">{progress.nonconforming} nonconforming</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{formatDate(fai.created_at)}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${FAI_STATUS_STYLES[fai.status]}`}>
+                          {fai.status.toLowerCase()}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {openFaiId && (
+        <FirstArticleModal
+          faiId={openFaiId}
+          onClose={() => setOpenFaiId(null)}
+          onChanged={loadData}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,655 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Crosshair, Plus, Trash2, X, ArrowLeft, Calculator } from 'lucide-react';
+import {
+  GaugeService,
+  Gauge,
+  GRRStudy,
+  GRRResult,
+  GRRAcceptability,
+} from '../../../services/GaugeService';
+import { QualityExecutionService, Characteristic } from '../../../services/QualityExecutionService';
+import { useAuth } from '../../../contexts/AuthContext';
+
+const ACCEPTABILITY_STYLES: Record<GRRAcceptability, string> = {
+  ACCEPTABLE: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  MARGINAL: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  UNACCEPTABLE: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const acceptabilityOf = (pctGRR: number): GRRAcceptability =>
+  pctGRR < 10 ? 'ACCEPTABLE' : pctGRR <= 30 ? 'MARGINAL' : 'UNACCEPTABLE';
+
+const cellKey = (part: number, appraiser: string, trial: number) => `${part}|${appraiser}|${trial}`;
+
+const fmt = (value: number | undefined, digits = 4) =>
+  value === undefined || !isFinite(value) ? '—' : value.toFixed(digits);
+
+export function GageRRView() {
+  const { profile } = useAuth();
+  const canManage = ['admin', 'dispatcher', 'supervisor'].includes(profile?.role || '');
+
+  const [studies, setStudies] = useState<GRRStudy[]>([]);
+  const [gauges, setGauges] = useState<Gauge[]>([]);
+  const [characteristics, setCharacteristics] = useState<(Characteristic & { plan_name: string })[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showNewStudy, setShowNewStudy] = useState(false);
+  const [activeStudyId, setActiveStudyId] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [studyData, gaugeData, plans] = await Promise.all([
+        GaugeService.getGRRStudies(),
+        GaugeService.getGauges(),
+        QualityExecutionService.getInspectionPlans({ activeOnly: true }),
+      ]);
+      setStudies(studyData);
+      setGauges(gaugeData);
+      setCharacteristics(
+        plans.flatMap(plan =>
+          (plan.characteristics || [])
+            .filter(c => c.is_active && c.char_type === 'VARIABLE')
+            .map(c => ({ ...c, plan_name: plan.name }))
+        )
+      );
+    } catch (error) {
+      console.error('Error loading Gage R&R studies:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleDelete = async (study: GRRStudy) => {
+    if (!confirm(`Delete study "${study.name}" and its readings?`)) return;
+    try {
+      await GaugeService.deleteGRRStudy(study.id);
+      loadData();
+    } catch (error) {
+      console.error('Error deleting study:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete study');
+    }
+  };
+
+  if (activeStudyId) {
+    return (
+      <GRRStudyWorksheet
+        studyId={activeStudyId}
+        canManage={canManage}
+        onBack={() => {
+          setActiveStudyId(null);
+          loadData();
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Crosshair className="w-8 h-8 text-purple-600 dark:text-purple-400" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Gage R&R</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Crossed measurement system studies (ANOVA method)
+            </p>
+          </div>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setShowNewStudy(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Study</span>
+          </button>
+        )}
+      </div>
+
+      <div className="card overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+          </div>
+        ) : studies.length === 0 ? (
+          <div className="p-12 text-center text-gray-500">
+            <Crosshair className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No Gage R&R studies yet</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-gray-800">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Study</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Characteristic</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Gauge</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Design</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">%GRR</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">%Tolerance</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">ndc</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {studies.map(study => (
+                <tr key={study.id} className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                  <td className="px-4 py-3">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">{study.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {study.status === 'COMPLETED' && study.completed_at
+                        ? `Completed ${new Date(study.completed_at).toLocaleDateString()}`
+                        : 'Draft'}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{study.characteristic?.name}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{study.gauge?.gauge_number}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                    {study.part_count} parts × {study.appraisers.length} appraisers × {study.trial_count} trials
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {study.pct_grr !== null && study.pct_grr !== undefined ? (
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${ACCEPTABILITY_STYLES[acceptabilityOf(Number(study.pct_grr))]}`}>
+                        {Number(study.pct_grr).toFixed(1)}%
+                      </span>
+                    ) : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                    {study.pct_grr_tolerance !== null && study.pct_grr_tolerance !== undefined
+                      ? `${Number(study.pct_grr_tolerance).toFixed(1)}%`
+                      : '—'}
+                  </td>
+                  <td className={`px-4 py-3 text-sm ${study.ndc !== null && study.ndc !== undefined && study.ndc < 5 ? 'text-red-600' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {study.ndc ?? '—'}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <div className="flex items-center justify-end space-x-2">
+                      <button
+                        onClick={() => setActiveStudyId(study.id)}
+                        className="px-3 py-1 bg-purple-600 text-white text-sm rounded hover:bg-purple-700"
+                      >
+                        {study.status === 'COMPLETED' ? 'View' : 'Enter Data'}
+                      </button>
+                      {canManage && (
+                        <button
+                          onClick={() => handleDelete(study)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showNewStudy && (
+        <NewStudyModal
+          gauges={gauges.filter(g => GaugeService.isGaugeUsable(g))}
+          characteristics={characteristics}
+          onClose={() => setShowNewStudy(false)}
+          onCreated={(study) => {
+            setShowNewStudy(false);
+            setActiveStudyId(study.id);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// =====================================================
+// NEW STUDY MODAL
+// =====================================================
+
+interface NewStudyModalProps {
+  gauges: Gauge[];
+  characteristics: (Characteristic & { plan_name: string })[];
+  onClose: () => void;
+  onCreated: (study: GRRStudy) => void;
+}
+
+function NewStudyModal({ gauges, characteristics, onClose, onCreated }: NewStudyModalProps) {
+  const [form, setForm] = useState({
+    name: '',
+    characteristic_id: '',
+    gauge_id: '',
+    part_count: '10',
+    appraisers: 'A, B, C',
+    trial_count: '3',
+    notes: '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  const handleCharacteristicChange = (characteristicId: string) => {
+    const char = characteristics.find(c => c.id === characteristicId);
+    setForm({
+      ...form,
+      characteristic_id: characteristicId,
+      gauge_id: form.gauge_id || (char?.gage_id && gauges.some(g => g.id === char.gage_id) ? char.gage_id : ''),
+      name: form.name || (char ? `${char.name} GR&R` : ''),
+    });
+  };
+
+  const handleCreate = async () => {
+    if (!form.name.trim() || !form.characteristic_id || !form.gauge_id) {
+      alert('Name, characteristic and gauge are required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const study = await GaugeService.createGRRStudy({
+        name: form.name.trim(),
+        characteristic_id: form.characteristic_id,
+        gauge_id: form.gauge_id,
+        part_count: parseInt(form.part_count, 10),
+        appraisers: form.appraisers.split(','),
+        trial_count: parseInt(form.trial_count, 10),
+        notes: form.notes || undefined,
+      });
+      onCreated(study);
+    } catch (error) {
+      console.error('Error creating study:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create study');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg mx-4">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">New Gage R&R Study</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className={labelClass}>Characteristic *</label>
+            <select
+              value={form.characteristic_id}
+              onChange={(e) => handleCharacteristicChange(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Select characteristic...</option>
+              {characteristics.map(c => (
+                <option key={c.id} value={c.id}>
+                  {c.plan_name} – {c.name} {c.uom ? `(${c.uom})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>Gauge *</label>
+            <select
+              value={form.gauge_id}
+              onChange={(e) => setForm({ ...form, gauge_id: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Select calibrated gauge...</option>
+              {gauges.map(g => (
+                <option key={g.id} value={g.id}>{g.gauge_number} - {g.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>Study Name *</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Parts</label>
+              <input
+                type="number"
+                min={2}
+                value={form.part_count}
+                onChange={(e) => setForm({ ...form, part_count: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>Appraisers (comma separated)</label>
+              <input
+                type="text"
+                value={form.appraisers}
+                onChange={(e) => setForm({ ...form, appraisers: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Trials per Appraiser</label>
+            <input
+              type="number"
+              min={2}
+              value={form.trial_count}
+              onChange={(e) => setForm({ ...form, trial_count: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Notes</label>
+            <textarea
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-400">
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={saving}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            {saving ? 'Creating...' : 'Create Study'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =====================================================
+// STUDY WORKSHEET
+// =====================================================
+
+interface GRRStudyWorksheetProps {
+  studyId: string;
+  canManage: boolean;
+  onBack: () => void;
+}
+
+function GRRStudyWorksheet({ studyId, canManage, onBack }: GRRStudyWorksheetProps) {
+  const [study, setStudy] = useState<GRRStudy | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const loadStudy = useCallback(async () => {
+    try {
+      const data = await GaugeService.getGRRStudy(studyId);
+      setStudy(data);
+      const entered: Record<string, string> = {};
+      data?.readings?.forEach(r => {
+        entered[cellKey(r.part_index, r.appraiser, r.trial)] = String(Number(r.value));
+      });
+      setValues(entered);
+    } catch (error) {
+      console.error('Error loading study:', error);
+    }
+  }, [studyId]);
+
+  useEffect(() => {
+    loadStudy();
+  }, [loadStudy]);
+
+  const readings = useMemo(() => {
+    if (!study) return [];
+    return Object.entries(values)
+      .filter(([, v]) => v.trim() !== '' && !isNaN(parseFloat(v)))
+      .map(([key, v]) => {
+        const [part, appraiser, trial] = key.split('|');
+        return { part_index: parseInt(part, 10), appraiser, trial: parseInt(trial, 10), value: parseFloat(v) };
+      });
+  }, [study, values]);
+
+  const expectedCount = study ? study.part_count * study.appraisers.length * study.trial_count : 0;
+
+  const result: GRRResult | null = useMemo(() => {
+    if (!study || readings.length !== expectedCount) return null;
+    try {
+      return GaugeService.analyzeGRR(study, readings);
+    } catch {
+      return null;
+    }
+  }, [study, readings, expectedCount]);
+
+  if (!study) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  const editable = canManage && study.status === 'DRAFT';
+  const parts = Array.from({ length: study.part_count }, (_, i) => i + 1);
+  const trials = Array.from({ length: study.trial_count }, (_, i) => i + 1);
+
+  const handleSave = async (complete: boolean) => {
+    setSaving(true);
+    try {
+      await GaugeService.saveGRRReadings(study.id, readings);
+      if (complete) {
+        await GaugeService.completeGRRStudy(study.id);
+      }
+      await loadStudy();
+    } catch (error) {
+      console.error('Error saving study:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save study');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <button onClick={onBack} className="p-2 text-gray-500 hover:text-gray-700">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{study.name}</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {study.characteristic?.name} • {study.gauge?.gauge_number} {study.gauge?.name}
+              {study.tolerance ? ` • Tolerance ${Number(study.tolerance)} ${study.characteristic?.uom || ''}` : ''}
+            </p>
+          </div>
+        </div>
+        {editable && (
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => handleSave(false)}
+              disabled={saving}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              Save Readings
+            </button>
+            <button
+              onClick={() => handleSave(true)}
+              disabled={saving || !result}
+              className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+              title={result ? undefined : 'Enter every reading to complete the study'}
+            >
+              <Calculator className="w-4 h-4" />
+              <span>Complete Study</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Readings */}
+      <div className="card overflow-x-auto">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900 dark:text-white">Readings</h3>
+          <span className="text-sm text-gray-500">{readings.length} / {expectedCount} entered</span>
+        </div>
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-800">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase" rowSpan={2}>Part</th>
+              {study.appraisers.map(a => (
+                <th key={a} colSpan={study.trial_count} className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase border-l border-gray-200 dark:border-gray-700">
+                  {a}
+                </th>
+              ))}
+            </tr>
+            <tr>
+              {study.appraisers.flatMap(a =>
+                trials.map(t => (
+                  <th key={`${a}-${t}`} className={`px-2 py-1 text-center text-xs text-gray-400 ${t === 1 ? 'border-l border-gray-200 dark:border-gray-700' : ''}`}>
+                    Trial {t}
+                  </th>
+                ))
+              )}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {parts.map(part => (
+              <tr key={part}>
+                <td className="px-3 py-1 font-medium text-gray-900 dark:text-white">{part}</td>
+                {study.appraisers.flatMap(a =>
+                  trials.map(t => {
+                    const key = cellKey(part, a, t);
+                    return (
+                      <td key={key} className={`px-1 py-1 ${t === 1 ? 'border-l border-gray-200 dark:border-gray-700' : ''}`}>
+                        <input
+                          type="number"
+                          step="any"
+                          value={values[key] ?? ''}
+                          disabled={!editable}
+                          onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                          className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white font-mono disabled:bg-gray-50 dark:disabled:bg-gray-800"
+                        />
+                      </td>
+                    );
+                  })
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Results */}
+      {result && (
+        <>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="card p-4">
+              <p className="text-sm text-gray-500 mb-1">%GRR (study variation)</p>
+              <div className="flex items-center space-x-2">
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{result.pct_grr.toFixed(1)}%</p>
+                <span className={`px-2 py-1 text-xs font-medium rounded-full ${ACCEPTABILITY_STYLES[result.acceptability]}`}>
+                  {result.acceptability.toLowerCase()}
+                </span>
+              </div>
+            </div>
+            <div className="card p-4">
+              <p className="text-sm text-gray-500 mb-1">%GRR (tolerance)</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                {result.pct_grr_tolerance !== undefined ? `${result.pct_grr_tolerance.toFixed(1)}%` : '—'}
+              </p>
+            </div>
+            <div className="card p-4">
+              <p className="text-sm text-gray-500 mb-1">Distinct Categories (ndc)</p>
+              <p className={`text-2xl font-bold ${result.ndc !== null && result.ndc < 5 ? 'text-red-600' : 'text-gray-900 dark:text-white'}`}>
+                {result.ndc ?? '—'}
+              </p>
+              <p className="text-xs text-gray-500">5 or more required</p>
+            </div>
+          </div>
+
+          <div className="card overflow-x-auto">
+            <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+              <h3 className="font-semibold text-gray-900 dark:text-white">Variance Components</h3>
+            </div>
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Source</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Variance</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">%Contribution</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Std Dev</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Study Var (6σ)</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">%Study Var</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">%Tolerance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700 font-mono">
+                {result.components.map(c => (
+                  <tr key={c.source} className={c.source === 'Total Gage R&R' ? 'font-semibold' : ''}>
+                    <td className="px-4 py-2 font-sans text-gray-900 dark:text-white">{c.source}</td>
+                    <td className="px-4 py-2 text-right">{fmt(c.variance, 6)}</td>
+                    <td className="px-4 py-2 text-right">{fmt(c.pct_contribution, 2)}</td>
+                    <td className="px-4 py-2 text-right">{fmt(c.std_dev)}</td>
+                    <td className="px-4 py-2 text-right">{fmt(c.study_variation)}</td>
+                    <td className="px-4 py-2 text-right">{fmt(c.pct_study_variation, 2)}</td>
+                    <td className="px-4 py-2 text-right">{fmt(c.pct_tolerance, 2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="card overflow-x-auto">
+            <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+              <h3 className="font-semibold text-gray-900 dark:text-white">Two-Way ANOVA</h3>
+              <p className="text-xs text-gray-500">
+                {result.interaction_pooled
+                  ? `Part x Appraiser interaction not significant (p = ${result.interaction_p_value.toFixed(3)}); pooled into repeatability`
+                  : `Part x Appraiser interaction significant (p = ${result.interaction_p_value.toFixed(3)})`}
+              </p>
+            </div>
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Source</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">DF</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">SS</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">MS</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">F</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">P</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700 font-mono">
+                {result.anova.map(row => (
+                  <tr key={row.source}>
+                    <td className="px-4 py-2 font-sans text-gray-900 dark:text-white">{row.source}</td>
+                    <td className="px-4 py-2 text-right">{row.df}</td>
+                    <td className="px-4 py-2 text-right">{fmt(row.ss, 6)}</td>
+                    <td className="px-4 py-2 text-right">{fmt(row.ms, 6)}</td>
+                    <td className="px-4 py-2 text-right">{fmt(row.f, 3)}</td>
+                    <td className="px-4 py-2 text-right">{fmt(row.p_value, 3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
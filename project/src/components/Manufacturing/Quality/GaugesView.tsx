@@ -0,0 +1,843 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import {
+  Ruler,
+  Plus,
+  Edit2,
+  Search,
+  ChevronDown,
+  ChevronRight,
+  AlertTriangle,
+  CheckCircle2,
+  X,
+} from 'lucide-react';
+import {
+  GaugeService,
+  Gauge,
+  GaugeCalibration,
+  GaugeStatus,
+  GaugeType,
+  CalibrationResult,
+  CalibrationState,
+  GAUGE_TYPE_LABELS,
+} from '../../../services/GaugeService';
+import { ManufacturingService, WorkCenter } from '../../../services/ManufacturingService';
+import { useAuth } from '../../../contexts/AuthContext';
+
+const STATUS_STYLES: Record<GaugeStatus, string> = {
+  IN_SERVICE: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  OUT_OF_CALIBRATION: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  OUT_FOR_CALIBRATION: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  QUARANTINED: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  RETIRED: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const DUE_STYLES: Record<CalibrationState, string> = {
+  CURRENT: 'text-gray-700 dark:text-gray-300',
+  DUE_SOON: 'text-yellow-600 dark:text-yellow-400 font-medium',
+  OVERDUE: 'text-red-600 dark:text-red-400 font-medium',
+  NEVER_CALIBRATED: 'text-red-600 dark:text-red-400 font-medium',
+};
+
+const RESULT_STYLES: Record<CalibrationResult, string> = {
+  PASS: 'text-green-600',
+  ADJUSTED: 'text-blue-600',
+  FAIL: 'text-red-600',
+};
+
+const formatDate = (value: string | null | undefined) =>
+  value ? new Date(`${value}T00:00:00`).toLocaleDateString() : '—';
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ').toLowerCase();
+
+export function GaugesView() {
+  const { profile } = useAuth();
+  const canManage = ['admin', 'dispatcher', 'supervisor'].includes(profile?.role || '');
+
+  const [gauges, setGauges] = useState<Gauge[]>([]);
+  const [workCenters, setWorkCenters] = useState<WorkCenter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<GaugeStatus | 'all'>('all');
+  const [showRetired, setShowRetired] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [history, setHistory] = useState<GaugeCalibration[]>([]);
+  const [editingGauge, setEditingGauge] = useState<Gauge | null>(null);
+  const [showGaugeModal, setShowGaugeModal] = useState(false);
+  const [calibratingGauge, setCalibratingGauge] = useState<Gauge | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [gaugeData, wcData] = await Promise.all([
+        GaugeService.getGauges({ includeRetired: showRetired }),
+        ManufacturingService.getWorkCenters(true),
+      ]);
+      setGauges(gaugeData);
+      setWorkCenters(wcData);
+    } catch (error) {
+      console.error('Error loading gauges:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [showRetired]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const toggleExpanded = async (gaugeId: string) => {
+    if (expandedId === gaugeId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(gaugeId);
+    setHistory([]);
+    try {
+      setHistory(await GaugeService.getCalibrations(gaugeId));
+    } catch (error) {
+      console.error('Error loading calibration history:', error);
+    }
+  };
+
+  const handleStatusChange = async (gauge: Gauge, status: GaugeStatus) => {
+    const reason = status === 'IN_SERVICE' ? '' : prompt(`Reason for marking ${gauge.gauge_number} as ${formatStatus(status)}:`);
+    if (reason === null) return;
+
+    try {
+      await GaugeService.setGaugeStatus(gauge.id, status, reason || undefined);
+      loadData();
+    } catch (error) {
+      console.error('Error changing gauge status:', error);
+      alert(error instanceof Error ? error.message : 'Failed to change gauge status');
+    }
+  };
+
+  const filteredGauges = gauges.filter(g => {
+    if (statusFilter !== 'all' && g.status !== statusFilter) return false;
+    if (searchQuery) {
+      const query = searchQuery.toLowerCase();
+      return [g.gauge_number, g.name, g.serial_number, g.location]
+        .some(v => v?.toLowerCase().includes(query));
+    }
+    return true;
+  });
+
+  const overdueCount = gauges.filter(g => {
+    const state = GaugeService.getCalibrationState(g);
+    return g.status !== 'RETIRED' && (state === 'OVERDUE' || state === 'NEVER_CALIBRATED' || g.status === 'OUT_OF_CALIBRATION');
+  }).length;
+  const dueSoonCount = gauges.filter(g => g.status === 'IN_SERVICE' && GaugeService.getCalibrationState(g) === 'DUE_SOON').length;
+  const usableCount = gauges.filter(g => GaugeService.isGaugeUsable(g)).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Ruler className="w-8 h-8 text-purple-600 dark:text-purple-400" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Gauges & Calibration</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Measurement equipment register, calibration status and history
+            </p>
+          </div>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => {
+              setEditingGauge(null);
+              setShowGaugeModal(true);
+            }}
+            className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Gauge</span>
+          </button>
+        )}
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-3 gap-4">
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <CheckCircle2 className="w-4 h-4 text-green-500" />
+            <span className="text-sm text-gray-500">Usable</span>
+          </div>
+          <p className="text-2xl font-bold text-green-600 dark:text-green-400">{usableCount}</p>
+        </div>
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <AlertTriangle className="w-4 h-4 text-yellow-500" />
+            <span className="text-sm text-gray-500">Due Within 14 Days</span>
+          </div>
+          <p className="text-2xl font-bold text-yellow-600 dark:text-yellow-400">{dueSoonCount}</p>
+        </div>
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <AlertTriangle className="w-4 h-4 text-red-500" />
+            <span className="text-sm text-gray-500">Out of Calibration</span>
+          </div>
+          <p className="text-2xl font-bold text-red-600 dark:text-red-400">{overdueCount}</p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="card p-4">
+        <div className="flex flex-col md:flex-row md:items-center space-y-4 md:space-y-0 md:space-x-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search gauge number, name, serial or location..."
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            />
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as GaugeStatus | 'all')}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          >
+            <option value="all">All Status</option>
+            <option value="IN_SERVICE">In Service</option>
+            <option value="OUT_OF_CALIBRATION">Out of Calibration</option>
+            <option value="OUT_FOR_CALIBRATION">Out for Calibration</option>
+            <option value="QUARANTINED">Quarantined</option>
+          </select>
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={showRetired}
+              onChange={(e) => setShowRetired(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>Show retired</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Register */}
+      <div className="card overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+          </div>
+        ) : filteredGauges.length === 0 ? (
+          <div className="p-12 text-center text-gray-500">
+            <Ruler className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No gauges found</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-gray-800">
+              <tr>
+                <th className="w-8"></th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Gauge</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Type</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Resolution / Range</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Location</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Calibration Due</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {filteredGauges.map((gauge) => {
+                const expanded = expandedId === gauge.id;
+                const state = GaugeService.getCalibrationState(gauge);
+                return (
+                  <Fragment key={gauge.id}>
+                    <tr className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                      <td className="pl-4">
+                        <button
+                          onClick={() => toggleExpanded(gauge.id)}
+                          className="text-gray-400 hover:text-gray-600"
+                        >
+                          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </button>
+                      </td>
+                      <td className="px-4 py-3">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">{gauge.gauge_number}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{gauge.name}</p>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {GAUGE_TYPE_LABELS[gauge.gauge_type]}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {gauge.resolution !== null && gauge.resolution !== undefined ? `${Number(gauge.resolution)} ${gauge.uom || ''}` : '—'}
+                        {gauge.range_min !== null && gauge.range_min !== undefined && gauge.range_max !== null && gauge.range_max !== undefined && (
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">
+                            {Number(gauge.range_min)} – {Number(gauge.range_max)} {gauge.uom || ''}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {gauge.location || '—'}
+                        {gauge.work_center && (
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">{gauge.work_center.name}</span>
+                        )}
+                      </td>
+                      <td className={`px-4 py-3 text-sm ${gauge.status === 'RETIRED' ? 'text-gray-500' : DUE_STYLES[state]}`}>
+                        {state === 'NEVER_CALIBRATED' ? 'Never calibrated' : formatDate(gauge.calibration_due_date)}
+                        <span className="block text-xs text-gray-500 dark:text-gray-400 font-normal">
+                          Every {gauge.calibration_interval_days} days
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[gauge.status]}`}>
+                          {formatStatus(gauge.status)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {canManage && gauge.status !== 'RETIRED' && (
+                          <div className="flex items-center justify-end space-x-2">
+                            <button
+                              onClick={() => setCalibratingGauge(gauge)}
+                              className="px-3 py-1 bg-purple-600 text-white text-sm rounded hover:bg-purple-700"
+                            >
+                              Calibrate
+                            </button>
+                            <select
+                              value=""
+                              onChange={(e) => e.target.value && handleStatusChange(gauge, e.target.value as GaugeStatus)}
+                              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+                            >
+                              <option value="">Status...</option>
+                              {gauge.status === 'QUARANTINED' && <option value="IN_SERVICE">Return to service</option>}
+                              {gauge.status !== 'QUARANTINED' && <option value="QUARANTINED">Quarantine</option>}
+                              {gauge.status !== 'OUT_FOR_CALIBRATION' && <option value="OUT_FOR_CALIBRATION">Send for calibration</option>}
+                              <option value="RETIRED">Retire</option>
+                            </select>
+                            <button
+                              onClick={() => {
+                                setEditingGauge(gauge);
+                                setShowGaugeModal(true);
+                              }}
+                              className="p-1 text-gray-400 hover:text-gray-600"
+                              title="Edit"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                    {expanded && (
+                      <tr>
+                        <td colSpan={8} className="px-12 py-4 bg-gray-50 dark:bg-gray-900/50">
+                          <div className="grid grid-cols-3 gap-4 text-sm mb-3">
+                            <div>
+                              <span className="text-gray-500">Manufacturer / Model:</span>{' '}
+                              <span className="text-gray-900 dark:text-white">
+                                {[gauge.manufacturer, gauge.model].filter(Boolean).join(' ') || '—'}
+                              </span>
+                            </div>
+                            <div>
+                              <span className="text-gray-500">Serial:</span>{' '}
+                              <span className="text-gray-900 dark:text-white">{gauge.serial_number || '—'}</span>
+                            </div>
+                            <div>
+                              <span className="text-gray-500">Last Calibrated:</span>{' '}
+                              <span className="text-gray-900 dark:text-white">{formatDate(gauge.last_calibrated_at)}</span>
+                            </div>
+                          </div>
+                          {gauge.notes && (
+                            <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-line mb-3">{gauge.notes}</p>
+                          )}
+                          <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Calibration History</p>
+                          {history.length === 0 ? (
+                            <p className="text-sm text-gray-500">No calibrations recorded</p>
+                          ) : (
+                            <table className="w-full text-sm">
+                              <thead>
+                                <tr className="text-left text-xs text-gray-500 uppercase">
+                                  <th className="py-1">Date</th>
+                                  <th className="py-1">Result</th>
+                                  <th className="py-1">By</th>
+                                  <th className="py-1">Certificate</th>
+                                  <th className="py-1">As Found / As Left</th>
+                                  <th className="py-1">Next Due</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {history.map(cal => (
+                                  <tr key={cal.id} className="border-t border-gray-200 dark:border-gray-700">
+                                    <td className="py-1 text-gray-900 dark:text-white">{formatDate(cal.calibrated_at)}</td>
+                                    <td className={`py-1 font-medium ${RESULT_STYLES[cal.result]}`}>{cal.result}</td>
+                                    <td className="py-1 text-gray-700 dark:text-gray-300">
+                                      {cal.provider || cal.performer?.full_name || 'In-house'}
+                                    </td>
+                                    <td className="py-1 text-gray-700 dark:text-gray-300">{cal.certificate_number || '—'}</td>
+                                    <td className="py-1 text-gray-700 dark:text-gray-300">
+                                      {[cal.as_found_notes, cal.as_left_notes].filter(Boolean).join(' / ') || '—'}
+                                    </td>
+                                    <td className="py-1 text-gray-700 dark:text-gray-300">{formatDate(cal.next_due_date)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showGaugeModal && (
+        <GaugeFormModal
+          gauge={editingGauge}
+          workCenters={workCenters}
+          onClose={() => setShowGaugeModal(false)}
+          onSaved={() => {
+            setShowGaugeModal(false);
+            loadData();
+          }}
+        />
+      )}
+
+      {calibratingGauge && (
+        <CalibrationModal
+          gauge={calibratingGauge}
+          onClose={() => setCalibratingGauge(null)}
+          onSaved={() => {
+            setCalibratingGauge(null);
+            setExpandedId(null);
+            loadData();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// =====================================================
+// GAUGE FORM MODAL
+// =====================================================
+
+interface GaugeFormModalProps {
+  gauge: Gauge | null;
+  workCenters: WorkCenter[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function GaugeFormModal({ gauge, workCenters, onClose, onSaved }: GaugeFormModalProps) {
+  const [form, setForm] = useState({
+    gauge_number: gauge?.gauge_number || '',
+    name: gauge?.name || '',
+    gauge_type: gauge?.gauge_type || ('CALIPER' as GaugeType),
+    manufacturer: gauge?.manufacturer || '',
+    model: gauge?.model || '',
+    serial_number: gauge?.serial_number || '',
+    resolution: gauge?.resolution?.toString() || '',
+    uom: gauge?.uom || '',
+    range_min: gauge?.range_min?.toString() || '',
+    range_max: gauge?.range_max?.toString() || '',
+    location: gauge?.location || '',
+    work_center_id: gauge?.work_center_id || '',
+    calibration_interval_days: gauge?.calibration_interval_days?.toString() || '365',
+    notes: gauge?.notes || '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  const handleSave = async () => {
+    if (!form.gauge_number.trim() || !form.name.trim()) {
+      alert('Gauge number and name are required');
+      return;
+    }
+    const interval = parseInt(form.calibration_interval_days, 10);
+    if (!interval || interval < 1) {
+      alert('Calibration interval must be at least 1 day');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const input: Partial<Gauge> = {
+        gauge_number: form.gauge_number.trim(),
+        name: form.name.trim(),
+        gauge_type: form.gauge_type,
+        manufacturer: form.manufacturer || null,
+        model: form.model || null,
+        serial_number: form.serial_number || null,
+        resolution: form.resolution ? parseFloat(form.resolution) : null,
+        uom: form.uom || null,
+        range_min: form.range_min ? parseFloat(form.range_min) : null,
+        range_max: form.range_max ? parseFloat(form.range_max) : null,
+        location: form.location || null,
+        work_center_id: form.work_center_id || null,
+        calibration_interval_days: interval,
+        notes: form.notes || null,
+      };
+
+      if (gauge) {
+        await GaugeService.updateGauge(gauge.id, input);
+      } else {
+        await GaugeService.createGauge(input);
+      }
+      onSaved();
+    } catch (error) {
+      console.error('Error saving gauge:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save gauge');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {gauge ? `Edit ${gauge.gauge_number}` : 'New Gauge'}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Gauge Number *</label>
+              <input
+                type="text"
+                value={form.gauge_number}
+                onChange={(e) => setForm({ ...form, gauge_number: e.target.value })}
+                placeholder="e.g., CAL-012"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Type</label>
+              <select
+                value={form.gauge_type}
+                onChange={(e) => setForm({ ...form, gauge_type: e.target.value as GaugeType })}
+                className={inputClass}
+              >
+                {(Object.keys(GAUGE_TYPE_LABELS) as GaugeType[]).map(type => (
+                  <option key={type} value={type}>{GAUGE_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Name *</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g., 0-150 mm digital caliper"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Manufacturer</label>
+              <input
+                type="text"
+                value={form.manufacturer}
+                onChange={(e) => setForm({ ...form, manufacturer: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Model</label>
+              <input
+                type="text"
+                value={form.model}
+                onChange={(e) => setForm({ ...form, model: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Serial Number</label>
+              <input
+                type="text"
+                value={form.serial_number}
+                onChange={(e) => setForm({ ...form, serial_number: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-4">
+            <div>
+              <label className={labelClass}>Resolution</label>
+              <input
+                type="number"
+                step="any"
+                value={form.resolution}
+                onChange={(e) => setForm({ ...form, resolution: e.target.value })}
+                placeholder="0.01"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Unit</label>
+              <input
+                type="text"
+                value={form.uom}
+                onChange={(e) => setForm({ ...form, uom: e.target.value })}
+                placeholder="mm"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Range Min</label>
+              <input
+                type="number"
+                step="any"
+                value={form.range_min}
+                onChange={(e) => setForm({ ...form, range_min: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Range Max</label>
+              <input
+                type="number"
+                step="any"
+                value={form.range_max}
+                onChange={(e) => setForm({ ...form, range_max: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Location</label>
+              <input
+                type="text"
+                value={form.location}
+                onChange={(e) => setForm({ ...form, location: e.target.value })}
+                placeholder="e.g., QC lab cabinet 2"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Work Center</label>
+              <select
+                value={form.work_center_id}
+                onChange={(e) => setForm({ ...form, work_center_id: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">None</option>
+                {workCenters.map(wc => (
+                  <option key={wc.id} value={wc.id}>{wc.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Calibration Interval (days) *</label>
+              <input
+                type="number"
+                min={1}
+                value={form.calibration_interval_days}
+                onChange={(e) => setForm({ ...form, calibration_interval_days: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Notes</label>
+            <textarea
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+
+          {!gauge && (
+            <p className="text-xs text-gray-500">
+              New gauges cannot be used for measurements until a calibration is recorded.
+            </p>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-400">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Gauge'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =====================================================
+// CALIBRATION MODAL
+// =====================================================
+
+interface CalibrationModalProps {
+  gauge: Gauge;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function CalibrationModal({ gauge, onClose, onSaved }: CalibrationModalProps) {
+  const [form, setForm] = useState({
+    calibrated_at: new Date().toISOString().split('T')[0],
+    result: 'PASS' as CalibrationResult,
+    provider: '',
+    certificate_number: '',
+    as_found_notes: '',
+    as_left_notes: '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  const handleSave = async () => {
+    if (!form.calibrated_at) {
+      alert('Calibration date is required');
+      return;
+    }
+    if (form.result === 'FAIL' && !form.as_found_notes.trim()) {
+      alert('Describe the as-found condition for a failed calibration');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await GaugeService.recordCalibration(gauge.id, {
+        calibrated_at: form.calibrated_at,
+        result: form.result,
+        provider: form.provider || undefined,
+        certificate_number: form.certificate_number || undefined,
+        as_found_notes: form.as_found_notes || undefined,
+        as_left_notes: form.as_left_notes || undefined,
+      });
+      onSaved();
+    } catch (error) {
+      console.error('Error recording calibration:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record calibration');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg mx-4">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Record Calibration – {gauge.gauge_number}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Calibration Date *</label>
+              <input
+                type="date"
+                value={form.calibrated_at}
+                max={new Date().toISOString().split('T')[0]}
+                onChange={(e) => setForm({ ...form, calibrated_at: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Result *</label>
+              <select
+                value={form.result}
+                onChange={(e) => setForm({ ...form, result: e.target.value as CalibrationResult })}
+                className={inputClass}
+              >
+                <option value="PASS">Pass</option>
+                <option value="ADJUSTED">Adjusted (pass after adjustment)</option>
+                <option value="FAIL">Fail</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Calibration Lab</label>
+              <input
+                type="text"
+                value={form.provider}
+                onChange={(e) => setForm({ ...form, provider: e.target.value })}
+                placeholder="Blank = in-house"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Certificate Number</label>
+              <input
+                type="text"
+                value={form.certificate_number}
+                onChange={(e) => setForm({ ...form, certificate_number: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>As Found</label>
+            <textarea
+              value={form.as_found_notes}
+              onChange={(e) => setForm({ ...form, as_found_notes: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>As Left</label>
+            <textarea
+              value={form.as_left_notes}
+              onChange={(e) => setForm({ ...form, as_left_notes: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+
+          <p className={`text-sm ${form.result === 'FAIL' ? 'text-red-600' : 'text-gray-500'}`}>
+            {form.result === 'FAIL'
+              ? 'The gauge will be marked out of calibration and blocked for measurements.'
+              : `Next calibration due ${gauge.calibration_interval_days} days after the calibration date.`}
+          </p>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-400">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Record Calibration'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,8 +9,12 @@ import {
   Trash2,
   Copy,
   Target,
+  BadgeCheck,
 } from 'lucide-react';
 import { QualityExecutionService, InspectionPlan, Characteristic, SamplingPlan } from '../../../services/QualityExecutionService';
+import type { SPCChartType } from '../../../services/SPCService';
+import { GaugeService, Gauge } from '../../../services/GaugeService';
+import { ProductMasterService, ProductRevision } from '../../../services/ProductMasterService';
 
 type PlanType = 'INCOMING' | 'IN_PROCESS' | 'FINAL' | 'AUDIT';
 type CharacteristicType = 'VARIABLE' | 'ATTRIBUTE';
@@ -27,6 +31,16 @@ const CHARACTERISTIC_TYPE_OPTIONS: { value: CharacteristicType; label: string; d
   { value: 'ATTRIBUTE', label: 'Attribute', description: 'Pass/Fail or Go/No-Go' },
 ];
 
+const SPC_CHART_OPTIONS: { value: SPCChartType; label: string }[] = [
+  { value: 'XBAR_R', label: 'X-bar R' },
+  { value: 'XBAR_S', label: 'X-bar S' },
+  { value: 'IMR', label: 'I-MR (Individuals)' },
+  { value: 'P', label: 'p (Fraction Defective)' },
+  { value: 'NP', label: 'np (Number Defective)' },
+  { value: 'C', label: 'c (Defects)' },
+  { value: 'U', label: 'u (Defects per Unit)' },
+];
+
 interface CharacteristicFormData {
   id?: string;
   name: string;
@@ -38,6 +52,10 @@ interface CharacteristicFormData {
   usl: string;
   is_critical: boolean;
   instructions: string;
+  attribute_capture: 'pass_fail' | 'count';
+  spc_chart_type: SPCChartType | '';
+  subgroup_size: string;
+  gage_id: string;
 }
 
 export function InspectionPlansView() {
@@ -60,6 +78,8 @@ export function InspectionPlansView() {
     operation_id: '',
     work_center_id: '',
     sampling_plan_id: '',
+    product_id: '',
+    first_article_required: false,
     is_active: true,
   });
 
@@ -76,7 +96,13 @@ export function InspectionPlansView() {
     usl: '',
     is_critical: false,
     instructions: '',
+    attribute_capture: 'pass_fail',
+    spc_chart_type: '',
+    subgroup_size: '',
+    gage_id: '',
   });
+  const [gauges, setGauges] = useState<Gauge[]>([]);
+  const [products, setProducts] = useState<ProductRevision[]>([]);
 
   const [saving, setSaving] = useState(false);
 
@@ -87,12 +113,16 @@ export function InspectionPlansView() {
   const loadData = async () => {
     try {
       setLoading(true);
-      const [plansData, samplingData] = await Promise.all([
+      const [plansData, samplingData, gaugeData, productData] = await Promise.all([
         QualityExecutionService.getInspectionPlans(),
         QualityExecutionService.getSamplingPlans(),
+        GaugeService.getGauges(),
+        ProductMasterService.getReleasedProducts(),
       ]);
       setPlans(plansData);
       setSamplingPlans(samplingData);
+      setGauges(gaugeData);
+      setProducts(productData);
     } catch (error) {
       console.error('Error loading plans:', error);
     } finally {
@@ -131,6 +161,8 @@ export function InspectionPlansView() {
       operation_id: '',
       work_center_id: '',
       sampling_plan_id: '',
+      product_id: '',
+      first_article_required: false,
       is_active: true,
     });
     setShowPlanModal(true);
@@ -146,6 +178,8 @@ export function InspectionPlansView() {
       operation_id: plan.operation_id || '',
       work_center_id: plan.work_center_id || '',
       sampling_plan_id: plan.sampling_plan_id || '',
+      product_id: plan.product_id || '',
+      first_article_required: !!plan.first_article_required,
       is_active: plan.is_active,
     });
     setShowPlanModal(true);
@@ -156,6 +190,10 @@ export function InspectionPlansView() {
       alert('Plan name is required');
       return;
     }
+    if (planFormData.first_article_required && !planFormData.product_id) {
+      alert('Select the product the first article applies to');
+      return;
+    }
 
     setSaving(true);
     try {
@@ -165,6 +203,7 @@ export function InspectionPlansView() {
         operation_id: planFormData.operation_id || null,
         work_center_id: planFormData.work_center_id || null,
         sampling_plan_id: planFormData.sampling_plan_id || null,
+        product_id: planFormData.product_id || null,
       };
 
       if (editingPlan) {
@@ -193,6 +232,8 @@ export function InspectionPlansView() {
         operation_id: plan.operation_id,
         work_center_id: plan.work_center_id,
         sampling_plan_id: plan.sampling_plan_id,
+        product_id: plan.product_id,
+        first_article_required: plan.first_article_required,
         is_active: false, // Start inactive
       });
 
@@ -209,6 +250,10 @@ export function InspectionPlansView() {
           usl: char.usl,
           is_critical: char.is_critical,
           instructions: char.instructions,
+          data_capture: char.data_capture,
+          spc_chart_type: char.spc_chart_type,
+          subgroup_size: char.subgroup_size,
+          gage_id: char.gage_id,
         });
       }
 
@@ -232,6 +277,10 @@ export function InspectionPlansView() {
       usl: '',
       is_critical: false,
       instructions: '',
+      attribute_capture: 'pass_fail',
+      spc_chart_type: '',
+      subgroup_size: '',
+      gage_id: '',
     });
     setShowCharModal(true);
   };
@@ -249,6 +298,10 @@ export function InspectionPlansView() {
       usl: char.usl?.toString() || '',
       is_critical: char.is_critical,
       instructions: char.instructions || '',
+      attribute_capture: char.data_capture === 'count' ? 'count' : 'pass_fail',
+      spc_chart_type: char.spc_chart_type || '',
+      subgroup_size: char.subgroup_size?.toString() || '',
+      gage_id: char.gage_id || '',
     });
     setShowCharModal(true);
   };
@@ -277,6 +330,10 @@ export function InspectionPlansView() {
         usl: charFormData.usl ? parseFloat(charFormData.usl) : null,
         is_critical: charFormData.is_critical,
         instructions: charFormData.instructions || null,
+        data_capture: charFormData.characteristic_type === 'ATTRIBUTE' ? charFormData.attribute_capture : 'numeric',
+        spc_chart_type: charFormData.spc_chart_type || null,
+        subgroup_size: charFormData.subgroup_size ? parseInt(charFormData.subgroup_size) : null,
+        gage_id: charFormData.characteristic_type === 'VARIABLE' ? charFormData.gage_id || null : null,
       };
 
       if (editingChar) {
@@ -423,8 +480,22 @@ export function InspectionPlansView() {
                       <span className={`px-2 py-0.5 text-xs rounded-full ${getPlanTypeBadge(plan.plan_type)}`}>
                         {plan.plan_type.replace('_', ' ')}
                       </span>
+                      {plan.first_article_required && (
+                        <span className="flex items-center text-purple-600 dark:text-purple-400">
+                          <BadgeCheck className="w-3 h-3 mr-0.5" />
+                          FAI
+                        </span>
+                      )}
+                      {plan.product_id && (
+                        <span>{products.find(p => p.part_id === plan.product_id)?.part_number}</span>
+                      )}
                       {plan.sampling_plan && (
-                        <span>Sampling: {plan.sampling_plan.name}</span>
+                        <span>
+                          Sampling: {plan.sampling_plan.name}
+                          {plan.sampling_plan.method === 'AQL' && (
+                            ` (AQL ${plan.sampling_plan.aql_level}, Level ${plan.sampling_plan.inspection_level || 'II'}, ${plan.sampling_plan.sampling_scheme === 'DOUBLE' ? 'double' : 'single'})`
+                          )}
+                        </span>
                       )}
                     </div>
                   </div>
@@ -614,11 +685,51 @@ export function InspectionPlansView() {
                 >
                   <option value="">None (100% Inspection)</option>
                   {samplingPlans.map(sp => (
-                    <option key={sp.id} value={sp.id}>{sp.name} - {sp.method}</option>
+                    <option key={sp.id} value={sp.id}>
+                      {sp.name} - {sp.method === 'AQL' ? `AQL ${sp.aql_level} / Level ${sp.inspection_level || 'II'}` : sp.method}
+                    </option>
+                  ))}
+                </select>
+                {['INCOMING', 'FINAL'].includes(planFormData.plan_type) &&
+                  samplingPlans.find(sp => sp.id === planFormData.sampling_plan_id)?.method === 'AQL' && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Sample size and accept/reject numbers are computed per lot (ANSI/ASQ Z1.4)
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Product
+                </label>
+                <select
+                  value={planFormData.product_id}
+                  onChange={(e) => setPlanFormData({ ...planFormData, product_id: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                >
+                  <option value="">Any product</option>
+                  {products.map(p => (
+                    <option key={p.part_id} value={p.part_id}>{p.part_number} - {p.part_name}</option>
                   ))}
                 </select>
               </div>
 
+              <label className="flex items-start space-x-2">
+                <input
+                  type="checkbox"
+                  checked={planFormData.first_article_required}
+                  onChange={(e) => setPlanFormData({ ...planFormData, first_article_required: e.target.checked })}
+                  className="rounded border-gray-300 mt-0.5"
+                />
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  First article required
+                  <span className="block text-xs text-gray-500">
+                    The first order of a new part, revision or routing gets a first article inspection of every
+                    characteristic, and its steps cannot be completed until it passes
+                  </span>
+                </span>
+              </label>
+
               <label className="flex items-center space-x-2">
                 <input
                   type="checkbox"
@@ -757,6 +868,69 @@ export function InspectionPlansView() {
                 </div>
               )}
 
+              <div className="grid grid-cols-2 gap-4">
+                {charFormData.characteristic_type === 'ATTRIBUTE' && (
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Attribute Data
+                    </label>
+                    <select
+                      value={charFormData.attribute_capture}
+                      onChange={(e) => setCharFormData({ ...charFormData, attribute_capture: e.target.value as 'pass_fail' | 'count' })}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                    >
+                      <option value="pass_fail">Defective units (pass/fail)</option>
+                      <option value="count">Defect count (several per unit possible)</option>
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    SPC Chart
+                  </label>
+                  <select
+                    value={charFormData.spc_chart_type}
+                    onChange={(e) => setCharFormData({ ...charFormData, spc_chart_type: e.target.value as SPCChartType | '' })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  >
+                    <option value="">Automatic</option>
+                    {SPC_CHART_OPTIONS.map(opt => (
+                      <option key={opt.value} value={opt.value}>{opt.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Subgroup Size
+                  </label>
+                  <input
+                    type="number"
+                    value={charFormData.subgroup_size}
+                    onChange={(e) => setCharFormData({ ...charFormData, subgroup_size: e.target.value })}
+                    placeholder="From data"
+                    min={1}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                </div>
+                {charFormData.characteristic_type === 'VARIABLE' && (
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Default Gauge
+                    </label>
+                    <select
+                      value={charFormData.gage_id}
+                      onChange={(e) => setCharFormData({ ...charFormData, gage_id: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                    >
+                      <option value="">None</option>
+                      {gauges.map(g => (
+                        <option key={g.id} value={g.id}>{g.gauge_number} - {g.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Instructions
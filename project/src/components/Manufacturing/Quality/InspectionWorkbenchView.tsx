@@ -8,16 +8,27 @@ import {
   Search,
   Clock,
   Factory,
+  Ruler,
 } from 'lucide-react';
 import { QualityExecutionService, InspectionRun, InspectionRunStatus } from '../../../services/QualityExecutionService';
+import { GaugeService, CalibrationAlert } from '../../../services/GaugeService';
+import { InspectionForm } from '../WorkOrders/WorkOrderQuality';
 import { useAuth } from '../../../contexts/AuthContext';
+import type { SignatureCredentials } from '../../../services/ElectronicSignatureService';
+import { ESignatureModal } from './ESignatureModal';
 
 export function InspectionWorkbenchView() {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const [inspections, setInspections] = useState<InspectionRun[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<InspectionRunStatus | 'all'>('all');
+  const [selectedInspection, setSelectedInspection] = useState<InspectionRun | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [calibrationAlerts, setCalibrationAlerts] = useState<CalibrationAlert[]>([]);
+  const [waiving, setWaiving] = useState<InspectionRun | null>(null);
+
+  const canWaive = profile?.role === 'admin' || profile?.role === 'supervisor';
 
   const loadInspections = useCallback(async () => {
     try {
@@ -39,6 +50,12 @@ export function InspectionWorkbenchView() {
     loadInspections();
   }, [loadInspections]);
 
+  useEffect(() => {
+    GaugeService.getCalibrationAlerts()
+      .then(setCalibrationAlerts)
+      .catch(error => console.error('Error loading calibration alerts:', error));
+  }, []);
+
   const handleStartInspection = async (runId: string) => {
     if (!user?.id) return;
     try {
@@ -50,6 +67,14 @@ export function InspectionWorkbenchView() {
     }
   };
 
+  // Signature errors are shown in the signature prompt
+  const handleWaive = async (credentials: SignatureCredentials) => {
+    if (!waiving) return;
+    await QualityExecutionService.waiveInspection(waiving.id, credentials);
+    setWaiving(null);
+    loadInspections();
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'PASSED':
@@ -76,6 +101,27 @@ export function InspectionWorkbenchView() {
     return styles[status] || styles.PENDING;
   };
 
+  if (selectedInspection) {
+    return (
+      <div className="card p-6">
+        <InspectionForm
+          inspection={selectedInspection}
+          onComplete={() => {
+            setSelectedInspection(null);
+            loadInspections();
+          }}
+          onCancel={() => {
+            setSelectedInspection(null);
+            loadInspections();
+          }}
+        />
+      </div>
+    );
+  }
+
+  const overdueGauges = calibrationAlerts.filter(a => a.state === 'OVERDUE' || a.state === 'NEVER_CALIBRATED' || a.gauge.status === 'OUT_OF_CALIBRATION');
+  const dueSoonGauges = calibrationAlerts.filter(a => a.state === 'DUE_SOON' && a.gauge.status !== 'OUT_OF_CALIBRATION');
+
   const filteredInspections = inspections.filter(insp => {
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
@@ -109,6 +155,29 @@ export function InspectionWorkbenchView() {
         </div>
       </div>
 
+      {/* Calibration Alerts */}
+      {calibrationAlerts.length > 0 && (
+        <div className="card p-4 border-l-4 border-yellow-500">
+          <div className="flex items-start space-x-3">
+            <Ruler className="w-5 h-5 text-yellow-600 mt-0.5" />
+            <div className="text-sm">
+              {overdueGauges.length > 0 && (
+                <p className="text-red-600 dark:text-red-400">
+                  <span className="font-medium">{overdueGauges.length} gauge{overdueGauges.length === 1 ? '' : 's'} out of calibration</span>
+                  {' '}and blocked for measurements: {overdueGauges.map(a => a.gauge.gauge_number).join(', ')}
+                </p>
+              )}
+              {dueSoonGauges.length > 0 && (
+                <p className="text-yellow-700 dark:text-yellow-400">
+                  <span className="font-medium">{dueSoonGauges.length} gauge{dueSoonGauges.length === 1 ? '' : 's'} due for calibration soon:</span>
+                  {' '}{dueSoonGauges.map(a => `${a.gauge.gauge_number} (${a.due_in_days}d)`).join(', ')}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-3 gap-4">
         <div className="card p-4">
@@ -228,17 +297,31 @@ export function InspectionWorkbenchView() {
                         Continue
                       </button>
                     )}
+                    {canWaive && ['PENDING', 'IN_PROGRESS'].includes(inspection.status) && (
+                      <button
+                        onClick={() => setWaiving(inspection)}
+                        className="px-4 py-2 border border-yellow-500 text-yellow-700 dark:text-yellow-400 text-sm rounded-lg hover:bg-yellow-50 dark:hover:bg-yellow-900/20"
+                      >
+                        Waive
+                      </button>
+                    )}
                     {['PASSED', 'FAILED'].includes(inspection.status) && (
                       <button
-                        onClick={() => setSelectedInspection(inspection)}
+                        onClick={() => setExpandedId(expandedId === inspection.id ? null : inspection.id)}
                         className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
                       >
-                        View
+                        {expandedId === inspection.id ? 'Hide' : 'View'}
                       </button>
                     )}
                   </div>
                 </div>
 
+                {inspection.status === 'WAIVED' && inspection.notes && (
+                  <p className="mt-3 text-sm text-yellow-700 dark:text-yellow-400">
+                    Waived{inspection.waived_at ? ` ${new Date(inspection.waived_at).toLocaleString()}` : ''}: {inspection.notes}
+                  </p>
+                )}
+
                 {/* Results summary for completed */}
                 {['PASSED', 'FAILED'].includes(inspection.status) && (
                   <div className="mt-3 flex items-center space-x-4 text-sm">
@@ -257,11 +340,53 @@ export function InspectionWorkbenchView() {
                     )}
                   </div>
                 )}
+
+                {/* Measurements with the gauges used */}
+                {expandedId === inspection.id && (
+                  <div className="mt-3 grid gap-2">
+                    {(inspection.measurements || []).length === 0 ? (
+                      <p className="text-sm text-gray-500">No measurements recorded</p>
+                    ) : (
+                      inspection.measurements?.map(m => (
+                        <div
+                          key={m.id}
+                          className={`flex items-center justify-between p-2 rounded text-sm ${
+                            m.is_within_spec === false ? 'bg-red-50 dark:bg-red-900/20' : 'bg-gray-50 dark:bg-gray-800'
+                          }`}
+                        >
+                          <span className="text-gray-700 dark:text-gray-300">
+                            {m.characteristic?.name}
+                            {m.gauge && <span className="text-xs text-gray-500"> ({m.gauge.gauge_number})</span>}
+                          </span>
+                          <span className={m.is_within_spec === false ? 'text-red-600' : 'text-gray-900 dark:text-white'}>
+                            {m.measured_value !== null && m.measured_value !== undefined
+                              ? `${m.measured_value} ${m.characteristic?.uom || ''}`
+                              : m.pass_fail !== null && m.pass_fail !== undefined
+                              ? (m.pass_fail ? 'PASS' : 'FAIL')
+                              : m.defect_count ?? '-'}
+                          </span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
               </div>
             ))}
           </div>
         )}
       </div>
+
+      {waiving && (
+        <ESignatureModal
+          title="Waive Inspection"
+          meaning="APPROVED"
+          recordLabel={`the waiver of inspection ${waiving.plan?.name || ''}`.trim()}
+          reasonLabel="Waiver reason"
+          confirmLabel="Sign & Waive"
+          onSign={handleWaive}
+          onClose={() => setWaiving(null)}
+        />
+      )}
     </div>
   );
 }
@@ -6,18 +6,41 @@ import {
   AlertTriangle,
   ChevronRight,
   X,
+  Lock,
+  PenLine,
+  FileDown,
 } from 'lucide-react';
+import { supabase } from '../../../lib/supabase';
+import type { Database } from '../../../lib/database.types';
 import {
   QualityExecutionService,
   Nonconformance,
   NCStatus,
   NCSeverity,
+  NCSource,
   DefectCode,
   DispositionType,
   CreateNCInput,
 } from '../../../services/QualityExecutionService';
+import { inventoryService, InventoryHold, HeldInventoryStatus } from '../../../services/InventoryService';
+import {
+  ElectronicSignatureService,
+  ElectronicSignature,
+  SignatureCredentials,
+  SIGNATURE_MEANINGS,
+} from '../../../services/ElectronicSignatureService';
+import { ESignatureModal } from './ESignatureModal';
+import { SignatureReportPDF } from './SignatureReportPDF';
 import { useAuth } from '../../../contexts/AuthContext';
 
+type StockLocation = Database['public']['Tables']['stock_locations']['Row'];
+
+const HOLD_STATUS_STYLES: Record<HeldInventoryStatus, string> = {
+  quarantine: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  hold: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
 export function NonconformanceView() {
   const { profile } = useAuth();
   const [nonconformances, setNonconformances] = useState<Nonconformance[]>([]);
@@ -294,6 +317,42 @@ function NCDetailModal({ nc, canDisposition, onClose, onUpdate }: NCDetailModalP
   const [disposition, setDisposition] = useState<DispositionType>('REWORK');
   const [instructions, setInstructions] = useState('');
   const [saving, setSaving] = useState(false);
+  const [holds, setHolds] = useState<InventoryHold[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [targetLocationId, setTargetLocationId] = useState('');
+  const [showApprovalSignature, setShowApprovalSignature] = useState(false);
+  const [signatures, setSignatures] = useState<ElectronicSignature[]>([]);
+
+  useEffect(() => {
+    Promise.all([
+      inventoryService.getHolds({ nonconformanceId: nc.id, activeOnly: false }),
+      inventoryService.getActiveLocations(),
+    ])
+      .then(([ncHolds, activeLocations]) => {
+        setHolds(ncHolds);
+        setLocations(activeLocations);
+      })
+      .catch(error => console.error('Error loading stock holds:', error));
+  }, [nc.id]);
+
+  useEffect(() => {
+    ElectronicSignatureService.getSignaturesForNonconformance(nc.id)
+      .then(setSignatures)
+      .catch(error => console.error('Error loading signatures:', error));
+  }, [nc.id, nc.disposition?.approved_at]);
+
+  const handleSignatureReport = async () => {
+    try {
+      const report = await ElectronicSignatureService.getNonconformanceReport(nc.id);
+      SignatureReportPDF.generatePDF(`Nonconformance ${nc.nc_number}`, nc.title, report);
+    } catch (error) {
+      console.error('Error generating signature report:', error);
+      alert(error instanceof Error ? error.message : 'Failed to generate signature report');
+    }
+  };
+
+  const activeHolds = holds.filter(h => !h.releasedAt);
+  const movesStock = nc.disposition?.disposition === 'REWORK' || nc.disposition?.disposition === 'SORT_100';
 
   const handleCreateDisposition = async () => {
     setSaving(true);
@@ -311,14 +370,29 @@ function NCDetailModal({ nc, canDisposition, onClose, onUpdate }: NCDetailModalP
     }
   };
 
-  const handleApproveDisposition = async () => {
+  // Signature errors are shown in the signature prompt
+  const handleApproveDisposition = async (credentials: SignatureCredentials) => {
+    if (!nc.disposition) return;
+    await QualityExecutionService.approveDisposition(
+      nc.disposition.id,
+      credentials,
+      movesStock ? targetLocationId || undefined : undefined
+    );
+    setShowApprovalSignature(false);
+    onUpdate();
+  };
+
+  const handleExecuteDisposition = async () => {
     if (!nc.disposition || !user?.id) return;
+    const notes = prompt('Execution notes (optional):');
+    if (notes === null) return;
     setSaving(true);
     try {
-      await QualityExecutionService.approveDisposition(nc.disposition.id, user.id);
+      await QualityExecutionService.executeDisposition(nc.disposition.id, user.id, notes || undefined);
       onUpdate();
     } catch (error) {
-      console.error('Error approving disposition:', error);
+      console.error('Error executing disposition:', error);
+      alert(error instanceof Error ? error.message : 'Failed to execute disposition');
     } finally {
       setSaving(false);
     }
@@ -381,8 +455,50 @@ function NCDetailModal({ nc, canDisposition, onClose, onUpdate }: NCDetailModalP
                 {new Date(nc.reported_at).toLocaleString()}
               </span>
             </div>
+            {nc.lot_number && (
+              <div>
+                <span className="text-gray-500">Lot:</span>
+                <span className="ml-2 text-gray-900 dark:text-white">{nc.lot_number}</span>
+              </div>
+            )}
           </div>
 
+          {/* Stock Holds */}
+          {holds.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 flex items-center space-x-1">
+                <Lock className="w-4 h-4" />
+                <span>Stock Holds</span>
+              </h4>
+              <div className="space-y-2">
+                {holds.map((hold) => (
+                  <div
+                    key={hold.id}
+                    className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-900 rounded text-sm"
+                  >
+                    <div>
+                      <span className="text-gray-900 dark:text-white">{hold.locationName}</span>
+                      {hold.lotNumber && <span className="ml-2 text-gray-500">Lot {hold.lotNumber}</span>}
+                      {hold.serializedPartId && <span className="ml-2 text-gray-500">Serialized unit</span>}
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <span className="text-gray-500">Qty: {hold.quantity}</span>
+                      {hold.releasedAt ? (
+                        <span className="text-xs text-gray-500">
+                          {hold.releaseAction} {new Date(hold.releasedAt).toLocaleDateString()}
+                        </span>
+                      ) : (
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${HOLD_STATUS_STYLES[hold.status]}`}>
+                          {hold.status}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Defects */}
           {nc.defects && nc.defects.length > 0 && (
             <div>
@@ -427,12 +543,40 @@ function NCDetailModal({ nc, canDisposition, onClose, onUpdate }: NCDetailModalP
                   </p>
                 )}
                 {!nc.disposition.approved_at && canDisposition && (
+                  <>
+                    {movesStock && activeHolds.length > 0 && (
+                      <div>
+                        <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">
+                          Move held stock to
+                        </label>
+                        <select
+                          value={targetLocationId}
+                          onChange={(e) => setTargetLocationId(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900"
+                        >
+                          <option value="">Keep in place</option>
+                          {locations.map((loc) => (
+                            <option key={loc.id} value={loc.id}>{loc.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                    <button
+                      onClick={() => setShowApprovalSignature(true)}
+                      disabled={saving}
+                      className="mt-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Sign &amp; Approve Disposition
+                    </button>
+                  </>
+                )}
+                {nc.disposition.approved_at && !nc.disposition.executed_at && movesStock && canDisposition && (
                   <button
-                    onClick={handleApproveDisposition}
+                    onClick={handleExecuteDisposition}
                     disabled={saving}
-                    className="mt-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                    className="mt-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
                   >
-                    {saving ? 'Approving...' : 'Approve Disposition'}
+                    {saving ? 'Saving...' : activeHolds.length > 0 ? 'Mark Executed & Release Stock' : 'Mark Executed'}
                   </button>
                 )}
               </div>
@@ -530,8 +674,52 @@ function NCDetailModal({ nc, canDisposition, onClose, onUpdate }: NCDetailModalP
               </div>
             </div>
           )}
+
+          {/* Electronic signatures */}
+          {signatures.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center space-x-1">
+                  <PenLine className="w-4 h-4" />
+                  <span>Signatures</span>
+                </h4>
+                <button
+                  onClick={handleSignatureReport}
+                  className="flex items-center space-x-1 text-sm text-purple-600 hover:text-purple-700"
+                >
+                  <FileDown className="w-4 h-4" />
+                  <span>Signature Report</span>
+                </button>
+              </div>
+              <div className="space-y-2">
+                {signatures.map((signature) => (
+                  <div key={signature.id} className="p-2 bg-gray-50 dark:bg-gray-900 rounded text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-900 dark:text-white">
+                        {SIGNATURE_MEANINGS[signature.meaning]} by {signature.signer_name}
+                      </span>
+                      <span className="text-xs text-gray-500">{new Date(signature.signed_at).toLocaleString()}</span>
+                    </div>
+                    <p className="text-xs text-gray-500">{signature.record_label} — {signature.reason}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </div>
+
+      {showApprovalSignature && nc.disposition && (
+        <ESignatureModal
+          title="Approve Disposition"
+          meaning="APPROVED"
+          recordLabel={`the ${nc.disposition.disposition.replace(/_/g, ' ').toLowerCase()} disposition of ${nc.nc_number}`}
+          reasonLabel="Approval rationale"
+          confirmLabel="Sign & Approve"
+          onSign={handleApproveDisposition}
+          onClose={() => setShowApprovalSignature(false)}
+        />
+      )}
     </div>
   );
 }
@@ -556,6 +744,21 @@ function CreateNCModal({ defectCodes, onClose, onCreate }: CreateNCModalProps) {
   });
   const [selectedDefects, setSelectedDefects] = useState<string[]>([]);
   const [saving, setSaving] = useState(false);
+  const [parts, setParts] = useState<{ id: string; part_number: string; name: string }[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+
+  useEffect(() => {
+    Promise.all([
+      supabase.from('parts').select('id, part_number, name').order('part_number'),
+      inventoryService.getActiveLocations(),
+    ])
+      .then(([partsRes, activeLocations]) => {
+        if (partsRes.error) throw partsRes.error;
+        setParts(partsRes.data || []);
+        setLocations(activeLocations);
+      })
+      .catch(error => console.error('Error loading parts and locations:', error));
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -569,6 +772,9 @@ function CreateNCModal({ defectCodes, onClose, onCreate }: CreateNCModalProps) {
         title: formData.title,
         description: formData.description,
         qty_affected: formData.qty_affected,
+        part_id: formData.part_id || undefined,
+        stock_location_id: formData.part_id ? formData.stock_location_id || undefined : undefined,
+        lot_number: formData.lot_number || undefined,
         defect_codes: selectedDefects.map(id => ({ defect_code_id: id })),
       });
       onCreate();
@@ -612,13 +818,14 @@ function CreateNCModal({ defectCodes, onClose, onCreate }: CreateNCModalProps) {
               </label>
               <select
                 value={formData.source}
-                onChange={(e) => setFormData({ ...formData, source: e.target.value as 'OPERATOR_REPORTED' | 'INSPECTION' | 'CUSTOMER_RETURN' | 'AUDIT' })}
+                onChange={(e) => setFormData({ ...formData, source: e.target.value as NCSource })}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900"
               >
                 <option value="OPERATOR_REPORTED">Operator Reported</option>
                 <option value="INSPECTION">Inspection</option>
                 <option value="CUSTOMER_RETURN">Customer Return</option>
                 <option value="AUDIT">Audit</option>
+                <option value="SUPPLIER">Supplier</option>
               </select>
             </div>
             <div>
@@ -637,6 +844,58 @@ function CreateNCModal({ defectCodes, onClose, onCreate }: CreateNCModalProps) {
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Part
+            </label>
+            <select
+              value={formData.part_id || ''}
+              onChange={(e) => setFormData({ ...formData, part_id: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900"
+            >
+              <option value="">No part</option>
+              {parts.map((part) => (
+                <option key={part.id} value={part.id}>{part.part_number} - {part.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {formData.part_id && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Stock Location
+                </label>
+                <select
+                  value={formData.stock_location_id || ''}
+                  onChange={(e) => setFormData({ ...formData, stock_location_id: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900"
+                >
+                  <option value="">Not in stock</option>
+                  {locations.map((loc) => (
+                    <option key={loc.id} value={loc.id}>{loc.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Lot Number
+                </label>
+                <input
+                  type="text"
+                  value={formData.lot_number || ''}
+                  onChange={(e) => setFormData({ ...formData, lot_number: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900"
+                />
+              </div>
+              {formData.stock_location_id && (
+                <p className="col-span-2 text-xs text-gray-500">
+                  The affected quantity at this location is put on quality hold until the NCR is dispositioned.
+                </p>
+              )}
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
               Quantity Affected
@@ -3,23 +3,158 @@ import {
   LineChart,
   AlertTriangle,
   Target,
+  Plus,
+  FileText,
+  Lock,
 } from 'lucide-react';
-import { SPCService, ControlChartData, SPCRuleViolation } from '../../../services/SPCService';
+import {
+  ComposedChart,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  SPCService,
+  ControlChartData,
+  ControlChartSeries,
+  CapabilityMethod,
+  SPCChartType,
+  SPCControlLimitSet,
+  SPCLimitStatus,
+  SPCRuleViolation,
+} from '../../../services/SPCService';
 import { QualityExecutionService, InspectionPlan } from '../../../services/QualityExecutionService';
+import { ManufacturingService, WorkCenter } from '../../../services/ManufacturingService';
+import { useAuth } from '../../../contexts/AuthContext';
+import { CapabilityStudyPDF } from './CapabilityStudyPDF';
+
+const CHART_TYPE_LABELS: Record<SPCChartType, string> = {
+  XBAR_R: 'X-bar R',
+  XBAR_S: 'X-bar S',
+  IMR: 'I-MR',
+  P: 'p Chart',
+  NP: 'np Chart',
+  C: 'c Chart',
+  U: 'u Chart',
+};
+
+const RULE_LABELS: Record<string, string> = {
+  WESTERN_ELECTRIC_1: '1 point beyond 3σ',
+  WESTERN_ELECTRIC_2: '2 of 3 beyond 2σ',
+  WESTERN_ELECTRIC_3: '4 of 5 beyond 1σ',
+  WESTERN_ELECTRIC_4: '8 in a row on one side',
+};
+
+const ATTRIBUTE_CHARTS: SPCChartType[] = ['P', 'NP', 'C', 'U'];
+
+const CAPABILITY_METHOD_LABELS: Record<CapabilityMethod, string> = {
+  normal: 'Normal',
+  box_cox: 'Box-Cox',
+  percentile: 'Percentile',
+};
+
+const LIMIT_STATUS_COLORS: Record<SPCLimitStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  ACTIVE: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  SUPERSEDED: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+  REJECTED: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+function revisionLabel(set: SPCControlLimitSet) {
+  return `${set.work_center_id ? `${set.work_center?.name || 'WC'} ` : ''}Rev ${set.revision}`;
+}
+
+function ControlChartPlot({
+  series,
+  height,
+  revisions,
+}: {
+  series: ControlChartSeries;
+  height: number;
+  revisions: SPCControlLimitSet[];
+}) {
+  const points = series.points.slice(-50);
+  const data = points.map((p, i) => ({
+    sample: i + 1,
+    value: p.value,
+    ucl: p.ucl,
+    lcl: p.lcl,
+    centerLine: p.centerLine,
+    outOfControl: p.value > p.ucl || p.value < p.lcl ? p.value : null,
+  }));
+
+  // Mark each point where a different locked revision takes over
+  const markers = points
+    .map((p, i) => ({ sample: i + 1, limitSetId: p.limit_set_id, previous: points[i - 1]?.limit_set_id }))
+    .filter((m) => m.limitSetId && m.limitSetId !== m.previous)
+    .map((m) => {
+      const set = revisions.find((r) => r.id === m.limitSetId);
+      return { sample: m.sample, label: set ? revisionLabel(set) : 'Locked' };
+    });
+
+  return (
+    <div style={{ height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+          <XAxis dataKey="sample" tick={{ fontSize: 10 }} />
+          <YAxis tick={{ fontSize: 10 }} domain={['auto', 'auto']} tickFormatter={(v: number) => v.toFixed(3)} />
+          <Tooltip formatter={(value: unknown) => (typeof value === 'number' ? value.toFixed(4) : String(value))} />
+          <Line type="stepAfter" dataKey="ucl" name="UCL" stroke="#ef4444" strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+          <Line type="stepAfter" dataKey="centerLine" name="CL" stroke="#22c55e" dot={false} isAnimationActive={false} />
+          <Line type="stepAfter" dataKey="lcl" name="LCL" stroke="#ef4444" strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+          <Line type="linear" dataKey="value" name={series.label} stroke="#3b82f6" dot={{ r: 3, fill: '#3b82f6' }} isAnimationActive={false} />
+          <Scatter dataKey="outOfControl" name="Out of control" fill="#ef4444" isAnimationActive={false} />
+          {markers.map((m) => (
+            <ReferenceLine
+              key={m.sample}
+              x={m.sample}
+              stroke="#8b5cf6"
+              strokeDasharray="3 3"
+              label={{ value: m.label, position: 'insideTopLeft', fontSize: 10, fill: '#8b5cf6' }}
+            />
+          ))}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
 
 export function SPCDashboardView() {
+  const { profile } = useAuth();
   const [plans, setPlans] = useState<InspectionPlan[]>([]);
+  const [workCenters, setWorkCenters] = useState<WorkCenter[]>([]);
   const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
   const [selectedChar, setSelectedChar] = useState<string | null>(null);
+  const [selectedWorkCenter, setSelectedWorkCenter] = useState('');
   const [chartData, setChartData] = useState<ControlChartData | null>(null);
   const [violations, setViolations] = useState<SPCRuleViolation[]>([]);
   const [loading, setLoading] = useState(true);
   const [chartLoading, setChartLoading] = useState(false);
+  const [sampleForm, setSampleForm] = useState({ sample_size: '', defect_count: '' });
+  const [recording, setRecording] = useState(false);
+  const [studyLoading, setStudyLoading] = useState(false);
+  const [limitSets, setLimitSets] = useState<SPCControlLimitSet[]>([]);
+  const [showLockModal, setShowLockModal] = useState(false);
+  const [lockForm, setLockForm] = useState({ baseline_from: '', baseline_to: '', reason: '' });
+  const [locking, setLocking] = useState(false);
+
+  const canLockLimits = ['admin', 'dispatcher', 'supervisor'].includes(profile?.role || '');
+  const canApproveLimits = ['admin', 'supervisor'].includes(profile?.role || '');
 
   const loadPlans = useCallback(async () => {
     try {
-      const data = await QualityExecutionService.getInspectionPlans({ activeOnly: true });
+      const [data, centers] = await Promise.all([
+        QualityExecutionService.getInspectionPlans({ activeOnly: true }),
+        ManufacturingService.getWorkCenters(true),
+      ]);
       setPlans(data);
+      setWorkCenters(centers);
       setLoading(false);
     } catch (error) {
       console.error('Error loading plans:', error);
@@ -36,13 +171,18 @@ export function SPCDashboardView() {
     }
   }, []);
 
-  const loadChartData = useCallback(async (characteristicId: string) => {
+  const loadChartData = useCallback(async (characteristicId: string, workCenterId: string) => {
     setChartLoading(true);
     try {
-      const data = await SPCService.getControlChartData(characteristicId, {
-        minSubgroups: 5, // Lower threshold for demo
-      });
+      const [data, sets] = await Promise.all([
+        SPCService.getControlChartData(characteristicId, {
+          work_center_id: workCenterId || undefined,
+          minSubgroups: 5, // Lower threshold for demo
+        }),
+        SPCService.getControlLimitSets(characteristicId, workCenterId || undefined),
+      ]);
       setChartData(data);
+      setLimitSets(sets);
     } catch (error) {
       console.error('Error loading chart data:', error);
     } finally {
@@ -57,9 +197,9 @@ export function SPCDashboardView() {
 
   useEffect(() => {
     if (selectedChar) {
-      loadChartData(selectedChar);
+      loadChartData(selectedChar, selectedWorkCenter);
     }
-  }, [selectedChar, loadChartData]);
+  }, [selectedChar, selectedWorkCenter, loadChartData]);
 
   const handleAcknowledgeViolation = async (violationId: string) => {
     try {
@@ -70,10 +210,105 @@ export function SPCDashboardView() {
     }
   };
 
+  const handleRecordAttributeSample = async () => {
+    if (!selectedChar) return;
+
+    setRecording(true);
+    try {
+      await SPCService.createAttributeSubgroup({
+        characteristic_id: selectedChar,
+        work_center_id: selectedWorkCenter || undefined,
+        sample_size: parseInt(sampleForm.sample_size),
+        defect_count: parseInt(sampleForm.defect_count),
+      });
+      setSampleForm({ sample_size: sampleForm.sample_size, defect_count: '' });
+      await loadChartData(selectedChar, selectedWorkCenter);
+      loadViolations();
+    } catch (error) {
+      console.error('Error recording attribute sample:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record sample');
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  const handleCapabilityStudy = async () => {
+    if (!selectedChar) return;
+
+    setStudyLoading(true);
+    try {
+      const study = await SPCService.getCapabilityStudy(selectedChar);
+      CapabilityStudyPDF.generatePDF(study);
+    } catch (error) {
+      console.error('Error generating capability study:', error);
+      alert(error instanceof Error ? error.message : 'Failed to generate capability study');
+    } finally {
+      setStudyLoading(false);
+    }
+  };
+
+  const handleLockLimits = async () => {
+    if (!selectedChar) return;
+
+    setLocking(true);
+    try {
+      await SPCService.proposeControlLimits({
+        characteristic_id: selectedChar,
+        work_center_id: selectedWorkCenter || undefined,
+        baseline_from: new Date(`${lockForm.baseline_from}T00:00:00`).toISOString(),
+        baseline_to: new Date(`${lockForm.baseline_to}T23:59:59`).toISOString(),
+        reason: lockForm.reason,
+      });
+      setShowLockModal(false);
+      setLockForm({ baseline_from: '', baseline_to: '', reason: '' });
+      await loadChartData(selectedChar, selectedWorkCenter);
+    } catch (error) {
+      console.error('Error locking control limits:', error);
+      alert(error instanceof Error ? error.message : 'Failed to lock control limits');
+    } finally {
+      setLocking(false);
+    }
+  };
+
+  const handleApproveLimits = async (set: SPCControlLimitSet) => {
+    if (!selectedChar) return;
+    if (!confirm(`Approve ${revisionLabel(set)}? It replaces the active limits for new subgroups.`)) return;
+
+    try {
+      await SPCService.approveControlLimits(set.id);
+      await loadChartData(selectedChar, selectedWorkCenter);
+    } catch (error) {
+      console.error('Error approving control limits:', error);
+      alert(error instanceof Error ? error.message : 'Failed to approve control limits');
+    }
+  };
+
+  const handleRejectLimits = async (set: SPCControlLimitSet) => {
+    if (!selectedChar) return;
+    const reason = prompt(`Reason for rejecting ${revisionLabel(set)}:`);
+    if (!reason) return;
+
+    try {
+      await SPCService.rejectControlLimits(set.id, reason);
+      await loadChartData(selectedChar, selectedWorkCenter);
+    } catch (error) {
+      console.error('Error rejecting control limits:', error);
+      alert(error instanceof Error ? error.message : 'Failed to reject control limits');
+    }
+  };
+
   const selectedPlanData = plans.find(p => p.id === selectedPlan);
-  const variableChars = selectedPlanData?.characteristics?.filter(
-    c => c.char_type === 'VARIABLE' && c.is_active
-  ) || [];
+  const spcChars = selectedPlanData?.characteristics?.filter(c => c.is_active) || [];
+  const isAttributeChart = chartData ? ATTRIBUTE_CHARTS.includes(chartData.chart_type) : false;
+  const hasVaryingLimits = chartData?.chart_type === 'P' || chartData?.chart_type === 'U';
+  const latestLimitSetId = chartData?.primary.points[chartData.primary.points.length - 1]?.limit_set_id;
+  const latestLimitSet = chartData?.limitRevisions.find((set) => set.id === latestLimitSetId);
+
+  // Percentile studies only yield performance indices
+  const capability = chartData?.capability;
+  const headlineLabel = capability?.cpk !== undefined ? 'Cpk' : 'Ppk';
+  const headlineValue = capability?.cpk ?? capability?.ppk;
+  const headlineCI = capability?.cpk !== undefined ? capability.cpkCI : capability?.ppkCI;
 
   const getCapabilityColor = (value: number | undefined) => {
     if (value === undefined) return 'text-gray-500';
@@ -140,7 +375,7 @@ export function SPCDashboardView() {
 
       {/* Selection */}
       <div className="card p-4">
-        <div className="grid grid-cols-2 gap-4">
+        <div className="grid grid-cols-3 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
               Inspection Plan
@@ -164,18 +399,35 @@ export function SPCDashboardView() {
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Variable Characteristic
+              Characteristic
             </label>
             <select
               value={selectedChar || ''}
               onChange={(e) => setSelectedChar(e.target.value || null)}
-              disabled={!selectedPlan || variableChars.length === 0}
+              disabled={!selectedPlan || spcChars.length === 0}
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 disabled:opacity-50"
             >
               <option value="">Select a characteristic...</option>
-              {variableChars.map((char) => (
+              {spcChars.map((char) => (
                 <option key={char.id} value={char.id}>
-                  {char.name} {char.uom ? `(${char.uom})` : ''}
+                  {char.name} {char.uom ? `(${char.uom})` : ''} - {char.char_type === 'ATTRIBUTE' ? 'Attribute' : 'Variable'}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Work Center
+            </label>
+            <select
+              value={selectedWorkCenter}
+              onChange={(e) => setSelectedWorkCenter(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800"
+            >
+              <option value="">All work centers</option>
+              {workCenters.map((wc) => (
+                <option key={wc.id} value={wc.id}>
+                  {wc.name}
                 </option>
               ))}
             </select>
@@ -192,13 +444,75 @@ export function SPCDashboardView() {
         <div className="grid grid-cols-3 gap-6">
           {/* Control Chart */}
           <div className="col-span-2 card p-4">
-            <h3 className="font-semibold text-gray-900 dark:text-white mb-4">
-              Control Chart: {chartData.characteristic_name}
-            </h3>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-semibold text-gray-900 dark:text-white">
+                Control Chart: {chartData.characteristic_name}
+              </h3>
+              <div className="flex items-center space-x-2">
+                <span
+                  className={`px-2 py-1 text-xs font-medium rounded ${
+                    latestLimitSet
+                      ? 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300'
+                      : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  {latestLimitSet ? `Locked ${revisionLabel(latestLimitSet)}` : 'Calculated Limits'}
+                </span>
+                <span className="px-2 py-1 text-xs font-medium rounded bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300">
+                  {CHART_TYPE_LABELS[chartData.chart_type]}
+                </span>
+                {canLockLimits && (
+                  <button
+                    onClick={() => setShowLockModal(true)}
+                    className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    <Lock className="w-4 h-4" />
+                    <span>Lock Limits</span>
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {isAttributeChart && (
+              <div className="flex items-end space-x-3 mb-4 p-3 bg-gray-50 dark:bg-gray-900 rounded-lg">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Units Inspected</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={sampleForm.sample_size}
+                    onChange={(e) => setSampleForm({ ...sampleForm, sample_size: e.target.value })}
+                    className="w-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">
+                    {chartData.chart_type === 'C' || chartData.chart_type === 'U' ? 'Defects Found' : 'Defective Units'}
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={sampleForm.defect_count}
+                    onChange={(e) => setSampleForm({ ...sampleForm, defect_count: e.target.value })}
+                    className="w-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800"
+                  />
+                </div>
+                <button
+                  onClick={handleRecordAttributeSample}
+                  disabled={recording || !sampleForm.sample_size || sampleForm.defect_count === ''}
+                  className="btn btn-primary flex items-center space-x-2 disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>{recording ? 'Recording...' : 'Record Sample'}</span>
+                </button>
+              </div>
+            )}
 
-            {chartData.subgroups.length === 0 ? (
+            {chartData.primary.points.length === 0 ? (
               <div className="h-64 flex items-center justify-center text-gray-500">
-                No data available. Record measurements to populate the chart.
+                {chartData.subgroups.length === 0
+                  ? 'No data available. Record measurements to populate the chart.'
+                  : `${chartData.subgroups.length} subgroup(s) recorded - more are needed to set control limits.`}
               </div>
             ) : (
               <div className="space-y-4">
@@ -222,73 +536,85 @@ export function SPCDashboardView() {
                       LCL: {chartData.controlLimits.lcl.toFixed(4)}
                     </span>
                   </div>
+                  {hasVaryingLimits && (
+                    <span className="text-xs text-gray-500">Limits shown at average n; each point uses its own n</span>
+                  )}
                 </div>
 
-                {/* Simple Chart Visualization */}
-                <div className="h-48 relative border border-gray-200 dark:border-gray-700 rounded">
-                  {/* UCL/LCL/CL lines */}
-                  <div className="absolute inset-x-0 top-[10%] border-t border-dashed border-red-400"></div>
-                  <div className="absolute inset-x-0 top-1/2 border-t border-green-500"></div>
-                  <div className="absolute inset-x-0 bottom-[10%] border-t border-dashed border-red-400"></div>
-
-                  {/* Data points */}
-                  <div className="absolute inset-0 flex items-end justify-around px-2 pb-4">
-                    {chartData.subgroups.slice(-20).map((sg) => {
-                      const range = chartData.controlLimits.ucl - chartData.controlLimits.lcl;
-                      const value = sg.mean || 0;
-                      const pct = ((value - chartData.controlLimits.lcl) / range) * 80 + 10;
-                      const isViolation = value > chartData.controlLimits.ucl || value < chartData.controlLimits.lcl;
-
-                      return (
-                        <div
-                          key={sg.id}
-                          className="relative group"
-                          style={{ height: `${Math.max(5, Math.min(95, pct))}%` }}
-                        >
-                          <div
-                            className={`w-2 h-2 rounded-full ${
-                              isViolation ? 'bg-red-500' : 'bg-blue-500'
-                            }`}
-                          />
-                          <div className="hidden group-hover:block absolute bottom-full left-1/2 -translate-x-1/2 mb-1 px-2 py-1 bg-gray-900 text-white text-xs rounded whitespace-nowrap">
-                            {value.toFixed(4)}
-                          </div>
-                        </div>
-                      );
-                    })}
-                  </div>
+                <div>
+                  <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{chartData.primary.label}</p>
+                  <ControlChartPlot series={chartData.primary} height={220} revisions={chartData.limitRevisions} />
                 </div>
 
+                {chartData.secondary && chartData.secondary.points.length > 0 && (
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                      {chartData.secondary.label} (CL {chartData.secondary.limits.centerLine.toFixed(4)}, UCL {chartData.secondary.limits.ucl.toFixed(4)})
+                    </p>
+                    <ControlChartPlot series={chartData.secondary} height={140} revisions={chartData.limitRevisions} />
+                  </div>
+                )}
+
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Rules checked: {chartData.rules.map((r) => RULE_LABELS[r] || r.replace(/_/g, ' ')).join(' · ')}
+                </p>
+
                 {/* Data Table */}
                 <div className="max-h-48 overflow-y-auto">
                   <table className="min-w-full text-sm">
                     <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
-                      <tr>
-                        <th className="px-3 py-2 text-left">Time</th>
-                        <th className="px-3 py-2 text-right">n</th>
-                        <th className="px-3 py-2 text-right">Mean</th>
-                        <th className="px-3 py-2 text-right">Range</th>
-                        <th className="px-3 py-2 text-right">Std Dev</th>
-                      </tr>
+                      {isAttributeChart ? (
+                        <tr>
+                          <th className="px-3 py-2 text-left">Time</th>
+                          <th className="px-3 py-2 text-right">n</th>
+                          <th className="px-3 py-2 text-right">Count</th>
+                          <th className="px-3 py-2 text-right">{chartData.primary.label}</th>
+                          <th className="px-3 py-2 text-right">UCL</th>
+                        </tr>
+                      ) : (
+                        <tr>
+                          <th className="px-3 py-2 text-left">Time</th>
+                          <th className="px-3 py-2 text-right">n</th>
+                          <th className="px-3 py-2 text-right">Mean</th>
+                          <th className="px-3 py-2 text-right">Range</th>
+                          <th className="px-3 py-2 text-right">Std Dev</th>
+                        </tr>
+                      )}
                     </thead>
                     <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
-                      {chartData.subgroups.slice(-10).reverse().map((sg) => (
-                        <tr key={sg.id}>
-                          <td className="px-3 py-2">
-                            {new Date(sg.subgroup_ts).toLocaleString()}
-                          </td>
-                          <td className="px-3 py-2 text-right">{sg.n}</td>
-                          <td className="px-3 py-2 text-right font-mono">
-                            {sg.mean?.toFixed(4) || '-'}
-                          </td>
-                          <td className="px-3 py-2 text-right font-mono">
-                            {sg.range_value?.toFixed(4) || '-'}
-                          </td>
-                          <td className="px-3 py-2 text-right font-mono">
-                            {sg.stddev?.toFixed(4) || '-'}
-                          </td>
-                        </tr>
-                      ))}
+                      {isAttributeChart
+                        ? chartData.primary.points.slice(-10).reverse().map((p) => (
+                            <tr key={p.subgroup_id}>
+                              <td className="px-3 py-2">
+                                {new Date(p.subgroup_ts).toLocaleString()}
+                              </td>
+                              <td className="px-3 py-2 text-right">{p.n}</td>
+                              <td className="px-3 py-2 text-right">
+                                {chartData.subgroups.find((sg) => sg.id === p.subgroup_id)?.defect_count ?? '-'}
+                              </td>
+                              <td className={`px-3 py-2 text-right font-mono ${p.value > p.ucl || p.value < p.lcl ? 'text-red-600' : ''}`}>
+                                {p.value.toFixed(4)}
+                              </td>
+                              <td className="px-3 py-2 text-right font-mono">{p.ucl.toFixed(4)}</td>
+                            </tr>
+                          ))
+                        : chartData.subgroups.slice(-10).reverse().map((sg) => (
+                            <tr key={sg.id}>
+                              <td className="px-3 py-2">
+                                {new Date(sg.subgroup_ts).toLocaleString()}
+                              </td>
+                              <td className="px-3 py-2 text-right">{sg.n}</td>
+                              <td className="px-3 py-2 text-right font-mono">
+                                {sg.mean?.toFixed(4) || '-'}
+                              </td>
+                              <td className="px-3 py-2 text-right font-mono">
+                                {sg.range_value?.toFixed(4) || '-'}
+                              </td>
+                              <td className="px-3 py-2 text-right font-mono">
+                                {sg.stddev?.toFixed(4) || '-'}
+                              </td>
+                            </tr>
+                          ))}
                     </tbody>
                   </table>
                 </div>
@@ -299,80 +625,125 @@ export function SPCDashboardView() {
           {/* Capability Panel */}
           <div className="space-y-4">
             {/* Spec Limits */}
-            <div className="card p-4">
-              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
-                Specification Limits
-              </h4>
-              <div className="space-y-2 text-sm">
-                <div className="flex justify-between">
-                  <span className="text-gray-500">USL</span>
-                  <span className="font-mono">
-                    {chartData.controlLimits.usl?.toFixed(4) || 'Not Set'}
-                  </span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-500">Target</span>
-                  <span className="font-mono">
-                    {chartData.controlLimits.target?.toFixed(4) || 'Not Set'}
-                  </span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-500">LSL</span>
-                  <span className="font-mono">
-                    {chartData.controlLimits.lsl?.toFixed(4) || 'Not Set'}
-                  </span>
+            {!isAttributeChart && (
+              <div className="card p-4">
+                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                  Specification Limits
+                </h4>
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">USL</span>
+                    <span className="font-mono">
+                      {chartData.controlLimits.usl?.toFixed(4) || 'Not Set'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Target</span>
+                    <span className="font-mono">
+                      {chartData.controlLimits.target?.toFixed(4) || 'Not Set'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">LSL</span>
+                    <span className="font-mono">
+                      {chartData.controlLimits.lsl?.toFixed(4) || 'Not Set'}
+                    </span>
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
 
             {/* Process Capability */}
             {chartData.capability && (
               <div className="card p-4">
-                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
-                  Process Capability
-                </h4>
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Process Capability
+                  </h4>
+                  <button
+                    onClick={handleCapabilityStudy}
+                    disabled={studyLoading}
+                    className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    <FileText className="w-4 h-4" />
+                    <span>{studyLoading ? 'Preparing...' : 'Study PDF'}</span>
+                  </button>
+                </div>
                 <div className="space-y-3">
                   <div className="text-center py-2 bg-gray-50 dark:bg-gray-900 rounded">
-                    <p className="text-xs text-gray-500">Cpk</p>
-                    <p className={`text-3xl font-bold ${getCapabilityColor(chartData.capability.cpk)}`}>
-                      {chartData.capability.cpk?.toFixed(2) || 'N/A'}
+                    <p className="text-xs text-gray-500">{headlineLabel}</p>
+                    <p className={`text-3xl font-bold ${getCapabilityColor(headlineValue)}`}>
+                      {headlineValue?.toFixed(2) || 'N/A'}
                     </p>
-                    <p className={`text-sm ${getCapabilityColor(chartData.capability.cpk)}`}>
-                      {getCapabilityStatus(chartData.capability.cpk)}
+                    {headlineCI && (
+                      <p className="text-xs text-gray-500">
+                        {Math.round(chartData.capability.confidenceLevel * 100)}% CI {headlineCI.lower.toFixed(2)} – {headlineCI.upper.toFixed(2)}
+                      </p>
+                    )}
+                    <p className={`text-sm ${getCapabilityColor(headlineValue)}`}>
+                      {getCapabilityStatus(headlineValue)}
                     </p>
                   </div>
 
                   <div className="grid grid-cols-2 gap-2 text-sm">
-                    <div className="bg-gray-50 dark:bg-gray-900 p-2 rounded text-center">
-                      <p className="text-xs text-gray-500">Cp</p>
-                      <p className={`font-bold ${getCapabilityColor(chartData.capability.cp)}`}>
-                        {chartData.capability.cp?.toFixed(2) || 'N/A'}
-                      </p>
-                    </div>
-                    <div className="bg-gray-50 dark:bg-gray-900 p-2 rounded text-center">
-                      <p className="text-xs text-gray-500">Sigma Level</p>
-                      <p className="font-bold text-blue-600">
-                        {chartData.capability.sigmaLevel?.toFixed(2) || 'N/A'}
-                      </p>
-                    </div>
+                    {[
+                      { label: 'Cp', value: chartData.capability.cp },
+                      { label: 'Cpk', value: chartData.capability.cpk },
+                      { label: 'Pp', value: chartData.capability.pp },
+                      { label: 'Ppk', value: chartData.capability.ppk },
+                    ].map((index) => (
+                      <div key={index.label} className="bg-gray-50 dark:bg-gray-900 p-2 rounded text-center">
+                        <p className="text-xs text-gray-500">{index.label}</p>
+                        <p className={`font-bold ${getCapabilityColor(index.value)}`}>
+                          {index.value?.toFixed(2) || 'N/A'}
+                        </p>
+                      </div>
+                    ))}
                   </div>
 
                   <div className="space-y-1 text-xs">
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">Method</span>
+                      <span>
+                        {CAPABILITY_METHOD_LABELS[chartData.capability.method]}
+                        {chartData.capability.boxCoxLambda !== undefined && ` (λ = ${chartData.capability.boxCoxLambda})`}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">Normality (AD p)</span>
+                      <span className={`font-mono ${chartData.capability.normality.isNormal ? '' : 'text-yellow-600'}`}>
+                        {chartData.capability.normality.pValue < 0.005 ? '< 0.005' : chartData.capability.normality.pValue.toFixed(3)}
+                      </span>
+                    </div>
                     <div className="flex justify-between">
                       <span className="text-gray-500">Mean</span>
                       <span className="font-mono">{chartData.capability.mean.toFixed(4)}</span>
                     </div>
+                    {chartData.capability.stddevWithin !== undefined && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Std Dev (Within)</span>
+                        <span className="font-mono">{chartData.capability.stddevWithin.toFixed(4)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
-                      <span className="text-gray-500">Std Dev</span>
+                      <span className="text-gray-500">Std Dev (Overall)</span>
                       <span className="font-mono">{chartData.capability.stddev.toFixed(4)}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-500">Sample Size</span>
                       <span className="font-mono">{chartData.capability.n}</span>
                     </div>
-                    {chartData.capability.dpmo && (
+                    {chartData.capability.sigmaLevel !== undefined && (
                       <div className="flex justify-between">
-                        <span className="text-gray-500">DPMO</span>
+                        <span className="text-gray-500">Z.Bench (Within)</span>
+                        <span className="font-mono">{chartData.capability.sigmaLevel.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {chartData.capability.dpmo !== undefined && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">
+                          {chartData.capability.method === 'percentile' ? 'Observed PPM' : 'Expected PPM (Overall)'}
+                        </span>
                         <span className="font-mono">{Math.round(chartData.capability.dpmo)}</span>
                       </div>
                     )}
@@ -381,6 +752,64 @@ export function SPCDashboardView() {
               </div>
             )}
 
+            {/* Control Limit Revisions */}
+            <div className="card p-4">
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                Control Limit Revisions
+              </h4>
+              {limitSets.length === 0 ? (
+                <p className="text-xs text-gray-500">
+                  No locked limits - control limits are recalculated from the data shown.
+                </p>
+              ) : (
+                <div className="space-y-3 max-h-80 overflow-y-auto">
+                  {limitSets.map((set) => (
+                    <div key={set.id} className="text-xs border-b border-gray-100 dark:border-gray-700 pb-2 last:border-0">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900 dark:text-white">
+                          {revisionLabel(set)} · {CHART_TYPE_LABELS[set.chart_type]}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded ${LIMIT_STATUS_COLORS[set.status]}`}>
+                          {set.status}
+                        </span>
+                      </div>
+                      <p className="font-mono text-gray-600 dark:text-gray-400">
+                        {ATTRIBUTE_CHARTS.includes(set.chart_type) ? 'Rate' : 'CL'} {Number(set.center_line).toFixed(4)} · UCL{' '}
+                        {Number(set.ucl).toFixed(4)} · LCL {Number(set.lcl).toFixed(4)}
+                      </p>
+                      <p className="text-gray-500">
+                        Baseline {new Date(set.baseline_from).toLocaleDateString()} –{' '}
+                        {new Date(set.baseline_to).toLocaleDateString()} ({set.baseline_subgroups} subgroups)
+                      </p>
+                      <p className="text-gray-700 dark:text-gray-300">{set.reason}</p>
+                      <p className="text-gray-500">
+                        Requested by {set.requester?.full_name || 'Unknown'}
+                        {set.approved_at &&
+                          ` · Approved by ${set.approver?.full_name || 'Unknown'} ${new Date(set.approved_at).toLocaleString()}`}
+                      </p>
+                      {set.rejection_reason && <p className="text-red-600">Rejected: {set.rejection_reason}</p>}
+                      {set.status === 'PENDING' && canApproveLimits && (
+                        <div className="flex space-x-3 mt-1">
+                          <button
+                            onClick={() => handleApproveLimits(set)}
+                            className="text-green-600 hover:text-green-800 underline"
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => handleRejectLimits(set)}
+                            className="text-red-600 hover:text-red-800 underline"
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* Violations */}
             {chartData.violations.length > 0 && (
               <div className="card p-4 border-l-4 border-red-500">
@@ -411,6 +840,78 @@ export function SPCDashboardView() {
         </div>
       )}
 
+      {/* Lock Limits Modal */}
+      {showLockModal && chartData && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg mx-4">
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Lock Control Limits</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {chartData.characteristic_name} ·{' '}
+                {workCenters.find((wc) => wc.id === selectedWorkCenter)?.name || 'All work centers'}
+              </p>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Baseline From *
+                  </label>
+                  <input
+                    type="date"
+                    value={lockForm.baseline_from}
+                    onChange={(e) => setLockForm({ ...lockForm, baseline_from: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Baseline To *
+                  </label>
+                  <input
+                    type="date"
+                    value={lockForm.baseline_to}
+                    onChange={(e) => setLockForm({ ...lockForm, baseline_to: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Reason *
+                </label>
+                <textarea
+                  value={lockForm.reason}
+                  onChange={(e) => setLockForm({ ...lockForm, reason: e.target.value })}
+                  rows={3}
+                  placeholder="e.g., Initial limits after process qualification"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Limits are calculated from the baseline subgroups (at least 20) and apply to new subgroups once a
+                supervisor approves the revision.
+              </p>
+            </div>
+            <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-3">
+              <button
+                onClick={() => setShowLockModal(false)}
+                className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleLockLimits}
+                disabled={locking || !lockForm.baseline_from || !lockForm.baseline_to || !lockForm.reason.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {locking ? 'Submitting...' : 'Submit for Approval'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Capability Reference */}
       <div className="card p-4">
         <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
@@ -0,0 +1,122 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { ElectronicSignatureService, SIGNATURE_MEANINGS } from '../../../services/ElectronicSignatureService';
+import type { SignatureReport } from '../../../services/ElectronicSignatureService';
+
+interface JsPDFWithAutoTable extends jsPDF {
+  lastAutoTable?: { finalY: number };
+}
+
+const HEAD_STYLES = { fillColor: [59, 130, 246] as [number, number, number], textColor: 255 };
+
+export class SignatureReportPDF {
+  static generatePDF(subject: string, description: string | undefined, report: SignatureReport): void {
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+
+    // Header
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Electronic Signature Report', pageWidth / 2, 20, { align: 'center' });
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${subject}${description ? ` - ${description}` : ''}`, pageWidth / 2, 28, { align: 'center' });
+
+    // Signatures
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`Signatures (${report.signatures.length})`, 14, 38);
+    doc.setFont('helvetica', 'normal');
+
+    autoTable(doc, {
+      startY: 42,
+      head: [['Signed', 'Signer', 'Meaning', 'Record', 'Reason', 'Signature Hash']],
+      body: report.signatures.map(s => [
+        this.formatDateTime(s.signed_at),
+        `${s.signer_name}\n${s.signer_email}`,
+        SIGNATURE_MEANINGS[s.meaning],
+        s.record_label || s.record_type,
+        s.reason,
+        s.signature_hash.slice(0, 16),
+      ]),
+      theme: 'striped',
+      styles: { fontSize: 8, cellPadding: 2 },
+      headStyles: HEAD_STYLES,
+      columnStyles: { 4: { cellWidth: 80 }, 5: { font: 'courier' } },
+      margin: { left: 14, right: 14 },
+    });
+    let yPos = this.lastY(doc, 60) + 10;
+
+    // Audit trail
+    if (yPos > pageHeight - 40) {
+      doc.addPage();
+      yPos = 20;
+    }
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Audit Trail', 14, yPos);
+    doc.setFont('helvetica', 'normal');
+
+    autoTable(doc, {
+      startY: yPos + 4,
+      head: [['When', 'User', 'Record', 'Action', 'Field', 'Before', 'After']],
+      body: report.auditTrail.flatMap(entry => {
+        const changes = ElectronicSignatureService.getChanges(entry);
+        const rows = changes.length > 0 ? changes : [{ field: '-', before: null, after: null }];
+        return rows.map((change, i) => [
+          i === 0 ? this.formatDateTime(entry.performed_at) : '',
+          i === 0 ? entry.performer?.full_name || 'System' : '',
+          i === 0 ? entry.entity_type.replace(/^quality_/, '') : '',
+          i === 0 ? entry.action : '',
+          change.field,
+          this.formatValue(change.before),
+          this.formatValue(change.after),
+        ]);
+      }),
+      theme: 'striped',
+      styles: { fontSize: 7, cellPadding: 1.5 },
+      headStyles: HEAD_STYLES,
+      columnStyles: { 5: { cellWidth: 55 }, 6: { cellWidth: 55 } },
+      margin: { left: 14, right: 14 },
+    });
+
+    // Footer on every page
+    const pageCount = doc.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i);
+      doc.setFontSize(8);
+      doc.setTextColor(150, 150, 150);
+      doc.text(
+        `${subject} - Page ${i} of ${pageCount} - Generated: ${new Date().toLocaleString()}`,
+        pageWidth / 2,
+        pageHeight - 10,
+        { align: 'center' }
+      );
+    }
+
+    doc.save(`Signatures_${subject.replace(/\s+/g, '_')}.pdf`);
+  }
+
+  private static lastY(doc: jsPDF, fallback: number): number {
+    return (doc as unknown as JsPDFWithAutoTable).lastAutoTable?.finalY || fallback;
+  }
+
+  private static formatValue(value: unknown): string {
+    if (value === null || value === undefined) return '-';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+  }
+
+  private static formatDateTime(dateStr: string): string {
+    return new Date(dateStr).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  }
+}
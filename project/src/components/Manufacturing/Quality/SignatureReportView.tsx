@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react';
+import {
+  PenLine,
+  FileDown,
+  ShieldCheck,
+  ShieldAlert,
+} from 'lucide-react';
+import { supabase } from '../../../lib/supabase';
+import { QualityExecutionService, Nonconformance } from '../../../services/QualityExecutionService';
+import {
+  ElectronicSignatureService,
+  SignatureReport,
+  AuditChainStatus,
+  SIGNATURE_MEANINGS,
+} from '../../../services/ElectronicSignatureService';
+import { SignatureReportPDF } from './SignatureReportPDF';
+
+type ReportSubject = 'nonconformance' | 'production_order';
+
+interface OrderOption {
+  id: string;
+  order_number: string;
+  title: string | null;
+}
+
+const selectClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export function SignatureReportView() {
+  const [subject, setSubject] = useState<ReportSubject>('nonconformance');
+  const [nonconformances, setNonconformances] = useState<Nonconformance[]>([]);
+  const [orders, setOrders] = useState<OrderOption[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [report, setReport] = useState<SignatureReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [chainStatus, setChainStatus] = useState<AuditChainStatus | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  useEffect(() => {
+    Promise.all([
+      QualityExecutionService.getNonconformances(),
+      supabase.from('production_orders').select('id, order_number, title').order('created_at', { ascending: false }),
+    ])
+      .then(([ncs, ordersRes]) => {
+        if (ordersRes.error) throw ordersRes.error;
+        setNonconformances(ncs);
+        setOrders((ordersRes.data || []) as OrderOption[]);
+      })
+      .catch(error => console.error('Error loading report subjects:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setReport(null);
+      return;
+    }
+    setLoading(true);
+    (subject === 'nonconformance'
+      ? ElectronicSignatureService.getNonconformanceReport(selectedId)
+      : ElectronicSignatureService.getProductionOrderReport(selectedId))
+      .then(setReport)
+      .catch(error => console.error('Error loading signature report:', error))
+      .finally(() => setLoading(false));
+  }, [subject, selectedId]);
+
+  const subjectLabel = () => {
+    if (subject === 'nonconformance') {
+      const nc = nonconformances.find(n => n.id === selectedId);
+      return { name: `Nonconformance ${nc?.nc_number || ''}`, description: nc?.title };
+    }
+    const order = orders.find(o => o.id === selectedId);
+    return { name: `Production Order ${order?.order_number || ''}`, description: order?.title || undefined };
+  };
+
+  const handleVerifyChain = async () => {
+    setVerifying(true);
+    try {
+      setChainStatus(await ElectronicSignatureService.verifyAuditChain());
+    } catch (error) {
+      console.error('Error verifying audit trail:', error);
+      alert(error instanceof Error ? error.message : 'Failed to verify audit trail');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <PenLine className="w-8 h-8 text-purple-600 dark:text-purple-400" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Electronic Signatures</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Signatures and audit trail for a nonconformance or production order
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleVerifyChain}
+          disabled={verifying}
+          className="flex items-center space-x-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          <ShieldCheck className="w-4 h-4" />
+          <span>{verifying ? 'Verifying...' : 'Verify Audit Trail'}</span>
+        </button>
+      </div>
+
+      {chainStatus && (
+        <div className={`card p-4 flex items-center space-x-2 text-sm ${
+          chainStatus.is_intact ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'
+        }`}>
+          {chainStatus.is_intact ? <ShieldCheck className="w-5 h-5" /> : <ShieldAlert className="w-5 h-5" />}
+          <span>
+            {chainStatus.is_intact
+              ? `Audit trail intact: ${chainStatus.entries_checked} entries verified`
+              : `Audit trail broken at entry #${chainStatus.broken_chain_seq} (${chainStatus.broken_entry_id}) after ${chainStatus.entries_checked} entries`}
+          </span>
+        </div>
+      )}
+
+      {/* Subject */}
+      <div className="card p-4 flex items-center space-x-3">
+        <select
+          value={subject}
+          onChange={(e) => {
+            setSubject(e.target.value as ReportSubject);
+            setSelectedId('');
+          }}
+          className={selectClass}
+        >
+          <option value="nonconformance">Nonconformance</option>
+          <option value="production_order">Production Order</option>
+        </select>
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className={`${selectClass} flex-1`}
+        >
+          <option value="">Select...</option>
+          {subject === 'nonconformance'
+            ? nonconformances.map(nc => (
+                <option key={nc.id} value={nc.id}>{nc.nc_number} – {nc.title}</option>
+              ))
+            : orders.map(order => (
+                <option key={order.id} value={order.id}>{order.order_number}{order.title ? ` – ${order.title}` : ''}</option>
+              ))}
+        </select>
+        <button
+          onClick={() => {
+            if (!report) return;
+            const { name, description } = subjectLabel();
+            SignatureReportPDF.generatePDF(name, description, report);
+          }}
+          disabled={!report}
+          className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+        >
+          <FileDown className="w-4 h-4" />
+          <span>PDF</span>
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+        </div>
+      ) : report && (
+        <>
+          {/* Signatures */}
+          <div className="card overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="font-semibold text-gray-900 dark:text-white">Signatures ({report.signatures.length})</h2>
+            </div>
+            {report.signatures.length === 0 ? (
+              <p className="p-8 text-center text-gray-500">No signatures recorded</p>
+            ) : (
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Signed</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Signer</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Meaning</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Record</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Reason</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {report.signatures.map(signature => (
+                    <tr key={signature.id}>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {new Date(signature.signed_at).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3">
+                        <p className="text-sm text-gray-900 dark:text-white">{signature.signer_name}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{signature.signer_email}</p>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {SIGNATURE_MEANINGS[signature.meaning]}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {signature.record_label || signature.record_type}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{signature.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Audit trail */}
+          <div className="card overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="font-semibold text-gray-900 dark:text-white">Audit Trail</h2>
+            </div>
+            {report.auditTrail.length === 0 ? (
+              <p className="p-8 text-center text-gray-500">No audit entries</p>
+            ) : (
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                {report.auditTrail.map(entry => (
+                  <div key={entry.id} className="p-4">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-gray-900 dark:text-white">
+                        {entry.action} {entry.entity_type.replace(/^quality_/, '').replace(/_/g, ' ')}
+                      </span>
+                      <span className="text-gray-500">
+                        {entry.performer?.full_name || 'System'} · {new Date(entry.performed_at).toLocaleString()}
+                      </span>
+                    </div>
+                    <div className="mt-2 space-y-1">
+                      {ElectronicSignatureService.getChanges(entry).map(change => (
+                        <div key={change.field} className="grid grid-cols-3 gap-2 text-xs">
+                          <span className="font-mono text-gray-600 dark:text-gray-400">{change.field}</span>
+                          <span className="text-red-700 dark:text-red-400 break-all">{formatValue(change.before)}</span>
+                          <span className="text-green-700 dark:text-green-400 break-all">{formatValue(change.after)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,715 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import {
+  Truck,
+  ShieldAlert,
+  ChevronDown,
+  ChevronRight,
+  AlertTriangle,
+  ClipboardCheck,
+  FileWarning,
+  X,
+} from 'lucide-react';
+import {
+  SupplierQualityService,
+  QuarantinedReceipt,
+  ReceiptInspectionStatus,
+  SupplierCorrectiveAction,
+  SCARStatus,
+  SCAR_RESPONSE_DAYS,
+} from '../../../services/SupplierQualityService';
+import {
+  QualityExecutionService,
+  DefectCode,
+  NCSeverity,
+} from '../../../services/QualityExecutionService';
+import { useAuth } from '../../../contexts/AuthContext';
+
+type Tab = 'quarantine' | 'scars';
+
+const RECEIPT_STATUS_STYLES: Partial<Record<ReceiptInspectionStatus, string>> = {
+  QUARANTINED: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  AWAITING_DISPOSITION: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const SCAR_STATUS_STYLES: Record<SCARStatus, string> = {
+  ISSUED: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  ACKNOWLEDGED: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300',
+  RESPONDED: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  ACCEPTED: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  REJECTED: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  CLOSED: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const formatDate = (value: string | null | undefined) =>
+  value ? new Date(value.length === 10 ? `${value}T00:00:00` : value).toLocaleDateString() : '—';
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ').toLowerCase();
+
+export function SupplierQualityView() {
+  const { profile } = useAuth();
+  const canManage = ['admin', 'dispatcher', 'supervisor'].includes(profile?.role || '');
+
+  const [activeTab, setActiveTab] = useState<Tab>('quarantine');
+  const [receipts, setReceipts] = useState<QuarantinedReceipt[]>([]);
+  const [scars, setScars] = useState<SupplierCorrectiveAction[]>([]);
+  const [defectCodes, setDefectCodes] = useState<DefectCode[]>([]);
+  const [showClosedScars, setShowClosedScars] = useState(false);
+  const [expandedScarId, setExpandedScarId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dispositionReceipt, setDispositionReceipt] = useState<QuarantinedReceipt | null>(null);
+  const [respondingScar, setRespondingScar] = useState<SupplierCorrectiveAction | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [receiptData, scarData, codes] = await Promise.all([
+        SupplierQualityService.getQuarantinedReceipts(),
+        SupplierQualityService.getSCARs({ openOnly: !showClosedScars }),
+        QualityExecutionService.getDefectCodes(),
+      ]);
+      setReceipts(receiptData);
+      setScars(scarData);
+      setDefectCodes(codes);
+    } catch (error) {
+      console.error('Error loading supplier quality data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [showClosedScars]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const runScarAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      loadData();
+    } catch (error) {
+      console.error(failure, error);
+      alert(error instanceof Error ? error.message : failure);
+    }
+  };
+
+  const handleReview = (scar: SupplierCorrectiveAction, accepted: boolean) => {
+    const notes = prompt(accepted ? 'Review notes (optional):' : 'Reason the response is rejected:');
+    if (notes === null) return;
+    runScarAction(() => SupplierQualityService.reviewSCAR(scar.id, accepted, notes || undefined), 'Failed to review SCAR');
+  };
+
+  const awaitingCount = receipts.filter(r => r.inspection_status === 'AWAITING_DISPOSITION').length;
+  const openScars = scars.filter(s => s.status !== 'ACCEPTED' && s.status !== 'CLOSED');
+  const overdueCount = openScars.filter(s => SupplierQualityService.isSCAROverdue(s)).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-3">
+        <Truck className="w-8 h-8 text-purple-600 dark:text-purple-400" />
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Supplier Quality</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Incoming inspection quarantine, supplier rejects and corrective action requests
+          </p>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-4 gap-4">
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <ClipboardCheck className="w-4 h-4 text-yellow-500" />
+            <span className="text-sm text-gray-500">In Inspection</span>
+          </div>
+          <p className="text-2xl font-bold text-yellow-600 dark:text-yellow-400">{receipts.length - awaitingCount}</p>
+        </div>
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <ShieldAlert className="w-4 h-4 text-red-500" />
+            <span className="text-sm text-gray-500">Awaiting Disposition</span>
+          </div>
+          <p className="text-2xl font-bold text-red-600 dark:text-red-400">{awaitingCount}</p>
+        </div>
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <FileWarning className="w-4 h-4 text-blue-500" />
+            <span className="text-sm text-gray-500">Open SCARs</span>
+          </div>
+          <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">{openScars.length}</p>
+        </div>
+        <div className="card p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <AlertTriangle className="w-4 h-4 text-red-500" />
+            <span className="text-sm text-gray-500">SCAR Response Overdue</span>
+          </div>
+          <p className="text-2xl font-bold text-red-600 dark:text-red-400">{overdueCount}</p>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200 dark:border-gray-700">
+        <nav className="flex space-x-6">
+          {([
+            ['quarantine', `Quarantine (${receipts.length})`],
+            ['scars', `Corrective Actions (${openScars.length})`],
+          ] as [Tab, string][]).map(([tab, label]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`py-3 text-sm font-medium border-b-2 ${
+                activeTab === tab
+                  ? 'border-purple-600 text-purple-600 dark:text-purple-400'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+        </div>
+      ) : activeTab === 'quarantine' ? (
+        <div className="card overflow-hidden">
+          {receipts.length === 0 ? (
+            <div className="p-12 text-center text-gray-500">
+              <ClipboardCheck className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No receipts in quarantine</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Received</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">PO / Vendor</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Part</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Qty</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Lot</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {receipts.map(receipt => (
+                  <tr key={receipt.id} className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                    <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{formatDate(receipt.receipt_date)}</td>
+                    <td className="px-4 py-3">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">{receipt.purchase_order?.po_number}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{receipt.purchase_order?.vendors?.name}</p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="text-sm text-gray-900 dark:text-white">{receipt.line?.parts?.part_number}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{receipt.line?.parts?.name}</p>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{Number(receipt.quantity_received)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{receipt.lot_number || '—'}</td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${RECEIPT_STATUS_STYLES[receipt.inspection_status] || ''}`}>
+                        {receipt.inspection_status === 'QUARANTINED'
+                          ? `Inspection ${formatStatus(receipt.inspection_run?.status || 'PENDING')}`
+                          : 'Failed - awaiting disposition'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {receipt.inspection_status === 'AWAITING_DISPOSITION' ? (
+                        canManage && (
+                          <button
+                            onClick={() => setDispositionReceipt(receipt)}
+                            className="px-3 py-1 bg-purple-600 text-white text-sm rounded hover:bg-purple-700"
+                          >
+                            Disposition
+                          </button>
+                        )
+                      ) : (
+                        <span className="text-xs text-gray-500">Inspect in Inspection Workbench</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={showClosedScars}
+              onChange={(e) => setShowClosedScars(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>Show accepted and closed</span>
+          </label>
+
+          <div className="card overflow-hidden">
+            {scars.length === 0 ? (
+              <div className="p-12 text-center text-gray-500">
+                <FileWarning className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                <p>No supplier corrective actions</p>
+              </div>
+            ) : (
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="w-8"></th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">SCAR</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Vendor</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Part</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Rejected</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Response Due</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {scars.map(scar => {
+                    const expanded = expandedScarId === scar.id;
+                    const overdue = SupplierQualityService.isSCAROverdue(scar);
+                    return (
+                      <Fragment key={scar.id}>
+                        <tr className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                          <td className="pl-4">
+                            <button
+                              onClick={() => setExpandedScarId(expanded ? null : scar.id)}
+                              className="text-gray-400 hover:text-gray-600"
+                            >
+                              {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                            </button>
+                          </td>
+                          <td className="px-4 py-3">
+                            <p className="text-sm font-medium text-gray-900 dark:text-white">{scar.scar_number}</p>
+                            {scar.nonconformance && (
+                              <p className="text-xs text-gray-500 dark:text-gray-400">{scar.nonconformance.nc_number}</p>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{scar.vendor?.name}</td>
+                          <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{scar.part?.part_number || '—'}</td>
+                          <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                            {scar.qty_rejected !== null && scar.qty_rejected !== undefined ? Number(scar.qty_rejected) : '—'}
+                          </td>
+                          <td className={`px-4 py-3 text-sm ${overdue ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-700 dark:text-gray-300'}`}>
+                            {formatDate(scar.response_due_date)}
+                            {overdue && <span className="block text-xs">Overdue</span>}
+                          </td>
+                          <td className="px-4 py-3">
+                            <span className={`px-2 py-1 text-xs font-medium rounded-full ${SCAR_STATUS_STYLES[scar.status]}`}>
+                              {formatStatus(scar.status)}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            {canManage && (
+                              <div className="flex items-center justify-end space-x-2">
+                                {scar.status === 'ISSUED' && (
+                                  <button
+                                    onClick={() => runScarAction(() => SupplierQualityService.acknowledgeSCAR(scar.id), 'Failed to acknowledge SCAR')}
+                                    className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                                  >
+                                    Acknowledge
+                                  </button>
+                                )}
+                                {['ISSUED', 'ACKNOWLEDGED', 'REJECTED'].includes(scar.status) && (
+                                  <button
+                                    onClick={() => setRespondingScar(scar)}
+                                    className="px-3 py-1 bg-purple-600 text-white text-sm rounded hover:bg-purple-700"
+                                  >
+                                    Record Response
+                                  </button>
+                                )}
+                                {scar.status === 'RESPONDED' && (
+                                  <>
+                                    <button
+                                      onClick={() => handleReview(scar, true)}
+                                      className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700"
+                                    >
+                                      Accept
+                                    </button>
+                                    <button
+                                      onClick={() => handleReview(scar, false)}
+                                      className="px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700"
+                                    >
+                                      Reject
+                                    </button>
+                                  </>
+                                )}
+                                {scar.status === 'ACCEPTED' && (
+                                  <button
+                                    onClick={() => runScarAction(() => SupplierQualityService.closeSCAR(scar.id), 'Failed to close SCAR')}
+                                    className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                                  >
+                                    Close
+                                  </button>
+                                )}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                        {expanded && (
+                          <tr>
+                            <td colSpan={8} className="px-12 py-4 bg-gray-50 dark:bg-gray-900/50 space-y-3 text-sm">
+                              <div>
+                                <p className="font-medium text-gray-700 dark:text-gray-300">Problem</p>
+                                <p className="text-gray-600 dark:text-gray-400 whitespace-pre-line">{scar.problem_description}</p>
+                              </div>
+                              {scar.responded_at ? (
+                                <div className="grid grid-cols-3 gap-4">
+                                  <div>
+                                    <p className="font-medium text-gray-700 dark:text-gray-300">Containment</p>
+                                    <p className="text-gray-600 dark:text-gray-400 whitespace-pre-line">{scar.containment_action}</p>
+                                  </div>
+                                  <div>
+                                    <p className="font-medium text-gray-700 dark:text-gray-300">Root Cause</p>
+                                    <p className="text-gray-600 dark:text-gray-400 whitespace-pre-line">{scar.root_cause}</p>
+                                  </div>
+                                  <div>
+                                    <p className="font-medium text-gray-700 dark:text-gray-300">Corrective Action</p>
+                                    <p className="text-gray-600 dark:text-gray-400 whitespace-pre-line">{scar.corrective_action}</p>
+                                  </div>
+                                </div>
+                              ) : (
+                                <p className="text-gray-500">No supplier response yet</p>
+                              )}
+                              {scar.review_notes && (
+                                <p className="text-gray-600 dark:text-gray-400">
+                                  <span className="font-medium text-gray-700 dark:text-gray-300">Review ({formatDate(scar.reviewed_at)}):</span>{' '}
+                                  {scar.review_notes}
+                                </p>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+
+      {dispositionReceipt && (
+        <ReceiptDispositionModal
+          receipt={dispositionReceipt}
+          defectCodes={defectCodes}
+          onClose={() => setDispositionReceipt(null)}
+          onSaved={() => {
+            setDispositionReceipt(null);
+            loadData();
+          }}
+        />
+      )}
+
+      {respondingScar && (
+        <SCARResponseModal
+          scar={respondingScar}
+          onClose={() => setRespondingScar(null)}
+          onSaved={() => {
+            setRespondingScar(null);
+            loadData();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// =====================================================
+// RECEIPT DISPOSITION MODAL
+// =====================================================
+
+interface ReceiptDispositionModalProps {
+  receipt: QuarantinedReceipt;
+  defectCodes: DefectCode[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function ReceiptDispositionModal({ receipt, defectCodes, onClose, onSaved }: ReceiptDispositionModalProps) {
+  const quantity = Number(receipt.quantity_received);
+  const serialized = !!receipt.line?.parts?.is_serialized;
+  const dueDate = new Date();
+  dueDate.setDate(dueDate.getDate() + SCAR_RESPONSE_DAYS);
+
+  const [form, setForm] = useState({
+    quantity_accepted: 0,
+    severity: 'MAJOR' as NCSeverity,
+    defect_code_id: '',
+    description: '',
+    response_due_date: dueDate.toISOString().split('T')[0],
+  });
+  const [rejectedSerials, setRejectedSerials] = useState<string[]>(
+    (receipt.serials || []).map(s => s.serial_number)
+  );
+  const [saving, setSaving] = useState(false);
+
+  const quantityRejected = quantity - form.quantity_accepted;
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  const toggleSerial = (serial: string) => {
+    const next = rejectedSerials.includes(serial)
+      ? rejectedSerials.filter(s => s !== serial)
+      : [...rejectedSerials, serial];
+    setRejectedSerials(next);
+    setForm({ ...form, quantity_accepted: quantity - next.length });
+  };
+
+  const handleSave = async () => {
+    if (quantityRejected > 0 && !form.description.trim()) {
+      alert('Describe the nonconformance for the rejected quantity');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await SupplierQualityService.dispositionReceipt(receipt.id, {
+        quantity_accepted: form.quantity_accepted,
+        rejected_serials: serialized ? rejectedSerials : undefined,
+        severity: form.severity,
+        defect_code_id: form.defect_code_id || undefined,
+        description: form.description,
+        response_due_date: form.response_due_date || undefined,
+      });
+      if (result.nonconformance && result.scar) {
+        alert(`${result.nonconformance.nc_number} and ${result.scar.scar_number} raised for ${quantityRejected} rejected.`);
+      }
+      onSaved();
+    } catch (error) {
+      console.error('Error dispositioning receipt:', error);
+      alert(error instanceof Error ? error.message : 'Failed to disposition receipt');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg mx-4">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Disposition Receipt – {receipt.purchase_order?.po_number}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {receipt.line?.parts?.part_number} – {receipt.line?.parts?.name}: {quantity} received
+            {receipt.lot_number ? `, lot ${receipt.lot_number}` : ''}. Accepted units go into stock; rejected
+            units are returned to {receipt.purchase_order?.vendors?.name || 'the vendor'}.
+          </p>
+
+          {serialized ? (
+            <div>
+              <label className={labelClass}>Rejected Serial Numbers</label>
+              <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+                {(receipt.serials || []).map(({ serial_number }) => (
+                  <label key={serial_number} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={rejectedSerials.includes(serial_number)}
+                      onChange={() => toggleSerial(serial_number)}
+                      className="rounded border-gray-300"
+                    />
+                    <span>{serial_number}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Quantity Accepted</label>
+                <input
+                  type="number"
+                  min="0"
+                  max={quantity}
+                  value={form.quantity_accepted}
+                  onChange={(e) => setForm({
+                    ...form,
+                    quantity_accepted: Math.min(Math.max(0, parseFloat(e.target.value) || 0), quantity),
+                  })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Quantity Rejected</label>
+                <p className="px-3 py-2 text-sm font-medium text-red-600">{quantityRejected}</p>
+              </div>
+            </div>
+          )}
+
+          {quantityRejected > 0 && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Severity</label>
+                  <select
+                    value={form.severity}
+                    onChange={(e) => setForm({ ...form, severity: e.target.value as NCSeverity })}
+                    className={inputClass}
+                  >
+                    <option value="MINOR">Minor</option>
+                    <option value="MAJOR">Major</option>
+                    <option value="CRITICAL">Critical</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Defect Code</label>
+                  <select
+                    value={form.defect_code_id}
+                    onChange={(e) => setForm({ ...form, defect_code_id: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">None</option>
+                    {defectCodes.map(code => (
+                      <option key={code.id} value={code.id}>{code.code} – {code.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Nonconformance *</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  rows={3}
+                  placeholder="What is wrong with the rejected material"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>SCAR Response Due</label>
+                <input
+                  type="date"
+                  value={form.response_due_date}
+                  onChange={(e) => setForm({ ...form, response_due_date: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <p className="text-sm text-red-600">
+                A supplier NC with a return-to-vendor disposition and a SCAR will be raised.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-400">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Disposition'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =====================================================
+// SCAR RESPONSE MODAL
+// =====================================================
+
+interface SCARResponseModalProps {
+  scar: SupplierCorrectiveAction;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function SCARResponseModal({ scar, onClose, onSaved }: SCARResponseModalProps) {
+  const [form, setForm] = useState({
+    containment_action: scar.containment_action || '',
+    root_cause: scar.root_cause || '',
+    corrective_action: scar.corrective_action || '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await SupplierQualityService.recordSCARResponse(scar.id, form);
+      onSaved();
+    } catch (error) {
+      console.error('Error recording SCAR response:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record response');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg mx-4">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Supplier Response – {scar.scar_number}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {scar.status === 'REJECTED' && scar.review_notes && (
+            <p className="text-sm text-red-600">Previous response rejected: {scar.review_notes}</p>
+          )}
+          <div>
+            <label className={labelClass}>Containment Action *</label>
+            <textarea
+              value={form.containment_action}
+              onChange={(e) => setForm({ ...form, containment_action: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Root Cause *</label>
+            <textarea
+              value={form.root_cause}
+              onChange={(e) => setForm({ ...form, root_cause: e.target.value })}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Corrective Action *</label>
+            <textarea
+              value={form.corrective_action}
+              onChange={(e) => setForm({ ...form, corrective_action: e.target.value })}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-400">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Record Response'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
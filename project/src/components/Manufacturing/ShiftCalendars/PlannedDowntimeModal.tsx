@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react';
+import { X, Wrench } from 'lucide-react';
+import { supabase } from '../../../lib/supabase';
+import { ShiftCalendarService } from '../../../services/ShiftCalendarService';
+import { DowntimeService, DowntimeReason } from '../../../services/DowntimeService';
+import { WorkCenter } from '../../../services/ManufacturingService';
+
+interface EquipmentOption {
+  id: string;
+  name: string;
+  work_center_id: string;
+}
+
+interface PlannedDowntimeModalProps {
+  calendarId: string;
+  calendarName: string;
+  workCenters: WorkCenter[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// datetime-local expects local time without a zone
+const toLocalInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+export function PlannedDowntimeModal({
+  calendarId,
+  calendarName,
+  workCenters,
+  onClose,
+  onSaved,
+}: PlannedDowntimeModalProps) {
+  const [reasons, setReasons] = useState<DowntimeReason[]>([]);
+  const [equipment, setEquipment] = useState<EquipmentOption[]>([]);
+  const [workCenterId, setWorkCenterId] = useState('');
+  const [equipmentId, setEquipmentId] = useState('');
+  const [reasonId, setReasonId] = useState('');
+  const [description, setDescription] = useState('');
+  const [startTs, setStartTs] = useState(() => {
+    const start = new Date();
+    start.setMinutes(0, 0, 0);
+    start.setHours(start.getHours() + 1);
+    return toLocalInput(start);
+  });
+  const [endTs, setEndTs] = useState(() => {
+    const end = new Date();
+    end.setMinutes(0, 0, 0);
+    end.setHours(end.getHours() + 3);
+    return toLocalInput(end);
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const [plannedReasons, { data: assets }] = await Promise.all([
+        DowntimeService.getReasons(true),
+        supabase.from('equipment_assets').select('id, name, work_center_id').eq('is_active', true).order('name'),
+      ]);
+      setReasons(plannedReasons.filter(r => r.category === 'planned'));
+      setEquipment((assets as unknown as EquipmentOption[]) || []);
+    };
+    load();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+    try {
+      const result = await ShiftCalendarService.createPlannedDowntime({
+        // Calendar-wide unless a work center or asset is picked
+        calendar_id: workCenterId || equipmentId ? undefined : calendarId,
+        work_center_id: workCenterId || undefined,
+        equipment_asset_id: equipmentId || undefined,
+        start_ts: new Date(startTs).toISOString(),
+        end_ts: new Date(endTs).toISOString(),
+        reason_code_id: reasonId || undefined,
+        description: description || undefined,
+      });
+      if (!result.success) {
+        setError(result.error || 'Failed to schedule downtime');
+        return;
+      }
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const equipmentOptions = workCenterId
+    ? equipment.filter(eq => eq.work_center_id === workCenterId)
+    : equipment;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <Wrench className="w-6 h-6 text-orange-600" />
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Schedule Planned Downtime</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Work Center</label>
+            <select
+              value={workCenterId}
+              onChange={(e) => {
+                setWorkCenterId(e.target.value);
+                setEquipmentId('');
+              }}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All work centers on {calendarName}</option>
+              {workCenters.map((wc) => (
+                <option key={wc.id} value={wc.id}>
+                  {wc.code} - {wc.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Equipment</label>
+            <select
+              value={equipmentId}
+              onChange={(e) => setEquipmentId(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Whole work center</option>
+              {equipmentOptions.map((eq) => (
+                <option key={eq.id} value={eq.id}>
+                  {eq.name}
+                </option>
+              ))}
+            </select>
+            {equipmentId && (
+              <p className="text-xs text-gray-500 mt-1">
+                Equipment-level windows classify that asset's stops as planned but do not reduce work center capacity.
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Start *</label>
+              <input
+                type="datetime-local"
+                value={startTs}
+                onChange={(e) => setStartTs(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">End *</label>
+              <input
+                type="datetime-local"
+                value={endTs}
+                onChange={(e) => setEndTs(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Reason</label>
+            <select
+              value={reasonId}
+              onChange={(e) => setReasonId(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Select reason...</option>
+              {reasons.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.code} - {r.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g., Quarterly PM on press line"
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex items-center justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Schedule'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
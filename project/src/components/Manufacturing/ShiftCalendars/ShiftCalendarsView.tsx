@@ -0,0 +1,572 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CalendarClock, Plus, Edit, Trash2, Star, CalendarOff, Wrench, Layers } from 'lucide-react';
+import {
+  ShiftCalendarService,
+  ShiftCalendar,
+  ShiftPattern,
+  ShiftHoliday,
+  PlannedDowntimeWindow,
+} from '../../../services/ShiftCalendarService';
+import { ManufacturingService, WorkCenter } from '../../../services/ManufacturingService';
+import { ShiftPatternModal } from './ShiftPatternModal';
+import { PlannedDowntimeModal } from './PlannedDowntimeModal';
+import { useAuth } from '../../../contexts/AuthContext';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatDays = (days: number[]) => {
+  const key = days.join(',');
+  if (key === '1,2,3,4,5') return 'Mon-Fri';
+  if (key === '1,2,3,4,5,6') return 'Mon-Sat';
+  if (key === '0,1,2,3,4,5,6') return 'Every day';
+  return days.map(d => DAY_LABELS[d]).join(', ');
+};
+
+const toMinutes = (t: string) => {
+  const [h, m] = t.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Net hours per day: shift length minus breaks
+const netHours = (p: ShiftPattern) => {
+  let minutes = toMinutes(p.end_time) - toMinutes(p.start_time);
+  if (minutes <= 0) minutes += 24 * 60;
+  for (const b of p.breaks) {
+    let length = toMinutes(b.end_time) - toMinutes(b.start_time);
+    if (length < 0) length += 24 * 60;
+    minutes -= length;
+  }
+  return Math.max(0, minutes) / 60;
+};
+
+export function ShiftCalendarsView() {
+  const { profile } = useAuth();
+  const [calendars, setCalendars] = useState<ShiftCalendar[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [patterns, setPatterns] = useState<ShiftPattern[]>([]);
+  const [holidays, setHolidays] = useState<ShiftHoliday[]>([]);
+  const [downtime, setDowntime] = useState<PlannedDowntimeWindow[]>([]);
+  const [workCenters, setWorkCenters] = useState<WorkCenter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingPattern, setEditingPattern] = useState<ShiftPattern | null>(null);
+  const [showPatternModal, setShowPatternModal] = useState(false);
+  const [showDowntimeModal, setShowDowntimeModal] = useState(false);
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayName, setHolidayName] = useState('');
+  const [holidayPlantWide, setHolidayPlantWide] = useState(false);
+
+  const canManage = profile?.role === 'admin';
+  const canPlanDowntime = profile?.role === 'admin' || profile?.role === 'dispatcher';
+
+  const selected = calendars.find(c => c.id === selectedId) || null;
+
+  const loadCalendars = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [allCalendars, wcs, upcoming] = await Promise.all([
+        ShiftCalendarService.getCalendars(),
+        ManufacturingService.getWorkCenters(true),
+        ShiftCalendarService.getPlannedDowntime({ from: new Date().toISOString() }),
+      ]);
+      setCalendars(allCalendars);
+      setWorkCenters(wcs);
+      setDowntime(upcoming);
+      setSelectedId(prev =>
+        prev && allCalendars.some(c => c.id === prev)
+          ? prev
+          : (allCalendars.find(c => c.is_default) || allCalendars[0])?.id ?? null
+      );
+    } catch (error) {
+      console.error('Error loading shift calendars:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadCalendarDetail = useCallback(async () => {
+    if (!selectedId) {
+      setPatterns([]);
+      setHolidays([]);
+      return;
+    }
+    const [calendarPatterns, calendarHolidays] = await Promise.all([
+      ShiftCalendarService.getShiftPatterns(selectedId),
+      ShiftCalendarService.getHolidays(selectedId),
+    ]);
+    setPatterns(calendarPatterns);
+    setHolidays(calendarHolidays);
+  }, [selectedId]);
+
+  useEffect(() => {
+    loadCalendars();
+  }, [loadCalendars]);
+
+  useEffect(() => {
+    loadCalendarDetail();
+  }, [loadCalendarDetail]);
+
+  const handleCreateCalendar = async () => {
+    const name = prompt('Calendar name (e.g., "Two-Shift Line"):');
+    if (!name?.trim()) return;
+
+    const result = await ShiftCalendarService.createCalendar({
+      name: name.trim(),
+      is_default: calendars.length === 0,
+    });
+    if (!result.success) {
+      alert(result.error || 'Failed to create calendar');
+      return;
+    }
+    if (result.calendar) setSelectedId(result.calendar.id);
+    loadCalendars();
+  };
+
+  const handleUpdateCalendar = async (updates: Partial<ShiftCalendar>) => {
+    if (!selected) return;
+    const result = await ShiftCalendarService.updateCalendar(selected.id, updates);
+    if (!result.success) {
+      alert(result.error || 'Failed to update calendar');
+      return;
+    }
+    loadCalendars();
+  };
+
+  const handleDeletePattern = async (pattern: ShiftPattern) => {
+    if (!selected || !confirm(`Delete ${pattern.shift_name}?`)) return;
+    const result = await ShiftCalendarService.deleteShiftPattern(selected.id, pattern.shift_name);
+    if (!result.success) {
+      alert(result.error || 'Failed to delete shift');
+      return;
+    }
+    loadCalendarDetail();
+  };
+
+  const handleAddHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !holidayDate || !holidayName.trim()) return;
+    const result = await ShiftCalendarService.addHoliday(
+      holidayPlantWide ? null : selected.id,
+      holidayDate,
+      holidayName.trim()
+    );
+    if (!result.success) {
+      alert(result.error || 'Failed to add holiday');
+      return;
+    }
+    setHolidayDate('');
+    setHolidayName('');
+    loadCalendarDetail();
+  };
+
+  const handleDeleteHoliday = async (holiday: ShiftHoliday) => {
+    if (!confirm(`Remove ${holiday.name}?`)) return;
+    const result = await ShiftCalendarService.deleteHoliday(holiday.id);
+    if (!result.success) {
+      alert(result.error || 'Failed to remove holiday');
+      return;
+    }
+    loadCalendarDetail();
+  };
+
+  const handleDeleteDowntime = async (window: PlannedDowntimeWindow) => {
+    if (!confirm('Cancel this planned downtime?')) return;
+    const result = await ShiftCalendarService.deletePlannedDowntime(window.id);
+    if (!result.success) {
+      alert(result.error || 'Failed to cancel planned downtime');
+      return;
+    }
+    loadCalendars();
+  };
+
+  const handleAssign = async (workCenterId: string, calendarId: string) => {
+    const result = await ShiftCalendarService.assignCalendar(workCenterId, calendarId || null);
+    if (!result.success) {
+      alert(result.error || 'Failed to assign calendar');
+      return;
+    }
+    setWorkCenters(prev => prev.map(wc => (wc.id === workCenterId ? { ...wc, shift_calendar_id: calendarId || null } : wc)));
+  };
+
+  const calendarName = (id: string | null) => calendars.find(c => c.id === id)?.name;
+
+  const downtimeScope = (w: PlannedDowntimeWindow) => {
+    if (w.equipment_name) return w.equipment_name;
+    if (w.work_center_name) return w.work_center_name;
+    return w.calendar_id ? `All on ${calendarName(w.calendar_id) || 'calendar'}` : 'Plant-wide';
+  };
+
+  const formatTs = (value: string) =>
+    new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  if (loading && calendars.length === 0) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const weeklyHours = patterns.reduce((sum, p) => sum + netHours(p) * p.days_of_week.length, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <CalendarClock className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Shift Calendars</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Shifts, breaks, holidays and planned downtime that define planned production time
+            </p>
+          </div>
+        </div>
+        {canManage && (
+          <button
+            onClick={handleCreateCalendar}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Calendar</span>
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Calendar list */}
+        <div className="card lg:col-span-1 overflow-hidden">
+          {calendars.length === 0 ? (
+            <div className="p-6 text-center text-gray-500">
+              <CalendarClock className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No shift calendars. Work centers use their hours per day setting.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {calendars.map((cal) => (
+                <button
+                  key={cal.id}
+                  onClick={() => setSelectedId(cal.id)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 ${
+                    cal.id === selectedId ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className={`font-medium ${cal.is_active ? 'text-gray-900 dark:text-white' : 'text-gray-400 line-through'}`}>
+                      {cal.name}
+                    </span>
+                    {cal.is_default && <Star className="w-4 h-4 text-yellow-500 fill-yellow-500" />}
+                  </div>
+                  <p className="text-xs text-gray-500">{cal.timezone || 'UTC'}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Calendar detail */}
+        {selected && (
+          <div className="lg:col-span-3 space-y-6">
+            <div className="card p-4 flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{selected.name}</h2>
+                <p className="text-sm text-gray-500">
+                  {selected.timezone || 'UTC'} · {weeklyHours.toFixed(1)}h planned per week
+                  {selected.is_default && ' · Plant default'}
+                </p>
+              </div>
+              {canManage && (
+                <div className="flex items-center space-x-2">
+                  {!selected.is_default && selected.is_active && (
+                    <button
+                      onClick={() => handleUpdateCalendar({ is_default: true })}
+                      className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      Set as Default
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      const tz = prompt('Timezone (IANA name):', selected.timezone || 'UTC');
+                      if (tz?.trim()) handleUpdateCalendar({ timezone: tz.trim() });
+                    }}
+                    className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    Timezone
+                  </button>
+                  <button
+                    onClick={() => handleUpdateCalendar({ is_active: !selected.is_active, is_default: false })}
+                    className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    {selected.is_active ? 'Deactivate' : 'Activate'}
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Shifts */}
+            <div className="card overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+                <h3 className="font-semibold text-gray-900 dark:text-white">Shifts</h3>
+                {canManage && (
+                  <button
+                    onClick={() => {
+                      setEditingPattern(null);
+                      setShowPatternModal(true);
+                    }}
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Shift
+                  </button>
+                )}
+              </div>
+              {patterns.length === 0 ? (
+                <div className="p-6 text-center text-gray-500">
+                  No shifts defined. Work centers on this calendar use their hours per day setting.
+                </div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-800">
+                    <tr className="text-left text-gray-500 dark:text-gray-400">
+                      <th className="px-4 py-2">Shift</th>
+                      <th className="px-4 py-2">Days</th>
+                      <th className="px-4 py-2">Hours</th>
+                      <th className="px-4 py-2">Breaks</th>
+                      <th className="px-4 py-2 text-right">Net / Day</th>
+                      {canManage && <th className="px-4 py-2"></th>}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {patterns.map((p) => (
+                      <tr key={p.shift_name}>
+                        <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{p.shift_name}</td>
+                        <td className="px-4 py-2 text-gray-600 dark:text-gray-300">{formatDays(p.days_of_week)}</td>
+                        <td className="px-4 py-2 text-gray-600 dark:text-gray-300">
+                          {p.start_time} – {p.end_time}
+                          {p.end_time <= p.start_time && <span className="ml-1 text-xs text-gray-400">(+1 day)</span>}
+                        </td>
+                        <td className="px-4 py-2 text-gray-600 dark:text-gray-300">
+                          {p.breaks.length === 0
+                            ? '-'
+                            : p.breaks.map(b => `${b.name} ${b.start_time}-${b.end_time}`).join(', ')}
+                        </td>
+                        <td className="px-4 py-2 text-right text-gray-900 dark:text-white">{netHours(p).toFixed(2)}h</td>
+                        {canManage && (
+                          <td className="px-4 py-2 text-right whitespace-nowrap">
+                            <button
+                              onClick={() => {
+                                setEditingPattern(p);
+                                setShowPatternModal(true);
+                              }}
+                              className="p-1 text-gray-400 hover:text-blue-600"
+                            >
+                              <Edit className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDeletePattern(p)}
+                              className="p-1 text-gray-400 hover:text-red-600"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              {/* Holidays */}
+              <div className="card overflow-hidden">
+                <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center space-x-2">
+                  <CalendarOff className="w-4 h-4 text-red-500" />
+                  <h3 className="font-semibold text-gray-900 dark:text-white">Holidays</h3>
+                </div>
+                {canManage && (
+                  <form onSubmit={handleAddHoliday} className="p-4 border-b border-gray-200 dark:border-gray-700 space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="date"
+                        value={holidayDate}
+                        onChange={(e) => setHolidayDate(e.target.value)}
+                        className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                      />
+                      <input
+                        type="text"
+                        value={holidayName}
+                        onChange={(e) => setHolidayName(e.target.value)}
+                        placeholder="Holiday name"
+                        className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                      />
+                      <button
+                        type="submit"
+                        disabled={!holidayDate || !holidayName.trim()}
+                        className="p-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={holidayPlantWide}
+                        onChange={(e) => setHolidayPlantWide(e.target.checked)}
+                      />
+                      <span>Applies to all calendars</span>
+                    </label>
+                  </form>
+                )}
+                {holidays.length === 0 ? (
+                  <div className="p-6 text-center text-gray-500">No holidays</div>
+                ) : (
+                  <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {holidays.map((h) => (
+                      <div key={h.id} className="px-4 py-2 flex items-center justify-between text-sm">
+                        <div>
+                          <span className="text-gray-900 dark:text-white">
+                            {new Date(`${h.holiday_date}T00:00:00`).toLocaleDateString('en-US', {
+                              weekday: 'short',
+                              month: 'short',
+                              day: 'numeric',
+                              year: 'numeric',
+                            })}
+                          </span>
+                          <span className="ml-2 text-gray-600 dark:text-gray-300">{h.name}</span>
+                          {!h.calendar_id && <span className="ml-2 text-xs text-gray-400">All calendars</span>}
+                        </div>
+                        {canManage && (
+                          <button
+                            onClick={() => handleDeleteHoliday(h)}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Work center assignment */}
+              <div className="card overflow-hidden">
+                <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center space-x-2">
+                  <Layers className="w-4 h-4 text-blue-600" />
+                  <h3 className="font-semibold text-gray-900 dark:text-white">Work Centers</h3>
+                </div>
+                <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {workCenters.map((wc) => (
+                    <div key={wc.id} className="px-4 py-2 flex items-center justify-between text-sm">
+                      <span className="text-gray-900 dark:text-white">
+                        {wc.code} - {wc.name}
+                      </span>
+                      {canManage ? (
+                        <select
+                          value={wc.shift_calendar_id || ''}
+                          onChange={(e) => handleAssign(wc.id, e.target.value)}
+                          className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        >
+                          <option value="">Default</option>
+                          {calendars.filter(c => c.is_active).map((c) => (
+                            <option key={c.id} value={c.id}>
+                              {c.name}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-gray-500">{calendarName(wc.shift_calendar_id ?? null) || 'Default'}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Planned downtime */}
+      <div className="card overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Wrench className="w-4 h-4 text-orange-600" />
+            <h3 className="font-semibold text-gray-900 dark:text-white">Upcoming Planned Downtime</h3>
+          </div>
+          {canPlanDowntime && selected && (
+            <button
+              onClick={() => setShowDowntimeModal(true)}
+              className="flex items-center text-sm text-orange-600 hover:text-orange-700"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Schedule Downtime
+            </button>
+          )}
+        </div>
+        {downtime.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No planned downtime scheduled</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-800">
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="px-4 py-2">When</th>
+                <th className="px-4 py-2">Scope</th>
+                <th className="px-4 py-2">Reason</th>
+                <th className="px-4 py-2">Description</th>
+                {canPlanDowntime && <th className="px-4 py-2"></th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {downtime.map((w) => (
+                <tr key={w.id}>
+                  <td className="px-4 py-2 text-gray-900 dark:text-white">
+                    {formatTs(w.start_ts)} – {formatTs(w.end_ts)}
+                  </td>
+                  <td className="px-4 py-2 text-gray-600 dark:text-gray-300">{downtimeScope(w)}</td>
+                  <td className="px-4 py-2 text-gray-600 dark:text-gray-300">{w.reason_name || '-'}</td>
+                  <td className="px-4 py-2 text-gray-600 dark:text-gray-300">{w.description || '-'}</td>
+                  {canPlanDowntime && (
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => handleDeleteDowntime(w)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showPatternModal && selected && (
+        <ShiftPatternModal
+          calendarId={selected.id}
+          pattern={editingPattern}
+          onClose={() => setShowPatternModal(false)}
+          onSaved={() => {
+            setShowPatternModal(false);
+            loadCalendarDetail();
+          }}
+        />
+      )}
+
+      {showDowntimeModal && selected && (
+        <PlannedDowntimeModal
+          calendarId={selected.id}
+          calendarName={selected.name}
+          workCenters={workCenters}
+          onClose={() => setShowDowntimeModal(false)}
+          onSaved={() => {
+            setShowDowntimeModal(false);
+            loadCalendars();
+          }}
+        />
+      )}
+    </div>
+  );
+}
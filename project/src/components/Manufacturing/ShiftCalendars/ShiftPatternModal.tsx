@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { X, Clock, Plus, Trash2 } from 'lucide-react';
+import { ShiftCalendarService, ShiftPattern } from '../../../services/ShiftCalendarService';
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface ShiftPatternModalProps {
+  calendarId: string;
+  pattern: ShiftPattern | null; // null = new shift
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function ShiftPatternModal({ calendarId, pattern, onClose, onSaved }: ShiftPatternModalProps) {
+  const [form, setForm] = useState<ShiftPattern>(() => pattern
+    ? { ...pattern, days_of_week: [...pattern.days_of_week], breaks: pattern.breaks.map(b => ({ ...b })) }
+    : { shift_name: '', days_of_week: [1, 2, 3, 4, 5], start_time: '06:00', end_time: '14:00', breaks: [] });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleDay = (day: number) => {
+    setForm(prev => ({
+      ...prev,
+      days_of_week: prev.days_of_week.includes(day)
+        ? prev.days_of_week.filter(d => d !== day)
+        : [...prev.days_of_week, day].sort((a, b) => a - b),
+    }));
+  };
+
+  const updateBreak = (index: number, field: 'name' | 'start_time' | 'end_time', value: string) => {
+    setForm(prev => ({
+      ...prev,
+      breaks: prev.breaks.map((b, i) => (i === index ? { ...b, [field]: value } : b)),
+    }));
+  };
+
+  const shiftMinutes = (() => {
+    const toMinutes = (t: string) => {
+      const [h, m] = t.split(':').map(Number);
+      return h * 60 + m;
+    };
+    let total = toMinutes(form.end_time) - toMinutes(form.start_time);
+    if (total <= 0) total += 24 * 60;
+    const breakMinutes = form.breaks.reduce((sum, b) => {
+      let length = toMinutes(b.end_time) - toMinutes(b.start_time);
+      if (length < 0) length += 24 * 60;
+      return sum + length;
+    }, 0);
+    return Math.max(0, total - breakMinutes);
+  })();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+    try {
+      const result = await ShiftCalendarService.saveShiftPattern(calendarId, form, pattern?.shift_name);
+      if (!result.success) {
+        setError(result.error || 'Failed to save shift');
+        return;
+      }
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <Clock className="w-6 h-6 text-blue-600" />
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+              {pattern ? 'Edit Shift' : 'Add Shift'}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Shift Name *</label>
+            <input
+              type="text"
+              value={form.shift_name}
+              onChange={(e) => setForm(prev => ({ ...prev, shift_name: e.target.value }))}
+              placeholder="e.g., 1st Shift"
+              required
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Days</label>
+            <div className="flex flex-wrap gap-2">
+              {DAYS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleDay(day)}
+                  className={`px-3 py-1 text-sm rounded-lg border ${
+                    form.days_of_week.includes(day)
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Start</label>
+              <input
+                type="time"
+                value={form.start_time}
+                onChange={(e) => setForm(prev => ({ ...prev, start_time: e.target.value }))}
+                required
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">End</label>
+              <input
+                type="time"
+                value={form.end_time}
+                onChange={(e) => setForm(prev => ({ ...prev, end_time: e.target.value }))}
+                required
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          {form.end_time <= form.start_time && (
+            <p className="text-xs text-gray-500">Ends the next day (overnight shift)</p>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Breaks</label>
+              <button
+                type="button"
+                onClick={() => setForm(prev => ({
+                  ...prev,
+                  breaks: [...prev.breaks, { name: 'Break', start_time: prev.start_time, end_time: prev.start_time }],
+                }))}
+                className="flex items-center text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Break
+              </button>
+            </div>
+            {form.breaks.length === 0 ? (
+              <p className="text-sm text-gray-500">No breaks</p>
+            ) : (
+              <div className="space-y-2">
+                {form.breaks.map((b, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={b.name}
+                      onChange={(e) => updateBreak(index, 'name', e.target.value)}
+                      className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+                    <input
+                      type="time"
+                      value={b.start_time}
+                      onChange={(e) => updateBreak(index, 'start_time', e.target.value)}
+                      className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+                    <span className="text-gray-400">–</span>
+                    <input
+                      type="time"
+                      value={b.end_time}
+                      onChange={(e) => updateBreak(index, 'end_time', e.target.value)}
+                      className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setForm(prev => ({ ...prev, breaks: prev.breaks.filter((_, i) => i !== index) }))}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Planned production time: <span className="font-medium">{(shiftMinutes / 60).toFixed(2)}h</span> per day
+          </p>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex items-center justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Shift'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
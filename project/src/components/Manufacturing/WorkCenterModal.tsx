@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { X, Factory, Clock, Calendar, Save, AlertCircle } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { ShiftCalendarService, ShiftCalendar } from '../../services/ShiftCalendarService';
 
 interface WorkCenterData {
   id: string;
@@ -10,6 +11,7 @@ interface WorkCenterData {
   hours_per_day: number;
   days_per_week: number;
   ideal_cycle_time_seconds: number | null;
+  shift_calendar_id: string | null;
   is_active: boolean;
 }
 
@@ -29,10 +31,12 @@ export function WorkCenterModal({
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [workCenter, setWorkCenter] = useState<WorkCenterData | null>(null);
+  const [calendars, setCalendars] = useState<ShiftCalendar[]>([]);
   const [formData, setFormData] = useState({
     hours_per_day: 8,
     days_per_week: 5,
     ideal_cycle_time_seconds: null as number | null,
+    shift_calendar_id: '' as string,
   });
 
   const loadWorkCenter = useCallback(async () => {
@@ -40,20 +44,26 @@ export function WorkCenterModal({
       setLoading(true);
       setError(null);
 
-      const { data, error: fetchError } = await supabase
-        .from('work_centers')
-        .select('id, name, code, description, hours_per_day, days_per_week, ideal_cycle_time_seconds, is_active')
-        .eq('id', workCenterId)
-        .single();
+      const [{ data, error: fetchError }, activeCalendars] = await Promise.all([
+        supabase
+          .from('work_centers')
+          .select('id, name, code, description, hours_per_day, days_per_week, ideal_cycle_time_seconds, shift_calendar_id, is_active')
+          .eq('id', workCenterId)
+          .single(),
+        ShiftCalendarService.getCalendars(true),
+      ]);
 
       if (fetchError) throw fetchError;
 
+      setCalendars(activeCalendars);
       if (data) {
-        setWorkCenter(data as WorkCenterData);
+        const wc = data as unknown as WorkCenterData;
+        setWorkCenter(wc);
         setFormData({
-          hours_per_day: data.hours_per_day ?? 8,
-          days_per_week: data.days_per_week ?? 5,
-          ideal_cycle_time_seconds: data.ideal_cycle_time_seconds,
+          hours_per_day: wc.hours_per_day ?? 8,
+          days_per_week: wc.days_per_week ?? 5,
+          ideal_cycle_time_seconds: wc.ideal_cycle_time_seconds,
+          shift_calendar_id: wc.shift_calendar_id ?? '',
         });
       }
     } catch (err) {
@@ -81,6 +91,7 @@ export function WorkCenterModal({
           hours_per_day: formData.hours_per_day,
           days_per_week: formData.days_per_week,
           ideal_cycle_time_seconds: formData.ideal_cycle_time_seconds,
+          shift_calendar_id: formData.shift_calendar_id || null,
         })
         .eq('id', workCenterId);
 
@@ -159,6 +170,36 @@ export function WorkCenterModal({
                   Configure operating hours for accurate OEE calculations
                 </p>
 
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Shift Calendar
+                  </label>
+                  <select
+                    value={formData.shift_calendar_id}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        shift_calendar_id: e.target.value,
+                      }))
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">
+                      {calendars.find((c) => c.is_default)
+                        ? `Plant default (${calendars.find((c) => c.is_default)?.name})`
+                        : 'None - use hours below'}
+                    </option>
+                    {calendars.map((cal) => (
+                      <option key={cal.id} value={cal.id}>
+                        {cal.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Shifts, breaks and holidays define planned production time. Hours below apply only when the calendar has no shifts.
+                  </p>
+                </div>
+
                 <div className="grid grid-cols-2 gap-4">
                   {/* Hours per Day */}
                   <div>
@@ -0,0 +1,286 @@
+import { useState, useEffect } from 'react';
+import { X, PackagePlus } from 'lucide-react';
+import { supabase } from '../../../lib/supabase';
+import { ManufacturingService } from '../../../services/ManufacturingService';
+import {
+  MESInventoryService,
+  ProductionReceipt,
+  ProductionOrderCost,
+} from '../../../services/MESInventoryService';
+
+interface StockLocation {
+  id: string;
+  name: string;
+}
+
+interface FinishedGoodsReceiptModalProps {
+  orderId: string;
+  orderNumber: string;
+  quantityOrdered: number;
+  // 'complete' receives the remainder and closes the order; 'partial' only posts a receipt
+  mode: 'complete' | 'partial';
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function FinishedGoodsReceiptModal({
+  orderId,
+  orderNumber,
+  quantityOrdered,
+  mode,
+  onClose,
+  onSaved,
+}: FinishedGoodsReceiptModalProps) {
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [receipts, setReceipts] = useState<ProductionReceipt[]>([]);
+  const [cost, setCost] = useState<ProductionOrderCost | null>(null);
+  const [locationId, setLocationId] = useState('');
+  const [qty, setQty] = useState(1);
+  const [notes, setNotes] = useState('');
+  const [lotNumber, setLotNumber] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const receivedQty = cost?.received_qty ?? 0;
+  const remainingQty = Math.max(0, quantityOrdered - receivedQty);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [locationsRes, orderCost, orderReceipts] = await Promise.all([
+          supabase.from('stock_locations').select('id, name').eq('is_active', true).order('name'),
+          MESInventoryService.getOrderCost(orderId),
+          MESInventoryService.getReceipts(orderId),
+        ]);
+
+        setLocations((locationsRes.data as unknown as StockLocation[]) || []);
+        setCost(orderCost);
+        setReceipts(orderReceipts);
+        // Default to the bin used last time
+        if (orderReceipts[0]) {
+          setLocationId(orderReceipts[0].stock_location_id);
+        }
+        const remaining = Math.max(0, quantityOrdered - (orderCost?.received_qty ?? 0));
+        setQty(mode === 'complete' ? remaining : Math.min(1, remaining));
+      } catch (err) {
+        console.error('Error loading receipt data:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [orderId, quantityOrdered, mode]);
+
+  const handleSubmit = async () => {
+    setError(null);
+    if (remainingQty > 0 && !locationId) {
+      setError('Select a stock location');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = mode === 'complete'
+        ? await ManufacturingService.completeOrder(orderId, quantityOrdered, locationId || undefined, lotNumber.trim() || undefined)
+        : await ManufacturingService.reportCompletion(
+            orderId,
+            qty,
+            locationId,
+            receivedQty,
+            notes || undefined,
+            lotNumber.trim() || undefined
+          );
+
+      if (!result.success) {
+        setError(result.error || 'Failed to receive finished goods');
+        return;
+      }
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatCurrency = (value: number | null | undefined) =>
+    `$${Number(value || 0).toFixed(2)}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <PackagePlus className="w-6 h-6 text-green-600" />
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                {mode === 'complete' ? 'Complete Order' : 'Report Completion'}
+              </h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">{orderNumber}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="p-6 space-y-4">
+            {/* Quantities */}
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                <p className="text-xs text-gray-500">Ordered</p>
+                <p className="text-lg font-bold text-gray-900 dark:text-white">{quantityOrdered}</p>
+              </div>
+              <div className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                <p className="text-xs text-gray-500">Received</p>
+                <p className="text-lg font-bold text-green-600">{receivedQty}</p>
+              </div>
+              <div className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                <p className="text-xs text-gray-500">Remaining</p>
+                <p className="text-lg font-bold text-blue-600">{remainingQty}</p>
+              </div>
+            </div>
+
+            {/* WIP cost to be relieved */}
+            {cost && (
+              <div className="text-sm space-y-1 p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+                <div className="flex justify-between text-gray-600 dark:text-gray-300">
+                  <span>Material</span>
+                  <span>{formatCurrency(cost.material_cost)}</span>
+                </div>
+                <div className="flex justify-between text-gray-600 dark:text-gray-300">
+                  <span>Labor ({Math.round(cost.labor_minutes)} min)</span>
+                  <span>{formatCurrency(cost.labor_cost)}</span>
+                </div>
+                <div className="flex justify-between text-gray-600 dark:text-gray-300">
+                  <span>Already received</span>
+                  <span>-{formatCurrency(cost.received_cost)}</span>
+                </div>
+                <div className="flex justify-between font-medium text-gray-900 dark:text-white pt-1 border-t border-gray-200 dark:border-gray-700">
+                  <span>WIP to relieve</span>
+                  <span>{formatCurrency(cost.wip_cost)}</span>
+                </div>
+                {mode === 'complete' && (
+                  <p className="text-xs text-gray-500">Remaining BOM materials are backflushed before the receipt is valued.</p>
+                )}
+              </div>
+            )}
+
+            {remainingQty > 0 && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Receive Into *
+                  </label>
+                  <select
+                    value={locationId}
+                    onChange={(e) => setLocationId(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Select stock location...</option>
+                    {locations.map((loc) => (
+                      <option key={loc.id} value={loc.id}>
+                        {loc.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Quantity
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max={remainingQty}
+                    value={qty}
+                    disabled={mode === 'complete'}
+                    onChange={(e) => setQty(Math.min(remainingQty, Math.max(1, Math.floor(Number(e.target.value)))))}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Lot Number
+                  </label>
+                  <input
+                    type="text"
+                    value={lotNumber}
+                    onChange={(e) => setLotNumber(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+                    placeholder={orderNumber}
+                  />
+                </div>
+
+                {mode === 'partial' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Notes
+                    </label>
+                    <input
+                      type="text"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+                      placeholder="Optional"
+                    />
+                  </div>
+                )}
+              </>
+            )}
+
+            {/* Previous receipts */}
+            {receipts.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Previous Receipts</h3>
+                <div className="space-y-1 text-sm">
+                  {receipts.map((r) => (
+                    <div key={r.id} className="flex justify-between text-gray-600 dark:text-gray-300">
+                      <span>
+                        {new Date(r.received_at).toLocaleString()} · {r.qty} → {r.stock_location_name || 'Unknown'}
+                        {r.lot_number && ` · Lot ${r.lot_number}`}
+                      </span>
+                      <span>{formatCurrency(r.unit_cost)}/ea</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving || loading || (mode === 'partial' && remainingQty === 0)}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Posting...' : mode === 'complete' ? 'Complete & Receive' : 'Receive'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
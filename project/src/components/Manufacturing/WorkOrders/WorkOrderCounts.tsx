@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Plus, BarChart3, CheckCircle, XCircle, RefreshCw } from 'lucide-react';
+import { Plus, BarChart3, CheckCircle, XCircle, RefreshCw, Edit2 } from 'lucide-react';
 import { OEEService, ProductionCount, RecordCountInput } from '../../../services/OEEService';
 import { DowntimeService, DowntimeReason } from '../../../services/DowntimeService';
 import { ProductionSchedulingService, WorkCenterSchedule } from '../../../services/ProductionSchedulingService';
+import { BOMConsumptionResult } from '../../../services/MESInventoryService';
 import { useAuth } from '../../../contexts/AuthContext';
 
 interface WorkOrderCountsProps {
@@ -31,6 +32,15 @@ export function WorkOrderCounts({ orderId, orderStatus, onUpdate }: WorkOrderCou
     profile?.role === 'technician' || profile?.role === 'operator' || profile?.role === 'supervisor';
   const isComplete = orderStatus === 'complete';
 
+  const alertBackflushErrors = (backflush?: BOMConsumptionResult) => {
+    if (backflush && backflush.errors.length > 0) {
+      alert(
+        'Count saved, but some components could not be backflushed:\n' +
+        backflush.errors.map(e => `${e.part_name || 'Component'}: ${e.error}`).join('\n')
+      );
+    }
+  };
+
   const loadData = useCallback(async () => {
     try {
       setLoading(true);
@@ -94,6 +104,7 @@ export function WorkOrderCounts({ orderId, orderStatus, onUpdate }: WorkOrderCou
       });
 
       if (result.success) {
+        alertBackflushErrors(result.backflush);
         setShowAddCount(false);
         setNewCount({ total_qty: 0, good_qty: 0, scrap_qty: 0, rework_qty: 0 });
         setSelectedRun('');
@@ -109,6 +120,48 @@ export function WorkOrderCounts({ orderId, orderStatus, onUpdate }: WorkOrderCou
     }
   };
 
+  const handleCorrectCount = async (count: ProductionCount) => {
+    const goodInput = prompt('Corrected good count:', String(count.good_qty));
+    if (goodInput === null) return;
+    const scrapInput = prompt('Corrected scrap count:', String(count.scrap_qty));
+    if (scrapInput === null) return;
+    const reworkInput = prompt('Corrected rework count:', String(count.rework_qty));
+    if (reworkInput === null) return;
+
+    const good = parseInt(goodInput);
+    const scrap = parseInt(scrapInput);
+    const rework = parseInt(reworkInput);
+    if ([good, scrap, rework].some(q => isNaN(q) || q < 0)) {
+      alert('Please enter valid quantities');
+      return;
+    }
+
+    const reason = prompt('Reason for correction:');
+    if (!reason) return;
+
+    setActionLoading(true);
+    try {
+      const result = await OEEService.correctProductionCount(count.id, {
+        good_qty: good,
+        scrap_qty: scrap,
+        rework_qty: rework,
+        reason,
+      });
+
+      if (result.success) {
+        alertBackflushErrors(result.backflush);
+        loadData();
+        onUpdate();
+      } else {
+        alert(result.error || 'Failed to correct count');
+      }
+    } catch (error) {
+      console.error('Error correcting count:', error);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   // Calculate totals
   const totals = counts.reduce(
     (acc, c) => ({
@@ -218,6 +271,7 @@ export function WorkOrderCounts({ orderId, orderStatus, onUpdate }: WorkOrderCou
                   <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Good</th>
                   <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Scrap</th>
                   <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Rework</th>
+                  {!isComplete && canOperate && <th className="px-4 py-3"></th>}
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
@@ -238,6 +292,18 @@ export function WorkOrderCounts({ orderId, orderStatus, onUpdate }: WorkOrderCou
                     <td className="px-4 py-3 text-sm text-right text-yellow-600 dark:text-yellow-400">
                       {count.rework_qty}
                     </td>
+                    {!isComplete && canOperate && (
+                      <td className="px-4 py-3 text-right">
+                        <button
+                          onClick={() => handleCorrectCount(count)}
+                          disabled={actionLoading}
+                          className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-50"
+                          title="Correct count"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
@@ -12,12 +12,16 @@ import {
   History,
   BarChart3,
   ClipboardCheck,
+  PackagePlus,
+  GitBranch,
 } from 'lucide-react';
 import { ManufacturingService, ProductionOrder, ProductionStep, BOMItem } from '../../../services/ManufacturingService';
 import { WorkOrderTraveler } from './WorkOrderTraveler';
 import { WorkOrderMaterials } from './WorkOrderMaterials';
 import { WorkOrderCounts } from './WorkOrderCounts';
 import { WorkOrderQuality } from './WorkOrderQuality';
+import { WorkOrderGenealogy } from './WorkOrderGenealogy';
+import { FinishedGoodsReceiptModal } from './FinishedGoodsReceiptModal';
 import { useAuth } from '../../../contexts/AuthContext';
 
 interface WorkOrderDetailProps {
@@ -25,7 +29,7 @@ interface WorkOrderDetailProps {
   onBack: () => void;
 }
 
-type TabId = 'traveler' | 'materials' | 'counts' | 'quality' | 'downtime' | 'history';
+type TabId = 'traveler' | 'materials' | 'counts' | 'quality' | 'genealogy' | 'downtime' | 'history';
 
 export function WorkOrderDetail({ orderId, onBack }: WorkOrderDetailProps) {
   const { profile } = useAuth();
@@ -37,6 +41,7 @@ export function WorkOrderDetail({ orderId, onBack }: WorkOrderDetailProps) {
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<TabId>('traveler');
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [receiptMode, setReceiptMode] = useState<'complete' | 'partial' | null>(null);
 
   const loadOrder = useCallback(async () => {
     try {
@@ -84,6 +89,11 @@ export function WorkOrderDetail({ orderId, onBack }: WorkOrderDetailProps) {
           result = await ManufacturingService.resumeOrder(order.id);
           break;
         case 'complete':
+          // Product orders post finished goods to stock, which needs a location
+          if (order.product_id) {
+            setReceiptMode('complete');
+            break;
+          }
           result = await ManufacturingService.completeOrder(order.id, order.quantity_ordered || undefined);
           break;
       }
@@ -125,6 +135,7 @@ export function WorkOrderDetail({ orderId, onBack }: WorkOrderDetailProps) {
     { id: 'materials', label: 'Materials', icon: <Package className="w-4 h-4" /> },
     { id: 'counts', label: 'Counts', icon: <BarChart3 className="w-4 h-4" /> },
     { id: 'quality', label: 'Quality', icon: <ClipboardCheck className="w-4 h-4" /> },
+    { id: 'genealogy', label: 'Genealogy', icon: <GitBranch className="w-4 h-4" /> },
     { id: 'downtime', label: 'Downtime', icon: <AlertTriangle className="w-4 h-4" /> },
     { id: 'history', label: 'History', icon: <History className="w-4 h-4" /> },
   ];
@@ -203,6 +214,15 @@ export function WorkOrderDetail({ orderId, onBack }: WorkOrderDetailProps) {
                 <Pause className="w-4 h-4" />
                 <span>Hold</span>
               </button>
+              {canManage && order.product_id && (
+                <button
+                  onClick={() => setReceiptMode('partial')}
+                  className="flex items-center space-x-2 px-4 py-2 border border-green-600 text-green-700 dark:text-green-400 rounded-lg hover:bg-green-50 dark:hover:bg-green-900/20"
+                >
+                  <PackagePlus className="w-4 h-4" />
+                  <span>Report Qty</span>
+                </button>
+              )}
               {canManage && (
                 <button
                   onClick={() => handleStatusAction('complete')}
@@ -331,6 +351,9 @@ export function WorkOrderDetail({ orderId, onBack }: WorkOrderDetailProps) {
             workCenterId={order.work_center_id || undefined}
           />
         )}
+        {activeTab === 'genealogy' && (
+          <WorkOrderGenealogy orderId={order.id} />
+        )}
         {activeTab === 'downtime' && (
           <div className="card p-6 text-center text-gray-500 dark:text-gray-400">
             <AlertTriangle className="w-12 h-12 mx-auto mb-4 opacity-50" />
@@ -369,6 +392,20 @@ export function WorkOrderDetail({ orderId, onBack }: WorkOrderDetailProps) {
           </div>
         )}
       </div>
+
+      {receiptMode && (
+        <FinishedGoodsReceiptModal
+          orderId={order.id}
+          orderNumber={order.order_number}
+          quantityOrdered={order.quantity_ordered || 1}
+          mode={receiptMode}
+          onClose={() => setReceiptMode(null)}
+          onSaved={() => {
+            setReceiptMode(null);
+            loadOrder();
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,259 @@
+import { useState, useEffect, useCallback } from 'react';
+import { GitBranch, Search, ArrowDownRight, ArrowUpRight, Package, Truck } from 'lucide-react';
+import {
+  MESInventoryService,
+  ProductionReceipt,
+  LotSource,
+  LotForwardTraceRow,
+  LotBackwardTraceRow,
+} from '../../../services/MESInventoryService';
+
+interface WorkOrderGenealogyProps {
+  orderId: string;
+}
+
+export function WorkOrderGenealogy({ orderId }: WorkOrderGenealogyProps) {
+  const [receipts, setReceipts] = useState<ProductionReceipt[]>([]);
+  const [backward, setBackward] = useState<LotBackwardTraceRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [lotQuery, setLotQuery] = useState('');
+  const [tracedLot, setTracedLot] = useState<string | null>(null);
+  const [forward, setForward] = useState<LotForwardTraceRow[]>([]);
+  const [sources, setSources] = useState<LotSource[]>([]);
+  const [tracing, setTracing] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [orderReceipts, components] = await Promise.all([
+        MESInventoryService.getReceipts(orderId),
+        MESInventoryService.traceOrderBackward(orderId),
+      ]);
+      setReceipts(orderReceipts);
+      setBackward(components);
+    } catch (error) {
+      console.error('Error loading genealogy:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const traceLot = async (lotNumber: string, partId?: string) => {
+    const lot = lotNumber.trim();
+    if (!lot) return;
+
+    setLotQuery(lot);
+    setTracing(true);
+    try {
+      const [rows, lotSources] = await Promise.all([
+        MESInventoryService.traceLotForward(lot, partId),
+        MESInventoryService.getLotSources(lot, partId),
+      ]);
+      setForward(rows);
+      setSources(lotSources);
+      setTracedLot(lot);
+    } finally {
+      setTracing(false);
+    }
+  };
+
+  // One entry per output lot, quantities summed across receipts
+  const outputLots = Object.values(
+    receipts.reduce<Record<string, { lot: string; part_id: string; qty: number }>>((acc, r) => {
+      const lot = r.lot_number || '';
+      if (!lot) return acc;
+      acc[lot] = acc[lot] || { lot, part_id: r.part_id, qty: 0 };
+      acc[lot].qty += r.qty;
+      return acc;
+    }, {})
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Output lots */}
+      <div className="card">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center space-x-2">
+          <Package className="w-4 h-4 text-green-600" />
+          <h3 className="font-semibold text-gray-900 dark:text-white">Output Lots</h3>
+        </div>
+        {outputLots.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No finished goods received yet</div>
+        ) : (
+          <div className="p-4 flex flex-wrap gap-2">
+            {outputLots.map((o) => (
+              <button
+                key={o.lot}
+                onClick={() => traceLot(o.lot, o.part_id)}
+                className="px-3 py-1 text-sm rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300 hover:bg-green-200"
+                title="Trace where this lot went"
+              >
+                {o.lot} · {o.qty}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Backward trace */}
+      <div className="card overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center space-x-2">
+          <ArrowDownRight className="w-4 h-4 text-blue-600" />
+          <h3 className="font-semibold text-gray-900 dark:text-white">Component Lots</h3>
+        </div>
+        {backward.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No material consumed</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-800">
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="px-4 py-2">Part</th>
+                <th className="px-4 py-2">Lot</th>
+                <th className="px-4 py-2 text-right">Qty</th>
+                <th className="px-4 py-2">Source</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {backward.map((row) => (
+                <tr key={`${row.production_order_id}-${row.part_id}-${row.lot_number}`}>
+                  <td className="px-4 py-2 text-gray-900 dark:text-white">
+                    <span style={{ paddingLeft: `${(row.depth - 1) * 1.25}rem` }}>
+                      {row.depth > 1 && <span className="text-gray-400 mr-1">↳ {row.order_number}:</span>}
+                      {row.part_number} - {row.part_name}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">
+                    {row.lot_number ? (
+                      <button
+                        onClick={() => row.lot_number && traceLot(row.lot_number, row.part_id)}
+                        className="text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                      >
+                        {row.lot_number}
+                      </button>
+                    ) : (
+                      <span className="text-gray-400">Not lot-tracked</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-900 dark:text-white">{row.qty_consumed}</td>
+                  <td className="px-4 py-2 text-gray-600 dark:text-gray-300">
+                    {row.source_order_number
+                      ? `Built on ${row.source_order_number}`
+                      : row.supplier_names
+                        ? `${row.supplier_names} (${row.po_numbers})`
+                        : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Forward trace */}
+      <div className="card">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <ArrowUpRight className="w-4 h-4 text-purple-600" />
+            <h3 className="font-semibold text-gray-900 dark:text-white">Where Used</h3>
+          </div>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              traceLot(lotQuery);
+            }}
+            className="flex items-center space-x-2"
+          >
+            <input
+              type="text"
+              value={lotQuery}
+              onChange={(e) => setLotQuery(e.target.value)}
+              placeholder="Lot number..."
+              className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            />
+            <button
+              type="submit"
+              disabled={tracing || !lotQuery.trim()}
+              className="p-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Search className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+
+        {!tracedLot ? (
+          <div className="p-6 text-center text-gray-500">
+            <GitBranch className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>Select a lot above or search to trace where it was used</p>
+          </div>
+        ) : (
+          <div className="p-4 space-y-4">
+            {sources.length > 0 && (
+              <div className="space-y-1 text-sm">
+                {sources.map((s) => (
+                  <div key={s.source_id} className="flex items-center space-x-2 text-gray-600 dark:text-gray-300">
+                    {s.source_type === 'purchase' ? (
+                      <Truck className="w-4 h-4 text-gray-400" />
+                    ) : (
+                      <Package className="w-4 h-4 text-gray-400" />
+                    )}
+                    <span>
+                      {s.part_number} · {s.qty} received {new Date(s.received_at).toLocaleDateString()} from{' '}
+                      {s.source_type === 'purchase'
+                        ? `${s.supplier_name || 'supplier'} (${s.reference_number})`
+                        : s.reference_number}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {forward.length === 0 ? (
+              <p className="text-center text-gray-500">Lot {tracedLot} has not been consumed on any order</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="px-3 py-2">Level</th>
+                    <th className="px-3 py-2">Order</th>
+                    <th className="px-3 py-2">Consumed</th>
+                    <th className="px-3 py-2">Output Lots</th>
+                    <th className="px-3 py-2">Customer</th>
+                    <th className="px-3 py-2">Ticket</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {forward.map((row) => (
+                    <tr key={`${row.production_order_id}-${row.part_id}-${row.lot_number}`}>
+                      <td className="px-3 py-2 text-gray-500">{row.depth}</td>
+                      <td className="px-3 py-2 text-gray-900 dark:text-white">
+                        {row.order_number}
+                        <span className="ml-2 text-xs text-gray-500 capitalize">{row.order_status.replace('_', ' ')}</span>
+                      </td>
+                      <td className="px-3 py-2 text-gray-600 dark:text-gray-300">
+                        {row.qty_consumed} × {row.part_number} ({row.lot_number})
+                      </td>
+                      <td className="px-3 py-2 text-gray-600 dark:text-gray-300">{row.output_lot_numbers || '-'}</td>
+                      <td className="px-3 py-2 text-gray-600 dark:text-gray-300">{row.customer_name || '-'}</td>
+                      <td className="px-3 py-2 text-gray-600 dark:text-gray-300">{row.ticket_number || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -115,6 +115,10 @@ export function WorkOrderMaterials({ orderId, orderStatus, bom, onUpdate }: Work
       return;
     }
 
+    // Blank is allowed for untracked material; cancel aborts the consume
+    const lotNumber = prompt('Lot / batch number (leave blank if not lot-tracked):');
+    if (lotNumber === null) return;
+
     setActionLoading(`consume-${item.id}`);
     try {
       const result = await MESInventoryService.consumeMaterial({
@@ -125,6 +129,7 @@ export function WorkOrderMaterials({ orderId, orderStatus, bom, onUpdate }: Work
         method: 'manual',
         bom_item_id: item.id,
         unit_cost: item.unit_cost || undefined,
+        lot_number: lotNumber.trim() || undefined,
       });
 
       if (result.success) {
@@ -237,6 +242,7 @@ export function WorkOrderMaterials({ orderId, orderStatus, bom, onUpdate }: Work
                         </p>
                         <p className="text-sm text-gray-500">
                           {log.qty > 0 ? '+' : ''}{log.qty} from {log.source_location_name || 'Unknown'}
+                          {log.lot_number && ` · Lot ${log.lot_number}`}
                         </p>
                         <p className="text-xs text-gray-400">
                           {log.consumed_by_name} - {new Date(log.consumed_at).toLocaleString()}
@@ -11,6 +11,7 @@ import {
   ChevronRight,
 } from 'lucide-react';
 import { QualityExecutionService, InspectionRun, InspectionPlan, MeasurementInput, Characteristic } from '../../../services/QualityExecutionService';
+import { GaugeService, Gauge } from '../../../services/GaugeService';
 import { useAuth } from '../../../contexts/AuthContext';
 
 interface WorkOrderQualityProps {
@@ -60,6 +61,7 @@ export function WorkOrderQuality({ productionOrderId, workCenterId, operationRun
       loadData();
     } catch (error) {
       console.error('Error creating inspection:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create inspection');
     }
   };
 
@@ -74,15 +76,9 @@ export function WorkOrderQuality({ productionOrderId, workCenterId, operationRun
     }
   };
 
-  const handleCompleteInspection = async () => {
-    if (!activeInspection) return;
-    try {
-      await QualityExecutionService.completeInspection(activeInspection.id);
-      setActiveInspection(null);
-      loadData();
-    } catch (error) {
-      console.error('Error completing inspection:', error);
-    }
+  const handleCompleteInspection = () => {
+    setActiveInspection(null);
+    loadData();
   };
 
   const toggleRunExpanded = (runId: string) => {
@@ -224,6 +220,9 @@ export function WorkOrderQuality({ productionOrderId, workCenterId, operationRun
                     </p>
                     <p className="text-sm text-gray-500">
                       {run.plan?.plan_type} • {run.total_characteristics} checks
+                      {run.accept_number !== null && run.accept_number !== undefined && (
+                        <> • AQL {run.aql_level} • n={run.sample_size} Ac {run.accept_number} / Re {run.reject_number}</>
+                      )}
                     </p>
                   </div>
                 </div>
@@ -293,6 +292,37 @@ export function WorkOrderQuality({ productionOrderId, workCenterId, operationRun
                       </div>
                     </div>
 
+                    {run.accept_number !== null && run.accept_number !== undefined && (
+                      <div className="grid grid-cols-3 gap-4 text-sm mb-3">
+                        <div>
+                          <span className="text-gray-500">Lot:</span>{' '}
+                          <span className="text-gray-900 dark:text-white">
+                            {run.lot_size} • Code {run.code_letter} • {run.inspection_severity}
+                          </span>
+                        </div>
+                        <div>
+                          <span className="text-gray-500">Sampling:</span>{' '}
+                          <span className="text-gray-900 dark:text-white">
+                            {run.sampling_scheme === 'DOUBLE' && run.second_sample_size
+                              ? `n1=${run.sample_size} Ac ${run.accept_number}/Re ${run.reject_number}, n2=${run.second_sample_size} Ac ${run.second_accept_number}/Re ${run.second_reject_number}`
+                              : `n=${run.sample_size} Ac ${run.accept_number}/Re ${run.reject_number}`}
+                          </span>
+                        </div>
+                        <div>
+                          <span className="text-gray-500">Defects:</span>{' '}
+                          <span className="text-gray-900 dark:text-white">
+                            {run.first_sample_defects ?? '-'}
+                            {run.second_sample_defects !== null && run.second_sample_defects !== undefined && ` + ${run.second_sample_defects}`}
+                          </span>
+                          {run.lot_disposition && (
+                            <span className={run.lot_disposition === 'ACCEPTED' ? 'text-green-600' : 'text-red-600'}>
+                              {' '}• Lot {run.lot_disposition.toLowerCase()}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Measurements */}
                     {run.measurements && run.measurements.length > 0 && (
                       <div className="space-y-2">
@@ -309,6 +339,7 @@ export function WorkOrderQuality({ productionOrderId, workCenterId, operationRun
                             >
                               <span className="text-gray-700 dark:text-gray-300">
                                 {m.characteristic?.name}
+                                {m.gauge && <span className="text-xs text-gray-500"> ({m.gauge.gauge_number})</span>}
                               </span>
                               <span className={m.is_within_spec === false ? 'text-red-600' : 'text-gray-900 dark:text-white'}>
                                 {m.measured_value !== null
@@ -348,18 +379,25 @@ export function WorkOrderQuality({ productionOrderId, workCenterId, operationRun
 
 interface InspectionFormProps {
   inspection: InspectionRun;
-  onComplete: () => void;
+  onComplete: () => void; // Called once the run is completed (or waits for a second AQL sample)
   onCancel: () => void;
 }
 
-function InspectionForm({ inspection, onComplete, onCancel }: InspectionFormProps) {
+export function InspectionForm({ inspection, onComplete, onCancel }: InspectionFormProps) {
   const [measurements, setMeasurements] = useState<Record<string, MeasurementInput>>({});
+  const [gauges, setGauges] = useState<Gauge[]>([]);
   const [saving, setSaving] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
 
   const characteristics = inspection.plan?.characteristics?.filter(c => c.is_active) || [];
   const currentChar = characteristics[currentIndex];
 
+  useEffect(() => {
+    GaugeService.getGauges()
+      .then(setGauges)
+      .catch(error => console.error('Error loading gauges:', error));
+  }, []);
+
   useEffect(() => {
     // Initialize measurements from existing data
     const existing: Record<string, MeasurementInput> = {};
@@ -370,6 +408,7 @@ function InspectionForm({ inspection, onComplete, onCancel }: InspectionFormProp
         pass_fail: m.pass_fail ?? undefined,
         defect_count: m.defect_count ?? undefined,
         notes: m.notes ?? undefined,
+        gauge_id: m.gauge_id ?? undefined,
       };
     });
     setMeasurements(existing);
@@ -386,14 +425,24 @@ function InspectionForm({ inspection, onComplete, onCancel }: InspectionFormProp
     }));
   };
 
+  // Variable characteristics fall back to their default gauge
+  const gaugeIdFor = (char: Characteristic): string | undefined => {
+    if (char.char_type !== 'VARIABLE') return undefined;
+    return measurements[char.id]?.gauge_id || char.gage_id || undefined;
+  };
+
+  const measurementInput = (charId: string): MeasurementInput => {
+    const char = characteristics.find(c => c.id === charId);
+    return { ...measurements[charId], gauge_id: char ? gaugeIdFor(char) : measurements[charId].gauge_id };
+  };
+
   const handleSaveAndNext = async () => {
     if (!currentChar) return;
 
     setSaving(true);
     try {
-      const input = measurements[currentChar.id];
-      if (input) {
-        await QualityExecutionService.recordMeasurement(inspection.id, input);
+      if (measurements[currentChar.id]) {
+        await QualityExecutionService.recordMeasurement(inspection.id, measurementInput(currentChar.id));
       }
 
       if (currentIndex < characteristics.length - 1) {
@@ -401,21 +450,47 @@ function InspectionForm({ inspection, onComplete, onCancel }: InspectionFormProp
       }
     } catch (error) {
       console.error('Error saving measurement:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save measurement');
     } finally {
       setSaving(false);
     }
   };
 
   const handleComplete = async () => {
+    let defectsFound: number | undefined;
+    if (inspection.accept_number !== null && inspection.accept_number !== undefined) {
+      const secondSample = inspection.first_sample_defects !== null && inspection.first_sample_defects !== undefined;
+      const sampleSize = secondSample ? inspection.second_sample_size : inspection.sample_size;
+      const entry = prompt(
+        `Nonconforming units found in the ${secondSample ? 'second ' : ''}sample of ${sampleSize} (leave blank to count from measurements):`
+      );
+      if (entry === null) return;
+      if (entry.trim() !== '') {
+        defectsFound = parseInt(entry, 10);
+        if (isNaN(defectsFound) || defectsFound < 0) {
+          alert('Enter a whole number of nonconforming units');
+          return;
+        }
+      }
+    }
+
     setSaving(true);
     try {
       // Save any remaining measurements
       for (const charId of Object.keys(measurements)) {
-        await QualityExecutionService.recordMeasurement(inspection.id, measurements[charId]);
+        await QualityExecutionService.recordMeasurement(inspection.id, measurementInput(charId));
+      }
+
+      const result = await QualityExecutionService.completeInspection(inspection.id, { defects_found: defectsFound });
+      if (result.status === 'IN_PROGRESS') {
+        alert(`Results are inconclusive. Take a second sample of ${result.second_sample_size} units.`);
+      } else if (result.lot_disposition) {
+        alert(`Lot ${result.lot_disposition.toLowerCase()}`);
       }
       onComplete();
     } catch (error) {
       console.error('Error completing inspection:', error);
+      alert(error instanceof Error ? error.message : 'Failed to complete inspection');
     } finally {
       setSaving(false);
     }
@@ -440,6 +515,9 @@ function InspectionForm({ inspection, onComplete, onCancel }: InspectionFormProp
   }
 
   const currentMeasurement = measurements[currentChar.id];
+  const currentGaugeId = gaugeIdFor(currentChar);
+  const currentGauge = gauges.find(g => g.id === currentGaugeId);
+  const gaugeBlockReason = currentGauge ? GaugeService.getUsageBlockReason(currentGauge) : null;
   const specStatus = currentChar.char_type === 'VARIABLE'
     ? isWithinSpec(currentChar, currentMeasurement?.measured_value)
     : currentMeasurement?.pass_fail;
@@ -515,6 +593,39 @@ function InspectionForm({ inspection, onComplete, onCancel }: InspectionFormProp
 
         {/* Input Field */}
         <div className="space-y-4">
+          {currentChar.char_type === 'VARIABLE' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Gauge
+              </label>
+              <select
+                value={currentGaugeId || ''}
+                onChange={(e) => handleMeasurementChange(currentChar.id, 'gauge_id', e.target.value || undefined)}
+                className={`w-full px-3 py-2 border rounded-lg bg-white dark:bg-gray-900 ${
+                  gaugeBlockReason ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+                }`}
+              >
+                <option value="">Select gauge...</option>
+                {gauges.map(g => {
+                  const blocked = GaugeService.getUsageBlockReason(g);
+                  return (
+                    <option key={g.id} value={g.id} disabled={!!blocked}>
+                      {g.gauge_number} - {g.name}
+                      {g.resolution ? ` (${g.resolution}${g.uom ? ` ${g.uom}` : ''})` : ''}
+                      {blocked ? ' - not calibrated' : ''}
+                    </option>
+                  );
+                })}
+              </select>
+              {gaugeBlockReason && (
+                <p className="mt-1 text-sm text-red-600 flex items-center space-x-1">
+                  <AlertTriangle className="w-4 h-4" />
+                  <span>{gaugeBlockReason}. Select a calibrated gauge.</span>
+                </p>
+              )}
+            </div>
+          )}
+
           {currentChar.data_capture === 'numeric' || currentChar.char_type === 'VARIABLE' ? (
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -652,7 +763,7 @@ function InspectionForm({ inspection, onComplete, onCancel }: InspectionFormProp
         {currentIndex < characteristics.length - 1 ? (
           <button
             onClick={handleSaveAndNext}
-            disabled={saving}
+            disabled={saving || !!gaugeBlockReason}
             className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
           >
             {saving ? 'Saving...' : 'Next'}
@@ -660,7 +771,7 @@ function InspectionForm({ inspection, onComplete, onCancel }: InspectionFormProp
         ) : (
           <button
             onClick={handleComplete}
-            disabled={saving}
+            disabled={saving || !!gaugeBlockReason}
             className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
           >
             {saving ? 'Completing...' : 'Complete Inspection'}
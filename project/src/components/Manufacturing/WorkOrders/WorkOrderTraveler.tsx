@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import {
   CheckCircle,
   Clock,
@@ -8,8 +8,11 @@ import {
   Trash2,
   ChevronDown,
   ChevronUp,
+  BadgeCheck,
+  Lock,
 } from 'lucide-react';
 import { ManufacturingService, ProductionStep, CreateProductionStepInput } from '../../../services/ManufacturingService';
+import { FirstArticleService, FirstArticle } from '../../../services/FirstArticleService';
 import { useAuth } from '../../../contexts/AuthContext';
 
 interface WorkOrderTravelerProps {
@@ -29,10 +32,21 @@ export function WorkOrderTraveler({ orderId, orderStatus, steps, onUpdate }: Wor
   });
   const [expandedStep, setExpandedStep] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [firstArticle, setFirstArticle] = useState<FirstArticle | null>(null);
 
   const canManage = profile?.role === 'admin' || profile?.role === 'dispatcher';
   const canOperate = canManage || profile?.role === 'technician' || profile?.role === 'operator';
   const isComplete = orderStatus === 'complete';
+  // Steps cannot be completed until the first article passes (also enforced in the database)
+  const faiBlocking = !!firstArticle && firstArticle.status !== 'PASSED';
+  const faiProgress = firstArticle ? FirstArticleService.getProgress(firstArticle) : null;
+
+  useEffect(() => {
+    if (isComplete || steps.length === 0) return;
+    FirstArticleService.evaluateOrder(orderId)
+      .then(setFirstArticle)
+      .catch(error => console.error('Error checking first article requirement:', error));
+  }, [orderId, isComplete, steps]);
 
   const handleAddStep = async () => {
     if (!newStep.name.trim()) return;
@@ -71,6 +85,8 @@ export function WorkOrderTraveler({ orderId, orderStatus, steps, onUpdate }: Wor
       const result = await ManufacturingService.updateStepStatus(stepId, status);
       if (result.success) {
         onUpdate();
+      } else if (result.error) {
+        alert(result.error);
       }
     } catch (error) {
       console.error('Error updating step:', error);
@@ -140,6 +156,32 @@ export function WorkOrderTraveler({ orderId, orderStatus, steps, onUpdate }: Wor
         </div>
       </div>
 
+      {/* First Article */}
+      {firstArticle && (
+        faiBlocking ? (
+          <div className="flex items-start p-4 rounded-lg border border-yellow-300 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-900/20">
+            <Lock className="w-5 h-5 text-yellow-600 mr-3 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium text-yellow-800 dark:text-yellow-300">
+                First article {firstArticle.fai_number} is {firstArticle.status.toLowerCase()}
+              </p>
+              <p className="text-yellow-700 dark:text-yellow-400">
+                Steps can be started, but none can be completed or skipped until the first article inspection passes
+                {firstArticle.production_order_id !== orderId && firstArticle.production_order
+                  ? ` (raised on ${firstArticle.production_order.order_number})`
+                  : ''}
+                . {faiProgress?.inspected} of {faiProgress?.total} characteristics inspected.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center text-sm text-green-700 dark:text-green-400">
+            <BadgeCheck className="w-4 h-4 mr-1" />
+            First article {firstArticle.fai_number} passed
+          </div>
+        )
+      )}
+
       {/* Steps List */}
       <div className="space-y-3">
         {steps.map((step, _index) => (
@@ -209,7 +251,8 @@ export function WorkOrderTraveler({ orderId, orderStatus, steps, onUpdate }: Wor
                           </button>
                           <button
                             onClick={() => handleStepAction(step.id, 'skip')}
-                            disabled={actionLoading === `skip-${step.id}`}
+                            disabled={actionLoading === `skip-${step.id}` || faiBlocking}
+                            title={faiBlocking ? 'Waiting for first article inspection' : undefined}
                             className="flex items-center space-x-1 px-3 py-1.5 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 disabled:opacity-50"
                           >
                             <SkipForward className="w-4 h-4" />
@@ -220,7 +263,8 @@ export function WorkOrderTraveler({ orderId, orderStatus, steps, onUpdate }: Wor
                       {step.status === 'in_progress' && (
                         <button
                           onClick={() => handleStepAction(step.id, 'complete')}
-                          disabled={actionLoading === `complete-${step.id}`}
+                          disabled={actionLoading === `complete-${step.id}` || faiBlocking}
+                          title={faiBlocking ? 'Waiting for first article inspection' : undefined}
                           className="flex items-center space-x-1 px-3 py-1.5 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 disabled:opacity-50"
                         >
                           <CheckCircle className="w-4 h-4" />
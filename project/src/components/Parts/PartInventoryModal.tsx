@@ -1,8 +1,9 @@
 import { useEffect, useState, useCallback } from 'react';
-import { X, Plus, Minus, ArrowRight } from 'lucide-react';
+import { X, Plus, Minus, ArrowRight, Lock, Unlock } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import type { Database } from '../../lib/database.types';
-import { inventoryService } from '../../services/InventoryService';
+import { inventoryService, InventoryHold } from '../../services/InventoryService';
+import { useAuth } from '../../contexts/AuthContext';
 
 type StockLocation = Database['public']['Tables']['stock_locations']['Row'];
 type PartInventory = Database['public']['Tables']['part_inventory']['Row'];
@@ -14,8 +15,10 @@ interface PartInventoryModalProps {
 }
 
 export function PartInventoryModal({ partId, partName, onClose }: PartInventoryModalProps) {
+  const { profile } = useAuth();
   const [locations, setLocations] = useState<StockLocation[]>([]);
   const [inventory, setInventory] = useState<PartInventory[]>([]);
+  const [holds, setHolds] = useState<InventoryHold[]>([]);
   const [loading, setLoading] = useState(true);
   const [showTransferModal, setShowTransferModal] = useState(false);
   const [transferData, setTransferData] = useState({
@@ -26,7 +29,7 @@ export function PartInventoryModal({ partId, partName, onClose }: PartInventoryM
 
   const loadData = useCallback(async () => {
     try {
-      const [locationsRes, inventoryRes] = await Promise.all([
+      const [locationsRes, inventoryRes, partHolds] = await Promise.all([
         supabase
           .from('stock_locations')
           .select('*')
@@ -36,6 +39,7 @@ export function PartInventoryModal({ partId, partName, onClose }: PartInventoryM
           .from('part_inventory')
           .select('*')
           .eq('part_id', partId),
+        inventoryService.getHolds({ partId }),
       ]);
 
       if (locationsRes.error) throw locationsRes.error;
@@ -43,6 +47,7 @@ export function PartInventoryModal({ partId, partName, onClose }: PartInventoryM
 
       setLocations((locationsRes.data as unknown as StockLocation[]) || []);
       setInventory((inventoryRes.data as unknown as PartInventory[]) || []);
+      setHolds(partHolds);
     } catch (error) {
       console.error('Error loading inventory data:', error);
     } finally {
@@ -59,6 +64,53 @@ export function PartInventoryModal({ partId, partName, onClose }: PartInventoryM
     return inv?.quantity || 0;
   };
 
+  const canManageHolds = ['admin', 'dispatcher', 'supervisor'].includes(profile?.role || '');
+
+  // Serialized units are held through their own status, not the location quantity
+  const getHeldAtLocation = (locationId: string) =>
+    holds
+      .filter((h) => h.locationId === locationId && !h.serializedPartId)
+      .reduce((sum, h) => sum + h.quantity, 0);
+
+  const getAvailableAtLocation = (locationId: string) =>
+    Math.max(getQuantityAtLocation(locationId) - getHeldAtLocation(locationId), 0);
+
+  const handleQuarantine = async (locationId: string) => {
+    const available = getAvailableAtLocation(locationId);
+    const quantityInput = prompt(`Quantity to quarantine (${available} available):`, String(available));
+    if (!quantityInput) return;
+    const reason = prompt('Reason for quarantine:');
+    if (reason === null) return;
+    const lotNumber = prompt('Lot number (optional):');
+
+    try {
+      await inventoryService.placeHold({
+        partId,
+        locationId,
+        quantity: Number(quantityInput),
+        status: 'quarantine',
+        reason: reason || undefined,
+        lotNumber: lotNumber || undefined,
+      });
+      await loadData();
+    } catch (error: unknown) {
+      console.error('Error placing hold:', error);
+      alert(error instanceof Error ? error.message : 'Failed to quarantine stock');
+    }
+  };
+
+  const handleReleaseHold = async (hold: InventoryHold) => {
+    if (!confirm(`Release ${hold.quantity} from ${hold.status} back to available stock?`)) return;
+
+    try {
+      await inventoryService.releaseHold(hold.id);
+      await loadData();
+    } catch (error: unknown) {
+      console.error('Error releasing hold:', error);
+      alert(error instanceof Error ? error.message : 'Failed to release hold');
+    }
+  };
+
   const handleAdjustQuantity = async (locationId: string, adjustment: number) => {
     try {
       await inventoryService.adjustInventory({
@@ -123,6 +175,7 @@ export function PartInventoryModal({ partId, partName, onClose }: PartInventoryM
               </h2>
               <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
                 {partName} - Total: {getTotalQuantity()} units
+                {holds.length > 0 && ` (${holds.reduce((sum, h) => sum + (h.serializedPartId ? 0 : h.quantity), 0)} held)`}
               </p>
             </div>
             <button
@@ -147,39 +200,83 @@ export function PartInventoryModal({ partId, partName, onClose }: PartInventoryM
             <div className="space-y-3">
               {locations.map((location) => {
                 const quantity = getQuantityAtLocation(location.id);
+                const held = getHeldAtLocation(location.id);
+                const available = getAvailableAtLocation(location.id);
+                const locationHolds = holds.filter((h) => h.locationId === location.id);
                 return (
-                  <div
-                    key={location.id}
-                    className="card p-4 flex items-center justify-between"
-                  >
-                    <div className="flex-1">
-                      <h3 className="font-bold text-gray-900 dark:text-white">
-                        {location.name}
-                      </h3>
-                      <p className="text-sm text-gray-600 dark:text-gray-400 capitalize">
-                        {location.location_type.replace('_', ' ')}
-                      </p>
-                    </div>
-                    <div className="flex items-center space-x-4">
-                      <span className="text-2xl font-bold text-gray-900 dark:text-white">
-                        {quantity}
-                      </span>
-                      <div className="flex items-center space-x-2">
-                        <button
-                          onClick={() => handleAdjustQuantity(location.id, -1)}
-                          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-red-600"
-                          disabled={quantity === 0}
-                        >
-                          <Minus className="w-5 h-5" />
-                        </button>
-                        <button
-                          onClick={() => handleAdjustQuantity(location.id, 1)}
-                          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-green-600"
-                        >
-                          <Plus className="w-5 h-5" />
-                        </button>
+                  <div key={location.id} className="card p-4">
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <h3 className="font-bold text-gray-900 dark:text-white">
+                          {location.name}
+                        </h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 capitalize">
+                          {location.location_type.replace('_', ' ')}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-4">
+                        <div className="text-right">
+                          <span className="text-2xl font-bold text-gray-900 dark:text-white">
+                            {quantity}
+                          </span>
+                          {held > 0 && (
+                            <p className="text-xs text-gray-500">
+                              {available} available · {held} held
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          {canManageHolds && (
+                            <button
+                              onClick={() => handleQuarantine(location.id)}
+                              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-yellow-600"
+                              disabled={available === 0}
+                              title="Quarantine stock"
+                            >
+                              <Lock className="w-5 h-5" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleAdjustQuantity(location.id, -1)}
+                            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-red-600"
+                            disabled={available === 0}
+                          >
+                            <Minus className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={() => handleAdjustQuantity(location.id, 1)}
+                            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-green-600"
+                          >
+                            <Plus className="w-5 h-5" />
+                          </button>
+                        </div>
                       </div>
                     </div>
+                    {locationHolds.length > 0 && (
+                      <div className="mt-3 space-y-1 border-t border-gray-200 dark:border-gray-700 pt-3">
+                        {locationHolds.map((hold) => (
+                          <div key={hold.id} className="flex items-center justify-between text-sm">
+                            <div className="text-gray-600 dark:text-gray-400">
+                              <span className="capitalize font-medium text-yellow-700 dark:text-yellow-400">{hold.status}</span>
+                              <span className="ml-2">{hold.serializedPartId ? '1 serialized unit' : `${hold.quantity} units`}</span>
+                              {hold.lotNumber && <span className="ml-2">Lot {hold.lotNumber}</span>}
+                              {(hold.ncNumber || hold.reason) && (
+                                <span className="ml-2 text-gray-500">{hold.ncNumber || hold.reason}</span>
+                              )}
+                            </div>
+                            {canManageHolds && !hold.nonconformanceId && (
+                              <button
+                                onClick={() => handleReleaseHold(hold)}
+                                className="flex items-center space-x-1 text-green-600 hover:text-green-700"
+                              >
+                                <Unlock className="w-4 h-4" />
+                                <span>Release</span>
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -225,7 +322,7 @@ export function PartInventoryModal({ partId, partName, onClose }: PartInventoryM
                   <option value="">Select source location</option>
                   {locations.map((loc) => (
                     <option key={loc.id} value={loc.id}>
-                      {loc.name} ({getQuantityAtLocation(loc.id)} available)
+                      {loc.name} ({getAvailableAtLocation(loc.id)} available)
                     </option>
                   ))}
                 </select>
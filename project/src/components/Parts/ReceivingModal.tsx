@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
-import { X, Package, MapPin, Hash, Calendar, CheckCircle, Ticket } from 'lucide-react';
+import { X, Package, MapPin, Hash, Calendar, CheckCircle, Ticket, ShieldCheck } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import type { Database } from '../../lib/database.types';
+import { SupplierQualityService } from '../../services/SupplierQualityService';
+import type { InspectionPlan } from '../../services/QualityExecutionService';
 
 type PurchaseOrder = Database['public']['Tables']['purchase_orders']['Row'] & {
   vendors?: { name: string } | null;
@@ -19,6 +21,7 @@ interface LinkedTicketInfo {
 interface POLineWithPart extends Omit<PurchaseOrderLine, 'linked_ticket_id' | 'linked_request_id'> {
   parts: Part;
   quantity_received_total?: number;
+  quantity_in_inspection?: number | null;
   linked_ticket_id?: string | null;
   linked_request_id?: string | null;
   tickets?: LinkedTicketInfo | null;
@@ -29,6 +32,7 @@ interface ReceivingItem {
   quantity_received: number;
   quantity_damaged: number;
   stock_location_id: string;
+  lot_number: string;
   serial_numbers: string[];
   warranty_start_date: string;
   warranty_end_date: string;
@@ -47,6 +51,11 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [receivingData, setReceivingData] = useState<Record<string, ReceivingItem>>({});
+  const [incomingPlans, setIncomingPlans] = useState<Record<string, InspectionPlan>>({});
+
+  // Quantity held in incoming inspection is received but not yet accepted
+  const getRemainingQty = (line: POLineWithPart) =>
+    line.quantity_ordered - (line.quantity_received || 0) - (line.quantity_in_inspection || 0);
 
   useEffect(() => {
     loadData();
@@ -79,18 +88,26 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
       if (linesResult.error) throw linesResult.error;
       if (locationsResult.error) throw locationsResult.error;
 
+      const poLines = linesResult.data as unknown as POLineWithPart[];
+      const plans = await SupplierQualityService.getIncomingPlans(
+        [...new Set(poLines.map((line) => line.part_id))],
+        poResult.data.vendor_id
+      );
+
       setPO(poResult.data);
-      setLines(linesResult.data as unknown as POLineWithPart[]);
+      setLines(poLines);
       setStockLocations(locationsResult.data);
+      setIncomingPlans(plans);
 
       const initialData: Record<string, ReceivingItem> = {};
-      linesResult.data.forEach((line) => {
-        const remainingQty = line.quantity_ordered - (line.quantity_received || 0);
+      poLines.forEach((line) => {
+        const remainingQty = getRemainingQty(line);
         initialData[line.id] = {
           line_id: line.id,
           quantity_received: Math.max(0, remainingQty), // Pre-fill with remaining quantity only
           quantity_damaged: 0,
           stock_location_id: locationsResult.data[0]?.id || '',
+          lot_number: '',
           serial_numbers: [],
           warranty_start_date: new Date().toISOString().split('T')[0],
           warranty_end_date: '',
@@ -110,7 +127,7 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
     if (field === 'quantity_received' && typeof value === 'number') {
       const line = lines.find(l => l.id === lineId);
       if (line) {
-        const remainingQty = line.quantity_ordered - (line.quantity_received || 0);
+        const remainingQty = getRemainingQty(line);
         value = Math.min(Math.max(0, value), remainingQty);
       }
     }
@@ -146,6 +163,8 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
   const handleReceive = async () => {
     try {
       setSaving(true);
+      const { data: userData } = await supabase.auth.getUser();
+      let quarantinedLines = 0;
 
       for (const line of lines) {
         const receivingItem = receivingData[line.id];
@@ -157,14 +176,17 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
         }
 
         const part = line.parts;
+        const lotNumber = receivingItem.lot_number.trim() || null;
+        const incomingPlan = incomingPlans[line.part_id];
         if (part.is_serialized && receivingItem.serial_numbers.length !== receivingItem.quantity_received) {
           alert(`Part ${part.name} requires ${receivingItem.quantity_received} serial numbers`);
           return;
         }
 
         // Update inventory for non-serialized parts NOT linked to a ticket
-        // (Ticket-linked parts are handled by the database trigger which stages them)
-        if (!part.is_serialized && receivingItem.quantity_received > 0 && !line.linked_ticket_id) {
+        // (Ticket-linked parts are handled by the database trigger which stages them).
+        // Parts under incoming inspection are posted when the receipt is released.
+        if (!part.is_serialized && receivingItem.quantity_received > 0 && !line.linked_ticket_id && !incomingPlan) {
           const { error: inventoryError } = await supabase.rpc('fn_upsert_part_inventory', {
             p_part_id: line.part_id,
             p_location_id: receivingItem.stock_location_id,
@@ -187,7 +209,8 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
             unit_cost: line.unit_price,
             warranty_start_date: receivingItem.warranty_start_date || null,
             warranty_end_date: receivingItem.warranty_end_date || null,
-            status: 'in_stock' as const,
+            status: (incomingPlan ? 'quarantined' : 'in_stock') as 'in_stock',
+            lot_number: lotNumber,
           }));
 
           const { error: serialError } = await supabase
@@ -197,12 +220,53 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
           if (serialError) throw serialError;
         }
 
+        // Receiving log row carries the vendor lot for genealogy tracing
+        const { data: receipt, error: receiptError } = await supabase
+          .from('purchase_order_receipts')
+          .insert({
+            po_id: purchaseOrderId,
+            po_line_id: line.id,
+            quantity_received: receivingItem.quantity_received,
+            received_at_location_id: receivingItem.stock_location_id,
+            received_by: userData.user?.id || null,
+            lot_number: lotNumber,
+          })
+          .select('id')
+          .single();
+
+        if (receiptError) throw receiptError;
+
+        if (incomingPlan) {
+          if (part.is_serialized) {
+            const { error: receiptSerialError } = await supabase
+              .from('receipt_serial_numbers')
+              .insert(receivingItem.serial_numbers.map((serial) => ({ receipt_id: receipt.id, serial_number: serial })));
+
+            if (receiptSerialError) throw receiptSerialError;
+          }
+
+          await SupplierQualityService.quarantineReceipt({
+            receipt_id: receipt.id,
+            inspection_plan_id: incomingPlan.id,
+            part_id: line.part_id,
+            vendor_id: po?.vendor_id,
+            quantity: receivingItem.quantity_received,
+          });
+          quarantinedLines++;
+        }
+
+        // Quarantined quantity moves to quantity_received when the inspection releases it
         const { error: lineError } = await supabase
           .from('purchase_order_lines')
-          .update({
-            quantity_received: (line.quantity_received || 0) + receivingItem.quantity_received,
-            quantity_damaged: (line.quantity_damaged || 0) + receivingItem.quantity_damaged,
-          })
+          .update(incomingPlan
+            ? {
+                quantity_in_inspection: (line.quantity_in_inspection || 0) + receivingItem.quantity_received,
+                quantity_damaged: (line.quantity_damaged || 0) + receivingItem.quantity_damaged,
+              }
+            : {
+                quantity_received: (line.quantity_received || 0) + receivingItem.quantity_received,
+                quantity_damaged: (line.quantity_damaged || 0) + receivingItem.quantity_damaged,
+              })
           .eq('id', line.id);
 
         if (lineError) throw lineError;
@@ -210,7 +274,8 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
 
       const allReceived = lines.every((line) => {
         const receivingItem = receivingData[line.id];
-        const totalReceived = (line.quantity_received || 0) + (receivingItem?.quantity_received || 0);
+        const receivedNow = incomingPlans[line.part_id] ? 0 : (receivingItem?.quantity_received || 0);
+        const totalReceived = (line.quantity_received || 0) + receivedNow;
         return totalReceived >= line.quantity_ordered;
       });
 
@@ -231,7 +296,9 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
           .eq('id', purchaseOrderId);
       }
 
-      alert('Parts received successfully!');
+      alert(quarantinedLines > 0
+        ? `Parts received. ${quarantinedLines} line(s) are quarantined pending incoming inspection.`
+        : 'Parts received successfully!');
       onComplete();
     } catch (error: unknown) {
       console.error('Error receiving parts:', error);
@@ -278,7 +345,8 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
           {lines.map((line) => {
             const receivingItem = receivingData[line.id];
             const part = line.parts;
-            const remainingQty = line.quantity_ordered - (line.quantity_received || 0);
+            const remainingQty = getRemainingQty(line);
+            const incomingPlan = incomingPlans[line.part_id];
 
             const isFullyReceived = remainingQty <= 0;
 
@@ -299,6 +367,11 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
                       <span className="text-gray-600 dark:text-gray-400">
                         Previously Received: <span className="font-medium">{line.quantity_received || 0}</span>
                       </span>
+                      {(line.quantity_in_inspection || 0) > 0 && (
+                        <span className="text-gray-600 dark:text-gray-400">
+                          In Inspection: <span className="font-medium text-amber-600">{line.quantity_in_inspection}</span>
+                        </span>
+                      )}
                       <span className="text-gray-600 dark:text-gray-400">
                         Remaining: <span className={`font-medium ${isFullyReceived ? 'text-green-600' : 'text-blue-600'}`}>{remainingQty}</span>
                       </span>
@@ -323,6 +396,12 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
                         Linked to Ticket
                       </span>
                     )}
+                    {incomingPlan && (
+                      <span className="badge badge-yellow" title={incomingPlan.name}>
+                        <ShieldCheck className="w-3 h-3 mr-1" />
+                        Incoming Inspection
+                      </span>
+                    )}
                   </div>
                 </div>
 
@@ -347,6 +426,12 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
                   </div>
                 )}
 
+                {incomingPlan && !isFullyReceived && (
+                  <p className="text-xs text-amber-700 dark:text-amber-400">
+                    Received quantity is quarantined until inspection plan "{incomingPlan.name}" passes.
+                  </p>
+                )}
+
                 {isFullyReceived ? (
                   <div className="p-4 bg-green-100 dark:bg-green-900/30 rounded-lg">
                     <p className="text-sm text-green-700 dark:text-green-300 font-medium">
@@ -354,7 +439,7 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
                     </p>
                   </div>
                 ) : (
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                     <div>
                       <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                         Quantity Received (max: {remainingQty})
@@ -404,6 +489,19 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
                         ))}
                       </select>
                     </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Lot / Batch
+                      </label>
+                      <input
+                        type="text"
+                        value={receivingItem?.lot_number || ''}
+                        onChange={(e) => updateReceivingItem(line.id, 'lot_number', e.target.value)}
+                        placeholder="Optional"
+                        className="input"
+                      />
+                    </div>
                   </div>
                 )}
 
@@ -480,7 +578,7 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
               <Package className="w-4 h-4 mr-1" />
               <span>{lines.length} line items</span>
             </div>
-            {lines.every((line) => (line.quantity_ordered - (line.quantity_received || 0)) <= 0) && (
+            {lines.every((line) => getRemainingQty(line) <= 0) && (
               <div className="flex items-center text-sm text-green-600 font-medium">
                 <CheckCircle className="w-4 h-4 mr-1" />
                 <span>All items fully received</span>
@@ -489,9 +587,9 @@ export function ReceivingModal({ purchaseOrderId, onClose, onComplete }: Receivi
           </div>
           <div className="flex items-center space-x-3">
             <button onClick={onClose} className="btn-outline" disabled={saving}>
-              {lines.every((line) => (line.quantity_ordered - (line.quantity_received || 0)) <= 0) ? 'Close' : 'Cancel'}
+              {lines.every((line) => getRemainingQty(line) <= 0) ? 'Close' : 'Cancel'}
             </button>
-            {!lines.every((line) => (line.quantity_ordered - (line.quantity_received || 0)) <= 0) && (
+            {!lines.every((line) => getRemainingQty(line) <= 0) && (
               <button onClick={handleReceive} className="btn-primary" disabled={saving}>
                 {saving ? (
                   <>
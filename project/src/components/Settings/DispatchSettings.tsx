@@ -0,0 +1,828 @@
+import { useEffect, useState } from 'react';
+import { X, Plus, Edit2, Trash2, Award, MapPin, Star, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { JobFormService } from '../../services/JobFormService';
+import {
+  DispatchRecommendationService,
+  PROFICIENCY_LABELS,
+  type ServiceTerritory,
+  type ServiceTerritoryInput,
+  type SkillProficiency,
+  type TechnicianSkill,
+  type TechnicianSkillInput,
+} from '../../services/DispatchRecommendationService';
+import {
+  DispatchPlanService,
+  DEFAULT_WORK_HOURS,
+  formatPlanTime,
+  timeToMinutes,
+  type TechnicianWorkHours,
+  type TechnicianWorkHoursInput,
+} from '../../services/DispatchPlanService';
+
+interface Technician {
+  id: string;
+  full_name: string;
+}
+
+const EMPTY_SKILL: TechnicianSkillInput = {
+  technician_id: '',
+  equipment_type: '',
+  proficiency: 'qualified',
+  certification: null,
+  certification_number: null,
+  certified_until: null,
+};
+
+const EMPTY_TERRITORY: ServiceTerritoryInput = {
+  name: '',
+  zip_codes: [],
+  is_active: true,
+  technicians: [],
+};
+
+const isExpired = (date: string | null) => !!date && new Date(`${date}T23:59:59`) < new Date();
+
+/**
+ * Technician skills, certifications and service territories used to rank
+ * technicians for dispatch, and the work hours the day planner routes
+ * them within.
+ */
+export function DispatchSettings() {
+  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [skills, setSkills] = useState<TechnicianSkill[]>([]);
+  const [territories, setTerritories] = useState<ServiceTerritory[]>([]);
+  const [workHours, setWorkHours] = useState<TechnicianWorkHours[]>([]);
+  const [equipmentTypes, setEquipmentTypes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [technicianFilter, setTechnicianFilter] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [editingSkill, setEditingSkill] = useState<{ id: string | null; data: TechnicianSkillInput } | null>(null);
+  const [editingTerritory, setEditingTerritory] = useState<{
+    id: string | null;
+    data: ServiceTerritoryInput;
+    zipText: string;
+  } | null>(null);
+  const [editingHours, setEditingHours] = useState<{
+    data: TechnicianWorkHoursInput;
+    previousAddress: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [techResult, skillData, territoryData, types, hoursData] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('id, full_name')
+          .eq('role', 'technician')
+          .eq('is_active', true)
+          .order('full_name'),
+        DispatchRecommendationService.getSkills(),
+        DispatchRecommendationService.getTerritories(),
+        JobFormService.getEquipmentTypes(),
+        DispatchPlanService.getWorkHours(),
+      ]);
+      if (techResult.error) throw techResult.error;
+      setTechnicians(techResult.data || []);
+      setSkills(skillData);
+      setTerritories(territoryData);
+      setEquipmentTypes(types);
+      setWorkHours(hoursData);
+    } catch (error) {
+      console.error('Error loading dispatch settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const technicianName = (id: string) => technicians.find(t => t.id === id)?.full_name || 'Unknown';
+
+  const handleSaveSkill = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingSkill) return;
+    setSaving(true);
+    try {
+      await DispatchRecommendationService.saveSkill(editingSkill.id, editingSkill.data);
+      setEditingSkill(null);
+      setSkills(await DispatchRecommendationService.getSkills());
+    } catch (error) {
+      console.error('Error saving skill:', error);
+      alert('Failed to save skill: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSkill = async (skill: TechnicianSkill) => {
+    if (!confirm(`Remove ${skill.equipment_type} from ${technicianName(skill.technician_id)}?`)) return;
+    try {
+      await DispatchRecommendationService.deleteSkill(skill.id);
+      setSkills(skills.filter(s => s.id !== skill.id));
+    } catch (error) {
+      console.error('Error deleting skill:', error);
+      alert('Failed to delete skill. Please try again.');
+    }
+  };
+
+  const handleSaveTerritory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingTerritory) return;
+    setSaving(true);
+    try {
+      await DispatchRecommendationService.saveTerritory(editingTerritory.id, {
+        ...editingTerritory.data,
+        zip_codes: editingTerritory.zipText.split(/[\s,;]+/).filter(Boolean),
+      });
+      setEditingTerritory(null);
+      setTerritories(await DispatchRecommendationService.getTerritories());
+    } catch (error) {
+      console.error('Error saving territory:', error);
+      alert('Failed to save territory: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTerritory = async (territory: ServiceTerritory) => {
+    if (!confirm(`Delete territory ${territory.name}?`)) return;
+    try {
+      await DispatchRecommendationService.deleteTerritory(territory.id);
+      setTerritories(territories.filter(t => t.id !== territory.id));
+    } catch (error) {
+      console.error('Error deleting territory:', error);
+      alert('Failed to delete territory. Please try again.');
+    }
+  };
+
+  const handleSaveHours = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingHours) return;
+    const { data } = editingHours;
+    if (timeToMinutes(data.shift_start) >= timeToMinutes(data.shift_end)) {
+      alert('The shift must end after it starts.');
+      return;
+    }
+    if (timeToMinutes(data.lunch_earliest) > timeToMinutes(data.lunch_latest)) {
+      alert('The latest lunch start cannot be before the earliest.');
+      return;
+    }
+    setSaving(true);
+    try {
+      await DispatchPlanService.saveWorkHours(data, editingHours.previousAddress);
+      setEditingHours(null);
+      setWorkHours(await DispatchPlanService.getWorkHours());
+    } catch (error) {
+      console.error('Error saving work hours:', error);
+      alert('Failed to save work hours: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResetHours = async (technicianId: string) => {
+    if (!confirm(`Reset ${technicianName(technicianId)} to the default work hours?`)) return;
+    try {
+      await DispatchPlanService.resetWorkHours(technicianId);
+      setWorkHours(workHours.filter(h => h.technician_id !== technicianId));
+    } catch (error) {
+      console.error('Error resetting work hours:', error);
+      alert('Failed to reset work hours. Please try again.');
+    }
+  };
+
+  const toggleTerritoryTechnician = (technicianId: string, covers: boolean) => {
+    if (!editingTerritory) return;
+    const others = editingTerritory.data.technicians.filter(t => t.technician_id !== technicianId);
+    setEditingTerritory({
+      ...editingTerritory,
+      data: {
+        ...editingTerritory.data,
+        technicians: covers ? [...others, { technician_id: technicianId, is_primary: false }] : others,
+      },
+    });
+  };
+
+  const setTerritoryPrimary = (technicianId: string, isPrimary: boolean) => {
+    if (!editingTerritory) return;
+    setEditingTerritory({
+      ...editingTerritory,
+      data: {
+        ...editingTerritory.data,
+        technicians: editingTerritory.data.technicians.map(t =>
+          t.technician_id === technicianId ? { ...t, is_primary: isPrimary } : t
+        ),
+      },
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const visibleSkills = skills
+    .filter(s => !technicianFilter || s.technician_id === technicianFilter)
+    .sort((a, b) =>
+      technicianName(a.technician_id).localeCompare(technicianName(b.technician_id)) ||
+      a.equipment_type.localeCompare(b.equipment_type)
+    );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Dispatch Skills & Territories</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+          Used to recommend technicians on tickets, together with location, workload, truck stock and contract SLAs
+        </p>
+      </div>
+
+      {/* Skills */}
+      <div className="card overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <Award className="w-5 h-5 mr-2 text-blue-600" />
+            Technician Skills
+          </h3>
+          <div className="flex items-center space-x-2">
+            <select value={technicianFilter} onChange={(e) => setTechnicianFilter(e.target.value)} className="input text-sm">
+              <option value="">All technicians</option>
+              {technicians.map(tech => (
+                <option key={tech.id} value={tech.id}>{tech.full_name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setEditingSkill({ id: null, data: { ...EMPTY_SKILL, technician_id: technicianFilter } })}
+              className="btn btn-primary flex items-center space-x-2 whitespace-nowrap"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Skill</span>
+            </button>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Technician</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Equipment Type</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Proficiency</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Certification</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {visibleSkills.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
+                    No skills recorded
+                  </td>
+                </tr>
+              ) : (
+                visibleSkills.map(skill => (
+                  <tr key={skill.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                    <td className="px-6 py-4 font-medium text-gray-900 dark:text-white">{technicianName(skill.technician_id)}</td>
+                    <td className="px-6 py-4 text-gray-900 dark:text-white">{skill.equipment_type}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">{PROFICIENCY_LABELS[skill.proficiency]}</td>
+                    <td className="px-6 py-4 text-sm">
+                      {skill.certification ? (
+                        <div>
+                          <div className="text-gray-900 dark:text-white">
+                            {skill.certification}
+                            {skill.certification_number && (
+                              <span className="text-gray-500 dark:text-gray-400"> #{skill.certification_number}</span>
+                            )}
+                          </div>
+                          {skill.certified_until && (
+                            <div className={`text-xs ${isExpired(skill.certified_until) ? 'text-red-600 font-medium' : 'text-gray-500 dark:text-gray-400'}`}>
+                              {isExpired(skill.certified_until) ? 'Expired' : 'Expires'}{' '}
+                              {new Date(`${skill.certified_until}T00:00:00`).toLocaleDateString()}
+                            </div>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => {
+                            const { id, ...data } = skill;
+                            setEditingSkill({ id, data });
+                          }}
+                          className="btn btn-outline text-sm py-1 px-3 flex items-center space-x-1"
+                        >
+                          <Edit2 className="w-3 h-3" />
+                          <span>Edit</span>
+                        </button>
+                        <button
+                          onClick={() => handleDeleteSkill(skill)}
+                          className="btn btn-outline text-sm py-1 px-3 text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Territories */}
+      <div className="card overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <MapPin className="w-5 h-5 mr-2 text-blue-600" />
+            Service Territories
+          </h3>
+          <button
+            onClick={() => setEditingTerritory({ id: null, data: EMPTY_TERRITORY, zipText: '' })}
+            className="btn btn-primary flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Territory</span>
+          </button>
+        </div>
+        {territories.length === 0 ? (
+          <p className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">No territories yet</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {territories.map(territory => (
+              <div key={territory.id} className="p-4 flex items-start justify-between">
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900 dark:text-white">{territory.name}</span>
+                    {territory.is_active ? (
+                      <span className="flex items-center text-xs text-green-600 dark:text-green-400">
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        Active
+                      </span>
+                    ) : (
+                      <span className="flex items-center text-xs text-red-600 dark:text-red-400">
+                        <XCircle className="w-3 h-3 mr-1" />
+                        Inactive
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {territory.zip_codes.length} ZIP code{territory.zip_codes.length !== 1 ? 's' : ''}: {territory.zip_codes.join(', ')}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {territory.technicians.length === 0 ? (
+                      <span className="text-sm text-amber-600">No technicians</span>
+                    ) : (
+                      territory.technicians.map(t => (
+                        <span
+                          key={t.technician_id}
+                          className="badge bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 flex items-center"
+                        >
+                          {t.is_primary && <Star className="w-3 h-3 mr-1 text-amber-500" />}
+                          {technicianName(t.technician_id)}
+                        </span>
+                      ))
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setEditingTerritory({
+                      id: territory.id,
+                      data: {
+                        name: territory.name,
+                        zip_codes: territory.zip_codes,
+                        is_active: territory.is_active,
+                        technicians: territory.technicians,
+                      },
+                      zipText: territory.zip_codes.join(', '),
+                    })}
+                    className="btn btn-outline text-sm py-1 px-3 flex items-center space-x-1"
+                  >
+                    <Edit2 className="w-3 h-3" />
+                    <span>Edit</span>
+                  </button>
+                  <button
+                    onClick={() => handleDeleteTerritory(territory)}
+                    className="btn btn-outline text-sm py-1 px-3 text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Work Hours */}
+      <div className="card overflow-hidden">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <Clock className="w-5 h-5 mr-2 text-blue-600" />
+            Work Hours
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Shift, lunch break and start location used by Optimize Day. Technicians without their own hours work{' '}
+            {formatPlanTime(timeToMinutes(DEFAULT_WORK_HOURS.shift_start))} - {formatPlanTime(timeToMinutes(DEFAULT_WORK_HOURS.shift_end))}.
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Technician</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Shift</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Lunch</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Starts From</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {technicians.map(tech => {
+                const hours = workHours.find(h => h.technician_id === tech.id);
+                const shown = hours || { ...DEFAULT_WORK_HOURS, technician_id: tech.id, start_latitude: null, start_longitude: null };
+                return (
+                  <tr key={tech.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                    <td className="px-6 py-4 font-medium text-gray-900 dark:text-white">{tech.full_name}</td>
+                    <td className={`px-6 py-4 text-sm ${hours ? 'text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400'}`}>
+                      {formatPlanTime(timeToMinutes(shown.shift_start))} - {formatPlanTime(timeToMinutes(shown.shift_end))}
+                      {!hours && ' (default)'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                      {shown.lunch_minutes > 0
+                        ? `${shown.lunch_minutes} min, starting ${formatPlanTime(timeToMinutes(shown.lunch_earliest))} - ${formatPlanTime(timeToMinutes(shown.lunch_latest))}`
+                        : 'None'}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {shown.start_address ? (
+                        <div>
+                          <div className="text-gray-900 dark:text-white">{shown.start_address}</div>
+                          {shown.start_latitude === null && (
+                            <div className="text-xs text-amber-600">Address not found on the map</div>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-gray-500 dark:text-gray-400">Last known location</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => setEditingHours({
+                            data: {
+                              technician_id: tech.id,
+                              shift_start: shown.shift_start.slice(0, 5),
+                              shift_end: shown.shift_end.slice(0, 5),
+                              lunch_earliest: shown.lunch_earliest.slice(0, 5),
+                              lunch_latest: shown.lunch_latest.slice(0, 5),
+                              lunch_minutes: shown.lunch_minutes,
+                              start_address: shown.start_address,
+                            },
+                            previousAddress: hours?.start_latitude != null ? hours.start_address : null,
+                          })}
+                          className="btn btn-outline text-sm py-1 px-3 flex items-center space-x-1"
+                        >
+                          <Edit2 className="w-3 h-3" />
+                          <span>Edit</span>
+                        </button>
+                        {hours && (
+                          <button
+                            onClick={() => handleResetHours(tech.id)}
+                            className="btn btn-outline text-sm py-1 px-3 text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+                            title="Reset to default"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {editingSkill && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-md w-full">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                {editingSkill.id ? 'Edit Skill' : 'Add Skill'}
+              </h2>
+              <button onClick={() => setEditingSkill(null)} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSaveSkill} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Technician *</label>
+                <select
+                  required
+                  value={editingSkill.data.technician_id}
+                  onChange={(e) => setEditingSkill({ ...editingSkill, data: { ...editingSkill.data, technician_id: e.target.value } })}
+                  className="input"
+                >
+                  <option value="">Select a technician</option>
+                  {technicians.map(tech => (
+                    <option key={tech.id} value={tech.id}>{tech.full_name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Equipment Type *</label>
+                <input
+                  type="text"
+                  required
+                  list="dispatch-equipment-types"
+                  value={editingSkill.data.equipment_type}
+                  onChange={(e) => setEditingSkill({ ...editingSkill, data: { ...editingSkill.data, equipment_type: e.target.value } })}
+                  className="input"
+                  placeholder="e.g., Heat Pump"
+                />
+                <datalist id="dispatch-equipment-types">
+                  {equipmentTypes.map(type => (
+                    <option key={type} value={type} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Proficiency</label>
+                <select
+                  value={editingSkill.data.proficiency}
+                  onChange={(e) => setEditingSkill({
+                    ...editingSkill,
+                    data: { ...editingSkill.data, proficiency: e.target.value as SkillProficiency },
+                  })}
+                  className="input"
+                >
+                  {(Object.keys(PROFICIENCY_LABELS) as SkillProficiency[]).map(level => (
+                    <option key={level} value={level}>{PROFICIENCY_LABELS[level]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Certification</label>
+                  <input
+                    type="text"
+                    value={editingSkill.data.certification || ''}
+                    onChange={(e) => setEditingSkill({ ...editingSkill, data: { ...editingSkill.data, certification: e.target.value } })}
+                    className="input"
+                    placeholder="e.g., EPA 608 Universal"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Certificate #</label>
+                  <input
+                    type="text"
+                    value={editingSkill.data.certification_number || ''}
+                    onChange={(e) => setEditingSkill({
+                      ...editingSkill,
+                      data: { ...editingSkill.data, certification_number: e.target.value },
+                    })}
+                    className="input"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Certified Until</label>
+                <input
+                  type="date"
+                  value={editingSkill.data.certified_until || ''}
+                  onChange={(e) => setEditingSkill({ ...editingSkill, data: { ...editingSkill.data, certified_until: e.target.value || null } })}
+                  className="input"
+                />
+              </div>
+
+              <div className="flex space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+                <button type="button" onClick={() => setEditingSkill(null)} disabled={saving} className="btn btn-outline flex-1">
+                  Cancel
+                </button>
+                <button type="submit" disabled={saving} className="btn btn-primary flex-1">
+                  {saving ? 'Saving...' : 'Save Skill'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {editingTerritory && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                {editingTerritory.id ? 'Edit Territory' : 'Add Territory'}
+              </h2>
+              <button onClick={() => setEditingTerritory(null)} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSaveTerritory} className="p-6 space-y-4 overflow-y-auto">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name *</label>
+                <input
+                  type="text"
+                  required
+                  value={editingTerritory.data.name}
+                  onChange={(e) => setEditingTerritory({ ...editingTerritory, data: { ...editingTerritory.data, name: e.target.value } })}
+                  className="input"
+                  placeholder="e.g., North Metro"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">ZIP Codes *</label>
+                <textarea
+                  rows={3}
+                  value={editingTerritory.zipText}
+                  onChange={(e) => setEditingTerritory({ ...editingTerritory, zipText: e.target.value })}
+                  className="input"
+                  placeholder="Separated by commas or spaces"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Technicians</label>
+                <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700 max-h-60 overflow-y-auto">
+                  {technicians.map(tech => {
+                    const coverage = editingTerritory.data.technicians.find(t => t.technician_id === tech.id);
+                    return (
+                      <div key={tech.id} className="flex items-center justify-between px-3 py-2">
+                        <label className="flex items-center space-x-2 text-sm text-gray-900 dark:text-white">
+                          <input
+                            type="checkbox"
+                            checked={!!coverage}
+                            onChange={(e) => toggleTerritoryTechnician(tech.id, e.target.checked)}
+                            className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                          />
+                          <span>{tech.full_name}</span>
+                        </label>
+                        {coverage && (
+                          <label className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-400">
+                            <input
+                              type="checkbox"
+                              checked={coverage.is_primary}
+                              onChange={(e) => setTerritoryPrimary(tech.id, e.target.checked)}
+                              className="w-3 h-3 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                            />
+                            <span>Home territory</span>
+                          </label>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  A technician has one home territory; setting it here clears it elsewhere.
+                </p>
+              </div>
+
+              <div className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  id="territory_is_active"
+                  checked={editingTerritory.data.is_active}
+                  onChange={(e) => setEditingTerritory({ ...editingTerritory, data: { ...editingTerritory.data, is_active: e.target.checked } })}
+                  className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                />
+                <label htmlFor="territory_is_active" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Active
+                </label>
+              </div>
+
+              <div className="flex space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+                <button type="button" onClick={() => setEditingTerritory(null)} disabled={saving} className="btn btn-outline flex-1">
+                  Cancel
+                </button>
+                <button type="submit" disabled={saving} className="btn btn-primary flex-1">
+                  {saving ? 'Saving...' : 'Save Territory'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {editingHours && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-md w-full">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Work Hours: {technicianName(editingHours.data.technician_id)}
+              </h2>
+              <button onClick={() => setEditingHours(null)} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSaveHours} className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Shift Start *</label>
+                  <input
+                    type="time"
+                    required
+                    value={editingHours.data.shift_start}
+                    onChange={(e) => setEditingHours({ ...editingHours, data: { ...editingHours.data, shift_start: e.target.value } })}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Shift End *</label>
+                  <input
+                    type="time"
+                    required
+                    value={editingHours.data.shift_end}
+                    onChange={(e) => setEditingHours({ ...editingHours, data: { ...editingHours.data, shift_end: e.target.value } })}
+                    className="input"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Lunch Break (minutes)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={120}
+                  step={5}
+                  value={editingHours.data.lunch_minutes}
+                  onChange={(e) => setEditingHours({
+                    ...editingHours,
+                    data: { ...editingHours.data, lunch_minutes: parseInt(e.target.value) || 0 },
+                  })}
+                  className="input"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Lunch Starts After</label>
+                  <input
+                    type="time"
+                    required
+                    value={editingHours.data.lunch_earliest}
+                    onChange={(e) => setEditingHours({ ...editingHours, data: { ...editingHours.data, lunch_earliest: e.target.value } })}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Lunch Starts By</label>
+                  <input
+                    type="time"
+                    required
+                    value={editingHours.data.lunch_latest}
+                    onChange={(e) => setEditingHours({ ...editingHours, data: { ...editingHours.data, lunch_latest: e.target.value } })}
+                    className="input"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Start Address</label>
+                <input
+                  type="text"
+                  value={editingHours.data.start_address || ''}
+                  onChange={(e) => setEditingHours({ ...editingHours, data: { ...editingHours.data, start_address: e.target.value } })}
+                  className="input"
+                  placeholder="Home or shop address"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Leave blank to start from the technician's last known location today, or from their first job on later days.
+                </p>
+              </div>
+
+              <div className="flex space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+                <button type="button" onClick={() => setEditingHours(null)} disabled={saving} className="btn btn-outline flex-1">
+                  Cancel
+                </button>
+                <button type="submit" disabled={saving} className="btn btn-primary flex-1">
+                  {saving ? 'Saving...' : 'Save Hours'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
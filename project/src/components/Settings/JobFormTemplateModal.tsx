@@ -0,0 +1,405 @@
+import { useState } from 'react';
+import { X, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  JobFormService,
+  FIELD_TYPE_LABELS,
+  TICKET_TYPE_LABELS,
+  type JobFormAssignment,
+  type JobFormFieldInput,
+  type JobFormFieldType,
+  type JobFormTemplate,
+  type TicketTypeCode,
+} from '../../services/JobFormService';
+
+interface JobFormTemplateModalProps {
+  template: JobFormTemplate | null;
+  equipmentTypes: string[];
+  contractPlans: Array<{ id: string; name: string }>;
+  onClose: () => void;
+  onSaved: (assignedTickets: number) => void;
+}
+
+type AssignmentKind = 'ticket_type' | 'equipment_type' | 'contract_plan';
+
+const EMPTY_FIELD: JobFormFieldInput = {
+  label: '',
+  field_type: 'checkbox',
+  help_text: '',
+  is_required: true,
+  min_value: null,
+  max_value: null,
+  unit: '',
+  options: [],
+};
+
+const parseNumber = (value: string): number | null => (value === '' ? null : parseFloat(value));
+
+const assignmentKind = (assignment: JobFormAssignment): AssignmentKind =>
+  assignment.ticket_type ? 'ticket_type' : assignment.equipment_type !== null ? 'equipment_type' : 'contract_plan';
+
+export function JobFormTemplateModal({ template, equipmentTypes, contractPlans, onClose, onSaved }: JobFormTemplateModalProps) {
+  const { profile } = useAuth();
+  const [name, setName] = useState(template?.name || '');
+  const [description, setDescription] = useState(template?.description || '');
+  const [isRequired, setIsRequired] = useState(template?.is_required ?? true);
+  const [isActive, setIsActive] = useState(template?.is_active ?? true);
+  const [fields, setFields] = useState<JobFormFieldInput[]>(
+    template?.fields.map(f => ({
+      id: f.id,
+      label: f.label,
+      field_type: f.field_type,
+      help_text: f.help_text || '',
+      is_required: f.is_required,
+      min_value: f.min_value,
+      max_value: f.max_value,
+      unit: f.unit || '',
+      options: f.options,
+    })) || [{ ...EMPTY_FIELD }]
+  );
+  const [assignments, setAssignments] = useState<JobFormAssignment[]>(
+    template?.assignments.map(a => ({
+      ticket_type: a.ticket_type,
+      equipment_type: a.equipment_type,
+      contract_plan_id: a.contract_plan_id,
+    })) || []
+  );
+  const [saving, setSaving] = useState(false);
+
+  const updateField = (index: number, changes: Partial<JobFormFieldInput>) => {
+    setFields(current => current.map((f, i) => (i === index ? { ...f, ...changes } : f)));
+  };
+
+  const moveField = (index: number, direction: -1 | 1) => {
+    setFields(current => {
+      const next = [...current];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const setAssignmentKind = (index: number, kind: AssignmentKind) => {
+    setAssignments(current => current.map((a, i) => (i === index ? {
+      ticket_type: kind === 'ticket_type' ? 'SVC' : null,
+      equipment_type: kind === 'equipment_type' ? '' : null,
+      contract_plan_id: kind === 'contract_plan' ? contractPlans[0]?.id || null : null,
+    } : a)));
+  };
+
+  const updateAssignment = (index: number, changes: Partial<JobFormAssignment>) => {
+    setAssignments(current => current.map((a, i) => (i === index ? { ...a, ...changes } : a)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const { assignedTickets } = await JobFormService.saveTemplate(
+        template?.id || null,
+        { name, description, is_required: isRequired, is_active: isActive, fields, assignments },
+        profile?.id
+      );
+      onSaved(assignedTickets);
+    } catch (error) {
+      console.error('Error saving job form:', error);
+      alert('Failed to save form: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+            {template ? 'Edit Job Form' : 'New Job Form'}
+          </h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Form Name *</label>
+              <input
+                type="text"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="input"
+                placeholder="e.g., AC Tune-Up Checklist"
+              />
+            </div>
+            <div className="flex items-end space-x-6 pb-2">
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={isRequired}
+                  onChange={(e) => setIsRequired(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                />
+                <span>Required to end work</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={isActive}
+                  onChange={(e) => setIsActive(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                />
+                <span>Active</span>
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+            <textarea
+              rows={2}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="input"
+              placeholder="Shown to the technician at the top of the form"
+            />
+          </div>
+
+          {/* Fields */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Fields</h3>
+            <div className="space-y-3">
+              {fields.map((field, index) => (
+                <div key={field.id || index} className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-gray-500 dark:text-gray-400 w-6">{index + 1}.</span>
+                    <input
+                      type="text"
+                      value={field.label}
+                      onChange={(e) => updateField(index, { label: e.target.value })}
+                      className="input flex-1"
+                      placeholder="Label, e.g. Superheat"
+                    />
+                    <select
+                      value={field.field_type}
+                      onChange={(e) => updateField(index, { field_type: e.target.value as JobFormFieldType })}
+                      className="input w-48"
+                    >
+                      {(Object.keys(FIELD_TYPE_LABELS) as JobFormFieldType[]).map(type => (
+                        <option key={type} value={type}>{FIELD_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => moveField(index, -1)}
+                      disabled={index === 0}
+                      className="p-2 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveField(index, 1)}
+                      disabled={index === fields.length - 1}
+                      className="p-2 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setFields(current => current.filter((_, i) => i !== index))}
+                      className="p-2 text-red-500 hover:text-red-700"
+                      title={field.id ? 'Remove field (past answers are kept)' : 'Remove field'}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-3 pl-8">
+                    {(field.field_type === 'numeric' || field.field_type === 'refrigerant_reading') && (
+                      <>
+                        <div>
+                          <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                            {field.field_type === 'refrigerant_reading' ? 'Superheat Min' : 'Min'}
+                          </label>
+                          <input
+                            type="number"
+                            step="any"
+                            value={field.min_value ?? ''}
+                            onChange={(e) => updateField(index, { min_value: parseNumber(e.target.value) })}
+                            className="input"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                            {field.field_type === 'refrigerant_reading' ? 'Superheat Max' : 'Max'}
+                          </label>
+                          <input
+                            type="number"
+                            step="any"
+                            value={field.max_value ?? ''}
+                            onChange={(e) => updateField(index, { max_value: parseNumber(e.target.value) })}
+                            className="input"
+                          />
+                        </div>
+                      </>
+                    )}
+                    {field.field_type === 'numeric' && (
+                      <div>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Unit</label>
+                        <input
+                          type="text"
+                          value={field.unit}
+                          onChange={(e) => updateField(index, { unit: e.target.value })}
+                          className="input"
+                          placeholder="e.g. °F, psig, A"
+                        />
+                      </div>
+                    )}
+                    {field.field_type === 'dropdown' && (
+                      <div className="md:col-span-3">
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Options (one per line)</label>
+                        <textarea
+                          rows={3}
+                          value={field.options.join('\n')}
+                          onChange={(e) => updateField(index, { options: e.target.value.split('\n') })}
+                          className="input"
+                        />
+                      </div>
+                    )}
+                    <div>
+                      <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300 mt-5">
+                        <input
+                          type="checkbox"
+                          checked={field.is_required}
+                          onChange={(e) => updateField(index, { is_required: e.target.checked })}
+                          className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                        />
+                        <span>Required</span>
+                      </label>
+                    </div>
+                  </div>
+
+                  <div className="pl-8">
+                    <input
+                      type="text"
+                      value={field.help_text}
+                      onChange={(e) => updateField(index, { help_text: e.target.value })}
+                      className="input text-sm"
+                      placeholder="Help text (optional)"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setFields(current => [...current, { ...EMPTY_FIELD }])}
+              className="mt-3 flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Field</span>
+            </button>
+          </div>
+
+          {/* Assignments */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Applies To</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+              The form is added to tickets matching any of these.
+            </p>
+            <div className="space-y-2">
+              {assignments.map((assignment, index) => {
+                const kind = assignmentKind(assignment);
+                return (
+                  <div key={index} className="flex items-center space-x-2">
+                    <select
+                      value={kind}
+                      onChange={(e) => setAssignmentKind(index, e.target.value as AssignmentKind)}
+                      className="input w-48"
+                    >
+                      <option value="ticket_type">Ticket Type</option>
+                      <option value="equipment_type">Equipment Type</option>
+                      <option value="contract_plan">Contract Plan</option>
+                    </select>
+                    {kind === 'ticket_type' && (
+                      <select
+                        value={assignment.ticket_type || ''}
+                        onChange={(e) => updateAssignment(index, { ticket_type: e.target.value as TicketTypeCode })}
+                        className="input flex-1"
+                      >
+                        {(Object.keys(TICKET_TYPE_LABELS) as TicketTypeCode[]).map(type => (
+                          <option key={type} value={type}>{type} - {TICKET_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                    )}
+                    {kind === 'equipment_type' && (
+                      <>
+                        <input
+                          type="text"
+                          list="job-form-equipment-types"
+                          value={assignment.equipment_type || ''}
+                          onChange={(e) => updateAssignment(index, { equipment_type: e.target.value })}
+                          className="input flex-1"
+                          placeholder="e.g. Split System AC"
+                        />
+                        <datalist id="job-form-equipment-types">
+                          {equipmentTypes.map(type => (
+                            <option key={type} value={type} />
+                          ))}
+                        </datalist>
+                      </>
+                    )}
+                    {kind === 'contract_plan' && (
+                      <select
+                        value={assignment.contract_plan_id || ''}
+                        onChange={(e) => updateAssignment(index, { contract_plan_id: e.target.value || null })}
+                        className="input flex-1"
+                      >
+                        <option value="">Select a plan</option>
+                        {contractPlans.map(plan => (
+                          <option key={plan.id} value={plan.id}>{plan.name}</option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setAssignments(current => current.filter((_, i) => i !== index))}
+                      className="p-2 text-red-500 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+              {assignments.length === 0 && (
+                <p className="text-sm text-amber-600">Not assigned yet: the form will not be added to any ticket.</p>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={() => setAssignments(current => [...current, { ticket_type: 'SVC', equipment_type: null, contract_plan_id: null }])}
+              className="mt-3 flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Assignment</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex space-x-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button type="button" onClick={onClose} disabled={saving} className="btn btn-outline flex-1">
+            Cancel
+          </button>
+          <button type="submit" disabled={saving} className="btn btn-primary flex-1">
+            {saving ? 'Saving...' : 'Save Form'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react';
+import { Plus, Edit2, ClipboardCheck, CheckCircle, XCircle } from 'lucide-react';
+import {
+  JobFormService,
+  FIELD_TYPE_LABELS,
+  TICKET_TYPE_LABELS,
+  type JobFormAssignment,
+  type JobFormTemplate,
+} from '../../services/JobFormService';
+import { JobFormTemplateModal } from './JobFormTemplateModal';
+
+const describeAssignment = (assignment: JobFormAssignment): string => {
+  if (assignment.ticket_type) return `Ticket type: ${TICKET_TYPE_LABELS[assignment.ticket_type]}`;
+  if (assignment.equipment_type) return `Equipment: ${assignment.equipment_type}`;
+  return `Plan: ${assignment.contract_plan?.name || 'Unknown'}`;
+};
+
+export function JobFormsSettings() {
+  const [templates, setTemplates] = useState<JobFormTemplate[]>([]);
+  const [equipmentTypes, setEquipmentTypes] = useState<string[]>([]);
+  const [contractPlans, setContractPlans] = useState<Array<{ id: string; name: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<JobFormTemplate | null>(null);
+  const [showModal, setShowModal] = useState(false);
+
+  useEffect(() => {
+    loadTemplates();
+    loadLookups();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setTemplates(await JobFormService.getTemplates());
+    } catch (error) {
+      console.error('Error loading job forms:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadLookups = async () => {
+    try {
+      const [types, plans] = await Promise.all([
+        JobFormService.getEquipmentTypes(),
+        JobFormService.getContractPlans(),
+      ]);
+      setEquipmentTypes(types);
+      setContractPlans(plans);
+    } catch (error) {
+      console.error('Error loading equipment types and contract plans:', error);
+    }
+  };
+
+  const handleToggleActive = async (template: JobFormTemplate) => {
+    try {
+      await JobFormService.setTemplateActive(template.id, !template.is_active);
+      loadTemplates();
+    } catch (error) {
+      console.error('Error updating job form:', error);
+      alert('Failed to update job form. Please try again.');
+    }
+  };
+
+  const openModal = (template: JobFormTemplate | null) => {
+    setEditing(template);
+    setShowModal(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Job Forms</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Checklists and readings technicians complete on tickets, assigned by ticket type, equipment type or contract plan
+          </p>
+        </div>
+        <button onClick={() => openModal(null)} className="btn btn-primary flex items-center space-x-2">
+          <Plus className="w-4 h-4" />
+          <span>New Form</span>
+        </button>
+      </div>
+
+      <div className="card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Form
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Fields
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Applies To
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {templates.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center">
+                    <ClipboardCheck className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
+                    <p className="text-gray-500 dark:text-gray-400">No job forms yet</p>
+                  </td>
+                </tr>
+              ) : (
+                templates.map((template) => (
+                  <tr key={template.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                    <td className="px-6 py-4">
+                      <div className="font-medium text-gray-900 dark:text-white">{template.name}</div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400">
+                        {template.is_required ? 'Required to end work' : 'Optional'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                      <div>{template.fields.length} field{template.fields.length !== 1 ? 's' : ''}</div>
+                      <div className="text-xs">
+                        {[...new Set(template.fields.map(f => FIELD_TYPE_LABELS[f.field_type]))].join(', ')}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      {template.assignments.length === 0 ? (
+                        <span className="text-sm text-amber-600">Not assigned</span>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {template.assignments.map((assignment) => (
+                            <span key={assignment.id} className="badge bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                              {describeAssignment(assignment)}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      {template.is_active ? (
+                        <span className="flex items-center text-green-600 dark:text-green-400">
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          Active
+                        </span>
+                      ) : (
+                        <span className="flex items-center text-red-600 dark:text-red-400">
+                          <XCircle className="w-4 h-4 mr-1" />
+                          Inactive
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => openModal(template)}
+                          className="btn btn-outline text-sm py-1 px-3 flex items-center space-x-1"
+                        >
+                          <Edit2 className="w-3 h-3" />
+                          <span>Edit</span>
+                        </button>
+                        <button
+                          onClick={() => handleToggleActive(template)}
+                          className={`btn ${template.is_active ? 'btn-outline' : 'btn-primary'} text-sm py-1 px-3`}
+                        >
+                          {template.is_active ? 'Deactivate' : 'Activate'}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {showModal && (
+        <JobFormTemplateModal
+          template={editing}
+          equipmentTypes={equipmentTypes}
+          contractPlans={contractPlans}
+          onClose={() => setShowModal(false)}
+          onSaved={(assignedTickets) => {
+            setShowModal(false);
+            if (assignedTickets > 0) {
+              alert(`Form saved and added to ${assignedTickets} open ticket${assignedTickets !== 1 ? 's' : ''}.`);
+            }
+            loadTemplates();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,15 @@
 import { useState, useEffect } from 'react';
-import { Users, Building, Bell, Shield, DollarSign, Truck } from 'lucide-react';
+import { Users, Building, Bell, Shield, DollarSign, Truck, ClipboardCheck, MapPin } from 'lucide-react';
 import { UserManagement } from './UserManagement';
 import { CompanySettings } from './CompanySettings';
 import { NotificationsSettings } from './NotificationsSettings';
 import { PermissionsSettings } from './PermissionsSettings';
 import { LaborRatesSettings } from './LaborRatesSettings';
 import { VehiclesSettings } from './VehiclesSettings';
+import { JobFormsSettings } from './JobFormsSettings';
+import { DispatchSettings } from './DispatchSettings';
 
-type SettingsTab = 'users' | 'company' | 'notifications' | 'permissions' | 'labor-rates' | 'vehicles';
+type SettingsTab = 'users' | 'company' | 'notifications' | 'permissions' | 'labor-rates' | 'vehicles' | 'job-forms' | 'dispatch';
 
 interface SettingsViewProps {
   initialTab?: string;
@@ -22,6 +24,8 @@ export function SettingsView({ initialTab }: SettingsViewProps) {
       case 'settings-notifications': return 'notifications';
       case 'settings-permissions': return 'permissions';
       case 'settings-vehicles': return 'vehicles';
+      case 'settings-job-forms': return 'job-forms';
+      case 'settings-dispatch': return 'dispatch';
       default: return 'users';
     }
   };
@@ -40,6 +44,8 @@ export function SettingsView({ initialTab }: SettingsViewProps) {
     { id: 'company' as SettingsTab, label: 'Company', icon: Building },
     { id: 'labor-rates' as SettingsTab, label: 'Labor Rates', icon: DollarSign },
     { id: 'vehicles' as SettingsTab, label: 'Vehicles', icon: Truck },
+    { id: 'job-forms' as SettingsTab, label: 'Job Forms', icon: ClipboardCheck },
+    { id: 'dispatch' as SettingsTab, label: 'Dispatch', icon: MapPin },
     { id: 'notifications' as SettingsTab, label: 'Notifications', icon: Bell },
     { id: 'permissions' as SettingsTab, label: 'Permissions', icon: Shield },
   ];
@@ -54,6 +60,10 @@ export function SettingsView({ initialTab }: SettingsViewProps) {
         return <LaborRatesSettings />;
       case 'vehicles':
         return <VehiclesSettings />;
+      case 'job-forms':
+        return <JobFormsSettings />;
+      case 'dispatch':
+        return <DispatchSettings />;
       case 'notifications':
         return <NotificationsSettings />;
       case 'permissions':
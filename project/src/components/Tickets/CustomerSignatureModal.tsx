@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { X, FileSignature, Plus, Trash2, MapPin } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCompany } from '../../contexts/CompanyContext';
+import {
+  TicketSignatureService,
+  SIGNATURE_TYPE_LABELS,
+  type DeclinedRepair,
+  type TicketSignatureType,
+} from '../../services/TicketSignatureService';
+import type { ActionResult } from '../../services/OfflineSyncService';
+import { SignaturePad } from './SignaturePad';
+
+interface CustomerSignatureModalProps {
+  ticket: {
+    id: string;
+    ticket_number: string;
+    title: string;
+    customers?: { name: string } | null;
+  };
+  signatureType: TicketSignatureType;
+  onClose: () => void;
+  onCaptured: (result: ActionResult) => void;
+}
+
+/**
+ * Hands the device to the customer to sign a work authorization, a
+ * completion acceptance or a list of declined recommended repairs.
+ */
+export function CustomerSignatureModal({ ticket, signatureType, onClose, onCaptured }: CustomerSignatureModalProps) {
+  const { profile } = useAuth();
+  const { companyName } = useCompany();
+  const [signerName, setSignerName] = useState(ticket.customers?.name || '');
+  const [signerTitle, setSignerTitle] = useState('');
+  const [declinedItems, setDeclinedItems] = useState<DeclinedRepair[]>([{ description: '', estimated_cost: null }]);
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const statement = TicketSignatureService.getStatement(signatureType, companyName);
+  const isDeclinedRepairs = signatureType === 'declined_repairs';
+  const listedRepairs = declinedItems.filter(item => item.description.trim());
+
+  const updateItem = (index: number, changes: Partial<DeclinedRepair>) => {
+    setDeclinedItems(items => items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile?.id || !signatureImage) return;
+
+    setSaving(true);
+    try {
+      const result = await TicketSignatureService.capture(profile.id, ticket, {
+        signature_type: signatureType,
+        signer_name: signerName,
+        signer_title: signerTitle,
+        statement,
+        declined_items: isDeclinedRepairs
+          ? listedRepairs.map(item => ({ description: item.description.trim(), estimated_cost: item.estimated_cost }))
+          : [],
+        signature_image: signatureImage,
+      });
+
+      if (!result.success) throw new Error(result.message);
+      onCaptured(result);
+    } catch (error) {
+      console.error('Error saving signature:', error);
+      alert('Failed to save signature: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-2">
+            <FileSignature className="w-6 h-6 text-blue-600" />
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">{SIGNATURE_TYPE_LABELS[signatureType]}</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">{ticket.ticket_number} - {ticket.title}</p>
+            </div>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {isDeclinedRepairs && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Recommended Repairs Declined *
+              </label>
+              <div className="space-y-2">
+                {declinedItems.map((item, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={item.description}
+                      onChange={(e) => updateItem(index, { description: e.target.value })}
+                      placeholder="Repair description"
+                      className="input flex-1"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={item.estimated_cost ?? ''}
+                      onChange={(e) => updateItem(index, { estimated_cost: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                      placeholder="Estimate $"
+                      className="input w-32"
+                    />
+                    {declinedItems.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setDeclinedItems(items => items.filter((_, i) => i !== index))}
+                        className="p-2 text-red-500 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => setDeclinedItems(items => [...items, { description: '', estimated_cost: null }])}
+                className="mt-2 flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add Repair</span>
+              </button>
+            </div>
+          )}
+
+          <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm text-gray-700 dark:text-gray-300">
+            {statement}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Name *
+              </label>
+              <input
+                type="text"
+                required
+                value={signerName}
+                onChange={(e) => setSignerName(e.target.value)}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Title / Relationship
+              </label>
+              <input
+                type="text"
+                value={signerTitle}
+                onChange={(e) => setSignerTitle(e.target.value)}
+                placeholder="e.g. Homeowner, Property Manager"
+                className="input"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Customer Signature *
+            </label>
+            <SignaturePad onChange={setSignatureImage} />
+          </div>
+
+          <p className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+            <MapPin className="w-3 h-3 mr-1" />
+            The time and location of signing are recorded with the signature.
+          </p>
+        </div>
+
+        <div className="flex space-x-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button type="button" onClick={onClose} className="btn btn-outline flex-1">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !signatureImage || !signerName.trim() || (isDeclinedRepairs && listedRepairs.length === 0)}
+            className="btn btn-primary flex-1 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Accept & Sign'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+import { useState } from 'react';
+import { X, ClipboardCheck, Camera, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  JobFormService,
+  REFRIGERANTS,
+  type JobFormAnswerInput,
+  type JobFormField,
+  type RefrigerantReading,
+  type TicketJobForm,
+} from '../../services/JobFormService';
+import type { ActionResult } from '../../services/OfflineSyncService';
+
+interface JobFormModalProps {
+  ticket: { id: string; ticket_number: string };
+  form: TicketJobForm;
+  readOnly?: boolean;
+  onClose: () => void;
+  onSaved: (result: ActionResult) => void;
+}
+
+const EMPTY_READING: RefrigerantReading = {
+  refrigerant: '',
+  suction_pressure: null,
+  liquid_pressure: null,
+  superheat: null,
+  subcooling: null,
+  outdoor_ambient: null,
+};
+
+const READING_INPUTS: Array<{ key: Exclude<keyof RefrigerantReading, 'refrigerant'>; label: string; unit: string; required: boolean }> = [
+  { key: 'suction_pressure', label: 'Suction Pressure', unit: 'psig', required: true },
+  { key: 'liquid_pressure', label: 'Liquid Pressure', unit: 'psig', required: true },
+  { key: 'superheat', label: 'Superheat', unit: '°F', required: true },
+  { key: 'subcooling', label: 'Subcooling', unit: '°F', required: true },
+  { key: 'outdoor_ambient', label: 'Outdoor Ambient', unit: '°F', required: false },
+];
+
+const parseNumber = (value: string): number | null => (value === '' ? null : parseFloat(value));
+
+const formatRange = (field: JobFormField): string | null => {
+  if (field.min_value === null && field.max_value === null) return null;
+  const unit = field.unit ? ` ${field.unit}` : '';
+  if (field.min_value !== null && field.max_value !== null) return `${field.min_value}–${field.max_value}${unit}`;
+  return field.min_value !== null ? `≥ ${field.min_value}${unit}` : `≤ ${field.max_value}${unit}`;
+};
+
+/**
+ * Fills in a job form on a ticket. Answers are saved through the offline
+ * queue, so the form can be completed without signal.
+ */
+export function JobFormModal({ ticket, form, readOnly = false, onClose, onSaved }: JobFormModalProps) {
+  const { profile } = useAuth();
+  const [drafts, setDrafts] = useState<Record<string, JobFormAnswerInput>>(() =>
+    Object.fromEntries(
+      form.fields.map(field => {
+        const answer = form.answers.find(a => a.field_id === field.id);
+        return [field.id, {
+          field_id: field.id,
+          value_boolean: answer?.value_boolean ?? null,
+          value_numeric: answer?.value_numeric ?? null,
+          value_text: answer?.value_text ?? null,
+          readings: answer?.readings ?? null,
+          photo_url: answer?.photo_url ?? null,
+        }];
+      })
+    )
+  );
+  const [saving, setSaving] = useState(false);
+
+  const pendingPhoto = (fieldId: string) => !!form.answers.find(a => a.field_id === fieldId)?.pending;
+
+  const updateDraft = (fieldId: string, changes: Partial<JobFormAnswerInput>) => {
+    setDrafts(current => ({ ...current, [fieldId]: { ...current[fieldId], ...changes } }));
+  };
+
+  const updateReading = (fieldId: string, changes: Partial<RefrigerantReading>) => {
+    setDrafts(current => ({
+      ...current,
+      [fieldId]: { ...current[fieldId], readings: { ...(current[fieldId].readings || EMPTY_READING), ...changes } },
+    }));
+  };
+
+  const missingFields = form.fields.filter(field => {
+    if (!field.is_required) return false;
+    const draft = drafts[field.id];
+    if (field.field_type === 'photo') return !draft.photo && !draft.photo_url && !pendingPhoto(field.id);
+    return !JobFormService.isAnswered(field, { ...draft, out_of_range: false });
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile?.id) return;
+
+    // New photos, and every other field that has or had a value
+    const answers = form.fields
+      .filter(field => {
+        const draft = drafts[field.id];
+        if (field.field_type === 'photo') return !!draft.photo;
+        return draft.value_boolean !== null || draft.value_numeric !== null || !!draft.value_text || !!draft.readings ||
+          form.answers.some(a => a.field_id === field.id);
+      })
+      .map(field => drafts[field.id]);
+
+    setSaving(true);
+    try {
+      const result = await JobFormService.saveAnswers(profile.id, ticket, form, answers);
+      if (!result.success) throw new Error(result.message);
+      onSaved(result);
+    } catch (error) {
+      console.error('Error saving job form:', error);
+      alert('Failed to save form: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderField = (field: JobFormField) => {
+    const draft = drafts[field.id];
+    const outOfRange = JobFormService.isOutOfRange(field, draft);
+    const range = formatRange(field);
+
+    switch (field.field_type) {
+      case 'checkbox':
+        return (
+          <label className="flex items-center space-x-3">
+            <input
+              type="checkbox"
+              checked={draft.value_boolean === true}
+              disabled={readOnly}
+              onChange={(e) => updateDraft(field.id, { value_boolean: e.target.checked })}
+              className="w-5 h-5 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-900 dark:text-white">{field.label}</span>
+          </label>
+        );
+
+      case 'numeric':
+        return (
+          <div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                step="any"
+                value={draft.value_numeric ?? ''}
+                disabled={readOnly}
+                onChange={(e) => updateDraft(field.id, { value_numeric: parseNumber(e.target.value) })}
+                className={`input flex-1 ${outOfRange ? 'border-amber-500' : ''}`}
+              />
+              {field.unit && <span className="text-sm text-gray-500 dark:text-gray-400">{field.unit}</span>}
+            </div>
+            {range && (
+              <p className={`text-xs mt-1 ${outOfRange ? 'text-amber-600 font-medium' : 'text-gray-500 dark:text-gray-400'}`}>
+                {outOfRange ? `Outside the expected range (${range})` : `Expected ${range}`}
+              </p>
+            )}
+          </div>
+        );
+
+      case 'photo':
+        return (
+          <div className="space-y-2">
+            {draft.photo_url && (
+              <img src={draft.photo_url} alt={field.label} className="h-24 rounded-lg object-cover" />
+            )}
+            {!draft.photo_url && pendingPhoto(field.id) && !draft.photo && (
+              <p className="text-xs text-amber-600">Photo taken, waiting to sync</p>
+            )}
+            {!readOnly && (
+              <label className="btn btn-outline inline-flex items-center space-x-2 cursor-pointer">
+                <Camera className="w-4 h-4" />
+                <span>{draft.photo ? draft.photo.name : draft.photo_url ? 'Retake Photo' : 'Take Photo'}</span>
+                <input
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  className="hidden"
+                  onChange={(e) => updateDraft(field.id, { photo: e.target.files?.[0] })}
+                />
+              </label>
+            )}
+          </div>
+        );
+
+      case 'refrigerant_reading': {
+        const reading = draft.readings || EMPTY_READING;
+        return (
+          <div className="space-y-2">
+            <select
+              value={reading.refrigerant}
+              disabled={readOnly}
+              onChange={(e) => updateReading(field.id, { refrigerant: e.target.value })}
+              className="input"
+            >
+              <option value="">Refrigerant...</option>
+              {REFRIGERANTS.map(r => (
+                <option key={r} value={r}>{r}</option>
+              ))}
+            </select>
+            <div className="grid grid-cols-2 gap-2">
+              {READING_INPUTS.map(input => (
+                <div key={input.key}>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    {input.label} ({input.unit}){input.required && field.is_required && ' *'}
+                  </label>
+                  <input
+                    type="number"
+                    step="any"
+                    value={reading[input.key] ?? ''}
+                    disabled={readOnly}
+                    onChange={(e) => updateReading(field.id, { [input.key]: parseNumber(e.target.value) })}
+                    className={`input ${input.key === 'superheat' && outOfRange ? 'border-amber-500' : ''}`}
+                  />
+                </div>
+              ))}
+            </div>
+            {range && (
+              <p className={`text-xs ${outOfRange ? 'text-amber-600 font-medium' : 'text-gray-500 dark:text-gray-400'}`}>
+                {outOfRange ? `Superheat outside the target range (${range})` : `Target superheat ${range}`}
+              </p>
+            )}
+          </div>
+        );
+      }
+
+      case 'pass_fail':
+        return (
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              disabled={readOnly}
+              onClick={() => updateDraft(field.id, { value_boolean: true })}
+              className={`btn flex-1 flex items-center justify-center space-x-2 ${
+                draft.value_boolean === true ? 'bg-green-600 text-white' : 'btn-outline'
+              }`}
+            >
+              <CheckCircle className="w-4 h-4" />
+              <span>Pass</span>
+            </button>
+            <button
+              type="button"
+              disabled={readOnly}
+              onClick={() => updateDraft(field.id, { value_boolean: false })}
+              className={`btn flex-1 flex items-center justify-center space-x-2 ${
+                draft.value_boolean === false ? 'bg-red-600 text-white' : 'btn-outline'
+              }`}
+            >
+              <XCircle className="w-4 h-4" />
+              <span>Fail</span>
+            </button>
+          </div>
+        );
+
+      case 'dropdown':
+        return (
+          <select
+            value={draft.value_text || ''}
+            disabled={readOnly}
+            onChange={(e) => updateDraft(field.id, { value_text: e.target.value || null })}
+            className="input"
+          >
+            <option value="">Select...</option>
+            {field.options.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-2">
+            <ClipboardCheck className="w-6 h-6 text-blue-600" />
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">{form.name}</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">{ticket.ticket_number}</p>
+            </div>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {form.description && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">{form.description}</p>
+          )}
+          {form.fields.map(field => (
+            <div key={field.id}>
+              {field.field_type !== 'checkbox' && (
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {field.label}{field.is_required && ' *'}
+                </label>
+              )}
+              {renderField(field)}
+              {field.help_text && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{field.help_text}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 space-y-3">
+          {!readOnly && missingFields.length > 0 && (
+            <p className="flex items-center text-xs text-amber-600">
+              <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+              {missingFields.length} required field{missingFields.length !== 1 ? 's' : ''} left. You can save and finish later.
+            </p>
+          )}
+          <div className="flex space-x-3">
+            <button type="button" onClick={onClose} className="btn btn-outline flex-1">
+              {readOnly ? 'Close' : 'Cancel'}
+            </button>
+            {!readOnly && (
+              <button type="submit" disabled={saving} className="btn btn-primary flex-1 disabled:opacity-50">
+                {saving ? 'Saving...' : 'Save Form'}
+              </button>
+            )}
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { Wifi, WifiOff, RefreshCw, CloudOff, AlertTriangle, Camera, X } from 'lucide-react';
+import type { UseOfflineSyncResult } from '../../hooks/useOfflineSync';
+import type { QueuedAction } from '../../services/OfflineSyncService';
+
+interface OfflineSyncStatusProps {
+  sync: UseOfflineSyncResult;
+}
+
+/**
+ * Connection and sync status for the technician app: queued changes,
+ * an action the server refused (blocking the queue) and conflicts that
+ * were not applied on reconnect.
+ */
+export function OfflineSyncStatus({ sync }: OfflineSyncStatusProps) {
+  const { isOnline, syncing, pending, blockedAction, conflicts, lastSyncedAt } = sync;
+
+  const handleDismissConflicts = async () => {
+    try {
+      await sync.dismissConflicts();
+    } catch (error) {
+      console.error('Error dismissing sync conflicts:', error);
+      alert('Could not dismiss the conflicts. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className={`card p-3 flex items-center justify-between ${
+        isOnline ? '' : 'bg-gray-100 dark:bg-gray-800 border-gray-300 dark:border-gray-600'
+      }`}>
+        <div className="flex items-center space-x-3">
+          {isOnline
+            ? <Wifi className="w-5 h-5 text-green-600" />
+            : <WifiOff className="w-5 h-5 text-gray-500" />}
+          <div>
+            <p className="text-sm font-medium text-gray-900 dark:text-white">
+              {isOnline ? 'Online' : 'Offline - changes are saved on this device'}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {syncing
+                ? 'Syncing...'
+                : pending.length > 0
+                  ? `${pending.length} change${pending.length === 1 ? '' : 's'} waiting to sync`
+                  : `All changes synced${lastSyncedAt ? ` · ${new Date(lastSyncedAt).toLocaleTimeString()}` : ''}`}
+            </p>
+          </div>
+        </div>
+        {pending.length > 0 && (
+          <button
+            onClick={() => sync.syncNow()}
+            disabled={!isOnline || syncing || !!blockedAction}
+            className="btn btn-outline flex items-center space-x-2 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+            <span>Sync Now</span>
+          </button>
+        )}
+      </div>
+
+      {blockedAction && (
+        <div className="card p-3 bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800">
+          <div className="flex items-start justify-between">
+            <div className="flex items-start space-x-2">
+              <CloudOff className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <div className="text-sm">
+                <p className="font-medium text-red-800 dark:text-red-200">
+                  Could not sync: {blockedAction.label}
+                  {blockedAction.ticket_number && ` (Ticket ${blockedAction.ticket_number})`}
+                </p>
+                <p className="text-red-700 dark:text-red-300">{blockedAction.error}</p>
+                <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+                  Later changes wait until this one is retried or discarded.
+                </p>
+              </div>
+            </div>
+            <div className="flex space-x-2 flex-shrink-0">
+              <button onClick={() => sync.retry(blockedAction.id)} className="btn btn-outline text-sm">
+                Retry
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm(`Discard "${blockedAction.label}"? It will not be sent.`)) {
+                    sync.discard(blockedAction.id);
+                  }
+                }}
+                className="btn btn-outline text-sm text-red-600 border-red-300"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="card p-3 bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center space-x-2 text-yellow-800 dark:text-yellow-200">
+              <AlertTriangle className="w-5 h-5" />
+              <span className="text-sm font-medium">
+                {conflicts.length} offline change{conflicts.length === 1 ? ' was' : 's were'} not applied
+              </span>
+            </div>
+            <button
+              onClick={handleDismissConflicts}
+              className="p-1 text-yellow-700 hover:text-yellow-900 dark:text-yellow-300"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {conflicts.map(conflict => (
+              <li key={conflict.id} className="text-sm text-yellow-800 dark:text-yellow-200">
+                <span className="font-medium">{conflict.label}</span>
+                {conflict.ticket_number && ` (Ticket ${conflict.ticket_number})`}
+                {' at '}{new Date(conflict.occurred_at).toLocaleTimeString()}: {conflict.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface PendingTicketActionsProps {
+  actions: QueuedAction[];
+}
+
+function PendingPhoto({ photo }: { photo: Blob }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(photo);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [photo]);
+
+  return url
+    ? <img src={url} alt="Pending upload" className="w-12 h-12 object-cover rounded" />
+    : <Camera className="w-5 h-5 text-gray-400" />;
+}
+
+/**
+ * Changes to one ticket that are still waiting in the offline queue.
+ */
+export function PendingTicketActions({ actions }: PendingTicketActionsProps) {
+  if (actions.length === 0) return null;
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center mb-4">
+        <CloudOff className="w-5 h-5 mr-2 text-gray-500" />
+        Waiting to Sync ({actions.length})
+      </h2>
+      <div className="space-y-2">
+        {actions.map(action => (
+          <div
+            key={action.id}
+            className="flex items-center justify-between p-3 border border-dashed border-gray-300 dark:border-gray-600 rounded-lg"
+          >
+            <div className="flex items-center space-x-3">
+              {action.photo && <PendingPhoto photo={action.photo} />}
+              <div>
+                <p className="text-sm text-gray-900 dark:text-white">{action.label}</p>
+                {action.error && <p className="text-xs text-red-600">{action.error}</p>}
+              </div>
+            </div>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {new Date(action.occurred_at).toLocaleTimeString()}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
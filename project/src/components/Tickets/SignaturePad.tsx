@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react';
+import { Eraser } from 'lucide-react';
+
+interface SignaturePadProps {
+  onChange: (dataUrl: string | null) => void;
+  height?: number;
+}
+
+/**
+ * On-screen signature capture for finger, stylus or mouse. Reports the
+ * signature as a PNG data URL, or null while the pad is empty.
+ */
+export function SignaturePad({ onChange, height = 180 }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const hasInkRef = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  // Size the backing store to the device pixel ratio so strokes stay sharp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = height * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#111827';
+  }, [height]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    lastPointRef.current = getPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current || !lastPointRef.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const point = getPoint(e);
+    ctx.beginPath();
+    ctx.moveTo(lastPointRef.current.x, lastPointRef.current.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+    hasInkRef.current = true;
+    setIsEmpty(false);
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    lastPointRef.current = null;
+    if (hasInkRef.current && canvasRef.current) {
+      onChange(canvasRef.current.toDataURL('image/png'));
+    }
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    hasInkRef.current = false;
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <div className="relative border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg bg-white">
+        <canvas
+          ref={canvasRef}
+          style={{ height, touchAction: 'none' }}
+          className="w-full block cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        />
+        {isEmpty && (
+          <span className="absolute inset-0 flex items-center justify-center text-gray-400 pointer-events-none">
+            Sign here
+          </span>
+        )}
+        <div className="absolute bottom-8 left-6 right-6 border-b border-gray-300 pointer-events-none" />
+      </div>
+      <div className="flex justify-end mt-1">
+        <button
+          type="button"
+          onClick={handleClear}
+          className="flex items-center space-x-1 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400"
+        >
+          <Eraser className="w-4 h-4" />
+          <span>Clear</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,15 @@
 import { useEffect, useState, useCallback } from 'react';
-import { Camera, Package, MessageSquare, CheckCircle, Clock, AlertTriangle, MapPin, Phone, User, Plus, X, History, Eye, PackageX, ClipboardList } from 'lucide-react';
+import { Camera, Package, MessageSquare, CheckCircle, Clock, AlertTriangle, MapPin, Phone, User, Plus, X, History, Eye, PackageX, ClipboardList, FileSignature, ClipboardCheck } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
-import { holdTicketForParts, reportTicketIssue } from '../../services/TicketHoldService';
+import { OfflineSyncService, type ActionResult, type TechnicianActionInput } from '../../services/OfflineSyncService';
+import { useOfflineSync } from '../../hooks/useOfflineSync';
+import { OfflineSyncStatus, PendingTicketActions } from './OfflineSyncStatus';
+import { TicketSignatureService, SIGNATURE_TYPE_LABELS, type TicketSignature, type TicketSignatureType } from '../../services/TicketSignatureService';
+import { CustomerSignatureModal } from './CustomerSignatureModal';
+import { JobFormService, type TicketJobForm } from '../../services/JobFormService';
+import { JobFormModal } from './JobFormModal';
+import { PMChecklist } from '../Maintenance/PMChecklist';
 
 type ActiveTimer = {
   has_active_timer: boolean;
@@ -39,6 +46,8 @@ type Ticket = {
   completed_date?: string;
   site_contact_name?: string | null;
   site_contact_phone?: string | null;
+  ticket_type?: string | null;
+  pm_plan_id?: string | null;
   customers: {
     name: string;
     phone: string;
@@ -111,6 +120,70 @@ type StandardCode = {
   triggers_urgent_review: boolean;
 };
 
+type TicketDetails = {
+  updates: TicketUpdate[];
+  photos: TicketPhoto[];
+  partsUsed: PartUsed[];
+  plannedParts: PlannedPart[];
+};
+
+const CLOSED_STATUSES = ['completed', 'closed_billed'];
+
+async function fetchTicketDetails(ticketId: string): Promise<TicketDetails> {
+  const [updatesRes, photosRes, partsRes, plannedPartsRes] = await Promise.all([
+    supabase
+      .from('ticket_updates')
+      .select('*, profiles(full_name)')
+      .eq('ticket_id', ticketId)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('ticket_photos')
+      .select('*')
+      .eq('ticket_id', ticketId)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('ticket_parts_used')
+      .select('*, parts(part_number, name, unit_price)')
+      .eq('ticket_id', ticketId)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('ticket_parts_planned')
+      .select('*, parts(part_number, name)')
+      .eq('ticket_id', ticketId)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  if (updatesRes.error) throw updatesRes.error;
+  if (photosRes.error) throw photosRes.error;
+  if (partsRes.error) throw partsRes.error;
+  if (plannedPartsRes.error) throw plannedPartsRes.error;
+
+  return {
+    updates: (updatesRes.data as unknown as TicketUpdate[]) || [],
+    photos: (photosRes.data as unknown as TicketPhoto[]) || [],
+    partsUsed: (partsRes.data as unknown as PartUsed[]) || [],
+    plannedParts: (plannedPartsRes.data as unknown as PlannedPart[]) || [],
+  };
+}
+
+async function fetchTruckInventory(technicianId: string): Promise<Part[]> {
+  const { data: truckParts, error } = await supabase
+    .from('vw_technician_truck_inventory')
+    .select('part_id, part_number, part_name, unit_price, qty_available')
+    .eq('technician_id', technicianId)
+    .gt('qty_available', 0);
+
+  if (error) throw error;
+
+  // No parts on truck - don't fall back to all parts
+  return (truckParts || []).map(p => ({
+    id: p.part_id,
+    part_number: p.part_number,
+    name: `${p.part_name} (${p.qty_available} on truck)`,
+    unit_price: p.unit_price,
+  }));
+}
+
 export function TechnicianTicketView() {
   const { profile } = useAuth();
   const [tickets, setTickets] = useState<Ticket[]>([]);
@@ -122,6 +195,10 @@ export function TechnicianTicketView() {
   const [photos, setPhotos] = useState<TicketPhoto[]>([]);
   const [partsUsed, setPartsUsed] = useState<PartUsed[]>([]);
   const [plannedParts, setPlannedParts] = useState<PlannedPart[]>([]);
+  const [signatures, setSignatures] = useState<TicketSignature[]>([]);
+  const [signatureRequest, setSignatureRequest] = useState<{ type: TicketSignatureType; thenComplete?: boolean } | null>(null);
+  const [jobForms, setJobForms] = useState<TicketJobForm[]>([]);
+  const [openJobForm, setOpenJobForm] = useState<TicketJobForm | null>(null);
   const [availableParts, setAvailableParts] = useState<Part[]>([]);
   const [activeTimer, setActiveTimer] = useState<ActiveTimer | null>(null);
   const [onSiteProgress, setOnSiteProgress] = useState<OnSiteProgress | null>(null);
@@ -173,9 +250,12 @@ export function TechnicianTicketView() {
   const checkActiveTimer = useCallback(async () => {
     if (!profile?.id) return;
     try {
-      const { data, error } = await supabase.rpc('fn_get_active_timer', { p_tech_id: profile.id });
-      if (error) throw error;
-      setActiveTimer(data as ActiveTimer);
+      const timer = await OfflineSyncService.cached(`active-timer:${profile.id}`, async () => {
+        const { data, error } = await supabase.rpc('fn_get_active_timer', { p_tech_id: profile.id });
+        if (error) throw error;
+        return data as ActiveTimer;
+      });
+      setActiveTimer(timer);
     } catch (error) {
       console.error('Error checking active timer:', error);
     }
@@ -185,17 +265,20 @@ export function TechnicianTicketView() {
     if (!profile?.id) return;
     try {
       // Check if the technician has an active shift clock-in (not a ticket timer)
-      const { data, error } = await supabase
-        .from('time_logs')
-        .select('id')
-        .eq('user_id', profile.id)
-        .eq('status', 'active')
-        .is('clock_out_time', null)
-        .limit(1)
-        .maybeSingle();
-
-      if (error) throw error;
-      setIsShiftClockedIn(!!data);
+      const clockedIn = await OfflineSyncService.cached(`shift-clock-in:${profile.id}`, async () => {
+        const { data, error } = await supabase
+          .from('time_logs')
+          .select('id')
+          .eq('user_id', profile.id)
+          .eq('status', 'active')
+          .is('clock_out_time', null)
+          .limit(1)
+          .maybeSingle();
+
+        if (error) throw error;
+        return !!data;
+      });
+      setIsShiftClockedIn(clockedIn);
     } catch (error) {
       console.error('Error checking shift clock-in:', error);
       setIsShiftClockedIn(false);
@@ -204,29 +287,37 @@ export function TechnicianTicketView() {
 
   const loadStandardCodes = useCallback(async () => {
     try {
-      const [problemRes, resolutionRes] = await Promise.all([
-        supabase
-          .from('standard_codes')
-          .select('code, label, description, category, is_critical_safety, triggers_sales_lead, triggers_urgent_review')
-          .eq('code_type', 'problem')
-          .eq('is_active', true)
-          .order('sort_order'),
-        supabase
-          .from('standard_codes')
-          .select('code, label, description, category, is_critical_safety, triggers_sales_lead, triggers_urgent_review')
-          .eq('code_type', 'resolution')
-          .eq('is_active', true)
-          .order('sort_order'),
-      ]);
-
-      if (problemRes.data) setProblemCodes(problemRes.data);
-      if (resolutionRes.data) setResolutionCodes(resolutionRes.data);
+      const codes = await OfflineSyncService.cached('standard-codes', async () => {
+        const [problemRes, resolutionRes] = await Promise.all([
+          supabase
+            .from('standard_codes')
+            .select('code, label, description, category, is_critical_safety, triggers_sales_lead, triggers_urgent_review')
+            .eq('code_type', 'problem')
+            .eq('is_active', true)
+            .order('sort_order'),
+          supabase
+            .from('standard_codes')
+            .select('code, label, description, category, is_critical_safety, triggers_sales_lead, triggers_urgent_review')
+            .eq('code_type', 'resolution')
+            .eq('is_active', true)
+            .order('sort_order'),
+        ]);
+
+        if (problemRes.error) throw problemRes.error;
+        if (resolutionRes.error) throw resolutionRes.error;
+        return { problem: problemRes.data || [], resolution: resolutionRes.data || [] };
+      });
+
+      setProblemCodes(codes.problem);
+      setResolutionCodes(codes.resolution);
     } catch (error) {
       console.error('Error loading standard codes:', error);
     }
   }, []);
 
   const loadOnSiteProgress = useCallback(async (ticketId: string) => {
+    // Live elapsed time from the server; nothing useful to show from cache
+    if (!navigator.onLine) return;
     try {
       const { data, error } = await supabase
         .from('vw_ticket_onsite_progress')
@@ -245,15 +336,18 @@ export function TechnicianTicketView() {
   const loadCompletedTickets = useCallback(async () => {
     if (!profile?.id) return;
     try {
-      const { data, error } = await supabase
-        .from('tickets')
-        .select('*, customers!tickets_customer_id_fkey(name, phone, email, address), equipment(equipment_type, model_number)')
-        .eq('assigned_to', profile.id)
-        .in('status', ['completed', 'closed_billed'])
-        .order('completed_date', { ascending: false })
-        .limit(20);
-      if (error) throw error;
-      setCompletedTickets((data as unknown as Ticket[]) || []);
+      const completed = await OfflineSyncService.cached(`completed-tickets:${profile.id}`, async () => {
+        const { data, error } = await supabase
+          .from('tickets')
+          .select('*, customers!tickets_customer_id_fkey(name, phone, email, address), equipment(equipment_type, model_number)')
+          .eq('assigned_to', profile.id)
+          .in('status', ['completed', 'closed_billed'])
+          .order('completed_date', { ascending: false })
+          .limit(20);
+        if (error) throw error;
+        return (data as unknown as Ticket[]) || [];
+      });
+      setCompletedTickets(completed);
     } catch (error) {
       console.error('Error loading completed tickets:', error);
     }
@@ -261,54 +355,71 @@ export function TechnicianTicketView() {
 
   const loadMyTickets = useCallback(async () => {
     try {
-      // Get tickets directly assigned via tickets.assigned_to
-      const { data: directTickets, error: directError } = await supabase
-        .from('tickets')
-        .select('*, customers!tickets_customer_id_fkey(name, phone, email, address), equipment(equipment_type, model_number)')
-        .eq('assigned_to', profile?.id)
-        .in('status', ['open', 'scheduled', 'in_progress'])
-        .order('scheduled_date', { ascending: true });
-
-      if (directError) throw directError;
-
-      // Get ticket IDs from ticket_assignments where this tech is assigned
-      const { data: assignments, error: assignError } = await supabase
-        .from('ticket_assignments')
-        .select('ticket_id')
-        .eq('technician_id', profile?.id ?? '');
-
-      if (assignError) throw assignError;
-
-      // Get assigned ticket IDs that aren't already in directTickets
-      const directTicketIds = new Set((directTickets || []).map(t => t.id));
-      const additionalTicketIds = (assignments || [])
-        .map(a => a.ticket_id)
-        .filter(id => !directTicketIds.has(id));
-
-      let allTickets = directTickets || [];
-
-      // Fetch additional tickets from ticket_assignments if any
-      if (additionalTicketIds.length > 0) {
-        const { data: assignedTickets, error: assignedError } = await supabase
+      if (!profile?.id) return;
+      const allTickets = await OfflineSyncService.cached(`my-tickets:${profile.id}`, async () => {
+        // Get tickets directly assigned via tickets.assigned_to
+        const { data: directTickets, error: directError } = await supabase
           .from('tickets')
           .select('*, customers!tickets_customer_id_fkey(name, phone, email, address), equipment(equipment_type, model_number)')
-          .in('id', additionalTicketIds)
+          .eq('assigned_to', profile.id)
           .in('status', ['open', 'scheduled', 'in_progress'])
           .order('scheduled_date', { ascending: true });
 
-        if (assignedError) throw assignedError;
-        allTickets = [...allTickets, ...(assignedTickets || [])];
-      }
+        if (directError) throw directError;
 
-      // Sort combined results by scheduled_date
-      allTickets.sort((a, b) => {
-        const dateA = a.scheduled_date ? new Date(a.scheduled_date).getTime() : Infinity;
-        const dateB = b.scheduled_date ? new Date(b.scheduled_date).getTime() : Infinity;
-        return dateA - dateB;
+        // Get ticket IDs from ticket_assignments where this tech is assigned
+        const { data: assignments, error: assignError } = await supabase
+          .from('ticket_assignments')
+          .select('ticket_id')
+          .eq('technician_id', profile.id);
+
+        if (assignError) throw assignError;
+
+        // Get assigned ticket IDs that aren't already in directTickets
+        const directTicketIds = new Set((directTickets || []).map(t => t.id));
+        const additionalTicketIds = (assignments || [])
+          .map(a => a.ticket_id)
+          .filter(id => !directTicketIds.has(id));
+
+        let combined = directTickets || [];
+
+        // Fetch additional tickets from ticket_assignments if any
+        if (additionalTicketIds.length > 0) {
+          const { data: assignedTickets, error: assignedError } = await supabase
+            .from('tickets')
+            .select('*, customers!tickets_customer_id_fkey(name, phone, email, address), equipment(equipment_type, model_number)')
+            .in('id', additionalTicketIds)
+            .in('status', ['open', 'scheduled', 'in_progress'])
+            .order('scheduled_date', { ascending: true });
+
+          if (assignedError) throw assignedError;
+          combined = [...combined, ...(assignedTickets || [])];
+        }
+
+        // Sort combined results by scheduled_date
+        combined.sort((a, b) => {
+          const dateA = a.scheduled_date ? new Date(a.scheduled_date).getTime() : Infinity;
+          const dateB = b.scheduled_date ? new Date(b.scheduled_date).getTime() : Infinity;
+          return dateA - dateB;
+        });
+
+        console.log('Loaded tickets:', combined.length, '(direct:', directTickets?.length || 0, ', via assignments:', additionalTicketIds.length, ')');
+        return (combined as unknown as Ticket[]) || [];
       });
 
-      console.log('Loaded tickets:', allTickets.length, '(direct:', directTickets?.length || 0, ', via assignments:', additionalTicketIds.length, ')');
-      setTickets((allTickets as unknown as Ticket[]) || []);
+      setTickets(allTickets);
+
+      // Cache details and truck stock for every assigned ticket so the day's
+      // work can be opened without signal
+      if (navigator.onLine) {
+        Promise.allSettled([
+          ...allTickets.map(t => OfflineSyncService.cached(`ticket-details:${t.id}`, () => fetchTicketDetails(t.id))),
+          ...allTickets.map(t => TicketSignatureService.getTicketSignatures(t.id)),
+          ...allTickets.map(t => JobFormService.getTicketForms(t.id)),
+          ...[...new Set([profile.id, ...allTickets.map(t => t.assigned_to).filter((id): id is string => !!id)])]
+            .map(techId => OfflineSyncService.cached(`truck-inventory:${techId}`, () => fetchTruckInventory(techId))),
+        ]);
+      }
     } catch (error) {
       console.error('Error loading tickets:', error);
       alert('Error loading tickets: ' + (error as Error).message);
@@ -322,30 +433,7 @@ export function TechnicianTicketView() {
     const technicianId = ticketAssignedToId || profile?.id;
     if (!technicianId) return;
     try {
-      const { data: truckParts, error: truckError } = await supabase
-        .from('vw_technician_truck_inventory')
-        .select('part_id, part_number, part_name, unit_price, qty_on_hand')
-        .eq('technician_id', technicianId)
-        .gt('qty_on_hand', 0);
-
-      if (truckError) {
-        console.log('No truck inventory view available');
-        setAvailableParts([]);
-        return;
-      }
-
-      if (truckParts && truckParts.length > 0) {
-        const mappedParts = truckParts.map(p => ({
-          id: p.part_id,
-          part_number: p.part_number,
-          name: `${p.part_name} (${p.qty_on_hand} on truck)`,
-          unit_price: p.unit_price,
-        }));
-        setAvailableParts(mappedParts);
-      } else {
-        // No parts on truck - don't fall back to all parts
-        setAvailableParts([]);
-      }
+      setAvailableParts(await OfflineSyncService.cached(`truck-inventory:${technicianId}`, () => fetchTruckInventory(technicianId)));
     } catch (error) {
       console.error('Error loading truck inventory:', error);
       setAvailableParts([]);
@@ -355,38 +443,14 @@ export function TechnicianTicketView() {
   const loadTicketDetails = useCallback(async (ticketId: string, ticketAssignedToId: string | undefined, currentViewMode: string) => {
     console.log('Loading ticket details for:', ticketId);
     try {
-      const [updatesRes, photosRes, partsRes, plannedPartsRes] = await Promise.all([
-        supabase
-          .from('ticket_updates')
-          .select('*, profiles(full_name)')
-          .eq('ticket_id', ticketId)
-          .order('created_at', { ascending: false }),
-        supabase
-          .from('ticket_photos')
-          .select('*')
-          .eq('ticket_id', ticketId)
-          .order('created_at', { ascending: false }),
-        supabase
-          .from('ticket_parts_used')
-          .select('*, parts(part_number, name, unit_price)')
-          .eq('ticket_id', ticketId)
-          .order('created_at', { ascending: false }),
-        supabase
-          .from('ticket_parts_planned')
-          .select('*, parts(part_number, name)')
-          .eq('ticket_id', ticketId)
-          .order('created_at', { ascending: true }),
-      ]);
-
-      if (updatesRes.error) throw updatesRes.error;
-      if (photosRes.error) throw photosRes.error;
-      if (partsRes.error) throw partsRes.error;
-      if (plannedPartsRes.error) throw plannedPartsRes.error;
-
-      setUpdates((updatesRes.data as unknown as TicketUpdate[]) || []);
-      setPhotos((photosRes.data as unknown as TicketPhoto[]) || []);
-      setPartsUsed((partsRes.data as unknown as PartUsed[]) || []);
-      setPlannedParts((plannedPartsRes.data as unknown as PlannedPart[]) || []);
+      const details = await OfflineSyncService.cached(`ticket-details:${ticketId}`, () => fetchTicketDetails(ticketId));
+
+      setUpdates(details.updates);
+      setPhotos(details.photos);
+      setPartsUsed(details.partsUsed);
+      setPlannedParts(details.plannedParts);
+      setSignatures(await TicketSignatureService.getTicketSignatures(ticketId));
+      setJobForms(await JobFormService.getTicketForms(ticketId));
 
       if (currentViewMode !== 'readonly') {
         await loadTruckInventory(ticketAssignedToId);
@@ -397,6 +461,18 @@ export function TechnicianTicketView() {
     }
   }, [loadTruckInventory]);
 
+  // Reload from the server once work queued offline has been applied
+  const sync = useOfflineSync(profile?.id, {
+    onSynced: () => {
+      loadMyTickets();
+      loadCompletedTickets();
+      checkActiveTimer();
+      if (selectedTicket) {
+        loadTicketDetails(selectedTicket.id, selectedTicket.assigned_to, viewMode);
+      }
+    },
+  });
+
   useEffect(() => {
     loadMyTickets();
     loadCompletedTickets();
@@ -428,20 +504,61 @@ export function TechnicianTicketView() {
 
   const loadAllParts = async () => {
     try {
-      const { data, error } = await supabase
-        .from('parts')
-        .select('id, part_number, name, unit_price')
-        .eq('item_type', 'part')
-        .order('name', { ascending: true });
-
-      if (error) throw error;
-      setAllParts(data || []);
+      const parts = await OfflineSyncService.cached('all-parts', async () => {
+        const { data, error } = await supabase
+          .from('parts')
+          .select('id, part_number, name, unit_price')
+          .eq('item_type', 'part')
+          .order('name', { ascending: true });
+
+        if (error) throw error;
+        return data || [];
+      });
+      setAllParts(parts);
     } catch (error) {
       console.error('Error loading all parts:', error);
       setAllParts([]);
     }
   };
 
+  // While an action waits in the offline queue, show its effect on screen and
+  // keep the cached copies in step so a reload without signal agrees
+  const updateTicketLocally = async (ticketId: string, changes: Partial<Ticket>) => {
+    const nextTickets = tickets
+      .map(t => (t.id === ticketId ? { ...t, ...changes } : t))
+      .filter(t => !CLOSED_STATUSES.includes(t.status));
+    setTickets(nextTickets);
+    setSelectedTicket(prev => (prev && prev.id === ticketId ? { ...prev, ...changes } : prev));
+    if (profile?.id) await OfflineSyncService.setCached(`my-tickets:${profile.id}`, nextTickets);
+  };
+
+  const setTimerLocally = async (timer: ActiveTimer) => {
+    setActiveTimer(timer);
+    if (profile?.id) await OfflineSyncService.setCached(`active-timer:${profile.id}`, timer);
+  };
+
+  // Signatures still waiting in the offline queue count as captured
+  const hasSignature = (type: TicketSignatureType) =>
+    signatures.some(s => s.signature_type === type) ||
+    sync.pending.some(a =>
+      a.ticket_id === selectedTicket?.id &&
+      a.action_type === 'CAPTURE_SIGNATURE' &&
+      a.payload.signature_type === type
+    );
+
+  const signaturesRequired = !!selectedTicket && TicketSignatureService.requiresSignatures(selectedTicket);
+
+  const incompleteJobForms = JobFormService.getIncompleteForms(jobForms);
+
+  const submitAction = (input: Omit<TechnicianActionInput, 'ticket_id' | 'ticket_number'>): Promise<ActionResult> => {
+    if (!selectedTicket || !profile?.id) throw new Error('No ticket selected');
+    return OfflineSyncService.submit(profile.id, {
+      ...input,
+      ticket_id: selectedTicket.id,
+      ticket_number: selectedTicket.ticket_number,
+    });
+  };
+
   const handleStartWork = async () => {
     if (!selectedTicket || !profile?.id) return;
 
@@ -456,28 +573,32 @@ export function TechnicianTicketView() {
       return;
     }
 
-    try {
-      const { data, error } = await supabase.rpc('fn_start_ticket_work', {
-        p_tech_id: profile.id,
-        p_ticket_id: selectedTicket.id,
-      });
-
-      if (error) throw error;
+    // The customer authorizes the work before the timer starts
+    if (signaturesRequired && !hasSignature('work_authorization')) {
+      setSignatureRequest({ type: 'work_authorization' });
+      return;
+    }
 
-      const result = data as { success: boolean; message: string; error?: string };
+    try {
+      const result = await submitAction({ action_type: 'START_WORK', label: 'Started work' });
       if (!result.success) {
         alert(result.message);
         return;
       }
 
-      await supabase.from('ticket_updates').insert([{
-        ticket_id: selectedTicket.id,
-        technician_id: profile.id,
-        update_type: 'arrived',
-        notes: 'Arrived on site and started work',
-        progress_percent: 0,
-        status: 'in_progress',
-      }]);
+      if (result.queued) {
+        await setTimerLocally({
+          has_active_timer: true,
+          ticket_id: selectedTicket.id,
+          ticket_number: selectedTicket.ticket_number,
+          started_at: result.occurred_at,
+          elapsed_minutes: 0,
+        });
+        if (selectedTicket.status === 'open' || selectedTicket.status === 'scheduled') {
+          await updateTicketLocally(selectedTicket.id, { status: 'in_progress' });
+        }
+        return;
+      }
 
       await checkActiveTimer();
       await loadMyTickets();
@@ -493,18 +614,23 @@ export function TechnicianTicketView() {
     if (!selectedTicket || !profile?.id) return;
 
     try {
-      const { error } = await supabase.rpc('fn_end_ticket_work', {
-        p_tech_id: profile.id,
-        p_ticket_id: selectedTicket.id,
+      const result = await submitAction({
+        action_type: 'END_WORK',
+        label: markComplete ? 'Stopped work and completed' : 'Stopped work',
+        // A pause leaves the work unfinished, so the job forms can wait
+        payload: { mark_complete: markComplete, pause: !markComplete },
       });
+      if (!result.success) {
+        alert(result.message);
+        return;
+      }
 
-      if (error) throw error;
-
-      if (markComplete) {
-        await supabase
-          .from('tickets')
-          .update({ status: 'completed', completed_date: new Date().toISOString() })
-          .eq('id', selectedTicket.id);
+      if (result.queued) {
+        await setTimerLocally({ has_active_timer: false });
+        if (markComplete) {
+          await updateTicketLocally(selectedTicket.id, { status: 'completed', completed_date: result.occurred_at });
+        }
+        return;
       }
 
       await checkActiveTimer();
@@ -532,6 +658,15 @@ export function TechnicianTicketView() {
     setShowNeedPartsModal(true);
   };
 
+  // Holds stop the ticket timer on the server; mirror that while queued
+  const holdTicketLocally = async (changes: Partial<Ticket>) => {
+    if (!selectedTicket) return;
+    if (activeTimer?.has_active_timer && activeTimer.ticket_id === selectedTicket.id) {
+      await setTimerLocally({ has_active_timer: false });
+    }
+    await updateTicketLocally(selectedTicket.id, { hold_active: true, ...changes });
+  };
+
   const handleSubmitNeedParts = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedTicket) return;
@@ -547,22 +682,30 @@ export function TechnicianTicketView() {
           }]
         : [];
 
-      const result = await holdTicketForParts({
-        ticketId: selectedTicket.id,
-        urgency: needPartsFormData.urgency,
-        notes: needPartsFormData.notes || 'Parts requested',
-        summary: 'Waiting for parts',
-        parts: partsToRequest,
+      const result = await submitAction({
+        action_type: 'HOLD_FOR_PARTS',
+        label: 'Put on hold for parts',
+        payload: {
+          urgency: needPartsFormData.urgency,
+          notes: needPartsFormData.notes || 'Parts requested',
+          summary: 'Waiting for parts',
+          parts: partsToRequest,
+        },
       });
 
       if (result.success) {
         setShowNeedPartsModal(false);
+        if (result.queued) {
+          await holdTicketLocally({ hold_type: 'parts', hold_parts_active: true });
+          alert('Saved offline. The ticket will be placed on hold for parts when you are back online. Timer has been stopped.');
+          return;
+        }
         alert('Ticket placed on hold for parts. Timer has been stopped.');
         await loadTicketDetails(selectedTicket.id);
         await loadMyTickets();
         await checkActiveTimer();
       } else {
-        alert('Failed to hold ticket: ' + (result.error || 'Unknown error'));
+        alert('Failed to hold ticket: ' + (result.message || result.error || 'Unknown error'));
       }
     } catch (error) {
       console.error('Error holding ticket for parts:', error);
@@ -585,21 +728,29 @@ export function TechnicianTicketView() {
     const severity = (severityInput?.toLowerCase() || 'medium') as 'low' | 'medium' | 'high' | 'critical';
 
     try {
-      const result = await reportTicketIssue({
-        ticketId: selectedTicket.id,
-        category,
-        severity,
-        description,
-        summary: `Issue reported - ${category}`,
+      const result = await submitAction({
+        action_type: 'REPORT_ISSUE',
+        label: `Reported issue - ${category.replace(/_/g, ' ')}`,
+        payload: {
+          category,
+          severity,
+          description,
+          summary: `Issue reported - ${category}`,
+        },
       });
 
       if (result.success) {
+        if (result.queued) {
+          await holdTicketLocally({ hold_type: 'issue', hold_issue_active: true });
+          alert('Saved offline. The issue will be reported and the ticket placed on hold when you are back online. Timer has been stopped.');
+          return;
+        }
         alert('Issue reported. Ticket placed on hold. Timer has been stopped.');
         await loadTicketDetails(selectedTicket.id);
         await loadMyTickets();
         await checkActiveTimer();
       } else {
-        alert('Failed to report issue: ' + (result.error || 'Unknown error'));
+        alert('Failed to report issue: ' + (result.message || result.error || 'Unknown error'));
       }
     } catch (error) {
       console.error('Error reporting issue:', error);
@@ -626,74 +777,50 @@ export function TechnicianTicketView() {
     }
 
     try {
-      // Get current user ID
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      if (!profile?.id) {
         throw new Error('User not authenticated');
       }
 
       console.log('Adding update for ticket:', selectedTicket.id);
-      console.log('User ID:', user.id);
       console.log('Update data:', updateFormData);
 
       // If completing, stop the timer first
-      if (isCompletingTicket && activeTimer?.has_active_timer && activeTimer.ticket_id === selectedTicket.id) {
-        const { error: timerError } = await supabase.rpc('fn_end_ticket_work', {
-          p_tech_id: profile?.id,
-          p_ticket_id: selectedTicket.id,
-        });
-        if (timerError) {
-          console.error('Error stopping timer:', timerError);
+      const isTimingThisTicket = activeTimer?.has_active_timer && activeTimer.ticket_id === selectedTicket.id;
+      if (isCompletingTicket && isTimingThisTicket) {
+        const timerResult = await submitAction({ action_type: 'END_WORK', label: 'Stopped work' });
+        if (!timerResult.success) {
+          console.error('Error stopping timer:', timerResult.message);
         }
       }
 
-      const updateData: Record<string, unknown> = {
-        ticket_id: selectedTicket.id,
-        technician_id: user.id,
-        update_type: updateFormData.update_type,
-        notes: updateFormData.notes,
-        progress_percent: updateFormData.progress_percent,
-      };
-
-      // Only include status if it's not empty
-      if (updateFormData.status && updateFormData.status !== '') {
-        updateData.status = updateFormData.status;
-      }
-
-      const { error: updateError } = await supabase.from('ticket_updates').insert([updateData]);
+      const result = await submitAction({
+        action_type: 'ADD_UPDATE',
+        label: isCompletingTicket ? 'Marked complete' : `Added ${updateFormData.update_type.replace(/_/g, ' ')}`,
+        payload: {
+          update_type: updateFormData.update_type,
+          notes: updateFormData.notes,
+          progress_percent: updateFormData.progress_percent,
+          // Only include status if it's not empty
+          status: updateFormData.status || null,
+          // Include problem and resolution codes when completing
+          problem_code: isCompletingTicket ? selectedProblemCode : null,
+          resolution_code: isCompletingTicket ? selectedResolutionCode : null,
+        },
+      });
 
-      if (updateError) {
-        console.error('Error inserting update:', updateError);
-        throw updateError;
+      if (!result.success) {
+        throw new Error(result.message || 'Update was not saved');
       }
 
-      if (updateFormData.status) {
-        const ticketUpdateData: Record<string, unknown> = {
-          status: updateFormData.status,
-          updated_at: new Date().toISOString(),
-          assigned_to: selectedTicket.assigned_to
-        };
-
-        // Add completed_date if marking as completed
-        if (isCompletingTicket) {
-          ticketUpdateData.completed_date = new Date().toISOString();
-          // Include problem and resolution codes when completing
-          if (selectedProblemCode) {
-            ticketUpdateData.problem_code = selectedProblemCode;
-          }
-          if (selectedResolutionCode) {
-            ticketUpdateData.resolution_code = selectedResolutionCode;
-          }
+      if (result.queued) {
+        if (isCompletingTicket && isTimingThisTicket) {
+          await setTimerLocally({ has_active_timer: false });
         }
-
-        const { error: ticketError } = await supabase
-          .from('tickets')
-          .update(ticketUpdateData)
-          .eq('id', selectedTicket.id);
-
-        if (ticketError) {
-          console.error('Error updating ticket status:', ticketError);
-          throw ticketError;
+        if (updateFormData.status) {
+          await updateTicketLocally(selectedTicket.id, {
+            status: updateFormData.status,
+            ...(isCompletingTicket ? { completed_date: result.occurred_at } : {}),
+          });
         }
       }
 
@@ -702,16 +829,20 @@ export function TechnicianTicketView() {
 
       // If completing, show success and navigate back
       if (isCompletingTicket) {
-        await checkActiveTimer();
-        await loadMyTickets();
-        await loadCompletedTickets();
+        if (!result.queued) {
+          await checkActiveTimer();
+          await loadMyTickets();
+          await loadCompletedTickets();
+        }
         setShowCompletionSuccess(true);
         return;
       }
 
       // Reload data for non-completion updates
-      await loadTicketDetails(selectedTicket.id);
-      await loadMyTickets();
+      if (!result.queued) {
+        await loadTicketDetails(selectedTicket.id);
+        await loadMyTickets();
+      }
 
       setShowUpdateModal(false);
       setSelectedProblemCode('');
@@ -742,18 +873,23 @@ export function TechnicianTicketView() {
     if (!selectedTicket) return;
 
     try {
-      const { error } = await supabase.from('ticket_parts_used').insert([{
-        ticket_id: selectedTicket.id,
-        part_id: partsFormData.part_id,
-        quantity: partsFormData.quantity,
-        installed_by: profile?.id,
-        notes: partsFormData.notes,
-      }]);
+      const part = availableParts.find(p => p.id === partsFormData.part_id);
+      const result = await submitAction({
+        action_type: 'ADD_PART',
+        label: `Used ${partsFormData.quantity} x ${part?.part_number || 'part'}`,
+        payload: {
+          part_id: partsFormData.part_id,
+          quantity: partsFormData.quantity,
+          notes: partsFormData.notes,
+        },
+      });
 
-      if (error) throw error;
+      if (!result.success) throw new Error(result.message);
 
       // Reload data before closing modal
-      await loadTicketDetails(selectedTicket.id);
+      if (!result.queued) {
+        await loadTicketDetails(selectedTicket.id);
+      }
 
       setShowPartsModal(false);
       setPartsFormData({
@@ -778,31 +914,6 @@ export function TechnicianTicketView() {
     setUploadingPhoto(true);
 
     try {
-      const fileExt = selectedFile.name.split('.').pop();
-      const fileName = `${selectedTicket.id}/${Date.now()}.${fileExt}`;
-
-      console.log('Uploading file:', fileName, 'Size:', selectedFile.size, 'Type:', selectedFile.type);
-
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('ticket-photos')
-        .upload(fileName, selectedFile, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      if (uploadError) {
-        console.error('Upload error details:', uploadError);
-        throw uploadError;
-      }
-
-      console.log('Upload successful:', uploadData);
-
-      const { data: urlData } = supabase.storage
-        .from('ticket-photos')
-        .getPublicUrl(fileName);
-
-      console.log('Public URL:', urlData.publicUrl);
-
       // Ensure photo_type has a valid value
       const photoType = photoFormData.photo_type || 'during';
       const validPhotoTypes = ['before', 'during', 'after', 'issue', 'equipment', 'other'];
@@ -810,23 +921,25 @@ export function TechnicianTicketView() {
         throw new Error(`Invalid photo_type: ${photoType}`);
       }
 
-      console.log('Inserting record with photo_type:', photoType);
-
-      const { error } = await supabase.from('ticket_photos').insert([{
-        ticket_id: selectedTicket.id,
-        uploaded_by: profile?.id,
-        photo_url: urlData.publicUrl,
-        photo_type: photoType,
-        caption: photoFormData.caption || null,
-      }]);
+      console.log('Saving photo:', selectedFile.name, 'Size:', selectedFile.size, 'Type:', selectedFile.type);
+
+      // The photo is uploaded to storage with the action, now or on reconnect
+      const result = await submitAction({
+        action_type: 'ADD_PHOTO',
+        label: `Added ${photoType} photo${photoFormData.caption ? `: ${photoFormData.caption}` : ''}`,
+        payload: {
+          photo_type: photoType,
+          caption: photoFormData.caption || null,
+        },
+        photo: selectedFile,
+      });
 
-      if (error) {
-        console.error('Database insert error:', error);
-        throw error;
-      }
+      if (!result.success) throw new Error(result.message);
 
       // Reload data before closing modal
-      await loadTicketDetails(selectedTicket.id);
+      if (!result.queued) {
+        await loadTicketDetails(selectedTicket.id);
+      }
 
       setShowPhotoModal(false);
       setPhotoFormData({
@@ -835,7 +948,9 @@ export function TechnicianTicketView() {
         caption: '',
       });
       setSelectedFile(null);
-      alert('Photo uploaded successfully!');
+      alert(result.queued
+        ? 'Photo saved on this device. It will upload when you are back online.'
+        : 'Photo uploaded successfully!');
     } catch (error: unknown) {
       console.error('Error uploading photo:', error);
       const errorMessage = (error as { message?: string })?.message || 'Unknown error occurred';
@@ -934,6 +1049,8 @@ export function TechnicianTicketView() {
           </span>
         </div>
 
+        {!isReadonly && <OfflineSyncStatus sync={sync} />}
+
         {onSiteProgress && onSiteProgress.percent > 0 && !isReadonly && (
           <div className={`card p-4 ${onSiteProgress.is_overrun ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800' : ''}`}>
             <div className="flex items-center justify-between mb-2">
@@ -1010,6 +1127,10 @@ export function TechnicianTicketView() {
               </div>
             </div>
 
+            {!isReadonly && (
+              <PendingTicketActions actions={sync.pending.filter(a => a.ticket_id === selectedTicket.id)} />
+            )}
+
             <div className="card p-6">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-lg font-bold text-gray-900 dark:text-white">Updates</h2>
@@ -1113,6 +1234,61 @@ export function TechnicianTicketView() {
               </div>
             </div>
 
+            {/* Job Forms */}
+            {jobForms.length > 0 && (
+              <div className="card p-6 border-l-4 border-l-purple-500">
+                <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center mb-4">
+                  <ClipboardCheck className="w-5 h-5 mr-2 text-purple-600" />
+                  Job Forms
+                </h2>
+                <div className="space-y-2">
+                  {jobForms.map((form) => {
+                    const missing = JobFormService.getMissingFields(form).length;
+                    const outOfRange = form.answers.filter(a => a.out_of_range).length;
+                    return (
+                      <button
+                        key={form.id}
+                        type="button"
+                        onClick={() => setOpenJobForm(form)}
+                        className="w-full flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-lg text-left hover:bg-gray-50 dark:hover:bg-gray-700"
+                      >
+                        <div>
+                          <p className="text-sm font-medium text-gray-900 dark:text-white">
+                            {form.name}
+                            {form.is_required && missing > 0 && <span className="ml-1 text-red-600">*</span>}
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {missing === 0
+                              ? 'Complete'
+                              : `${missing} required field${missing !== 1 ? 's' : ''} left`}
+                            {outOfRange > 0 && (
+                              <span className="ml-2 text-amber-600">{outOfRange} out of range</span>
+                            )}
+                          </p>
+                        </div>
+                        {missing === 0 ? (
+                          <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+                        ) : (
+                          <span className="text-sm text-blue-600">{isReadonly ? 'View' : 'Fill In'}</span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Preventive Maintenance Checklist */}
+            {selectedTicket.pm_plan_id && (
+              <div className="card p-6 border-l-4 border-l-green-500">
+                <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center mb-4">
+                  <ClipboardList className="w-5 h-5 mr-2 text-green-600" />
+                  PM Checklist
+                </h2>
+                <PMChecklist ticketId={selectedTicket.id} readOnly={isReadonly} />
+              </div>
+            )}
+
             {/* Planned Materials from Estimate */}
             {plannedParts.length > 0 && (
               <div className="card p-6 border-l-4 border-l-blue-500">
@@ -1270,6 +1446,81 @@ export function TechnicianTicketView() {
               )}
             </div>
 
+            <div className="card p-6">
+              <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center mb-4">
+                <FileSignature className="w-5 h-5 mr-2" />
+                Customer Signatures
+              </h2>
+              <div className="space-y-3">
+                {signatures.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No signatures yet</p>
+                ) : (
+                  signatures.map((signature) => (
+                    <div key={signature.id} className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-900 dark:text-white">
+                          {SIGNATURE_TYPE_LABELS[signature.signature_type]}
+                        </span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(signature.signed_at).toLocaleString()}
+                        </span>
+                      </div>
+                      <img
+                        src={signature.signature_image}
+                        alt={`Signature of ${signature.signer_name}`}
+                        className="h-12 my-1 bg-white rounded"
+                      />
+                      <p className="text-sm text-gray-700 dark:text-gray-300">
+                        {signature.signer_name}{signature.signer_title && `, ${signature.signer_title}`}
+                      </p>
+                      {signature.declined_items.length > 0 && (
+                        <ul className="mt-1 text-xs text-gray-600 dark:text-gray-400 list-disc list-inside">
+                          {signature.declined_items.map((item, i) => (
+                            <li key={i}>
+                              {item.description}
+                              {item.estimated_cost !== null && ` ($${item.estimated_cost.toFixed(2)})`}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {TicketSignatureService.formatLocation(signature) && (
+                        <p className="flex items-center text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          <MapPin className="w-3 h-3 mr-1" />
+                          {TicketSignatureService.formatLocation(signature)}
+                        </p>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+              {!isReadonly && !CLOSED_STATUSES.includes(selectedTicket.status) && (
+                <div className="mt-4 space-y-2">
+                  {!hasSignature('work_authorization') && (
+                    <button
+                      onClick={() => setSignatureRequest({ type: 'work_authorization' })}
+                      className="w-full btn btn-outline"
+                    >
+                      Work Authorization
+                    </button>
+                  )}
+                  {!hasSignature('work_completion') && (
+                    <button
+                      onClick={() => setSignatureRequest({ type: 'work_completion' })}
+                      className="w-full btn btn-outline"
+                    >
+                      Completion Acceptance
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setSignatureRequest({ type: 'declined_repairs' })}
+                    className="w-full btn btn-outline"
+                  >
+                    Declined Repairs
+                  </button>
+                </div>
+              )}
+            </div>
+
             <div className="card p-6">
               <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-4">Time Tracking</h2>
               <div className="space-y-3 mb-6">
@@ -1330,7 +1581,9 @@ export function TechnicianTicketView() {
                               ? 'On Hold - Cannot Start'
                               : !isShiftClockedIn
                                 ? 'Clock In Required to Start'
-                                : 'Start Work (Begin Timer)'}
+                                : signaturesRequired && !hasSignature('work_authorization')
+                                  ? 'Get Work Authorization'
+                                  : 'Start Work (Begin Timer)'}
                           </span>
                         </button>
                       </>
@@ -1382,6 +1635,17 @@ export function TechnicianTicketView() {
                           alert('Cannot complete a ticket that is on hold. Please resume the ticket first.');
                           return;
                         }
+                        // Required job forms are filled in before the customer signs off
+                        if (incompleteJobForms.length > 0) {
+                          alert(`Complete the required forms first: ${incompleteJobForms.map(f => f.name).join(', ')}`);
+                          setOpenJobForm(incompleteJobForms[0]);
+                          return;
+                        }
+                        // The customer accepts the work before the ticket is completed
+                        if (signaturesRequired && !hasSignature('work_completion')) {
+                          setSignatureRequest({ type: 'work_completion', thenComplete: true });
+                          return;
+                        }
                         setUpdateFormData({ ...updateFormData, update_type: 'completed', status: 'completed', progress_percent: 100 });
                         setShowUpdateModal(true);
                       }}
@@ -1393,7 +1657,13 @@ export function TechnicianTicketView() {
                       }`}
                     >
                       <CheckCircle className="w-4 h-4" />
-                      <span>{selectedTicket.hold_active ? 'Resume Ticket First' : 'Mark Complete'}</span>
+                      <span>
+                        {selectedTicket.hold_active
+                          ? 'Resume Ticket First'
+                          : signaturesRequired && !hasSignature('work_completion')
+                            ? 'Get Sign-Off & Complete'
+                            : 'Mark Complete'}
+                      </span>
                     </button>
                   </div>
                 </>
@@ -1564,6 +1834,40 @@ export function TechnicianTicketView() {
           </div>
         )}
 
+        {signatureRequest && (
+          <CustomerSignatureModal
+            ticket={selectedTicket}
+            signatureType={signatureRequest.type}
+            onClose={() => setSignatureRequest(null)}
+            onCaptured={async (result) => {
+              const { thenComplete } = signatureRequest;
+              setSignatureRequest(null);
+              if (!result.queued) {
+                setSignatures(await TicketSignatureService.getTicketSignatures(selectedTicket.id));
+              }
+              if (thenComplete) {
+                setUpdateFormData({ ...updateFormData, update_type: 'completed', status: 'completed', progress_percent: 100 });
+                setShowUpdateModal(true);
+              }
+            }}
+          />
+        )}
+
+        {openJobForm && (
+          <JobFormModal
+            ticket={selectedTicket}
+            form={openJobForm}
+            readOnly={isReadonly || CLOSED_STATUSES.includes(selectedTicket.status)}
+            onClose={() => setOpenJobForm(null)}
+            onSaved={async (result) => {
+              setOpenJobForm(null);
+              setJobForms(result.queued
+                ? await JobFormService.getCachedTicketForms(selectedTicket.id)
+                : await JobFormService.getTicketForms(selectedTicket.id));
+            }}
+          />
+        )}
+
         {showPartsModal && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
             <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-lg w-full">
@@ -1931,6 +2235,8 @@ export function TechnicianTicketView() {
         </button>
       </div>
 
+      <OfflineSyncStatus sync={sync} />
+
       {activeTimer?.has_active_timer && (
         <div className="card p-4 bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800">
           <div className="flex items-center justify-between">
@@ -564,6 +564,8 @@ export function VendorContractDetailModal({ contract: initialContract, onClose }
                     <option value="on_time_delivery">On-Time Delivery</option>
                     <option value="fill_rate">Fill Rate</option>
                     <option value="quality_defect_rate">Quality Defect Rate</option>
+                    <option value="incoming_ppm">Incoming PPM</option>
+                    <option value="lot_reject_rate">Lot Reject Rate</option>
                     <option value="invoice_accuracy">Invoice Accuracy</option>
                     <option value="response_time">Response Time</option>
                     <option value="other">Other</option>
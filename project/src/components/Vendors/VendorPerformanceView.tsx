@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { TrendingUp, TrendingDown, Minus, AlertCircle, CheckCircle } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import type { Database } from '../../lib/database.types';
+import { SupplierQualityService, VendorQualityMetrics } from '../../services/SupplierQualityService';
 
 type VendorContractSla = Database['public']['Tables']['vendor_contract_slas']['Row'];
 
@@ -20,8 +21,15 @@ interface PerformanceMetric {
   unit: string;
   trend: 'up' | 'down' | 'stable';
   status: 'good' | 'warning' | 'critical' | 'unknown';
+  breachThreshold?: number;
 }
 
+// Incoming inspection metrics are always shown, with these targets unless a contract SLA sets them
+const QUALITY_METRIC_DEFAULTS: Record<string, { label: string; target: number; unit: string }> = {
+  incoming_ppm: { label: 'Incoming PPM', target: 1000, unit: ' PPM' },
+  lot_reject_rate: { label: 'Lot Reject Rate', target: 2, unit: '%' },
+};
+
 interface VendorSummary {
   id: string;
   display_name: string;
@@ -38,16 +46,20 @@ export function VendorPerformanceView({ vendorId }: VendorPerformanceViewProps)
   const [loading, setLoading] = useState(true);
   const [metrics, setMetrics] = useState<PerformanceMetric[]>([]);
   const [vendors, setVendors] = useState<VendorSummary[]>([]);
+  const [qualityMetrics, setQualityMetrics] = useState<Record<string, VendorQualityMetrics>>({});
 
   const loadVendorPerformance = useCallback(async (id: string) => {
-    const { data: slas } = await supabase
-      .from('vendor_contract_slas')
-      .select(`
-        *,
-        vendor_contracts!inner(vendor_id, status)
-      `)
-      .eq('vendor_contracts.vendor_id', id)
-      .eq('vendor_contracts.status', 'active');
+    const [{ data: slas }, [quality]] = await Promise.all([
+      supabase
+        .from('vendor_contract_slas')
+        .select(`
+          *,
+          vendor_contracts!inner(vendor_id, status)
+        `)
+        .eq('vendor_contracts.vendor_id', id)
+        .eq('vendor_contracts.status', 'active'),
+      SupplierQualityService.getVendorQualityMetrics(id),
+    ]);
 
     const performanceMetrics: PerformanceMetric[] = [];
 
@@ -61,6 +73,7 @@ export function VendorPerformanceView({ vendorId }: VendorPerformanceViewProps)
           unit: sla.target_unit,
           trend: 'stable',
           status: 'unknown',
+          breachThreshold: sla.breach_threshold !== null ? Number(sla.breach_threshold) : undefined,
         });
       });
     } else {
@@ -95,17 +108,35 @@ export function VendorPerformanceView({ vendorId }: VendorPerformanceViewProps)
       );
     }
 
-    setMetrics(performanceMetrics);
+    Object.entries(QUALITY_METRIC_DEFAULTS).forEach(([metric, defaults]) => {
+      if (!performanceMetrics.some(m => m.metric === metric)) {
+        performanceMetrics.push({
+          metric,
+          metricLabel: defaults.label,
+          target: defaults.target,
+          actual: null,
+          unit: defaults.unit,
+          trend: 'stable',
+          status: 'unknown',
+        });
+      }
+    });
+
+    setMetrics(performanceMetrics.map(metric => applyQualityActual(metric, quality)));
   }, []);
 
   const loadAllVendorsPerformance = useCallback(async () => {
-    const { data } = await supabase
-      .from('vendors')
-      .select('id, display_name, vendor_code, rating, status')
-      .eq('status', 'active')
-      .order('display_name');
+    const [{ data }, quality] = await Promise.all([
+      supabase
+        .from('vendors')
+        .select('id, display_name, vendor_code, rating, status')
+        .eq('status', 'active')
+        .order('display_name'),
+      SupplierQualityService.getVendorQualityMetrics(),
+    ]);
 
     setVendors((data as unknown as VendorSummary[]) || []);
+    setQualityMetrics(Object.fromEntries(quality.map(q => [q.vendor_id, q])));
   }, []);
 
   const loadPerformanceData = useCallback(async () => {
@@ -127,12 +158,34 @@ export function VendorPerformanceView({ vendorId }: VendorPerformanceViewProps)
   }, [loadPerformanceData]);
 
   const formatMetricLabel = (metric: string): string => {
+    if (QUALITY_METRIC_DEFAULTS[metric]) return QUALITY_METRIC_DEFAULTS[metric].label;
     return metric
       .split('_')
       .map(word => word.charAt(0).toUpperCase() + word.slice(1))
       .join(' ');
   };
 
+  // Quality metrics are lower-is-better; quality_defect_rate is the rejected share of received quantity
+  const applyQualityActual = (metric: PerformanceMetric, quality?: VendorQualityMetrics): PerformanceMetric => {
+    if (!quality) return metric;
+
+    let actual: number | null = null;
+    if (metric.metric === 'incoming_ppm') {
+      actual = quality.ppm !== null ? Number(quality.ppm) : null;
+    } else if (metric.metric === 'lot_reject_rate') {
+      actual = quality.lot_reject_rate !== null ? Number(quality.lot_reject_rate) : null;
+    } else if (metric.metric === 'quality_defect_rate') {
+      actual = quality.ppm !== null ? Math.round(Number(quality.ppm) / 100) / 100 : null;
+    } else {
+      return metric;
+    }
+    if (actual === null) return metric;
+
+    const breach = metric.breachThreshold ?? metric.target * 1.5;
+    const status = actual <= metric.target ? 'good' : actual <= breach ? 'warning' : 'critical';
+    return { ...metric, actual, status };
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'good':
@@ -277,6 +330,15 @@ export function VendorPerformanceView({ vendorId }: VendorPerformanceViewProps)
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                     Overall Rating
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Incoming PPM
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Lot Reject Rate
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Open SCARs
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                     Status
                   </th>
@@ -286,43 +348,73 @@ export function VendorPerformanceView({ vendorId }: VendorPerformanceViewProps)
                 </tr>
               </thead>
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                {vendors.map((vendor) => (
-                  <tr key={vendor.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
-                    <td className="px-6 py-4">
-                      <div>
-                        <div className="font-medium text-gray-900 dark:text-white">
-                          {vendor.display_name}
-                        </div>
-                        <div className="text-sm text-gray-500 dark:text-gray-400">
-                          {vendor.vendor_code}
-                        </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4">
-                      {vendor.rating ? (
-                        <div className="flex items-center">
-                          <span className="text-2xl font-bold text-gray-900 dark:text-white mr-2">
-                            {vendor.rating.toFixed(1)}
-                          </span>
-                          <span className="text-sm text-gray-500 dark:text-gray-400">/ 5.0</span>
+                {vendors.map((vendor) => {
+                  const quality = qualityMetrics[vendor.id];
+                  return (
+                    <tr key={vendor.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                      <td className="px-6 py-4">
+                        <div>
+                          <div className="font-medium text-gray-900 dark:text-white">
+                            {vendor.display_name}
+                          </div>
+                          <div className="text-sm text-gray-500 dark:text-gray-400">
+                            {vendor.vendor_code}
+                          </div>
                         </div>
-                      ) : (
-                        <span className="text-gray-400 dark:text-gray-500">Not rated</span>
-                      )}
-                    </td>
-                    <td className="px-6 py-4">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded text-xs font-medium bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400">
-                        <CheckCircle className="w-3 h-3 mr-1" />
-                        {vendor.status}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4">
-                      <button className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300">
-                        View Details
-                      </button>
-                    </td>
-                  </tr>
-                ))}
+                      </td>
+                      <td className="px-6 py-4">
+                        {vendor.rating ? (
+                          <div className="flex items-center">
+                            <span className="text-2xl font-bold text-gray-900 dark:text-white mr-2">
+                              {vendor.rating.toFixed(1)}
+                            </span>
+                            <span className="text-sm text-gray-500 dark:text-gray-400">/ 5.0</span>
+                          </div>
+                        ) : (
+                          <span className="text-gray-400 dark:text-gray-500">Not rated</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">
+                        {quality?.ppm !== null && quality?.ppm !== undefined ? (
+                          <>
+                            {Number(quality.ppm).toLocaleString()}
+                            <span className="block text-xs text-gray-500 dark:text-gray-400">
+                              {Number(quality.qty_rejected)} of {Number(quality.qty_inspected)} rejected
+                            </span>
+                          </>
+                        ) : (
+                          <span className="text-gray-400 dark:text-gray-500">No inspections</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">
+                        {quality?.lot_reject_rate !== null && quality?.lot_reject_rate !== undefined ? (
+                          <>
+                            {Number(quality.lot_reject_rate)}%
+                            <span className="block text-xs text-gray-500 dark:text-gray-400">
+                              {quality.lots_rejected} of {quality.lots_inspected} lots
+                            </span>
+                          </>
+                        ) : (
+                          <span className="text-gray-400 dark:text-gray-500">—</span>
+                        )}
+                      </td>
+                      <td className={`px-6 py-4 text-sm ${quality?.open_scars ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-500 dark:text-gray-400'}`}>
+                        {quality?.open_scars || 0}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded text-xs font-medium bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400">
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          {vendor.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4">
+                        <button className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300">
+                          View Details
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           </div>
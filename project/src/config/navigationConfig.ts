@@ -3,7 +3,7 @@ import {
   Ticket,
   ClipboardList,
   Calendar,
-  MapPin as _MapPin,
+  MapPin,
   Map,
   Clock,
   Package,
@@ -22,6 +22,9 @@ import {
   TrendingUp,
   Receipt,
   Calculator,
+  Cpu,
+  Siren,
+  CalendarCheck,
   Wallet,
   AlertTriangle,
   LineChart,
@@ -46,6 +49,13 @@ import {
   Gauge,
   ClipboardCheck,
   XCircle,
+  Ruler,
+  Crosshair,
+  ListChecks,
+  BadgeCheck,
+  Boxes,
+  CalendarClock,
+  PenLine,
 } from 'lucide-react';
 
 export interface NavigationItem {
@@ -225,6 +235,12 @@ export const navigationConfig: NavigationGroup[] = [
             icon: Shield,
             roles: ADMIN_OPS,
           },
+          {
+            id: 'equipment-pm',
+            label: 'PM Plans',
+            icon: CalendarCheck,
+            roles: ADMIN_OPS,
+          },
         ],
       },
     ],
@@ -248,7 +264,7 @@ export const navigationConfig: NavigationGroup[] = [
     id: 'production',
     label: 'Production',
     icon: Factory,
-    roles: ['admin', 'dispatcher', 'operator', 'supervisor', 'material_handler'],
+    roles: ['admin', 'dispatcher', 'operator', 'technician', 'supervisor', 'material_handler'],
     children: [
       {
         id: 'production-dashboard',
@@ -274,18 +290,54 @@ export const navigationConfig: NavigationGroup[] = [
         icon: Gauge,
         roles: ['admin', 'dispatcher', 'supervisor'],
       },
+      {
+        id: 'production-andon',
+        label: 'Andon Board',
+        icon: Siren,
+        roles: ['admin', 'dispatcher', 'operator', 'technician', 'material_handler', 'supervisor'],
+      },
+      {
+        id: 'production-maintenance',
+        label: 'Maintenance',
+        icon: CalendarCheck,
+        roles: ['admin', 'dispatcher', 'technician', 'supervisor'],
+      },
       {
         id: 'production-downtime',
         label: 'Downtime Log',
         icon: AlertTriangle,
         roles: ['admin', 'dispatcher', 'operator', 'supervisor'],
       },
+      {
+        id: 'production-products',
+        label: 'Product Master',
+        icon: Boxes,
+        roles: ['admin', 'dispatcher', 'supervisor'],
+      },
+      {
+        id: 'production-mrp',
+        label: 'Material Planning',
+        icon: Calculator,
+        roles: ['admin', 'dispatcher', 'supervisor'],
+      },
       {
         id: 'production-work-centers',
         label: 'Work Centers',
         icon: Layers,
         roles: ['admin', 'dispatcher'],
       },
+      {
+        id: 'production-shift-calendars',
+        label: 'Shift Calendars',
+        icon: CalendarClock,
+        roles: ['admin', 'dispatcher', 'supervisor'],
+      },
+      {
+        id: 'production-machine-integration',
+        label: 'Machine Integration',
+        icon: Cpu,
+        roles: ['admin', 'dispatcher', 'supervisor'],
+      },
       {
         id: 'production-material-moves',
         label: 'Material Moves',
@@ -318,12 +370,48 @@ export const navigationConfig: NavigationGroup[] = [
         icon: XCircle,
         roles: ['admin', 'dispatcher', 'supervisor', 'quality_inspector'],
       },
+      {
+        id: 'quality-capa',
+        label: 'Corrective Actions',
+        icon: ListChecks,
+        roles: ['admin', 'dispatcher', 'supervisor', 'quality_inspector'],
+      },
+      {
+        id: 'quality-fai',
+        label: 'First Article',
+        icon: BadgeCheck,
+        roles: ['admin', 'dispatcher', 'supervisor', 'quality_inspector'],
+      },
+      {
+        id: 'quality-signatures',
+        label: 'E-Signatures',
+        icon: PenLine,
+        roles: ['admin', 'dispatcher', 'supervisor', 'quality_inspector'],
+      },
       {
         id: 'quality-spc',
         label: 'SPC Dashboard',
         icon: LineChart,
         roles: ['admin', 'dispatcher', 'supervisor', 'quality_inspector'],
       },
+      {
+        id: 'quality-gauges',
+        label: 'Gauges & Calibration',
+        icon: Ruler,
+        roles: ['admin', 'dispatcher', 'supervisor', 'quality_inspector'],
+      },
+      {
+        id: 'quality-gage-rr',
+        label: 'Gage R&R',
+        icon: Crosshair,
+        roles: ['admin', 'dispatcher', 'supervisor', 'quality_inspector'],
+      },
+      {
+        id: 'quality-supplier',
+        label: 'Supplier Quality',
+        icon: Truck,
+        roles: ['admin', 'dispatcher', 'supervisor', 'quality_inspector'],
+      },
       {
         id: 'quality-inspection-plans',
         label: 'Inspection Plans',
@@ -596,6 +684,12 @@ export const navigationConfig: NavigationGroup[] = [
             icon: TrendingUp,
             roles: FINANCE_ROLES,
           },
+          {
+            id: 'reports-job-forms',
+            label: 'Job Form Answers',
+            icon: ClipboardCheck,
+            roles: FINANCE_ROLES,
+          },
         ],
       },
       {
@@ -686,6 +780,18 @@ export const navigationConfig: NavigationGroup[] = [
             icon: Truck,
             roles: ADMIN_ONLY,
           },
+          {
+            id: 'settings-job-forms',
+            label: 'Job Forms',
+            icon: ClipboardCheck,
+            roles: ADMIN_ONLY,
+          },
+          {
+            id: 'settings-dispatch',
+            label: 'Skills & Territories',
+            icon: MapPin,
+            roles: ADMIN_ONLY,
+          },
         ],
       },
     ],
@@ -0,0 +1,126 @@
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { AndonService, type AndonTile } from '../services/AndonService';
+
+// Tables whose changes can move a tile's color, count or calls
+const ANDON_TABLES = [
+  'equipment_state_events',
+  'downtime_events',
+  'production_counts',
+  'production_operation_runs',
+  'quality_nonconformances',
+  'spc_rule_violations',
+  'andon_calls',
+];
+
+interface UseAndonBoardOptions {
+  workCenterIds?: string[] | null; // default all active work centers
+  pollingInterval?: number; // ms, default 30000
+  enableRealtime?: boolean; // default true
+}
+
+interface UseAndonBoardResult {
+  tiles: AndonTile[];
+  loading: boolean;
+  error: string | null;
+  lastUpdated: Date | null;
+  refresh: () => Promise<void>;
+}
+
+export function useAndonBoard(options: UseAndonBoardOptions = {}): UseAndonBoardResult {
+  const { workCenterIds, pollingInterval = 30000, enableRealtime = true } = options;
+  // Stable dependency for the id list; null means every work center
+  const workCenterKey = workCenterIds ? workCenterIds.join(',') : null;
+
+  const [tiles, setTiles] = useState<AndonTile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const pollingRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const realtimeChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+
+  const loadBoard = useCallback(async () => {
+    try {
+      const ids = workCenterKey === null ? undefined : workCenterKey.split(',').filter(Boolean);
+      setTiles(await AndonService.getBoard(ids));
+      setLastUpdated(new Date());
+      setError(null);
+    } catch (err: unknown) {
+      console.error('Error loading andon board:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load andon board');
+    } finally {
+      setLoading(false);
+    }
+  }, [workCenterKey]);
+
+  // Machine signals arrive in bursts; coalesce them into one reload
+  const scheduleReload = useCallback(() => {
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+    debounceRef.current = setTimeout(() => {
+      loadBoard();
+    }, 1000);
+  }, [loadBoard]);
+
+  // Setup Supabase Realtime subscription
+  const setupRealtime = useCallback(() => {
+    if (!enableRealtime) return;
+
+    if (realtimeChannelRef.current) {
+      supabase.removeChannel(realtimeChannelRef.current);
+    }
+
+    const channel = ANDON_TABLES.reduce(
+      (ch, table) => ch.on('postgres_changes', { event: '*', schema: 'public', table }, scheduleReload),
+      supabase.channel('andon_board_changes')
+    );
+
+    channel.subscribe((status) => {
+      if (status === 'CHANNEL_ERROR') {
+        console.error('[Realtime] Andon board subscription failed; relying on polling');
+      }
+    });
+
+    realtimeChannelRef.current = channel;
+  }, [enableRealtime, scheduleReload]);
+
+  // Setup polling fallback (also keeps target quantities ticking)
+  const setupPolling = useCallback(() => {
+    if (pollingRef.current) {
+      clearInterval(pollingRef.current);
+    }
+
+    pollingRef.current = setInterval(() => {
+      loadBoard();
+    }, pollingInterval);
+  }, [pollingInterval, loadBoard]);
+
+  useEffect(() => {
+    loadBoard();
+    setupRealtime();
+    setupPolling();
+
+    return () => {
+      if (pollingRef.current) {
+        clearInterval(pollingRef.current);
+      }
+      if (debounceRef.current) {
+        clearTimeout(debounceRef.current);
+      }
+      if (realtimeChannelRef.current) {
+        supabase.removeChannel(realtimeChannelRef.current);
+        realtimeChannelRef.current = null;
+      }
+    };
+  }, [loadBoard, setupRealtime, setupPolling]);
+
+  return {
+    tiles,
+    loading,
+    error,
+    lastUpdated,
+    refresh: loadBoard,
+  };
+}
@@ -0,0 +1,120 @@
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { OfflineSyncService, type QueuedAction, type SyncConflict } from '../services/OfflineSyncService';
+
+interface UseOfflineSyncOptions {
+  retryInterval?: number; // ms, default 30000
+  onSynced?: () => void; // called when the queue has drained after a sync
+}
+
+export interface UseOfflineSyncResult {
+  isOnline: boolean;
+  syncing: boolean;
+  pending: QueuedAction[];
+  blockedAction: QueuedAction | null;
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+  syncNow: () => Promise<void>;
+  retry: (actionId: string) => Promise<void>;
+  discard: (actionId: string) => Promise<void>;
+  dismissConflicts: () => Promise<void>;
+}
+
+export function useOfflineSync(
+  userId: string | undefined,
+  options: UseOfflineSyncOptions = {}
+): UseOfflineSyncResult {
+  const { retryInterval = 30000, onSynced } = options;
+
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [pending, setPending] = useState<QueuedAction[]>([]);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const onSyncedRef = useRef(onSynced);
+  const hadPendingRef = useRef(false);
+
+  useEffect(() => {
+    onSyncedRef.current = onSynced;
+  }, [onSynced]);
+
+  const refreshState = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const state = await OfflineSyncService.getState(userId);
+      setIsOnline(state.isOnline);
+      setSyncing(state.syncing);
+      setPending(state.pending);
+      setConflicts(state.conflicts);
+      setLastSyncedAt(state.lastSyncedAt);
+
+      // The queue just drained: reload views from the server
+      if (hadPendingRef.current && state.pending.length === 0 && !state.syncing) {
+        onSyncedRef.current?.();
+      }
+      hadPendingRef.current = state.pending.length > 0;
+    } catch (err) {
+      console.error('Error reading offline sync state:', err);
+    }
+  }, [userId]);
+
+  const syncNow = useCallback(async () => {
+    if (!userId) return;
+    await OfflineSyncService.sync(userId);
+  }, [userId]);
+
+  useEffect(() => {
+    refreshState();
+    const unsubscribe = OfflineSyncService.subscribe(() => {
+      refreshState();
+    });
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Catch up on anything queued in an earlier session, then keep retrying:
+    // the online event is not reliable on weak signal
+    syncNow();
+    const interval = setInterval(() => {
+      if (navigator.onLine) syncNow();
+    }, retryInterval);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(interval);
+    };
+  }, [refreshState, syncNow, retryInterval]);
+
+  const retry = useCallback(async (actionId: string) => {
+    if (!userId) return;
+    await OfflineSyncService.retry(userId, actionId);
+  }, [userId]);
+
+  const discard = useCallback(async (actionId: string) => {
+    await OfflineSyncService.discard(actionId);
+  }, []);
+
+  const dismissConflicts = useCallback(async () => {
+    if (!userId) return;
+    await OfflineSyncService.dismissConflicts(userId);
+  }, [userId]);
+
+  return {
+    isOnline,
+    syncing,
+    pending,
+    blockedAction: pending.find(a => a.error) || null,
+    conflicts,
+    lastSyncedAt,
+    syncNow,
+    retry,
+    discard,
+    dismissConflicts,
+  };
+}
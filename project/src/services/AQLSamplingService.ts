@@ -0,0 +1,554 @@
+/**
+ * AQLSamplingService
+ *
+ * ANSI/ASQ Z1.4 attribute sampling:
+ * - Sample size code letters (Table I) for general and special inspection levels
+ * - Single sampling plans for normal, tightened and reduced inspection (Tables II-A/B/C)
+ * - Double sampling plans for normal, tightened and reduced inspection (Tables III-A/B/C)
+ * - Lot accept/reject decisions
+ * - Normal/tightened/reduced switching rules tracked per part and vendor
+ *
+ * The Z1.4 master tables are diagonal: along a row the acceptance number moves
+ * one step for each step in AQL, and down a column one step for each code
+ * letter. Plans are therefore looked up by diagonal position (code letter
+ * index + AQL index) rather than stored cell by cell.
+ */
+
+import { supabase } from '../lib/supabase';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type InspectionLevel = 'S1' | 'S2' | 'S3' | 'S4' | 'I' | 'II' | 'III';
+export type SamplingScheme = 'SINGLE' | 'DOUBLE';
+export type InspectionSeverity = 'NORMAL' | 'TIGHTENED' | 'REDUCED' | 'DISCONTINUED';
+export type LotDisposition = 'ACCEPTED' | 'REJECTED';
+
+export interface AQLPlanInput {
+  lot_size: number;
+  aql: string | number;
+  inspection_level?: InspectionLevel;
+  scheme?: SamplingScheme;
+  severity?: InspectionSeverity;
+}
+
+export interface AQLSamplingPlan {
+  lot_size: number;
+  aql: string;
+  inspection_level: InspectionLevel;
+  scheme: SamplingScheme; // SINGLE where the double table refers to the single plan
+  severity: InspectionSeverity;
+  code_letter: string; // Letter of the plan used, after following table arrows
+  sample_size: number;
+  accept_number: number;
+  reject_number: number;
+  second_sample_size?: number;
+  second_accept_number?: number; // Cumulative over both samples
+  second_reject_number?: number;
+  hundred_percent: boolean; // Sample size reached the lot size
+}
+
+export interface LotDecision {
+  disposition?: LotDisposition; // Undefined = second sample required
+  second_sample_required: boolean;
+  accepted_on_first_sample: boolean;
+  reinstate_normal: boolean; // Reduced inspection: accepted between Ac and Re
+}
+
+export interface AQLSwitchingState {
+  id: string;
+  part_id: string;
+  vendor_id?: string | null;
+  severity: InspectionSeverity;
+  switching_score: number;
+  recent_results: boolean[]; // Last five lots on normal inspection, true = accepted
+  consecutive_accepted: number; // Lots accepted in a row on tightened inspection
+  tightened_rejections: number; // Lots not accepted while on tightened inspection
+  lots_inspected: number;
+  last_run_id?: string | null;
+  severity_changed_at?: string | null;
+  notes?: string | null;
+  part?: { part_number: string; name: string } | null;
+  vendor?: { name: string } | null;
+}
+
+export interface LotResult {
+  run_id: string;
+  plan: AQLSamplingPlan;
+  disposition: LotDisposition;
+  defects: number; // Cumulative nonconforming units over the samples taken
+  accepted_on_first_sample: boolean;
+  reinstate_normal: boolean;
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const CODE_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'J', 'K', 'L', 'M', 'N', 'P', 'Q', 'R', 'S'];
+
+// Sample sizes by code letter; S (3150) only appears under tightened inspection
+const NORMAL_SAMPLE_SIZES = [2, 3, 5, 8, 13, 20, 32, 50, 80, 125, 200, 315, 500, 800, 1250, 2000, 3150];
+const REDUCED_SAMPLE_SIZES = [2, 2, 2, 3, 5, 8, 13, 20, 32, 50, 80, 125, 200, 315, 500, 800];
+
+// Table II AQL columns (percent nonconforming up to 10, nonconformities per hundred units above)
+const AQL_VALUES = [
+  0.010, 0.015, 0.025, 0.040, 0.065, 0.10, 0.15, 0.25, 0.40, 0.65, 1.0, 1.5, 2.5, 4.0, 6.5,
+  10, 15, 25, 40, 65, 100, 150, 250, 400, 650, 1000,
+];
+
+// Table I: upper lot size bound of each band, and code letter per band for each level
+const LOT_SIZE_BANDS = [8, 15, 25, 50, 90, 150, 280, 500, 1200, 3200, 10000, 35000, 150000, 500000, Infinity];
+
+const LEVEL_CODE_LETTERS: Record<InspectionLevel, string> = {
+  S1: 'AAABBBBBCCCCDDD',
+  S2: 'AAABBBCCCDDDEEE',
+  S3: 'AABBCCDDEEFFGGH',
+  S4: 'AABCCDEEFGGHJJK',
+  I: 'AABCCDEFGHJKLMN',
+  II: 'ABCDEFGHJKLMNPQ',
+  III: 'BCDEFGHJKLMNPQR',
+};
+
+// Diagonal positions past the 21/22 plans only exist in the top rows (letters A-E)
+const TOP_ROWS = 4;
+
+type Cell = [number, number] | 'up' | 'down' | 'single';
+type DoubleCell = [[number, number], [number, number]] | 'up' | 'down' | 'single';
+
+// Single sampling Ac/Re by diagonal position
+const SINGLE_TABLES: Record<Exclude<InspectionSeverity, 'DISCONTINUED'>, Record<number, [number, number]>> = {
+  NORMAL: {
+    14: [0, 1], 17: [1, 2], 18: [2, 3], 19: [3, 4], 20: [5, 6], 21: [7, 8],
+    22: [10, 11], 23: [14, 15], 24: [21, 22], 25: [30, 31], 26: [44, 45],
+  },
+  TIGHTENED: {
+    16: [0, 1], 18: [1, 2], 19: [2, 3], 20: [3, 4], 21: [5, 6], 22: [8, 9],
+    23: [12, 13], 24: [18, 19], 25: [27, 28], 26: [41, 42],
+  },
+  // Between Ac and Re the lot is accepted but normal inspection is reinstated
+  REDUCED: {
+    14: [0, 1], 17: [0, 2], 18: [1, 3], 19: [1, 4], 20: [2, 5], 21: [3, 6],
+    22: [5, 8], 23: [7, 10], 24: [10, 13], 25: [14, 17], 26: [21, 24],
+  },
+};
+
+// Double sampling Ac/Re for the first sample and cumulative over both
+const DOUBLE_TABLES: Record<Exclude<InspectionSeverity, 'DISCONTINUED'>, Record<number, [[number, number], [number, number]]>> = {
+  NORMAL: {
+    17: [[0, 2], [1, 2]], 18: [[0, 3], [3, 4]], 19: [[1, 4], [4, 5]], 20: [[2, 5], [6, 7]],
+    21: [[3, 7], [8, 9]], 22: [[5, 9], [12, 13]], 23: [[7, 11], [18, 19]], 24: [[11, 16], [26, 27]],
+    25: [[17, 22], [37, 38]], 26: [[25, 31], [56, 57]],
+  },
+  TIGHTENED: {
+    18: [[0, 2], [1, 2]], 19: [[0, 3], [3, 4]], 20: [[1, 4], [4, 5]], 21: [[2, 5], [6, 7]],
+    22: [[3, 7], [11, 12]], 23: [[6, 10], [15, 16]], 24: [[9, 14], [23, 24]],
+    25: [[15, 20], [34, 35]], 26: [[23, 29], [52, 53]],
+  },
+  REDUCED: {
+    17: [[0, 2], [0, 2]], 18: [[0, 3], [0, 4]], 19: [[0, 4], [1, 5]], 20: [[0, 4], [3, 6]],
+    21: [[1, 5], [4, 7]], 22: [[2, 7], [6, 9]], 23: [[3, 8], [8, 12]], 24: [[5, 10], [12, 16]],
+  },
+};
+
+// Diagonal position of the first (0/1) plan; arrows sit just past it
+const ZERO_ACCEPT_POSITION: Record<Exclude<InspectionSeverity, 'DISCONTINUED'>, number> = {
+  NORMAL: 14,
+  TIGHTENED: 16,
+  REDUCED: 14,
+};
+
+// Switching rules (Z1.4 section 8)
+const REDUCED_SWITCHING_SCORE = 30;
+const TIGHTENED_AFTER_REJECTIONS = 2; // ...out of 5 or fewer consecutive lots
+const NORMAL_AFTER_TIGHTENED_ACCEPTANCES = 5;
+const DISCONTINUE_AFTER_TIGHTENED_REJECTIONS = 5;
+
+// =====================================================
+// SERVICE CLASS
+// =====================================================
+
+class AQLSamplingServiceClass {
+  // =====================================================
+  // SAMPLING PLAN LOOKUP
+  // =====================================================
+
+  getCodeLetter(lotSize: number, level: InspectionLevel = 'II'): string {
+    if (!Number.isFinite(lotSize) || lotSize < 2) {
+      throw new Error('Lot size must be at least 2 for AQL sampling');
+    }
+    const band = LOT_SIZE_BANDS.findIndex(upper => lotSize <= upper);
+    return LEVEL_CODE_LETTERS[level][band];
+  }
+
+  /**
+   * Sampling plan for a lot: code letter from Table I, then Ac/Re from the
+   * master table for the severity, following arrows to the first plan in the
+   * AQL column. Where the sample size reaches the lot size, every unit is
+   * inspected against the same Ac/Re.
+   */
+  getSamplingPlan(input: AQLPlanInput): AQLSamplingPlan {
+    const severity = input.severity || 'NORMAL';
+    if (severity === 'DISCONTINUED') {
+      throw new Error('Acceptance inspection is discontinued for this part and vendor until corrective action is verified');
+    }
+
+    const level = input.inspection_level || 'II';
+    const aqlIndex = this.aqlIndex(input.aql);
+    const letterIndex = CODE_LETTERS.indexOf(this.getCodeLetter(input.lot_size, level));
+    const scheme = input.scheme || 'SINGLE';
+
+    const base = {
+      lot_size: input.lot_size,
+      aql: String(AQL_VALUES[aqlIndex]),
+      inspection_level: level,
+      severity,
+    };
+
+    if (scheme === 'DOUBLE') {
+      const double = this.resolve(letterIndex, i => this.doubleCell(severity, i, aqlIndex), severity);
+      if (double) {
+        const [[ac1, re1], [ac2, re2]] = double.cell;
+        const sizes = severity === 'REDUCED' ? REDUCED_SAMPLE_SIZES : NORMAL_SAMPLE_SIZES;
+        const n = Math.min(sizes[double.index - 1], input.lot_size);
+        return {
+          ...base,
+          scheme: 'DOUBLE',
+          code_letter: CODE_LETTERS[double.index],
+          sample_size: n,
+          accept_number: ac1,
+          reject_number: re1,
+          second_sample_size: Math.min(n, input.lot_size - n),
+          second_accept_number: ac2,
+          second_reject_number: re2,
+          hundred_percent: 2 * n >= input.lot_size,
+        };
+      }
+      // The double table refers this position to the single plan
+    }
+
+    const single = this.resolve(letterIndex, i => this.singleCell(severity, i, aqlIndex), severity);
+    if (!single) {
+      throw new Error(`No Z1.4 sampling plan for AQL ${input.aql} at lot size ${input.lot_size}`);
+    }
+
+    const sizes = severity === 'REDUCED' ? REDUCED_SAMPLE_SIZES : NORMAL_SAMPLE_SIZES;
+    const [ac, re] = single.cell;
+    return {
+      ...base,
+      scheme: 'SINGLE',
+      code_letter: CODE_LETTERS[single.index],
+      sample_size: Math.min(sizes[single.index], input.lot_size),
+      accept_number: ac,
+      reject_number: re,
+      hundred_percent: sizes[single.index] >= input.lot_size,
+    };
+  }
+
+  /**
+   * Accept/reject a lot from the nonconforming units found. For double
+   * sampling pass the second-sample count once it is taken; until then a
+   * result between Ac1 and Re1 asks for the second sample.
+   */
+  decideLot(plan: AQLSamplingPlan, firstSampleDefects: number, secondSampleDefects?: number): LotDecision {
+    if (plan.scheme === 'DOUBLE' && plan.second_accept_number !== undefined && plan.second_reject_number !== undefined) {
+      if (firstSampleDefects <= plan.accept_number) {
+        return { disposition: 'ACCEPTED', second_sample_required: false, accepted_on_first_sample: true, reinstate_normal: false };
+      }
+      if (firstSampleDefects >= plan.reject_number) {
+        return this.rejectOrReinstate(plan, firstSampleDefects, plan.reject_number, true);
+      }
+      if (secondSampleDefects === undefined) {
+        return { second_sample_required: true, accepted_on_first_sample: false, reinstate_normal: false };
+      }
+
+      const cumulative = firstSampleDefects + secondSampleDefects;
+      if (cumulative <= plan.second_accept_number) {
+        return { disposition: 'ACCEPTED', second_sample_required: false, accepted_on_first_sample: false, reinstate_normal: false };
+      }
+      return this.rejectOrReinstate(plan, cumulative, plan.second_reject_number, false);
+    }
+
+    if (firstSampleDefects <= plan.accept_number) {
+      return { disposition: 'ACCEPTED', second_sample_required: false, accepted_on_first_sample: true, reinstate_normal: false };
+    }
+    return this.rejectOrReinstate(plan, firstSampleDefects, plan.reject_number, true);
+  }
+
+  // Under reduced inspection a count between Ac and Re accepts the lot but reinstates normal inspection
+  private rejectOrReinstate(plan: AQLSamplingPlan, defects: number, rejectNumber: number, firstSample: boolean): LotDecision {
+    if (plan.severity === 'REDUCED' && defects < rejectNumber) {
+      return { disposition: 'ACCEPTED', second_sample_required: false, accepted_on_first_sample: firstSample, reinstate_normal: true };
+    }
+    return { disposition: 'REJECTED', second_sample_required: false, accepted_on_first_sample: false, reinstate_normal: plan.severity === 'REDUCED' };
+  }
+
+  private aqlIndex(aql: string | number): number {
+    const value = typeof aql === 'number' ? aql : parseFloat(aql);
+    const index = AQL_VALUES.findIndex(v => Math.abs(v - value) < 1e-9);
+    if (index === -1) {
+      throw new Error(`AQL ${aql} is not a Z1.4 AQL value`);
+    }
+    return index;
+  }
+
+  private singleCell(severity: Exclude<InspectionSeverity, 'DISCONTINUED'>, letterIndex: number, aqlIndex: number): Cell {
+    const position = letterIndex + aqlIndex;
+    const zero = ZERO_ACCEPT_POSITION[severity];
+
+    if (position < zero) return 'down';
+    if (position === zero) return SINGLE_TABLES[severity][position];
+    if (position === zero + 1) return severity === 'TIGHTENED' ? 'down' : 'up';
+    if (position === zero + 2 && severity !== 'TIGHTENED') return 'down';
+    if (position >= 25 && letterIndex > TOP_ROWS) return 'up';
+    return SINGLE_TABLES[severity][position] || 'up';
+  }
+
+  private doubleCell(severity: Exclude<InspectionSeverity, 'DISCONTINUED'>, letterIndex: number, aqlIndex: number): DoubleCell {
+    // Double plans start one letter in, and reduced double plans at letter D
+    if (letterIndex === 0 || (severity === 'REDUCED' && letterIndex < 3)) return 'single';
+
+    const single = this.singleCell(severity, letterIndex, aqlIndex);
+    if (single === 'up' || single === 'down') return single;
+
+    const position = letterIndex + aqlIndex;
+    if (position === ZERO_ACCEPT_POSITION[severity]) return 'single';
+    return DOUBLE_TABLES[severity][position] || 'single';
+  }
+
+  /**
+   * Follow table arrows from a code letter to the first plan in the column.
+   * An arrow that would leave the table turns back, as the next plan the other
+   * way is the nearest one that exists.
+   */
+  private resolve<T>(
+    letterIndex: number,
+    cellAt: (index: number) => T | 'up' | 'down' | 'single',
+    severity: InspectionSeverity
+  ): { index: number; cell: T } | null {
+    const lastIndex = severity === 'TIGHTENED' ? CODE_LETTERS.length - 1 : CODE_LETTERS.length - 2;
+    let index = letterIndex;
+    let forced: 'up' | 'down' | null = null;
+
+    for (let step = 0; step < CODE_LETTERS.length * 2; step++) {
+      const cell = cellAt(index);
+      if (cell === 'single') return null;
+      if (cell !== 'up' && cell !== 'down') return { index, cell };
+
+      const direction: 'up' | 'down' = forced || cell;
+      const next = direction === 'up' ? index - 1 : index + 1;
+      if (next < 0 || next > lastIndex) {
+        if (forced) return null;
+        forced = direction === 'up' ? 'down' : 'up';
+        continue;
+      }
+      index = next;
+    }
+    return null;
+  }
+
+  // =====================================================
+  // SWITCHING RULES
+  // =====================================================
+
+  async getSwitchingStates(filters?: { part_id?: string; vendor_id?: string }): Promise<AQLSwitchingState[]> {
+    let query = supabase
+      .from('quality_aql_switching_states')
+      .select(`
+        *,
+        part:parts(part_number, name),
+        vendor:vendors(name)
+      `)
+      .order('updated_at', { ascending: false });
+
+    if (filters?.part_id) {
+      query = query.eq('part_id', filters.part_id);
+    }
+    if (filters?.vendor_id) {
+      query = query.eq('vendor_id', filters.vendor_id);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Inspection severity currently in force for a part (and vendor, for
+   * incoming lots). Parts with no history start on normal inspection.
+   */
+  async getSeverity(partId: string, vendorId?: string | null): Promise<InspectionSeverity> {
+    const state = await this.findState(partId, vendorId);
+    return state?.severity || 'NORMAL';
+  }
+
+  /**
+   * Apply a lot result to the part/vendor switching state:
+   * - Normal: 2 of 5 or fewer consecutive lots rejected -> tightened; switching
+   *   score reaching 30 -> reduced
+   * - Tightened: 5 consecutive lots accepted -> normal; 5 lots not accepted
+   *   while on tightened -> discontinued
+   * - Reduced: a lot rejected, or accepted between Ac and Re -> normal
+   */
+  async recordLotResult(partId: string, vendorId: string | null | undefined, result: LotResult): Promise<AQLSwitchingState> {
+    const existing = await this.findState(partId, vendorId);
+    const state = {
+      severity: existing?.severity || 'NORMAL',
+      switching_score: existing?.switching_score || 0,
+      recent_results: existing?.recent_results || [],
+      consecutive_accepted: existing?.consecutive_accepted || 0,
+      tightened_rejections: existing?.tightened_rejections || 0,
+    };
+    const previousSeverity = state.severity;
+    const accepted = result.disposition === 'ACCEPTED';
+    let notes: string | null = existing?.notes || null;
+
+    switch (state.severity) {
+      case 'NORMAL': {
+        state.recent_results = [...state.recent_results, accepted].slice(-5);
+        const increment = this.switchingScoreIncrement(result);
+        state.switching_score = increment > 0 ? state.switching_score + increment : 0;
+
+        if (state.recent_results.filter(r => !r).length >= TIGHTENED_AFTER_REJECTIONS) {
+          state.severity = 'TIGHTENED';
+          notes = `Tightened after ${TIGHTENED_AFTER_REJECTIONS} of the last ${state.recent_results.length} lots were rejected`;
+        } else if (state.switching_score >= REDUCED_SWITCHING_SCORE) {
+          state.severity = 'REDUCED';
+          notes = `Reduced after switching score reached ${state.switching_score}`;
+        }
+        break;
+      }
+      case 'TIGHTENED':
+        state.consecutive_accepted = accepted ? state.consecutive_accepted + 1 : 0;
+        state.tightened_rejections += accepted ? 0 : 1;
+
+        if (state.tightened_rejections >= DISCONTINUE_AFTER_TIGHTENED_REJECTIONS) {
+          state.severity = 'DISCONTINUED';
+          notes = `Discontinued after ${state.tightened_rejections} lots were not accepted on tightened inspection`;
+        } else if (state.consecutive_accepted >= NORMAL_AFTER_TIGHTENED_ACCEPTANCES) {
+          state.severity = 'NORMAL';
+          notes = `Normal after ${state.consecutive_accepted} consecutive lots accepted on tightened inspection`;
+        }
+        break;
+      case 'REDUCED':
+        if (!accepted || result.reinstate_normal) {
+          state.severity = 'NORMAL';
+          notes = accepted
+            ? 'Normal reinstated: lot accepted between Ac and Re on reduced inspection'
+            : 'Normal reinstated: lot rejected on reduced inspection';
+        }
+        break;
+      default:
+        break;
+    }
+
+    if (state.severity !== previousSeverity) {
+      // Each severity starts its own count
+      state.switching_score = 0;
+      state.recent_results = [];
+      state.consecutive_accepted = 0;
+      if (state.severity !== 'DISCONTINUED') state.tightened_rejections = 0;
+    }
+
+    return this.saveState(partId, vendorId, existing, {
+      ...state,
+      lots_inspected: (existing?.lots_inspected || 0) + 1,
+      last_run_id: result.run_id,
+      notes,
+      ...(state.severity !== previousSeverity ? { severity_changed_at: new Date().toISOString() } : {}),
+    });
+  }
+
+  /**
+   * Manual severity change by the responsible authority, e.g. resuming
+   * inspection under tightened after supplier corrective action, or holding
+   * normal inspection when production is irregular.
+   */
+  async setSeverity(stateId: string, severity: InspectionSeverity, reason: string): Promise<AQLSwitchingState> {
+    if (!reason.trim()) {
+      throw new Error('A reason is required to change inspection severity');
+    }
+
+    const { data, error } = await supabase
+      .from('quality_aql_switching_states')
+      .update({
+        severity,
+        switching_score: 0,
+        recent_results: [],
+        consecutive_accepted: 0,
+        tightened_rejections: 0,
+        severity_changed_at: new Date().toISOString(),
+        notes: reason.trim(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', stateId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Switching score (Z1.4 8.3.3). Single sampling with Ac >= 2 adds 3 when the
+   * lot would also have passed one AQL step tighter; Ac 0 or 1 adds 2 for an
+   * accepted lot. Double sampling adds 3 when accepted on the first sample.
+   * Anything else resets the score.
+   */
+  private switchingScoreIncrement(result: LotResult): number {
+    if (result.disposition !== 'ACCEPTED') return 0;
+
+    if (result.plan.scheme === 'DOUBLE') {
+      return result.accepted_on_first_sample ? 3 : 0;
+    }
+    if (result.plan.accept_number < 2) return 2;
+
+    const position = CODE_LETTERS.indexOf(result.plan.code_letter) + this.aqlIndex(result.plan.aql);
+    const tighter = SINGLE_TABLES.NORMAL[position - 1];
+    return tighter && result.defects <= tighter[0] ? 3 : 0;
+  }
+
+  private async findState(partId: string, vendorId?: string | null): Promise<AQLSwitchingState | null> {
+    let query = supabase
+      .from('quality_aql_switching_states')
+      .select('*')
+      .eq('part_id', partId);
+
+    query = vendorId ? query.eq('vendor_id', vendorId) : query.is('vendor_id', null);
+
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    return data;
+  }
+
+  private async saveState(
+    partId: string,
+    vendorId: string | null | undefined,
+    existing: AQLSwitchingState | null,
+    values: Partial<AQLSwitchingState>
+  ): Promise<AQLSwitchingState> {
+    if (existing) {
+      const { data, error } = await supabase
+        .from('quality_aql_switching_states')
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+
+    const { data, error } = await supabase
+      .from('quality_aql_switching_states')
+      .insert({ part_id: partId, vendor_id: vendorId || null, ...values })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+}
+
+export const AQLSamplingService = new AQLSamplingServiceClass();
@@ -0,0 +1,488 @@
+/**
+ * AndonService
+ * Builds the live shop-floor andon board and manages help calls.
+ *
+ * Tile status precedence (worst wins):
+ * - down: machine STOP or an open maintenance call
+ * - attention: IDLE/CHANGEOVER, open quality/material call, open NCR or
+ *   unacknowledged SPC violation
+ * - planned: PLANNED_STOP
+ * - running: RUN, or an operation running without machine state
+ * - idle: nothing running
+ *
+ * Target vs actual: target is the elapsed run time over the ideal cycle time
+ * (OEEService precedence), capped at the order quantity; actual is the good
+ * count recorded against the running operation.
+ */
+
+import { supabase } from '../lib/supabase';
+import { OEEService } from './OEEService';
+
+// ========== Type Definitions ==========
+
+export type AndonCallType = 'maintenance' | 'quality' | 'material';
+
+export type AndonCallStatus = 'open' | 'acknowledged' | 'resolved' | 'cancelled';
+
+export type AndonTileStatus = 'down' | 'attention' | 'planned' | 'running' | 'idle';
+
+export interface AndonCall {
+  id: string;
+  work_center_id: string;
+  equipment_asset_id: string | null;
+  operation_run_id: string | null;
+  production_order_id: string | null;
+  call_type: AndonCallType;
+  status: AndonCallStatus;
+  message: string | null;
+  raised_by: string | null;
+  raised_at: string;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  resolution_notes: string | null;
+  // Joined fields
+  raised_by_name?: string;
+  acknowledged_by_name?: string;
+}
+
+export interface AndonCurrentRun {
+  id: string;
+  production_order_id: string;
+  order_number: string;
+  order_title: string;
+  step_name: string | null;
+  equipment_asset_id: string | null;
+  status: string;
+  started_at: string | null;
+  quantity_ordered: number;
+}
+
+export interface AndonTile {
+  work_center_id: string;
+  work_center_code: string;
+  work_center_name: string;
+  status: AndonTileStatus;
+  machine_state: string | null;
+  state_since: string | null;
+  current_run: AndonCurrentRun | null;
+  target_qty: number | null;
+  actual_good: number;
+  actual_scrap: number;
+  open_calls: AndonCall[];
+  open_ncr_count: number;
+  open_spc_violation_count: number;
+}
+
+export interface AndonScope {
+  id: string;
+  parent_id: string | null;
+  level_type: 'area' | 'line';
+  code: string;
+  name: string;
+}
+
+export interface RaiseAndonCallInput {
+  work_center_id: string;
+  call_type: AndonCallType;
+  message?: string;
+  equipment_asset_id?: string;
+  operation_run_id?: string;
+}
+
+// ========== Service Class ==========
+
+export class AndonService {
+  private static readonly OPEN_CALL_STATUSES = ['open', 'acknowledged'] as const;
+  private static readonly OPEN_NCR_STATUSES = ['OPEN', 'UNDER_REVIEW'] as const;
+  private static readonly ACTIVE_RUN_STATUSES = ['RUNNING', 'PAUSED'] as const;
+  // Worst machine state wins when a work center has several assets
+  private static readonly STATE_SEVERITY: Record<string, number> = {
+    STOP: 4,
+    IDLE: 3,
+    CHANGEOVER: 3,
+    PLANNED_STOP: 2,
+    RUN: 1,
+  };
+
+  // ========== Board ==========
+
+  /**
+   * Build andon tiles for the given work centers (all active when omitted,
+   * none for an empty list)
+   */
+  static async getBoard(workCenterIds?: string[]): Promise<AndonTile[]> {
+    try {
+      let wcQuery = supabase
+        .from('work_centers')
+        .select('id, code, name')
+        .eq('is_active', true)
+        .order('code', { ascending: true });
+
+      if (workCenterIds) {
+        if (workCenterIds.length === 0) return [];
+        wcQuery = wcQuery.in('id', workCenterIds);
+      }
+
+      const { data: workCenters, error: wcError } = await wcQuery;
+      if (wcError) throw wcError;
+      if (!workCenters || workCenters.length === 0) return [];
+
+      const ids = workCenters.map((wc) => wc.id);
+
+      const [states, runs, calls, ncrs, violations] = await Promise.all([
+        supabase
+          .from('equipment_state_events')
+          .select('work_center_id, state, start_ts')
+          .in('work_center_id', ids)
+          .is('end_ts', null),
+        supabase
+          .from('production_operation_runs')
+          .select(`
+            id,
+            work_center_id,
+            equipment_asset_id,
+            production_order_id,
+            status,
+            start_ts,
+            step:production_steps(name),
+            order:production_orders(order_number, title, quantity_ordered)
+          `)
+          .in('work_center_id', ids)
+          .in('status', [...this.ACTIVE_RUN_STATUSES])
+          .order('start_ts', { ascending: false }),
+        this.getOpenCalls(ids),
+        supabase
+          .from('quality_nonconformances')
+          .select('id, operation_run:production_operation_runs!inner(work_center_id)')
+          .in('status', [...this.OPEN_NCR_STATUSES])
+          .in('operation_run.work_center_id', ids),
+        supabase
+          .from('spc_rule_violations')
+          .select('id, subgroup:spc_subgroups!inner(work_center_id)')
+          .is('acknowledged_at', null)
+          .in('subgroup.work_center_id', ids),
+      ]);
+
+      if (states.error) throw states.error;
+      if (runs.error) throw runs.error;
+
+      const now = Date.now();
+
+      return await Promise.all(workCenters.map(async (wc) => {
+        // Worst open machine state across the work center's assets
+        const wcStates = (states.data || []).filter((s) => s.work_center_id === wc.id);
+        const worstState = wcStates.reduce<{ state: string; start_ts: string } | null>((worst, s) => {
+          if (!worst || (this.STATE_SEVERITY[s.state] || 0) > (this.STATE_SEVERITY[worst.state] || 0)) {
+            return { state: s.state, start_ts: s.start_ts };
+          }
+          return worst;
+        }, null);
+
+        const run = (runs.data || []).find((r) => r.work_center_id === wc.id);
+        let currentRun: AndonCurrentRun | null = null;
+        let targetQty: number | null = null;
+        let actualGood = 0;
+        let actualScrap = 0;
+
+        if (run) {
+          const order = run.order as unknown as { order_number: string; title: string; quantity_ordered: number } | null;
+          const step = run.step as unknown as { name: string } | null;
+
+          currentRun = {
+            id: run.id,
+            production_order_id: run.production_order_id,
+            order_number: order?.order_number || '',
+            order_title: order?.title || '',
+            step_name: step?.name || null,
+            equipment_asset_id: run.equipment_asset_id,
+            status: run.status,
+            started_at: run.start_ts,
+            quantity_ordered: order?.quantity_ordered || 0,
+          };
+
+          const [counts, cycleTime] = await Promise.all([
+            OEEService.getCountsByOperationRun(run.id),
+            OEEService.getIdealCycleTime(wc.id, run.equipment_asset_id || undefined),
+          ]);
+
+          actualGood = counts.reduce((sum, c) => sum + Number(c.good_qty), 0);
+          actualScrap = counts.reduce((sum, c) => sum + Number(c.scrap_qty), 0);
+
+          if (run.start_ts && cycleTime.cycle_time_seconds > 0) {
+            const elapsedSeconds = Math.max(0, (now - new Date(run.start_ts).getTime()) / 1000);
+            targetQty = Math.floor(elapsedSeconds / cycleTime.cycle_time_seconds);
+            if (currentRun.quantity_ordered > 0) {
+              targetQty = Math.min(targetQty, currentRun.quantity_ordered);
+            }
+          }
+        }
+
+        const openCalls = calls.filter((c) => c.work_center_id === wc.id);
+        const openNcrCount = (ncrs.data || []).filter(
+          (n) => (n.operation_run as unknown as { work_center_id: string } | null)?.work_center_id === wc.id
+        ).length;
+        const openSpcCount = (violations.data || []).filter(
+          (v) => (v.subgroup as unknown as { work_center_id: string } | null)?.work_center_id === wc.id
+        ).length;
+
+        return {
+          work_center_id: wc.id,
+          work_center_code: wc.code,
+          work_center_name: wc.name,
+          status: this.resolveStatus(worstState?.state || null, !!run, openCalls, openNcrCount, openSpcCount),
+          machine_state: worstState?.state || null,
+          state_since: worstState?.start_ts || null,
+          current_run: currentRun,
+          target_qty: targetQty,
+          actual_good: actualGood,
+          actual_scrap: actualScrap,
+          open_calls: openCalls,
+          open_ncr_count: openNcrCount,
+          open_spc_violation_count: openSpcCount,
+        };
+      }));
+    } catch (error) {
+      console.error('Error building andon board:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get plant areas and lines a board can be scoped to
+   */
+  static async getScopes(): Promise<AndonScope[]> {
+    try {
+      const { data, error } = await supabase
+        .from('plant_hierarchy')
+        .select('id, parent_id, level_type, code, name')
+        .in('level_type', ['area', 'line'])
+        .eq('is_active', true)
+        .order('code', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []) as AndonScope[];
+    } catch (error) {
+      console.error('Error fetching andon scopes:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Resolve an area or line to the active work centers on its lines
+   */
+  static async getWorkCenterIdsForScope(scopeId: string): Promise<string[]> {
+    try {
+      const { data: nodes, error: nodeError } = await supabase
+        .from('plant_hierarchy')
+        .select('id, parent_id');
+
+      if (nodeError) throw nodeError;
+
+      // Walk down from the scope node to collect every line beneath it
+      const lineIds = new Set<string>([scopeId]);
+      let added = true;
+      while (added) {
+        added = false;
+        for (const node of nodes || []) {
+          if (node.parent_id && lineIds.has(node.parent_id) && !lineIds.has(node.id)) {
+            lineIds.add(node.id);
+            added = true;
+          }
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('work_centers')
+        .select('id')
+        .eq('is_active', true)
+        .in('line_id', Array.from(lineIds));
+
+      if (error) throw error;
+
+      return (data || []).map((wc) => wc.id);
+    } catch (error) {
+      console.error('Error resolving andon scope:', error);
+      return [];
+    }
+  }
+
+  // ========== Help Calls ==========
+
+  /**
+   * Get open and acknowledged help calls
+   */
+  static async getOpenCalls(workCenterIds?: string[]): Promise<AndonCall[]> {
+    try {
+      let query = supabase
+        .from('andon_calls')
+        .select(`
+          *,
+          raised_by_user:profiles!andon_calls_raised_by_fkey(full_name),
+          acknowledged_by_user:profiles!andon_calls_acknowledged_by_fkey(full_name)
+        `)
+        .in('status', [...this.OPEN_CALL_STATUSES])
+        .order('raised_at', { ascending: true });
+
+      if (workCenterIds && workCenterIds.length > 0) {
+        query = query.in('work_center_id', workCenterIds);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return (data || []).map((c) => ({
+        ...c,
+        raised_by_name: (c.raised_by_user as unknown as { full_name: string } | null)?.full_name,
+        acknowledged_by_name: (c.acknowledged_by_user as unknown as { full_name: string } | null)?.full_name,
+      })) as AndonCall[];
+    } catch (error) {
+      console.error('Error fetching andon calls:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Raise a help call; notifies the roles routed to the call type.
+   * A second press while a call of the same type is open returns that call.
+   */
+  static async raiseCall(input: RaiseAndonCallInput): Promise<{ success: boolean; callId?: string; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('fn_raise_andon_call', {
+        p_work_center_id: input.work_center_id,
+        p_call_type: input.call_type,
+        p_message: input.message || null,
+        p_equipment_asset_id: input.equipment_asset_id || null,
+        p_operation_run_id: input.operation_run_id || null,
+      });
+
+      if (error) throw error;
+
+      return { success: true, callId: data as string };
+    } catch (error) {
+      console.error('Error raising andon call:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to raise help call' };
+    }
+  }
+
+  /**
+   * Acknowledge a help call (responder is on the way)
+   */
+  static async acknowledgeCall(callId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: user } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('andon_calls')
+        .update({
+          status: 'acknowledged',
+          acknowledged_by: user?.user?.id,
+          acknowledged_at: new Date().toISOString(),
+        })
+        .eq('id', callId)
+        .eq('status', 'open');
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error acknowledging andon call:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to acknowledge call' };
+    }
+  }
+
+  /**
+   * Resolve a help call
+   */
+  static async resolveCall(callId: string, notes?: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: user } = await supabase.auth.getUser();
+      const now = new Date().toISOString();
+
+      const { data: call, error: fetchError } = await supabase
+        .from('andon_calls')
+        .select('acknowledged_at')
+        .eq('id', callId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const { error } = await supabase
+        .from('andon_calls')
+        .update({
+          status: 'resolved',
+          resolved_by: user?.user?.id,
+          resolved_at: now,
+          resolution_notes: notes || null,
+          // Resolving straight from open counts as the acknowledgment too
+          ...(call.acknowledged_at ? {} : { acknowledged_by: user?.user?.id, acknowledged_at: now }),
+        })
+        .eq('id', callId)
+        .in('status', [...this.OPEN_CALL_STATUSES]);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error resolving andon call:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to resolve call' };
+    }
+  }
+
+  /**
+   * Cancel a help call raised by mistake
+   */
+  static async cancelCall(callId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('andon_calls')
+        .update({ status: 'cancelled' })
+        .eq('id', callId)
+        .eq('status', 'open');
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error cancelling andon call:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to cancel call' };
+    }
+  }
+
+  // ========== Helpers ==========
+
+  private static resolveStatus(
+    machineState: string | null,
+    hasRun: boolean,
+    openCalls: AndonCall[],
+    openNcrCount: number,
+    openSpcCount: number
+  ): AndonTileStatus {
+    if (machineState === 'STOP' || openCalls.some((c) => c.call_type === 'maintenance')) {
+      return 'down';
+    }
+
+    if (
+      machineState === 'IDLE' ||
+      machineState === 'CHANGEOVER' ||
+      openCalls.length > 0 ||
+      openNcrCount > 0 ||
+      openSpcCount > 0
+    ) {
+      return 'attention';
+    }
+
+    if (machineState === 'PLANNED_STOP') {
+      return 'planned';
+    }
+
+    if (machineState === 'RUN' || hasRun) {
+      return 'running';
+    }
+
+    return 'idle';
+  }
+}
@@ -0,0 +1,713 @@
+/**
+ * CAPAService
+ *
+ * Guided 8D corrective action workflow on top of quality_capa:
+ * - D1 team, D2 problem description, D3 containment, D4 root cause
+ *   (5-Why and fishbone), D5 corrective actions, D6 implementation and
+ *   effectiveness verification, D7 preventive actions, D8 closure
+ * - Each discipline has a gate that must be met before the CAPA advances
+ * - One CAPA can cover several nonconformances and customer complaints
+ * - Actions carry owners and due dates; overdue CAPAs are escalated
+ *   (fn_escalate_overdue_capas) to the owner and then to management
+ */
+
+import { supabase } from '../lib/supabase';
+import {
+  QualityExecutionService,
+  CAPA,
+  CAPAStatus,
+  Fishbone,
+  FiveWhyStep,
+  NCSeverity,
+  Nonconformance,
+} from './QualityExecutionService';
+import { ElectronicSignatureService } from './ElectronicSignatureService';
+import type { SignatureCredentials } from './ElectronicSignatureService';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type CAPATeamRole = 'CHAMPION' | 'LEADER' | 'MEMBER';
+export type CAPAActionType = 'CONTAINMENT' | 'CORRECTIVE' | 'PREVENTIVE';
+export type CAPAActionStatus = 'OPEN' | 'COMPLETED' | 'CANCELLED';
+export type ComplaintStatus = 'OPEN' | 'INVESTIGATING' | 'RESOLVED' | 'CLOSED';
+
+export interface CAPATeamMember {
+  id: string;
+  capa_id: string;
+  user_id: string;
+  team_role: CAPATeamRole;
+  responsibility?: string | null;
+  user?: { full_name: string } | null;
+}
+
+export interface CAPAAction {
+  id: string;
+  capa_id: string;
+  action_type: CAPAActionType;
+  description: string;
+  owner_id?: string | null;
+  due_date?: string | null;
+  status: CAPAActionStatus;
+  completed_at?: string | null;
+  completed_by?: string | null;
+  completion_notes?: string | null;
+  created_at?: string;
+  owner?: { full_name: string } | null;
+}
+
+export interface CustomerComplaint {
+  id: string;
+  complaint_number: string;
+  customer_id?: string | null;
+  ticket_id?: string | null;
+  part_id?: string | null;
+  serial_number?: string | null;
+  severity: NCSeverity;
+  status: ComplaintStatus;
+  title: string;
+  description?: string | null;
+  qty_affected?: number | null;
+  received_at: string;
+  reported_by?: string | null;
+  resolution?: string | null;
+  closed_at?: string | null;
+  created_at?: string;
+  customer?: { name: string } | null;
+  part?: { part_number: string; name: string } | null;
+  capa_link?: { capa_id: string }[];
+}
+
+export interface CAPALink {
+  id: string;
+  capa_id: string;
+  nonconformance_id?: string | null;
+  complaint_id?: string | null;
+  nonconformance?: Pick<Nonconformance, 'id' | 'nc_number' | 'title' | 'severity' | 'status' | 'qty_affected'> | null;
+  complaint?: Pick<CustomerComplaint, 'id' | 'complaint_number' | 'title' | 'severity' | 'status' | 'qty_affected'> & {
+    customer?: { name: string } | null;
+  } | null;
+}
+
+export interface CAPA8D extends CAPA {
+  owner?: { full_name: string } | null;
+  verifier?: { full_name: string } | null;
+  team?: CAPATeamMember[];
+  actions?: CAPAAction[];
+  links?: CAPALink[];
+}
+
+export interface CreateCAPA8DInput {
+  title: string;
+  problem_statement?: string;
+  owner_id: string;
+  due_date?: string;
+  nonconformance_ids?: string[];
+  complaint_ids?: string[];
+}
+
+export interface CreateCAPAActionInput {
+  action_type: CAPAActionType;
+  description: string;
+  owner_id?: string;
+  due_date?: string;
+}
+
+export interface RootCauseInput {
+  root_cause: string;
+  five_whys: FiveWhyStep[];
+  fishbone: Fishbone;
+}
+
+export interface PersonOption {
+  id: string;
+  full_name: string;
+}
+
+export interface Discipline {
+  number: number;
+  code: string;
+  name: string;
+  description: string;
+}
+
+export const DISCIPLINES: Discipline[] = [
+  { number: 1, code: 'D1', name: 'Team', description: 'Form a cross-functional team with a leader' },
+  { number: 2, code: 'D2', name: 'Problem', description: 'Describe the problem and link the affected NCs and complaints' },
+  { number: 3, code: 'D3', name: 'Containment', description: 'Protect the customer until the problem is fixed' },
+  { number: 4, code: 'D4', name: 'Root Cause', description: 'Find the root cause with 5-Why and fishbone analysis' },
+  { number: 5, code: 'D5', name: 'Corrective Actions', description: 'Choose permanent corrective actions with owners and due dates' },
+  { number: 6, code: 'D6', name: 'Implement & Verify', description: 'Implement the corrective actions and verify they are effective' },
+  { number: 7, code: 'D7', name: 'Prevent Recurrence', description: 'Update systems, procedures and similar processes' },
+  { number: 8, code: 'D8', name: 'Closure', description: 'Record lessons learned and recognize the team' },
+];
+
+export const FISHBONE_CATEGORIES: { key: keyof Fishbone; label: string }[] = [
+  { key: 'man', label: 'Man' },
+  { key: 'machine', label: 'Machine' },
+  { key: 'method', label: 'Method' },
+  { key: 'material', label: 'Material' },
+  { key: 'measurement', label: 'Measurement' },
+  { key: 'environment', label: 'Environment' },
+];
+
+/** Days past due before an overdue CAPA is escalated to management */
+export const CAPA_MANAGEMENT_ESCALATION_DAYS = 14;
+
+const OPEN_CAPA_STATUSES: CAPAStatus[] = ['OPEN', 'IN_PROGRESS'];
+
+const CAPA_DETAIL_SELECT = `
+  *,
+  owner:profiles!quality_capa_owner_id_fkey(full_name),
+  verifier:profiles!quality_capa_verified_by_fkey(full_name),
+  team:quality_capa_team_members(
+    *,
+    user:profiles(full_name)
+  ),
+  actions:quality_capa_actions(
+    *,
+    owner:profiles!quality_capa_actions_owner_id_fkey(full_name)
+  ),
+  links:quality_capa_links(
+    *,
+    nonconformance:quality_nonconformances(id, nc_number, title, severity, status, qty_affected),
+    complaint:quality_customer_complaints(id, complaint_number, title, severity, status, qty_affected, customer:customers(name))
+  )
+`;
+
+// =====================================================
+// SERVICE CLASS
+// =====================================================
+
+class CAPAServiceClass {
+  // =====================================================
+  // CAPAS
+  // =====================================================
+
+  async getCAPAs(filters?: {
+    status?: CAPAStatus;
+    owner_id?: string;
+    openOnly?: boolean;
+  }): Promise<CAPA8D[]> {
+    let query = supabase
+      .from('quality_capa')
+      .select(`
+        *,
+        owner:profiles!quality_capa_owner_id_fkey(full_name),
+        actions:quality_capa_actions(id, action_type, status, due_date),
+        links:quality_capa_links(id, nonconformance_id, complaint_id)
+      `)
+      .order('created_at', { ascending: false });
+
+    if (filters?.status) {
+      query = query.eq('status', filters.status);
+    } else if (filters?.openOnly) {
+      query = query.in('status', OPEN_CAPA_STATUSES);
+    }
+    if (filters?.owner_id) {
+      query = query.eq('owner_id', filters.owner_id);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as unknown as CAPA8D[];
+  }
+
+  async getCAPA(id: string): Promise<CAPA8D | null> {
+    const { data, error } = await supabase
+      .from('quality_capa')
+      .select(CAPA_DETAIL_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as unknown as CAPA8D | null;
+  }
+
+  /**
+   * Open an 8D CAPA. The owner leads the D1 team; the first NC is kept as
+   * the originating nonconformance.
+   */
+  async createCAPA(input: CreateCAPA8DInput): Promise<CAPA8D> {
+    if (!input.title.trim()) throw new Error('Title is required');
+    if (!input.owner_id) throw new Error('Owner is required');
+
+    const capa = await QualityExecutionService.createCAPA({
+      title: input.title.trim(),
+      problem_statement: input.problem_statement?.trim() || undefined,
+      owner_id: input.owner_id,
+      due_date: input.due_date || undefined,
+      nonconformance_id: input.nonconformance_ids?.[0],
+      status: 'OPEN',
+      discipline: 1,
+    });
+
+    await this.addTeamMember(capa.id, input.owner_id, 'LEADER');
+    for (const ncId of input.nonconformance_ids || []) {
+      await this.linkNonconformance(capa.id, ncId);
+    }
+    for (const complaintId of input.complaint_ids || []) {
+      await this.linkComplaint(capa.id, complaintId);
+    }
+
+    return capa;
+  }
+
+  async updateCAPA(id: string, updates: Partial<CAPA>): Promise<CAPA8D> {
+    return QualityExecutionService.updateCAPA(id, updates);
+  }
+
+  async saveRootCause(id: string, input: RootCauseInput): Promise<CAPA8D> {
+    const fiveWhys = input.five_whys.filter(step => step.why.trim() || step.because.trim());
+    const fishbone: Fishbone = {};
+    for (const { key } of FISHBONE_CATEGORIES) {
+      const causes = (input.fishbone[key] || []).map(c => c.trim()).filter(Boolean);
+      if (causes.length > 0) fishbone[key] = causes;
+    }
+
+    const methods = [fiveWhys.length > 0 && '5 Why', Object.keys(fishbone).length > 0 && 'Fishbone'].filter(Boolean);
+
+    return this.updateCAPA(id, {
+      root_cause: input.root_cause.trim() || undefined,
+      root_cause_method: methods.join(', ') || undefined,
+      five_whys: fiveWhys,
+      fishbone,
+    });
+  }
+
+  /**
+   * Move the CAPA to the next discipline once the current one is complete.
+   * D6 advances through verifyEffectiveness and D8 through closeCAPA.
+   */
+  async advanceDiscipline(id: string): Promise<CAPA8D> {
+    const capa = await this.getCAPA(id);
+    if (!capa) throw new Error('CAPA not found');
+
+    const discipline = capa.discipline || 1;
+    if (discipline === 6) throw new Error('Verify the effectiveness of the corrective actions to complete D6');
+    if (discipline === 8) throw new Error('Close the CAPA to complete D8');
+
+    const blocker = this.getGateBlocker(capa);
+    if (blocker) throw new Error(blocker);
+
+    const updates: Partial<CAPA> = {
+      discipline: discipline + 1,
+      status: capa.status === 'OPEN' ? 'IN_PROGRESS' : capa.status,
+    };
+
+    // Keep the summary fields shown on the NC up to date
+    if (discipline === 5) {
+      updates.corrective_action = this.summarizeActions(capa, 'CORRECTIVE');
+      updates.corrective_due_date = this.latestDueDate(capa, 'CORRECTIVE');
+    }
+    if (discipline === 7) {
+      updates.preventive_action = this.summarizeActions(capa, 'PREVENTIVE');
+      updates.preventive_due_date = this.latestDueDate(capa, 'PREVENTIVE');
+      updates.preventive_completed_at = new Date().toISOString();
+    }
+
+    return this.updateCAPA(id, updates);
+  }
+
+  /**
+   * What still has to be done before the current discipline is complete,
+   * or null when the CAPA can advance.
+   */
+  getGateBlocker(capa: CAPA8D): string | null {
+    const actions = (type: CAPAActionType) =>
+      (capa.actions || []).filter(a => a.action_type === type && a.status !== 'CANCELLED');
+
+    switch (capa.discipline || 1) {
+      case 1:
+        if (!(capa.team || []).some(m => m.team_role === 'LEADER')) return 'Assign a team leader';
+        return null;
+      case 2:
+        if (!capa.problem_statement?.trim()) return 'Describe the problem';
+        if ((capa.links || []).length === 0) return 'Link at least one nonconformance or customer complaint';
+        return null;
+      case 3:
+        if (actions('CONTAINMENT').length === 0) return 'Add a containment action';
+        if (actions('CONTAINMENT').some(a => a.status === 'OPEN')) return 'Complete the open containment actions';
+        return null;
+      case 4:
+        if (!capa.root_cause?.trim()) return 'State the root cause';
+        if ((capa.five_whys || []).length === 0 && Object.keys(capa.fishbone || {}).length === 0) {
+          return 'Support the root cause with a 5-Why or fishbone analysis';
+        }
+        return null;
+      case 5:
+        if (actions('CORRECTIVE').length === 0) return 'Add a corrective action';
+        if (actions('CORRECTIVE').some(a => !a.owner_id || !a.due_date)) {
+          return 'Every corrective action needs an owner and a due date';
+        }
+        if (!capa.effectiveness_criteria?.trim()) return 'Define how effectiveness will be verified';
+        return null;
+      case 6:
+        if (actions('CORRECTIVE').some(a => a.status === 'OPEN')) return 'Complete the open corrective actions';
+        return null;
+      case 7:
+        if (actions('PREVENTIVE').length === 0) return 'Add a preventive action';
+        if (actions('PREVENTIVE').some(a => a.status === 'OPEN')) return 'Complete the open preventive actions';
+        return null;
+      default:
+        if (!capa.lessons_learned?.trim()) return 'Record the lessons learned';
+        return null;
+    }
+  }
+
+  /**
+   * D6 effectiveness check. An effective result verifies the CAPA and moves
+   * it to D7; an ineffective one sends it back to root cause analysis.
+   * Either result is electronically signed (verified or reviewed) with the
+   * verification evidence as the signature reason.
+   */
+  async verifyEffectiveness(id: string, effective: boolean, credentials: SignatureCredentials): Promise<CAPA8D> {
+    const capa = await this.getCAPA(id);
+    if (!capa) throw new Error('CAPA not found');
+    if (capa.discipline !== 6) throw new Error('Effectiveness is verified at D6');
+    const notes = credentials.reason;
+    if (!notes.trim()) throw new Error('Record the verification evidence');
+
+    const blocker = this.getGateBlocker(capa);
+    if (blocker) throw new Error(blocker);
+
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) throw new Error('Not authenticated');
+
+    if (!effective) {
+      await ElectronicSignatureService.sign('CAPA', id, 'REVIEWED', credentials);
+      return this.updateCAPA(id, {
+        is_effective: false,
+        verification_notes: notes.trim(),
+        discipline: 4,
+        status: 'IN_PROGRESS',
+      });
+    }
+
+    await QualityExecutionService.verifyCAPA(id, userData.user.id, credentials, notes.trim());
+    return this.updateCAPA(id, {
+      is_effective: true,
+      discipline: 7,
+      corrective_completed_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * D8 closure. Linked customer complaints are resolved with the CAPA.
+   */
+  async closeCAPA(id: string, lessonsLearned: string): Promise<CAPA8D> {
+    const capa = await this.getCAPA(id);
+    if (!capa) throw new Error('CAPA not found');
+    if (capa.discipline !== 8) throw new Error('Complete D1 through D7 before closing');
+    if (!lessonsLearned.trim()) throw new Error('Record the lessons learned');
+
+    const { data: userData } = await supabase.auth.getUser();
+
+    await QualityExecutionService.closeCAPA(id);
+    const closed = await this.updateCAPA(id, {
+      lessons_learned: lessonsLearned.trim(),
+      closed_by: userData.user?.id,
+      closed_at: new Date().toISOString(),
+    });
+
+    const complaintIds = (capa.links || [])
+      .filter(l => l.complaint_id && l.complaint?.status !== 'CLOSED')
+      .map(l => l.complaint_id as string);
+    if (complaintIds.length > 0) {
+      const { error } = await supabase
+        .from('quality_customer_complaints')
+        .update({ status: 'RESOLVED', resolution: `Resolved by ${capa.capa_number}` })
+        .in('id', complaintIds);
+      if (error) throw error;
+    }
+
+    return closed;
+  }
+
+  isOverdue(capa: CAPA8D): boolean {
+    if (!OPEN_CAPA_STATUSES.includes(capa.status)) return false;
+    const today = new Date().toISOString().split('T')[0];
+    return (!!capa.due_date && capa.due_date < today)
+      || (capa.actions || []).some(a => this.isActionOverdue(a));
+  }
+
+  isActionOverdue(action: CAPAAction): boolean {
+    return action.status === 'OPEN'
+      && !!action.due_date
+      && action.due_date < new Date().toISOString().split('T')[0];
+  }
+
+  /**
+   * Escalate overdue CAPAs and notify their owners, then management once
+   * they are more than CAPA_MANAGEMENT_ESCALATION_DAYS past due. Returns the
+   * number of CAPAs escalated.
+   */
+  async escalateOverdue(): Promise<number> {
+    const { data, error } = await supabase.rpc('fn_escalate_overdue_capas', {
+      p_management_after_days: CAPA_MANAGEMENT_ESCALATION_DAYS,
+    });
+
+    if (error) throw error;
+    return (data as number) || 0;
+  }
+
+  // =====================================================
+  // TEAM
+  // =====================================================
+
+  async addTeamMember(
+    capaId: string,
+    userId: string,
+    role: CAPATeamRole = 'MEMBER',
+    responsibility?: string
+  ): Promise<CAPATeamMember> {
+    const { data, error } = await supabase
+      .from('quality_capa_team_members')
+      .insert({
+        capa_id: capaId,
+        user_id: userId,
+        team_role: role,
+        responsibility: responsibility?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') throw new Error('Already on the team');
+      throw error;
+    }
+    return data;
+  }
+
+  async removeTeamMember(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('quality_capa_team_members')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // =====================================================
+  // ACTIONS
+  // =====================================================
+
+  async addAction(capaId: string, input: CreateCAPAActionInput): Promise<CAPAAction> {
+    if (!input.description.trim()) throw new Error('Action description is required');
+    if (input.action_type !== 'CONTAINMENT' && (!input.owner_id || !input.due_date)) {
+      throw new Error('Corrective and preventive actions need an owner and a due date');
+    }
+
+    const { data, error } = await supabase
+      .from('quality_capa_actions')
+      .insert({
+        capa_id: capaId,
+        action_type: input.action_type,
+        description: input.description.trim(),
+        owner_id: input.owner_id || null,
+        due_date: input.due_date || null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateAction(id: string, updates: Partial<Omit<CAPAAction, 'owner'>>): Promise<CAPAAction> {
+    const { data, error } = await supabase
+      .from('quality_capa_actions')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async completeAction(id: string, notes?: string): Promise<CAPAAction> {
+    const { data: userData } = await supabase.auth.getUser();
+
+    return this.updateAction(id, {
+      status: 'COMPLETED',
+      completed_at: new Date().toISOString(),
+      completed_by: userData.user?.id || null,
+      completion_notes: notes?.trim() || null,
+    });
+  }
+
+  async cancelAction(id: string, reason: string): Promise<CAPAAction> {
+    if (!reason.trim()) throw new Error('Give a reason for cancelling the action');
+    return this.updateAction(id, {
+      status: 'CANCELLED',
+      completion_notes: reason.trim(),
+    });
+  }
+
+  // =====================================================
+  // LINKED NCS AND COMPLAINTS
+  // =====================================================
+
+  async linkNonconformance(capaId: string, nonconformanceId: string): Promise<void> {
+    const { error } = await supabase
+      .from('quality_capa_links')
+      .insert({ capa_id: capaId, nonconformance_id: nonconformanceId });
+
+    if (error) {
+      if (error.code === '23505') throw new Error('This nonconformance is already covered by a CAPA');
+      throw error;
+    }
+  }
+
+  async linkComplaint(capaId: string, complaintId: string): Promise<void> {
+    const { error } = await supabase
+      .from('quality_capa_links')
+      .insert({ capa_id: capaId, complaint_id: complaintId });
+
+    if (error) {
+      if (error.code === '23505') throw new Error('This complaint is already covered by a CAPA');
+      throw error;
+    }
+
+    await this.updateComplaint(complaintId, { status: 'INVESTIGATING' });
+  }
+
+  async unlink(linkId: string): Promise<void> {
+    const { error } = await supabase
+      .from('quality_capa_links')
+      .delete()
+      .eq('id', linkId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Nonconformance ids already covered by a CAPA
+   */
+  async getLinkedNonconformanceIds(): Promise<Set<string>> {
+    const { data, error } = await supabase
+      .from('quality_capa_links')
+      .select('nonconformance_id')
+      .not('nonconformance_id', 'is', null);
+
+    if (error) throw error;
+    return new Set((data || []).map(l => l.nonconformance_id as string));
+  }
+
+  // =====================================================
+  // CUSTOMER COMPLAINTS
+  // =====================================================
+
+  async getComplaints(filters?: {
+    status?: ComplaintStatus;
+    customer_id?: string;
+  }): Promise<CustomerComplaint[]> {
+    let query = supabase
+      .from('quality_customer_complaints')
+      .select(`
+        *,
+        customer:customers(name),
+        part:parts(part_number, name),
+        capa_link:quality_capa_links(capa_id)
+      `)
+      .order('received_at', { ascending: false });
+
+    if (filters?.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters?.customer_id) {
+      query = query.eq('customer_id', filters.customer_id);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as unknown as CustomerComplaint[];
+  }
+
+  async createComplaint(input: Partial<CustomerComplaint>): Promise<CustomerComplaint> {
+    if (!input.title?.trim()) throw new Error('Title is required');
+    const { data: userData } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('quality_customer_complaints')
+      .insert({
+        ...input,
+        title: input.title.trim(),
+        reported_by: userData.user?.id || null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateComplaint(
+    id: string,
+    updates: Partial<Omit<CustomerComplaint, 'customer' | 'part' | 'capa_link'>>
+  ): Promise<CustomerComplaint> {
+    const { data, error } = await supabase
+      .from('quality_customer_complaints')
+      .update({
+        ...updates,
+        ...(updates.status === 'CLOSED' ? { closed_at: new Date().toISOString() } : {}),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // =====================================================
+  // LOOKUPS
+  // =====================================================
+
+  /**
+   * Active users who can own a CAPA, sit on its team or own an action
+   */
+  async getPeople(): Promise<PersonOption[]> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .eq('is_active', true)
+      .order('full_name');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getCustomers(): Promise<{ id: string; name: string }[]> {
+    const { data, error } = await supabase
+      .from('customers')
+      .select('id, name')
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // =====================================================
+  // HELPERS
+  // =====================================================
+
+  private summarizeActions(capa: CAPA8D, type: CAPAActionType): string {
+    return (capa.actions || [])
+      .filter(a => a.action_type === type && a.status !== 'CANCELLED')
+      .map(a => `- ${a.description}`)
+      .join('\n');
+  }
+
+  private latestDueDate(capa: CAPA8D, type: CAPAActionType): string | undefined {
+    const dates = (capa.actions || [])
+      .filter(a => a.action_type === type && a.status !== 'CANCELLED' && a.due_date)
+      .map(a => a.due_date as string)
+      .sort();
+    return dates[dates.length - 1];
+  }
+}
+
+export const CAPAService = new CAPAServiceClass();
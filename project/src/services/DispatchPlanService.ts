@@ -0,0 +1,407 @@
+/**
+ * DispatchPlanService
+ *
+ * Plans a dispatch day across all technicians and compares the result with
+ * the schedule as it stands:
+ * - Loads the day's open and scheduled tickets, optionally with the
+ *   unscheduled backlog, with arrival windows, durations and priorities
+ * - Loads each technician's shift, lunch break and start location
+ * - Solves the day with RouteOptimizationService.planDay and scores the
+ *   current schedule with the same model
+ * - Writes an accepted plan back to the tickets
+ * - Technician work hours maintained from Settings
+ */
+
+import { supabase } from '../lib/supabase';
+import { GeocodingService } from './GeocodingService';
+import {
+  RouteOptimizationService,
+  type DayPlan,
+  type DayPlanJob,
+  type DayPlanTechnician,
+  type RouteStop,
+} from './RouteOptimizationService';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export interface TechnicianWorkHours {
+  technician_id: string;
+  shift_start: string;
+  shift_end: string;
+  lunch_earliest: string;
+  lunch_latest: string;
+  lunch_minutes: number;
+  start_address: string | null;
+  start_latitude: number | null;
+  start_longitude: number | null;
+}
+
+export type TechnicianWorkHoursInput = Omit<TechnicianWorkHours, 'start_latitude' | 'start_longitude'>;
+
+export interface DayPlanOptions {
+  /** Also plan open tickets that have no scheduled date yet */
+  includeUnscheduled: boolean;
+  /** Keep tickets with their assigned technician; only re-sequence them */
+  keepAssignments: boolean;
+}
+
+export interface DayPlanJobInfo {
+  ticketId: string;
+  ticketNumber: string;
+  title: string;
+  customerName: string;
+  address: string;
+  priority: RouteStop['priority'];
+  duration: number;
+  windowStart: number | null;
+  windowEnd: number | null;
+  currentTechnicianId: string | null;
+  currentStart: number | null;
+}
+
+export interface DayPlanComparison {
+  technicians: DayPlanTechnician[];
+  jobs: Record<string, DayPlanJobInfo>;
+  current: DayPlan;
+  proposed: DayPlan;
+  /** Tickets left out of planning, e.g. without a location */
+  skipped: Array<{ ticketId: string; ticketNumber: string; reason: string }>;
+}
+
+export const DEFAULT_WORK_HOURS: Omit<TechnicianWorkHoursInput, 'technician_id'> = {
+  shift_start: '08:00',
+  shift_end: '17:00',
+  lunch_earliest: '11:30',
+  lunch_latest: '13:30',
+  lunch_minutes: 30,
+  start_address: null,
+};
+
+interface PlanTicket {
+  id: string;
+  ticket_number: string;
+  title: string;
+  priority: 'low' | 'normal' | 'high' | 'urgent' | null;
+  status: string | null;
+  assigned_to: string | null;
+  scheduled_date: string | null;
+  estimated_duration: number | null;
+  started_at: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  arrival_window_start: string | null;
+  arrival_window_end: string | null;
+  customers: {
+    name: string;
+    address: string | null;
+    city: string | null;
+    latitude: number | null;
+    longitude: number | null;
+  } | null;
+}
+
+const PLAN_TICKET_COLUMNS = `id, ticket_number, title, priority, status, assigned_to, scheduled_date, estimated_duration,
+  started_at, latitude, longitude, arrival_window_start, arrival_window_end,
+  customers!tickets_customer_id_fkey(name, address, city, latitude, longitude)`;
+
+const DEFAULT_DURATION_MINUTES = 120;
+
+/** 'HH:MM' or 'HH:MM:SS' to minutes after midnight */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/** Minutes after midnight as a clock time, e.g. 8:30 AM */
+export function formatPlanTime(minutes: number): string {
+  const date = new Date(2000, 0, 1, 0, Math.round(minutes));
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+// =====================================================
+// SERVICE CLASS
+// =====================================================
+
+class DispatchPlanServiceClass {
+  // ========== Day Planning ==========
+
+  /**
+   * Plan the day and score the current schedule the same way, so the
+   * dispatcher can compare the two before accepting.
+   */
+  async optimizeDay(date: Date, options: DayPlanOptions): Promise<DayPlanComparison> {
+    const { dayStart, dayEnd } = this.dayBounds(date);
+    const isToday = dayStart.toDateString() === new Date().toDateString();
+
+    const [techResult, workHours, dayTickets, backlog, inProgress] = await Promise.all([
+      supabase
+        .from('profiles')
+        .select('id, full_name')
+        .eq('role', 'technician')
+        .eq('is_active', true)
+        .order('full_name', { ascending: true }),
+      this.getWorkHours(),
+      this.loadTickets('day', dayStart, dayEnd),
+      options.includeUnscheduled
+        ? this.loadTickets('unscheduled', dayStart, dayEnd)
+        : Promise.resolve([] as PlanTicket[]),
+      isToday
+        ? this.loadTickets('in_progress', dayStart, dayEnd)
+        : Promise.resolve([] as PlanTicket[]),
+    ]);
+
+    if (techResult.error) throw techResult.error;
+
+    const hoursByTech = new Map(workHours.map(h => [h.technician_id, h]));
+    const nowMinutes = isToday ? Math.ceil((new Date().getHours() * 60 + new Date().getMinutes()) / 5) * 5 : 0;
+    const locations = isToday
+      ? await this.loadLatestLocations((techResult.data || []).map(t => t.id))
+      : new Map<string, { latitude: number; longitude: number }>();
+
+    const technicians: DayPlanTechnician[] = (techResult.data || []).map(tech => {
+      const hours = hoursByTech.get(tech.id);
+      const settings = hours || { ...DEFAULT_WORK_HOURS, technician_id: tech.id, start_latitude: null, start_longitude: null };
+      let shiftStart = Math.max(timeToMinutes(settings.shift_start), nowMinutes);
+      let startLocation = settings.start_latitude !== null && settings.start_longitude !== null
+        ? { latitude: Number(settings.start_latitude), longitude: Number(settings.start_longitude) }
+        : null;
+
+      if (isToday) {
+        startLocation = locations.get(tech.id) || startLocation;
+        // Finish the job they are on first, then go on from there
+        const current = inProgress.find(t => t.assigned_to === tech.id);
+        if (current) {
+          const location = this.ticketLocation(current);
+          if (location) startLocation = location;
+          const startedAt = current.started_at ? new Date(current.started_at) : new Date();
+          const finish = startedAt.getHours() * 60 + startedAt.getMinutes()
+            + (current.estimated_duration || DEFAULT_DURATION_MINUTES);
+          shiftStart = Math.max(shiftStart, finish);
+        }
+      }
+
+      return {
+        id: tech.id,
+        name: tech.full_name,
+        startLocation,
+        shiftStart,
+        shiftEnd: timeToMinutes(settings.shift_end),
+        lunchEarliest: timeToMinutes(settings.lunch_earliest),
+        lunchLatest: timeToMinutes(settings.lunch_latest),
+        lunchMinutes: settings.lunch_minutes,
+      };
+    });
+
+    const techIds = new Set(technicians.map(t => t.id));
+    const jobs: DayPlanJob[] = [];
+    const jobInfo: Record<string, DayPlanJobInfo> = {};
+    const skipped: DayPlanComparison['skipped'] = [];
+
+    for (const ticket of [...dayTickets, ...backlog]) {
+      const location = this.ticketLocation(ticket);
+      if (!location) {
+        skipped.push({ ticketId: ticket.id, ticketNumber: ticket.ticket_number, reason: 'No location for the ticket or customer' });
+        continue;
+      }
+
+      const priority: RouteStop['priority'] = ticket.priority === 'urgent' ? 'emergency' : ticket.priority || 'normal';
+      const windowStart = ticket.arrival_window_start ? timeToMinutes(ticket.arrival_window_start) : null;
+      const windowEnd = ticket.arrival_window_end ? timeToMinutes(ticket.arrival_window_end) : null;
+      const address = [ticket.customers?.address, ticket.customers?.city].filter(Boolean).join(', ');
+      const scheduled = ticket.scheduled_date ? new Date(ticket.scheduled_date) : null;
+      const currentTechnicianId = ticket.assigned_to && techIds.has(ticket.assigned_to) ? ticket.assigned_to : null;
+
+      jobs.push({
+        id: ticket.id,
+        name: `${ticket.ticket_number} - ${ticket.customers?.name || 'Unknown'}`,
+        address,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        priority,
+        duration: ticket.estimated_duration || DEFAULT_DURATION_MINUTES,
+        windowStart,
+        windowEnd,
+        lockedTechnicianId: options.keepAssignments ? currentTechnicianId : null,
+      });
+
+      jobInfo[ticket.id] = {
+        ticketId: ticket.id,
+        ticketNumber: ticket.ticket_number,
+        title: ticket.title,
+        customerName: ticket.customers?.name || 'Unknown',
+        address,
+        priority,
+        duration: ticket.estimated_duration || DEFAULT_DURATION_MINUTES,
+        windowStart,
+        windowEnd,
+        currentTechnicianId,
+        currentStart: scheduled ? scheduled.getHours() * 60 + scheduled.getMinutes() : null,
+      };
+    }
+
+    // The current schedule: each technician's tickets for the day in time order
+    const currentAssignments: Record<string, string[]> = {};
+    for (const info of Object.values(jobInfo)) {
+      if (!info.currentTechnicianId || info.currentStart === null) continue;
+      (currentAssignments[info.currentTechnicianId] ||= []).push(info.ticketId);
+    }
+    for (const ids of Object.values(currentAssignments)) {
+      ids.sort((a, b) => (jobInfo[a].currentStart ?? 0) - (jobInfo[b].currentStart ?? 0));
+    }
+
+    return {
+      technicians,
+      jobs: jobInfo,
+      current: RouteOptimizationService.evaluateDayPlan(technicians, jobs, currentAssignments),
+      proposed: RouteOptimizationService.planDay(technicians, jobs),
+      skipped,
+    };
+  }
+
+  /**
+   * Assign and schedule every planned visit. Tickets the plan left
+   * unassigned keep their current schedule.
+   */
+  async acceptPlan(date: Date, plan: DayPlan): Promise<number> {
+    const { dayStart } = this.dayBounds(date);
+    let updated = 0;
+
+    for (const route of plan.routes) {
+      for (const visit of route.visits) {
+        const scheduledDate = new Date(dayStart);
+        scheduledDate.setMinutes(visit.start);
+
+        const { error } = await supabase
+          .from('tickets')
+          .update({
+            assigned_to: route.technicianId,
+            scheduled_date: scheduledDate.toISOString(),
+            status: 'scheduled',
+          })
+          .eq('id', visit.jobId);
+
+        if (error) throw error;
+        updated++;
+      }
+    }
+
+    return updated;
+  }
+
+  // ========== Work Hours ==========
+
+  async getWorkHours(): Promise<TechnicianWorkHours[]> {
+    const { data, error } = await supabase
+      .from('technician_work_hours')
+      .select('*');
+
+    if (error) throw error;
+    return (data || []) as unknown as TechnicianWorkHours[];
+  }
+
+  /**
+   * Save a technician's hours. The start address is geocoded when it
+   * changes; if that fails the technician starts from their first job.
+   */
+  async saveWorkHours(input: TechnicianWorkHoursInput, previousAddress?: string | null): Promise<void> {
+    const address = input.start_address?.trim() || null;
+    let coordinates: Partial<Pick<TechnicianWorkHours, 'start_latitude' | 'start_longitude'>> = {};
+
+    if (!address) {
+      coordinates = { start_latitude: null, start_longitude: null };
+    } else if (address !== previousAddress) {
+      try {
+        const result = await GeocodingService.geocodeAddress(address);
+        coordinates = { start_latitude: result.latitude, start_longitude: result.longitude };
+      } catch (err) {
+        console.error('Error geocoding technician start address:', err);
+        coordinates = { start_latitude: null, start_longitude: null };
+      }
+    }
+
+    const { error } = await supabase
+      .from('technician_work_hours')
+      .upsert({ ...input, start_address: address, ...coordinates }, { onConflict: 'technician_id' });
+
+    if (error) throw error;
+  }
+
+  async resetWorkHours(technicianId: string): Promise<void> {
+    const { error } = await supabase
+      .from('technician_work_hours')
+      .delete()
+      .eq('technician_id', technicianId);
+
+    if (error) throw error;
+  }
+
+  // ========== Private Helpers ==========
+
+  private dayBounds(date: Date): { dayStart: Date; dayEnd: Date } {
+    const dayStart = new Date(date);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(date);
+    dayEnd.setHours(23, 59, 59, 999);
+    return { dayStart, dayEnd };
+  }
+
+  private async loadTickets(
+    kind: 'day' | 'unscheduled' | 'in_progress',
+    dayStart: Date,
+    dayEnd: Date
+  ): Promise<PlanTicket[]> {
+    let query = supabase.from('tickets').select(PLAN_TICKET_COLUMNS);
+    if (kind === 'day') {
+      query = query
+        .in('status', ['open', 'scheduled'])
+        .gte('scheduled_date', dayStart.toISOString())
+        .lte('scheduled_date', dayEnd.toISOString());
+    } else if (kind === 'unscheduled') {
+      query = query.in('status', ['open', 'scheduled']).is('scheduled_date', null);
+    } else {
+      query = query.eq('status', 'in_progress').not('assigned_to', 'is', null);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as unknown as PlanTicket[];
+  }
+
+  private ticketLocation(ticket: PlanTicket): { latitude: number; longitude: number } | null {
+    if (ticket.latitude !== null && ticket.longitude !== null) {
+      return { latitude: Number(ticket.latitude), longitude: Number(ticket.longitude) };
+    }
+    if (ticket.customers?.latitude != null && ticket.customers?.longitude != null) {
+      return { latitude: Number(ticket.customers.latitude), longitude: Number(ticket.customers.longitude) };
+    }
+    return null;
+  }
+
+  private async loadLatestLocations(techIds: string[]): Promise<Map<string, { latitude: number; longitude: number }>> {
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    const latest = await Promise.all(
+      techIds.map(async techId => {
+        const { data } = await supabase
+          .from('technician_locations')
+          .select('latitude, longitude')
+          .eq('technician_id', techId)
+          .gte('timestamp', since.toISOString())
+          .order('timestamp', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        return [techId, data] as const;
+      })
+    );
+
+    const locations = new Map<string, { latitude: number; longitude: number }>();
+    for (const [techId, location] of latest) {
+      if (location) locations.set(techId, { latitude: location.latitude, longitude: location.longitude });
+    }
+    return locations;
+  }
+}
+
+export const DispatchPlanService = new DispatchPlanServiceClass();
@@ -0,0 +1,692 @@
+/**
+ * DispatchRecommendationService
+ *
+ * Ranks technicians for a ticket, so dispatch sees who should go rather
+ * than only who is free:
+ * - Skills and certifications against the ticket's equipment type
+ * - Territory coverage of the customer's ZIP code
+ * - Drive time from their last reported location, or from the job before
+ *   the scheduled time, via RouteOptimizationService
+ * - Jobs already booked that day and overlap with the scheduled time
+ * - Truck stock for the ticket's planned parts
+ * - Whether they can be on site inside the service contract's response SLA
+ * - Technician skills and service territories maintained from Settings
+ */
+
+import { supabase } from '../lib/supabase';
+import { RouteOptimizationService } from './RouteOptimizationService';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type SkillProficiency = 'trainee' | 'qualified' | 'expert';
+
+export interface TechnicianSkill {
+  id: string;
+  technician_id: string;
+  equipment_type: string;
+  proficiency: SkillProficiency;
+  certification: string | null;
+  certification_number: string | null;
+  certified_until: string | null;
+}
+
+export type TechnicianSkillInput = Omit<TechnicianSkill, 'id'>;
+
+export interface TerritoryTechnician {
+  technician_id: string;
+  is_primary: boolean;
+}
+
+export interface ServiceTerritory {
+  id: string;
+  name: string;
+  zip_codes: string[];
+  is_active: boolean;
+  technicians: TerritoryTechnician[];
+}
+
+export type ServiceTerritoryInput = Omit<ServiceTerritory, 'id'>;
+
+export type RecommendationFactor = 'skills' | 'territory' | 'drive_time' | 'workload' | 'parts' | 'sla';
+
+export interface RecommendationReason {
+  factor: RecommendationFactor;
+  text: string;
+  positive: boolean;
+}
+
+export interface TechnicianRecommendation {
+  technicianId: string;
+  technicianName: string;
+  score: number; // 0-100
+  reasons: RecommendationReason[];
+  distanceMiles: number | null;
+  driveMinutes: number | null;
+  etaAt: Date | null;
+  jobsThatDay: number;
+  hasConflict: boolean;
+  partsOnTruck: number;
+  partsPlanned: number;
+  meetsSla: boolean | null;
+}
+
+export interface DispatchRecommendations {
+  ticketId: string;
+  slaHours: number | null;
+  slaDeadline: Date | null;
+  recommendations: TechnicianRecommendation[];
+}
+
+interface RecommendationTicket {
+  id: string;
+  ticket_number: string;
+  created_at: string | null;
+  scheduled_date: string | null;
+  estimated_duration: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  assigned_to: string | null;
+  customers: { latitude: number | null; longitude: number | null; zip_code: string | null } | null;
+  equipment: { equipment_type: string | null } | null;
+  service_contracts: { response_time_sla_hours: number | null } | null;
+  ticket_parts_planned: Array<{ part_id: string | null; quantity: number }>;
+  ticket_assignments: Array<{ technician_id: string }>;
+}
+
+interface BookedTicket {
+  id: string;
+  ticket_number: string;
+  status: string;
+  scheduled_date: string | null;
+  estimated_duration: number | null;
+  started_at: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  customers: { latitude: number | null; longitude: number | null } | null;
+}
+
+interface BookedJob {
+  ticketId: string;
+  ticketNumber: string;
+  inProgress: boolean;
+  start: Date | null;
+  end: Date | null;
+  location: { latitude: number; longitude: number } | null;
+}
+
+interface TechnicianContext {
+  id: string;
+  name: string;
+  skill: TechnicianSkill | null;
+  territory: { name: string; is_primary: boolean } | null;
+  location: { latitude: number; longitude: number } | null;
+  jobs: BookedJob[];
+  stock: Map<string, number>;
+}
+
+export const PROFICIENCY_LABELS: Record<SkillProficiency, string> = {
+  trainee: 'Trainee',
+  qualified: 'Qualified',
+  expert: 'Expert',
+};
+
+/** Points each factor contributes to the 100-point score */
+const WEIGHTS: Record<Exclude<RecommendationFactor, 'sla'>, number> = {
+  skills: 30,
+  drive_time: 25,
+  territory: 15,
+  workload: 15,
+  parts: 15,
+};
+
+/** Points taken off when the technician can't be on site inside the SLA */
+const SLA_MISS_PENALTY = 25;
+
+const PROFICIENCY_SCORE: Record<SkillProficiency, number> = { expert: 1, qualified: 0.8, trainee: 0.35 };
+
+/** Drive time at which the drive score reaches zero */
+const MAX_DRIVE_MINUTES = 90;
+
+/** Jobs in a day at which the workload score reaches zero */
+const FULL_DAY_JOBS = 6;
+
+/** Reported locations older than this are not used for drive time */
+const LOCATION_MAX_AGE_HOURS = 12;
+
+/** Same default job length ScheduleConflictService uses */
+const DEFAULT_DURATION_MINUTES = 120;
+
+const ACTIVE_STATUSES = ['open', 'scheduled', 'in_progress'] as const;
+
+const normalizeZip = (zip: string | null | undefined): string | null =>
+  zip ? zip.trim().slice(0, 5) || null : null;
+
+const formatTime = (date: Date): string => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+// =====================================================
+// SERVICE CLASS
+// =====================================================
+
+class DispatchRecommendationServiceClass {
+  // ========== Recommendations ==========
+
+  /**
+   * Rank active technicians not already on the ticket, best first. A
+   * scheduled ticket is ranked for its scheduled time; an unscheduled one
+   * for going now, against the contract's response SLA.
+   */
+  async recommendTechnicians(ticketId: string, limit = 3): Promise<DispatchRecommendations> {
+    const { data: ticketData, error: ticketError } = await supabase
+      .from('tickets')
+      .select(`
+        id, ticket_number, created_at, scheduled_date, estimated_duration, latitude, longitude, assigned_to,
+        customers!tickets_customer_id_fkey(latitude, longitude, zip_code),
+        equipment(equipment_type),
+        service_contracts!tickets_service_contract_id_fkey(response_time_sla_hours),
+        ticket_parts_planned(part_id, quantity),
+        ticket_assignments(technician_id)
+      `)
+      .eq('id', ticketId)
+      .single();
+
+    if (ticketError) throw ticketError;
+    const ticket = ticketData as unknown as RecommendationTicket;
+
+    const alreadyAssigned = new Set([
+      ...(ticket.assigned_to ? [ticket.assigned_to] : []),
+      ...(ticket.ticket_assignments || []).map(a => a.technician_id),
+    ]);
+
+    const { data: techData, error: techError } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .eq('role', 'technician')
+      .eq('is_active', true);
+
+    if (techError) throw techError;
+    const technicians = (techData || []).filter(t => !alreadyAssigned.has(t.id));
+
+    const slaHours = ticket.service_contracts?.response_time_sla_hours ?? null;
+    const slaDeadline = slaHours && ticket.created_at
+      ? new Date(new Date(ticket.created_at).getTime() + slaHours * 60 * 60 * 1000)
+      : null;
+
+    if (technicians.length === 0) {
+      return { ticketId, slaHours, slaDeadline, recommendations: [] };
+    }
+
+    const techIds = technicians.map(t => t.id);
+    const equipmentType = ticket.equipment?.equipment_type?.trim() || null;
+    const zip = normalizeZip(ticket.customers?.zip_code);
+
+    const plannedParts = new Map<string, number>();
+    for (const part of ticket.ticket_parts_planned || []) {
+      if (part.part_id) plannedParts.set(part.part_id, (plannedParts.get(part.part_id) || 0) + Number(part.quantity || 0));
+    }
+
+    const [skills, territories, locations, jobs, stock] = await Promise.all([
+      equipmentType ? this.loadSkills(techIds, equipmentType) : Promise.resolve(new Map<string, TechnicianSkill>()),
+      zip ? this.loadTerritoryCoverage(zip) : Promise.resolve({ zipCovered: false, technicians: new Map() }),
+      this.loadLocations(techIds),
+      this.loadBookedJobs(techIds, ticket.id),
+      plannedParts.size > 0
+        ? this.loadTruckStock(techIds, [...plannedParts.keys()])
+        : Promise.resolve(new Map<string, Map<string, number>>()),
+    ]);
+
+    const target = this.ticketLocation(ticket);
+    const recommendations = technicians
+      .map(tech => this.scoreTechnician(
+        {
+          id: tech.id,
+          name: tech.full_name,
+          skill: skills.get(tech.id) || null,
+          territory: territories.technicians.get(tech.id) || null,
+          location: locations.get(tech.id) || null,
+          jobs: jobs.get(tech.id) || [],
+          stock: stock.get(tech.id) || new Map(),
+        },
+        { ticket, target, equipmentType, zipInTerritory: territories.zipCovered, plannedParts, slaHours, slaDeadline }
+      ))
+      .sort((a, b) => b.score - a.score || (a.driveMinutes ?? Infinity) - (b.driveMinutes ?? Infinity));
+
+    return { ticketId, slaHours, slaDeadline, recommendations: recommendations.slice(0, limit) };
+  }
+
+  // ========== Skills ==========
+
+  async getSkills(): Promise<TechnicianSkill[]> {
+    const { data, error } = await supabase
+      .from('technician_skills')
+      .select('*')
+      .order('equipment_type');
+
+    if (error) throw error;
+    return (data || []) as unknown as TechnicianSkill[];
+  }
+
+  async saveSkill(id: string | null, input: TechnicianSkillInput): Promise<void> {
+    const row = {
+      ...input,
+      equipment_type: input.equipment_type.trim(),
+      certification: input.certification?.trim() || null,
+      certification_number: input.certification_number?.trim() || null,
+      certified_until: input.certified_until || null,
+    };
+    if (!row.equipment_type) throw new Error('Equipment type is required');
+
+    const { error } = id
+      ? await supabase.from('technician_skills').update(row).eq('id', id)
+      : await supabase.from('technician_skills').insert(row);
+
+    if (error) {
+      if (error.code === '23505') throw new Error(`This technician already has a ${row.equipment_type} skill`);
+      throw error;
+    }
+  }
+
+  async deleteSkill(id: string): Promise<void> {
+    const { error } = await supabase.from('technician_skills').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  // ========== Territories ==========
+
+  async getTerritories(): Promise<ServiceTerritory[]> {
+    const { data, error } = await supabase
+      .from('service_territories')
+      .select('*, technicians:technician_territories(technician_id, is_primary)')
+      .order('name');
+
+    if (error) throw error;
+    return (data || []) as unknown as ServiceTerritory[];
+  }
+
+  /**
+   * Create or update a territory and replace the technicians covering it.
+   * A technician has one primary territory, so marking it primary here
+   * clears the flag on their other territories.
+   */
+  async saveTerritory(id: string | null, input: ServiceTerritoryInput): Promise<void> {
+    const zipCodes = [...new Set(input.zip_codes.map(z => normalizeZip(z)).filter((z): z is string => !!z))];
+    if (!input.name.trim()) throw new Error('Territory name is required');
+    if (zipCodes.length === 0) throw new Error('Add at least one ZIP code');
+
+    const row = { name: input.name.trim(), zip_codes: zipCodes, is_active: input.is_active };
+    let territoryId = id;
+    if (territoryId) {
+      const { error } = await supabase.from('service_territories').update(row).eq('id', territoryId);
+      if (error) throw error;
+    } else {
+      const { data, error } = await supabase.from('service_territories').insert(row).select('id').single();
+      if (error) throw error;
+      territoryId = (data as { id: string }).id;
+    }
+
+    const { error: deleteError } = await supabase
+      .from('technician_territories')
+      .delete()
+      .eq('territory_id', territoryId);
+    if (deleteError) throw deleteError;
+
+    const primaryTechIds = input.technicians.filter(t => t.is_primary).map(t => t.technician_id);
+    if (primaryTechIds.length > 0) {
+      const { error } = await supabase
+        .from('technician_territories')
+        .update({ is_primary: false })
+        .in('technician_id', primaryTechIds);
+      if (error) throw error;
+    }
+
+    if (input.technicians.length > 0) {
+      const { error } = await supabase
+        .from('technician_territories')
+        .insert(input.technicians.map(t => ({ ...t, territory_id: territoryId })));
+      if (error) throw error;
+    }
+  }
+
+  async deleteTerritory(id: string): Promise<void> {
+    const { error } = await supabase.from('service_territories').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  // ========== Private Helpers ==========
+
+  private scoreTechnician(
+    tech: TechnicianContext,
+    context: {
+      ticket: RecommendationTicket;
+      target: { latitude: number; longitude: number } | null;
+      equipmentType: string | null;
+      zipInTerritory: boolean;
+      plannedParts: Map<string, number>;
+      slaHours: number | null;
+      slaDeadline: Date | null;
+    }
+  ): TechnicianRecommendation {
+    const { ticket, target, equipmentType, plannedParts, slaHours, slaDeadline } = context;
+    const reasons: RecommendationReason[] = [];
+    let score = 0;
+
+    // Skills
+    if (!equipmentType) {
+      score += WEIGHTS.skills * 0.5;
+    } else if (!tech.skill) {
+      reasons.push({ factor: 'skills', text: `No ${equipmentType} skill on record`, positive: false });
+    } else {
+      const { proficiency, certification, certified_until } = tech.skill;
+      const expired = !!certified_until && new Date(`${certified_until}T23:59:59`) < new Date();
+      score += WEIGHTS.skills * PROFICIENCY_SCORE[expired ? 'trainee' : proficiency];
+      if (expired) {
+        reasons.push({
+          factor: 'skills',
+          text: `${certification || 'Certification'} for ${equipmentType} expired ${new Date(`${certified_until}T00:00:00`).toLocaleDateString()}`,
+          positive: false,
+        });
+      } else {
+        reasons.push({
+          factor: 'skills',
+          text: `${PROFICIENCY_LABELS[proficiency]} on ${equipmentType}${certification ? ` (${certification})` : ''}`,
+          positive: proficiency !== 'trainee',
+        });
+      }
+    }
+
+    // Territory
+    if (!context.zipInTerritory) {
+      score += WEIGHTS.territory * 0.5;
+    } else if (tech.territory) {
+      score += WEIGHTS.territory * (tech.territory.is_primary ? 1 : 0.6);
+      reasons.push({
+        factor: 'territory',
+        text: tech.territory.is_primary ? `${tech.territory.name} is their home territory` : `Covers ${tech.territory.name}`,
+        positive: true,
+      });
+    } else {
+      reasons.push({ factor: 'territory', text: 'Outside their territories', positive: false });
+    }
+
+    // Jobs that day, and where they will be coming from
+    const durationMinutes = ticket.estimated_duration || DEFAULT_DURATION_MINUTES;
+    const proposedStart = ticket.scheduled_date ? new Date(ticket.scheduled_date) : null;
+    const proposedEnd = proposedStart ? new Date(proposedStart.getTime() + durationMinutes * 60 * 1000) : null;
+    const day = new Date(proposedStart || Date.now());
+    const dayStart = new Date(day);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(day);
+    dayEnd.setHours(23, 59, 59, 999);
+
+    const jobsThatDay = tech.jobs.filter(job =>
+      job.inProgress || (job.start !== null && job.start >= dayStart && job.start <= dayEnd)
+    );
+    const conflict = proposedStart && proposedEnd
+      ? jobsThatDay.find(job => job.start && job.end && proposedStart < job.end && proposedEnd > job.start)
+      : undefined;
+    const currentJob = tech.jobs.find(job => job.inProgress);
+
+    let origin = tech.location;
+    let originLabel = 'last location';
+    if (proposedStart) {
+      const previousJob = jobsThatDay
+        .filter(job => job.location && job.end && job.end <= proposedStart)
+        .sort((a, b) => (b.end as Date).getTime() - (a.end as Date).getTime())[0];
+      if (previousJob) {
+        origin = previousJob.location;
+        originLabel = previousJob.ticketNumber;
+      }
+    } else if (currentJob?.location) {
+      origin = currentJob.location;
+      originLabel = currentJob.ticketNumber;
+    }
+
+    // Drive time
+    let distanceMiles: number | null = null;
+    let driveMinutes: number | null = null;
+    if (origin && target) {
+      const travel = RouteOptimizationService.estimateTravel(origin, target);
+      distanceMiles = travel.distance;
+      driveMinutes = travel.duration;
+      score += WEIGHTS.drive_time * Math.max(0, 1 - driveMinutes / MAX_DRIVE_MINUTES);
+      reasons.push({
+        factor: 'drive_time',
+        text: `${driveMinutes} min drive (${distanceMiles} mi) from ${originLabel}`,
+        positive: driveMinutes <= 30,
+      });
+    } else {
+      score += WEIGHTS.drive_time * 0.3;
+      reasons.push({
+        factor: 'drive_time',
+        text: target ? 'No recent location' : 'Ticket has no map location',
+        positive: false,
+      });
+    }
+
+    // Workload
+    if (conflict) {
+      reasons.push({ factor: 'workload', text: `Booked at the scheduled time (${conflict.ticketNumber})`, positive: false });
+    } else {
+      score += WEIGHTS.workload * Math.max(0, 1 - jobsThatDay.length / FULL_DAY_JOBS);
+      reasons.push({
+        factor: 'workload',
+        text: jobsThatDay.length === 0
+          ? 'No other jobs that day'
+          : `${jobsThatDay.length} other job${jobsThatDay.length !== 1 ? 's' : ''} that day`,
+        positive: jobsThatDay.length < FULL_DAY_JOBS / 2,
+      });
+    }
+
+    // Truck stock
+    let partsOnTruck = 0;
+    for (const [partId, quantity] of plannedParts) {
+      if ((tech.stock.get(partId) || 0) >= quantity) partsOnTruck++;
+    }
+    if (plannedParts.size === 0) {
+      score += WEIGHTS.parts;
+    } else {
+      score += WEIGHTS.parts * (partsOnTruck / plannedParts.size);
+      reasons.push({
+        factor: 'parts',
+        text: partsOnTruck === plannedParts.size
+          ? `All ${plannedParts.size} planned part${plannedParts.size !== 1 ? 's' : ''} on the truck`
+          : partsOnTruck === 0
+            ? 'None of the planned parts on the truck'
+            : `${partsOnTruck} of ${plannedParts.size} planned parts on the truck`,
+        positive: partsOnTruck === plannedParts.size,
+      });
+    }
+
+    // Response SLA, for tickets being dispatched now
+    let etaAt: Date | null = null;
+    let meetsSla: boolean | null = null;
+    if (!proposedStart && driveMinutes !== null) {
+      const now = Date.now();
+      const availableAt = currentJob?.end ? Math.max(now, currentJob.end.getTime()) : now;
+      etaAt = new Date(availableAt + driveMinutes * 60 * 1000);
+      if (slaDeadline) {
+        meetsSla = etaAt <= slaDeadline;
+        if (!meetsSla) score -= SLA_MISS_PENALTY;
+        reasons.push({
+          factor: 'sla',
+          text: meetsSla
+            ? `On site by ${formatTime(etaAt)}, inside the ${slaHours}h SLA`
+            : `Would miss the ${slaHours}h SLA (on site around ${formatTime(etaAt)})`,
+          positive: meetsSla,
+        });
+      }
+    }
+
+    return {
+      technicianId: tech.id,
+      technicianName: tech.name,
+      score: Math.round(Math.min(100, Math.max(0, score))),
+      reasons,
+      distanceMiles,
+      driveMinutes,
+      etaAt,
+      jobsThatDay: jobsThatDay.length,
+      hasConflict: !!conflict,
+      partsOnTruck,
+      partsPlanned: plannedParts.size,
+      meetsSla,
+    };
+  }
+
+  private ticketLocation(ticket: {
+    latitude: number | null;
+    longitude: number | null;
+    customers: { latitude: number | null; longitude: number | null } | null;
+  }): { latitude: number; longitude: number } | null {
+    if (ticket.latitude != null && ticket.longitude != null) {
+      return { latitude: ticket.latitude, longitude: ticket.longitude };
+    }
+    if (ticket.customers?.latitude != null && ticket.customers?.longitude != null) {
+      return { latitude: ticket.customers.latitude, longitude: ticket.customers.longitude };
+    }
+    return null;
+  }
+
+  private async loadSkills(techIds: string[], equipmentType: string): Promise<Map<string, TechnicianSkill>> {
+    const { data, error } = await supabase
+      .from('technician_skills')
+      .select('*')
+      .in('technician_id', techIds)
+      .ilike('equipment_type', equipmentType.replace(/[%_\\]/g, '\\$&'));
+
+    if (error) throw error;
+    return new Map(((data || []) as unknown as TechnicianSkill[]).map(s => [s.technician_id, s]));
+  }
+
+  /**
+   * Whether any active territory includes the ZIP code, and the technicians
+   * covering it with their best territory for it.
+   */
+  private async loadTerritoryCoverage(zip: string): Promise<{
+    zipCovered: boolean;
+    technicians: Map<string, { name: string; is_primary: boolean }>;
+  }> {
+    const { data, error } = await supabase
+      .from('service_territories')
+      .select('name, technicians:technician_territories(technician_id, is_primary)')
+      .eq('is_active', true)
+      .contains('zip_codes', [zip]);
+
+    if (error) throw error;
+    const coverage = new Map<string, { name: string; is_primary: boolean }>();
+    for (const territory of (data || []) as unknown as Array<{ name: string; technicians: TerritoryTechnician[] }>) {
+      for (const tech of territory.technicians) {
+        if (!coverage.get(tech.technician_id)?.is_primary) {
+          coverage.set(tech.technician_id, { name: territory.name, is_primary: tech.is_primary });
+        }
+      }
+    }
+    return { zipCovered: (data || []).length > 0, technicians: coverage };
+  }
+
+  private async loadLocations(techIds: string[]): Promise<Map<string, { latitude: number; longitude: number }>> {
+    const cutoff = new Date(Date.now() - LOCATION_MAX_AGE_HOURS * 60 * 60 * 1000).toISOString();
+    const latest = await Promise.all(
+      techIds.map(async techId => {
+        const { data } = await supabase
+          .from('technician_locations')
+          .select('latitude, longitude')
+          .eq('technician_id', techId)
+          .gte('timestamp', cutoff)
+          .order('timestamp', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        return [techId, data] as const;
+      })
+    );
+
+    const locations = new Map<string, { latitude: number; longitude: number }>();
+    for (const [techId, location] of latest) {
+      if (location) locations.set(techId, { latitude: location.latitude, longitude: location.longitude });
+    }
+    return locations;
+  }
+
+  /**
+   * Open, scheduled and in-progress tickets each technician is on, as the
+   * primary technician or through ticket_assignments, other than this one.
+   */
+  private async loadBookedJobs(techIds: string[], excludeTicketId: string): Promise<Map<string, BookedJob[]>> {
+    const ticketColumns = `id, ticket_number, status, scheduled_date, estimated_duration, started_at, latitude, longitude,
+      customers!tickets_customer_id_fkey(latitude, longitude)`;
+
+    const [primary, assigned] = await Promise.all([
+      supabase
+        .from('tickets')
+        .select(`assigned_to, ${ticketColumns}`)
+        .in('assigned_to', techIds)
+        .in('status', [...ACTIVE_STATUSES])
+        .neq('id', excludeTicketId),
+      supabase
+        .from('ticket_assignments')
+        .select(`technician_id, scheduled_start, scheduled_end, tickets!inner(${ticketColumns})`)
+        .in('technician_id', techIds)
+        .in('tickets.status', [...ACTIVE_STATUSES])
+        .neq('ticket_id', excludeTicketId),
+    ]);
+
+    if (primary.error) throw primary.error;
+    if (assigned.error) throw assigned.error;
+
+    const jobs = new Map<string, Map<string, BookedJob>>();
+    const addJob = (techId: string, ticket: BookedTicket, start: string | null, end: string | null) => {
+      const startAt = start || ticket.scheduled_date || (ticket.status === 'in_progress' ? ticket.started_at : null);
+      const startDate = startAt ? new Date(startAt) : null;
+      const endDate = end
+        ? new Date(end)
+        : startDate
+          ? new Date(startDate.getTime() + (ticket.estimated_duration || DEFAULT_DURATION_MINUTES) * 60 * 1000)
+          : null;
+
+      if (!jobs.has(techId)) jobs.set(techId, new Map());
+      jobs.get(techId)!.set(ticket.id, {
+        ticketId: ticket.id,
+        ticketNumber: ticket.ticket_number,
+        inProgress: ticket.status === 'in_progress',
+        start: startDate,
+        end: endDate,
+        location: this.ticketLocation(ticket),
+      });
+    };
+
+    for (const row of (primary.data || []) as unknown as Array<BookedTicket & { assigned_to: string }>) {
+      addJob(row.assigned_to, row, null, null);
+    }
+    for (const row of (assigned.data || []) as unknown as Array<{
+      technician_id: string;
+      scheduled_start: string | null;
+      scheduled_end: string | null;
+      tickets: BookedTicket;
+    }>) {
+      addJob(row.technician_id, row.tickets, row.scheduled_start, row.scheduled_end);
+    }
+
+    return new Map([...jobs.entries()].map(([techId, byTicket]) => [techId, [...byTicket.values()]]));
+  }
+
+  private async loadTruckStock(techIds: string[], partIds: string[]): Promise<Map<string, Map<string, number>>> {
+    const { data, error } = await supabase
+      .from('vw_technician_truck_inventory')
+      .select('technician_id, part_id, qty_on_hand')
+      .in('technician_id', techIds)
+      .in('part_id', partIds);
+
+    if (error) throw error;
+    const stock = new Map<string, Map<string, number>>();
+    for (const row of data || []) {
+      if (!row.technician_id || !row.part_id) continue;
+      if (!stock.has(row.technician_id)) stock.set(row.technician_id, new Map());
+      const byPart = stock.get(row.technician_id)!;
+      byPart.set(row.part_id, (byPart.get(row.part_id) || 0) + Number(row.qty_on_hand || 0));
+    }
+    return stock;
+  }
+}
+
+export const DispatchRecommendationService = new DispatchRecommendationServiceClass();
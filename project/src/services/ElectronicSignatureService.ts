@@ -0,0 +1,236 @@
+/**
+ * ElectronicSignatureService
+ *
+ * 21 CFR Part 11 style electronic signatures and audit trail for quality records:
+ * - Signing re-authenticates the user with their password on the server
+ *   (fn_sign_quality_record) and records the meaning, reason and a hash of
+ *   the record as signed
+ * - Disposition approval, CAPA verification and inspection waivers are
+ *   rejected by the database without a fresh matching signature
+ * - Signature report for a nonconformance or production order, with the
+ *   before/after audit trail of the signed records
+ * - Verification of the hash-chained, append-only mes_audit_log
+ */
+
+import { supabase } from '../lib/supabase';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type SignatureMeaning = 'REVIEWED' | 'APPROVED' | 'VERIFIED';
+export type SignedRecordType = 'DISPOSITION' | 'CAPA' | 'INSPECTION_RUN';
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface SignatureCredentials {
+  password: string;
+  reason: string;
+}
+
+export interface ElectronicSignature {
+  id: string;
+  record_type: SignedRecordType;
+  record_id: string;
+  meaning: SignatureMeaning;
+  reason: string;
+  signed_by: string;
+  signer_name: string;
+  signer_email: string;
+  signed_at: string;
+  record_hash: string;
+  signature_hash: string;
+  nonconformance_id?: string | null;
+  nc_number?: string | null;
+  production_order_id?: string | null;
+  order_number?: string | null;
+  record_label?: string | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  entity_type: string;
+  entity_id: string;
+  action: AuditAction;
+  before_json: Record<string, unknown> | null;
+  after_json: Record<string, unknown> | null;
+  changed_fields: string[] | null;
+  performed_by: string | null;
+  performed_at: string;
+  row_hash: string | null;
+  performer?: { full_name: string } | null;
+}
+
+export interface AuditChainStatus {
+  entries_checked: number;
+  is_intact: boolean;
+  broken_entry_id: string | null;
+  broken_chain_seq: number | null;
+}
+
+export interface SignatureReport {
+  signatures: ElectronicSignature[];
+  auditTrail: AuditEntry[];
+}
+
+export const SIGNATURE_MEANINGS: Record<SignatureMeaning, string> = {
+  REVIEWED: 'Reviewed',
+  APPROVED: 'Approved',
+  VERIFIED: 'Verified',
+};
+
+// Fields that change on every write and carry no meaning in the audit trail
+const IGNORED_AUDIT_FIELDS = new Set(['updated_at']);
+
+// =====================================================
+// SERVICE CLASS
+// =====================================================
+
+class ElectronicSignatureServiceClass {
+  /**
+   * Sign a quality record. The password is verified by the database; a wrong
+   * password raises and no signature is recorded.
+   */
+  async sign(
+    recordType: SignedRecordType,
+    recordId: string,
+    meaning: SignatureMeaning,
+    credentials: SignatureCredentials
+  ): Promise<ElectronicSignature> {
+    if (!credentials.password) throw new Error('Enter your password to sign');
+    if (!credentials.reason.trim()) throw new Error('Enter the reason for signing');
+
+    const { data, error } = await supabase.rpc('fn_sign_quality_record', {
+      p_record_type: recordType,
+      p_record_id: recordId,
+      p_meaning: meaning,
+      p_password: credentials.password,
+      p_reason: credentials.reason.trim(),
+    });
+
+    if (error) throw error;
+    return data as unknown as ElectronicSignature;
+  }
+
+  async getSignaturesForRecord(recordType: SignedRecordType, recordId: string): Promise<ElectronicSignature[]> {
+    const { data, error } = await supabase
+      .from('vw_quality_signature_report')
+      .select('*')
+      .eq('record_type', recordType)
+      .eq('record_id', recordId)
+      .order('signed_at');
+
+    if (error) throw error;
+    return (data || []) as unknown as ElectronicSignature[];
+  }
+
+  /**
+   * Every signature on a nonconformance: its disposition, and the CAPAs
+   * raised for or linked to it.
+   */
+  async getSignaturesForNonconformance(nonconformanceId: string, capaIds?: string[]): Promise<ElectronicSignature[]> {
+    const linkedCAPAIds = capaIds ?? await this.getLinkedCAPAIds(nonconformanceId);
+
+    let query = supabase
+      .from('vw_quality_signature_report')
+      .select('*')
+      .order('signed_at');
+    query = linkedCAPAIds.length > 0
+      ? query.or(`nonconformance_id.eq.${nonconformanceId},record_id.in.(${linkedCAPAIds.join(',')})`)
+      : query.eq('nonconformance_id', nonconformanceId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as unknown as ElectronicSignature[];
+  }
+
+  async getNonconformanceReport(nonconformanceId: string): Promise<SignatureReport> {
+    const capaIds = await this.getLinkedCAPAIds(nonconformanceId);
+    const signatures = await this.getSignaturesForNonconformance(nonconformanceId, capaIds);
+
+    const { data: dispositions, error: dispositionError } = await supabase
+      .from('quality_dispositions')
+      .select('id')
+      .eq('nonconformance_id', nonconformanceId);
+    if (dispositionError) throw dispositionError;
+
+    const auditTrail = await this.getAuditTrail([
+      nonconformanceId,
+      ...capaIds,
+      ...(dispositions || []).map(d => d.id),
+      ...signatures.map(s => s.id),
+    ]);
+    return { signatures, auditTrail };
+  }
+
+  /**
+   * Every signature on a production order: its inspection waivers and the
+   * dispositions and CAPAs of its nonconformances.
+   */
+  async getProductionOrderReport(productionOrderId: string): Promise<SignatureReport> {
+    const { data, error } = await supabase
+      .from('vw_quality_signature_report')
+      .select('*')
+      .eq('production_order_id', productionOrderId)
+      .order('signed_at');
+
+    if (error) throw error;
+
+    const signatures = (data || []) as unknown as ElectronicSignature[];
+    const auditTrail = await this.getAuditTrail([
+      ...new Set(signatures.flatMap(s => [s.record_id, s.id, s.nonconformance_id || ''].filter(Boolean))),
+    ]);
+    return { signatures, auditTrail };
+  }
+
+  async getAuditTrail(entityIds: string[]): Promise<AuditEntry[]> {
+    if (entityIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('mes_audit_log')
+      .select('id, entity_type, entity_id, action, before_json, after_json, changed_fields, performed_by, performed_at, row_hash, performer:profiles!mes_audit_log_performed_by_fkey(full_name)')
+      .in('entity_id', entityIds)
+      .like('entity_type', 'quality\\_%')
+      .order('performed_at');
+
+    if (error) throw error;
+    return (data || []) as unknown as AuditEntry[];
+  }
+
+  async verifyAuditChain(): Promise<AuditChainStatus> {
+    const { data, error } = await supabase.rpc('fn_verify_mes_audit_chain');
+    if (error) throw error;
+
+    const row = (Array.isArray(data) ? data[0] : data) as AuditChainStatus | undefined;
+    return row || { entries_checked: 0, is_intact: true, broken_entry_id: null, broken_chain_seq: null };
+  }
+
+  /**
+   * Before/after values of an audit entry's meaningful changes.
+   */
+  getChanges(entry: AuditEntry): { field: string; before: unknown; after: unknown }[] {
+    const before = entry.before_json || {};
+    const after = entry.after_json || {};
+    const fields = entry.changed_fields
+      || Object.keys(entry.action === 'DELETE' ? before : after);
+
+    return fields
+      .filter(field => !IGNORED_AUDIT_FIELDS.has(field))
+      .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+  }
+
+  private async getLinkedCAPAIds(nonconformanceId: string): Promise<string[]> {
+    const [{ data: direct, error: directError }, { data: links, error: linkError }] = await Promise.all([
+      supabase.from('quality_capa').select('id').eq('nonconformance_id', nonconformanceId),
+      supabase.from('quality_capa_links').select('capa_id').eq('nonconformance_id', nonconformanceId),
+    ]);
+
+    if (directError) throw directError;
+    if (linkError) throw linkError;
+    return [...new Set([
+      ...(direct || []).map(c => c.id as string),
+      ...(links || []).map(l => l.capa_id as string),
+    ])];
+  }
+}
+
+export const ElectronicSignatureService = new ElectronicSignatureServiceClass();
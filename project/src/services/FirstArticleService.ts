@@ -0,0 +1,604 @@
+/**
+ * FirstArticleService
+ *
+ * AS9102-style first article inspection (FAI):
+ * - Raised by fn_require_first_article when an order starts for a product
+ *   whose flagged inspection plans have not yet been proven on its part,
+ *   revision or routing
+ * - Form 1 header, form 2 product accountability and form 3 ballooned
+ *   characteristics, all inspected at 100%
+ * - Inspector submits, quality approves (and the customer when required);
+ *   a nonconforming result fails the FAI and raises an NC
+ * - Steps of the gated orders cannot be completed until the FAI passes
+ *   (fn_guard_first_article_steps)
+ */
+
+import { supabase } from '../lib/supabase';
+import { QualityExecutionService, CharacteristicType } from './QualityExecutionService';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type FAIStatus = 'OPEN' | 'SUBMITTED' | 'PASSED' | 'FAILED';
+export type FAIReason = 'NEW_PART' | 'NEW_REVISION' | 'ROUTING_CHANGE';
+export type FAIItemType = 'MATERIAL' | 'SPECIAL_PROCESS' | 'FUNCTIONAL_TEST';
+export type FAISignatureRole = 'INSPECTOR' | 'QUALITY' | 'CUSTOMER';
+
+export interface FAIProductItem {
+  id: string;
+  first_article_id: string;
+  item_type: FAIItemType;
+  name: string;
+  specification?: string | null;
+  supplier?: string | null;
+  certificate_number?: string | null;
+  is_conforming?: boolean | null;
+}
+
+export interface FAICharacteristic {
+  id: string;
+  first_article_id: string;
+  balloon_number: number;
+  characteristic_id?: string | null;
+  characteristic: string;
+  drawing_zone?: string | null;
+  requirement?: string | null;
+  char_type: CharacteristicType;
+  target_value?: number | null;
+  lsl?: number | null;
+  usl?: number | null;
+  uom?: string | null;
+  actual_value?: number | null;
+  actual_text?: string | null;
+  is_conforming?: boolean | null;
+  gauge_id?: string | null;
+  measured_by?: string | null;
+  measured_at?: string | null;
+  notes?: string | null;
+  gauge?: { gauge_number: string; name: string } | null;
+  measurer?: { full_name: string } | null;
+}
+
+export interface FAISignature {
+  id: string;
+  first_article_id: string;
+  signature_role: FAISignatureRole;
+  signed_by: string;
+  signer_name?: string | null;
+  approved: boolean;
+  comments?: string | null;
+  signed_at: string;
+  signer?: { full_name: string } | null;
+}
+
+export interface FirstArticle {
+  id: string;
+  fai_number: string;
+  production_order_id?: string | null;
+  part_id: string;
+  product_revision_id?: string | null;
+  routing_signature?: string | null;
+  reason: FAIReason;
+  serial_number?: string | null;
+  drawing_number?: string | null;
+  drawing_revision?: string | null;
+  status: FAIStatus;
+  customer_approval_required: boolean;
+  nonconformance_id?: string | null;
+  submitted_by?: string | null;
+  submitted_at?: string | null;
+  approved_at?: string | null;
+  notes?: string | null;
+  created_at: string;
+  part?: { part_number: string; name: string } | null;
+  revision?: { revision_code: string } | null;
+  production_order?: { order_number: string; title: string; status: string } | null;
+  nonconformance?: { nc_number: string; status: string } | null;
+  product_items?: FAIProductItem[];
+  characteristics?: FAICharacteristic[];
+  signatures?: FAISignature[];
+}
+
+export interface FAIHeaderInput {
+  serial_number?: string;
+  drawing_number?: string;
+  drawing_revision?: string;
+  customer_approval_required?: boolean;
+  notes?: string;
+}
+
+export interface AddFAICharacteristicInput {
+  characteristic: string;
+  drawing_zone?: string;
+  requirement?: string;
+  char_type: CharacteristicType;
+  target_value?: number;
+  lsl?: number;
+  usl?: number;
+  uom?: string;
+}
+
+export interface RecordFAIResultInput {
+  actual_value?: number;
+  actual_text?: string;
+  passed?: boolean; // Attribute characteristics
+  gauge_id?: string;
+  notes?: string;
+}
+
+export const FAI_REASON_LABELS: Record<FAIReason, string> = {
+  NEW_PART: 'New part',
+  NEW_REVISION: 'New revision',
+  ROUTING_CHANGE: 'Routing change',
+};
+
+export const FAI_ITEM_TYPE_LABELS: Record<FAIItemType, string> = {
+  MATERIAL: 'Material',
+  SPECIAL_PROCESS: 'Special Process',
+  FUNCTIONAL_TEST: 'Functional Test',
+};
+
+const FAI_DETAIL_SELECT = `
+  *,
+  part:parts(part_number, name),
+  revision:product_revisions(revision_code),
+  production_order:production_orders(order_number, title, status),
+  nonconformance:quality_nonconformances(nc_number, status),
+  product_items:quality_fai_product_items(*),
+  characteristics:quality_fai_characteristics(
+    *,
+    gauge:quality_gauges(gauge_number, name),
+    measurer:profiles!quality_fai_characteristics_measured_by_fkey(full_name)
+  ),
+  signatures:quality_fai_signatures(
+    *,
+    signer:profiles!quality_fai_signatures_signed_by_fkey(full_name)
+  )
+`;
+
+// =====================================================
+// SERVICE CLASS
+// =====================================================
+
+class FirstArticleServiceClass {
+  // =====================================================
+  // FIRST ARTICLES
+  // =====================================================
+
+  async getFirstArticles(filters?: {
+    status?: FAIStatus;
+    part_id?: string;
+  }): Promise<FirstArticle[]> {
+    let query = supabase
+      .from('quality_first_articles')
+      .select(`
+        *,
+        part:parts(part_number, name),
+        revision:product_revisions(revision_code),
+        production_order:production_orders(order_number, title, status),
+        characteristics:quality_fai_characteristics(id, is_conforming)
+      `)
+      .order('created_at', { ascending: false });
+
+    if (filters?.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters?.part_id) {
+      query = query.eq('part_id', filters.part_id);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as unknown as FirstArticle[];
+  }
+
+  async getFirstArticle(id: string): Promise<FirstArticle | null> {
+    const { data, error } = await supabase
+      .from('quality_first_articles')
+      .select(FAI_DETAIL_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const fai = data as unknown as FirstArticle;
+    fai.characteristics = (fai.characteristics || []).sort((a, b) => a.balloon_number - b.balloon_number);
+    return fai;
+  }
+
+  /**
+   * Get the FAI gating a production order, raising one if the order's
+   * product, revision or routing has not been proven. Returns null when no
+   * first article is required.
+   */
+  async evaluateOrder(productionOrderId: string): Promise<FirstArticle | null> {
+    const { data, error } = await supabase.rpc('fn_require_first_article', {
+      p_production_order_id: productionOrderId,
+    });
+
+    if (error) throw error;
+    if (!data) return null;
+    return this.getFirstArticle(data as string);
+  }
+
+  async updateHeader(id: string, input: FAIHeaderInput): Promise<FirstArticle> {
+    const { data, error } = await supabase
+      .from('quality_first_articles')
+      .update({
+        serial_number: input.serial_number?.trim() || null,
+        drawing_number: input.drawing_number?.trim() || null,
+        drawing_revision: input.drawing_revision?.trim() || null,
+        customer_approval_required: input.customer_approval_required,
+        notes: input.notes?.trim() || null,
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as unknown as FirstArticle;
+  }
+
+  /**
+   * Sign the FAI as inspected. A nonconforming characteristic or product
+   * item fails the FAI and raises a nonconformance against the order.
+   */
+  async submit(id: string): Promise<FirstArticle> {
+    const fai = await this.getFirstArticle(id);
+    if (!fai) throw new Error('First article not found');
+    if (fai.status !== 'OPEN') throw new Error('Only open first articles can be submitted');
+
+    const blocker = this.getSubmitBlocker(fai);
+    if (blocker) throw new Error(blocker);
+
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) throw new Error('Not authenticated');
+
+    const { error: signError } = await supabase
+      .from('quality_fai_signatures')
+      .insert({
+        first_article_id: id,
+        signature_role: 'INSPECTOR',
+        signed_by: userData.user.id,
+        approved: true,
+      });
+    if (signError) throw signError;
+
+    const failedChars = (fai.characteristics || []).filter(c => c.is_conforming === false);
+    const failedItems = (fai.product_items || []).filter(i => i.is_conforming === false);
+
+    const updates: Record<string, unknown> = {
+      status: 'SUBMITTED',
+      submitted_by: userData.user.id,
+      submitted_at: new Date().toISOString(),
+    };
+
+    if (failedChars.length > 0 || failedItems.length > 0) {
+      const nc = await QualityExecutionService.createNonconformance({
+        source: 'INSPECTION',
+        production_order_id: fai.production_order_id || undefined,
+        part_id: fai.part_id,
+        severity: 'MAJOR',
+        title: `First article ${fai.fai_number} failed`,
+        description: [
+          ...failedChars.map(c => `Balloon ${c.balloon_number} ${c.characteristic}: ${this.formatActual(c)} (req. ${this.formatRequirement(c)})`),
+          ...failedItems.map(i => `${FAI_ITEM_TYPE_LABELS[i.item_type]} ${i.name}: nonconforming`),
+        ].join('\n'),
+        qty_affected: 1,
+      });
+      updates.status = 'FAILED';
+      updates.nonconformance_id = nc.id;
+    }
+
+    return this.setStatus(id, updates);
+  }
+
+  /**
+   * Quality approval. The FAI passes once every required signature is in.
+   */
+  async approve(id: string, comments?: string): Promise<FirstArticle> {
+    const fai = await this.requireSubmitted(id);
+    await this.sign(fai.id, 'QUALITY', true, comments);
+    return this.passIfSigned(fai.id);
+  }
+
+  /**
+   * Record the customer's approval, signed on their behalf by quality.
+   */
+  async recordCustomerApproval(id: string, signerName: string, comments?: string): Promise<FirstArticle> {
+    if (!signerName.trim()) throw new Error('Enter the customer representative');
+    const fai = await this.requireSubmitted(id);
+    if (!fai.customer_approval_required) throw new Error('This first article does not require customer approval');
+    await this.sign(fai.id, 'CUSTOMER', true, comments, signerName.trim());
+    return this.passIfSigned(fai.id);
+  }
+
+  async reject(id: string, role: Exclude<FAISignatureRole, 'INSPECTOR'>, reason: string): Promise<FirstArticle> {
+    if (!reason.trim()) throw new Error('A rejection reason is required');
+    const fai = await this.requireSubmitted(id);
+    await this.sign(fai.id, role, false, reason.trim());
+    return this.setStatus(fai.id, { status: 'FAILED' });
+  }
+
+  /**
+   * Reopen a failed FAI for re-inspection. Nonconforming results are cleared
+   * so they are measured again, and the FAI must be signed afresh.
+   */
+  async reopen(id: string): Promise<FirstArticle> {
+    const fai = await this.getFirstArticle(id);
+    if (!fai) throw new Error('First article not found');
+    if (fai.status !== 'FAILED') throw new Error('Only failed first articles can be reopened');
+
+    const failedIds = (fai.characteristics || []).filter(c => c.is_conforming === false).map(c => c.id);
+    if (failedIds.length > 0) {
+      const { error } = await supabase
+        .from('quality_fai_characteristics')
+        .update({
+          actual_value: null,
+          actual_text: null,
+          is_conforming: null,
+          measured_by: null,
+          measured_at: null,
+        })
+        .in('id', failedIds);
+      if (error) throw error;
+    }
+
+    const { error: sigError } = await supabase
+      .from('quality_fai_signatures')
+      .delete()
+      .eq('first_article_id', id);
+    if (sigError) throw sigError;
+
+    return this.setStatus(id, {
+      status: 'OPEN',
+      submitted_by: null,
+      submitted_at: null,
+    });
+  }
+
+  /**
+   * Reason the FAI cannot be submitted yet, or null when it can
+   */
+  getSubmitBlocker(fai: FirstArticle): string | null {
+    const chars = fai.characteristics || [];
+    if (!fai.serial_number) return 'Record the serial number of the first article';
+    if (chars.length === 0) return 'Add the ballooned characteristics';
+    const open = chars.filter(c => c.is_conforming === null || c.is_conforming === undefined);
+    if (open.length > 0) {
+      return `${open.length} characteristic${open.length === 1 ? '' : 's'} not yet inspected (balloon ${open.map(c => c.balloon_number).join(', ')})`;
+    }
+    if ((fai.product_items || []).some(i => i.is_conforming === null || i.is_conforming === undefined)) {
+      return 'Review every product accountability item';
+    }
+    return null;
+  }
+
+  getProgress(fai: FirstArticle): { inspected: number; total: number; nonconforming: number } {
+    const chars = fai.characteristics || [];
+    return {
+      inspected: chars.filter(c => c.is_conforming !== null && c.is_conforming !== undefined).length,
+      total: chars.length,
+      nonconforming: chars.filter(c => c.is_conforming === false).length,
+    };
+  }
+
+  // =====================================================
+  // CHARACTERISTICS (FORM 3)
+  // =====================================================
+
+  async addCharacteristic(firstArticleId: string, input: AddFAICharacteristicInput): Promise<FAICharacteristic> {
+    if (!input.characteristic.trim()) throw new Error('Characteristic is required');
+
+    const { data: last } = await supabase
+      .from('quality_fai_characteristics')
+      .select('balloon_number')
+      .eq('first_article_id', firstArticleId)
+      .order('balloon_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from('quality_fai_characteristics')
+      .insert({
+        first_article_id: firstArticleId,
+        balloon_number: (last?.balloon_number || 0) + 1,
+        characteristic: input.characteristic.trim(),
+        drawing_zone: input.drawing_zone?.trim() || null,
+        requirement: input.requirement?.trim() || null,
+        char_type: input.char_type,
+        target_value: input.target_value ?? null,
+        lsl: input.lsl ?? null,
+        usl: input.usl ?? null,
+        uom: input.uom?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as unknown as FAICharacteristic;
+  }
+
+  async removeCharacteristic(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('quality_fai_characteristics')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Record the actual result of a ballooned characteristic. Variable
+   * characteristics are judged against their limits.
+   */
+  async recordResult(characteristic: FAICharacteristic, input: RecordFAIResultInput): Promise<FAICharacteristic> {
+    let isConforming: boolean;
+    if (characteristic.char_type === 'VARIABLE') {
+      if (input.actual_value === undefined || Number.isNaN(input.actual_value)) {
+        throw new Error('Enter the measured value');
+      }
+      isConforming = this.isWithinLimits(characteristic, input.actual_value);
+    } else {
+      if (input.passed === undefined) throw new Error('Select pass or fail');
+      isConforming = input.passed;
+    }
+
+    const { data: userData } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('quality_fai_characteristics')
+      .update({
+        actual_value: characteristic.char_type === 'VARIABLE' ? input.actual_value : null,
+        actual_text: input.actual_text?.trim() || null,
+        is_conforming: isConforming,
+        gauge_id: input.gauge_id || null,
+        notes: input.notes?.trim() || null,
+        measured_by: userData.user?.id,
+        measured_at: new Date().toISOString(),
+      })
+      .eq('id', characteristic.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as unknown as FAICharacteristic;
+  }
+
+  isWithinLimits(characteristic: FAICharacteristic, value: number): boolean {
+    if (characteristic.lsl !== null && characteristic.lsl !== undefined && value < characteristic.lsl) return false;
+    if (characteristic.usl !== null && characteristic.usl !== undefined && value > characteristic.usl) return false;
+    return true;
+  }
+
+  formatRequirement(characteristic: FAICharacteristic): string {
+    if (characteristic.char_type !== 'VARIABLE') return characteristic.requirement || 'Pass';
+    const uom = characteristic.uom ? ` ${characteristic.uom}` : '';
+    const hasLsl = characteristic.lsl !== null && characteristic.lsl !== undefined;
+    const hasUsl = characteristic.usl !== null && characteristic.usl !== undefined;
+    if (hasLsl && hasUsl) return `${characteristic.lsl} - ${characteristic.usl}${uom}`;
+    if (hasLsl) return `>= ${characteristic.lsl}${uom}`;
+    if (hasUsl) return `<= ${characteristic.usl}${uom}`;
+    return characteristic.requirement || (characteristic.target_value != null ? `${characteristic.target_value}${uom}` : '-');
+  }
+
+  formatActual(characteristic: FAICharacteristic): string {
+    if (characteristic.is_conforming === null || characteristic.is_conforming === undefined) return '-';
+    if (characteristic.char_type === 'VARIABLE') {
+      return `${characteristic.actual_value ?? '-'}${characteristic.uom ? ` ${characteristic.uom}` : ''}`;
+    }
+    return characteristic.actual_text || (characteristic.is_conforming ? 'Pass' : 'Fail');
+  }
+
+  // =====================================================
+  // PRODUCT ITEMS (FORM 2)
+  // =====================================================
+
+  async addProductItem(
+    firstArticleId: string,
+    input: Pick<FAIProductItem, 'item_type' | 'name' | 'specification' | 'supplier' | 'certificate_number'>
+  ): Promise<FAIProductItem> {
+    if (!input.name.trim()) throw new Error('Name is required');
+
+    const { data, error } = await supabase
+      .from('quality_fai_product_items')
+      .insert({
+        first_article_id: firstArticleId,
+        item_type: input.item_type,
+        name: input.name.trim(),
+        specification: input.specification?.trim() || null,
+        supplier: input.supplier?.trim() || null,
+        certificate_number: input.certificate_number?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as unknown as FAIProductItem;
+  }
+
+  async updateProductItem(id: string, updates: Partial<Omit<FAIProductItem, 'id' | 'first_article_id'>>): Promise<FAIProductItem> {
+    const { data, error } = await supabase
+      .from('quality_fai_product_items')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as unknown as FAIProductItem;
+  }
+
+  async removeProductItem(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('quality_fai_product_items')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // =====================================================
+  // HELPERS
+  // =====================================================
+
+  private async requireSubmitted(id: string): Promise<FirstArticle> {
+    const fai = await this.getFirstArticle(id);
+    if (!fai) throw new Error('First article not found');
+    if (fai.status !== 'SUBMITTED') throw new Error('The first article must be submitted by the inspector first');
+    return fai;
+  }
+
+  private async sign(
+    firstArticleId: string,
+    role: FAISignatureRole,
+    approved: boolean,
+    comments?: string,
+    signerName?: string
+  ): Promise<void> {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) throw new Error('Not authenticated');
+
+    const { error } = await supabase
+      .from('quality_fai_signatures')
+      .upsert({
+        first_article_id: firstArticleId,
+        signature_role: role,
+        signed_by: userData.user.id,
+        signer_name: signerName || null,
+        approved,
+        comments: comments?.trim() || null,
+        signed_at: new Date().toISOString(),
+      }, { onConflict: 'first_article_id,signature_role' });
+
+    if (error) throw error;
+  }
+
+  private async passIfSigned(id: string): Promise<FirstArticle> {
+    const fai = await this.getFirstArticle(id);
+    if (!fai) throw new Error('First article not found');
+
+    const signed = (role: FAISignatureRole) =>
+      (fai.signatures || []).some(s => s.signature_role === role && s.approved);
+    if (signed('QUALITY') && (!fai.customer_approval_required || signed('CUSTOMER'))) {
+      return this.setStatus(id, { status: 'PASSED' });
+    }
+    return fai;
+  }
+
+  private async setStatus(id: string, updates: Record<string, unknown>): Promise<FirstArticle> {
+    const { error } = await supabase
+      .from('quality_first_articles')
+      .update(updates)
+      .eq('id', id);
+
+    if (error) throw error;
+    const fai = await this.getFirstArticle(id);
+    if (!fai) throw new Error('First article not found');
+    return fai;
+  }
+}
+
+export const FirstArticleService = new FirstArticleServiceClass();
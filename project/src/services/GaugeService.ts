@@ -0,0 +1,859 @@
+/**
+ * GaugeService
+ *
+ * Gauge and measurement-equipment management:
+ * - Gauge register (type, resolution, range, location)
+ * - Calibration history and due dates; a failed calibration takes the gauge
+ *   out of service
+ * - Usability checks for measurements (also enforced by a database trigger)
+ * - Calibration due alerts
+ * - Crossed Gage R&R studies analysed with the two-way ANOVA method
+ */
+
+import { supabase } from '../lib/supabase';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type GaugeType =
+  | 'CALIPER'
+  | 'MICROMETER'
+  | 'HEIGHT_GAUGE'
+  | 'DIAL_INDICATOR'
+  | 'BORE_GAUGE'
+  | 'PIN_GAUGE'
+  | 'THREAD_GAUGE'
+  | 'CMM'
+  | 'SCALE'
+  | 'TORQUE_WRENCH'
+  | 'OTHER';
+export type GaugeStatus = 'IN_SERVICE' | 'OUT_OF_CALIBRATION' | 'OUT_FOR_CALIBRATION' | 'QUARANTINED' | 'RETIRED';
+export type CalibrationResult = 'PASS' | 'ADJUSTED' | 'FAIL';
+export type CalibrationState = 'CURRENT' | 'DUE_SOON' | 'OVERDUE' | 'NEVER_CALIBRATED';
+export type GRRStudyStatus = 'DRAFT' | 'COMPLETED';
+export type GRRAcceptability = 'ACCEPTABLE' | 'MARGINAL' | 'UNACCEPTABLE';
+
+export interface Gauge {
+  id: string;
+  gauge_number: string;
+  name: string;
+  gauge_type: GaugeType;
+  manufacturer?: string | null;
+  model?: string | null;
+  serial_number?: string | null;
+  resolution?: number | null;
+  uom?: string | null;
+  range_min?: number | null;
+  range_max?: number | null;
+  location?: string | null;
+  work_center_id?: string | null;
+  calibration_interval_days: number;
+  last_calibrated_at?: string | null;
+  calibration_due_date?: string | null;
+  status: GaugeStatus;
+  notes?: string | null;
+  created_at?: string;
+  work_center?: { name: string } | null;
+}
+
+export interface GaugeCalibration {
+  id: string;
+  gauge_id: string;
+  calibrated_at: string;
+  result: CalibrationResult;
+  performed_by?: string | null;
+  provider?: string | null;
+  certificate_number?: string | null;
+  as_found_notes?: string | null;
+  as_left_notes?: string | null;
+  next_due_date?: string | null;
+  created_at?: string;
+  performer?: { full_name: string } | null;
+}
+
+export interface RecordCalibrationInput {
+  calibrated_at: string;
+  result: CalibrationResult;
+  provider?: string;
+  certificate_number?: string;
+  as_found_notes?: string;
+  as_left_notes?: string;
+}
+
+export interface CalibrationAlert {
+  gauge: Gauge;
+  state: CalibrationState;
+  due_in_days: number | null; // Negative when overdue
+}
+
+export interface GRRStudy {
+  id: string;
+  name: string;
+  characteristic_id: string;
+  gauge_id: string;
+  part_count: number;
+  appraisers: string[];
+  trial_count: number;
+  tolerance?: number | null;
+  status: GRRStudyStatus;
+  repeatability?: number | null;
+  reproducibility?: number | null;
+  interaction?: number | null;
+  grr?: number | null;
+  part_variation?: number | null;
+  total_variation?: number | null;
+  interaction_p_value?: number | null;
+  interaction_pooled?: boolean | null;
+  pct_grr?: number | null;
+  pct_grr_tolerance?: number | null;
+  ndc?: number | null;
+  notes?: string | null;
+  performed_by?: string | null;
+  completed_at?: string | null;
+  created_at?: string;
+  characteristic?: { name: string; uom?: string | null; lsl?: number | null; usl?: number | null } | null;
+  gauge?: { gauge_number: string; name: string } | null;
+  readings?: GRRReading[];
+}
+
+export interface GRRReading {
+  id?: string;
+  study_id?: string;
+  part_index: number;
+  appraiser: string;
+  trial: number;
+  value: number;
+}
+
+export interface CreateGRRStudyInput {
+  name: string;
+  characteristic_id: string;
+  gauge_id: string;
+  part_count: number;
+  appraisers: string[];
+  trial_count: number;
+  notes?: string;
+}
+
+export interface GRRAnovaRow {
+  source: 'Part' | 'Appraiser' | 'Part x Appraiser' | 'Repeatability' | 'Total';
+  df: number;
+  ss: number;
+  ms?: number;
+  f?: number;
+  p_value?: number;
+}
+
+export interface GRRVarianceComponent {
+  source: 'Total Gage R&R' | 'Repeatability' | 'Reproducibility' | 'Appraiser' | 'Part x Appraiser' | 'Part-to-Part' | 'Total Variation';
+  variance: number;
+  std_dev: number;
+  study_variation: number; // 6 x std dev
+  pct_contribution: number;
+  pct_study_variation: number;
+  pct_tolerance?: number;
+}
+
+export interface GRRResult {
+  anova: GRRAnovaRow[];
+  interaction_pooled: boolean;
+  interaction_p_value: number;
+  components: GRRVarianceComponent[];
+  repeatability: number;
+  reproducibility: number;
+  interaction: number;
+  grr: number;
+  part_variation: number;
+  total_variation: number;
+  pct_grr: number;
+  pct_grr_tolerance?: number;
+  ndc: number | null; // NULL when the gauge shows no measurement variation
+  acceptability: GRRAcceptability;
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+// Calibration alerts start this many days before the due date
+export const CALIBRATION_DUE_WARNING_DAYS = 14;
+
+// Interaction term is pooled into repeatability when not significant at this level
+const INTERACTION_ALPHA = 0.05;
+
+// Study variation spans 6 standard deviations
+const STUDY_VARIATION_SPREAD = 6;
+
+export const GAUGE_TYPE_LABELS: Record<GaugeType, string> = {
+  CALIPER: 'Caliper',
+  MICROMETER: 'Micrometer',
+  HEIGHT_GAUGE: 'Height Gauge',
+  DIAL_INDICATOR: 'Dial Indicator',
+  BORE_GAUGE: 'Bore Gauge',
+  PIN_GAUGE: 'Pin Gauge',
+  THREAD_GAUGE: 'Thread Gauge',
+  CMM: 'CMM',
+  SCALE: 'Scale',
+  TORQUE_WRENCH: 'Torque Wrench',
+  OTHER: 'Other',
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// =====================================================
+// SERVICE CLASS
+// =====================================================
+
+class GaugeServiceClass {
+  // =====================================================
+  // GAUGE REGISTER
+  // =====================================================
+
+  async getGauges(filters?: {
+    status?: GaugeStatus;
+    work_center_id?: string;
+    includeRetired?: boolean;
+  }): Promise<Gauge[]> {
+    let query = supabase
+      .from('quality_gauges')
+      .select(`
+        *,
+        work_center:work_centers(name)
+      `)
+      .order('gauge_number');
+
+    if (filters?.status) {
+      query = query.eq('status', filters.status);
+    } else if (!filters?.includeRetired) {
+      query = query.neq('status', 'RETIRED');
+    }
+    if (filters?.work_center_id) {
+      query = query.eq('work_center_id', filters.work_center_id);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getGauge(id: string): Promise<Gauge | null> {
+    const { data, error } = await supabase
+      .from('quality_gauges')
+      .select(`
+        *,
+        work_center:work_centers(name)
+      `)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createGauge(input: Partial<Gauge>): Promise<Gauge> {
+    const { data, error } = await supabase
+      .from('quality_gauges')
+      .insert(this.gaugeRow(input))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateGauge(id: string, updates: Partial<Gauge>): Promise<Gauge> {
+    const row = this.gaugeRow(updates);
+
+    // A new interval moves the current due date with it
+    if (updates.calibration_interval_days !== undefined) {
+      const gauge = await this.getGauge(id);
+      if (gauge?.last_calibrated_at && gauge.status !== 'OUT_OF_CALIBRATION') {
+        row.calibration_due_date = this.addDays(gauge.last_calibrated_at, updates.calibration_interval_days);
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('quality_gauges')
+      .update(row)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Manual status change: quarantine a damaged gauge, send it out to a
+   * calibration lab or retire it. Returning to service needs a calibration
+   * record, except from quarantine while the calibration is still current.
+   */
+  async setGaugeStatus(id: string, status: GaugeStatus, reason?: string): Promise<Gauge> {
+    const gauge = await this.getGauge(id);
+    if (!gauge) throw new Error('Gauge not found');
+
+    if (status === 'IN_SERVICE' && gauge.status !== 'QUARANTINED') {
+      throw new Error('Record a calibration to return this gauge to service');
+    }
+    if (status === 'IN_SERVICE' && this.getCalibrationState(gauge) === 'OVERDUE') {
+      throw new Error('Gauge calibration has lapsed; record a calibration to return it to service');
+    }
+
+    const notes = reason
+      ? [gauge.notes, `${new Date().toLocaleDateString()}: ${status.replace(/_/g, ' ').toLowerCase()} - ${reason}`]
+        .filter(Boolean)
+        .join('\n')
+      : gauge.notes;
+
+    const { data, error } = await supabase
+      .from('quality_gauges')
+      .update({ status, notes })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  private gaugeRow(input: Partial<Gauge>): Record<string, unknown> {
+    const row: Record<string, unknown> = {};
+    const fields: (keyof Gauge)[] = [
+      'gauge_number', 'name', 'gauge_type', 'manufacturer', 'model', 'serial_number',
+      'resolution', 'uom', 'range_min', 'range_max', 'location', 'work_center_id',
+      'calibration_interval_days', 'notes',
+    ];
+    for (const field of fields) {
+      if (input[field] !== undefined) {
+        row[field] = input[field] === '' ? null : input[field];
+      }
+    }
+    return row;
+  }
+
+  // =====================================================
+  // CALIBRATION
+  // =====================================================
+
+  async getCalibrations(gaugeId: string): Promise<GaugeCalibration[]> {
+    const { data, error } = await supabase
+      .from('quality_gauge_calibrations')
+      .select(`
+        *,
+        performer:profiles!quality_gauge_calibrations_performed_by_fkey(full_name)
+      `)
+      .eq('gauge_id', gaugeId)
+      .order('calibrated_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Log a calibration and roll the gauge's due date forward by its interval.
+   * A failed calibration puts the gauge out of calibration until it passes.
+   */
+  async recordCalibration(gaugeId: string, input: RecordCalibrationInput): Promise<GaugeCalibration> {
+    const gauge = await this.getGauge(gaugeId);
+    if (!gauge) throw new Error('Gauge not found');
+    if (gauge.status === 'RETIRED') throw new Error('Retired gauges cannot be calibrated');
+
+    const today = this.today();
+    if (input.calibrated_at > today) {
+      throw new Error('Calibration date cannot be in the future');
+    }
+
+    const passed = input.result !== 'FAIL';
+    const nextDue = passed ? this.addDays(input.calibrated_at, gauge.calibration_interval_days) : null;
+    const { data: user } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('quality_gauge_calibrations')
+      .insert({
+        gauge_id: gaugeId,
+        calibrated_at: input.calibrated_at,
+        result: input.result,
+        performed_by: user.user?.id,
+        provider: input.provider || null,
+        certificate_number: input.certificate_number || null,
+        as_found_notes: input.as_found_notes || null,
+        as_left_notes: input.as_left_notes || null,
+        next_due_date: nextDue,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    // Only the latest calibration sets the gauge's state
+    if (!gauge.last_calibrated_at || input.calibrated_at >= gauge.last_calibrated_at) {
+      const { error: gaugeError } = await supabase
+        .from('quality_gauges')
+        .update({
+          last_calibrated_at: input.calibrated_at,
+          calibration_due_date: nextDue,
+          status: passed ? 'IN_SERVICE' : 'OUT_OF_CALIBRATION',
+        })
+        .eq('id', gaugeId);
+
+      if (gaugeError) throw gaugeError;
+    }
+
+    return data;
+  }
+
+  getCalibrationState(gauge: Gauge, warningDays = CALIBRATION_DUE_WARNING_DAYS): CalibrationState {
+    if (!gauge.calibration_due_date) return 'NEVER_CALIBRATED';
+    const dueIn = this.daysUntil(gauge.calibration_due_date);
+    if (dueIn < 0) return 'OVERDUE';
+    if (dueIn <= warningDays) return 'DUE_SOON';
+    return 'CURRENT';
+  }
+
+  /**
+   * Why a gauge cannot be used for a measurement, or null when it can.
+   * Mirrors fn_gauge_is_usable.
+   */
+  getUsageBlockReason(gauge: Gauge): string | null {
+    if (gauge.status !== 'IN_SERVICE') {
+      return `Gauge ${gauge.gauge_number} is ${gauge.status.replace(/_/g, ' ').toLowerCase()}`;
+    }
+    const state = this.getCalibrationState(gauge);
+    if (state === 'NEVER_CALIBRATED') {
+      return `Gauge ${gauge.gauge_number} has never been calibrated`;
+    }
+    if (state === 'OVERDUE') {
+      return `Gauge ${gauge.gauge_number} calibration was due ${gauge.calibration_due_date}`;
+    }
+    return null;
+  }
+
+  isGaugeUsable(gauge: Gauge): boolean {
+    return this.getUsageBlockReason(gauge) === null;
+  }
+
+  async assertGaugeUsable(gaugeId: string): Promise<void> {
+    const gauge = await this.getGauge(gaugeId);
+    if (!gauge) throw new Error('Gauge not found');
+
+    const reason = this.getUsageBlockReason(gauge);
+    if (reason) throw new Error(`${reason} and cannot be used for measurements`);
+  }
+
+  /**
+   * Gauges overdue, never calibrated or due within the warning window,
+   * most urgent first. Gauges already out of calibration or out at a lab are
+   * included so they stay visible until they come back.
+   */
+  async getCalibrationAlerts(warningDays = CALIBRATION_DUE_WARNING_DAYS): Promise<CalibrationAlert[]> {
+    const gauges = await this.getGauges();
+
+    return gauges
+      .map(gauge => ({
+        gauge,
+        state: this.getCalibrationState(gauge, warningDays),
+        due_in_days: gauge.calibration_due_date ? this.daysUntil(gauge.calibration_due_date) : null,
+      }))
+      .filter(alert => alert.state !== 'CURRENT' || alert.gauge.status === 'OUT_OF_CALIBRATION')
+      .sort((a, b) => (a.due_in_days ?? -Infinity) - (b.due_in_days ?? -Infinity));
+  }
+
+  private today(): string {
+    return new Date().toISOString().split('T')[0];
+  }
+
+  private addDays(date: string, days: number): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+  }
+
+  private daysUntil(date: string): number {
+    const due = new Date(`${date}T00:00:00Z`).getTime();
+    const today = new Date(`${this.today()}T00:00:00Z`).getTime();
+    return Math.round((due - today) / MS_PER_DAY);
+  }
+
+  // =====================================================
+  // GAGE R&R STUDIES
+  // =====================================================
+
+  async getGRRStudies(filters?: { characteristic_id?: string; gauge_id?: string }): Promise<GRRStudy[]> {
+    let query = supabase
+      .from('quality_grr_studies')
+      .select(`
+        *,
+        characteristic:quality_characteristics(name, uom, lsl, usl),
+        gauge:quality_gauges(gauge_number, name)
+      `)
+      .order('created_at', { ascending: false });
+
+    if (filters?.characteristic_id) {
+      query = query.eq('characteristic_id', filters.characteristic_id);
+    }
+    if (filters?.gauge_id) {
+      query = query.eq('gauge_id', filters.gauge_id);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getGRRStudy(id: string): Promise<GRRStudy | null> {
+    const { data, error } = await supabase
+      .from('quality_grr_studies')
+      .select(`
+        *,
+        characteristic:quality_characteristics(name, uom, lsl, usl),
+        gauge:quality_gauges(gauge_number, name),
+        readings:quality_grr_readings(*)
+      `)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Create a study. The characteristic's tolerance (USL - LSL) is captured
+   * so %tolerance stays reproducible if the spec later changes.
+   */
+  async createGRRStudy(input: CreateGRRStudyInput): Promise<GRRStudy> {
+    const appraisers = input.appraisers.map(a => a.trim()).filter(Boolean);
+    if (new Set(appraisers).size !== appraisers.length) {
+      throw new Error('Appraiser names must be unique');
+    }
+    if (appraisers.length < 2 || input.part_count < 2 || input.trial_count < 2) {
+      throw new Error('A crossed study needs at least 2 parts, 2 appraisers and 2 trials');
+    }
+    await this.assertGaugeUsable(input.gauge_id);
+
+    const { data: characteristic, error: charError } = await supabase
+      .from('quality_characteristics')
+      .select('char_type, lsl, usl')
+      .eq('id', input.characteristic_id)
+      .single();
+
+    if (charError) throw charError;
+    if (characteristic.char_type !== 'VARIABLE') {
+      throw new Error('Gage R&R studies apply to variable characteristics only');
+    }
+
+    const tolerance = characteristic.lsl !== null && characteristic.usl !== null
+      ? Number(characteristic.usl) - Number(characteristic.lsl)
+      : null;
+    const { data: user } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('quality_grr_studies')
+      .insert({
+        name: input.name,
+        characteristic_id: input.characteristic_id,
+        gauge_id: input.gauge_id,
+        part_count: input.part_count,
+        appraisers,
+        trial_count: input.trial_count,
+        tolerance,
+        notes: input.notes || null,
+        performed_by: user.user?.id,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async saveGRRReadings(studyId: string, readings: GRRReading[]): Promise<void> {
+    if (readings.length === 0) return;
+
+    const { error } = await supabase
+      .from('quality_grr_readings')
+      .upsert(
+        readings.map(r => ({
+          study_id: studyId,
+          part_index: r.part_index,
+          appraiser: r.appraiser,
+          trial: r.trial,
+          value: r.value,
+        })),
+        { onConflict: 'study_id,part_index,appraiser,trial' }
+      );
+
+    if (error) throw error;
+  }
+
+  async deleteGRRStudy(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('quality_grr_studies')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Analyse a study with every reading entered and store the results.
+   */
+  async completeGRRStudy(id: string): Promise<GRRStudy> {
+    const study = await this.getGRRStudy(id);
+    if (!study) throw new Error('Gage R&R study not found');
+
+    const result = this.analyzeGRR(study, study.readings || []);
+
+    const { data, error } = await supabase
+      .from('quality_grr_studies')
+      .update({
+        status: 'COMPLETED',
+        repeatability: result.repeatability,
+        reproducibility: result.reproducibility,
+        interaction: result.interaction,
+        grr: result.grr,
+        part_variation: result.part_variation,
+        total_variation: result.total_variation,
+        interaction_p_value: result.interaction_p_value,
+        interaction_pooled: result.interaction_pooled,
+        pct_grr: Math.round(result.pct_grr * 1000) / 1000,
+        pct_grr_tolerance: result.pct_grr_tolerance !== undefined
+          ? Math.round(result.pct_grr_tolerance * 1000) / 1000
+          : null,
+        ndc: result.ndc,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Two-way crossed ANOVA (part x appraiser with replication). The
+   * interaction is pooled into repeatability when it is not significant.
+   * %GRR is against total study variation; ndc = 1.41 x PV / GRR, truncated.
+   */
+  analyzeGRR(
+    study: Pick<GRRStudy, 'part_count' | 'appraisers' | 'trial_count' | 'tolerance'>,
+    readings: GRRReading[]
+  ): GRRResult {
+    const p = study.part_count;
+    const o = study.appraisers.length;
+    const r = study.trial_count;
+
+    // cells[part][appraiser] = trial values
+    const cells: number[][][] = Array.from({ length: p }, () => Array.from({ length: o }, () => []));
+    for (const reading of readings) {
+      const a = study.appraisers.indexOf(reading.appraiser);
+      if (a < 0 || reading.part_index < 1 || reading.part_index > p || reading.trial < 1 || reading.trial > r) continue;
+      cells[reading.part_index - 1][a].push(Number(reading.value));
+    }
+    const missing = cells.flat().filter(cell => cell.length !== r).length;
+    if (missing > 0) {
+      throw new Error(`Every part must be measured ${r} times by every appraiser (${missing} incomplete cells)`);
+    }
+
+    const all = cells.flat(2);
+    const grandMean = this.mean(all);
+    const partMeans = cells.map(part => this.mean(part.flat()));
+    const appraiserMeans = study.appraisers.map((_, a) => this.mean(cells.map(part => part[a]).flat()));
+
+    const ssTotal = all.reduce((sum, x) => sum + (x - grandMean) ** 2, 0);
+    const ssPart = o * r * partMeans.reduce((sum, m) => sum + (m - grandMean) ** 2, 0);
+    const ssAppraiser = p * r * appraiserMeans.reduce((sum, m) => sum + (m - grandMean) ** 2, 0);
+    const ssError = cells.flat().reduce((sum, cell) => {
+      const cellMean = this.mean(cell);
+      return sum + cell.reduce((s, x) => s + (x - cellMean) ** 2, 0);
+    }, 0);
+    const ssInteraction = Math.max(0, ssTotal - ssPart - ssAppraiser - ssError);
+
+    const dfPart = p - 1;
+    const dfAppraiser = o - 1;
+    const dfInteraction = (p - 1) * (o - 1);
+    const dfError = p * o * (r - 1);
+
+    const msPart = ssPart / dfPart;
+    const msAppraiser = ssAppraiser / dfAppraiser;
+    const msInteraction = ssInteraction / dfInteraction;
+    const msError = ssError / dfError;
+
+    const fInteraction = msError > 0 ? msInteraction / msError : (msInteraction > 0 ? Infinity : 0);
+    const pInteraction = this.fPValue(fInteraction, dfInteraction, dfError);
+    const pooled = pInteraction > INTERACTION_ALPHA;
+
+    const anova: GRRAnovaRow[] = [];
+    let varRepeat: number;
+    let varAppraiser: number;
+    let varInteraction: number;
+    let varPart: number;
+
+    if (pooled) {
+      const dfPooled = dfInteraction + dfError;
+      const msPooled = (ssInteraction + ssError) / dfPooled;
+      varRepeat = msPooled;
+      varAppraiser = Math.max(0, (msAppraiser - msPooled) / (p * r));
+      varInteraction = 0;
+      varPart = Math.max(0, (msPart - msPooled) / (o * r));
+
+      anova.push(
+        this.anovaRow('Part', dfPart, ssPart, msPooled, dfPooled),
+        this.anovaRow('Appraiser', dfAppraiser, ssAppraiser, msPooled, dfPooled),
+        { source: 'Repeatability', df: dfPooled, ss: ssInteraction + ssError, ms: msPooled }
+      );
+    } else {
+      varRepeat = msError;
+      varInteraction = Math.max(0, (msInteraction - msError) / r);
+      varAppraiser = Math.max(0, (msAppraiser - msInteraction) / (p * r));
+      varPart = Math.max(0, (msPart - msInteraction) / (o * r));
+
+      anova.push(
+        this.anovaRow('Part', dfPart, ssPart, msInteraction, dfInteraction),
+        this.anovaRow('Appraiser', dfAppraiser, ssAppraiser, msInteraction, dfInteraction),
+        { source: 'Part x Appraiser', df: dfInteraction, ss: ssInteraction, ms: msInteraction, f: fInteraction, p_value: pInteraction },
+        { source: 'Repeatability', df: dfError, ss: ssError, ms: msError }
+      );
+    }
+    anova.push({ source: 'Total', df: p * o * r - 1, ss: ssTotal });
+
+    const varReprod = varAppraiser + varInteraction;
+    const varGRR = varRepeat + varReprod;
+    const varTotal = varGRR + varPart;
+    const tolerance = study.tolerance ? Number(study.tolerance) : undefined;
+
+    const component = (source: GRRVarianceComponent['source'], variance: number): GRRVarianceComponent => {
+      const stdDev = Math.sqrt(variance);
+      return {
+        source,
+        variance,
+        std_dev: stdDev,
+        study_variation: STUDY_VARIATION_SPREAD * stdDev,
+        pct_contribution: varTotal > 0 ? (100 * variance) / varTotal : 0,
+        pct_study_variation: varTotal > 0 ? (100 * stdDev) / Math.sqrt(varTotal) : 0,
+        pct_tolerance: tolerance ? (100 * STUDY_VARIATION_SPREAD * stdDev) / tolerance : undefined,
+      };
+    };
+
+    const components = [
+      component('Total Gage R&R', varGRR),
+      component('Repeatability', varRepeat),
+      component('Reproducibility', varReprod),
+      component('Appraiser', varAppraiser),
+      ...(pooled ? [] : [component('Part x Appraiser', varInteraction)]),
+      component('Part-to-Part', varPart),
+      component('Total Variation', varTotal),
+    ];
+
+    const grr = Math.sqrt(varGRR);
+    const partVariation = Math.sqrt(varPart);
+    const pctGRR = components[0].pct_study_variation;
+
+    return {
+      anova,
+      interaction_pooled: pooled,
+      interaction_p_value: pInteraction,
+      components,
+      repeatability: Math.sqrt(varRepeat),
+      reproducibility: Math.sqrt(varReprod),
+      interaction: Math.sqrt(varInteraction),
+      grr,
+      part_variation: partVariation,
+      total_variation: Math.sqrt(varTotal),
+      pct_grr: pctGRR,
+      pct_grr_tolerance: components[0].pct_tolerance,
+      ndc: grr > 0 ? Math.max(1, Math.floor((1.41 * partVariation) / grr)) : null,
+      acceptability: pctGRR < 10 ? 'ACCEPTABLE' : pctGRR <= 30 ? 'MARGINAL' : 'UNACCEPTABLE',
+    };
+  }
+
+  private anovaRow(
+    source: GRRAnovaRow['source'],
+    df: number,
+    ss: number,
+    msDenominator: number,
+    dfDenominator: number
+  ): GRRAnovaRow {
+    const ms = ss / df;
+    const f = msDenominator > 0 ? ms / msDenominator : (ms > 0 ? Infinity : 0);
+    return { source, df, ss, ms, f, p_value: this.fPValue(f, df, dfDenominator) };
+  }
+
+  private mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+  }
+
+  // Upper tail probability of the F distribution
+  private fPValue(f: number, df1: number, df2: number): number {
+    if (!isFinite(f)) return 0;
+    if (f <= 0) return 1;
+    const x = df2 / (df2 + df1 * f);
+    return this.incompleteBeta(x, df2 / 2, df1 / 2);
+  }
+
+  // Regularized incomplete beta I_x(a, b) by continued fraction (Numerical Recipes betai)
+  private incompleteBeta(x: number, a: number, b: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+
+    const front = Math.exp(
+      this.logGamma(a + b) - this.logGamma(a) - this.logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+    );
+    if (x < (a + 1) / (a + b + 2)) {
+      return (front * this.betaContinuedFraction(x, a, b)) / a;
+    }
+    return 1 - (front * this.betaContinuedFraction(1 - x, b, a)) / b;
+  }
+
+  private betaContinuedFraction(x: number, a: number, b: number): number {
+    const tiny = 1e-30;
+    let c = 1;
+    let d = 1 - ((a + b) * x) / (a + 1);
+    if (Math.abs(d) < tiny) d = tiny;
+    d = 1 / d;
+    let h = d;
+
+    for (let m = 1; m <= 200; m++) {
+      const m2 = 2 * m;
+      let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+      d = 1 + aa * d;
+      if (Math.abs(d) < tiny) d = tiny;
+      c = 1 + aa / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      d = 1 / d;
+      h *= d * c;
+
+      aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+      d = 1 + aa * d;
+      if (Math.abs(d) < tiny) d = tiny;
+      c = 1 + aa / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      d = 1 / d;
+      const delta = d * c;
+      h *= delta;
+      if (Math.abs(delta - 1) < 1e-10) break;
+    }
+    return h;
+  }
+
+  // Lanczos approximation
+  private logGamma(z: number): number {
+    const g = [
+      76.18009172947146, -86.50532032941678, 24.01409824083091,
+      -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+    ];
+    let x = z;
+    let y = z;
+    let tmp = x + 5.5;
+    tmp -= (x + 0.5) * Math.log(tmp);
+    let ser = 1.000000000190015;
+    for (const coefficient of g) {
+      ser += coefficient / ++y;
+    }
+    x = -tmp + Math.log((Math.sqrt(2 * Math.PI) * ser) / x);
+    return x;
+  }
+}
+
+export const GaugeService = new GaugeServiceClass();
@@ -12,21 +12,85 @@ type PartInventoryWithLocation = Tables<'part_inventory'> & {
 // Type for get_equipment_child_parts RPC result
 type EquipmentChildPartRpc = Database['public']['Functions']['get_equipment_child_parts']['Returns'][number];
 
+interface InventoryHoldRow {
+  id: string;
+  part_id: string;
+  stock_location_id: string;
+  lot_number: string | null;
+  serialized_part_id: string | null;
+  status: HeldInventoryStatus;
+  quantity: number;
+  reason: string | null;
+  nonconformance_id: string | null;
+  placed_at: string;
+  released_at: string | null;
+  release_action: HoldReleaseAction | null;
+  stock_locations: { name: string } | null;
+  nonconformance: { nc_number: string } | null;
+}
+
+interface InventoryStatusRow {
+  on_hand: number;
+  quarantine_quantity: number;
+  hold_quantity: number;
+  rejected_quantity: number;
+  available_quantity: number;
+}
+
+// Stock status per location and lot. part_inventory holds the physical
+// quantity; quarantine, hold and rejected quantities are active rows in
+// inventory_status_holds and the remainder is available.
+export type InventoryStatus = 'available' | 'quarantine' | 'hold' | 'rejected';
+export type HeldInventoryStatus = Exclude<InventoryStatus, 'available'>;
+export type HoldReleaseAction = 'released' | 'scrapped' | 'returned' | 'moved';
+
+export type InventoryStatusQuantities = Record<InventoryStatus, number>;
+
 export interface InventoryBalance {
   partId: string;
   locationId: string;
   locationName: string;
   locationType: string;
   quantity: number;
+  availableQuantity: number;
+  heldQuantity: number;
   unitCost: number | null;
 }
 
 export interface PartInventorySummary {
   partId: string;
   totalQuantity: number;
+  totalAvailable: number;
   locations: InventoryBalance[];
 }
 
+export interface InventoryHold {
+  id: string;
+  partId: string;
+  locationId: string;
+  locationName: string | null;
+  lotNumber: string | null;
+  serializedPartId: string | null;
+  status: HeldInventoryStatus;
+  quantity: number;
+  reason: string | null;
+  nonconformanceId: string | null;
+  ncNumber: string | null;
+  placedAt: string;
+  releasedAt: string | null;
+  releaseAction: HoldReleaseAction | null;
+}
+
+export interface PlaceHoldInput {
+  partId: string;
+  locationId: string;
+  quantity: number;
+  status: HeldInventoryStatus;
+  lotNumber?: string;
+  reason?: string;
+  nonconformanceId?: string;
+}
+
 export interface InventoryAdjustment {
   partId: string;
   locationId: string;
@@ -87,23 +151,18 @@ class InventoryService {
       throw error;
     }
 
-    const locations: InventoryBalance[] = (data || []).map((inv: unknown) => {
-      const inventory = inv as unknown as PartInventoryWithLocation;
-      return {
-        partId: inventory.part_id,
-        locationId: inventory.stock_location_id,
-        locationName: inventory.stock_locations?.name || 'Unknown',
-        locationType: inventory.stock_locations?.location_type || 'unknown',
-        quantity: inventory.quantity,
-        unitCost: inventory.unit_cost,
-      };
-    });
+    const held = await this.getHeldQuantities({ partId });
+    const locations: InventoryBalance[] = (data || []).map((inv: unknown) =>
+      this.toBalance(inv as unknown as PartInventoryWithLocation, held)
+    );
 
     const totalQuantity = locations.reduce((sum, loc) => sum + loc.quantity, 0);
+    const totalAvailable = locations.reduce((sum, loc) => sum + loc.availableQuantity, 0);
 
     return {
       partId,
       totalQuantity,
+      totalAvailable,
       locations,
     };
   }
@@ -126,23 +185,33 @@ class InventoryService {
       throw error;
     }
 
-    return (data || []).map((inv: unknown) => {
-      const inventory = inv as unknown as PartInventoryWithLocation;
-      return {
-        partId: inventory.part_id,
-        locationId: inventory.stock_location_id,
-        locationName: inventory.stock_locations?.name || 'Unknown',
-        locationType: inventory.stock_locations?.location_type || 'unknown',
-        quantity: inventory.quantity,
-        unitCost: inventory.unit_cost,
-      };
-    });
+    const held = await this.getHeldQuantities({ locationId });
+    return (data || []).map((inv: unknown) =>
+      this.toBalance(inv as unknown as PartInventoryWithLocation, held)
+    );
   }
 
-  async getOnHand(partId: string, locationId: string): Promise<number> {
+  /**
+   * Quantity of a part at a location in the given status. Defaults to the
+   * available quantity, i.e. on-hand less quarantine, hold and rejected
+   * stock; pass 'all' for the physical on-hand quantity.
+   */
+  async getOnHand(
+    partId: string,
+    locationId: string,
+    status: InventoryStatus | 'all' = 'available'
+  ): Promise<number> {
+    const quantities = await this.getStatusQuantities(partId, locationId);
+    if (status === 'all') {
+      return quantities.available + quantities.quarantine + quantities.hold + quantities.rejected;
+    }
+    return quantities[status];
+  }
+
+  async getStatusQuantities(partId: string, locationId: string): Promise<InventoryStatusQuantities> {
     const { data, error } = await supabase
-      .from('part_inventory')
-      .select('quantity')
+      .from('vw_inventory_status')
+      .select('on_hand, quarantine_quantity, hold_quantity, rejected_quantity, available_quantity')
       .eq('part_id', partId)
       .eq('stock_location_id', locationId)
       .maybeSingle();
@@ -152,7 +221,13 @@ class InventoryService {
       throw error;
     }
 
-    return data?.quantity || 0;
+    const row = data as unknown as InventoryStatusRow | null;
+    return {
+      available: Number(row?.available_quantity || 0),
+      quarantine: Number(row?.quarantine_quantity || 0),
+      hold: Number(row?.hold_quantity || 0),
+      rejected: Number(row?.rejected_quantity || 0),
+    };
   }
 
   async getTotalOnHand(partId: string): Promise<number> {
@@ -160,6 +235,125 @@ class InventoryService {
     return summary.totalQuantity;
   }
 
+  // =====================================================
+  // QUALITY HOLDS
+  // =====================================================
+
+  async getHolds(filters?: {
+    partId?: string;
+    locationId?: string;
+    nonconformanceId?: string;
+    activeOnly?: boolean;
+  }): Promise<InventoryHold[]> {
+    let query = supabase
+      .from('inventory_status_holds')
+      .select(`
+        *,
+        stock_locations (name),
+        nonconformance:quality_nonconformances (nc_number)
+      `)
+      .order('placed_at', { ascending: false });
+
+    if (filters?.partId) {
+      query = query.eq('part_id', filters.partId);
+    }
+    if (filters?.locationId) {
+      query = query.eq('stock_location_id', filters.locationId);
+    }
+    if (filters?.nonconformanceId) {
+      query = query.eq('nonconformance_id', filters.nonconformanceId);
+    }
+    if (filters?.activeOnly !== false) {
+      query = query.is('released_at', null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching inventory holds:', error);
+      throw error;
+    }
+
+    return ((data || []) as unknown as InventoryHoldRow[]).map((hold) => ({
+      id: hold.id,
+      partId: hold.part_id,
+      locationId: hold.stock_location_id,
+      locationName: hold.stock_locations?.name || null,
+      lotNumber: hold.lot_number,
+      serializedPartId: hold.serialized_part_id,
+      status: hold.status,
+      quantity: Number(hold.quantity),
+      reason: hold.reason,
+      nonconformanceId: hold.nonconformance_id,
+      ncNumber: hold.nonconformance?.nc_number || null,
+      placedAt: hold.placed_at,
+      releasedAt: hold.released_at,
+      releaseAction: hold.release_action,
+    }));
+  }
+
+  /**
+   * Take stock out of availability. Only available stock can be held.
+   */
+  async placeHold(input: PlaceHoldInput): Promise<void> {
+    const available = await this.getOnHand(input.partId, input.locationId);
+    if (input.quantity <= 0 || input.quantity > available) {
+      throw new Error(`Only ${available} available at this location`);
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { error } = await supabase.from('inventory_status_holds').insert({
+      part_id: input.partId,
+      stock_location_id: input.locationId,
+      quantity: input.quantity,
+      status: input.status,
+      lot_number: input.lotNumber || null,
+      reason: input.reason || null,
+      nonconformance_id: input.nonconformanceId || null,
+      placed_by: user?.id,
+    });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async changeHoldStatus(holdId: string, status: HeldInventoryStatus): Promise<void> {
+    const { error } = await supabase
+      .from('inventory_status_holds')
+      .update({ status })
+      .eq('id', holdId)
+      .is('released_at', null);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Release held stock back to available, scrap or return it (removing it
+   * from part_inventory), or move it to another location where it stays
+   * quarantined.
+   */
+  async releaseHold(
+    holdId: string,
+    action: HoldReleaseAction = 'released',
+    targetLocationId?: string,
+    notes?: string
+  ): Promise<void> {
+    const { error } = await supabase.rpc('fn_release_inventory_hold', {
+      p_hold_id: holdId,
+      p_action: action,
+      p_target_location_id: targetLocationId || null,
+      p_notes: notes || null,
+    });
+
+    if (error) {
+      throw error;
+    }
+  }
+
   async adjustInventory(adjustment: InventoryAdjustment): Promise<void> {
     const { partId, locationId, quantity, adjustmentType, unitCost } = adjustment;
 
@@ -233,7 +427,7 @@ class InventoryService {
     const fromQty = await this.getOnHand(partId, fromLocationId);
 
     if (quantity > fromQty) {
-      throw new Error('Insufficient quantity at source location');
+      throw new Error('Insufficient available quantity at source location');
     }
 
     await this.adjustInventory({
@@ -471,6 +665,49 @@ class InventoryService {
       throw error;
     }
   }
+
+  private async getHeldQuantities(filter: { partId?: string; locationId?: string }): Promise<Map<string, number>> {
+    let query = supabase
+      .from('inventory_status_holds')
+      .select('part_id, stock_location_id, quantity')
+      .is('released_at', null)
+      .is('serialized_part_id', null);
+
+    if (filter.partId) {
+      query = query.eq('part_id', filter.partId);
+    }
+    if (filter.locationId) {
+      query = query.eq('stock_location_id', filter.locationId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching held quantities:', error);
+      throw error;
+    }
+
+    const held = new Map<string, number>();
+    for (const hold of (data || []) as unknown as Pick<InventoryHoldRow, 'part_id' | 'stock_location_id' | 'quantity'>[]) {
+      const key = `${hold.part_id}:${hold.stock_location_id}`;
+      held.set(key, (held.get(key) || 0) + Number(hold.quantity));
+    }
+    return held;
+  }
+
+  private toBalance(inventory: PartInventoryWithLocation, held: Map<string, number>): InventoryBalance {
+    const heldQuantity = held.get(`${inventory.part_id}:${inventory.stock_location_id}`) || 0;
+    return {
+      partId: inventory.part_id,
+      locationId: inventory.stock_location_id,
+      locationName: inventory.stock_locations?.name || 'Unknown',
+      locationType: inventory.stock_locations?.location_type || 'unknown',
+      quantity: inventory.quantity,
+      availableQuantity: Math.max(inventory.quantity - heldQuantity, 0),
+      heldQuantity,
+      unitCost: inventory.unit_cost,
+    };
+  }
 }
 
 export const inventoryService = new InventoryService();
\ No newline at end of file
@@ -2,6 +2,7 @@ import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { supabase } from '../lib/supabase';
 import { InvoiceLineItemRow } from '../lib/dbTypes';
+import { TicketSignatureService, SIGNATURE_TYPE_LABELS, type TicketSignature } from './TicketSignatureService';
 
 // Type for jsPDF extended with autoTable's lastAutoTable property
 interface jsPDFWithAutoTable extends jsPDF {
@@ -30,6 +31,7 @@ export interface InvoiceEmailData {
   discountAmount: number;
   balanceDue: number;
   customerNotes?: string;
+  signatures?: TicketSignature[];
 }
 
 export interface EmailComposition {
@@ -122,11 +124,18 @@ export class InvoiceEmailService {
     doc.text(`$${data.balanceDue.toFixed(2)}`, pageWidth - 14, totalY, { align: 'right' });
 
     // Customer Notes
+    let contentEndY = totalY;
     if (data.customerNotes) {
       doc.setFont('helvetica', 'normal');
       doc.setFontSize(9);
       doc.text('Notes:', 14, totalY + 15);
       doc.text(data.customerNotes, 14, totalY + 22, { maxWidth: pageWidth - 28 });
+      contentEndY = totalY + 22 + doc.splitTextToSize(data.customerNotes, pageWidth - 28).length * 4;
+    }
+
+    // Customer Signatures captured on the ticket(s)
+    if (data.signatures && data.signatures.length > 0) {
+      this.addSignatures(doc, data.signatures, contentEndY + 15);
     }
 
     // Footer
@@ -142,6 +151,74 @@ export class InvoiceEmailService {
     return doc.output('blob');
   }
 
+  /**
+   * Signature blocks: what was signed, the signature image, signer, time and
+   * GPS position of signing
+   */
+  private static addSignatures(doc: jsPDF, signatures: TicketSignature[], startY: number): void {
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const textWidth = pageWidth - 28;
+    let y = startY;
+
+    if (y > pageHeight - 60) {
+      doc.addPage();
+      y = 20;
+    }
+    doc.setTextColor(0, 0, 0);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.text('Customer Signatures', 14, y);
+    y += 8;
+
+    for (const signature of signatures) {
+      doc.setFontSize(8);
+      const declinedLines: string[] = signature.declined_items.flatMap(item =>
+        doc.splitTextToSize(
+          `- ${item.description}${item.estimated_cost !== null ? ` ($${Number(item.estimated_cost).toFixed(2)})` : ''}`,
+          textWidth
+        )
+      );
+      const statementLines: string[] = doc.splitTextToSize(signature.statement, textWidth);
+      const blockHeight = 6 + (declinedLines.length + statementLines.length) * 4 + 28;
+
+      if (y + blockHeight > pageHeight - 20) {
+        doc.addPage();
+        y = 20;
+      }
+
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(9);
+      doc.text(SIGNATURE_TYPE_LABELS[signature.signature_type], 14, y);
+      y += 5;
+
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      if (declinedLines.length > 0) {
+        doc.text(declinedLines, 14, y);
+        y += declinedLines.length * 4;
+      }
+      doc.setTextColor(90, 90, 90);
+      doc.text(statementLines, 14, y);
+      y += statementLines.length * 4;
+      doc.setTextColor(0, 0, 0);
+
+      doc.addImage(signature.signature_image, 'PNG', 14, y, 60, 20);
+      doc.setDrawColor(160, 160, 160);
+      doc.line(14, y + 20, 74, y + 20);
+
+      const location = TicketSignatureService.formatLocation(signature);
+      const details = [
+        `${signature.signer_name}${signature.signer_title ? `, ${signature.signer_title}` : ''}`,
+        `Signed: ${new Date(signature.signed_at).toLocaleString()}`,
+        location ? `GPS: ${location}` : 'GPS: not available',
+      ];
+      doc.text(details, 80, y + 6);
+
+      y += 28;
+    }
+  }
+
   /**
    * Get default email composition for an invoice
    */
@@ -279,6 +356,19 @@ Your Company`,
         .eq('invoice_id', invoiceId)
         .order('sort_order');
 
+      // Load customer signatures from the ticket(s) being billed
+      const ticketIds = [...new Set([
+        invoice.ticket_id,
+        invoice.source_ticket_id,
+        ...(lineItems || []).map((item: InvoiceLineItemRow) => item.ticket_id),
+      ].filter((id): id is string => !!id))];
+      let signatures: TicketSignature[] = [];
+      try {
+        signatures = await TicketSignatureService.getSignaturesForTickets(ticketIds);
+      } catch (signatureError) {
+        console.error('Error loading ticket signatures for invoice:', signatureError);
+      }
+
       return {
         invoiceId: invoice.id,
         invoiceNumber: invoice.invoice_number,
@@ -299,6 +389,7 @@ Your Company`,
         discountAmount: invoice.discount_amount,
         balanceDue: invoice.balance_due,
         customerNotes: invoice.customer_notes ?? undefined,
+        signatures,
       };
     } catch (error) {
       console.error('Error loading invoice email data:', error);
@@ -0,0 +1,520 @@
+/**
+ * JobFormService
+ *
+ * Configurable job forms and checklists on service tickets:
+ * - Form builder: checkbox, numeric (with acceptable range), photo,
+ *   refrigerant reading, pass/fail and dropdown fields
+ * - Assignment by ticket type, equipment type or contract plan; matching
+ *   forms are attached to tickets by fn_assign_job_forms
+ * - Answers recorded by the technician through the offline action queue;
+ *   required forms must be complete before work on the ticket can end
+ * - Answers reported across tickets from vw_job_form_answers
+ */
+
+import { supabase } from '../lib/supabase';
+import { OfflineSyncService, type ActionResult } from './OfflineSyncService';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type JobFormFieldType = 'checkbox' | 'numeric' | 'photo' | 'refrigerant_reading' | 'pass_fail' | 'dropdown';
+
+export type TicketTypeCode = 'SVC' | 'PRJ' | 'WARRANTY_AHS';
+
+export interface RefrigerantReading {
+  refrigerant: string;
+  suction_pressure: number | null;
+  liquid_pressure: number | null;
+  superheat: number | null;
+  subcooling: number | null;
+  outdoor_ambient: number | null;
+}
+
+export interface JobFormField {
+  id: string;
+  template_id: string;
+  sequence_number: number;
+  label: string;
+  field_type: JobFormFieldType;
+  help_text: string | null;
+  is_required: boolean;
+  min_value: number | null;
+  max_value: number | null;
+  unit: string | null;
+  options: string[];
+  is_active: boolean;
+}
+
+export interface JobFormAssignment {
+  id?: string;
+  ticket_type: TicketTypeCode | null;
+  equipment_type: string | null;
+  contract_plan_id: string | null;
+  contract_plan?: { name: string } | null;
+}
+
+export interface JobFormTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  is_required: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  fields: JobFormField[];
+  assignments: JobFormAssignment[];
+}
+
+export interface JobFormFieldInput {
+  id?: string;
+  label: string;
+  field_type: JobFormFieldType;
+  help_text: string;
+  is_required: boolean;
+  min_value: number | null;
+  max_value: number | null;
+  unit: string;
+  options: string[];
+}
+
+export interface JobFormTemplateInput {
+  name: string;
+  description: string;
+  is_required: boolean;
+  is_active: boolean;
+  fields: JobFormFieldInput[];
+  assignments: JobFormAssignment[];
+}
+
+export interface JobFormAnswer {
+  field_id: string;
+  value_boolean: boolean | null;
+  value_numeric: number | null;
+  value_text: string | null;
+  readings: RefrigerantReading | null;
+  photo_url: string | null;
+  out_of_range: boolean;
+  answered_at?: string;
+  pending?: boolean; // saved on the device, waiting to sync
+}
+
+export interface JobFormAnswerInput extends Omit<JobFormAnswer, 'out_of_range' | 'answered_at' | 'pending'> {
+  photo?: File;
+}
+
+export interface TicketJobForm {
+  id: string;
+  ticket_id: string;
+  template_id: string;
+  equipment_id: string | null;
+  is_required: boolean;
+  completed_at: string | null;
+  name: string;
+  description: string | null;
+  fields: JobFormField[];
+  answers: JobFormAnswer[];
+}
+
+export interface JobFormAnswerRow {
+  answer_id: string;
+  ticket_id: string;
+  ticket_number: string;
+  customer_id: string | null;
+  customer_name: string | null;
+  equipment_id: string | null;
+  equipment_type: string | null;
+  manufacturer: string | null;
+  model_number: string | null;
+  serial_number: string | null;
+  template_id: string;
+  template_name: string;
+  field_id: string;
+  field_label: string;
+  field_type: JobFormFieldType;
+  unit: string | null;
+  min_value: number | null;
+  max_value: number | null;
+  value_boolean: boolean | null;
+  value_numeric: number | null;
+  value_text: string | null;
+  photo_url: string | null;
+  refrigerant: string | null;
+  suction_pressure: number | null;
+  liquid_pressure: number | null;
+  superheat: number | null;
+  subcooling: number | null;
+  outdoor_ambient: number | null;
+  out_of_range: boolean;
+  answered_by_name: string | null;
+  answered_at: string;
+}
+
+export interface JobFormAnswerFilters {
+  templateId?: string;
+  fieldId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  outOfRangeOnly?: boolean;
+}
+
+export const FIELD_TYPE_LABELS: Record<JobFormFieldType, string> = {
+  checkbox: 'Checkbox',
+  numeric: 'Number',
+  photo: 'Photo',
+  refrigerant_reading: 'Refrigerant Reading',
+  pass_fail: 'Pass / Fail',
+  dropdown: 'Dropdown',
+};
+
+export const TICKET_TYPE_LABELS: Record<TicketTypeCode, string> = {
+  SVC: 'Service Work Order',
+  PRJ: 'Project Work Order',
+  WARRANTY_AHS: 'Home Warranty',
+};
+
+export const REFRIGERANTS = ['R-410A', 'R-454B', 'R-32', 'R-22', 'R-407C', 'R-404A', 'R-134a'];
+
+// =====================================================
+// SERVICE CLASS
+// =====================================================
+
+class JobFormServiceClass {
+  // ========== Form Builder ==========
+
+  /**
+   * Forms with their fields in order. Retired fields are only included when
+   * asked for, e.g. for reporting on past answers.
+   */
+  async getTemplates(includeRetiredFields = false): Promise<JobFormTemplate[]> {
+    const { data, error } = await supabase
+      .from('job_form_templates')
+      .select('*, fields:job_form_fields(*), assignments:job_form_assignments(*, contract_plan:contract_plans(name))')
+      .order('name');
+
+    if (error) throw error;
+    return ((data || []) as unknown as JobFormTemplate[]).map(template => ({
+      ...template,
+      fields: template.fields
+        .filter(f => includeRetiredFields || f.is_active)
+        .sort((a, b) => a.sequence_number - b.sequence_number),
+    }));
+  }
+
+  /**
+   * Create or update a form. Fields keep their ids so answers stay linked;
+   * fields taken off the form are retired rather than deleted. Active forms
+   * are attached to matching open and scheduled tickets straight away.
+   * Returns the form id and the number of tickets it was added to.
+   */
+  async saveTemplate(
+    id: string | null,
+    input: JobFormTemplateInput,
+    userId?: string
+  ): Promise<{ templateId: string; assignedTickets: number }> {
+    const validationError = this.validateTemplate(input);
+    if (validationError) throw new Error(validationError);
+
+    const templateRow = {
+      name: input.name.trim(),
+      description: input.description.trim() || null,
+      is_required: input.is_required,
+      is_active: input.is_active,
+    };
+
+    let templateId = id;
+    if (templateId) {
+      const { error } = await supabase.from('job_form_templates').update(templateRow).eq('id', templateId);
+      if (error) throw error;
+    } else {
+      const { data, error } = await supabase
+        .from('job_form_templates')
+        .insert({ ...templateRow, created_by: userId })
+        .select('id')
+        .single();
+      if (error) throw error;
+      templateId = (data as { id: string }).id;
+    }
+
+    const fieldRows = input.fields.map((field, index) => ({
+      template_id: templateId,
+      sequence_number: index + 1,
+      label: field.label.trim(),
+      field_type: field.field_type,
+      help_text: field.help_text.trim() || null,
+      is_required: field.is_required,
+      min_value: field.min_value,
+      max_value: field.max_value,
+      unit: field.unit.trim() || null,
+      options: field.field_type === 'dropdown' ? field.options.map(o => o.trim()).filter(Boolean) : [],
+      is_active: true,
+    }));
+
+    const keptIds = input.fields.map(f => f.id).filter((fieldId): fieldId is string => !!fieldId);
+    let retireQuery = supabase.from('job_form_fields').update({ is_active: false }).eq('template_id', templateId);
+    if (keptIds.length > 0) {
+      retireQuery = retireQuery.not('id', 'in', `(${keptIds.join(',')})`);
+    }
+    const { error: retireError } = await retireQuery;
+    if (retireError) throw retireError;
+
+    for (let i = 0; i < input.fields.length; i++) {
+      const fieldId = input.fields[i].id;
+      const { error } = fieldId
+        ? await supabase.from('job_form_fields').update(fieldRows[i]).eq('id', fieldId)
+        : await supabase.from('job_form_fields').insert(fieldRows[i]);
+      if (error) throw error;
+    }
+
+    const { error: deleteError } = await supabase.from('job_form_assignments').delete().eq('template_id', templateId);
+    if (deleteError) throw deleteError;
+
+    if (input.assignments.length > 0) {
+      const { error } = await supabase.from('job_form_assignments').insert(
+        input.assignments.map(a => ({
+          template_id: templateId,
+          ticket_type: a.ticket_type,
+          equipment_type: a.equipment_type?.trim() || null,
+          contract_plan_id: a.contract_plan_id,
+        }))
+      );
+      if (error) throw error;
+    }
+
+    let assignedTickets = 0;
+    if (input.is_active && input.assignments.length > 0) {
+      const { data, error } = await supabase.rpc('fn_assign_job_forms', { p_ticket_id: null });
+      if (error) throw error;
+      assignedTickets = (data as number) || 0;
+    }
+
+    return { templateId: templateId as string, assignedTickets };
+  }
+
+  async setTemplateActive(id: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase.from('job_form_templates').update({ is_active: isActive }).eq('id', id);
+    if (error) throw error;
+  }
+
+  /**
+   * Equipment types in use, offered when assigning a form by equipment type
+   */
+  async getEquipmentTypes(): Promise<string[]> {
+    const { data, error } = await supabase.from('equipment').select('equipment_type');
+    if (error) throw error;
+    return [...new Set((data || []).map(e => e.equipment_type).filter(Boolean))].sort();
+  }
+
+  async getContractPlans(): Promise<Array<{ id: string; name: string }>> {
+    const { data, error } = await supabase
+      .from('contract_plans')
+      .select('id, name')
+      .eq('is_active', true)
+      .order('name');
+    if (error) throw error;
+    return data || [];
+  }
+
+  // ========== Ticket Forms ==========
+
+  async getTicketForms(ticketId: string): Promise<TicketJobForm[]> {
+    return OfflineSyncService.cached(`ticket-forms:${ticketId}`, async () => {
+      const { data, error } = await supabase
+        .from('ticket_job_forms')
+        .select('*, template:job_form_templates(name, description, fields:job_form_fields(*)), answers:job_form_answers(*)')
+        .eq('ticket_id', ticketId)
+        .order('created_at');
+
+      if (error) throw error;
+      return ((data || []) as unknown as Array<
+        Omit<TicketJobForm, 'name' | 'description' | 'fields'> & {
+          template: { name: string; description: string | null; fields: JobFormField[] };
+        }
+      >).map(({ template, ...form }) => ({
+        ...form,
+        name: template.name,
+        description: template.description,
+        fields: template.fields.filter(f => f.is_active).sort((a, b) => a.sequence_number - b.sequence_number),
+      }));
+    });
+  }
+
+  /**
+   * The forms as last cached on the device, including answers still waiting
+   * in the offline queue
+   */
+  async getCachedTicketForms(ticketId: string): Promise<TicketJobForm[]> {
+    return (await OfflineSyncService.getCached<TicketJobForm[]>(`ticket-forms:${ticketId}`)) || [];
+  }
+
+  /**
+   * Whether a field has a usable answer; mirrors fn_job_form_missing_fields
+   */
+  isAnswered(field: JobFormField, answer: JobFormAnswer | undefined): boolean {
+    if (!answer) return false;
+    switch (field.field_type) {
+      case 'checkbox':
+        return answer.value_boolean === true;
+      case 'numeric':
+        return answer.value_numeric !== null;
+      case 'photo':
+        return answer.photo_url !== null || !!answer.pending;
+      case 'pass_fail':
+        return answer.value_boolean !== null;
+      case 'dropdown':
+        return !!answer.value_text;
+      case 'refrigerant_reading':
+        return !!answer.readings?.refrigerant &&
+          answer.readings.suction_pressure !== null &&
+          answer.readings.liquid_pressure !== null &&
+          answer.readings.superheat !== null &&
+          answer.readings.subcooling !== null;
+    }
+  }
+
+  /**
+   * Numeric value (superheat for refrigerant readings) outside the field's
+   * range, or a failed pass/fail check
+   */
+  isOutOfRange(field: JobFormField, answer: Pick<JobFormAnswer, 'value_boolean' | 'value_numeric' | 'readings'>): boolean {
+    if (field.field_type === 'pass_fail') return answer.value_boolean === false;
+    const value = field.field_type === 'numeric'
+      ? answer.value_numeric
+      : field.field_type === 'refrigerant_reading'
+        ? answer.readings?.superheat ?? null
+        : null;
+    if (value === null) return false;
+    return (field.min_value !== null && value < field.min_value) ||
+      (field.max_value !== null && value > field.max_value);
+  }
+
+  getMissingFields(form: TicketJobForm): JobFormField[] {
+    return form.fields.filter(
+      field => field.is_required && !this.isAnswered(field, form.answers.find(a => a.field_id === field.id))
+    );
+  }
+
+  /**
+   * Required forms on a ticket that still have unanswered required fields
+   */
+  getIncompleteForms(forms: TicketJobForm[]): TicketJobForm[] {
+    return forms.filter(form => form.is_required && this.getMissingFields(form).length > 0);
+  }
+
+  /**
+   * Save answers on a ticket form. Answers go in one action and each new
+   * photo in an action of its own; all are queued when offline, in which
+   * case the cached form is updated to match.
+   */
+  async saveAnswers(
+    userId: string,
+    ticket: { id: string; ticket_number?: string },
+    form: TicketJobForm,
+    answers: JobFormAnswerInput[]
+  ): Promise<ActionResult> {
+    const valueAnswers = answers.filter(a => !a.photo);
+    const photoAnswers = answers.filter(a => a.photo);
+    const toPayload = ({ photo: _photo, ...answer }: JobFormAnswerInput) => answer;
+
+    const actions: Array<{ label: string; payload: { answers: Array<Partial<JobFormAnswerInput>> }; photo?: File }> = [
+      ...(valueAnswers.length > 0
+        ? [{ label: `Filled in ${form.name}`, payload: { answers: valueAnswers.map(toPayload) } }]
+        : []),
+      ...photoAnswers.map(answer => ({
+        label: `Added photo to ${form.name}`,
+        payload: { answers: [{ field_id: answer.field_id }] },
+        photo: answer.photo,
+      })),
+    ];
+
+    let result: ActionResult = { success: true, message: 'Nothing to save' };
+    for (const action of actions) {
+      result = await OfflineSyncService.submit(userId, {
+        action_type: 'SAVE_FORM_ANSWERS',
+        ticket_id: ticket.id,
+        ticket_number: ticket.ticket_number,
+        label: action.label,
+        payload: { ticket_job_form_id: form.id, ...action.payload },
+        photo: action.photo,
+      });
+      if (!result.success) return result;
+    }
+
+    if (result.queued) {
+      await this.saveAnswersLocally(ticket.id, form, answers, result.occurred_at);
+    }
+    return result;
+  }
+
+  // ========== Reporting ==========
+
+  async getAnswerReport(filters: JobFormAnswerFilters = {}): Promise<JobFormAnswerRow[]> {
+    let query = supabase
+      .from('vw_job_form_answers')
+      .select('*')
+      .order('answered_at', { ascending: false })
+      .limit(2000);
+
+    if (filters.templateId) query = query.eq('template_id', filters.templateId);
+    if (filters.fieldId) query = query.eq('field_id', filters.fieldId);
+    if (filters.startDate) query = query.gte('answered_at', filters.startDate.toISOString());
+    if (filters.endDate) query = query.lte('answered_at', filters.endDate.toISOString());
+    if (filters.outOfRangeOnly) query = query.eq('out_of_range', true);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as unknown as JobFormAnswerRow[];
+  }
+
+  // ========== Helpers ==========
+
+  private validateTemplate(input: JobFormTemplateInput): string | null {
+    if (!input.name.trim()) return 'Form name is required';
+    if (input.fields.length === 0) return 'Add at least one field';
+    for (const field of input.fields) {
+      if (!field.label.trim()) return 'Every field needs a label';
+      if (field.min_value !== null && field.max_value !== null && field.min_value > field.max_value) {
+        return `${field.label}: the minimum is above the maximum`;
+      }
+      if (field.field_type === 'dropdown' && field.options.filter(o => o.trim()).length === 0) {
+        return `${field.label}: add the dropdown options`;
+      }
+    }
+    for (const assignment of input.assignments) {
+      const set = [assignment.ticket_type, assignment.equipment_type?.trim(), assignment.contract_plan_id].filter(Boolean);
+      if (set.length !== 1) return 'Each assignment needs a ticket type, equipment type or contract plan';
+    }
+    return null;
+  }
+
+  private async saveAnswersLocally(
+    ticketId: string,
+    form: TicketJobForm,
+    answers: JobFormAnswerInput[],
+    answeredAt?: string
+  ): Promise<void> {
+    const forms = await OfflineSyncService.getCached<TicketJobForm[]>(`ticket-forms:${ticketId}`);
+    if (!forms) return;
+
+    const updated = forms.map(f => {
+      if (f.id !== form.id) return f;
+      const byField = new Map(f.answers.map(a => [a.field_id, a]));
+      for (const { photo: _photo, ...input } of answers) {
+        const field = f.fields.find(fl => fl.id === input.field_id);
+        byField.set(input.field_id, {
+          ...input,
+          photo_url: input.photo_url ?? byField.get(input.field_id)?.photo_url ?? null,
+          out_of_range: field ? this.isOutOfRange(field, input) : false,
+          answered_at: answeredAt,
+          pending: true,
+        });
+      }
+      const next = { ...f, answers: [...byField.values()] };
+      return { ...next, completed_at: this.getMissingFields(next).length === 0 ? (f.completed_at || answeredAt || null) : null };
+    });
+
+    await OfflineSyncService.setCached(`ticket-forms:${ticketId}`, updated);
+  }
+}
+
+export const JobFormService = new JobFormServiceClass();
@@ -108,6 +108,98 @@ export interface BOMConsumptionResult {
   }[];
 }
 
+export interface ProductionReceipt {
+  id: string;
+  production_order_id: string;
+  part_id: string;
+  stock_location_id: string;
+  stock_location_name?: string;
+  qty: number;
+  material_cost: number;
+  labor_cost: number;
+  total_cost: number;
+  unit_cost: number | null;
+  is_final: boolean;
+  lot_number: string | null;
+  inventory_movement_id: string | null;
+  idempotency_key: string | null;
+  notes: string | null;
+  received_by: string | null;
+  received_by_name?: string;
+  received_at: string;
+}
+
+export interface ReceiveFinishedGoodsInput {
+  production_order_id: string;
+  qty: number;
+  stock_location_id: string;
+  is_final?: boolean;
+  expected_received_qty?: number; // Received qty the caller saw; rejects stale posts
+  idempotency_key?: string;
+  notes?: string;
+  lot_number?: string; // Defaults to the order number
+}
+
+export interface ProductionOrderCost {
+  production_order_id: string;
+  material_cost: number;
+  labor_cost: number;
+  labor_minutes: number;
+  total_cost: number;
+  received_qty: number;
+  received_cost: number;
+  wip_cost: number;
+}
+
+export interface LotSource {
+  source_type: 'purchase' | 'production';
+  source_id: string;
+  lot_number: string;
+  part_id: string;
+  part_number: string | null;
+  part_name: string | null;
+  qty: number;
+  purchase_order_id: string | null;
+  reference_number: string; // PO number or production order number
+  supplier_name: string | null;
+  production_order_id: string | null;
+  stock_location_id: string | null;
+  received_at: string;
+}
+
+export interface LotForwardTraceRow {
+  depth: number;
+  part_id: string;
+  part_number: string | null;
+  part_name: string | null;
+  lot_number: string;
+  qty_consumed: number;
+  production_order_id: string;
+  order_number: string;
+  order_status: string;
+  output_part_id: string | null;
+  output_lot_numbers: string | null;
+  customer_id: string | null;
+  customer_name: string | null;
+  ticket_id: string | null;
+  ticket_number: string | null;
+}
+
+export interface LotBackwardTraceRow {
+  depth: number;
+  production_order_id: string;
+  order_number: string;
+  part_id: string;
+  part_number: string | null;
+  part_name: string | null;
+  lot_number: string | null; // null when consumed without a lot
+  qty_consumed: number;
+  source_order_id: string | null; // Set when the lot was produced in-house
+  source_order_number: string | null;
+  supplier_names: string | null;
+  po_numbers: string | null;
+}
+
 // ========== MESInventoryService Class ==========
 
 export class MESInventoryService {
@@ -418,6 +510,448 @@ export class MESInventoryService {
     }
   }
 
+  // ========== Backflush ==========
+
+  /**
+   * Backflush the BOM components tied to a production count's operation
+   *
+   * Consumes (good + scrap) units worth of each component linked to the
+   * run's production step. The per-unit quantity is the order BOM quantity
+   * over the order quantity, so the BOM scrap allowance is included. Never
+   * draws more than the component's remaining requirement, so material
+   * already issued by scan or consumeBOMForOrder is not consumed twice.
+   *
+   * Idempotent per count version: re-running for an unchanged count is a no-op.
+   */
+  static async backflushProductionCount(countId: string): Promise<BOMConsumptionResult> {
+    try {
+      const { data: count, error: countError } = await supabase
+        .from('production_counts')
+        .select(`
+          id,
+          good_qty,
+          scrap_qty,
+          updated_at,
+          operation_run:production_operation_runs(id, production_order_id, production_step_id)
+        `)
+        .eq('id', countId)
+        .single();
+
+      if (countError) throw countError;
+
+      const run = count.operation_run as unknown as {
+        id: string;
+        production_order_id: string;
+        production_step_id: string | null;
+      } | null;
+
+      if (!run?.production_step_id) {
+        return { success: true, consumed_items: [], errors: [] };
+      }
+
+      const version = new Date(count.updated_at).getTime();
+
+      return await this.backflushStepItems(
+        run.production_order_id,
+        run.production_step_id,
+        run.id,
+        (count.good_qty || 0) + (count.scrap_qty || 0),
+        (bomItemId) => this.generateCountBackflushKey(countId, version, bomItemId)
+      );
+    } catch (error: unknown) {
+      console.error('Error backflushing production count:', error);
+      return {
+        success: false,
+        consumed_items: [],
+        errors: [{
+          bom_item_id: '',
+          part_id: '',
+          part_name: '',
+          error: error instanceof Error ? error.message : 'Failed to backflush count',
+        }],
+      };
+    }
+  }
+
+  /**
+   * Backflush the BOM components tied to a completed operation run
+   *
+   * Operator counts were already backflushed when recorded; machine (plc)
+   * counts are backflushed here, per count. Runs without any counts consume
+   * the remaining requirement of every component linked to the run's step.
+   */
+  static async backflushOperationRun(runId: string): Promise<BOMConsumptionResult> {
+    try {
+      const { data: run, error: runError } = await supabase
+        .from('production_operation_runs')
+        .select('id, production_order_id, production_step_id')
+        .eq('id', runId)
+        .single();
+
+      if (runError) throw runError;
+
+      if (!run.production_step_id) {
+        return { success: true, consumed_items: [], errors: [] };
+      }
+
+      const { data: counts, error: countError } = await supabase
+        .from('production_counts')
+        .select('id, source')
+        .eq('operation_run_id', runId);
+
+      if (countError) throw countError;
+
+      if (counts && counts.length > 0) {
+        // Machine-ingested counts are backflushed here rather than at ingest
+        const result: BOMConsumptionResult = { success: true, consumed_items: [], errors: [] };
+
+        for (const count of counts.filter(c => c.source === 'plc')) {
+          const countResult = await this.backflushProductionCount(count.id);
+          result.consumed_items.push(...countResult.consumed_items);
+          result.errors.push(...countResult.errors);
+        }
+
+        result.success = result.errors.length === 0;
+        return result;
+      }
+
+      return await this.backflushStepItems(
+        run.production_order_id,
+        run.production_step_id,
+        run.id,
+        null,
+        (bomItemId) => this.generateRunBackflushKey(runId, bomItemId)
+      );
+    } catch (error: unknown) {
+      console.error('Error backflushing operation run:', error);
+      return {
+        success: false,
+        consumed_items: [],
+        errors: [{
+          bom_item_id: '',
+          part_id: '',
+          part_name: '',
+          error: error instanceof Error ? error.message : 'Failed to backflush operation',
+        }],
+      };
+    }
+  }
+
+  /**
+   * Reverse every backflush consumption posted for a production count
+   *
+   * Used when a count is corrected: the old consumption is reversed through
+   * reverseConsumption (never edited) and the corrected count is backflushed
+   * under a new key.
+   */
+  static async reverseCountBackflush(
+    countId: string,
+    reason: string
+  ): Promise<{ success: boolean; reversedCount: number; error?: string }> {
+    try {
+      const { data: consumptions, error: fetchError } = await supabase
+        .from('material_consumption_log')
+        .select('id')
+        .like('idempotency_key', `BACKFLUSH:COUNT:${countId}:%`)
+        .eq('is_reversal', false);
+
+      if (fetchError) throw fetchError;
+
+      let reversedCount = 0;
+      const errors: string[] = [];
+
+      for (const consumption of consumptions || []) {
+        const result = await this.reverseConsumption({
+          consumption_log_id: consumption.id,
+          reason,
+        });
+
+        if (result.success) {
+          reversedCount++;
+        } else {
+          errors.push(result.error || 'Unknown error');
+        }
+      }
+
+      return {
+        success: errors.length === 0,
+        reversedCount,
+        error: errors.length > 0 ? errors.join('; ') : undefined,
+      };
+    } catch (error: unknown) {
+      console.error('Error reversing count backflush:', error);
+      return {
+        success: false,
+        reversedCount: 0,
+        error: error instanceof Error ? error.message : 'Failed to reverse backflush',
+      };
+    }
+  }
+
+  /**
+   * Consume the step's BOM items for a number of units (null = all remaining)
+   */
+  private static async backflushStepItems(
+    orderId: string,
+    stepId: string,
+    runId: string,
+    units: number | null,
+    keyFor: (bomItemId: string) => string
+  ): Promise<BOMConsumptionResult> {
+    const consumed_items: BOMConsumptionResult['consumed_items'] = [];
+    const errors: BOMConsumptionResult['errors'] = [];
+
+    if (units !== null && units <= 0) {
+      return { success: true, consumed_items, errors };
+    }
+
+    const [{ data: order, error: orderError }, { data: bomItems, error: bomError }] = await Promise.all([
+      supabase
+        .from('production_orders')
+        .select('quantity_ordered')
+        .eq('id', orderId)
+        .single(),
+      supabase
+        .from('bill_of_materials')
+        .select(`
+          id,
+          part_id,
+          quantity_required,
+          quantity_consumed,
+          source_location_id,
+          unit_cost,
+          part:parts(name, part_number)
+        `)
+        .eq('production_order_id', orderId)
+        .eq('production_step_id', stepId)
+        .eq('is_consumed', false),
+    ]);
+
+    if (orderError) throw orderError;
+    if (bomError) throw bomError;
+
+    const orderQty = Math.max(1, order.quantity_ordered || 1);
+
+    for (const item of bomItems || []) {
+      const partName = (item.part as unknown as { name: string })?.name || 'Unknown';
+      const remaining = item.quantity_required - (item.quantity_consumed || 0);
+      const proportional = units === null ? remaining : (item.quantity_required / orderQty) * units;
+      const qtyToConsume = Math.round(Math.min(remaining, proportional) * 10000) / 10000;
+
+      if (qtyToConsume <= 0) continue;
+
+      if (!item.source_location_id) {
+        errors.push({
+          bom_item_id: item.id,
+          part_id: item.part_id,
+          part_name: partName,
+          error: 'No source location specified',
+        });
+        continue;
+      }
+
+      const result = await this.consumeMaterial({
+        production_order_id: orderId,
+        part_id: item.part_id,
+        qty: qtyToConsume,
+        source_location_id: item.source_location_id,
+        method: 'backflush',
+        production_step_id: stepId,
+        operation_run_id: runId,
+        bom_item_id: item.id,
+        unit_cost: item.unit_cost ?? undefined,
+        idempotency_key: keyFor(item.id),
+      });
+
+      if (result.success && result.consumptionLog) {
+        consumed_items.push({
+          bom_item_id: item.id,
+          part_id: item.part_id,
+          part_name: partName,
+          qty_consumed: qtyToConsume,
+          consumption_log_id: result.consumptionLog.id,
+        });
+      } else {
+        errors.push({
+          bom_item_id: item.id,
+          part_id: item.part_id,
+          part_name: partName,
+          error: result.error || 'Unknown error',
+        });
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      consumed_items,
+      errors,
+    };
+  }
+
+  // ========== Finished Goods Receipt ==========
+
+  /**
+   * Receive finished goods from a production order into a stock location
+   *
+   * fn_receive_finished_goods posts an inventory_movements receipt, adjusts
+   * part_inventory through the canonical path, and values the receipt at the
+   * material + labor cost accumulated since the previous receipt.
+   *
+   * Idempotency: the same key returns the existing receipt without posting
+   * stock again.
+   */
+  static async receiveFinishedGoods(input: ReceiveFinishedGoodsInput): Promise<{
+    success: boolean;
+    receipt?: ProductionReceipt;
+    error?: string;
+  }> {
+    try {
+      const { data: receiptId, error: fnError } = await supabase.rpc('fn_receive_finished_goods', {
+        p_production_order_id: input.production_order_id,
+        p_qty: input.qty,
+        p_stock_location_id: input.stock_location_id,
+        p_idempotency_key: input.idempotency_key || null,
+        p_is_final: input.is_final ?? false,
+        p_expected_received_qty: input.expected_received_qty ?? null,
+        p_notes: input.notes || null,
+        p_lot_number: input.lot_number || null,
+      });
+
+      if (fnError) throw fnError;
+
+      const { data: receipt, error: receiptError } = await supabase
+        .from('production_receipts')
+        .select('*')
+        .eq('id', receiptId)
+        .single();
+
+      if (receiptError) throw receiptError;
+
+      return { success: true, receipt: receipt as ProductionReceipt };
+    } catch (error: unknown) {
+      console.error('Error receiving finished goods:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to receive finished goods'
+      };
+    }
+  }
+
+  /**
+   * Get finished-goods receipts for an order
+   */
+  static async getReceipts(orderId: string): Promise<ProductionReceipt[]> {
+    try {
+      const { data, error } = await supabase
+        .from('production_receipts')
+        .select(`
+          *,
+          stock_location:stock_locations(name),
+          received_by_user:profiles(full_name)
+        `)
+        .eq('production_order_id', orderId)
+        .order('received_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(receipt => ({
+        ...receipt,
+        stock_location_name: (receipt.stock_location as unknown as { name: string })?.name,
+        received_by_name: (receipt.received_by_user as unknown as { full_name: string })?.full_name,
+      })) as ProductionReceipt[];
+    } catch (error) {
+      console.error('Error getting production receipts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get accumulated material/labor cost and remaining WIP for an order
+   */
+  static async getOrderCost(orderId: string): Promise<ProductionOrderCost | null> {
+    try {
+      const { data, error } = await supabase
+        .from('vw_production_order_costs')
+        .select('*')
+        .eq('production_order_id', orderId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data as ProductionOrderCost | null;
+    } catch (error) {
+      console.error('Error getting production order cost:', error);
+      return null;
+    }
+  }
+
+  // ========== Lot Genealogy ==========
+
+  /**
+   * Get where a lot entered stock (vendor receipts and finished-goods receipts)
+   */
+  static async getLotSources(lotNumber: string, partId?: string): Promise<LotSource[]> {
+    try {
+      let query = supabase
+        .from('vw_lot_sources')
+        .select('*')
+        .eq('lot_number', lotNumber)
+        .order('received_at');
+
+      if (partId) {
+        query = query.eq('part_id', partId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return (data || []) as LotSource[];
+    } catch (error) {
+      console.error('Error getting lot sources:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Forward trace: every order that consumed the lot, following each order's
+   * output lots downstream, with the customer/ticket the order was built for
+   */
+  static async traceLotForward(lotNumber: string, partId?: string): Promise<LotForwardTraceRow[]> {
+    try {
+      const { data, error } = await supabase.rpc('fn_trace_lot_forward', {
+        p_lot_number: lotNumber,
+        p_part_id: partId || null,
+      });
+
+      if (error) throw error;
+
+      return (data || []) as LotForwardTraceRow[];
+    } catch (error) {
+      console.error('Error tracing lot forward:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Backward trace: component lots consumed by an order, following lots that
+   * were produced in-house back to their producing orders and vendor lots
+   */
+  static async traceOrderBackward(orderId: string): Promise<LotBackwardTraceRow[]> {
+    try {
+      const { data, error } = await supabase.rpc('fn_trace_order_backward', {
+        p_production_order_id: orderId,
+      });
+
+      if (error) throw error;
+
+      return (data || []) as LotBackwardTraceRow[];
+    } catch (error) {
+      console.error('Error tracing order backward:', error);
+      return [];
+    }
+  }
+
   // ========== Query Operations ==========
 
   /**
@@ -492,21 +1026,26 @@ export class MESInventoryService {
 
   /**
    * Get available inventory for a part at a location
+   *
+   * Stock on quality hold, in quarantine or rejected is not available.
    */
   static async getAvailableInventory(
     partId: string,
     locationId: string
-  ): Promise<{ available: number; reserved: number; error?: string }> {
+  ): Promise<{ available: number; reserved: number; held: number; error?: string }> {
     try {
       const { data: inventory, error: invError } = await supabase
-        .from('part_inventory')
-        .select('quantity')
+        .from('vw_inventory_status')
+        .select('on_hand, available_quantity')
         .eq('part_id', partId)
         .eq('stock_location_id', locationId)
         .maybeSingle();
 
       if (invError) throw invError;
 
+      const status = inventory as unknown as { on_hand: number; available_quantity: number } | null;
+      const held = (status?.on_hand || 0) - (status?.available_quantity || 0);
+
       // Get reserved quantity from BOM allocations
       const { data: reservations, error: resError } = await supabase
         .from('bill_of_materials')
@@ -522,14 +1061,16 @@ export class MESInventoryService {
         sum + ((r.quantity_allocated || 0) - (r.quantity_consumed || 0)), 0);
 
       return {
-        available: (inventory?.quantity || 0) - reserved,
+        available: (status?.available_quantity || 0) - reserved,
         reserved,
+        held,
       };
     } catch (error: unknown) {
       console.error('Error getting available inventory:', error);
       return { 
         available: 0, 
         reserved: 0, 
+        held: 0,
         error: error instanceof Error ? error.message : 'An unknown error occurred' 
       };
     }
@@ -631,4 +1172,29 @@ export class MESInventoryService {
   static generateBOMIdempotencyKey(orderId: string, bomItemId: string): string {
     return `BOM:${orderId}:${bomItemId}`;
   }
+
+  /**
+   * Generate an idempotency key for a production count backflush
+   * Versioned by the count's updated_at so a corrected count posts fresh
+   * consumption after the previous one is reversed
+   */
+  static generateCountBackflushKey(countId: string, version: number, bomItemId: string): string {
+    return `BACKFLUSH:COUNT:${countId}:${version}:${bomItemId}`;
+  }
+
+  /**
+   * Generate an idempotency key for an operation-completion backflush
+   */
+  static generateRunBackflushKey(runId: string, bomItemId: string): string {
+    return `BACKFLUSH:RUN:${runId}:${bomItemId}`;
+  }
+
+  /**
+   * Generate an idempotency key for a finished-goods receipt
+   * Keyed on the quantity already received so a repeated click on the same
+   * completion can't post the same units twice
+   */
+  static generateReceiptIdempotencyKey(orderId: string, receivedBefore: number, qty: number): string {
+    return `FG:${orderId}:${receivedBefore}:${qty}`;
+  }
 }
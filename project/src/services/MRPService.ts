@@ -0,0 +1,1127 @@
+/**
+ * MRPService
+ * Material Requirements Planning: nets gross requirements from production
+ * order BOM lines, planned ticket parts, open ticket parts requests and
+ * reorder policies against on-hand stock, BOM allocations, open purchase
+ * orders and open production orders, then plans time-phased purchase and
+ * production orders that a buyer firms with one action.
+ *
+ * ## Netting Rules
+ *
+ * - Parts are planned by low-level code, so dependent demand from planned
+ *   production orders is known before a component is netted
+ * - Free stock = available stock (vw_inventory_status: on-hand less held,
+ *   quarantined and rejected) minus unconsumed BOM allocations
+ * - A part with a released product revision is made; anything else is bought
+ * - Purchase lead time: policy override > vendor receipt history
+ *   (PartsOrderingService.getVendorLeadTimeMetrics) > vendor catalog >
+ *   vendor default > 7 days
+ * - Lot sizing: min/max policies order up to max; otherwise the net
+ *   requirement, raised to MOQ and rounded up to the pack quantity
+ * - A new run cancels the unfirmed planned orders of earlier runs
+ */
+
+import { supabase } from '../lib/supabase';
+import { PartsOrderingService } from './PartsOrderingService';
+import { ManufacturingService } from './ManufacturingService';
+
+// ========== Type Definitions ==========
+
+export type MRPRunStatus = 'running' | 'complete' | 'failed';
+export type MRPPlannedOrderType = 'purchase' | 'production';
+export type MRPPlannedOrderStatus = 'planned' | 'firmed' | 'cancelled';
+export type MRPDemandSource =
+  | 'production_bom'
+  | 'ticket_planned'
+  | 'ticket_request'
+  | 'safety_stock'
+  | 'reorder_min'
+  | 'dependent';
+export type MRPLeadTimeSource =
+  | 'policy'
+  | 'vendor_history'
+  | 'vendor_catalog'
+  | 'vendor_default'
+  | 'default'
+  | 'routing';
+
+export interface MRPRun {
+  id: string;
+  status: MRPRunStatus;
+  horizon_days: number;
+  parts_planned: number;
+  planned_order_count: number;
+  exception_count: number;
+  error_message: string | null;
+  started_at: string;
+  completed_at: string | null;
+  created_by: string | null;
+}
+
+export interface MRPPlannedOrder {
+  id: string;
+  run_id: string;
+  order_type: MRPPlannedOrderType;
+  status: MRPPlannedOrderStatus;
+  part_id: string;
+  part_number: string;
+  part_description: string | null;
+  vendor_id: string | null;
+  vendor_name: string | null;
+  product_revision_id: string | null;
+  quantity: number;
+  net_requirement: number;
+  unit_cost: number | null;
+  need_date: string;
+  release_date: string;
+  lead_days: number;
+  lead_time_source: MRPLeadTimeSource | null;
+  is_past_due: boolean;
+  exception_message: string | null;
+  firmed_purchase_order_id: string | null;
+  firmed_po_number: string | null;
+  firmed_production_order_id: string | null;
+  firmed_order_number: string | null;
+  firmed_at: string | null;
+  peg_count: number;
+}
+
+export interface MRPPeg {
+  id: string;
+  planned_order_id: string;
+  source_type: MRPDemandSource;
+  source_id: string | null;
+  source_reference: string | null;
+  quantity: number;
+  need_date: string;
+}
+
+export interface MRPRunOptions {
+  horizon_days?: number; // Default 90
+}
+
+export interface MRPPlannedOrderFilters {
+  run_id?: string;
+  status?: MRPPlannedOrderStatus;
+  order_type?: MRPPlannedOrderType;
+}
+
+export interface MRPFirmResult {
+  success: boolean;
+  purchase_orders: { id: string; po_number: string; vendor_id: string; line_count: number }[];
+  production_orders: { id: string; order_number: string; planned_order_id: string }[];
+  failed: { planned_order_id: string; error: string }[];
+  error?: string;
+}
+
+// Demand for one part on one date (dates are YYYY-MM-DD)
+interface GrossRequirement {
+  part_id: string;
+  quantity: number;
+  need_date: string;
+  source_type: MRPDemandSource;
+  source_id: string | null;
+  source_reference: string | null;
+}
+
+interface ScheduledReceipt {
+  quantity: number;
+  due_date: string;
+}
+
+interface PlanningPolicy {
+  safety_stock_qty: number;
+  min_qty: number;
+  max_qty: number;
+  lead_days_override: number | null;
+  is_min_max: boolean;
+}
+
+interface SourcingOption {
+  vendor_id: string;
+  lead_days: number;
+  lead_time_source: MRPLeadTimeSource;
+  moq: number;
+  pack_qty: number;
+  unit_cost: number | null;
+}
+
+interface ReleasedStructure {
+  revision_id: string;
+  bom: { component_part_id: string; quantity_per: number; scrap_percent: number; is_phantom: boolean }[];
+  setup_minutes: number;
+  run_minutes_per_unit: number;
+}
+
+interface PlannedOrderDraft {
+  id: string;
+  order_type: MRPPlannedOrderType;
+  part_id: string;
+  vendor_id: string | null;
+  product_revision_id: string | null;
+  quantity: number;
+  net_requirement: number;
+  unit_cost: number | null;
+  need_date: string;
+  release_date: string;
+  lead_days: number;
+  lead_time_source: MRPLeadTimeSource;
+  is_past_due: boolean;
+  exception_message: string | null;
+  pegs: Omit<GrossRequirement, 'part_id'>[];
+}
+
+// ========== MRPService Class ==========
+
+export class MRPService {
+  private static readonly DEFAULT_HORIZON_DAYS = 90;
+  private static readonly DEFAULT_LEAD_DAYS = 7;
+  private static readonly WORKING_MINUTES_PER_DAY = 480;
+  private static readonly MAX_BOM_DEPTH = 10;
+  private static readonly OPEN_ORDER_STATUSES = ['queued', 'in_progress', 'hold'] as const;
+  private static readonly OPEN_TICKET_STATUSES = ['open', 'scheduled', 'in_progress'] as const;
+  private static readonly OPEN_PO_STATUSES = ['draft', 'submitted', 'approved', 'partial'] as const;
+
+  // ========== MRP Run ==========
+
+  /**
+   * Run MRP across all demand sources and store the planned orders
+   *
+   * Demand past the horizon is ignored. Requirements due before today are
+   * planned for today and their planned orders flagged past due.
+   */
+  static async runMRP(options: MRPRunOptions = {}): Promise<{
+    success: boolean;
+    run?: MRPRun;
+    error?: string;
+  }> {
+    const horizonDays = options.horizon_days ?? this.DEFAULT_HORIZON_DAYS;
+    const { data: user } = await supabase.auth.getUser();
+
+    const { data: run, error: runError } = await supabase
+      .from('mrp_runs')
+      .insert({ horizon_days: horizonDays, created_by: user?.user?.id })
+      .select()
+      .single();
+
+    if (runError || !run) {
+      console.error('Error starting MRP run:', runError);
+      return { success: false, error: runError?.message || 'Failed to start MRP run' };
+    }
+
+    try {
+      const today = this.toDateKey(new Date());
+      const horizonEnd = this.addDays(today, horizonDays);
+
+      const [
+        gross,
+        freeStock,
+        receipts,
+        policies,
+        structures,
+        sourcing,
+      ] = await Promise.all([
+        this.getGrossRequirements(today),
+        this.getFreeStock(),
+        this.getScheduledReceipts(today),
+        this.getPlanningPolicies(),
+        this.getReleasedStructures(),
+        this.getSourcingOptions(),
+      ]);
+
+      const levels = this.getLowLevelCodes(structures);
+      const partsToPlan = new Set<string>([...gross.keys(), ...policies.keys()]);
+      const drafts: PlannedOrderDraft[] = [];
+
+      // Top-down: a part's planned production orders add dependent demand
+      // to components, which always sit on a lower level
+      const maxLevel = Math.max(0, ...levels.values());
+      for (let level = 0; level <= maxLevel; level++) {
+        const levelParts = [...partsToPlan].filter(partId => (levels.get(partId) ?? 0) === level);
+
+        for (const partId of levelParts) {
+          const requirements = (gross.get(partId) || []).filter(r => r.need_date <= horizonEnd);
+          const partOrders = this.netPart(
+            partId,
+            requirements,
+            freeStock.get(partId) ?? 0,
+            receipts.get(partId) || [],
+            policies.get(partId),
+            structures.get(partId),
+            sourcing.get(partId),
+            today
+          );
+
+          for (const order of partOrders) {
+            drafts.push(order);
+
+            const structure = order.order_type === 'production' ? structures.get(partId) : undefined;
+            if (!structure) continue;
+
+            for (const dependent of this.explodeDependentDemand(structures, structure, order)) {
+              const list = gross.get(dependent.part_id) || [];
+              list.push(dependent);
+              gross.set(dependent.part_id, list);
+              partsToPlan.add(dependent.part_id);
+            }
+          }
+        }
+      }
+
+      // Unfirmed orders from earlier runs are superseded by this one
+      const { error: cancelError } = await supabase
+        .from('mrp_planned_orders')
+        .update({ status: 'cancelled' })
+        .eq('status', 'planned');
+
+      if (cancelError) throw cancelError;
+
+      if (drafts.length > 0) {
+        const { error: insertError } = await supabase
+          .from('mrp_planned_orders')
+          .insert(drafts.map(({ pegs: _pegs, ...draft }) => ({ ...draft, run_id: run.id })));
+
+        if (insertError) throw insertError;
+
+        const pegRows = drafts.flatMap(draft =>
+          draft.pegs.map(peg => ({ ...peg, planned_order_id: draft.id }))
+        );
+
+        if (pegRows.length > 0) {
+          const { error: pegError } = await supabase
+            .from('mrp_planned_order_pegs')
+            .insert(pegRows);
+
+          if (pegError) throw pegError;
+        }
+      }
+
+      const { data: completed, error: completeError } = await supabase
+        .from('mrp_runs')
+        .update({
+          status: 'complete',
+          parts_planned: partsToPlan.size,
+          planned_order_count: drafts.length,
+          exception_count: drafts.filter(d => d.exception_message).length,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', run.id)
+        .select()
+        .single();
+
+      if (completeError) throw completeError;
+
+      return { success: true, run: completed as MRPRun };
+    } catch (error) {
+      console.error('Error running MRP:', error);
+      const message = error instanceof Error ? error.message : 'MRP run failed';
+
+      await supabase
+        .from('mrp_runs')
+        .update({ status: 'failed', error_message: message, completed_at: new Date().toISOString() })
+        .eq('id', run.id);
+
+      return { success: false, error: message };
+    }
+  }
+
+  // ========== Query Operations ==========
+
+  /**
+   * Get recent MRP runs, newest first
+   */
+  static async getRuns(limit = 20): Promise<MRPRun[]> {
+    try {
+      const { data, error } = await supabase
+        .from('mrp_runs')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return (data || []) as MRPRun[];
+    } catch (error) {
+      console.error('Error fetching MRP runs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get planned orders, ordered by release date
+   */
+  static async getPlannedOrders(filters: MRPPlannedOrderFilters = {}): Promise<MRPPlannedOrder[]> {
+    try {
+      let query = supabase
+        .from('vw_mrp_planned_orders')
+        .select('*')
+        .order('release_date')
+        .order('part_number');
+
+      if (filters.run_id) {
+        query = query.eq('run_id', filters.run_id);
+      }
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+      if (filters.order_type) {
+        query = query.eq('order_type', filters.order_type);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return (data || []) as MRPPlannedOrder[];
+    } catch (error) {
+      console.error('Error fetching planned orders:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the demands a planned order covers
+   */
+  static async getPegs(plannedOrderId: string): Promise<MRPPeg[]> {
+    try {
+      const { data, error } = await supabase
+        .from('mrp_planned_order_pegs')
+        .select('*')
+        .eq('planned_order_id', plannedOrderId)
+        .order('need_date');
+
+      if (error) throw error;
+
+      return (data || []) as MRPPeg[];
+    } catch (error) {
+      console.error('Error fetching planned order pegs:', error);
+      return [];
+    }
+  }
+
+  // ========== Planned Order Actions ==========
+
+  /**
+   * Adjust a planned order before firming; the release date follows the need date
+   */
+  static async updatePlannedOrder(
+    id: string,
+    updates: { quantity?: number; need_date?: string; vendor_id?: string | null }
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: current, error: fetchError } = await supabase
+        .from('mrp_planned_orders')
+        .select('status, need_date, lead_days')
+        .eq('id', id)
+        .single();
+
+      if (fetchError) throw fetchError;
+      if (current.status !== 'planned') {
+        throw new Error('Only planned orders can be changed');
+      }
+
+      const needDate = updates.need_date ?? current.need_date;
+      const releaseDate = this.addDays(needDate, -current.lead_days);
+
+      const { error } = await supabase
+        .from('mrp_planned_orders')
+        .update({
+          ...updates,
+          release_date: releaseDate,
+          is_past_due: releaseDate < this.toDateKey(new Date()),
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating planned order:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update planned order' };
+    }
+  }
+
+  /**
+   * Cancel planned orders so they are not firmed
+   */
+  static async cancelPlannedOrders(ids: string[]): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('mrp_planned_orders')
+        .update({ status: 'cancelled' })
+        .in('id', ids)
+        .eq('status', 'planned');
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error cancelling planned orders:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to cancel planned orders' };
+    }
+  }
+
+  /**
+   * Firm planned orders into real orders
+   *
+   * Purchases become one draft purchase order per vendor. Production orders
+   * are created from the part's released revision (BOM and routing exploded)
+   * with scheduled start/end at the release/need dates.
+   */
+  static async firmPlannedOrders(ids: string[]): Promise<MRPFirmResult> {
+    const result: MRPFirmResult = { success: true, purchase_orders: [], production_orders: [], failed: [] };
+
+    try {
+      const { data, error } = await supabase
+        .from('vw_mrp_planned_orders')
+        .select('*')
+        .in('id', ids)
+        .eq('status', 'planned');
+
+      if (error) throw error;
+
+      const orders = (data || []) as MRPPlannedOrder[];
+      const purchases = orders.filter(o => o.order_type === 'purchase');
+      const productions = orders.filter(o => o.order_type === 'production');
+
+      for (const order of purchases.filter(o => !o.vendor_id)) {
+        result.failed.push({ planned_order_id: order.id, error: `No vendor for ${order.part_number}` });
+      }
+
+      const firmablePurchaseIds = purchases.filter(o => o.vendor_id).map(o => o.id);
+      if (firmablePurchaseIds.length > 0) {
+        const { data: created, error: firmError } = await supabase.rpc('fn_firm_mrp_purchase_orders', {
+          p_planned_order_ids: firmablePurchaseIds,
+        });
+
+        if (firmError) throw firmError;
+
+        result.purchase_orders = ((created || []) as {
+          out_po_id: string;
+          out_po_number: string;
+          out_vendor_id: string;
+          out_line_count: number;
+        }[]).map(row => ({
+          id: row.out_po_id,
+          po_number: row.out_po_number,
+          vendor_id: row.out_vendor_id,
+          line_count: row.out_line_count,
+        }));
+      }
+
+      const { data: user } = await supabase.auth.getUser();
+
+      for (const order of productions) {
+        const created = await ManufacturingService.createOrder({
+          title: `${order.part_number}${order.part_description ? ` - ${order.part_description}` : ''}`,
+          description: `Firmed from MRP planned order (need date ${order.need_date})`,
+          product_id: order.part_id,
+          product_revision_id: order.product_revision_id || undefined,
+          quantity_ordered: Math.ceil(order.quantity),
+          scheduled_start: new Date(`${order.release_date}T00:00:00`).toISOString(),
+          scheduled_end: new Date(`${order.need_date}T00:00:00`).toISOString(),
+        });
+
+        if (!created.success || !created.order) {
+          result.failed.push({ planned_order_id: order.id, error: created.error || 'Failed to create production order' });
+          continue;
+        }
+
+        const { error: linkError } = await supabase
+          .from('mrp_planned_orders')
+          .update({
+            status: 'firmed',
+            firmed_production_order_id: created.order.id,
+            firmed_by: user?.user?.id,
+            firmed_at: new Date().toISOString(),
+          })
+          .eq('id', order.id);
+
+        if (linkError) {
+          result.failed.push({ planned_order_id: order.id, error: linkError.message });
+          continue;
+        }
+
+        result.production_orders.push({
+          id: created.order.id,
+          order_number: created.order.order_number,
+          planned_order_id: order.id,
+        });
+      }
+
+      result.success = result.failed.length === 0;
+      return result;
+    } catch (error) {
+      console.error('Error firming planned orders:', error);
+      return {
+        ...result,
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to firm planned orders',
+      };
+    }
+  }
+
+  // ========== Netting ==========
+
+  /**
+   * Net one part's requirements day by day and plan orders for each shortfall
+   *
+   * The projected balance must stay at or above the policy floor (safety
+   * stock, or min qty for min/max policies). Each shortfall day gets one
+   * planned order pegged to the demands it covers.
+   */
+  private static netPart(
+    partId: string,
+    requirements: GrossRequirement[],
+    freeStock: number,
+    receipts: ScheduledReceipt[],
+    policy: PlanningPolicy | undefined,
+    structure: ReleasedStructure | undefined,
+    sourcing: SourcingOption | undefined,
+    today: string
+  ): PlannedOrderDraft[] {
+    const floor = Math.max(policy?.safety_stock_qty ?? 0, policy?.is_min_max ? policy.min_qty : 0);
+    const orders: PlannedOrderDraft[] = [];
+
+    // Past-due demand and receipts are treated as due today
+    const clamp = (date: string) => (date < today ? today : date);
+    const dates = new Set<string>([today]);
+    requirements.forEach(r => dates.add(clamp(r.need_date)));
+    receipts.forEach(r => dates.add(clamp(r.due_date)));
+
+    let projected = freeStock;
+
+    for (const date of [...dates].sort()) {
+      projected += receipts
+        .filter(r => clamp(r.due_date) === date)
+        .reduce((sum, r) => sum + r.quantity, 0);
+
+      const pegs: Omit<GrossRequirement, 'part_id'>[] = [];
+
+      if (date === today && projected < floor) {
+        // Stock already below the policy floor before any demand
+        pegs.push({
+          quantity: floor - projected,
+          need_date: today,
+          source_type: policy && policy.safety_stock_qty >= floor ? 'safety_stock' : 'reorder_min',
+          source_id: null,
+          source_reference: null,
+        });
+      }
+
+      for (const requirement of requirements.filter(r => clamp(r.need_date) === date)) {
+        projected -= requirement.quantity;
+        const unmet = Math.min(requirement.quantity, floor - projected);
+        if (unmet > 0) {
+          const { part_id: _partId, ...peg } = requirement;
+          pegs.push({ ...peg, quantity: unmet, need_date: date });
+        }
+      }
+
+      if (projected >= floor) continue;
+
+      const netRequirement = floor - projected;
+      const order = this.planOrder(partId, netRequirement, projected, date, policy, structure, sourcing, today);
+      order.pegs = pegs;
+      orders.push(order);
+      projected += order.quantity;
+    }
+
+    return orders;
+  }
+
+  /**
+   * Size and date a planned order covering a net requirement
+   */
+  private static planOrder(
+    partId: string,
+    netRequirement: number,
+    projected: number,
+    needDate: string,
+    policy: PlanningPolicy | undefined,
+    structure: ReleasedStructure | undefined,
+    sourcing: SourcingOption | undefined,
+    today: string
+  ): PlannedOrderDraft {
+    let quantity = netRequirement;
+    if (policy?.is_min_max && policy.max_qty > 0) {
+      quantity = Math.max(quantity, policy.max_qty - projected);
+    }
+
+    const isProduction = !!structure;
+    let leadDays: number;
+    let leadTimeSource: MRPLeadTimeSource;
+    let exception: string | null = null;
+
+    if (structure) {
+      quantity = Math.ceil(quantity);
+      const minutes = structure.setup_minutes + structure.run_minutes_per_unit * quantity;
+      leadDays = Math.max(1, Math.ceil(minutes / this.WORKING_MINUTES_PER_DAY));
+      leadTimeSource = 'routing';
+    } else {
+      const moq = sourcing?.moq ?? 1;
+      const pack = sourcing?.pack_qty ?? 1;
+      quantity = Math.ceil(Math.max(quantity, moq) / pack) * pack;
+
+      if (policy?.lead_days_override != null) {
+        leadDays = policy.lead_days_override;
+        leadTimeSource = 'policy';
+      } else if (sourcing) {
+        leadDays = sourcing.lead_days;
+        leadTimeSource = sourcing.lead_time_source;
+      } else {
+        leadDays = this.DEFAULT_LEAD_DAYS;
+        leadTimeSource = 'default';
+      }
+
+      if (!sourcing) {
+        exception = 'No active vendor for this part';
+      }
+    }
+
+    const releaseDate = this.addDays(needDate, -leadDays);
+    const isPastDue = releaseDate < today;
+    if (isPastDue && !exception) {
+      exception = 'Release date is past; expedite or move the need date';
+    }
+
+    return {
+      id: crypto.randomUUID(),
+      order_type: isProduction ? 'production' : 'purchase',
+      part_id: partId,
+      vendor_id: isProduction ? null : sourcing?.vendor_id ?? null,
+      product_revision_id: structure?.revision_id ?? null,
+      quantity,
+      net_requirement: netRequirement,
+      unit_cost: isProduction ? null : sourcing?.unit_cost ?? null,
+      need_date: needDate,
+      release_date: releaseDate,
+      lead_days: leadDays,
+      lead_time_source: leadTimeSource,
+      is_past_due: isPastDue,
+      exception_message: exception,
+      pegs: [],
+    };
+  }
+
+  /**
+   * Component demand for a planned production order, due on its release date
+   *
+   * Phantom components with a released BOM are exploded through it, the
+   * same way fn_explode_product_revision builds order BOM lines.
+   */
+  private static explodeDependentDemand(
+    structures: Map<string, ReleasedStructure>,
+    structure: ReleasedStructure,
+    order: PlannedOrderDraft
+  ): GrossRequirement[] {
+    const demand: GrossRequirement[] = [];
+
+    const explode = (bom: ReleasedStructure['bom'], parentQty: number, depth: number) => {
+      for (const line of bom) {
+        const quantity = line.quantity_per * (1 + line.scrap_percent / 100) * parentQty;
+        const phantom = line.is_phantom ? structures.get(line.component_part_id) : undefined;
+
+        if (phantom && phantom.bom.length > 0 && depth < this.MAX_BOM_DEPTH) {
+          explode(phantom.bom, quantity, depth + 1);
+          continue;
+        }
+
+        demand.push({
+          part_id: line.component_part_id,
+          quantity,
+          need_date: order.release_date,
+          source_type: 'dependent',
+          source_id: order.id,
+          source_reference: null,
+        });
+      }
+    };
+
+    explode(structure.bom, order.quantity, 1);
+    return demand;
+  }
+
+  /**
+   * Low-level code per part: the deepest level it appears at in any released BOM
+   */
+  private static getLowLevelCodes(structures: Map<string, ReleasedStructure>): Map<string, number> {
+    const levels = new Map<string, number>();
+
+    // Bounded relaxation so a cyclic BOM cannot loop forever
+    for (let pass = 0; pass < this.MAX_BOM_DEPTH; pass++) {
+      let changed = false;
+      for (const [partId, structure] of structures) {
+        const parentLevel = levels.get(partId) ?? 0;
+        for (const line of structure.bom) {
+          if ((levels.get(line.component_part_id) ?? 0) < parentLevel + 1) {
+            levels.set(line.component_part_id, parentLevel + 1);
+            changed = true;
+          }
+        }
+      }
+      if (!changed) break;
+    }
+
+    return levels;
+  }
+
+  // ========== Planning Data ==========
+
+  /**
+   * Independent demand: production order BOM lines, planned ticket parts
+   * and open ticket parts requests
+   */
+  private static async getGrossRequirements(today: string): Promise<Map<string, GrossRequirement[]>> {
+    const [bomResult, plannedResult, requestResult] = await Promise.all([
+      supabase
+        .from('bill_of_materials')
+        .select(`
+          id,
+          part_id,
+          quantity_required,
+          quantity_allocated,
+          quantity_consumed,
+          is_allocated,
+          production_order:production_orders!inner(id, order_number, status, scheduled_start, scheduled_end)
+        `)
+        .eq('is_consumed', false)
+        .in('production_order.status', this.OPEN_ORDER_STATUSES),
+      supabase
+        .from('ticket_parts_planned')
+        .select('id, part_id, quantity, ticket:tickets!inner(id, ticket_number, status, scheduled_date)')
+        .not('part_id', 'is', null)
+        .in('ticket.status', this.OPEN_TICKET_STATUSES),
+      supabase
+        .from('ticket_parts_request_lines')
+        .select(`
+          id,
+          part_id,
+          quantity_requested,
+          quantity_fulfilled,
+          request:ticket_parts_requests!inner(id, status, ticket:tickets(ticket_number))
+        `)
+        .eq('request.status', 'open'),
+    ]);
+
+    if (bomResult.error) throw bomResult.error;
+    if (plannedResult.error) throw plannedResult.error;
+    if (requestResult.error) throw requestResult.error;
+
+    const gross = new Map<string, GrossRequirement[]>();
+    const add = (requirement: GrossRequirement) => {
+      if (requirement.quantity <= 0) return;
+      const list = gross.get(requirement.part_id) || [];
+      list.push(requirement);
+      gross.set(requirement.part_id, list);
+    };
+
+    for (const line of bomResult.data || []) {
+      const order = line.production_order as unknown as {
+        id: string;
+        order_number: string;
+        scheduled_start: string | null;
+        scheduled_end: string | null;
+      };
+      // Allocated stock is already reserved out of free stock
+      const covered = line.is_allocated
+        ? Math.max(line.quantity_allocated || 0, line.quantity_consumed || 0)
+        : line.quantity_consumed || 0;
+      const dueTs = order.scheduled_start || order.scheduled_end;
+
+      add({
+        part_id: line.part_id,
+        quantity: (line.quantity_required || 0) - covered,
+        need_date: dueTs ? this.toDateKey(new Date(dueTs)) : today,
+        source_type: 'production_bom',
+        source_id: line.id,
+        source_reference: order.order_number,
+      });
+    }
+
+    for (const line of plannedResult.data || []) {
+      const ticket = line.ticket as unknown as { ticket_number: string; scheduled_date: string | null };
+
+      add({
+        part_id: line.part_id as string,
+        quantity: Number(line.quantity) || 0,
+        need_date: ticket.scheduled_date ? this.toDateKey(new Date(ticket.scheduled_date)) : today,
+        source_type: 'ticket_planned',
+        source_id: line.id,
+        source_reference: ticket.ticket_number,
+      });
+    }
+
+    for (const line of requestResult.data || []) {
+      const request = line.request as unknown as { ticket: { ticket_number: string } | null };
+
+      // Requests come from technicians on hold; they are needed now
+      add({
+        part_id: line.part_id,
+        quantity: (line.quantity_requested || 0) - (line.quantity_fulfilled || 0),
+        need_date: today,
+        source_type: 'ticket_request',
+        source_id: line.id,
+        source_reference: request.ticket?.ticket_number ?? null,
+      });
+    }
+
+    return gross;
+  }
+
+  /**
+   * Available stock across locations (on-hand less stock on hold, in
+   * quarantine or rejected) less unconsumed BOM allocations
+   */
+  private static async getFreeStock(): Promise<Map<string, number>> {
+    const [inventoryResult, allocationResult] = await Promise.all([
+      supabase.from('vw_inventory_status').select('part_id, available_quantity'),
+      supabase
+        .from('bill_of_materials')
+        .select('part_id, quantity_allocated, quantity_consumed')
+        .eq('is_allocated', true)
+        .eq('is_consumed', false),
+    ]);
+
+    if (inventoryResult.error) throw inventoryResult.error;
+    if (allocationResult.error) throw allocationResult.error;
+
+    const stock = new Map<string, number>();
+    const inventory = (inventoryResult.data || []) as unknown as Array<{ part_id: string; available_quantity: number | null }>;
+    for (const row of inventory) {
+      stock.set(row.part_id, (stock.get(row.part_id) ?? 0) + (row.available_quantity || 0));
+    }
+    for (const row of allocationResult.data || []) {
+      const reserved = (row.quantity_allocated || 0) - (row.quantity_consumed || 0);
+      stock.set(row.part_id, (stock.get(row.part_id) ?? 0) - Math.max(0, reserved));
+    }
+
+    return stock;
+  }
+
+  /**
+   * Open purchase order lines and open production orders for products
+   */
+  private static async getScheduledReceipts(today: string): Promise<Map<string, ScheduledReceipt[]>> {
+    const [poResult, productionResult] = await Promise.all([
+      supabase
+        .from('purchase_order_lines')
+        .select(`
+          part_id,
+          quantity_ordered,
+          quantity_received,
+          expected_date,
+          purchase_order:purchase_orders!inner(status, expected_delivery_date)
+        `)
+        .in('purchase_order.status', this.OPEN_PO_STATUSES),
+      supabase
+        .from('production_orders')
+        .select('product_id, quantity_ordered, quantity_completed, scheduled_end')
+        .in('status', this.OPEN_ORDER_STATUSES)
+        .not('product_id', 'is', null),
+    ]);
+
+    if (poResult.error) throw poResult.error;
+    if (productionResult.error) throw productionResult.error;
+
+    const receipts = new Map<string, ScheduledReceipt[]>();
+    const add = (partId: string, quantity: number, dueDate: string) => {
+      if (quantity <= 0) return;
+      const list = receipts.get(partId) || [];
+      list.push({ quantity, due_date: dueDate });
+      receipts.set(partId, list);
+    };
+
+    for (const line of poResult.data || []) {
+      const po = line.purchase_order as unknown as { expected_delivery_date: string | null };
+      add(
+        line.part_id,
+        (line.quantity_ordered || 0) - (line.quantity_received || 0),
+        line.expected_date || po.expected_delivery_date || today
+      );
+    }
+
+    for (const order of productionResult.data || []) {
+      add(
+        order.product_id as string,
+        (order.quantity_ordered || 0) - (order.quantity_completed || 0),
+        order.scheduled_end ? this.toDateKey(new Date(order.scheduled_end)) : today
+      );
+    }
+
+    return receipts;
+  }
+
+  /**
+   * Active reorder policies rolled up to plant level per part
+   */
+  private static async getPlanningPolicies(): Promise<Map<string, PlanningPolicy>> {
+    const { data, error } = await supabase
+      .from('inventory_reorder_policies')
+      .select('part_id, min_qty, max_qty, safety_stock_qty, lead_days_override, reorder_method')
+      .eq('is_active', true);
+
+    if (error) throw error;
+
+    const policies = new Map<string, PlanningPolicy>();
+    for (const row of data || []) {
+      const current = policies.get(row.part_id) ?? {
+        safety_stock_qty: 0,
+        min_qty: 0,
+        max_qty: 0,
+        lead_days_override: null,
+        is_min_max: false,
+      };
+
+      policies.set(row.part_id, {
+        safety_stock_qty: current.safety_stock_qty + (row.safety_stock_qty || 0),
+        min_qty: current.min_qty + (row.min_qty || 0),
+        max_qty: current.max_qty + (row.max_qty || 0),
+        lead_days_override: row.lead_days_override != null
+          ? Math.max(current.lead_days_override ?? 0, row.lead_days_override)
+          : current.lead_days_override,
+        is_min_max: current.is_min_max || row.reorder_method === 'minmax',
+      });
+    }
+
+    return policies;
+  }
+
+  /**
+   * Released product revisions with their BOM and total routing time
+   */
+  private static async getReleasedStructures(): Promise<Map<string, ReleasedStructure>> {
+    const { data, error } = await supabase
+      .from('product_revisions')
+      .select(`
+        id,
+        part_id,
+        bom:product_bom_lines(component_part_id, quantity_per, scrap_percent, is_phantom),
+        routing:product_routing_operations(setup_minutes, run_minutes_per_unit)
+      `)
+      .eq('status', 'released');
+
+    if (error) throw error;
+
+    const structures = new Map<string, ReleasedStructure>();
+    for (const row of data || []) {
+      const bom = (row.bom as unknown as ReleasedStructure['bom']) || [];
+      const routing = (row.routing as unknown as { setup_minutes: number; run_minutes_per_unit: number }[]) || [];
+      if (bom.length === 0 && routing.length === 0) continue;
+
+      structures.set(row.part_id, {
+        revision_id: row.id,
+        bom: bom.map(line => ({
+          component_part_id: line.component_part_id,
+          quantity_per: Number(line.quantity_per),
+          scrap_percent: Number(line.scrap_percent),
+          is_phantom: line.is_phantom,
+        })),
+        setup_minutes: routing.reduce((sum, op) => sum + Number(op.setup_minutes), 0),
+        run_minutes_per_unit: routing.reduce((sum, op) => sum + Number(op.run_minutes_per_unit), 0),
+      });
+    }
+
+    return structures;
+  }
+
+  /**
+   * Preferred (else most recently purchased) vendor per part with lead time
+   */
+  private static async getSourcingOptions(): Promise<Map<string, SourcingOption>> {
+    const [mappingResult, metrics] = await Promise.all([
+      supabase
+        .from('vendor_part_mappings')
+        .select(`
+          vendor_id,
+          part_id,
+          lead_time_days,
+          minimum_order_qty,
+          pack_qty,
+          is_preferred_vendor,
+          is_discontinued,
+          last_cost,
+          standard_cost,
+          last_purchase_date,
+          vendor:vendors!inner(standard_lead_time_days, is_active)
+        `),
+      PartsOrderingService.getVendorLeadTimeMetrics().catch(() => []),
+    ]);
+
+    if (mappingResult.error) throw mappingResult.error;
+
+    // Observed lead time only counts once the vendor has receipts
+    const historyLeadDays = new Map<string, number>();
+    for (const metric of metrics) {
+      const avgLeadDays = metric.avgLeadDays ?? 0;
+      if (metric.receivedPoLines > 0 && avgLeadDays > 0) {
+        historyLeadDays.set(metric.vendorId, Math.ceil(avgLeadDays));
+      }
+    }
+
+    type Mapping = {
+      vendor_id: string;
+      part_id: string;
+      lead_time_days: number | null;
+      minimum_order_qty: number | null;
+      pack_qty: number | null;
+      is_preferred_vendor: boolean | null;
+      is_discontinued: boolean | null;
+      last_cost: number | null;
+      standard_cost: number | null;
+      last_purchase_date: string | null;
+      vendor: { standard_lead_time_days: number | null; is_active: boolean | null };
+    };
+
+    const candidates = ((mappingResult.data || []) as unknown as Mapping[])
+      .filter(m => !m.is_discontinued && m.vendor.is_active !== false)
+      .sort((a, b) => {
+        if (!!a.is_preferred_vendor !== !!b.is_preferred_vendor) return a.is_preferred_vendor ? -1 : 1;
+        return (b.last_purchase_date || '').localeCompare(a.last_purchase_date || '');
+      });
+
+    const sourcing = new Map<string, SourcingOption>();
+    for (const mapping of candidates) {
+      if (sourcing.has(mapping.part_id)) continue;
+
+      let leadDays = this.DEFAULT_LEAD_DAYS;
+      let leadTimeSource: MRPLeadTimeSource = 'default';
+      if (historyLeadDays.has(mapping.vendor_id)) {
+        leadDays = historyLeadDays.get(mapping.vendor_id) as number;
+        leadTimeSource = 'vendor_history';
+      } else if (mapping.lead_time_days != null) {
+        leadDays = mapping.lead_time_days;
+        leadTimeSource = 'vendor_catalog';
+      } else if (mapping.vendor.standard_lead_time_days != null) {
+        leadDays = mapping.vendor.standard_lead_time_days;
+        leadTimeSource = 'vendor_default';
+      }
+
+      sourcing.set(mapping.part_id, {
+        vendor_id: mapping.vendor_id,
+        lead_days: leadDays,
+        lead_time_source: leadTimeSource,
+        moq: Math.max(1, mapping.minimum_order_qty || 1),
+        pack_qty: Math.max(1, mapping.pack_qty || 1),
+        unit_cost: mapping.last_cost ?? mapping.standard_cost ?? null,
+      });
+    }
+
+    return sourcing;
+  }
+
+  // ========== Date Helpers ==========
+
+  // Local calendar date as YYYY-MM-DD
+  private static toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  private static addDays(dateKey: string, days: number): string {
+    const date = new Date(`${dateKey}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * MachineIntegrationService
+ * Manages machine/PLC tag mappings and reads the machine signal log.
+ *
+ * Signals arrive through the machine-ingest edge function, which calls
+ * fn_ingest_machine_signal per signal:
+ * - state tags open/close equipment state events (downtime follows by trigger)
+ * - cycle / good_count / scrap_count tags record production counts against
+ *   the operation running at the signal time
+ */
+
+import { supabase } from '../lib/supabase';
+
+// ========== Type Definitions ==========
+
+export type MachineSignalType = 'state' | 'cycle' | 'good_count' | 'scrap_count';
+
+export type MachineSignalStatus =
+  | 'processed'
+  | 'unchanged'
+  | 'stale'
+  | 'unmapped'
+  | 'no_active_run'
+  | 'rejected';
+
+export interface MachineTagMapping {
+  id: string;
+  source: string;
+  tag: string;
+  signal_type: MachineSignalType;
+  work_center_id: string;
+  equipment_asset_id: string | null;
+  state_map: Record<string, string>;
+  units_per_signal: number;
+  is_cumulative: boolean;
+  last_value: number | null;
+  last_signal_ts: string | null;
+  last_received_at: string | null;
+  description: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  // Joined fields
+  work_center_name?: string;
+  equipment_name?: string;
+}
+
+export interface MachineTagMappingInput {
+  source: string;
+  tag: string;
+  signal_type: MachineSignalType;
+  work_center_id: string;
+  equipment_asset_id?: string | null;
+  state_map?: Record<string, string>;
+  units_per_signal?: number;
+  is_cumulative?: boolean;
+  description?: string;
+  is_active?: boolean;
+}
+
+export interface MachineSignalLogEntry {
+  id: string;
+  source: string;
+  tag: string;
+  mapping_id: string | null;
+  dedupe_key: string;
+  raw_value: string | null;
+  source_ts: string;
+  received_at: string;
+  status: MachineSignalStatus;
+  production_count_id: string | null;
+  equipment_state_event_id: string | null;
+  message: string | null;
+}
+
+export interface MachineSignalLogFilters {
+  mapping_id?: string;
+  status?: MachineSignalStatus;
+  limit?: number;
+}
+
+export interface UnmappedTag {
+  source: string;
+  tag: string;
+  last_seen: string;
+  signal_count: number;
+}
+
+// ========== Service Class ==========
+
+export class MachineIntegrationService {
+  private static readonly EQUIPMENT_STATES = ['RUN', 'STOP', 'IDLE', 'CHANGEOVER', 'PLANNED_STOP'];
+
+  // ========== Tag Mappings ==========
+
+  /**
+   * Get all tag mappings
+   */
+  static async getMappings(): Promise<MachineTagMapping[]> {
+    try {
+      const { data, error } = await supabase
+        .from('machine_tag_mappings')
+        .select(`
+          *,
+          work_center:work_centers(name),
+          equipment:equipment_assets(name)
+        `)
+        .order('source')
+        .order('tag');
+
+      if (error) throw error;
+
+      return (data || []).map((m) => ({
+        ...m,
+        work_center_name: (m.work_center as unknown as { name: string } | null)?.name,
+        equipment_name: (m.equipment as unknown as { name: string } | null)?.name,
+      })) as MachineTagMapping[];
+    } catch (error) {
+      console.error('Error fetching machine tag mappings:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a tag mapping
+   */
+  static async createMapping(
+    input: MachineTagMappingInput
+  ): Promise<{ success: boolean; mapping?: MachineTagMapping; error?: string }> {
+    try {
+      const validationError = this.validateMapping(input);
+      if (validationError) {
+        return { success: false, error: validationError };
+      }
+
+      const { data: user } = await supabase.auth.getUser();
+
+      const { data, error } = await supabase
+        .from('machine_tag_mappings')
+        .insert({
+          source: input.source.trim().toLowerCase(),
+          tag: input.tag.trim(),
+          signal_type: input.signal_type,
+          work_center_id: input.work_center_id,
+          equipment_asset_id: input.equipment_asset_id || null,
+          state_map: input.state_map || {},
+          units_per_signal: input.units_per_signal ?? 1,
+          is_cumulative: input.is_cumulative ?? false,
+          description: input.description || null,
+          is_active: input.is_active ?? true,
+          created_by: user?.user?.id,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return { success: false, error: `Tag ${input.tag} is already mapped for ${input.source}` };
+        }
+        throw error;
+      }
+
+      return { success: true, mapping: data as MachineTagMapping };
+    } catch (error) {
+      console.error('Error creating machine tag mapping:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create mapping' };
+    }
+  }
+
+  /**
+   * Update a tag mapping
+   * Changing the counter mode clears the last reading so the next cumulative
+   * value starts a fresh baseline
+   */
+  static async updateMapping(
+    id: string,
+    input: MachineTagMappingInput
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const validationError = this.validateMapping(input);
+      if (validationError) {
+        return { success: false, error: validationError };
+      }
+
+      const { data: existing, error: fetchError } = await supabase
+        .from('machine_tag_mappings')
+        .select('is_cumulative, signal_type')
+        .eq('id', id)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const resetCounter = existing.is_cumulative !== (input.is_cumulative ?? false) ||
+        existing.signal_type !== input.signal_type;
+
+      const { error } = await supabase
+        .from('machine_tag_mappings')
+        .update({
+          source: input.source.trim().toLowerCase(),
+          tag: input.tag.trim(),
+          signal_type: input.signal_type,
+          work_center_id: input.work_center_id,
+          equipment_asset_id: input.equipment_asset_id || null,
+          state_map: input.state_map || {},
+          units_per_signal: input.units_per_signal ?? 1,
+          is_cumulative: input.is_cumulative ?? false,
+          description: input.description || null,
+          is_active: input.is_active ?? true,
+          ...(resetCounter ? { last_value: null, last_signal_ts: null } : {}),
+        })
+        .eq('id', id);
+
+      if (error) {
+        if (error.code === '23505') {
+          return { success: false, error: `Tag ${input.tag} is already mapped for ${input.source}` };
+        }
+        throw error;
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating machine tag mapping:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update mapping' };
+    }
+  }
+
+  /**
+   * Delete a tag mapping (its signal log is kept)
+   */
+  static async deleteMapping(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('machine_tag_mappings')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting machine tag mapping:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to delete mapping' };
+    }
+  }
+
+  // ========== Signal Log ==========
+
+  /**
+   * Get recent ingested signals
+   */
+  static async getSignalLog(filters: MachineSignalLogFilters = {}): Promise<MachineSignalLogEntry[]> {
+    try {
+      let query = supabase
+        .from('machine_signal_log')
+        .select('*')
+        .order('received_at', { ascending: false })
+        .limit(filters.limit || 100);
+
+      if (filters.mapping_id) {
+        query = query.eq('mapping_id', filters.mapping_id);
+      }
+
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return (data || []) as MachineSignalLogEntry[];
+    } catch (error) {
+      console.error('Error fetching machine signal log:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get tags that machines are sending but that have no active mapping
+   */
+  static async getUnmappedTags(limit = 500): Promise<UnmappedTag[]> {
+    try {
+      const { data, error } = await supabase
+        .from('machine_signal_log')
+        .select('source, tag, received_at')
+        .eq('status', 'unmapped')
+        .order('received_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      const tags = new Map<string, UnmappedTag>();
+      for (const row of data || []) {
+        const key = `${row.source}|${row.tag}`;
+        const existing = tags.get(key);
+        if (existing) {
+          existing.signal_count++;
+        } else {
+          tags.set(key, { source: row.source, tag: row.tag, last_seen: row.received_at, signal_count: 1 });
+        }
+      }
+
+      return Array.from(tags.values());
+    } catch (error) {
+      console.error('Error fetching unmapped machine tags:', error);
+      return [];
+    }
+  }
+
+  // ========== Helpers ==========
+
+  /**
+   * Validate a mapping before save
+   */
+  private static validateMapping(input: MachineTagMappingInput): string | null {
+    if (!input.source?.trim() || !input.tag?.trim()) {
+      return 'Source and tag are required';
+    }
+
+    if (!input.work_center_id) {
+      return 'Work center is required';
+    }
+
+    if (input.signal_type === 'state') {
+      if (!input.equipment_asset_id) {
+        return 'State tags must be mapped to an equipment asset';
+      }
+
+      const invalid = Object.values(input.state_map || {}).filter(
+        (state) => !this.EQUIPMENT_STATES.includes(state)
+      );
+      if (invalid.length > 0) {
+        return `Unknown equipment state: ${invalid.join(', ')}`;
+      }
+    } else if ((input.units_per_signal ?? 1) <= 0) {
+      return 'Units per signal must be greater than zero';
+    }
+
+    return null;
+  }
+}
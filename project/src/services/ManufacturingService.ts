@@ -6,7 +6,8 @@
 
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/database.types';
-import { MESInventoryService } from './MESInventoryService';
+import { MESInventoryService, ProductionReceipt } from './MESInventoryService';
+import { ProductMasterService, ExplosionResult } from './ProductMasterService';
 
 // ========== Type Definitions ==========
 
@@ -19,6 +20,8 @@ type TimeLogRow = Database['public']['Tables']['production_time_logs']['Row'];
 type _WIPTrackingRow = Database['public']['Tables']['wip_tracking']['Row'];
 
 export interface ProductionOrder extends ProductionOrderRow {
+  product_id?: string | null;
+  product_revision_id?: string | null;
   customer?: { id: string; name: string } | null;
   assigned_user?: { id: string; full_name: string } | null;
   ticket?: { id: string; ticket_number: string } | null;
@@ -37,6 +40,7 @@ export interface BOMItem extends BOMItemRow {
 
 export interface WorkCenter extends WorkCenterRow {
   default_technician?: { id: string; full_name: string } | null;
+  shift_calendar_id?: string | null;
 }
 
 export interface MaterialMoveRequest extends MaterialMoveRequestRow {
@@ -91,6 +95,8 @@ export interface CreateProductionOrderInput {
   scheduled_end?: string;
   quantity_ordered?: number;
   assigned_to?: string;
+  product_id?: string;
+  product_revision_id?: string;
 }
 
 export interface CreateProductionStepInput {
@@ -356,15 +362,35 @@ export class ManufacturingService {
 
   /**
    * Create a new production order
+   *
+   * When a product is given, the order is pinned to its released revision
+   * (unless a revision is passed explicitly) and the revision's BOM and
+   * routing are exploded into order BOM lines and steps, scaled by
+   * quantity_ordered.
    */
-  static async createOrder(input: CreateProductionOrderInput): Promise<{ success: boolean; order?: ProductionOrder; error?: string }> {
+  static async createOrder(input: CreateProductionOrderInput): Promise<{
+    success: boolean;
+    order?: ProductionOrder;
+    explosion?: ExplosionResult;
+    error?: string;
+  }> {
     try {
       const { data: user } = await supabase.auth.getUser();
 
+      const orderInput = { ...input };
+
+      if (orderInput.product_id && !orderInput.product_revision_id) {
+        const revision = await ProductMasterService.getReleasedRevision(orderInput.product_id);
+        if (!revision) {
+          throw new Error('Product has no released revision');
+        }
+        orderInput.product_revision_id = revision.id;
+      }
+
       const { data, error } = await supabase
         .from('production_orders')
         .insert({
-          ...input,
+          ...orderInput,
           created_by: user?.user?.id,
         })
         .select()
@@ -372,6 +398,18 @@ export class ManufacturingService {
 
       if (error) throw error;
 
+      if (orderInput.product_revision_id) {
+        const explodeResult = await ProductMasterService.explodeIntoOrder(data.id);
+
+        if (!explodeResult.success) {
+          // Don't leave a half-built order behind
+          await supabase.from('production_orders').delete().eq('id', data.id);
+          throw new Error(explodeResult.error || 'Failed to explode product revision');
+        }
+
+        return { success: true, order: data as ProductionOrder, explosion: explodeResult.result };
+      }
+
       return { success: true, order: data as ProductionOrder };
     } catch (error: unknown) {
       console.error('Error creating production order:', error);
@@ -467,18 +505,48 @@ export class ManufacturingService {
    *
    * This method:
    * 1. Consumes all BOM materials (with idempotency protection)
-   * 2. Updates the order status to complete
-   * 3. Sets the actual_end timestamp
+   * 2. Receives the remaining finished goods into receiptLocationId
+   *    (orders built for a product only)
+   * 3. Updates the order status to complete
+   * 4. Sets the actual_end timestamp
    */
-  static async completeOrder(id: string, quantity?: number): Promise<{
+  static async completeOrder(
+    id: string,
+    quantity?: number,
+    receiptLocationId?: string,
+    lotNumber?: string
+  ): Promise<{
     success: boolean;
     error?: string;
+    receipt?: ProductionReceipt;
     consumptionResult?: {
       consumed_items: { part_name: string; qty_consumed: number }[];
       errors: { part_name: string; error: string }[];
     };
   }> {
     try {
+      // Work out what is left to receive before touching inventory
+      const { data: order, error: orderError } = await supabase
+        .from('production_orders')
+        .select('id, product_id, quantity_ordered')
+        .eq('id', id)
+        .single();
+
+      if (orderError) throw orderError;
+
+      let receivedBefore = 0;
+      let qtyToReceive = 0;
+
+      if (order.product_id) {
+        const cost = await MESInventoryService.getOrderCost(id);
+        receivedBefore = cost?.received_qty ?? 0;
+        qtyToReceive = (quantity ?? order.quantity_ordered ?? 1) - receivedBefore;
+
+        if (qtyToReceive > 0 && !receiptLocationId) {
+          return { success: false, error: 'Select a stock location to receive the finished goods into' };
+        }
+      }
+
       // First, consume all BOM materials
       // This is idempotent - if already consumed, will return existing logs
       const consumptionResult = await MESInventoryService.consumeBOMForOrder(id);
@@ -512,6 +580,25 @@ export class ManufacturingService {
         console.warn('Partial BOM consumption:', consumptionResult.errors);
       }
 
+      // Receive finished goods after consumption so material cost is included
+      let receipt: ProductionReceipt | undefined;
+      if (qtyToReceive > 0 && receiptLocationId) {
+        const receiptResult = await MESInventoryService.receiveFinishedGoods({
+          production_order_id: id,
+          qty: qtyToReceive,
+          stock_location_id: receiptLocationId,
+          is_final: true,
+          expected_received_qty: receivedBefore,
+          idempotency_key: MESInventoryService.generateReceiptIdempotencyKey(id, receivedBefore, qtyToReceive),
+          lot_number: lotNumber,
+        });
+
+        if (!receiptResult.success) {
+          return { success: false, error: receiptResult.error };
+        }
+        receipt = receiptResult.receipt;
+      }
+
       // Update the order status
       const updates: Partial<ProductionOrderRow> = {
         status: 'complete',
@@ -530,6 +617,7 @@ export class ManufacturingService {
 
       return {
         success: true,
+        receipt,
         consumptionResult: {
           consumed_items: consumptionResult.consumed_items.map(i => ({
             part_name: i.part_name,
@@ -550,6 +638,31 @@ export class ManufacturingService {
     }
   }
 
+  /**
+   * Report a partial completion and receive the good units into stock
+   *
+   * receivedBefore is the received quantity the caller was looking at; it
+   * forms the idempotency key and rejects posts made from a stale screen.
+   */
+  static async reportCompletion(
+    orderId: string,
+    qty: number,
+    receiptLocationId: string,
+    receivedBefore: number,
+    notes?: string,
+    lotNumber?: string
+  ): Promise<{ success: boolean; receipt?: ProductionReceipt; error?: string }> {
+    return MESInventoryService.receiveFinishedGoods({
+      production_order_id: orderId,
+      qty,
+      stock_location_id: receiptLocationId,
+      expected_received_qty: receivedBefore,
+      idempotency_key: MESInventoryService.generateReceiptIdempotencyKey(orderId, receivedBefore, qty),
+      notes,
+      lot_number: lotNumber,
+    });
+  }
+
   // ========== Production Steps ==========
 
   /**
@@ -4,13 +4,16 @@
  * and production count tracking.
  *
  * OEE Formulas:
- * - Availability = (PlannedTime - Downtime) / PlannedTime
+ * - PlannedTime = shift time - breaks - planned downtime windows (ShiftCalendarService)
+ * - Availability = (PlannedTime - UnplannedDowntime) / PlannedTime
  * - Performance = (IdealCycleTime × TotalCount) / RunTime
  * - Quality = GoodCount / TotalCount
  * - OEE = A × P × Q
  */
 
 import { supabase } from '../lib/supabase';
+import { ShiftCalendarService } from './ShiftCalendarService';
+import { MESInventoryService, type BOMConsumptionResult } from './MESInventoryService';
 
 // ========== Type Definitions ==========
 
@@ -93,6 +96,13 @@ export interface RecordCountInput {
   notes?: string;
 }
 
+export interface CorrectCountInput {
+  good_qty: number;
+  scrap_qty?: number;
+  rework_qty?: number;
+  reason: string;
+}
+
 export interface ProductionCount {
   id: string;
   operation_run_id: string;
@@ -108,7 +118,9 @@ export interface ProductionCount {
   rework_reason_code_id: string | null;
   recorded_by: string | null;
   notes: string | null;
+  source: string | null;
   created_at: string;
+  updated_at: string;
 }
 
 export interface OEEFilters {
@@ -154,8 +166,9 @@ export class OEEService {
       const cycleTimeInfo = await this.getIdealCycleTime(workCenterId);
       const idealCycleTime = cycleTimeInfo.cycle_time_seconds;
 
-      // Calculate actual run time (planned time - downtime)
-      const actualRunTime = Math.max(0, plannedTime - downtime.total);
+      // Calculate actual run time. Planned stops are already outside planned time,
+      // so only unplanned downtime reduces it.
+      const actualRunTime = Math.max(0, plannedTime - downtime.unplanned);
 
       // Calculate actual cycle time if we have counts and run time
       const actualCycleTime = totalCount > 0 && actualRunTime > 0
@@ -164,7 +177,7 @@ export class OEEService {
 
       // Calculate OEE components
       const availability = plannedTime > 0
-        ? (plannedTime - downtime.total) / plannedTime
+        ? (plannedTime - downtime.unplanned) / plannedTime
         : 0;
 
       const performance = actualRunTime > 0 && idealCycleTime
@@ -286,7 +299,7 @@ export class OEEService {
       // OPTIMIZED: Batch-fetch all data first, then process locally
       if (granularity === 'daily') {
         // Batch fetch all counts for the entire date range
-        const [allCounts, allDowntime, cycleTimeInfo] = await Promise.all([
+        const [allCounts, allDowntime, cycleTimeInfo, workingWindows] = await Promise.all([
           supabase
             .from('production_counts')
             .select('count_timestamp, total_qty, good_qty, scrap_qty, rework_qty')
@@ -301,11 +314,13 @@ export class OEEService {
             .gte('start_ts', fromDate)
             .lte('start_ts', toDate),
           this.getIdealCycleTime(workCenterId),
+          ShiftCalendarService.getWorkingWindows([workCenterId], new Date(fromDate).getTime(), new Date(toDate).getTime()),
         ]);
 
         const counts = allCounts.data || [];
         const downtimeEvents = allDowntime.data || [];
         const idealCycleTime = cycleTimeInfo.cycle_time_seconds;
+        const windows = workingWindows.get(workCenterId) || [];
 
         // Group data by day
         const from = new Date(fromDate);
@@ -337,17 +352,16 @@ export class OEEService {
           const totalCount = dayCounts.reduce((sum, c) => sum + (c.total_qty ?? 0), 0);
           const goodCount = dayCounts.reduce((sum, c) => sum + (c.good_qty ?? 0), 0);
           const totalDowntime = dayDowntime.reduce((sum, d) => sum + (d.duration_seconds ?? 0), 0);
+          const unplannedDowntime = dayDowntime
+            .filter(d => !d.is_planned)
+            .reduce((sum, d) => sum + (d.duration_seconds ?? 0), 0);
 
-          // Get work center capacity for accurate planned time
-          const plannedTime = await this.getPlannedProductionTime(
-            workCenterId,
-            dayStart.toISOString(),
-            dayEnd.toISOString()
-          );
-          const actualRunTime = Math.max(0, plannedTime - totalDowntime);
+          // Planned time for this day from the shift calendar
+          const plannedTime = ShiftCalendarService.sumWindowSeconds(windows, dayStartMs, dayEndMs + 1);
+          const actualRunTime = Math.max(0, plannedTime - unplannedDowntime);
 
           const availability = plannedTime > 0
-            ? (plannedTime - totalDowntime) / plannedTime
+            ? (plannedTime - unplannedDowntime) / plannedTime
             : 0;
 
           const performance = actualRunTime > 0 && idealCycleTime
@@ -523,6 +537,7 @@ export class OEEService {
   static async recordProductionCount(input: RecordCountInput): Promise<{
     success: boolean;
     count?: ProductionCount;
+    backflush?: BOMConsumptionResult;
     error?: string;
   }> {
     try {
@@ -562,13 +577,87 @@ export class OEEService {
 
       if (error) throw error;
 
-      return { success: true, count: data as ProductionCount };
+      // Backflush the operation's components; the count stands even if
+      // material can't be issued, the caller surfaces backflush errors
+      const backflush = await MESInventoryService.backflushProductionCount(data.id);
+
+      return { success: true, count: data as ProductionCount, backflush };
     } catch (error) {
       console.error('Error recording production count:', error);
       return { success: false, error: error instanceof Error ? error.message : 'Failed to record count' };
     }
   }
 
+  /**
+   * Correct a recorded production count
+   * Reverses the count's backflushed material, updates the quantities and
+   * backflushes the corrected good + scrap units
+   */
+  static async correctProductionCount(
+    countId: string,
+    input: CorrectCountInput
+  ): Promise<{
+    success: boolean;
+    count?: ProductionCount;
+    backflush?: BOMConsumptionResult;
+    error?: string;
+  }> {
+    try {
+      if (!input.reason?.trim()) {
+        return { success: false, error: 'A reason is required to correct a count' };
+      }
+
+      const scrapQty = input.scrap_qty ?? 0;
+      const reworkQty = input.rework_qty ?? 0;
+
+      if (input.good_qty < 0 || scrapQty < 0 || reworkQty < 0) {
+        return { success: false, error: 'Quantities cannot be negative' };
+      }
+
+      const reversal = await MESInventoryService.reverseCountBackflush(
+        countId,
+        `Count correction: ${input.reason.trim()}`
+      );
+
+      if (!reversal.success) {
+        return { success: false, error: reversal.error || 'Failed to reverse backflushed material' };
+      }
+
+      const { data: existing, error: fetchError } = await supabase
+        .from('production_counts')
+        .select('notes')
+        .eq('id', countId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const correctionNote = `Corrected: ${input.reason.trim()}`;
+
+      const { data, error } = await supabase
+        .from('production_counts')
+        .update({
+          total_qty: input.good_qty + scrapQty + reworkQty,
+          good_qty: input.good_qty,
+          scrap_qty: scrapQty,
+          rework_qty: reworkQty,
+          notes: existing.notes ? `${existing.notes}\n${correctionNote}` : correctionNote,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', countId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const backflush = await MESInventoryService.backflushProductionCount(countId);
+
+      return { success: true, count: data as ProductionCount, backflush };
+    } catch (error) {
+      console.error('Error correcting production count:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to correct count' };
+    }
+  }
+
   /**
    * Get production counts for a work center/period
    */
@@ -688,68 +777,9 @@ export class OEEService {
     fromDate: string,
     toDate: string
   ): Promise<number> {
-    const from = new Date(fromDate);
-    const to = new Date(toDate);
-    const diffMs = to.getTime() - from.getTime();
-
-    // Fetch work center capacity settings (hours_per_day, days_per_week)
-    let hoursPerDay = this.DEFAULT_SHIFT_HOURS;
-    let daysPerWeek = 5;
-
-    try {
-      const { data: wc } = await supabase
-        .from('work_centers')
-        .select('hours_per_day, days_per_week')
-        .eq('id', workCenterId)
-        .single();
-
-      if (wc) {
-        hoursPerDay = wc.hours_per_day ?? this.DEFAULT_SHIFT_HOURS;
-        daysPerWeek = wc.days_per_week ?? 5;
-      }
-    } catch {
-      // Use defaults if fetch fails
-    }
-
-    // For same-day calculations (shift-level), use actual hours
-    const diffHours = diffMs / (1000 * 60 * 60);
-    if (diffHours <= 24) {
-      // Same day or shift - return actual hours (capped at work center hours)
-      const actualHours = Math.min(diffHours, hoursPerDay);
-      return actualHours * 60 * 60; // Return in seconds
-    }
-
-    // For multi-day calculations, use work center capacity settings
-    // Calculate working days based on days_per_week configuration
-    let workingDays = 0;
-    const current = new Date(from);
-
-    // Build set of working days (0=Sunday, 6=Saturday)
-    // For 5-day week: Mon-Fri (1-5)
-    // For 6-day week: Mon-Sat (1-6)
-    // For 7-day week: all days
-    const workDaysSet = new Set<number>();
-    if (daysPerWeek >= 7) {
-      for (let i = 0; i < 7; i++) workDaysSet.add(i);
-    } else if (daysPerWeek >= 6) {
-      for (let i = 1; i <= 6; i++) workDaysSet.add(i); // Mon-Sat
-    } else {
-      for (let i = 1; i <= Math.min(daysPerWeek, 5); i++) workDaysSet.add(i); // Mon-Fri (or less)
-    }
-
-    while (current <= to) {
-      const dayOfWeek = current.getDay();
-      if (workDaysSet.has(dayOfWeek)) {
-        workingDays++;
-      }
-      current.setDate(current.getDate() + 1);
-    }
-
-    // Ensure at least 1 working day
-    workingDays = Math.max(1, workingDays);
-    const totalHours = workingDays * hoursPerDay;
-
-    return totalHours * 60 * 60; // Return in seconds
+    // Shift time minus breaks and planned downtime, falling back to
+    // hours_per_day/days_per_week when the work center has no shift calendar
+    return ShiftCalendarService.getPlannedProductionSeconds(workCenterId, fromDate, toDate);
   }
 
   private static async getDowntimeForPeriod(
@@ -793,8 +823,11 @@ export class OEEService {
     date: string,
     shiftName?: string
   ): Promise<{ start: string; end: string }> {
-    // Get shift calendar for work center
-    // For now, return defaults based on shift name
+    // Shift from the work center's calendar
+    const bounds = await ShiftCalendarService.getShiftBounds(workCenterId, date, shiftName);
+    if (bounds) return bounds;
+
+    // No calendar shift: defaults based on shift name
     const d = new Date(date);
 
     if (shiftName === '1st Shift') {
@@ -0,0 +1,403 @@
+/**
+ * OfflineSyncService
+ *
+ * Offline mode for the technician app:
+ * - Read-through cache (IndexedDB) of assigned tickets with their customer and
+ *   equipment, ticket details, truck inventory and timer state, served when
+ *   the network is unavailable
+ * - Queue of technician actions (timer start/stop, updates, parts used,
+ *   photos, holds, customer signatures, job form answers) recorded with the
+ *   time they happened on the device
+ * - In-order replay on reconnect through fn_apply_technician_action, which is
+ *   idempotent per client action id and resolves conflicts with changes made
+ *   on the server in the meantime; rejected actions are kept as conflicts for
+ *   the technician to review
+ */
+
+import { supabase } from '../lib/supabase';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type TechnicianActionType =
+  | 'START_WORK'
+  | 'END_WORK'
+  | 'ADD_UPDATE'
+  | 'ADD_PART'
+  | 'ADD_PHOTO'
+  | 'HOLD_FOR_PARTS'
+  | 'REPORT_ISSUE'
+  | 'CAPTURE_SIGNATURE'
+  | 'SAVE_FORM_ANSWERS';
+
+export interface TechnicianActionInput {
+  action_type: TechnicianActionType;
+  ticket_id: string;
+  ticket_number?: string;
+  label: string;
+  payload?: Record<string, unknown>;
+  photo?: Blob & { name?: string };
+}
+
+export interface QueuedAction {
+  id: string; // client action id, sent to the server for idempotent replay
+  sequence: number;
+  user_id: string;
+  action_type: TechnicianActionType;
+  ticket_id: string;
+  ticket_number?: string;
+  label: string;
+  payload: Record<string, unknown>;
+  photo?: Blob;
+  photo_name?: string;
+  occurred_at: string;
+  attempts: number;
+  error?: string | null; // set when the server rejected the request; blocks the queue
+}
+
+export interface ActionResult {
+  success: boolean;
+  queued?: boolean;
+  duplicate?: boolean;
+  error?: string;
+  message?: string;
+  occurred_at?: string;
+  [key: string]: unknown;
+}
+
+export interface SyncConflict {
+  id: string;
+  user_id: string;
+  ticket_id: string;
+  ticket_number?: string;
+  label: string;
+  occurred_at: string;
+  message: string;
+  resolved_at: string;
+}
+
+export interface SyncState {
+  isOnline: boolean;
+  syncing: boolean;
+  pending: QueuedAction[];
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+}
+
+const DB_NAME = 'intelliservice-offline';
+const DB_VERSION = 1;
+const ACTIONS_STORE = 'actions';
+const CACHE_STORE = 'cache';
+const CONFLICTS_STORE = 'conflicts';
+const LAST_SYNC_KEY = 'offline_last_synced_at';
+const PHOTO_BUCKET = 'ticket-photos';
+
+// =====================================================
+// INDEXEDDB HELPERS
+// =====================================================
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ACTIONS_STORE)) db.createObjectStore(ACTIONS_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(CACHE_STORE)) db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+      if (!db.objectStoreNames.contains(CONFLICTS_STORE)) db.createObjectStore(CONFLICTS_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Failures that mean "no connection" rather than "the server said no".
+ * Only these leave an action in the queue to be retried automatically.
+ */
+function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = (error as { message?: string } | null)?.message || String(error);
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+}
+
+// =====================================================
+// SERVICE CLASS
+// =====================================================
+
+class OfflineSyncServiceClass {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<() => void>();
+  private syncPromise: Promise<void> | null = null;
+  private syncing = false;
+  private lastSequence = 0;
+
+  // ----- Cache -----
+
+  /**
+   * Load through the cache: fresh data is stored for offline use; when the
+   * loader fails for lack of a connection the last cached value is returned.
+   */
+  async cached<T>(key: string, loader: () => Promise<T>): Promise<T> {
+    try {
+      const data = await loader();
+      await this.setCached(key, data);
+      return data;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      const cached = await this.getCached<T>(key);
+      if (cached === undefined) throw error;
+      return cached;
+    }
+  }
+
+  async getCached<T>(key: string): Promise<T | undefined> {
+    const db = await this.db();
+    const entry = await promisify(db.transaction(CACHE_STORE).objectStore(CACHE_STORE).get(key)) as
+      { key: string; value: T } | undefined;
+    return entry?.value;
+  }
+
+  async setCached<T>(key: string, value: T): Promise<void> {
+    const db = await this.db();
+    await promisify(db.transaction(CACHE_STORE, 'readwrite').objectStore(CACHE_STORE)
+      .put({ key, value, cached_at: new Date().toISOString() }));
+  }
+
+  // ----- Action queue -----
+
+  /**
+   * Perform a technician action. Online with nothing queued, it is applied
+   * straight away and the server's result returned; otherwise it is queued
+   * behind earlier actions and { success: true, queued: true } is returned.
+   */
+  async submit(userId: string, input: TechnicianActionInput): Promise<ActionResult> {
+    const action: QueuedAction = {
+      id: crypto.randomUUID(),
+      sequence: this.nextSequence(),
+      user_id: userId,
+      action_type: input.action_type,
+      ticket_id: input.ticket_id,
+      ticket_number: input.ticket_number,
+      label: input.label,
+      payload: input.payload || {},
+      photo: input.photo,
+      photo_name: input.photo?.name,
+      occurred_at: new Date().toISOString(),
+      attempts: 0,
+    };
+
+    const queueEmpty = (await this.getPendingActions(userId)).length === 0;
+    if (navigator.onLine && queueEmpty) {
+      try {
+        const result = await this.apply(action);
+        return { ...result, occurred_at: action.occurred_at };
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    await this.putAction(action);
+    this.notify();
+    if (navigator.onLine) void this.sync(userId);
+    return { success: true, queued: true, occurred_at: action.occurred_at };
+  }
+
+  async getPendingActions(userId: string, ticketId?: string): Promise<QueuedAction[]> {
+    const db = await this.db();
+    const actions = await promisify(db.transaction(ACTIONS_STORE).objectStore(ACTIONS_STORE).getAll()) as QueuedAction[];
+    return actions
+      .filter(a => a.user_id === userId && (!ticketId || a.ticket_id === ticketId))
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+
+  /**
+   * Replay the user's queued actions in order. Stops at the first action that
+   * cannot be sent (no connection) or that the server refused outright, so a
+   * later action is never applied ahead of an earlier one.
+   */
+  sync(userId: string): Promise<void> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync(userId).finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  async retry(userId: string, actionId: string): Promise<void> {
+    const db = await this.db();
+    const action = await promisify(db.transaction(ACTIONS_STORE).objectStore(ACTIONS_STORE).get(actionId)) as
+      QueuedAction | undefined;
+    if (action) await this.putAction({ ...action, error: null });
+    this.notify();
+    await this.sync(userId);
+  }
+
+  async discard(actionId: string): Promise<void> {
+    await this.deleteAction(actionId);
+    this.notify();
+  }
+
+  // ----- Conflicts -----
+
+  async getConflicts(userId: string): Promise<SyncConflict[]> {
+    const db = await this.db();
+    const conflicts = await promisify(db.transaction(CONFLICTS_STORE).objectStore(CONFLICTS_STORE).getAll()) as SyncConflict[];
+    return conflicts
+      .filter(c => c.user_id === userId)
+      .sort((a, b) => a.occurred_at.localeCompare(b.occurred_at));
+  }
+
+  async dismissConflicts(userId: string): Promise<void> {
+    // Read first: a transaction commits once it has no pending requests,
+    // so it cannot be held open across another await
+    const conflicts = await this.getConflicts(userId);
+    const db = await this.db();
+    const store = db.transaction(CONFLICTS_STORE, 'readwrite').objectStore(CONFLICTS_STORE);
+    await Promise.all(conflicts.map(c => promisify(store.delete(c.id))));
+    this.notify();
+  }
+
+  // ----- State -----
+
+  async getState(userId: string): Promise<SyncState> {
+    const [pending, conflicts] = await Promise.all([
+      this.getPendingActions(userId),
+      this.getConflicts(userId),
+    ]);
+    return {
+      isOnline: navigator.onLine,
+      syncing: this.syncing,
+      pending,
+      conflicts,
+      lastSyncedAt: localStorage.getItem(LAST_SYNC_KEY),
+    };
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ----- Internals -----
+
+  private async runSync(userId: string): Promise<void> {
+    const pending = await this.getPendingActions(userId);
+    if (pending.length === 0 || !navigator.onLine) return;
+
+    this.syncing = true;
+    this.notify();
+    try {
+      for (const action of pending) {
+        if (action.error) break;
+
+        try {
+          const result = await this.apply(action);
+          if (!result.success && !result.duplicate) {
+            await this.putConflict(action, result.message || result.error || 'Rejected by the server');
+          }
+          await this.deleteAction(action.id);
+        } catch (error) {
+          if (isNetworkError(error)) break;
+          console.error('Error syncing technician action:', error);
+          await this.putAction({
+            ...action,
+            attempts: action.attempts + 1,
+            error: (error as { message?: string })?.message || 'Sync failed',
+          });
+          break;
+        }
+        this.notify();
+      }
+
+      if ((await this.getPendingActions(userId)).length === 0) {
+        localStorage.setItem(LAST_SYNC_KEY, new Date().toISOString());
+      }
+    } finally {
+      this.syncing = false;
+      this.notify();
+    }
+  }
+
+  private async apply(action: QueuedAction): Promise<ActionResult> {
+    let payload = action.payload;
+
+    // Upload the photo first; the path is fixed by the action id so a retry
+    // after a dropped response overwrites rather than duplicates it
+    if (action.photo && !payload.photo_url) {
+      const fileExt = action.photo_name?.split('.').pop() || 'jpg';
+      const fileName = `${action.ticket_id}/${action.id}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .upload(fileName, action.photo, { cacheControl: '3600', upsert: true });
+      if (uploadError) throw uploadError;
+
+      const { data: urlData } = supabase.storage.from(PHOTO_BUCKET).getPublicUrl(fileName);
+      payload = { ...payload, photo_url: urlData.publicUrl };
+    }
+
+    const { data, error } = await supabase.rpc('fn_apply_technician_action', {
+      p_client_action_id: action.id,
+      p_action_type: action.action_type,
+      p_ticket_id: action.ticket_id,
+      p_occurred_at: action.occurred_at,
+      p_payload: payload,
+    });
+
+    if (error) throw error;
+    return data as unknown as ActionResult;
+  }
+
+  private async putConflict(action: QueuedAction, message: string): Promise<void> {
+    const conflict: SyncConflict = {
+      id: action.id,
+      user_id: action.user_id,
+      ticket_id: action.ticket_id,
+      ticket_number: action.ticket_number,
+      label: action.label,
+      occurred_at: action.occurred_at,
+      message,
+      resolved_at: new Date().toISOString(),
+    };
+    const db = await this.db();
+    await promisify(db.transaction(CONFLICTS_STORE, 'readwrite').objectStore(CONFLICTS_STORE).put(conflict));
+  }
+
+  private async putAction(action: QueuedAction): Promise<void> {
+    const db = await this.db();
+    await promisify(db.transaction(ACTIONS_STORE, 'readwrite').objectStore(ACTIONS_STORE).put(action));
+  }
+
+  private async deleteAction(actionId: string): Promise<void> {
+    const db = await this.db();
+    await promisify(db.transaction(ACTIONS_STORE, 'readwrite').objectStore(ACTIONS_STORE).delete(actionId));
+  }
+
+  // Strictly increasing even when two actions share a millisecond
+  private nextSequence(): number {
+    this.lastSequence = Math.max(Date.now(), this.lastSequence + 1);
+    return this.lastSequence;
+  }
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) this.dbPromise = openDatabase();
+    return this.dbPromise;
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const OfflineSyncService = new OfflineSyncServiceClass();
@@ -0,0 +1,718 @@
+/**
+ * PreventiveMaintenanceService
+ * PM plans for shop assets and contract customer equipment, the maintenance
+ * work orders they generate, and PM task checklists.
+ *
+ * Generation runs in fn_generate_due_pm_work:
+ * - shop assets: calendar, runtime (RUN hours) or count (production units)
+ *   plans create a maintenance work order plus a planned downtime window
+ * - customer equipment: calendar plans create a PM service ticket, paced by
+ *   the contract's included visits per year when no interval is set
+ * Completing the work restarts the plan's meter.
+ */
+
+import { supabase } from '../lib/supabase';
+
+// ========== Type Definitions ==========
+
+export type PMTargetType = 'shop_asset' | 'customer_equipment';
+
+export type PMTriggerType = 'calendar' | 'runtime' | 'count';
+
+export type MaintenanceWorkOrderStatus = 'open' | 'in_progress' | 'completed' | 'cancelled';
+
+export interface PMPlan {
+  id: string;
+  name: string;
+  description: string | null;
+  target_type: PMTargetType;
+  equipment_asset_id: string | null;
+  equipment_id: string | null;
+  service_contract_id: string | null;
+  trigger_type: PMTriggerType;
+  interval_days: number | null;
+  interval_runtime_hours: number | null;
+  interval_count: number | null;
+  lead_days: number;
+  estimated_duration_minutes: number;
+  creates_planned_downtime: boolean;
+  downtime_start_time: string;
+  downtime_reason_code_id: string | null;
+  assigned_to: string | null;
+  next_due_date: string | null;
+  meter_baseline_ts: string;
+  last_generated_at: string | null;
+  last_completed_at: string | null;
+  is_active: boolean;
+  created_at: string;
+  // Joined fields
+  asset_name?: string;
+  work_center_name?: string;
+  equipment_label?: string;
+  customer_name?: string;
+  contract_name?: string;
+  included_visits_per_year?: number | null;
+  assigned_to_name?: string;
+}
+
+export interface PMPlanTask {
+  id: string;
+  pm_plan_id: string;
+  sequence_number: number;
+  description: string;
+  is_required: boolean;
+}
+
+export interface PMPlanTaskInput {
+  description: string;
+  is_required?: boolean;
+}
+
+export interface PMPlanInput {
+  name: string;
+  description?: string;
+  target_type: PMTargetType;
+  equipment_asset_id?: string | null;
+  equipment_id?: string | null;
+  service_contract_id?: string | null;
+  trigger_type: PMTriggerType;
+  interval_days?: number | null;
+  interval_runtime_hours?: number | null;
+  interval_count?: number | null;
+  lead_days?: number;
+  estimated_duration_minutes?: number;
+  creates_planned_downtime?: boolean;
+  downtime_start_time?: string;
+  downtime_reason_code_id?: string | null;
+  assigned_to?: string | null;
+  next_due_date?: string | null;
+  is_active?: boolean;
+  tasks: PMPlanTaskInput[];
+}
+
+export interface MaintenanceWorkOrder {
+  id: string;
+  wo_number: string;
+  pm_plan_id: string | null;
+  equipment_asset_id: string;
+  work_center_id: string | null;
+  status: MaintenanceWorkOrderStatus;
+  title: string;
+  description: string | null;
+  trigger_reason: string | null;
+  meter_value: number | null;
+  due_date: string | null;
+  planned_downtime_window_id: string | null;
+  assigned_to: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  completed_by: string | null;
+  completion_notes: string | null;
+  created_at: string;
+  // Joined fields
+  asset_name?: string;
+  work_center_name?: string;
+  assigned_to_name?: string;
+  downtime_start_ts?: string | null;
+  downtime_end_ts?: string | null;
+}
+
+export interface MaintenanceWorkOrderFilters {
+  status?: MaintenanceWorkOrderStatus[];
+  equipment_asset_id?: string;
+  pm_plan_id?: string;
+}
+
+export interface PMChecklistItem {
+  id: string;
+  maintenance_work_order_id: string | null;
+  ticket_id: string | null;
+  sequence_number: number;
+  description: string;
+  is_required: boolean;
+  is_completed: boolean;
+  completed_by: string | null;
+  completed_at: string | null;
+  notes: string | null;
+  // Joined fields
+  completed_by_name?: string;
+}
+
+export interface PMGenerationResult {
+  plan_id: string;
+  plan_name: string;
+  work_order_id: string | null;
+  ticket_id: string | null;
+  reason: string;
+}
+
+// ========== Service Class ==========
+
+export class PreventiveMaintenanceService {
+  private static readonly OPEN_WO_STATUSES: MaintenanceWorkOrderStatus[] = ['open', 'in_progress'];
+
+  // ========== PM Plans ==========
+
+  /**
+   * Get PM plans, optionally for one target type
+   */
+  static async getPlans(targetType?: PMTargetType): Promise<PMPlan[]> {
+    try {
+      let query = supabase
+        .from('pm_plans')
+        .select(`
+          *,
+          asset:equipment_assets(name, work_center:work_centers(name)),
+          equipment:equipment(equipment_type, manufacturer, model_number, serial_number),
+          contract:service_contracts(name, included_visits_per_year, customer:customers(name)),
+          assignee:profiles!pm_plans_assigned_to_fkey(full_name)
+        `)
+        .order('next_due_date', { ascending: true, nullsFirst: false })
+        .order('name');
+
+      if (targetType) {
+        query = query.eq('target_type', targetType);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return (data || []).map((p) => {
+        const asset = p.asset as unknown as { name: string; work_center: { name: string } | null } | null;
+        const equipment = p.equipment as unknown as {
+          equipment_type: string;
+          manufacturer: string;
+          model_number: string;
+          serial_number: string;
+        } | null;
+        const contract = p.contract as unknown as {
+          name: string;
+          included_visits_per_year: number | null;
+          customer: { name: string } | null;
+        } | null;
+
+        return {
+          ...p,
+          asset_name: asset?.name,
+          work_center_name: asset?.work_center?.name,
+          equipment_label: equipment
+            ? `${equipment.manufacturer} ${equipment.model_number} (${equipment.serial_number})`
+            : undefined,
+          customer_name: contract?.customer?.name,
+          contract_name: contract?.name,
+          included_visits_per_year: contract?.included_visits_per_year,
+          assigned_to_name: (p.assignee as unknown as { full_name: string } | null)?.full_name,
+        };
+      }) as PMPlan[];
+    } catch (error) {
+      console.error('Error fetching PM plans:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the task list template of a plan
+   */
+  static async getPlanTasks(planId: string): Promise<PMPlanTask[]> {
+    try {
+      const { data, error } = await supabase
+        .from('pm_plan_tasks')
+        .select('*')
+        .eq('pm_plan_id', planId)
+        .order('sequence_number');
+
+      if (error) throw error;
+
+      return (data || []) as PMPlanTask[];
+    } catch (error) {
+      console.error('Error fetching PM plan tasks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a PM plan with its task list
+   */
+  static async createPlan(input: PMPlanInput): Promise<{ success: boolean; plan?: PMPlan; error?: string }> {
+    try {
+      const validationError = this.validatePlan(input);
+      if (validationError) {
+        return { success: false, error: validationError };
+      }
+
+      const { data: user } = await supabase.auth.getUser();
+
+      const { data, error } = await supabase
+        .from('pm_plans')
+        .insert({
+          ...this.toPlanRow(input),
+          created_by: user?.user?.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const taskResult = await this.replaceTasks(data.id, input.tasks);
+      if (!taskResult.success) {
+        return { success: false, error: taskResult.error };
+      }
+
+      return { success: true, plan: data as PMPlan };
+    } catch (error) {
+      console.error('Error creating PM plan:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create PM plan' };
+    }
+  }
+
+  /**
+   * Update a PM plan and replace its task list
+   * Work already generated keeps the checklist it was created with
+   */
+  static async updatePlan(id: string, input: PMPlanInput): Promise<{ success: boolean; error?: string }> {
+    try {
+      const validationError = this.validatePlan(input);
+      if (validationError) {
+        return { success: false, error: validationError };
+      }
+
+      const { error } = await supabase
+        .from('pm_plans')
+        .update(this.toPlanRow(input))
+        .eq('id', id);
+
+      if (error) throw error;
+
+      return await this.replaceTasks(id, input.tasks);
+    } catch (error) {
+      console.error('Error updating PM plan:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update PM plan' };
+    }
+  }
+
+  /**
+   * Delete a PM plan (generated work orders and tickets are kept)
+   */
+  static async deletePlan(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('pm_plans')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting PM plan:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to delete PM plan' };
+    }
+  }
+
+  /**
+   * Current meter reading of a runtime (hours) or count (units) plan
+   */
+  static async getMeterReading(planId: string): Promise<number | null> {
+    try {
+      const { data, error } = await supabase.rpc('fn_get_pm_meter', { p_plan_id: planId });
+
+      if (error) throw error;
+
+      return data === null ? null : Number(data);
+    } catch (error) {
+      console.error('Error reading PM meter:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Generate work orders and tickets for every plan that is due
+   */
+  static async generateDueWork(asOfDate?: string): Promise<{
+    success: boolean;
+    generated?: PMGenerationResult[];
+    error?: string;
+  }> {
+    try {
+      const { data, error } = await supabase.rpc('fn_generate_due_pm_work', {
+        p_as_of: asOfDate || new Date().toISOString().split('T')[0],
+      });
+
+      if (error) throw error;
+
+      const rows = (data || []) as unknown as {
+        out_plan_id: string;
+        out_plan_name: string;
+        out_work_order_id: string | null;
+        out_ticket_id: string | null;
+        out_reason: string;
+      }[];
+
+      return {
+        success: true,
+        generated: rows.map((r) => ({
+          plan_id: r.out_plan_id,
+          plan_name: r.out_plan_name,
+          work_order_id: r.out_work_order_id,
+          ticket_id: r.out_ticket_id,
+          reason: r.out_reason,
+        })),
+      };
+    } catch (error) {
+      console.error('Error generating PM work:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to generate PM work' };
+    }
+  }
+
+  // ========== Maintenance Work Orders ==========
+
+  /**
+   * Get maintenance work orders
+   */
+  static async getWorkOrders(filters: MaintenanceWorkOrderFilters = {}): Promise<MaintenanceWorkOrder[]> {
+    try {
+      let query = supabase
+        .from('maintenance_work_orders')
+        .select(`
+          *,
+          asset:equipment_assets(name),
+          work_center:work_centers(name),
+          assignee:profiles!maintenance_work_orders_assigned_to_fkey(full_name),
+          downtime:planned_downtime_windows(start_ts, end_ts)
+        `)
+        .order('due_date', { ascending: true, nullsFirst: false })
+        .order('wo_number');
+
+      if (filters.status && filters.status.length > 0) {
+        query = query.in('status', filters.status);
+      }
+
+      if (filters.equipment_asset_id) {
+        query = query.eq('equipment_asset_id', filters.equipment_asset_id);
+      }
+
+      if (filters.pm_plan_id) {
+        query = query.eq('pm_plan_id', filters.pm_plan_id);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return (data || []).map((wo) => {
+        const downtime = wo.downtime as unknown as { start_ts: string; end_ts: string } | null;
+        return {
+          ...wo,
+          asset_name: (wo.asset as unknown as { name: string } | null)?.name,
+          work_center_name: (wo.work_center as unknown as { name: string } | null)?.name,
+          assigned_to_name: (wo.assignee as unknown as { full_name: string } | null)?.full_name,
+          downtime_start_ts: downtime?.start_ts ?? null,
+          downtime_end_ts: downtime?.end_ts ?? null,
+        };
+      }) as MaintenanceWorkOrder[];
+    } catch (error) {
+      console.error('Error fetching maintenance work orders:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Start a maintenance work order
+   */
+  static async startWorkOrder(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: user } = await supabase.auth.getUser();
+
+      const { data, error } = await supabase
+        .from('maintenance_work_orders')
+        .update({
+          status: 'in_progress',
+          started_at: new Date().toISOString(),
+          assigned_to: user?.user?.id,
+        })
+        .eq('id', id)
+        .eq('status', 'open')
+        .select('id');
+
+      if (error) throw error;
+
+      if (!data || data.length === 0) {
+        return { success: false, error: 'Work order is not open' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error starting maintenance work order:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to start work order' };
+    }
+  }
+
+  /**
+   * Complete a maintenance work order
+   * Required checklist items must be done. Planned downtime the work did not
+   * use is released so it does not count as planned stop time.
+   */
+  static async completeWorkOrder(id: string, notes?: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const checklist = await this.getChecklist({ workOrderId: id });
+      const outstanding = checklist.filter((item) => item.is_required && !item.is_completed);
+      if (outstanding.length > 0) {
+        return {
+          success: false,
+          error: `${outstanding.length} required checklist item${outstanding.length !== 1 ? 's are' : ' is'} not done`,
+        };
+      }
+
+      const { data: user } = await supabase.auth.getUser();
+      const now = new Date().toISOString();
+
+      const { data: wo, error } = await supabase
+        .from('maintenance_work_orders')
+        .update({
+          status: 'completed',
+          completed_at: now,
+          completed_by: user?.user?.id,
+          completion_notes: notes || null,
+        })
+        .eq('id', id)
+        .in('status', this.OPEN_WO_STATUSES)
+        .select('planned_downtime_window_id')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!wo) {
+        return { success: false, error: 'Work order is already closed' };
+      }
+
+      if (wo.planned_downtime_window_id) {
+        await this.releasePlannedDowntime(wo.planned_downtime_window_id, now);
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error completing maintenance work order:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to complete work order' };
+    }
+  }
+
+  /**
+   * Cancel a maintenance work order and release its planned downtime
+   */
+  static async cancelWorkOrder(id: string, reason: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: wo, error } = await supabase
+        .from('maintenance_work_orders')
+        .update({
+          status: 'cancelled',
+          completion_notes: `Cancelled: ${reason}`,
+        })
+        .eq('id', id)
+        .in('status', this.OPEN_WO_STATUSES)
+        .select('planned_downtime_window_id')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!wo) {
+        return { success: false, error: 'Work order is already closed' };
+      }
+
+      if (wo.planned_downtime_window_id) {
+        await this.releasePlannedDowntime(wo.planned_downtime_window_id, new Date().toISOString());
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error cancelling maintenance work order:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to cancel work order' };
+    }
+  }
+
+  // ========== Checklists ==========
+
+  /**
+   * Get the PM checklist of a work order or ticket
+   */
+  static async getChecklist(target: { workOrderId?: string; ticketId?: string }): Promise<PMChecklistItem[]> {
+    try {
+      let query = supabase
+        .from('pm_checklist_items')
+        .select('*, completed_by_user:profiles!pm_checklist_items_completed_by_fkey(full_name)')
+        .order('sequence_number');
+
+      if (target.workOrderId) {
+        query = query.eq('maintenance_work_order_id', target.workOrderId);
+      } else if (target.ticketId) {
+        query = query.eq('ticket_id', target.ticketId);
+      } else {
+        return [];
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return (data || []).map((item) => ({
+        ...item,
+        completed_by_name: (item.completed_by_user as unknown as { full_name: string } | null)?.full_name,
+      })) as PMChecklistItem[];
+    } catch (error) {
+      console.error('Error fetching PM checklist:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Check or uncheck a checklist item
+   */
+  static async setChecklistItem(
+    itemId: string,
+    isCompleted: boolean,
+    notes?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: user } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('pm_checklist_items')
+        .update({
+          is_completed: isCompleted,
+          completed_by: isCompleted ? user?.user?.id : null,
+          completed_at: isCompleted ? new Date().toISOString() : null,
+          ...(notes !== undefined ? { notes: notes || null } : {}),
+        })
+        .eq('id', itemId);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating PM checklist item:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update checklist item' };
+    }
+  }
+
+  // ========== Helpers ==========
+
+  /**
+   * Validate a plan before save
+   */
+  private static validatePlan(input: PMPlanInput): string | null {
+    if (!input.name?.trim()) {
+      return 'Plan name is required';
+    }
+
+    if (input.target_type === 'shop_asset') {
+      if (!input.equipment_asset_id) {
+        return 'Select the shop asset to maintain';
+      }
+    } else {
+      if (!input.service_contract_id || !input.equipment_id) {
+        return 'Select the service contract and customer equipment';
+      }
+      if (input.trigger_type !== 'calendar') {
+        return 'Customer equipment plans are calendar based';
+      }
+    }
+
+    if (input.trigger_type === 'calendar' && input.target_type === 'shop_asset' && !(input.interval_days && input.interval_days > 0)) {
+      return 'Interval in days is required';
+    }
+
+    if (input.trigger_type === 'runtime' && !(input.interval_runtime_hours && input.interval_runtime_hours > 0)) {
+      return 'Runtime interval in hours is required';
+    }
+
+    if (input.trigger_type === 'count' && !(input.interval_count && input.interval_count > 0)) {
+      return 'Count interval is required';
+    }
+
+    if (input.tasks.some((t) => !t.description.trim())) {
+      return 'Checklist tasks need a description';
+    }
+
+    return null;
+  }
+
+  private static toPlanRow(input: PMPlanInput) {
+    const isShopAsset = input.target_type === 'shop_asset';
+
+    return {
+      name: input.name.trim(),
+      description: input.description || null,
+      target_type: input.target_type,
+      equipment_asset_id: isShopAsset ? input.equipment_asset_id : null,
+      equipment_id: isShopAsset ? null : input.equipment_id,
+      service_contract_id: isShopAsset ? null : input.service_contract_id,
+      trigger_type: input.trigger_type,
+      interval_days: input.trigger_type === 'calendar' ? input.interval_days || null : null,
+      interval_runtime_hours: input.trigger_type === 'runtime' ? input.interval_runtime_hours : null,
+      interval_count: input.trigger_type === 'count' ? input.interval_count : null,
+      lead_days: input.lead_days ?? 0,
+      estimated_duration_minutes: input.estimated_duration_minutes ?? 60,
+      creates_planned_downtime: isShopAsset && (input.creates_planned_downtime ?? true),
+      downtime_start_time: input.downtime_start_time || '06:00',
+      downtime_reason_code_id: input.downtime_reason_code_id || null,
+      assigned_to: input.assigned_to || null,
+      next_due_date: input.next_due_date || null,
+      is_active: input.is_active ?? true,
+    };
+  }
+
+  private static async replaceTasks(
+    planId: string,
+    tasks: PMPlanTaskInput[]
+  ): Promise<{ success: boolean; error?: string }> {
+    const { error: deleteError } = await supabase
+      .from('pm_plan_tasks')
+      .delete()
+      .eq('pm_plan_id', planId);
+
+    if (deleteError) {
+      console.error('Error replacing PM plan tasks:', deleteError);
+      return { success: false, error: deleteError.message };
+    }
+
+    if (tasks.length === 0) {
+      return { success: true };
+    }
+
+    const { error } = await supabase
+      .from('pm_plan_tasks')
+      .insert(tasks.map((task, index) => ({
+        pm_plan_id: planId,
+        sequence_number: index + 1,
+        description: task.description.trim(),
+        is_required: task.is_required ?? true,
+      })));
+
+    if (error) {
+      console.error('Error replacing PM plan tasks:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Drop the part of a planned downtime window after the given time:
+   * a window not yet started is removed, a running one ends now
+   */
+  private static async releasePlannedDowntime(windowId: string, at: string): Promise<void> {
+    const { data: window } = await supabase
+      .from('planned_downtime_windows')
+      .select('start_ts, end_ts')
+      .eq('id', windowId)
+      .maybeSingle();
+
+    if (!window || new Date(window.end_ts) <= new Date(at)) return;
+
+    if (new Date(window.start_ts) >= new Date(at)) {
+      await supabase.from('planned_downtime_windows').delete().eq('id', windowId);
+    } else {
+      await supabase.from('planned_downtime_windows').update({ end_ts: at }).eq('id', windowId);
+    }
+  }
+}
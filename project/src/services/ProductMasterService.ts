@@ -0,0 +1,582 @@
+/**
+ * ProductMasterService
+ * Handles the product master for MES: versioned multi-level BOMs and standard
+ * routings for finished-good parts, engineering change (new revisions), and
+ * explosion of a product revision into production order BOM lines and steps.
+ *
+ * ## Revision Rules
+ *
+ * - Only draft revisions can be edited (enforced by DB trigger)
+ * - Releasing a draft supersedes the previously released revision
+ * - Production orders keep the revision they were exploded from, so an
+ *   engineering change never alters in-flight orders
+ */
+
+import { supabase } from '../lib/supabase';
+
+// ========== Type Definitions ==========
+
+export type ProductRevisionStatus = 'draft' | 'released' | 'superseded';
+
+export interface ProductRevision {
+  id: string;
+  part_id: string;
+  part_number: string;
+  part_name: string;
+  revision_number: number;
+  revision_code: string;
+  status: ProductRevisionStatus;
+  description: string | null;
+  change_reason: string | null;
+  released_at: string | null;
+  released_by_name: string | null;
+  superseded_at: string | null;
+  created_at: string;
+  bom_line_count: number;
+  operation_count: number;
+  order_count: number;
+}
+
+export interface ProductBOMLine {
+  id: string;
+  revision_id: string;
+  line_number: number;
+  component_part_id: string;
+  component_part_number?: string;
+  component_part_name?: string;
+  quantity_per: number;
+  scrap_percent: number;
+  is_phantom: boolean;
+  operation_sequence: number | null;
+  source_location_id: string | null;
+  source_location_name?: string;
+  notes: string | null;
+}
+
+export interface ProductRoutingOperation {
+  id: string;
+  revision_id: string;
+  sequence: number;
+  name: string;
+  description: string | null;
+  work_center_id: string | null;
+  work_center_name?: string;
+  work_center_code?: string;
+  setup_minutes: number;
+  run_minutes_per_unit: number;
+  notes: string | null;
+}
+
+export interface CreateProductBOMLineInput {
+  component_part_id: string;
+  quantity_per: number;
+  scrap_percent?: number;
+  is_phantom?: boolean;
+  operation_sequence?: number;
+  source_location_id?: string;
+  notes?: string;
+}
+
+export interface CreateRoutingOperationInput {
+  name: string;
+  description?: string;
+  work_center_id?: string;
+  setup_minutes?: number;
+  run_minutes_per_unit?: number;
+  notes?: string;
+}
+
+export interface BOMExplosionNode {
+  level: number;
+  part_id: string;
+  part_number: string;
+  part_name: string;
+  quantity_per: number;
+  extended_quantity: number;
+  is_phantom: boolean;
+  revision_code: string | null;
+}
+
+export interface ExplosionResult {
+  steps_created: number;
+  bom_lines_created: number;
+  skipped: boolean;
+}
+
+// Line numbers and operation sequences are spaced so lines can be inserted later
+const SEQUENCE_INCREMENT = 10;
+
+// Guards against circular BOMs when exploding in the client
+const MAX_BOM_DEPTH = 10;
+
+// ========== ProductMasterService Class ==========
+
+export class ProductMasterService {
+  // ========== Revisions ==========
+
+  /**
+   * Get product revisions, optionally for a single product
+   */
+  static async getRevisions(partId?: string): Promise<ProductRevision[]> {
+    try {
+      let query = supabase
+        .from('vw_product_revisions')
+        .select('*')
+        .order('part_number', { ascending: true })
+        .order('revision_number', { ascending: false });
+
+      if (partId) {
+        query = query.eq('part_id', partId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return (data || []) as ProductRevision[];
+    } catch (error) {
+      console.error('Error getting product revisions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the currently released revision of each product
+   */
+  static async getReleasedProducts(): Promise<ProductRevision[]> {
+    try {
+      const { data, error } = await supabase
+        .from('vw_product_revisions')
+        .select('*')
+        .eq('status', 'released')
+        .order('part_number', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []) as ProductRevision[];
+    } catch (error) {
+      console.error('Error getting released products:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the released revision for a product, if any
+   */
+  static async getReleasedRevision(partId: string): Promise<ProductRevision | null> {
+    try {
+      const { data, error } = await supabase
+        .from('vw_product_revisions')
+        .select('*')
+        .eq('part_id', partId)
+        .eq('status', 'released')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data as ProductRevision | null;
+    } catch (error) {
+      console.error('Error getting released revision:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a revision with its BOM lines and routing operations
+   */
+  static async getRevisionDetail(revisionId: string): Promise<{
+    revision: ProductRevision;
+    bomLines: ProductBOMLine[];
+    operations: ProductRoutingOperation[];
+  } | null> {
+    try {
+      const { data: revision, error: revisionError } = await supabase
+        .from('vw_product_revisions')
+        .select('*')
+        .eq('id', revisionId)
+        .single();
+
+      if (revisionError) throw revisionError;
+      if (!revision) return null;
+
+      const { data: bomLines, error: bomError } = await supabase
+        .from('product_bom_lines')
+        .select(`
+          *,
+          component:parts(part_number, name),
+          source_location:stock_locations(name)
+        `)
+        .eq('revision_id', revisionId)
+        .order('line_number', { ascending: true });
+
+      if (bomError) throw bomError;
+
+      const { data: operations, error: opsError } = await supabase
+        .from('product_routing_operations')
+        .select(`
+          *,
+          work_center:work_centers(name, code)
+        `)
+        .eq('revision_id', revisionId)
+        .order('sequence', { ascending: true });
+
+      if (opsError) throw opsError;
+
+      return {
+        revision: revision as ProductRevision,
+        bomLines: (bomLines || []).map((line) => ({
+          ...line,
+          component_part_number: (line.component as unknown as { part_number: string })?.part_number,
+          component_part_name: (line.component as unknown as { name: string })?.name,
+          source_location_name: (line.source_location as unknown as { name: string })?.name,
+        })) as ProductBOMLine[],
+        operations: (operations || []).map((op) => ({
+          ...op,
+          work_center_name: (op.work_center as unknown as { name: string })?.name,
+          work_center_code: (op.work_center as unknown as { code: string })?.code,
+        })) as ProductRoutingOperation[],
+      };
+    } catch (error) {
+      console.error('Error loading product revision:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open a new draft revision (engineering change)
+   *
+   * The draft is copied from the released revision. If a draft is already
+   * open for the product, that draft is returned instead.
+   */
+  static async createRevision(
+    partId: string,
+    changeReason?: string,
+    description?: string
+  ): Promise<{ success: boolean; revisionId?: string; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('fn_create_product_revision', {
+        p_part_id: partId,
+        p_change_reason: changeReason || null,
+        p_description: description || null,
+      });
+
+      if (error) throw error;
+
+      return { success: true, revisionId: data as string };
+    } catch (error: unknown) {
+      console.error('Error creating product revision:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create revision'
+      };
+    }
+  }
+
+  /**
+   * Release a draft revision, superseding the current released revision
+   */
+  static async releaseRevision(revisionId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('fn_release_product_revision', {
+        p_revision_id: revisionId,
+      });
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error: unknown) {
+      console.error('Error releasing product revision:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to release revision'
+      };
+    }
+  }
+
+  /**
+   * Discard a draft revision
+   */
+  static async deleteDraftRevision(revisionId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('product_revisions')
+        .delete()
+        .eq('id', revisionId)
+        .eq('status', 'draft');
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error: unknown) {
+      console.error('Error deleting draft revision:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete draft revision'
+      };
+    }
+  }
+
+  // ========== BOM Lines ==========
+
+  /**
+   * Add a component to a draft revision's BOM
+   */
+  static async addBOMLine(
+    revisionId: string,
+    line: CreateProductBOMLineInput
+  ): Promise<{ success: boolean; line?: ProductBOMLine; error?: string }> {
+    try {
+      const { data: existing } = await supabase
+        .from('product_bom_lines')
+        .select('line_number')
+        .eq('revision_id', revisionId)
+        .order('line_number', { ascending: false })
+        .limit(1);
+
+      const nextLineNumber = (existing?.[0]?.line_number ?? 0) + SEQUENCE_INCREMENT;
+
+      const { data, error } = await supabase
+        .from('product_bom_lines')
+        .insert({
+          revision_id: revisionId,
+          line_number: nextLineNumber,
+          ...line,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, line: data as ProductBOMLine };
+    } catch (error: unknown) {
+      console.error('Error adding product BOM line:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add BOM line'
+      };
+    }
+  }
+
+  /**
+   * Update a BOM line on a draft revision
+   */
+  static async updateBOMLine(
+    lineId: string,
+    updates: Partial<CreateProductBOMLineInput>
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('product_bom_lines')
+        .update(updates)
+        .eq('id', lineId);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error: unknown) {
+      console.error('Error updating product BOM line:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update BOM line'
+      };
+    }
+  }
+
+  /**
+   * Remove a BOM line from a draft revision
+   */
+  static async removeBOMLine(lineId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('product_bom_lines')
+        .delete()
+        .eq('id', lineId);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error: unknown) {
+      console.error('Error removing product BOM line:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove BOM line'
+      };
+    }
+  }
+
+  // ========== Routing ==========
+
+  /**
+   * Add an operation to a draft revision's routing
+   */
+  static async addOperation(
+    revisionId: string,
+    operation: CreateRoutingOperationInput
+  ): Promise<{ success: boolean; operation?: ProductRoutingOperation; error?: string }> {
+    try {
+      const { data: existing } = await supabase
+        .from('product_routing_operations')
+        .select('sequence')
+        .eq('revision_id', revisionId)
+        .order('sequence', { ascending: false })
+        .limit(1);
+
+      const nextSequence = (existing?.[0]?.sequence ?? 0) + SEQUENCE_INCREMENT;
+
+      const { data, error } = await supabase
+        .from('product_routing_operations')
+        .insert({
+          revision_id: revisionId,
+          sequence: nextSequence,
+          ...operation,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, operation: data as ProductRoutingOperation };
+    } catch (error: unknown) {
+      console.error('Error adding routing operation:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add operation'
+      };
+    }
+  }
+
+  /**
+   * Update a routing operation on a draft revision
+   */
+  static async updateOperation(
+    operationId: string,
+    updates: Partial<CreateRoutingOperationInput>
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('product_routing_operations')
+        .update(updates)
+        .eq('id', operationId);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error: unknown) {
+      console.error('Error updating routing operation:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update operation'
+      };
+    }
+  }
+
+  /**
+   * Remove a routing operation from a draft revision
+   */
+  static async removeOperation(operationId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('product_routing_operations')
+        .delete()
+        .eq('id', operationId);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error: unknown) {
+      console.error('Error removing routing operation:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove operation'
+      };
+    }
+  }
+
+  // ========== Explosion ==========
+
+  /**
+   * Get an indented multi-level BOM for a revision
+   *
+   * Every sub-assembly with a released revision is expanded (not only
+   * phantoms) so the full product structure can be reviewed.
+   */
+  static async getMultiLevelBOM(revisionId: string, quantity = 1): Promise<BOMExplosionNode[]> {
+    try {
+      const nodes: BOMExplosionNode[] = [];
+
+      const expand = async (currentRevisionId: string, parentQty: number, level: number, path: string[]) => {
+        const { data: lines, error } = await supabase
+          .from('product_bom_lines')
+          .select('component_part_id, quantity_per, scrap_percent, is_phantom, component:parts(part_number, name)')
+          .eq('revision_id', currentRevisionId)
+          .order('line_number', { ascending: true });
+
+        if (error) throw error;
+
+        for (const line of lines || []) {
+          const component = line.component as unknown as { part_number: string; name: string } | null;
+          const extended = line.quantity_per * (1 + (line.scrap_percent || 0) / 100) * parentQty;
+          const childRevision = level < MAX_BOM_DEPTH && !path.includes(line.component_part_id)
+            ? await this.getReleasedRevision(line.component_part_id)
+            : null;
+
+          nodes.push({
+            level,
+            part_id: line.component_part_id,
+            part_number: component?.part_number || '',
+            part_name: component?.name || '',
+            quantity_per: line.quantity_per,
+            extended_quantity: extended,
+            is_phantom: line.is_phantom,
+            revision_code: childRevision?.revision_code ?? null,
+          });
+
+          if (childRevision) {
+            await expand(childRevision.id, extended, level + 1, [...path, line.component_part_id]);
+          }
+        }
+      };
+
+      const { data: root } = await supabase
+        .from('product_revisions')
+        .select('part_id')
+        .eq('id', revisionId)
+        .single();
+
+      await expand(revisionId, quantity, 1, root ? [root.part_id] : []);
+
+      return nodes;
+    } catch (error) {
+      console.error('Error exploding multi-level BOM:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Explode an order's product revision into order BOM lines and steps
+   *
+   * Quantities are scaled by the order's quantity_ordered. Idempotent:
+   * orders that already have steps or BOM lines are left unchanged.
+   */
+  static async explodeIntoOrder(orderId: string): Promise<{
+    success: boolean;
+    result?: ExplosionResult;
+    error?: string;
+  }> {
+    try {
+      const { data, error } = await supabase.rpc('fn_explode_product_revision', {
+        p_production_order_id: orderId,
+      });
+
+      if (error) throw error;
+
+      return { success: true, result: data as ExplosionResult };
+    } catch (error: unknown) {
+      console.error('Error exploding product into order:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to explode product revision'
+      };
+    }
+  }
+}
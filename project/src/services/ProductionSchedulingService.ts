@@ -4,11 +4,14 @@
  */
 
 import { supabase } from '../lib/supabase';
+import { ShiftCalendarService } from './ShiftCalendarService';
+import { MESInventoryService, type BOMConsumptionResult } from './MESInventoryService';
 
 // ========== Type Definitions ==========
 
 export interface WorkCenterSchedule {
   id: string;
+  operation_run_id: string;
   production_order_id: string;
   order_number: string;
   order_title: string;
@@ -31,6 +34,8 @@ export interface WorkCenterSchedule {
   sequence_number: number;
   estimated_minutes: number | null;
   capacity_per_hour: number | null;
+  is_locked: boolean;
+  order_due_ts: string | null;
 }
 
 export interface ScheduleConflict {
@@ -77,6 +82,65 @@ export interface ScheduleFilters {
   production_order_id?: string;
 }
 
+export interface AutoScheduleOptions {
+  direction: 'forward' | 'backward';
+  horizon_start: string;
+  horizon_days?: number; // Default 14
+  work_center_ids?: string[]; // Only reschedule steps on these work centers
+  production_order_ids?: string[]; // Only plan these orders
+}
+
+export interface AutoSchedulePlanItem {
+  production_order_id: string;
+  order_number: string;
+  order_priority: number | null;
+  due_ts: string | null;
+  production_step_id: string;
+  step_number: number;
+  step_name: string;
+  work_center_id: string;
+  work_center_name: string;
+  operation_run_id: string | null; // null = a new run will be created
+  action: 'create' | 'move' | 'unchanged';
+  current_start_ts: string | null;
+  current_end_ts: string | null;
+  proposed_start_ts: string;
+  proposed_end_ts: string;
+  duration_minutes: number;
+  is_late: boolean;
+}
+
+export interface AutoScheduleSkip {
+  production_order_id: string;
+  order_number: string;
+  production_step_id: string | null;
+  step_name: string | null;
+  reason: string;
+}
+
+export interface AutoSchedulePlan {
+  direction: 'forward' | 'backward';
+  horizon_start: string;
+  horizon_end: string;
+  generated_at: string;
+  items: AutoSchedulePlanItem[];
+  skipped: AutoScheduleSkip[];
+  late_order_ids: string[];
+}
+
+export interface AutoScheduleCommitResult {
+  success: boolean;
+  applied: number;
+  failed: { item: AutoSchedulePlanItem; error: string }[];
+  error?: string;
+}
+
+// Millisecond interval used by the finite-capacity planner
+interface TimeInterval {
+  start: number;
+  end: number;
+}
+
 // ========== ProductionSchedulingService Class ==========
 
 export class ProductionSchedulingService {
@@ -491,17 +555,23 @@ export class ProductionSchedulingService {
 
       if (schedError) throw schedError;
 
-      // Calculate capacity per day for each work center
+      // Calculate capacity per day for each work center from its shift calendar
       const from = new Date(fromDate);
       const to = new Date(toDate);
+      const rangeStart = new Date(from);
+      rangeStart.setHours(0, 0, 0, 0);
+      const rangeEnd = new Date(to);
+      rangeEnd.setHours(23, 59, 59, 999);
+      const workingWindows = await ShiftCalendarService.getWorkingWindows(
+        workCenterIds,
+        rangeStart.getTime(),
+        rangeEnd.getTime() + 1
+      );
 
       for (const wc of workCenters || []) {
-        // Assuming 8 hours/day capacity if not specified
-        const hoursPerDay = 8;
-        const totalMinutesPerDay = hoursPerDay * 60;
-
         // Group schedules by date
         const wcSchedules = (schedules || []).filter(s => s.work_center_id === wc.id);
+        const wcWindows = workingWindows.get(wc.id) || [];
 
         // For each day in range
         const current = new Date(from);
@@ -516,6 +586,10 @@ export class ProductionSchedulingService {
           dayEndDate.setHours(23, 59, 59, 999);
           const dayEnd = dayEndDate.getTime();
 
+          const totalMinutesPerDay = Math.round(
+            ShiftCalendarService.sumWindowSeconds(wcWindows, dayStart, dayEnd + 1) / 60
+          );
+
           let scheduledMinutes = 0;
 
           for (const schedule of wcSchedules) {
@@ -542,7 +616,10 @@ export class ProductionSchedulingService {
             total_capacity_minutes: totalMinutesPerDay,
             scheduled_minutes: Math.round(scheduledMinutes),
             available_minutes: Math.round(totalMinutesPerDay - scheduledMinutes),
-            utilization_percent: Math.round((scheduledMinutes / totalMinutesPerDay) * 100),
+            // Work booked on a non-working day counts as fully over capacity
+            utilization_percent: totalMinutesPerDay > 0
+              ? Math.round((scheduledMinutes / totalMinutesPerDay) * 100)
+              : scheduledMinutes > 0 ? 100 : 0,
           });
 
           current.setDate(current.getDate() + 1);
@@ -603,7 +680,11 @@ export class ProductionSchedulingService {
   /**
    * Complete an operation
    */
-  static async completeOperation(scheduleId: string): Promise<{ success: boolean; error?: string }> {
+  static async completeOperation(scheduleId: string): Promise<{
+    success: boolean;
+    backflush?: BOMConsumptionResult;
+    error?: string;
+  }> {
     try {
       const { data: user } = await supabase.auth.getUser();
 
@@ -618,7 +699,11 @@ export class ProductionSchedulingService {
 
       if (error) throw error;
 
-      return { success: true };
+      // Backflush components tied to this operation (skipped when counts
+      // already backflushed them)
+      const backflush = await MESInventoryService.backflushOperationRun(scheduleId);
+
+      return { success: true, backflush };
     } catch (error) {
       console.error('Error completing operation:', error);
       return { success: false, error: error instanceof Error ? error.message : 'Failed to complete operation' };
@@ -656,4 +741,553 @@ export class ProductionSchedulingService {
       return { success: false, error: error instanceof Error ? error.message : 'Failed to delete schedule' };
     }
   }
+
+  // ========== Auto-Scheduling ==========
+
+  private static readonly DEFAULT_STEP_MINUTES = 60;
+  private static readonly DEFAULT_HORIZON_DAYS = 14;
+  private static readonly MS_PER_MINUTE = 60 * 1000;
+
+  /**
+   * Lock or unlock a schedule; locked runs are never moved by the auto-scheduler
+   */
+  static async setScheduleLock(
+    scheduleId: string,
+    locked: boolean
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: user } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('production_operation_runs')
+        .update({
+          is_locked: locked,
+          locked_by: locked ? user?.user?.id : null,
+          locked_at: locked ? new Date().toISOString() : null,
+        })
+        .eq('id', scheduleId);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error locking schedule:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to lock schedule' };
+    }
+  }
+
+  /**
+   * Build a finite-capacity plan for open production orders (preview only)
+   *
+   * Orders are planned by priority, then due date (production_orders.scheduled_end).
+   * Each step goes on its work center inside shift working time, after the
+   * previous step ends (forward) or before the next step starts (backward from
+   * the due date). Locked, started and out-of-scope runs stay where they are and
+   * block capacity. An order that cannot be backward-scheduled before its due
+   * date is forward-scheduled from the horizon start and flagged late.
+   */
+  static async generateAutoSchedule(options: AutoScheduleOptions): Promise<AutoSchedulePlan> {
+    const horizonStart = new Date(options.horizon_start).getTime();
+    const horizonEnd = horizonStart + (options.horizon_days ?? this.DEFAULT_HORIZON_DAYS) * 24 * 60 * this.MS_PER_MINUTE;
+    const plan: AutoSchedulePlan = {
+      direction: options.direction,
+      horizon_start: new Date(horizonStart).toISOString(),
+      horizon_end: new Date(horizonEnd).toISOString(),
+      generated_at: new Date().toISOString(),
+      items: [],
+      skipped: [],
+      late_order_ids: [],
+    };
+
+    // Open orders with their steps
+    let orderQuery = supabase
+      .from('production_orders')
+      .select(`
+        id,
+        order_number,
+        priority,
+        status,
+        scheduled_end,
+        created_at,
+        steps:production_steps(id, step_number, name, status, work_center_id, estimated_minutes)
+      `)
+      .in('status', ['queued', 'in_progress']);
+
+    if (options.production_order_ids?.length) {
+      orderQuery = orderQuery.in('id', options.production_order_ids);
+    }
+
+    const { data: orders, error: ordersError } = await orderQuery;
+    if (ordersError) throw ordersError;
+
+    type PlanStep = {
+      id: string;
+      step_number: number;
+      name: string;
+      status: string;
+      work_center_id: string | null;
+      estimated_minutes: number | null;
+    };
+    type PlanOrder = {
+      id: string;
+      order_number: string;
+      priority: number | null;
+      scheduled_end: string | null;
+      created_at: string;
+      steps: PlanStep[];
+    };
+    const openOrders = (orders || []) as unknown as PlanOrder[];
+    const orderIds = openOrders.map(o => o.id);
+
+    // Existing runs: those of the planned orders plus everything else occupying capacity
+    const { data: runs, error: runsError } = await supabase
+      .from('production_operation_runs')
+      .select('id, production_order_id, production_step_id, work_center_id, status, scheduled_start_ts, scheduled_end_ts, is_locked')
+      .not('status', 'eq', 'COMPLETED');
+
+    if (runsError) throw runsError;
+
+    type RunRow = {
+      id: string;
+      production_order_id: string;
+      production_step_id: string | null;
+      work_center_id: string | null;
+      status: string;
+      scheduled_start_ts: string | null;
+      scheduled_end_ts: string | null;
+      is_locked: boolean | null;
+    };
+    const allRuns = (runs || []) as unknown as RunRow[];
+    const inScopeWorkCenter = (wcId: string | null) =>
+      !!wcId && (!options.work_center_ids?.length || options.work_center_ids.includes(wcId));
+
+    // A run is movable when it has not started, is unlocked and belongs to a planned step
+    const runByStep = new Map<string, RunRow>();
+    const movableRunIds = new Set<string>();
+    for (const run of allRuns) {
+      if (!run.production_step_id || !orderIds.includes(run.production_order_id)) continue;
+      runByStep.set(run.production_step_id, run);
+      if (run.status === 'NOT_STARTED' && !run.is_locked && inScopeWorkCenter(run.work_center_id)) {
+        movableRunIds.add(run.id);
+      }
+    }
+
+    // Capacity already taken by fixed runs
+    const busy = new Map<string, TimeInterval[]>();
+    for (const run of allRuns) {
+      if (movableRunIds.has(run.id) || !run.work_center_id || !run.scheduled_start_ts) continue;
+      const start = new Date(run.scheduled_start_ts).getTime();
+      const end = run.scheduled_end_ts
+        ? new Date(run.scheduled_end_ts).getTime()
+        : start + this.DEFAULT_SCHEDULE_DURATION_MS;
+      this.addInterval(busy, run.work_center_id, { start, end });
+    }
+
+    const workCenterIds = Array.from(new Set(
+      openOrders.flatMap(o => o.steps.map(s => s.work_center_id)).filter((id): id is string => inScopeWorkCenter(id))
+    ));
+
+    const workCenterNames = new Map<string, string>();
+    if (workCenterIds.length > 0) {
+      const { data: workCenters } = await supabase
+        .from('work_centers')
+        .select('id, name')
+        .in('id', workCenterIds);
+      for (const wc of workCenters || []) workCenterNames.set(wc.id, wc.name);
+    }
+
+    const windows = await ShiftCalendarService.getWorkingWindows(workCenterIds, horizonStart, horizonEnd);
+
+    // Highest priority (1) first, then earliest due date
+    const sortedOrders = [...openOrders].sort((a, b) => {
+      const pa = a.priority ?? 3;
+      const pb = b.priority ?? 3;
+      if (pa !== pb) return pa - pb;
+      const da = a.scheduled_end ? new Date(a.scheduled_end).getTime() : Number.MAX_SAFE_INTEGER;
+      const db = b.scheduled_end ? new Date(b.scheduled_end).getTime() : Number.MAX_SAFE_INTEGER;
+      if (da !== db) return da - db;
+      return a.order_number.localeCompare(b.order_number);
+    });
+
+    for (const order of sortedOrders) {
+      const steps = [...order.steps]
+        .filter(s => s.status !== 'complete' && s.status !== 'skipped')
+        .sort((a, b) => a.step_number - b.step_number);
+
+      const dueTs = order.scheduled_end ? new Date(order.scheduled_end).getTime() : null;
+      let placed: Map<string, TimeInterval> | null = null;
+
+      if (options.direction === 'backward' && dueTs !== null) {
+        placed = this.placeOrderBackward(steps, runByStep, movableRunIds, busy, windows, Math.min(dueTs, horizonEnd), horizonStart);
+      }
+      if (!placed) {
+        placed = this.placeOrderForward(steps, runByStep, movableRunIds, busy, windows, horizonStart, horizonEnd);
+      }
+
+      for (const step of steps) {
+        const run = runByStep.get(step.id);
+        const interval = placed.get(step.id);
+
+        if (!interval) {
+          if (run && !movableRunIds.has(run.id)) continue; // Fixed in place, nothing to plan
+          // A movable run that could not be re-placed keeps its current slot
+          if (run?.work_center_id && run.scheduled_start_ts && run.scheduled_end_ts) {
+            this.addInterval(busy, run.work_center_id, {
+              start: new Date(run.scheduled_start_ts).getTime(),
+              end: new Date(run.scheduled_end_ts).getTime(),
+            });
+          }
+          plan.skipped.push({
+            production_order_id: order.id,
+            order_number: order.order_number,
+            production_step_id: step.id,
+            step_name: step.name,
+            reason: !step.work_center_id
+              ? 'Step has no work center'
+              : !inScopeWorkCenter(step.work_center_id)
+                ? 'Work center not in scope'
+                : 'No capacity within the horizon',
+          });
+          continue;
+        }
+
+        const proposedStart = new Date(interval.start).toISOString();
+        const proposedEnd = new Date(interval.end).toISOString();
+        const unchanged = !!run?.scheduled_start_ts && !!run.scheduled_end_ts
+          && Math.abs(new Date(run.scheduled_start_ts).getTime() - interval.start) < this.MS_PER_MINUTE
+          && Math.abs(new Date(run.scheduled_end_ts).getTime() - interval.end) < this.MS_PER_MINUTE
+          && run.work_center_id === step.work_center_id;
+        const isLate = dueTs !== null && interval.end > dueTs;
+
+        plan.items.push({
+          production_order_id: order.id,
+          order_number: order.order_number,
+          order_priority: order.priority,
+          due_ts: order.scheduled_end,
+          production_step_id: step.id,
+          step_number: step.step_number,
+          step_name: step.name,
+          work_center_id: step.work_center_id as string,
+          work_center_name: workCenterNames.get(step.work_center_id as string) || 'Unknown',
+          operation_run_id: run?.id ?? null,
+          action: !run ? 'create' : unchanged ? 'unchanged' : 'move',
+          current_start_ts: run?.scheduled_start_ts ?? null,
+          current_end_ts: run?.scheduled_end_ts ?? null,
+          proposed_start_ts: proposedStart,
+          proposed_end_ts: proposedEnd,
+          duration_minutes: step.estimated_minutes || this.DEFAULT_STEP_MINUTES,
+          is_late: isLate,
+        });
+
+        if (isLate && !plan.late_order_ids.includes(order.id)) {
+          plan.late_order_ids.push(order.id);
+        }
+      }
+    }
+
+    plan.items.sort((a, b) => a.proposed_start_ts.localeCompare(b.proposed_start_ts));
+    return plan;
+  }
+
+  /**
+   * Apply a previewed plan through updateSchedule/scheduleOrder, then
+   * renumber each affected work center with reorderSchedules
+   *
+   * Moves that collide with runs still waiting to move are retried; if moves
+   * block each other, the remaining runs are cleared first and placed again.
+   * A run that still cannot be placed keeps its original times.
+   */
+  static async commitAutoSchedule(plan: AutoSchedulePlan): Promise<AutoScheduleCommitResult> {
+    const failed: AutoScheduleCommitResult['failed'] = [];
+    let applied = 0;
+
+    try {
+      const applyMove = async (item: AutoSchedulePlanItem) => this.updateSchedule(item.operation_run_id as string, {
+        scheduled_start_ts: item.proposed_start_ts,
+        scheduled_end_ts: item.proposed_end_ts,
+        work_center_id: item.work_center_id,
+      });
+
+      let pending = plan.items.filter(i => i.action === 'move');
+      let released = false;
+
+      while (pending.length > 0) {
+        const stillPending: AutoSchedulePlanItem[] = [];
+        const lastErrors = new Map<AutoSchedulePlanItem, string>();
+
+        for (const item of pending) {
+          const result = await applyMove(item);
+          if (result.success) {
+            applied++;
+          } else {
+            stillPending.push(item);
+            lastErrors.set(item, result.error || result.conflicts?.[0]?.message || 'Schedule conflict');
+          }
+        }
+
+        if (stillPending.length === 0) break;
+
+        if (stillPending.length < pending.length) {
+          pending = stillPending;
+          continue;
+        }
+
+        if (released) {
+          // No progress even after clearing: put the originals back and report
+          for (const item of stillPending) {
+            await supabase
+              .from('production_operation_runs')
+              .update({ scheduled_start_ts: item.current_start_ts, scheduled_end_ts: item.current_end_ts })
+              .eq('id', item.operation_run_id as string);
+            failed.push({ item, error: lastErrors.get(item) || 'Schedule conflict' });
+          }
+          break;
+        }
+
+        // Moves are blocking each other (e.g. two runs swapping slots)
+        const { error: releaseError } = await supabase
+          .from('production_operation_runs')
+          .update({ scheduled_start_ts: null, scheduled_end_ts: null })
+          .in('id', stillPending.map(i => i.operation_run_id as string));
+
+        if (releaseError) throw releaseError;
+
+        released = true;
+        pending = stillPending;
+      }
+
+      for (const item of plan.items.filter(i => i.action === 'create')) {
+        const result = await this.scheduleOrder({
+          production_order_id: item.production_order_id,
+          production_step_id: item.production_step_id,
+          work_center_id: item.work_center_id,
+          scheduled_start_ts: item.proposed_start_ts,
+          scheduled_end_ts: item.proposed_end_ts,
+        });
+
+        if (result.success) {
+          applied++;
+        } else {
+          failed.push({ item, error: result.error || result.conflicts?.[0]?.message || 'Schedule conflict' });
+        }
+      }
+
+      // Sequence numbers follow the new start times
+      const touchedWorkCenters = new Set(
+        plan.items.filter(i => i.action !== 'unchanged').map(i => i.work_center_id)
+      );
+
+      for (const workCenterId of touchedWorkCenters) {
+        const { data: wcRuns, error } = await supabase
+          .from('production_operation_runs')
+          .select('id')
+          .eq('work_center_id', workCenterId)
+          .not('status', 'eq', 'COMPLETED')
+          .not('scheduled_start_ts', 'is', null)
+          .order('scheduled_start_ts', { ascending: true });
+
+        if (error) throw error;
+
+        const reorderResult = await this.reorderSchedules(workCenterId, (wcRuns || []).map(r => r.id));
+        if (!reorderResult.success) throw new Error(reorderResult.error);
+      }
+
+      return { success: failed.length === 0, applied, failed };
+    } catch (error) {
+      console.error('Error committing auto schedule:', error);
+      return {
+        success: false,
+        applied,
+        failed,
+        error: error instanceof Error ? error.message : 'Failed to commit schedule',
+      };
+    }
+  }
+
+  /**
+   * Place an order's steps in sequence, each as early as capacity allows
+   */
+  private static placeOrderForward(
+    steps: { id: string; work_center_id: string | null; estimated_minutes: number | null }[],
+    runByStep: Map<string, { id: string; scheduled_start_ts: string | null; scheduled_end_ts: string | null }>,
+    movableRunIds: Set<string>,
+    busy: Map<string, TimeInterval[]>,
+    windows: Map<string, TimeInterval[]>,
+    horizonStart: number,
+    horizonEnd: number
+  ): Map<string, TimeInterval> {
+    const placed = new Map<string, TimeInterval>();
+    let earliest = horizonStart;
+
+    for (const step of steps) {
+      const run = runByStep.get(step.id);
+
+      // Fixed runs keep their slot but still gate the next step
+      if (run && !movableRunIds.has(run.id)) {
+        if (run.scheduled_end_ts) {
+          earliest = Math.max(earliest, new Date(run.scheduled_end_ts).getTime());
+        }
+        continue;
+      }
+
+      const wcWindows = step.work_center_id ? windows.get(step.work_center_id) : undefined;
+      if (!step.work_center_id || !wcWindows) continue;
+
+      const durationMs = (step.estimated_minutes || this.DEFAULT_STEP_MINUTES) * this.MS_PER_MINUTE;
+      const slot = this.findSlotForward(wcWindows, busy.get(step.work_center_id) || [], earliest, durationMs, horizonEnd);
+      if (!slot) break; // Later steps cannot start before this one
+
+      placed.set(step.id, slot);
+      this.addInterval(busy, step.work_center_id, slot);
+      earliest = slot.end;
+    }
+
+    return placed;
+  }
+
+  /**
+   * Place an order's steps from the last one back, each finishing as late as
+   * possible before the due date. Returns null (and releases any capacity it
+   * took) when a step does not fit, so the caller can fall back to forward.
+   */
+  private static placeOrderBackward(
+    steps: { id: string; work_center_id: string | null; estimated_minutes: number | null }[],
+    runByStep: Map<string, { id: string; scheduled_start_ts: string | null; scheduled_end_ts: string | null }>,
+    movableRunIds: Set<string>,
+    busy: Map<string, TimeInterval[]>,
+    windows: Map<string, TimeInterval[]>,
+    latestEnd: number,
+    horizonStart: number
+  ): Map<string, TimeInterval> | null {
+    const placed = new Map<string, TimeInterval>();
+    let latest = latestEnd;
+
+    const release = () => {
+      for (const [stepId, slot] of placed) {
+        const wcId = steps.find(s => s.id === stepId)?.work_center_id;
+        if (wcId) busy.set(wcId, (busy.get(wcId) || []).filter(b => b !== slot));
+      }
+    };
+
+    for (const step of [...steps].reverse()) {
+      const run = runByStep.get(step.id);
+
+      if (run && !movableRunIds.has(run.id)) {
+        if (run.scheduled_start_ts) {
+          latest = Math.min(latest, new Date(run.scheduled_start_ts).getTime());
+        }
+        continue;
+      }
+
+      const wcWindows = step.work_center_id ? windows.get(step.work_center_id) : undefined;
+      if (!step.work_center_id || !wcWindows) continue;
+
+      const durationMs = (step.estimated_minutes || this.DEFAULT_STEP_MINUTES) * this.MS_PER_MINUTE;
+      const slot = this.findSlotBackward(wcWindows, busy.get(step.work_center_id) || [], latest, durationMs, horizonStart);
+      if (!slot) {
+        release();
+        return null;
+      }
+
+      placed.set(step.id, slot);
+      this.addInterval(busy, step.work_center_id, slot);
+      latest = slot.start;
+    }
+
+    return placed;
+  }
+
+  /**
+   * Earliest [start, end] at or after `earliest` holding durationMs of working
+   * time with no busy interval inside it
+   */
+  private static findSlotForward(
+    windows: TimeInterval[],
+    busy: TimeInterval[],
+    earliest: number,
+    durationMs: number,
+    horizonEnd: number
+  ): TimeInterval | null {
+    let candidate = earliest;
+
+    while (candidate < horizonEnd) {
+      // Snap to working time
+      const window = windows.find(w => w.end > candidate);
+      if (!window) return null;
+      candidate = Math.max(candidate, window.start);
+
+      // Accumulate working time until the duration is covered
+      let remaining = durationMs;
+      let end: number | null = null;
+      for (const w of windows) {
+        if (w.end <= candidate) continue;
+        const segStart = Math.max(w.start, candidate);
+        const available = w.end - segStart;
+        if (available >= remaining) {
+          end = segStart + remaining;
+          break;
+        }
+        remaining -= available;
+      }
+      if (end === null) return null;
+
+      const blocking = busy
+        .filter(b => b.start < (end as number) && b.end > candidate)
+        .sort((a, b) => a.start - b.start)[0];
+      if (!blocking) return { start: candidate, end };
+
+      candidate = blocking.end;
+    }
+
+    return null;
+  }
+
+  /**
+   * Latest [start, end] ending at or before `latest` holding durationMs of
+   * working time with no busy interval inside it
+   */
+  private static findSlotBackward(
+    windows: TimeInterval[],
+    busy: TimeInterval[],
+    latest: number,
+    durationMs: number,
+    horizonStart: number
+  ): TimeInterval | null {
+    let candidate = latest;
+
+    while (candidate > horizonStart) {
+      const window = [...windows].reverse().find(w => w.start < candidate);
+      if (!window) return null;
+      candidate = Math.min(candidate, window.end);
+
+      let remaining = durationMs;
+      let start: number | null = null;
+      for (const w of [...windows].reverse()) {
+        if (w.start >= candidate) continue;
+        const segEnd = Math.min(w.end, candidate);
+        const available = segEnd - w.start;
+        if (available >= remaining) {
+          start = segEnd - remaining;
+          break;
+        }
+        remaining -= available;
+      }
+      if (start === null || start < horizonStart) return null;
+
+      const blocking = busy
+        .filter(b => b.start < candidate && b.end > (start as number))
+        .sort((a, b) => b.end - a.end)[0];
+      if (!blocking) return { start, end: candidate };
+
+      candidate = blocking.start;
+    }
+
+    return null;
+  }
+
+  private static addInterval(map: Map<string, TimeInterval[]>, key: string, interval: TimeInterval): void {
+    const list = map.get(key) || [];
+    list.push(interval);
+    map.set(key, list);
+  }
 }
@@ -4,14 +4,29 @@
  * Handles quality execution operations including:
  * - Inspection plan management
  * - Inspection run execution
- * - Measurement recording with audit trail
+ * - AQL lot sampling (sample size and accept/reject) on incoming and final inspections
+ * - Measurement recording with audit trail and calibrated gauges
  * - NCR creation and disposition
- * - CAPA management
+ * - CAPA management (8D workflow in CAPAService)
+ * - Electronic signatures on disposition approval, CAPA verification and
+ *   inspection waivers (ElectronicSignatureService)
  *
  * Integrates with work orders and traveler workflow.
  */
 
 import { supabase } from '../lib/supabase';
+import type { SPCChartType } from './SPCService';
+import { AQLSamplingService } from './AQLSamplingService';
+import { GaugeService } from './GaugeService';
+import { ElectronicSignatureService } from './ElectronicSignatureService';
+import type { SignatureCredentials } from './ElectronicSignatureService';
+import type {
+  AQLSamplingPlan,
+  InspectionLevel,
+  InspectionSeverity,
+  LotDisposition,
+  SamplingScheme,
+} from './AQLSamplingService';
 
 // =====================================================
 // TYPES
@@ -23,7 +38,7 @@ export type CharacteristicType = 'VARIABLE' | 'ATTRIBUTE';
 export type DataCaptureType = 'numeric' | 'pass_fail' | 'count' | 'text' | 'photo';
 export type SamplingMethod = '100_PERCENT' | 'EVERY_N' | 'PER_LOT' | 'AQL';
 export type InspectionRunStatus = 'PENDING' | 'IN_PROGRESS' | 'PASSED' | 'FAILED' | 'WAIVED';
-export type NCSource = 'INSPECTION' | 'OPERATOR_REPORTED' | 'CUSTOMER_RETURN' | 'AUDIT';
+export type NCSource = 'INSPECTION' | 'OPERATOR_REPORTED' | 'CUSTOMER_RETURN' | 'AUDIT' | 'SUPPLIER';
 export type NCSeverity = 'MINOR' | 'MAJOR' | 'CRITICAL';
 export type NCStatus = 'OPEN' | 'UNDER_REVIEW' | 'DISPOSITIONED' | 'CLOSED';
 export type DispositionType = 'SCRAP' | 'REWORK' | 'USE_AS_IS' | 'RETURN_TO_VENDOR' | 'SORT_100';
@@ -37,6 +52,8 @@ export interface SamplingPlan {
   sample_size?: number;
   frequency_n?: number;
   aql_level?: string;
+  inspection_level?: InspectionLevel;
+  sampling_scheme?: SamplingScheme;
   is_active: boolean;
 }
 
@@ -60,6 +77,7 @@ export interface InspectionPlan {
   created_by?: string;
   sampling_plan_id?: string;
   sampling_plan?: SamplingPlan;
+  first_article_required?: boolean; // Raise an FAI for new parts, revisions and routing changes of the product
   characteristics?: Characteristic[];
 }
 
@@ -77,7 +95,10 @@ export interface Characteristic {
   lsl?: number;
   usl?: number;
   sampling_plan_id?: string;
+  gage_id?: string | null; // Default gauge
   data_capture?: DataCaptureType;
+  spc_chart_type?: SPCChartType | null; // NULL = chosen from type and subgroup size
+  subgroup_size?: number | null;
   is_critical?: boolean;
   required?: boolean;
   instructions?: string;
@@ -94,10 +115,31 @@ export interface InspectionRun {
   equipment_asset_id?: string;
   lot_id?: string;
   serial_id?: string;
+  part_id?: string;
+  vendor_id?: string;
+  po_receipt_id?: string; // Incoming inspection of a PO receipt
+  // AQL lot sampling (set when the plan samples by AQL)
+  lot_size?: number;
+  aql_level?: string;
+  inspection_level?: InspectionLevel;
+  sampling_scheme?: SamplingScheme;
+  inspection_severity?: InspectionSeverity;
+  code_letter?: string;
+  sample_size?: number;
+  accept_number?: number;
+  reject_number?: number;
+  second_sample_size?: number;
+  second_accept_number?: number;
+  second_reject_number?: number;
+  first_sample_defects?: number;
+  second_sample_defects?: number;
+  lot_disposition?: LotDisposition;
   status: InspectionRunStatus;
   started_at?: string;
   completed_at?: string;
   inspector_id?: string;
+  waived_by?: string;
+  waived_at?: string;
   total_characteristics: number;
   passed_characteristics: number;
   failed_characteristics: number;
@@ -115,11 +157,13 @@ export interface Measurement {
   defect_count?: number;
   notes?: string;
   attachment_url?: string;
+  gauge_id?: string;
   is_within_spec?: boolean;
   revision_number: number;
   recorded_by?: string;
   recorded_at: string;
   characteristic?: Characteristic;
+  gauge?: { gauge_number: string; name: string } | null;
 }
 
 export interface MeasurementInput {
@@ -129,6 +173,7 @@ export interface MeasurementInput {
   defect_count?: number;
   notes?: string;
   attachment_url?: string;
+  gauge_id?: string;
 }
 
 export interface DefectCode {
@@ -153,6 +198,10 @@ export interface Nonconformance {
   serial_id?: string;
   part_id?: string;
   product_id?: string;
+  vendor_id?: string;
+  po_receipt_id?: string;
+  stock_location_id?: string; // Nonconforming stock at this location is held automatically
+  lot_number?: string;
   severity: NCSeverity;
   status: NCStatus;
   title: string;
@@ -188,6 +237,15 @@ export interface Disposition {
   execution_notes?: string;
 }
 
+export interface FiveWhyStep {
+  why: string;
+  because: string;
+}
+
+export type FishboneCategory = 'man' | 'machine' | 'method' | 'material' | 'measurement' | 'environment';
+
+export type Fishbone = Partial<Record<FishboneCategory, string[]>>;
+
 export interface CAPA {
   id: string;
   capa_number: string;
@@ -205,6 +263,22 @@ export interface CAPA {
   verified_by?: string;
   verified_at?: string;
   verification_notes?: string;
+  // 8D workflow (see CAPAService)
+  title?: string;
+  discipline?: number;
+  problem_statement?: string;
+  problem_is_not?: string;
+  five_whys?: FiveWhyStep[];
+  fishbone?: Fishbone;
+  effectiveness_criteria?: string;
+  is_effective?: boolean | null;
+  lessons_learned?: string;
+  closed_by?: string;
+  closed_at?: string;
+  due_date?: string;
+  escalation_level?: number;
+  escalated_at?: string;
+  created_at?: string;
 }
 
 export interface CreateInspectionRunInput {
@@ -215,6 +289,14 @@ export interface CreateInspectionRunInput {
   equipment_asset_id?: string;
   lot_id?: string;
   serial_id?: string;
+  part_id?: string;
+  vendor_id?: string;
+  po_receipt_id?: string;
+  lot_size?: number; // Required for AQL-sampled incoming and final inspections
+}
+
+export interface CompleteInspectionInput {
+  defects_found?: number; // Nonconforming units in the current AQL sample; counted from measurements if omitted
 }
 
 export interface CreateNCInput {
@@ -226,6 +308,10 @@ export interface CreateNCInput {
   serial_id?: string;
   part_id?: string;
   product_id?: string;
+  vendor_id?: string;
+  po_receipt_id?: string;
+  stock_location_id?: string;
+  lot_number?: string;
   severity: NCSeverity;
   title: string;
   description?: string;
@@ -314,6 +400,7 @@ class QualityExecutionServiceClass {
       .from('quality_inspection_plans')
       .select(`
         *,
+        sampling_plan:quality_sampling_plans(*),
         characteristics:quality_characteristics(*)
       `)
       .eq('id', id)
@@ -337,6 +424,8 @@ class QualityExecutionServiceClass {
     };
 
     if (input.part_id) plan.part_id = input.part_id;
+    if (input.product_id) plan.product_id = input.product_id;
+    if (input.first_article_required) plan.first_article_required = true;
     if (input.operation_id) plan.production_step_id = input.operation_id;
     if (input.work_center_id) plan.work_center_id = input.work_center_id;
     if (input.sampling_plan_id) plan.sampling_plan_id = input.sampling_plan_id;
@@ -368,6 +457,8 @@ class QualityExecutionServiceClass {
     if (updates.is_active !== undefined) dbUpdates.is_active = updates.is_active;
     if (updates.sampling_plan_id !== undefined) dbUpdates.sampling_plan_id = updates.sampling_plan_id;
     if (updates.description !== undefined) dbUpdates.description = updates.description;
+    if (updates.product_id !== undefined) dbUpdates.product_id = updates.product_id;
+    if (updates.first_article_required !== undefined) dbUpdates.first_article_required = updates.first_article_required;
 
     const { data, error } = await supabase
       .from('quality_inspection_plans')
@@ -420,7 +511,10 @@ class QualityExecutionServiceClass {
       sequence: input.sequence || 1,
       is_active: true,
       required: true,
-      data_capture: 'numeric',
+      data_capture: input.data_capture || 'numeric',
+      spc_chart_type: input.spc_chart_type ?? null,
+      subgroup_size: input.subgroup_size ?? null,
+      gage_id: input.gage_id ?? null,
     };
 
     const { data, error } = await supabase
@@ -466,6 +560,10 @@ class QualityExecutionServiceClass {
     if (updates.is_critical !== undefined) dbUpdates.is_critical = updates.is_critical;
     if (updates.instructions !== undefined) dbUpdates.instructions = updates.instructions;
     if (updates.sequence !== undefined) dbUpdates.sequence = updates.sequence;
+    if (updates.data_capture !== undefined) dbUpdates.data_capture = updates.data_capture;
+    if (updates.spc_chart_type !== undefined) dbUpdates.spc_chart_type = updates.spc_chart_type;
+    if (updates.subgroup_size !== undefined) dbUpdates.subgroup_size = updates.subgroup_size;
+    if (updates.gage_id !== undefined) dbUpdates.gage_id = updates.gage_id;
 
     const { data, error } = await supabase
       .from('quality_characteristics')
@@ -511,7 +609,8 @@ class QualityExecutionServiceClass {
         plan:quality_inspection_plans(*),
         measurements:quality_measurements(
           *,
-          characteristic:quality_characteristics(*)
+          characteristic:quality_characteristics(*),
+          gauge:quality_gauges(gauge_number, name)
         )
       `)
       .order('created_at', { ascending: false });
@@ -544,11 +643,13 @@ class QualityExecutionServiceClass {
         *,
         plan:quality_inspection_plans(
           *,
+          sampling_plan:quality_sampling_plans(*),
           characteristics:quality_characteristics(*)
         ),
         measurements:quality_measurements(
           *,
-          characteristic:quality_characteristics(*)
+          characteristic:quality_characteristics(*),
+          gauge:quality_gauges(gauge_number, name)
         )
       `)
       .eq('id', id)
@@ -569,11 +670,13 @@ class QualityExecutionServiceClass {
     }
 
     const activeCharacteristics = plan.characteristics?.filter(c => c.is_active && c.required) || [];
+    const aqlFields = await this.computeAQLFields(plan, input);
 
     const { data, error } = await supabase
       .from('quality_inspection_runs')
       .insert({
         ...input,
+        ...aqlFields,
         status: 'PENDING',
         total_characteristics: activeCharacteristics.length,
         passed_characteristics: 0,
@@ -637,11 +740,16 @@ class QualityExecutionServiceClass {
     // Check if measurement already exists for this characteristic
     const { data: existingMeasurement } = await supabase
       .from('quality_measurements')
-      .select('id')
+      .select('id, gauge_id')
       .eq('inspection_run_id', runId)
       .eq('characteristic_id', input.characteristic_id)
       .single();
 
+    // Out-of-calibration gauges cannot be used; edits keeping the original gauge are allowed
+    if (input.gauge_id && input.gauge_id !== existingMeasurement?.gauge_id) {
+      await GaugeService.assertGaugeUsable(input.gauge_id);
+    }
+
     let measurement: Measurement;
 
     if (existingMeasurement) {
@@ -717,11 +825,15 @@ class QualityExecutionServiceClass {
       .eq('id', runId);
   }
 
-  async completeInspection(runId: string): Promise<InspectionRun> {
+  async completeInspection(runId: string, input?: CompleteInspectionInput): Promise<InspectionRun> {
     // Get current run with measurements
     const run = await this.getInspectionRun(runId);
     if (!run) throw new Error('Inspection run not found');
 
+    if (run.accept_number !== null && run.accept_number !== undefined) {
+      return this.completeAQLInspection(run, input);
+    }
+
     // Determine pass/fail status
     const status: InspectionRunStatus = run.failed_characteristics > 0 ? 'FAILED' : 'PASSED';
 
@@ -740,12 +852,163 @@ class QualityExecutionServiceClass {
     return data;
   }
 
-  async waiveInspection(runId: string, reason: string): Promise<InspectionRun> {
+  // =====================================================
+  // AQL LOT SAMPLING
+  // =====================================================
+
+  /**
+   * Compute the Z1.4 plan for a new run. Applies to incoming and final
+   * inspections whose sampling plan uses the AQL method; severity comes from
+   * the switching state of the part and vendor.
+   */
+  private async computeAQLFields(
+    plan: InspectionPlan,
+    input: CreateInspectionRunInput
+  ): Promise<Record<string, unknown>> {
+    const sampling = plan.sampling_plan;
+    if (!sampling || sampling.method !== 'AQL') return {};
+    if (plan.plan_type !== 'INCOMING' && plan.plan_type !== 'FINAL') return {};
+
+    if (!sampling.aql_level) {
+      throw new Error(`Sampling plan ${sampling.name} has no AQL level`);
+    }
+
+    let lotSize = input.lot_size;
+    if (!lotSize && input.production_order_id) {
+      const { data: order, error } = await supabase
+        .from('production_orders')
+        .select('quantity_ordered')
+        .eq('id', input.production_order_id)
+        .single();
+
+      if (error) throw error;
+      lotSize = order?.quantity_ordered || undefined;
+    }
+    if (!lotSize || lotSize < 1) {
+      throw new Error('Lot size is required for AQL sampling');
+    }
+
+    const partId = input.part_id || plan.part_id || null;
+    const vendorId = input.vendor_id || (plan.plan_type === 'INCOMING' ? plan.vendor_id : null) || null;
+    const severity = partId ? await AQLSamplingService.getSeverity(partId, vendorId) : 'NORMAL';
+
+    const aqlPlan = AQLSamplingService.getSamplingPlan({
+      lot_size: lotSize,
+      aql: sampling.aql_level,
+      inspection_level: sampling.inspection_level || 'II',
+      scheme: sampling.sampling_scheme || 'SINGLE',
+      severity,
+    });
+
+    return {
+      part_id: partId,
+      vendor_id: vendorId,
+      lot_size: lotSize,
+      aql_level: aqlPlan.aql,
+      inspection_level: aqlPlan.inspection_level,
+      sampling_scheme: aqlPlan.scheme,
+      inspection_severity: aqlPlan.severity,
+      code_letter: aqlPlan.code_letter,
+      sample_size: aqlPlan.sample_size,
+      accept_number: aqlPlan.accept_number,
+      reject_number: aqlPlan.reject_number,
+      second_sample_size: aqlPlan.second_sample_size ?? null,
+      second_accept_number: aqlPlan.second_accept_number ?? null,
+      second_reject_number: aqlPlan.second_reject_number ?? null,
+    };
+  }
+
+  /**
+   * Judge the current sample of an AQL run. A double-sampling run whose first
+   * sample falls between Ac and Re stays in progress for the second sample.
+   */
+  private async completeAQLInspection(run: InspectionRun, input?: CompleteInspectionInput): Promise<InspectionRun> {
+    const defects = input?.defects_found ?? (run.measurements || []).reduce((sum, m) => {
+      if (m.defect_count !== null && m.defect_count !== undefined) return sum + m.defect_count;
+      return sum + (m.is_within_spec === false ? 1 : 0);
+    }, 0);
+
+    if (defects < 0) throw new Error('Defects found cannot be negative');
+
+    const plan = this.aqlPlanFromRun(run);
+    const firstDefects = run.first_sample_defects;
+    const secondSample = typeof firstDefects === 'number';
+    const decision = secondSample
+      ? AQLSamplingService.decideLot(plan, firstDefects, defects)
+      : AQLSamplingService.decideLot(plan, defects);
+
+    const updates: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    };
+    if (secondSample) {
+      updates.second_sample_defects = defects;
+    } else {
+      updates.first_sample_defects = defects;
+    }
+
+    if (decision.second_sample_required) {
+      updates.status = 'IN_PROGRESS';
+    } else {
+      updates.status = decision.disposition === 'ACCEPTED' ? 'PASSED' : 'FAILED';
+      updates.lot_disposition = decision.disposition;
+      updates.completed_at = new Date().toISOString();
+    }
+
+    const { data, error } = await supabase
+      .from('quality_inspection_runs')
+      .update(updates)
+      .eq('id', run.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (decision.disposition && run.part_id) {
+      await AQLSamplingService.recordLotResult(run.part_id, run.vendor_id, {
+        run_id: run.id,
+        plan,
+        disposition: decision.disposition,
+        defects: (secondSample ? firstDefects : 0) + defects,
+        accepted_on_first_sample: decision.accepted_on_first_sample,
+        reinstate_normal: decision.reinstate_normal,
+      });
+    }
+
+    return data;
+  }
+
+  private aqlPlanFromRun(run: InspectionRun): AQLSamplingPlan {
+    return {
+      lot_size: run.lot_size || 0,
+      aql: run.aql_level || '',
+      inspection_level: run.inspection_level || 'II',
+      scheme: run.sampling_scheme || 'SINGLE',
+      severity: run.inspection_severity || 'NORMAL',
+      code_letter: run.code_letter || '',
+      sample_size: run.sample_size || 0,
+      accept_number: run.accept_number ?? 0,
+      reject_number: run.reject_number ?? 1,
+      second_sample_size: run.second_sample_size ?? undefined,
+      second_accept_number: run.second_accept_number ?? undefined,
+      second_reject_number: run.second_reject_number ?? undefined,
+      hundred_percent: !!run.lot_size && (run.sample_size || 0) >= run.lot_size,
+    };
+  }
+
+  /**
+   * Waive an inspection. The waiver is approved by the current user's
+   * electronic signature, whose reason is recorded as the waiver reason.
+   */
+  async waiveInspection(runId: string, credentials: SignatureCredentials): Promise<InspectionRun> {
+    const signature = await ElectronicSignatureService.sign('INSPECTION_RUN', runId, 'APPROVED', credentials);
+
     const { data, error } = await supabase
       .from('quality_inspection_runs')
       .update({
         status: 'WAIVED',
-        notes: reason,
+        notes: credentials.reason.trim(),
+        waived_by: signature.signed_by,
+        waived_at: signature.signed_at,
         completed_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
@@ -863,7 +1126,7 @@ class QualityExecutionServiceClass {
           defect_code:quality_defect_codes(*)
         ),
         disposition:quality_dispositions(*),
-        capa:quality_capa(*)
+        capa:quality_capa!quality_capa_nonconformance_id_fkey(*)
       `)
       .order('reported_at', { ascending: false });
 
@@ -898,7 +1161,7 @@ class QualityExecutionServiceClass {
           defect_code:quality_defect_codes(*)
         ),
         disposition:quality_dispositions(*),
-        capa:quality_capa(*)
+        capa:quality_capa!quality_capa_nonconformance_id_fkey(*)
       `)
       .eq('id', id)
       .single();
@@ -996,20 +1259,28 @@ class QualityExecutionServiceClass {
     return data;
   }
 
-  async approveDisposition(dispositionId: string, approvedBy: string): Promise<Disposition> {
-    const { data, error } = await supabase
-      .from('quality_dispositions')
-      .update({
-        approved_by: approvedBy,
-        approved_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', dispositionId)
-      .select()
-      .single();
+  /**
+   * Approve a disposition and apply it to the stock held for its NC:
+   * USE_AS_IS releases it, SCRAP and RETURN_TO_VENDOR remove it from
+   * inventory, REWORK and SORT_100 move it to targetLocationId (when given)
+   * where it stays quarantined until the disposition is executed.
+   * Requires the approver's electronic signature; the signed-in user is
+   * recorded as the approver.
+   */
+  async approveDisposition(
+    dispositionId: string,
+    credentials: SignatureCredentials,
+    targetLocationId?: string
+  ): Promise<Disposition> {
+    await ElectronicSignatureService.sign('DISPOSITION', dispositionId, 'APPROVED', credentials);
+
+    const { data, error } = await supabase.rpc('fn_approve_disposition', {
+      p_disposition_id: dispositionId,
+      p_target_location_id: targetLocationId || null,
+    });
 
     if (error) throw error;
-    return data;
+    return data as unknown as Disposition;
   }
 
   async executeDisposition(
@@ -1085,7 +1356,14 @@ class QualityExecutionServiceClass {
     return data;
   }
 
-  async verifyCAPA(id: string, verifiedBy: string, notes?: string): Promise<CAPA> {
+  async verifyCAPA(
+    id: string,
+    verifiedBy: string,
+    credentials: SignatureCredentials,
+    notes?: string
+  ): Promise<CAPA> {
+    await ElectronicSignatureService.sign('CAPA', id, 'VERIFIED', credentials);
+
     const { data, error } = await supabase
       .from('quality_capa')
       .update({
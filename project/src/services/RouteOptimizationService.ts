@@ -39,6 +39,74 @@ export interface RouteOptimizationResult {
   error?: string;
 }
 
+// Times in the day plan are minutes after midnight on the planned day
+export interface DayPlanTechnician {
+  id: string;
+  name: string;
+  startLocation: { latitude: number; longitude: number } | null;
+  shiftStart: number;
+  shiftEnd: number;
+  lunchEarliest: number;
+  lunchLatest: number;
+  lunchMinutes: number;
+}
+
+export interface DayPlanJob extends Omit<RouteStop, 'scheduledTime' | 'estimatedDuration'> {
+  duration: number; // in minutes
+  windowStart: number | null; // earliest arrival
+  windowEnd: number | null; // latest arrival
+  lockedTechnicianId: string | null; // must stay with this technician
+}
+
+export interface PlannedVisit {
+  jobId: string;
+  arrival: number;
+  start: number;
+  end: number;
+  driveMinutes: number;
+  distance: number; // in miles
+  waitMinutes: number;
+  lateMinutes: number;
+}
+
+export interface PlannedTechnicianRoute {
+  technicianId: string;
+  technicianName: string;
+  visits: PlannedVisit[];
+  lunch: { start: number; end: number } | null;
+  totalDistance: number;
+  totalDriveMinutes: number;
+  endTime: number;
+  overtimeMinutes: number;
+  lunchLateMinutes: number;
+}
+
+export interface DayPlan {
+  routes: PlannedTechnicianRoute[];
+  unassignedJobIds: string[];
+  scheduledJobs: number;
+  totalDistance: number;
+  totalDriveMinutes: number;
+  lateVisits: number;
+  lateMinutes: number;
+  overtimeMinutes: number;
+  cost: number;
+}
+
+/** Cost weights for the day planner; drive minutes cost 1 */
+const DAY_PLAN_COSTS = {
+  latePerMinute: 50,
+  overtimePerMinute: 10,
+  lunchLatePerMinute: 5,
+  waitPerMinute: 0.2,
+  emergencyAfterOtherJob: 10000,
+  // Per minute after shift start, so urgent work is done early in the day
+  startDelayPerMinute: { emergency: 2, high: 0.5, normal: 0, low: 0 } as Record<RouteStop['priority'], number>,
+  unassigned: { emergency: 100000, high: 10000, normal: 3000, low: 1500 } as Record<RouteStop['priority'], number>,
+};
+
+const PRIORITY_ORDER: Record<RouteStop['priority'], number> = { emergency: 0, high: 1, normal: 2, low: 3 };
+
 // Haversine formula for calculating distance between two points
 function haversineDistance(
   lat1: number,
@@ -65,6 +133,171 @@ function estimateDrivingTime(distanceMiles: number): number {
   return Math.round((distanceMiles / averageSpeed) * 60); // minutes
 }
 
+// Road travel for day planning: straight-line distance with a road detour
+// factor, slower speeds for short trips and a few minutes to park
+function estimateRoadTravel(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): { distance: number; duration: number } {
+  const road = haversineDistance(from.latitude, from.longitude, to.latitude, to.longitude) * 1.3;
+  if (road < 0.05) return { distance: 0, duration: 0 };
+  const speed = road < 3 ? 20 : road < 15 ? 30 : 45; // mph
+  return { distance: road, duration: Math.round((road / speed) * 60) + 5 };
+}
+
+interface DayRouteEvaluation {
+  route: PlannedTechnicianRoute;
+  cost: number;
+  // Late and overtime minutes, plus a large step when an emergency is not
+  // first; zero means the route is feasible
+  violation: number;
+}
+
+/**
+ * Simulate a technician's day for a sequence of jobs. Lunch is taken before
+ * setting off once it is due, or while waiting for an arrival window.
+ */
+function evaluateDayRoute(
+  tech: DayPlanTechnician,
+  jobs: DayPlanJob[],
+  travel: (from: { key: string; latitude: number; longitude: number } | null, to: DayPlanJob) => { distance: number; duration: number }
+): DayRouteEvaluation {
+  let time = tech.shiftStart;
+  let location: { key: string; latitude: number; longitude: number } | null = tech.startLocation
+    ? { key: `tech:${tech.id}`, ...tech.startLocation }
+    : null;
+  let lunch: { start: number; end: number } | null = null;
+  let cost = 0;
+  let otherJobSeen = false;
+  let emergencyOrderOk = true;
+  const visits: PlannedVisit[] = [];
+
+  const takeLunch = (at: number) => {
+    const start = Math.max(at, tech.lunchEarliest);
+    lunch = { start, end: start + tech.lunchMinutes };
+    return lunch.end;
+  };
+
+  for (const job of jobs) {
+    if (!lunch && tech.lunchMinutes > 0 && time >= tech.lunchEarliest) {
+      time = takeLunch(time);
+    }
+
+    const leg = travel(location, job);
+    const arrival = time + leg.duration;
+    if (!lunch && tech.lunchMinutes > 0 && job.windowStart !== null) {
+      const lunchStart = Math.max(arrival, tech.lunchEarliest);
+      if (lunchStart + tech.lunchMinutes <= job.windowStart && lunchStart <= tech.lunchLatest) {
+        takeLunch(arrival);
+      }
+    }
+
+    const start = Math.max(arrival, job.windowStart ?? arrival);
+    const lateMinutes = job.windowEnd !== null ? Math.max(0, start - job.windowEnd) : 0;
+    const end = start + job.duration;
+
+    if (job.priority === 'emergency') {
+      if (otherJobSeen) emergencyOrderOk = false;
+    } else {
+      otherJobSeen = true;
+    }
+
+    visits.push({
+      jobId: job.id,
+      arrival,
+      start,
+      end,
+      driveMinutes: leg.duration,
+      distance: Math.round(leg.distance * 10) / 10,
+      waitMinutes: start - arrival,
+      lateMinutes,
+    });
+
+    cost += leg.duration
+      + (start - arrival) * DAY_PLAN_COSTS.waitPerMinute
+      + lateMinutes * DAY_PLAN_COSTS.latePerMinute
+      + (start - tech.shiftStart) * DAY_PLAN_COSTS.startDelayPerMinute[job.priority];
+
+    time = end;
+    location = { key: job.id, latitude: job.latitude, longitude: job.longitude };
+  }
+
+  // A day that runs through lunch still gets one, after the last job if need be
+  if (!lunch && tech.lunchMinutes > 0 && visits.length > 0 && time > tech.lunchEarliest) {
+    time = takeLunch(time);
+  }
+
+  const plannedLunch = lunch as { start: number; end: number } | null;
+  const lunchLateMinutes = plannedLunch ? Math.max(0, plannedLunch.start - tech.lunchLatest) : 0;
+  const overtimeMinutes = Math.max(0, time - tech.shiftEnd);
+  const lateMinutes = visits.reduce((sum, v) => sum + v.lateMinutes, 0);
+
+  cost += overtimeMinutes * DAY_PLAN_COSTS.overtimePerMinute
+    + lunchLateMinutes * DAY_PLAN_COSTS.lunchLatePerMinute
+    + (emergencyOrderOk ? 0 : DAY_PLAN_COSTS.emergencyAfterOtherJob);
+
+  return {
+    route: {
+      technicianId: tech.id,
+      technicianName: tech.name,
+      visits,
+      lunch: plannedLunch,
+      totalDistance: Math.round(visits.reduce((sum, v) => sum + v.distance, 0) * 10) / 10,
+      totalDriveMinutes: visits.reduce((sum, v) => sum + v.driveMinutes, 0),
+      endTime: time,
+      overtimeMinutes,
+      lunchLateMinutes,
+    },
+    cost,
+    violation: lateMinutes + overtimeMinutes + (emergencyOrderOk ? 0 : 1000),
+  };
+}
+
+type DayTravel = (
+  from: { key: string; latitude: number; longitude: number } | null,
+  to: DayPlanJob
+) => { distance: number; duration: number };
+
+function createDayTravel(): DayTravel {
+  const cache = new Map<string, { distance: number; duration: number }>();
+  return (from, to) => {
+    if (!from) return { distance: 0, duration: 0 };
+    const key = `${from.key}|${to.id}`;
+    let leg = cache.get(key);
+    if (!leg) {
+      leg = estimateRoadTravel(from, to);
+      cache.set(key, leg);
+    }
+    return leg;
+  };
+}
+
+function summarizeDayPlan(
+  technicians: DayPlanTechnician[],
+  sequences: Map<string, DayPlanJob[]>,
+  unassigned: DayPlanJob[],
+  travel: DayTravel
+): DayPlan {
+  const evaluations = technicians.map((tech) => evaluateDayRoute(tech, sequences.get(tech.id) || [], travel));
+  const routes = evaluations.map((e) => e.route);
+  const visits = routes.flatMap((r) => r.visits);
+
+  return {
+    routes,
+    unassignedJobIds: unassigned.map((j) => j.id),
+    scheduledJobs: visits.length,
+    totalDistance: Math.round(routes.reduce((sum, r) => sum + r.totalDistance, 0) * 10) / 10,
+    totalDriveMinutes: routes.reduce((sum, r) => sum + r.totalDriveMinutes, 0),
+    lateVisits: visits.filter((v) => v.lateMinutes > 0).length,
+    lateMinutes: visits.reduce((sum, v) => sum + v.lateMinutes, 0),
+    overtimeMinutes: routes.reduce((sum, r) => sum + r.overtimeMinutes, 0),
+    cost: Math.round(
+      evaluations.reduce((sum, e) => sum + e.cost, 0)
+      + unassigned.reduce((sum, j) => sum + DAY_PLAN_COSTS.unassigned[j.priority], 0)
+    ),
+  };
+}
+
 export class RouteOptimizationService {
   /**
    * Optimize route for a single technician using nearest neighbor algorithm
@@ -288,6 +521,20 @@ export class RouteOptimizationService {
     }
   }
 
+  /**
+   * Estimate distance (miles) and driving time (minutes) between two points
+   */
+  static estimateTravel(
+    from: { latitude: number; longitude: number },
+    to: { latitude: number; longitude: number }
+  ): { distance: number; duration: number } {
+    const distance = haversineDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+    return {
+      distance: Math.round(distance * 10) / 10,
+      duration: estimateDrivingTime(distance),
+    };
+  }
+
   /**
    * Calculate distance matrix between all stops (for advanced optimization)
    */
@@ -415,6 +662,192 @@ export class RouteOptimizationService {
     return bestTech;
   }
 
+  /**
+   * Plan a day across several technicians (VRP with time windows).
+   *
+   * Jobs are placed by cheapest insertion, emergencies first, then improved
+   * with 2-opt within routes and or-opt moves of 1-3 consecutive jobs within
+   * and between routes. A move is kept only if it lowers the plan cost without
+   * making any route later or longer than its shift. Jobs that cannot be
+   * placed on time are left unassigned.
+   */
+  static planDay(
+    technicians: DayPlanTechnician[],
+    jobs: DayPlanJob[],
+    options: { maxIterations?: number } = {}
+  ): DayPlan {
+    const maxIterations = options.maxIterations ?? 100;
+    const travel = createDayTravel();
+    const techById = new Map(technicians.map((t) => [t.id, t]));
+    const sequences = new Map<string, DayPlanJob[]>(technicians.map((t) => [t.id, []]));
+    const evaluations = new Map<string, DayRouteEvaluation>(
+      technicians.map((t) => [t.id, evaluateDayRoute(t, [], travel)])
+    );
+    const unassigned: DayPlanJob[] = [];
+
+    const canServe = (job: DayPlanJob, techId: string) =>
+      !job.lockedTechnicianId || job.lockedTechnicianId === techId;
+
+    const commit = (techId: string, sequence: DayPlanJob[], evaluation: DayRouteEvaluation) => {
+      sequences.set(techId, sequence);
+      evaluations.set(techId, evaluation);
+    };
+
+    // Cheapest feasible position for a run of jobs across all technicians
+    const bestInsertion = (segment: DayPlanJob[], ignoreViolation: boolean) => {
+      let best: { techId: string; sequence: DayPlanJob[]; evaluation: DayRouteEvaluation; delta: number } | null = null;
+      for (const tech of technicians) {
+        if (!segment.every((job) => canServe(job, tech.id))) continue;
+        const current = sequences.get(tech.id)!;
+        const before = evaluations.get(tech.id)!;
+        for (let pos = 0; pos <= current.length; pos++) {
+          const sequence = [...current.slice(0, pos), ...segment, ...current.slice(pos)];
+          const evaluation = evaluateDayRoute(tech, sequence, travel);
+          if (!ignoreViolation && evaluation.violation > before.violation) continue;
+          const delta = evaluation.cost - before.cost;
+          if (!best || delta < best.delta) best = { techId: tech.id, sequence, evaluation, delta };
+        }
+      }
+      return best;
+    };
+
+    // Construction: urgent, tight-window and long jobs claim their slots first
+    const ordered = [...jobs].sort((a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]
+      || (a.windowEnd ?? Infinity) - (b.windowEnd ?? Infinity)
+      || b.duration - a.duration
+    );
+
+    for (const job of ordered) {
+      if (job.lockedTechnicianId && !techById.has(job.lockedTechnicianId)) {
+        unassigned.push(job);
+        continue;
+      }
+      // Jobs kept with their technician stay even if the day runs late
+      const best = bestInsertion([job], !!job.lockedTechnicianId);
+      if (best) {
+        commit(best.techId, best.sequence, best.evaluation);
+      } else {
+        unassigned.push(job);
+      }
+    }
+
+    const tryReinsertUnassigned = (): boolean => {
+      for (let i = 0; i < unassigned.length; i++) {
+        const job = unassigned[i];
+        if (job.lockedTechnicianId && !techById.has(job.lockedTechnicianId)) continue;
+        const best = bestInsertion([job], false);
+        if (best && best.delta < DAY_PLAN_COSTS.unassigned[job.priority]) {
+          commit(best.techId, best.sequence, best.evaluation);
+          unassigned.splice(i, 1);
+          return true;
+        }
+      }
+      return false;
+    };
+
+    const tryTwoOpt = (): boolean => {
+      for (const tech of technicians) {
+        const current = sequences.get(tech.id)!;
+        const before = evaluations.get(tech.id)!;
+        for (let i = 0; i < current.length - 1; i++) {
+          for (let j = i + 1; j < current.length; j++) {
+            const sequence = [
+              ...current.slice(0, i),
+              ...current.slice(i, j + 1).reverse(),
+              ...current.slice(j + 1),
+            ];
+            const evaluation = evaluateDayRoute(tech, sequence, travel);
+            if (evaluation.violation <= before.violation && evaluation.cost < before.cost - 0.01) {
+              commit(tech.id, sequence, evaluation);
+              return true;
+            }
+          }
+        }
+      }
+      return false;
+    };
+
+    const tryOrOpt = (): boolean => {
+      for (const from of technicians) {
+        const fromSequence = sequences.get(from.id)!;
+        const fromBefore = evaluations.get(from.id)!;
+
+        for (let length = 1; length <= 3; length++) {
+          for (let i = 0; i + length <= fromSequence.length; i++) {
+            const segment = fromSequence.slice(i, i + length);
+            const remaining = [...fromSequence.slice(0, i), ...fromSequence.slice(i + length)];
+            const fromAfter = evaluateDayRoute(from, remaining, travel);
+
+            for (const to of technicians) {
+              if (to.id !== from.id && !segment.every((job) => canServe(job, to.id))) continue;
+              const base = to.id === from.id ? remaining : sequences.get(to.id)!;
+              const toBefore = evaluations.get(to.id)!;
+
+              for (let pos = 0; pos <= base.length; pos++) {
+                if (to.id === from.id && pos === i) continue;
+                const sequence = [...base.slice(0, pos), ...segment, ...base.slice(pos)];
+                const toAfter = evaluateDayRoute(to, sequence, travel);
+
+                if (to.id === from.id) {
+                  if (toAfter.violation <= fromBefore.violation && toAfter.cost < fromBefore.cost - 0.01) {
+                    commit(to.id, sequence, toAfter);
+                    return true;
+                  }
+                } else if (
+                  fromAfter.violation <= fromBefore.violation
+                  && toAfter.violation <= toBefore.violation
+                  && fromAfter.cost + toAfter.cost < fromBefore.cost + toBefore.cost - 0.01
+                ) {
+                  commit(from.id, remaining, fromAfter);
+                  commit(to.id, sequence, toAfter);
+                  return true;
+                }
+              }
+            }
+          }
+        }
+      }
+      return false;
+    };
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      if (!tryReinsertUnassigned() && !tryTwoOpt() && !tryOrOpt()) break;
+    }
+
+    return summarizeDayPlan(technicians, sequences, unassigned, travel);
+  }
+
+  /**
+   * Score an existing schedule with the same model as planDay, so the two
+   * can be compared. Job ids are listed per technician in visit order;
+   * jobs on no list count as unassigned.
+   */
+  static evaluateDayPlan(
+    technicians: DayPlanTechnician[],
+    jobs: DayPlanJob[],
+    assignments: Record<string, string[]>
+  ): DayPlan {
+    const jobById = new Map(jobs.map((j) => [j.id, j]));
+    const placed = new Set<string>();
+    const sequences = new Map<string, DayPlanJob[]>();
+
+    for (const tech of technicians) {
+      const sequence = (assignments[tech.id] || [])
+        .map((id) => jobById.get(id))
+        .filter((job): job is DayPlanJob => !!job);
+      sequence.forEach((job) => placed.add(job.id));
+      sequences.set(tech.id, sequence);
+    }
+
+    return summarizeDayPlan(
+      technicians,
+      sequences,
+      jobs.filter((j) => !placed.has(j.id)),
+      createDayTravel()
+    );
+  }
+
   /**
    * Format ETA for display
    */
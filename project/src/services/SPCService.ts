@@ -2,8 +2,11 @@
  * SPCService
  *
  * Statistical Process Control service for Six Sigma-style analysis:
- * - Control chart datasets (X-bar, R, Individual-MR)
- * - Cp/Cpk and Pp/Ppk calculations
+ * - Control chart datasets (X-bar R, X-bar S, I-MR, p, np, c, u)
+ * - Cp/Cpk (within-subgroup sigma) and Pp/Ppk (overall sigma) with confidence intervals
+ * - Anderson-Darling normality test, Box-Cox and percentile methods for non-normal data
+ * - Capability studies for PPAP submissions
+ * - Locked control limits with approved revisions
  * - DPMO and Sigma level calculations
  * - Western Electric / Nelson rule violation detection
  *
@@ -16,6 +19,8 @@ import { supabase } from '../lib/supabase';
 // TYPES
 // =====================================================
 
+export type SPCChartType = 'XBAR_R' | 'XBAR_S' | 'IMR' | 'P' | 'NP' | 'C' | 'U';
+
 export type SPCViolationType =
   | 'WESTERN_ELECTRIC_1' | 'WESTERN_ELECTRIC_2' | 'WESTERN_ELECTRIC_3' | 'WESTERN_ELECTRIC_4'
   | 'NELSON_1' | 'NELSON_2' | 'NELSON_3' | 'NELSON_4' | 'NELSON_5' | 'NELSON_6' | 'NELSON_7' | 'NELSON_8';
@@ -34,6 +39,7 @@ export interface SPCSubgroup {
   stddev?: number;
   min_value?: number;
   max_value?: number;
+  defect_count?: number; // Attribute subgroups: defectives (p/np) or defects (c/u) among n
   points?: SPCPoint[];
 }
 
@@ -66,29 +72,154 @@ export interface ControlLimits {
   target?: number; // Target value (from characteristic)
 }
 
+export type CapabilityMethod = 'normal' | 'box_cox' | 'percentile';
+
+export interface NormalityTest {
+  statistic: number; // Anderson-Darling A², adjusted for sample size
+  pValue: number;
+  isNormal: boolean; // p >= 0.05
+}
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
 export interface ProcessCapability {
-  cp?: number;
+  cp?: number; // Potential (within-subgroup sigma)
   cpk?: number;
-  pp?: number;
+  pp?: number; // Performance (overall sigma)
   ppk?: number;
   cpu?: number; // Upper capability
   cpl?: number; // Lower capability
-  sigmaLevel?: number;
-  dpmo?: number;
+  ppu?: number;
+  ppl?: number;
+  cpCI?: ConfidenceInterval;
+  cpkCI?: ConfidenceInterval;
+  ppCI?: ConfidenceInterval;
+  ppkCI?: ConfidenceInterval;
+  confidenceLevel: number;
+  sigmaLevel?: number; // Z.bench from the within-subgroup expected defect rate
+  dpmo?: number; // Expected overall (long-term) defects per million
   ppm?: number;
+  ppmWithin?: number; // Expected short-term defects per million
+  ppmObserved?: number; // Actual readings outside spec
   mean: number;
-  stddev: number;
+  stddev: number; // Overall sample standard deviation
+  stddevWithin?: number; // R-bar/d2, S-bar/c4 or MR-bar/d2
   n: number;
+  method: CapabilityMethod;
+  normality: NormalityTest; // Raw readings
+  transformedNormality?: NormalityTest; // Box-Cox transformed readings
+  boxCoxLambda?: number;
+}
+
+export interface CapabilityOptions {
+  chartType?: SPCChartType; // Sets the within-subgroup sigma estimator
+  method?: CapabilityMethod; // Default: normal if the data passes, else Box-Cox, else percentile
+  confidence?: number; // Confidence level for intervals, default 0.95
+}
+
+export interface HistogramBin {
+  lower: number;
+  upper: number;
+  count: number;
+}
+
+export interface CapabilityStudy {
+  characteristic_id: string;
+  characteristic_name: string;
+  plan_name?: string;
+  uom?: string;
+  chart_type: SPCChartType;
+  from?: string;
+  to?: string;
+  subgroup_count: number;
+  subgroup_size: number; // Average readings per subgroup
+  controlLimits: ControlLimits;
+  out_of_control_count: number;
+  capability: ProcessCapability;
+  histogram: HistogramBin[];
+  generated_at: string;
+}
+
+export interface ControlChartPoint {
+  subgroup_id: string;
+  subgroup_ts: string;
+  n: number;
+  value: number;
+  // Limits at this point - vary with n on p and u charts
+  ucl: number;
+  lcl: number;
+  centerLine: number;
+  limit_set_id?: string; // Locked limit revision applied; undefined = calculated
+}
+
+export interface ControlChartSeries {
+  label: string; // Plotted statistic, e.g. 'X-bar', 'R', 'MR', 'p'
+  points: ControlChartPoint[];
+  limits: ControlLimits;
 }
 
 export interface ControlChartData {
   characteristic_id: string;
   characteristic_name: string;
-  chart_type: 'XBAR_R' | 'XBAR_S' | 'IMR' | 'P' | 'NP' | 'C' | 'U';
+  chart_type: SPCChartType;
   subgroups: SPCSubgroup[];
   controlLimits: ControlLimits;
+  primary: ControlChartSeries; // Location (variable) or attribute chart
+  secondary?: ControlChartSeries; // Dispersion chart: R, S or MR
+  rules: SPCViolationType[]; // Rules evaluated for this chart type
   capability?: ProcessCapability;
   violations: SPCRuleViolation[];
+  limitRevisions: SPCControlLimitSet[]; // Approved locked limits applied to this chart
+}
+
+export type SPCLimitStatus = 'PENDING' | 'ACTIVE' | 'SUPERSEDED' | 'REJECTED';
+
+export interface SPCControlLimitSet {
+  id: string;
+  characteristic_id: string;
+  work_center_id?: string | null; // null = all work centers
+  revision: number;
+  chart_type: SPCChartType;
+  status: SPCLimitStatus;
+  baseline_from: string;
+  baseline_to: string;
+  baseline_subgroups: number;
+  baseline_avg_n?: number;
+  // For p, np and u charts center_line is the process rate; limits follow n
+  center_line: number;
+  ucl: number;
+  lcl: number;
+  secondary_center_line?: number | null;
+  secondary_ucl?: number | null;
+  secondary_lcl?: number | null;
+  reason: string;
+  requested_by?: string;
+  approved_by?: string;
+  approved_at?: string; // In effect from this time
+  superseded_at?: string;
+  rejection_reason?: string;
+  created_at: string;
+  work_center?: { name: string } | null;
+  requester?: { full_name: string } | null;
+  approver?: { full_name: string } | null;
+}
+
+export interface ProposeControlLimitsInput {
+  characteristic_id: string;
+  work_center_id?: string;
+  baseline_from: string;
+  baseline_to: string;
+  reason: string;
+}
+
+export interface SPCCharacteristicSettings {
+  char_type?: string | null; // 'VARIABLE' | 'ATTRIBUTE'
+  data_capture?: string | null;
+  spc_chart_type?: SPCChartType | null;
+  subgroup_size?: number | null;
 }
 
 export interface CreateSubgroupInput {
@@ -101,6 +232,17 @@ export interface CreateSubgroupInput {
   subgroup_ts?: string;
 }
 
+export interface CreateAttributeSubgroupInput {
+  characteristic_id: string;
+  work_center_id?: string;
+  equipment_asset_id?: string;
+  product_id?: string;
+  operation_id?: string;
+  sample_size: number; // Units inspected (n)
+  defect_count: number;
+  subgroup_ts?: string;
+}
+
 // =====================================================
 // CONSTANTS
 // =====================================================
@@ -111,20 +253,72 @@ const A2_FACTORS: Record<number, number> = {
   6: 0.483, 7: 0.419, 8: 0.373, 9: 0.337, 10: 0.308
 };
 
-const _D3_FACTORS: Record<number, number> = {
+const D3_FACTORS: Record<number, number> = {
   2: 0, 3: 0, 4: 0, 5: 0, 6: 0, 7: 0.076, 8: 0.136, 9: 0.184, 10: 0.223
 };
 
-const _D4_FACTORS: Record<number, number> = {
+const D4_FACTORS: Record<number, number> = {
   2: 3.267, 3: 2.575, 4: 2.282, 5: 2.115,
   6: 2.004, 7: 1.924, 8: 1.864, 9: 1.816, 10: 1.777
 };
 
-const _d2_FACTORS: Record<number, number> = {
+const d2_FACTORS: Record<number, number> = {
   2: 1.128, 3: 1.693, 4: 2.059, 5: 2.326,
   6: 2.534, 7: 2.704, 8: 2.847, 9: 2.970, 10: 3.078
 };
 
+// Control chart constants for X-bar S charts
+const A3_FACTORS: Record<number, number> = {
+  2: 2.659, 3: 1.954, 4: 1.628, 5: 1.427, 6: 1.287, 7: 1.182, 8: 1.099,
+  9: 1.032, 10: 0.975, 11: 0.927, 12: 0.886, 13: 0.850, 14: 0.817, 15: 0.789,
+  16: 0.763, 17: 0.739, 18: 0.718, 19: 0.698, 20: 0.680, 21: 0.663, 22: 0.647,
+  23: 0.633, 24: 0.619, 25: 0.606
+};
+
+const B3_FACTORS: Record<number, number> = {
+  2: 0, 3: 0, 4: 0, 5: 0, 6: 0.030, 7: 0.118, 8: 0.185,
+  9: 0.239, 10: 0.284, 11: 0.321, 12: 0.354, 13: 0.382, 14: 0.406, 15: 0.428,
+  16: 0.448, 17: 0.466, 18: 0.482, 19: 0.497, 20: 0.510, 21: 0.523, 22: 0.534,
+  23: 0.545, 24: 0.555, 25: 0.565
+};
+
+const B4_FACTORS: Record<number, number> = {
+  2: 3.267, 3: 2.568, 4: 2.266, 5: 2.089, 6: 1.970, 7: 1.882, 8: 1.815,
+  9: 1.761, 10: 1.716, 11: 1.679, 12: 1.646, 13: 1.618, 14: 1.594, 15: 1.572,
+  16: 1.552, 17: 1.534, 18: 1.518, 19: 1.503, 20: 1.490, 21: 1.477, 22: 1.466,
+  23: 1.455, 24: 1.445, 25: 1.435
+};
+
+// Western Electric rules evaluated per chart type. Zone rules (2 and 3) assume
+// a roughly normal plotted statistic, so attribute charts only run the
+// beyond-limits and run-length tests.
+const RULE_SETS: Record<SPCChartType, SPCViolationType[]> = {
+  XBAR_R: ['WESTERN_ELECTRIC_1', 'WESTERN_ELECTRIC_2', 'WESTERN_ELECTRIC_3', 'WESTERN_ELECTRIC_4'],
+  XBAR_S: ['WESTERN_ELECTRIC_1', 'WESTERN_ELECTRIC_2', 'WESTERN_ELECTRIC_3', 'WESTERN_ELECTRIC_4'],
+  IMR: ['WESTERN_ELECTRIC_1', 'WESTERN_ELECTRIC_2', 'WESTERN_ELECTRIC_3', 'WESTERN_ELECTRIC_4'],
+  P: ['WESTERN_ELECTRIC_1', 'WESTERN_ELECTRIC_4'],
+  NP: ['WESTERN_ELECTRIC_1', 'WESTERN_ELECTRIC_4'],
+  C: ['WESTERN_ELECTRIC_1', 'WESTERN_ELECTRIC_4'],
+  U: ['WESTERN_ELECTRIC_1', 'WESTERN_ELECTRIC_4'],
+};
+
+const C4_FACTORS: Record<number, number> = {
+  2: 0.7979, 3: 0.8862, 4: 0.9213, 5: 0.9400, 6: 0.9515, 7: 0.9594, 8: 0.9650,
+  9: 0.9693, 10: 0.9727, 11: 0.9754, 12: 0.9776, 13: 0.9794, 14: 0.9810, 15: 0.9823,
+  16: 0.9835, 17: 0.9845, 18: 0.9854, 19: 0.9862, 20: 0.9869, 21: 0.9876, 22: 0.9882,
+  23: 0.9887, 24: 0.9892, 25: 0.9896
+};
+
+const ATTRIBUTE_CHART_TYPES: SPCChartType[] = ['P', 'NP', 'C', 'U'];
+
+// Subgroups needed in a baseline period before its limits can be locked
+const MIN_BASELINE_SUBGROUPS = 20;
+
+// Statistic plotted on the primary chart
+const CHART_LABELS: Record<SPCChartType, string> = {
+  XBAR_R: 'X-bar', XBAR_S: 'X-bar', IMR: 'X', P: 'p', NP: 'np', C: 'c', U: 'u',
+};
+
 // =====================================================
 // SERVICE CLASS
 // =====================================================
@@ -140,7 +334,7 @@ class SPCServiceClass {
     product_id?: string;
     from?: string;
     to?: string;
-    limit?: number;
+    limit?: number; // Most recent N subgroups, still returned oldest first
   }): Promise<SPCSubgroup[]> {
     let query = supabase
       .from('spc_subgroups')
@@ -149,7 +343,7 @@ class SPCServiceClass {
         points:spc_points(*)
       `)
       .eq('characteristic_id', filters.characteristic_id)
-      .order('subgroup_ts', { ascending: true });
+      .order('subgroup_ts', { ascending: !filters.limit });
 
     if (filters.work_center_id) {
       query = query.eq('work_center_id', filters.work_center_id);
@@ -169,7 +363,7 @@ class SPCServiceClass {
 
     const { data, error } = await query;
     if (error) throw error;
-    return data || [];
+    return filters.limit ? (data || []).reverse() : data || [];
   }
 
   async createSubgroup(input: CreateSubgroupInput): Promise<SPCSubgroup> {
@@ -216,6 +410,50 @@ class SPCServiceClass {
     return updatedSubgroup;
   }
 
+  async createAttributeSubgroup(input: CreateAttributeSubgroupInput): Promise<SPCSubgroup> {
+    const { sample_size, defect_count, ...subgroupData } = input;
+
+    if (!Number.isInteger(sample_size) || sample_size <= 0) {
+      throw new Error('Sample size must be a positive whole number');
+    }
+    if (!Number.isInteger(defect_count) || defect_count < 0) {
+      throw new Error('Defect count must be zero or a positive whole number');
+    }
+
+    const { data: characteristic, error: charError } = await supabase
+      .from('quality_characteristics')
+      .select('char_type, data_capture')
+      .eq('id', input.characteristic_id)
+      .single();
+
+    if (charError) throw charError;
+    if (characteristic.char_type !== 'ATTRIBUTE') {
+      throw new Error('Attribute samples can only be recorded for attribute characteristics');
+    }
+    // Defectives are units, so there can't be more than were inspected;
+    // defect counts (c/u) can exceed n since one unit may carry several.
+    if (characteristic.data_capture !== 'count' && defect_count > sample_size) {
+      throw new Error('Defective units cannot exceed the sample size');
+    }
+
+    const { data: subgroup, error } = await supabase
+      .from('spc_subgroups')
+      .insert({
+        ...subgroupData,
+        subgroup_ts: input.subgroup_ts || new Date().toISOString(),
+        n: sample_size,
+        defect_count,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await this.detectViolationsForSubgroup(subgroup);
+
+    return subgroup;
+  }
+
   async addPointToSubgroup(subgroupId: string, value: number, measurementId?: string): Promise<SPCPoint> {
     // Get current max sequence
     const { data: existing } = await supabase
@@ -275,31 +513,44 @@ class SPCServiceClass {
       to: options?.to,
     });
 
+    const chartType = this.selectChartType(characteristic, subgroups);
+    const specs = {
+      usl: characteristic.usl,
+      lsl: characteristic.lsl,
+      target: characteristic.target_value,
+    };
+
+    // Approved locked limits for this chart; a revision made for another chart type no longer applies
+    const limitRevisions = (await this.getApprovedLimitSets(characteristicId, options?.work_center_id))
+      .filter(set => set.chart_type === chartType);
+
     const minSubgroups = options?.minSubgroups || 20;
-    if (subgroups.length < minSubgroups) {
+    if (subgroups.length < minSubgroups && limitRevisions.length === 0) {
       // Not enough data for reliable control limits
+      const emptyLimits = { ucl: 0, lcl: 0, centerLine: 0 };
       return {
         characteristic_id: characteristicId,
         characteristic_name: characteristic.name,
-        chart_type: 'XBAR_R',
+        chart_type: chartType,
         subgroups,
-        controlLimits: {
-          ucl: 0,
-          lcl: 0,
-          centerLine: 0,
-          usl: characteristic.usl,
-          lsl: characteristic.lsl,
-          target: characteristic.target_value,
-        },
+        controlLimits: { ...emptyLimits, ...specs },
+        primary: { label: CHART_LABELS[chartType], points: [], limits: emptyLimits },
+        rules: RULE_SETS[chartType],
         violations: [],
+        limitRevisions,
       };
     }
 
-    // Calculate control limits
-    const controlLimits = this.calculateControlLimits(subgroups, characteristic);
+    // Calculate control limits, then judge subgroups against the locked revision in effect
+    const calculated = this.calculateControlChart(chartType, subgroups);
+    const primary = this.applyLockedLimits(calculated.primary, chartType, limitRevisions, options?.work_center_id);
+    const secondary = calculated.secondary
+      && this.applyLockedLimits(calculated.secondary, chartType, limitRevisions, options?.work_center_id, true);
 
-    // Calculate process capability
-    const capability = this.calculateProcessCapability(subgroups, characteristic);
+    // Capability only applies to measured (variable) data
+    const capability = ATTRIBUTE_CHART_TYPES.includes(chartType)
+      ? undefined
+      : this.calculateProcessCapability(subgroups, characteristic, { chartType });
 
     // Get existing violations (table may not exist yet)
     let violations: SPCRuleViolation[] = [];
@@ -317,164 +568,732 @@ class SPCServiceClass {
     return {
       characteristic_id: characteristicId,
       characteristic_name: characteristic.name,
-      chart_type: 'XBAR_R',
+      chart_type: chartType,
       subgroups,
-      controlLimits,
+      controlLimits: { ...primary.limits, ...specs },
+      primary,
+      secondary,
+      rules: RULE_SETS[chartType],
       capability,
       violations: violations || [],
+      limitRevisions,
     };
   }
 
+  /**
+   * Chart type for a characteristic: the pinned spc_chart_type if set, otherwise
+   * chosen from its type and subgroup size. Attribute characteristics capturing
+   * counts chart defects (c/u); pass/fail ones chart defective units (p/np).
+   */
+  selectChartType(characteristic: SPCCharacteristicSettings, subgroups: SPCSubgroup[] = []): SPCChartType {
+    if (characteristic.spc_chart_type) return characteristic.spc_chart_type;
+
+    const sizes = subgroups.map(s => s.n).filter(n => n > 0);
+
+    if (characteristic.char_type === 'ATTRIBUTE') {
+      const constantSize = sizes.every(n => n === sizes[0]);
+      if (characteristic.data_capture === 'count') {
+        return constantSize ? 'C' : 'U';
+      }
+      return constantSize ? 'NP' : 'P';
+    }
+
+    const n = characteristic.subgroup_size
+      || (sizes.length > 0 ? Math.round(sizes.reduce((sum, size) => sum + size, 0) / sizes.length) : 1);
+
+    if (n <= 1) return 'IMR';
+    if (n < 10) return 'XBAR_R';
+    return 'XBAR_S';
+  }
+
   // =====================================================
-  // CONTROL LIMIT CALCULATIONS
+  // LOCKED CONTROL LIMITS
   // =====================================================
 
-  private calculateControlLimits(
-    subgroups: SPCSubgroup[],
-    characteristic: { usl?: number | null; lsl?: number | null; target_value?: number | null }
-  ): ControlLimits {
-    if (subgroups.length === 0) {
+  /**
+   * Control limit revisions for a characteristic, newest first. Pass a work
+   * center to include its own revisions alongside the characteristic-wide ones.
+   */
+  async getControlLimitSets(characteristicId: string, workCenterId?: string): Promise<SPCControlLimitSet[]> {
+    let query = supabase
+      .from('spc_control_limit_sets')
+      .select(`
+        *,
+        work_center:work_centers(name),
+        requester:profiles!spc_control_limit_sets_requested_by_fkey(full_name),
+        approver:profiles!spc_control_limit_sets_approved_by_fkey(full_name)
+      `)
+      .eq('characteristic_id', characteristicId)
+      .order('created_at', { ascending: false });
+
+    query = workCenterId
+      ? query.or(`work_center_id.is.null,work_center_id.eq.${workCenterId}`)
+      : query.is('work_center_id', null);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Calculate limits from a baseline period and submit them as the next
+   * revision. The revision is pending until approved.
+   */
+  async proposeControlLimits(input: ProposeControlLimitsInput): Promise<SPCControlLimitSet> {
+    if (!input.reason.trim()) {
+      throw new Error('A reason is required to lock control limits');
+    }
+    if (new Date(input.baseline_to).getTime() <= new Date(input.baseline_from).getTime()) {
+      throw new Error('Baseline end must be after its start');
+    }
+
+    const { data: characteristic, error: charError } = await supabase
+      .from('quality_characteristics')
+      .select('*')
+      .eq('id', input.characteristic_id)
+      .single();
+
+    if (charError) throw charError;
+
+    const subgroups = await this.getSubgroups({
+      characteristic_id: input.characteristic_id,
+      work_center_id: input.work_center_id,
+      from: input.baseline_from,
+      to: input.baseline_to,
+    });
+
+    if (subgroups.length < MIN_BASELINE_SUBGROUPS) {
+      throw new Error(
+        `Baseline period has ${subgroups.length} subgroups; at least ${MIN_BASELINE_SUBGROUPS} are needed to lock limits`
+      );
+    }
+
+    const chartType = this.selectChartType(characteristic, subgroups);
+    const { primary, secondary } = this.calculateControlChart(chartType, subgroups);
+    const isAttribute = ATTRIBUTE_CHART_TYPES.includes(chartType);
+
+    // Revisions are numbered per characteristic and scope
+    let revisionQuery = supabase
+      .from('spc_control_limit_sets')
+      .select('revision')
+      .eq('characteristic_id', input.characteristic_id)
+      .order('revision', { ascending: false })
+      .limit(1);
+
+    revisionQuery = input.work_center_id
+      ? revisionQuery.eq('work_center_id', input.work_center_id)
+      : revisionQuery.is('work_center_id', null);
+
+    const { data: latest, error: revisionError } = await revisionQuery;
+    if (revisionError) throw revisionError;
+
+    const { data: user } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('spc_control_limit_sets')
+      .insert({
+        characteristic_id: input.characteristic_id,
+        work_center_id: input.work_center_id || null,
+        revision: (latest?.[0]?.revision || 0) + 1,
+        chart_type: chartType,
+        baseline_from: input.baseline_from,
+        baseline_to: input.baseline_to,
+        baseline_subgroups: subgroups.length,
+        baseline_avg_n: this.average(subgroups.map(s => s.n)),
+        center_line: isAttribute ? this.attributeRate(chartType, subgroups) : primary.limits.centerLine,
+        ucl: primary.limits.ucl,
+        lcl: primary.limits.lcl,
+        secondary_center_line: secondary?.limits.centerLine ?? null,
+        secondary_ucl: secondary?.limits.ucl ?? null,
+        secondary_lcl: secondary?.limits.lcl ?? null,
+        reason: input.reason.trim(),
+        requested_by: user.user?.id,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Approve a pending revision. It supersedes the active revision for the same
+   * scope and applies to subgroups taken from now on.
+   */
+  async approveControlLimits(limitSetId: string): Promise<void> {
+    const { error } = await supabase.rpc('fn_approve_spc_control_limits', {
+      p_limit_set_id: limitSetId,
+    });
+
+    if (error) throw error;
+  }
+
+  async rejectControlLimits(limitSetId: string, reason: string): Promise<void> {
+    const { error } = await supabase
+      .from('spc_control_limit_sets')
+      .update({ status: 'REJECTED', rejection_reason: reason })
+      .eq('id', limitSetId)
+      .eq('status', 'PENDING');
+
+    if (error) throw error;
+  }
+
+  /**
+   * Active and superseded revisions, oldest approval first. Without a work
+   * center only characteristic-wide revisions apply.
+   */
+  private async getApprovedLimitSets(characteristicId: string, workCenterId?: string): Promise<SPCControlLimitSet[]> {
+    let query = supabase
+      .from('spc_control_limit_sets')
+      .select('*')
+      .eq('characteristic_id', characteristicId)
+      .in('status', ['ACTIVE', 'SUPERSEDED'])
+      .order('approved_at', { ascending: true });
+
+    query = workCenterId
+      ? query.or(`work_center_id.is.null,work_center_id.eq.${workCenterId}`)
+      : query.is('work_center_id', null);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Revision in effect at a subgroup timestamp: the latest one approved by
+   * then, preferring the work center's own revisions over characteristic-wide ones.
+   */
+  private limitSetAt(sets: SPCControlLimitSet[], timestamp: string, workCenterId?: string): SPCControlLimitSet | undefined {
+    const at = new Date(timestamp).getTime();
+    const inEffect = (scope: string | null) => sets
+      .filter(set => (set.work_center_id || null) === scope
+        && !!set.approved_at && new Date(set.approved_at).getTime() <= at)
+      .pop();
+
+    return (workCenterId ? inEffect(workCenterId) : undefined) || inEffect(null);
+  }
+
+  /**
+   * Replace calculated limits with the locked revision in effect at each point.
+   * Points taken before any revision was approved keep calculated limits.
+   */
+  private applyLockedLimits(
+    series: ControlChartSeries,
+    chartType: SPCChartType,
+    sets: SPCControlLimitSet[],
+    workCenterId?: string,
+    dispersion = false
+  ): ControlChartSeries {
+    if (sets.length === 0) return series;
+
+    let latest: SPCControlLimitSet | undefined;
+    const points = series.points.map(point => {
+      const set = this.limitSetAt(sets, point.subgroup_ts, workCenterId);
+      const limits = set && this.lockedLimits(set, chartType, point.n, dispersion);
+      if (!set || !limits) return point;
+
+      latest = set;
+      return { ...point, ...limits, limit_set_id: set.id };
+    });
+
+    const avgN = Number(latest?.baseline_avg_n) || this.average(series.points.map(p => p.n));
+    const limits = latest && this.lockedLimits(latest, chartType, avgN, dispersion);
+
+    return { ...series, points, limits: limits || series.limits };
+  }
+
+  private lockedLimits(
+    set: SPCControlLimitSet,
+    chartType: SPCChartType,
+    n: number,
+    dispersion: boolean
+  ): { ucl: number; lcl: number; centerLine: number } | undefined {
+    if (dispersion) {
+      if (set.secondary_center_line === null || set.secondary_center_line === undefined) return undefined;
       return {
-        ucl: 0,
-        lcl: 0,
-        centerLine: 0,
-        usl: characteristic.usl,
-        lsl: characteristic.lsl,
-        target: characteristic.target_value,
+        centerLine: Number(set.secondary_center_line),
+        ucl: Number(set.secondary_ucl),
+        lcl: Number(set.secondary_lcl),
       };
     }
 
-    // Calculate X-bar (grand mean)
-    const validSubgroups = subgroups.filter(s => s.mean !== null && s.mean !== undefined);
-    const xBar = validSubgroups.reduce((sum, s) => sum + (s.mean || 0), 0) / validSubgroups.length;
+    if (ATTRIBUTE_CHART_TYPES.includes(chartType)) {
+      return this.attributeLimits(chartType, Number(set.center_line), n);
+    }
 
-    // Calculate R-bar (average range)
-    const validRanges = subgroups.filter(s => s.range_value !== null && s.range_value !== undefined);
-    const rBar = validRanges.reduce((sum, s) => sum + (s.range_value || 0), 0) / validRanges.length;
+    return { centerLine: Number(set.center_line), ucl: Number(set.ucl), lcl: Number(set.lcl) };
+  }
 
-    // Get typical subgroup size
-    const avgN = Math.round(subgroups.reduce((sum, s) => sum + s.n, 0) / subgroups.length);
-    const n = Math.min(Math.max(avgN, 2), 10); // Clamp to 2-10
+  // =====================================================
+  // CONTROL LIMIT CALCULATIONS
+  // =====================================================
 
-    // Calculate X-bar control limits
+  private calculateControlChart(
+    chartType: SPCChartType,
+    subgroups: SPCSubgroup[]
+  ): { primary: ControlChartSeries; secondary?: ControlChartSeries } {
+    switch (chartType) {
+      case 'XBAR_S':
+        return this.calculateXBarSChart(subgroups);
+      case 'IMR':
+        return this.calculateIMRChart(subgroups);
+      case 'P':
+      case 'NP':
+      case 'C':
+      case 'U':
+        return { primary: this.calculateAttributeChart(chartType, subgroups) };
+      default:
+        return this.calculateXBarRChart(subgroups);
+    }
+  }
+
+  private calculateXBarRChart(subgroups: SPCSubgroup[]): { primary: ControlChartSeries; secondary: ControlChartSeries } {
+    const validSubgroups = subgroups.filter(s => s.mean !== null && s.mean !== undefined);
+    const validRanges = validSubgroups.filter(s => s.range_value !== null && s.range_value !== undefined);
+
+    // X-bar (grand mean) and R-bar (average range)
+    const xBar = this.average(validSubgroups.map(s => Number(s.mean)));
+    const rBar = this.average(validRanges.map(s => Number(s.range_value)));
+
+    const n = this.typicalSubgroupSize(validSubgroups, 10);
     const A2 = A2_FACTORS[n] || 0.577;
-    const ucl = xBar + A2 * rBar;
-    const lcl = xBar - A2 * rBar;
+
+    const xLimits = { ucl: xBar + A2 * rBar, lcl: xBar - A2 * rBar, centerLine: xBar };
+    const rLimits = { ucl: (D4_FACTORS[n] || 2.115) * rBar, lcl: (D3_FACTORS[n] || 0) * rBar, centerLine: rBar };
 
     return {
-      ucl,
-      lcl,
-      centerLine: xBar,
-      usl: characteristic.usl,
-      lsl: characteristic.lsl,
-      target: characteristic.target_value,
+      primary: this.buildSeries('X-bar', validSubgroups.map(s => ({ subgroup: s, value: Number(s.mean) })), xLimits),
+      secondary: this.buildSeries('R', validRanges.map(s => ({ subgroup: s, value: Number(s.range_value) })), rLimits),
+    };
+  }
+
+  private calculateXBarSChart(subgroups: SPCSubgroup[]): { primary: ControlChartSeries; secondary: ControlChartSeries } {
+    const validSubgroups = subgroups.filter(s => s.mean !== null && s.mean !== undefined);
+    const validStddevs = validSubgroups.filter(s => s.stddev !== null && s.stddev !== undefined);
+
+    // X-bar (grand mean) and S-bar (average subgroup standard deviation)
+    const xBar = this.average(validSubgroups.map(s => Number(s.mean)));
+    const sBar = this.average(validStddevs.map(s => Number(s.stddev)));
+
+    const n = this.typicalSubgroupSize(validSubgroups, 25);
+    const A3 = A3_FACTORS[n] || 0.975;
+
+    const xLimits = { ucl: xBar + A3 * sBar, lcl: xBar - A3 * sBar, centerLine: xBar };
+    const sLimits = { ucl: (B4_FACTORS[n] || 1.716) * sBar, lcl: (B3_FACTORS[n] || 0) * sBar, centerLine: sBar };
+
+    return {
+      primary: this.buildSeries('X-bar', validSubgroups.map(s => ({ subgroup: s, value: Number(s.mean) })), xLimits),
+      secondary: this.buildSeries('S', validStddevs.map(s => ({ subgroup: s, value: Number(s.stddev) })), sLimits),
+    };
+  }
+
+  private calculateIMRChart(subgroups: SPCSubgroup[]): { primary: ControlChartSeries; secondary: ControlChartSeries } {
+    // Each subgroup is one individual reading
+    const individuals = subgroups
+      .filter(s => s.mean !== null && s.mean !== undefined)
+      .map(s => ({ subgroup: s, value: Number(s.mean) }));
+
+    // Moving range between consecutive readings; the first reading has none
+    const movingRanges = individuals.slice(1).map((point, i) => ({
+      subgroup: point.subgroup,
+      value: Math.abs(point.value - individuals[i].value),
+    }));
+
+    const xBar = this.average(individuals.map(p => p.value));
+    const mrBar = this.average(movingRanges.map(p => p.value));
+
+    // Moving ranges span two readings, so use the n = 2 constants
+    const sigma = mrBar / d2_FACTORS[2];
+    const xLimits = { ucl: xBar + 3 * sigma, lcl: xBar - 3 * sigma, centerLine: xBar };
+    const mrLimits = { ucl: D4_FACTORS[2] * mrBar, lcl: 0, centerLine: mrBar };
+
+    return {
+      primary: this.buildSeries('X', individuals, xLimits),
+      secondary: this.buildSeries('MR', movingRanges, mrLimits),
+    };
+  }
+
+  /**
+   * p, np, c and u charts. p and u limits are computed per subgroup from its own
+   * n, so they widen and narrow with sample size; the series limits use the
+   * average n for display.
+   */
+  private calculateAttributeChart(chartType: SPCChartType, subgroups: SPCSubgroup[]): ControlChartSeries {
+    const valid = subgroups.filter(s => s.defect_count !== null && s.defect_count !== undefined && s.n > 0);
+    const avgN = valid.length > 0 ? valid.reduce((sum, s) => sum + s.n, 0) / valid.length : 0;
+    const rate = this.attributeRate(chartType, valid);
+
+    const perUnit = chartType === 'P' || chartType === 'U';
+    const points: ControlChartPoint[] = valid.map(s => ({
+      subgroup_id: s.id,
+      subgroup_ts: s.subgroup_ts,
+      n: s.n,
+      value: perUnit ? Number(s.defect_count) / s.n : Number(s.defect_count),
+      ...this.attributeLimits(chartType, rate, s.n),
+    }));
+
+    return {
+      label: CHART_LABELS[chartType],
+      points,
+      limits: avgN > 0 ? this.attributeLimits(chartType, rate, avgN) : { ucl: 0, lcl: 0, centerLine: 0 },
+    };
+  }
+
+  /**
+   * Process rate behind an attribute chart: fraction defective (p/np), defects
+   * per unit (u) or average defects per subgroup (c).
+   */
+  private attributeRate(chartType: SPCChartType, subgroups: SPCSubgroup[]): number {
+    const valid = subgroups.filter(s => s.defect_count !== null && s.defect_count !== undefined && s.n > 0);
+    const totalDefects = valid.reduce((sum, s) => sum + Number(s.defect_count), 0);
+    if (chartType === 'C') return totalDefects / (valid.length || 1);
+
+    const totalInspected = valid.reduce((sum, s) => sum + s.n, 0);
+    return totalInspected > 0 ? totalDefects / totalInspected : 0;
+  }
+
+  private attributeLimits(chartType: SPCChartType, rate: number, n: number): { ucl: number; lcl: number; centerLine: number } {
+    let centerLine: number;
+    let sigma: number;
+    switch (chartType) {
+      case 'P':
+        centerLine = rate;
+        sigma = Math.sqrt((rate * (1 - rate)) / n);
+        break;
+      case 'NP':
+        centerLine = n * rate;
+        sigma = Math.sqrt(n * rate * (1 - rate));
+        break;
+      case 'C':
+        centerLine = rate;
+        sigma = Math.sqrt(rate);
+        break;
+      default:
+        centerLine = rate;
+        sigma = Math.sqrt(rate / n);
+    }
+    const ucl = centerLine + 3 * sigma;
+    return {
+      centerLine,
+      ucl: chartType === 'P' ? Math.min(1, ucl) : ucl,
+      lcl: Math.max(0, centerLine - 3 * sigma),
+    };
+  }
+
+  private buildSeries(
+    label: string,
+    values: { subgroup: SPCSubgroup; value: number }[],
+    limits: { ucl: number; lcl: number; centerLine: number }
+  ): ControlChartSeries {
+    return {
+      label,
+      points: values.map(({ subgroup, value }) => ({
+        subgroup_id: subgroup.id,
+        subgroup_ts: subgroup.subgroup_ts,
+        n: subgroup.n,
+        value,
+        ...limits,
+      })),
+      limits,
     };
   }
 
+  private typicalSubgroupSize(subgroups: SPCSubgroup[], maxN: number): number {
+    const avgN = subgroups.length > 0
+      ? Math.round(subgroups.reduce((sum, s) => sum + s.n, 0) / subgroups.length)
+      : 2;
+    return Math.min(Math.max(avgN, 2), maxN);
+  }
+
+  private average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  }
+
   // =====================================================
   // PROCESS CAPABILITY CALCULATIONS
   // =====================================================
 
   calculateProcessCapability(
     subgroups: SPCSubgroup[],
-    characteristic: { usl?: number | null; lsl?: number | null; target_value?: number | null }
+    characteristic: { usl?: number | null; lsl?: number | null; target_value?: number | null },
+    options: CapabilityOptions = {}
   ): ProcessCapability | undefined {
-    if (!characteristic.usl && !characteristic.lsl) {
+    const usl = characteristic.usl ?? undefined;
+    const lsl = characteristic.lsl ?? undefined;
+    if (usl === undefined && lsl === undefined) {
       // Can't calculate capability without spec limits
       return undefined;
     }
 
-    // Collect all individual values
-    const allValues: number[] = [];
-    for (const sg of subgroups) {
-      if (sg.points) {
-        for (const p of sg.points) {
-          allValues.push(p.measured_value);
-        }
-      }
-    }
+    // Readings grouped by subgroup, in sequence order
+    const groups = subgroups
+      .map(sg => [...(sg.points || [])].sort((a, b) => a.sequence - b.sequence).map(p => Number(p.measured_value)))
+      .filter(g => g.length > 0);
+    const allValues = groups.flat();
 
     if (allValues.length < 30) {
       // Not enough data for reliable capability
       return undefined;
     }
 
-    // Calculate overall statistics
     const n = allValues.length;
-    const mean = allValues.reduce((a, b) => a + b, 0) / n;
-    const variance = allValues.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / (n - 1);
-    const stddev = Math.sqrt(variance);
-
+    const mean = this.average(allValues);
+    const stddev = this.sampleStddev(allValues);
     if (stddev === 0) return undefined;
 
-    const usl = characteristic.usl;
-    const lsl = characteristic.lsl;
+    const confidence = options.confidence ?? 0.95;
+    const chartType = options.chartType ?? this.selectChartType({ char_type: 'VARIABLE' }, subgroups);
+    const normality = this.andersonDarling(allValues);
+    const ppmObserved = (allValues.filter(v => (usl !== undefined && v > usl) || (lsl !== undefined && v < lsl)).length / n) * 1000000;
+
+    // Box-Cox needs positive readings and a positive lower spec to transform
+    const boxCoxEligible = allValues.every(v => v > 0) && (lsl === undefined || lsl > 0);
+    let method = options.method ?? (normality.isNormal ? 'normal' : boxCoxEligible ? 'box_cox' : 'percentile');
+    if (method === 'box_cox' && !boxCoxEligible) method = 'percentile';
+
+    const base = { n, mean, stddev, normality, ppmObserved, confidenceLevel: confidence };
+
+    if (method === 'box_cox') {
+      const lambda = this.boxCoxLambda(allValues);
+      const transform = (v: number) => this.boxCox(v, lambda);
+      const transformedNormality = this.andersonDarling(allValues.map(transform));
+
+      // Transformed data still not normal - fall back to percentiles unless forced
+      if (transformedNormality.isNormal || options.method === 'box_cox') {
+        return {
+          ...base,
+          ...this.normalCapabilityIndices(
+            groups.map(g => g.map(transform)),
+            usl !== undefined ? transform(usl) : undefined,
+            lsl !== undefined ? transform(lsl) : undefined,
+            chartType,
+            confidence
+          ),
+          method: 'box_cox',
+          transformedNormality,
+          boxCoxLambda: lambda,
+        };
+      }
+      method = 'percentile';
+    }
+
+    if (method === 'percentile') {
+      return { ...base, ...this.percentileCapabilityIndices(allValues, usl, lsl, ppmObserved), method };
+    }
+
+    return {
+      ...base,
+      ...this.normalCapabilityIndices(groups, usl, lsl, chartType, confidence),
+      method: 'normal',
+    };
+  }
 
-    let cp: number | undefined;
-    let cpk: number | undefined;
-    let cpu: number | undefined;
-    let cpl: number | undefined;
+  /**
+   * Indices assuming normal data (raw or Box-Cox transformed). Cp/Cpk use the
+   * within-subgroup sigma for the chart type; Pp/Ppk use the overall sample
+   * standard deviation, so the two only agree for a stable process.
+   */
+  private normalCapabilityIndices(
+    groups: number[][],
+    usl: number | undefined,
+    lsl: number | undefined,
+    chartType: SPCChartType,
+    confidence: number
+  ): Partial<ProcessCapability> {
+    const values = groups.flat();
+    const n = values.length;
+    const mean = this.average(values);
+    const sigmaOverall = this.sampleStddev(values);
+    const sigmaWithin = this.withinSubgroupSigma(groups, chartType) || sigmaOverall;
+
+    const indices = (sigma: number) => {
+      const upper = usl !== undefined ? (usl - mean) / (3 * sigma) : undefined;
+      const lower = lsl !== undefined ? (mean - lsl) / (3 * sigma) : undefined;
+      const potential = usl !== undefined && lsl !== undefined ? (usl - lsl) / (6 * sigma) : undefined;
+      const worst = upper !== undefined && lower !== undefined ? Math.min(upper, lower) : upper ?? lower;
+      const ppm = ((usl !== undefined ? this.normalCDF(-(usl - mean) / sigma) : 0)
+        + (lsl !== undefined ? this.normalCDF(-(mean - lsl) / sigma) : 0)) * 1000000;
+      return { upper, lower, potential, worst, ppm };
+    };
+
+    const within = indices(sigmaWithin);
+    const overall = indices(sigmaOverall);
+
+    return {
+      cp: within.potential,
+      cpk: within.worst,
+      cpu: within.upper,
+      cpl: within.lower,
+      pp: overall.potential,
+      ppk: overall.worst,
+      ppu: overall.upper,
+      ppl: overall.lower,
+      cpCI: this.potentialIndexInterval(within.potential, n, confidence),
+      cpkCI: this.worstIndexInterval(within.worst, n, confidence),
+      ppCI: this.potentialIndexInterval(overall.potential, n, confidence),
+      ppkCI: this.worstIndexInterval(overall.worst, n, confidence),
+      sigmaLevel: this.zBench(within.ppm),
+      dpmo: overall.ppm,
+      ppm: overall.ppm,
+      ppmWithin: within.ppm,
+      stddevWithin: sigmaWithin,
+    };
+  }
 
-    // Cp = (USL - LSL) / (6 * sigma)
-    if (usl !== null && lsl !== null) {
-      cp = (usl - lsl) / (6 * stddev);
+  /**
+   * Percentile (ISO 22514-2) indices for data no transform makes normal:
+   * the 0.135th and 99.865th percentiles stand in for mean ± 3 sigma. Only
+   * performance indices are meaningful here, and tails need plenty of readings.
+   */
+  private percentileCapabilityIndices(
+    values: number[],
+    usl: number | undefined,
+    lsl: number | undefined,
+    ppmObserved: number
+  ): Partial<ProcessCapability> {
+    const sorted = [...values].sort((a, b) => a - b);
+    const low = this.percentile(sorted, 0.00135);
+    const median = this.percentile(sorted, 0.5);
+    const high = this.percentile(sorted, 0.99865);
+
+    const ppu = usl !== undefined && high > median ? (usl - median) / (high - median) : undefined;
+    const ppl = lsl !== undefined && median > low ? (median - lsl) / (median - low) : undefined;
+
+    return {
+      pp: usl !== undefined && lsl !== undefined && high > low ? (usl - lsl) / (high - low) : undefined,
+      ppk: ppu !== undefined && ppl !== undefined ? Math.min(ppu, ppl) : ppu ?? ppl,
+      ppu,
+      ppl,
+      dpmo: ppmObserved,
+      ppm: ppmObserved,
+    };
+  }
+
+  /**
+   * Short-term sigma from within-subgroup variation: MR-bar/d2 for individuals,
+   * S-bar/c4 for X-bar S, R-bar/d2 otherwise.
+   */
+  private withinSubgroupSigma(groups: number[][], chartType: SPCChartType): number | undefined {
+    const sized = groups.filter(g => g.length >= 2);
+
+    if (chartType === 'IMR' || sized.length === 0) {
+      const individuals = groups.map(g => this.average(g));
+      const movingRanges = individuals.slice(1).map((v, i) => Math.abs(v - individuals[i]));
+      return movingRanges.length > 0 ? this.average(movingRanges) / d2_FACTORS[2] : undefined;
     }
 
-    // Cpk = min(Cpu, Cpl)
-    if (usl !== null) {
-      cpu = (usl - mean) / (3 * stddev);
+    const n = Math.round(this.average(sized.map(g => g.length)));
+
+    if (chartType === 'XBAR_S') {
+      const sBar = this.average(sized.map(g => this.sampleStddev(g)));
+      return sBar / (C4_FACTORS[Math.min(Math.max(n, 2), 25)] || 0.9727);
     }
-    if (lsl !== null) {
-      cpl = (mean - lsl) / (3 * stddev);
+
+    const rBar = this.average(sized.map(g => Math.max(...g) - Math.min(...g)));
+    return rBar / (d2_FACTORS[Math.min(Math.max(n, 2), 10)] || 2.326);
+  }
+
+  // Chi-square interval for Cp/Pp
+  private potentialIndexInterval(value: number | undefined, n: number, confidence: number): ConfidenceInterval | undefined {
+    if (value === undefined || n < 2) return undefined;
+    const df = n - 1;
+    const alpha = 1 - confidence;
+    return {
+      lower: value * Math.sqrt(this.chiSquareQuantile(alpha / 2, df) / df),
+      upper: value * Math.sqrt(this.chiSquareQuantile(1 - alpha / 2, df) / df),
+    };
+  }
+
+  // Bissell's approximation for Cpk/Ppk
+  private worstIndexInterval(value: number | undefined, n: number, confidence: number): ConfidenceInterval | undefined {
+    if (value === undefined || n < 2) return undefined;
+    const z = this.normalInverse(1 - (1 - confidence) / 2);
+    const margin = z * Math.sqrt(1 / (9 * n) + (value * value) / (2 * (n - 1)));
+    return { lower: value - margin, upper: value + margin };
+  }
+
+  // Benchmark Z: the one-sided Z with the same total out-of-spec rate
+  private zBench(ppm: number): number {
+    const p = Math.min(Math.max(ppm / 1000000, 1e-12), 1 - 1e-12);
+    return -this.normalInverse(p);
+  }
+
+  /**
+   * Anderson-Darling test against a normal with the sample mean and standard
+   * deviation. p-value from D'Agostino & Stephens (1986).
+   */
+  andersonDarling(values: number[]): NormalityTest {
+    const n = values.length;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mean = this.average(sorted);
+    const stddev = this.sampleStddev(sorted);
+
+    if (n < 8 || stddev === 0) {
+      return { statistic: 0, pValue: 0, isNormal: false };
     }
 
-    if (cpu !== undefined && cpl !== undefined) {
-      cpk = Math.min(cpu, cpl);
-    } else if (cpu !== undefined) {
-      cpk = cpu;
-    } else if (cpl !== undefined) {
-      cpk = cpl;
+    const cdf = sorted.map(v => Math.min(Math.max(this.normalCDF((v - mean) / stddev), 1e-12), 1 - 1e-12));
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+      sum += (2 * i + 1) * (Math.log(cdf[i]) + Math.log(1 - cdf[n - 1 - i]));
+    }
+    const a2 = (-n - sum / n) * (1 + 0.75 / n + 2.25 / (n * n));
+
+    let pValue: number;
+    if (a2 >= 0.6) {
+      pValue = Math.exp(1.2937 - 5.709 * a2 + 0.0186 * a2 * a2);
+    } else if (a2 >= 0.34) {
+      pValue = Math.exp(0.9177 - 4.279 * a2 - 1.38 * a2 * a2);
+    } else if (a2 >= 0.2) {
+      pValue = 1 - Math.exp(-8.318 + 42.796 * a2 - 59.938 * a2 * a2);
+    } else {
+      pValue = 1 - Math.exp(-13.436 + 101.14 * a2 - 223.73 * a2 * a2);
     }
+    pValue = Math.min(Math.max(pValue, 0), 1);
 
-    // Pp/Ppk use overall standard deviation (same as Cp/Cpk in this calculation)
-    const pp = cp;
-    const ppk = cpk;
+    return { statistic: a2, pValue, isNormal: pValue >= 0.05 };
+  }
 
-    // Estimate sigma level from Cpk
-    const sigmaLevel = cpk !== undefined ? cpk * 3 : undefined;
+  // Lambda in [-5, 5] maximising the Box-Cox profile log-likelihood
+  private boxCoxLambda(values: number[]): number {
+    const n = values.length;
+    const logSum = values.reduce((sum, v) => sum + Math.log(v), 0);
+    let bestLambda = 1;
+    let bestLikelihood = -Infinity;
+
+    for (let step = -50; step <= 50; step++) {
+      const lambda = step / 10;
+      const transformed = values.map(v => this.boxCox(v, lambda));
+      const m = this.average(transformed);
+      const variance = transformed.reduce((sum, v) => sum + (v - m) * (v - m), 0) / n;
+      if (variance <= 0) continue;
+
+      const likelihood = -(n / 2) * Math.log(variance) + (lambda - 1) * logSum;
+      if (likelihood > bestLikelihood) {
+        bestLikelihood = likelihood;
+        bestLambda = lambda;
+      }
+    }
 
-    // Calculate DPMO (Defects Per Million Opportunities)
-    let dpmo: number | undefined;
-    let ppm: number | undefined;
-    if (sigmaLevel !== undefined) {
-      // Approximate DPMO from sigma level
-      // This is a simplification; actual DPMO depends on distribution
-      const zUpper = usl !== null ? (usl - mean) / stddev : Infinity;
-      const zLower = lsl !== null ? (mean - lsl) / stddev : Infinity;
+    return bestLambda;
+  }
 
-      // Using normal distribution approximation
-      const pUpper = usl !== null ? this.normalCDF(-zUpper) : 0;
-      const pLower = lsl !== null ? this.normalCDF(-zLower) : 0;
-      const totalDefectRate = pUpper + pLower;
+  // (x^λ - 1) / λ keeps the order of values (and of LSL/USL) for every λ
+  private boxCox(value: number, lambda: number): number {
+    return lambda === 0 ? Math.log(value) : (Math.pow(value, lambda) - 1) / lambda;
+  }
 
-      dpmo = totalDefectRate * 1000000;
-      ppm = dpmo;
-    }
+  private percentile(sorted: number[], p: number): number {
+    const position = p * (sorted.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  }
 
-    return {
-      cp,
-      cpk,
-      pp,
-      ppk,
-      cpu,
-      cpl,
-      sigmaLevel,
-      dpmo,
-      ppm,
-      mean,
-      stddev,
-      n,
-    };
+  private sampleStddev(values: number[]): number {
+    if (values.length < 2) return 0;
+    const mean = this.average(values);
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / (values.length - 1));
   }
 
   // Normal CDF approximation
@@ -495,109 +1314,261 @@ class SPCServiceClass {
     return 0.5 * (1.0 + sign * y);
   }
 
+  // Inverse normal CDF (Acklam's rational approximation)
+  private normalInverse(p: number): number {
+    const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+    const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+    const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+    const pLow = 0.02425;
+
+    if (p < pLow) {
+      const q = Math.sqrt(-2 * Math.log(p));
+      return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+        ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    if (p > 1 - pLow) {
+      return -this.normalInverse(1 - p);
+    }
+
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  }
+
+  // Chi-square quantile (Wilson-Hilferty approximation)
+  private chiSquareQuantile(p: number, df: number): number {
+    const z = this.normalInverse(p);
+    const k = 2 / (9 * df);
+    return df * Math.pow(1 - k + z * Math.sqrt(k), 3);
+  }
+
+  // =====================================================
+  // CAPABILITY STUDY
+  // =====================================================
+
+  /**
+   * Capability study for one characteristic over a period, with everything a
+   * PPAP submission needs: stability, normality, method, indices with
+   * confidence intervals and a histogram.
+   */
+  async getCapabilityStudy(
+    characteristicId: string,
+    options?: {
+      work_center_id?: string;
+      product_id?: string;
+      from?: string;
+      to?: string;
+      method?: CapabilityMethod;
+      confidence?: number;
+    }
+  ): Promise<CapabilityStudy> {
+    const { data: characteristic, error: charError } = await supabase
+      .from('quality_characteristics')
+      .select('*, plan:quality_inspection_plans(name)')
+      .eq('id', characteristicId)
+      .single();
+
+    if (charError) throw charError;
+
+    const subgroups = await this.getSubgroups({
+      characteristic_id: characteristicId,
+      work_center_id: options?.work_center_id,
+      product_id: options?.product_id,
+      from: options?.from,
+      to: options?.to,
+    });
+
+    const chartType = this.selectChartType(characteristic, subgroups);
+    if (ATTRIBUTE_CHART_TYPES.includes(chartType)) {
+      throw new Error('Capability studies apply to variable characteristics only');
+    }
+
+    const capability = this.calculateProcessCapability(subgroups, characteristic, {
+      chartType,
+      method: options?.method,
+      confidence: options?.confidence,
+    });
+    if (!capability) {
+      throw new Error('A capability study needs at least 30 readings and a spec limit');
+    }
+
+    const { primary } = this.calculateControlChart(chartType, subgroups);
+    const values = subgroups.flatMap(sg => (sg.points || []).map(p => Number(p.measured_value)));
+    const plan = characteristic.plan as unknown as { name: string } | null;
+
+    return {
+      characteristic_id: characteristicId,
+      characteristic_name: characteristic.name,
+      plan_name: plan?.name,
+      uom: characteristic.uom || undefined,
+      chart_type: chartType,
+      from: subgroups[0]?.subgroup_ts,
+      to: subgroups[subgroups.length - 1]?.subgroup_ts,
+      subgroup_count: subgroups.length,
+      subgroup_size: subgroups.length > 0 ? values.length / subgroups.length : 0,
+      controlLimits: {
+        ...primary.limits,
+        usl: characteristic.usl ?? undefined,
+        lsl: characteristic.lsl ?? undefined,
+        target: characteristic.target_value ?? undefined,
+      },
+      out_of_control_count: primary.points.filter(p => p.value > p.ucl || p.value < p.lcl).length,
+      capability,
+      histogram: this.buildHistogram(values, characteristic.lsl ?? undefined, characteristic.usl ?? undefined),
+      generated_at: new Date().toISOString(),
+    };
+  }
+
+  // Equal-width bins spanning the readings and the spec limits
+  private buildHistogram(values: number[], lsl?: number, usl?: number): HistogramBin[] {
+    if (values.length === 0) return [];
+
+    const min = Math.min(...values, lsl ?? Infinity);
+    const max = Math.max(...values, usl ?? -Infinity);
+    const binCount = Math.min(Math.max(Math.ceil(Math.sqrt(values.length)), 5), 20);
+    const width = (max - min) / binCount || 1;
+
+    const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+      lower: min + i * width,
+      upper: min + (i + 1) * width,
+      count: 0,
+    }));
+    for (const v of values) {
+      bins[Math.min(Math.floor((v - min) / width), binCount - 1)].count++;
+    }
+    return bins;
+  }
+
   // =====================================================
   // RULE VIOLATION DETECTION
   // =====================================================
 
   async detectViolationsForSubgroup(subgroup: SPCSubgroup): Promise<SPCRuleViolation[]> {
-    // Get historical data for this characteristic
+    // Locked limits in effect decide whether history is judged per work center
+    const limitSets = await this.getApprovedLimitSets(subgroup.characteristic_id, subgroup.work_center_id);
+    const lockedAt = this.limitSetAt(limitSets, subgroup.subgroup_ts, subgroup.work_center_id);
+
+    // Get recent history for this characteristic, up to this subgroup
     const subgroups = await this.getSubgroups({
       characteristic_id: subgroup.characteristic_id,
+      work_center_id: lockedAt?.work_center_id || undefined,
+      to: subgroup.subgroup_ts,
       limit: 50,
     });
 
-    // Get characteristic for specs
+    // Get characteristic for chart selection
     const { data: characteristic } = await supabase
       .from('quality_characteristics')
       .select('*')
       .eq('id', subgroup.characteristic_id)
       .single();
 
-    if (!characteristic || subgroups.length < 8) {
-      // Not enough data for rule detection
+    if (!characteristic) return [];
+
+    const chartType = this.selectChartType(characteristic, subgroups);
+    const locked = limitSets.filter(set => set.chart_type === chartType);
+
+    if (subgroups.length < 8 && lockedAt?.chart_type !== chartType) {
+      // Not enough data to calculate limits for rule detection
       return [];
     }
 
-    const controlLimits = this.calculateControlLimits(subgroups, characteristic);
-    const violations: SPCRuleViolation[] = [];
+    // Judge against the locked revision in effect where there is one
+    const rules = RULE_SETS[chartType];
+    const calculated = this.calculateControlChart(chartType, subgroups);
+    const primary = this.applyLockedLimits(calculated.primary, chartType, locked, subgroup.work_center_id);
+    const secondary = calculated.secondary
+      && this.applyLockedLimits(calculated.secondary, chartType, locked, subgroup.work_center_id, true);
 
     // Find index of current subgroup
-    const currentIndex = subgroups.findIndex(s => s.id === subgroup.id);
+    const currentIndex = primary.points.findIndex(p => p.subgroup_id === subgroup.id);
     if (currentIndex === -1) return [];
 
-    // Get recent means for rule checking
-    const recentMeans = subgroups
-      .slice(Math.max(0, currentIndex - 8), currentIndex + 1)
-      .map(s => s.mean)
-      .filter((m): m is number => m !== null && m !== undefined);
+    const current = primary.points[currentIndex];
+    const recent = primary.points.slice(Math.max(0, currentIndex - 7), currentIndex + 1);
 
-    if (recentMeans.length === 0) return [];
-
-    const currentMean = subgroup.mean;
-    if (currentMean === null || currentMean === undefined) return [];
+    // Position in sigma units against each point's own limits, so zone rules
+    // still hold where p and u limits vary with n
+    const zone = (p: ControlChartPoint) => {
+      const sigma = (p.ucl - p.centerLine) / 3;
+      return sigma > 0 ? (p.value - p.centerLine) / sigma : 0;
+    };
 
-    const sigma = (controlLimits.ucl - controlLimits.centerLine) / 3;
-    const sigma2 = sigma * 2;
-    const sigma1 = sigma;
+    const found: { type: SPCViolationType; details: Record<string, unknown> }[] = [];
 
     // Western Electric Rule 1: One point beyond 3 sigma
-    if (currentMean > controlLimits.ucl || currentMean < controlLimits.lcl) {
-      violations.push(await this.createViolation(
-        subgroup.characteristic_id,
-        subgroup.id,
-        'WESTERN_ELECTRIC_1',
-        { value: currentMean, ucl: controlLimits.ucl, lcl: controlLimits.lcl }
-      ));
+    if (rules.includes('WESTERN_ELECTRIC_1') && (current.value > current.ucl || current.value < current.lcl)) {
+      found.push({
+        type: 'WESTERN_ELECTRIC_1',
+        details: {
+          chart: primary.label,
+          value: current.value,
+          ucl: current.ucl,
+          lcl: current.lcl,
+          limit_set_id: current.limit_set_id,
+        },
+      });
     }
 
     // Western Electric Rule 2: 2 of 3 consecutive points beyond 2 sigma (same side)
-    if (recentMeans.length >= 3) {
-      const last3 = recentMeans.slice(-3);
-      const aboveLimit = last3.filter(m => m > controlLimits.centerLine + sigma2).length;
-      const belowLimit = last3.filter(m => m < controlLimits.centerLine - sigma2).length;
+    if (rules.includes('WESTERN_ELECTRIC_2') && recent.length >= 3) {
+      const last3 = recent.slice(-3);
+      const aboveLimit = last3.filter(p => zone(p) > 2).length;
+      const belowLimit = last3.filter(p => zone(p) < -2).length;
 
       if (aboveLimit >= 2 || belowLimit >= 2) {
-        violations.push(await this.createViolation(
-          subgroup.characteristic_id,
-          subgroup.id,
-          'WESTERN_ELECTRIC_2',
-          { points: last3, limit: sigma2 }
-        ));
+        found.push({
+          type: 'WESTERN_ELECTRIC_2',
+          details: { chart: primary.label, points: last3.map(p => p.value), sigma: 2 },
+        });
       }
     }
 
     // Western Electric Rule 3: 4 of 5 consecutive points beyond 1 sigma (same side)
-    if (recentMeans.length >= 5) {
-      const last5 = recentMeans.slice(-5);
-      const aboveLimit = last5.filter(m => m > controlLimits.centerLine + sigma1).length;
-      const belowLimit = last5.filter(m => m < controlLimits.centerLine - sigma1).length;
+    if (rules.includes('WESTERN_ELECTRIC_3') && recent.length >= 5) {
+      const last5 = recent.slice(-5);
+      const aboveLimit = last5.filter(p => zone(p) > 1).length;
+      const belowLimit = last5.filter(p => zone(p) < -1).length;
 
       if (aboveLimit >= 4 || belowLimit >= 4) {
-        violations.push(await this.createViolation(
-          subgroup.characteristic_id,
-          subgroup.id,
-          'WESTERN_ELECTRIC_3',
-          { points: last5, limit: sigma1 }
-        ));
+        found.push({
+          type: 'WESTERN_ELECTRIC_3',
+          details: { chart: primary.label, points: last5.map(p => p.value), sigma: 1 },
+        });
       }
     }
 
     // Western Electric Rule 4: 8 consecutive points on same side of center line
-    if (recentMeans.length >= 8) {
-      const last8 = recentMeans.slice(-8);
-      const allAbove = last8.every(m => m > controlLimits.centerLine);
-      const allBelow = last8.every(m => m < controlLimits.centerLine);
+    if (rules.includes('WESTERN_ELECTRIC_4') && recent.length >= 8) {
+      const last8 = recent.slice(-8);
+      const allAbove = last8.every(p => zone(p) > 0);
+      const allBelow = last8.every(p => zone(p) < 0);
 
       if (allAbove || allBelow) {
-        violations.push(await this.createViolation(
-          subgroup.characteristic_id,
-          subgroup.id,
-          'WESTERN_ELECTRIC_4',
-          { points: last8, side: allAbove ? 'above' : 'below' }
-        ));
+        found.push({
+          type: 'WESTERN_ELECTRIC_4',
+          details: { chart: primary.label, points: last8.map(p => p.value), side: allAbove ? 'above' : 'below' },
+        });
       }
     }
 
+    // Dispersion chart (R, S or MR): point beyond its control limits
+    const dispersion = secondary?.points.find(p => p.subgroup_id === subgroup.id);
+    if (secondary && dispersion && (dispersion.value > dispersion.ucl || dispersion.value < dispersion.lcl)) {
+      found.push({
+        type: 'WESTERN_ELECTRIC_1',
+        details: { chart: secondary.label, value: dispersion.value, ucl: dispersion.ucl, lcl: dispersion.lcl },
+      });
+    }
+
+    const violations: SPCRuleViolation[] = [];
+    for (const { type, details } of found) {
+      const violation = await this.createViolation(subgroup.characteristic_id, subgroup.id, type, details);
+      if (violation) violations.push(violation);
+    }
+
     return violations;
   }
 
@@ -0,0 +1,811 @@
+/**
+ * ShiftCalendarService
+ * Handles shift calendars (shift patterns, breaks, holidays), planned downtime windows
+ * and the working time derived from them.
+ *
+ * Working time = shift time - breaks - planned downtime windows. It is the planned
+ * production time used by OEE availability and the capacity used by scheduling.
+ * Work centers without a calendar (and no default calendar) fall back to their
+ * hours_per_day/days_per_week settings.
+ */
+
+import { supabase } from '../lib/supabase';
+
+// ========== Type Definitions ==========
+
+export interface ShiftCalendar {
+  id: string;
+  name: string;
+  description: string | null;
+  timezone: string | null;
+  is_default: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ShiftBreak {
+  id: string;
+  rule_id: string;
+  name: string;
+  start_time: string;
+  end_time: string;
+}
+
+export interface ShiftCalendarRule {
+  id: string;
+  calendar_id: string;
+  shift_name: string;
+  day_of_week: number; // 0=Sunday, 6=Saturday
+  start_time: string;
+  end_time: string;
+  is_active: boolean;
+  breaks: ShiftBreak[];
+}
+
+// Rules sharing a shift name, edited together (e.g. "1st Shift" Mon-Fri 06:00-14:00)
+export interface ShiftPattern {
+  shift_name: string;
+  days_of_week: number[];
+  start_time: string;
+  end_time: string;
+  breaks: { name: string; start_time: string; end_time: string }[];
+}
+
+export interface ShiftHoliday {
+  id: string;
+  calendar_id: string | null; // null = every calendar
+  holiday_date: string;
+  name: string;
+}
+
+export interface PlannedDowntimeWindow {
+  id: string;
+  calendar_id: string | null;
+  equipment_asset_id: string | null;
+  work_center_id: string | null;
+  start_ts: string;
+  end_ts: string;
+  reason_code_id: string | null;
+  description: string | null;
+  created_by: string | null;
+  work_center_name?: string | null;
+  equipment_name?: string | null;
+  reason_name?: string | null;
+}
+
+export interface CreatePlannedDowntimeInput {
+  calendar_id?: string;
+  equipment_asset_id?: string;
+  work_center_id?: string;
+  start_ts: string;
+  end_ts: string;
+  reason_code_id?: string;
+  description?: string;
+}
+
+export interface ShiftWindow {
+  kind: 'shift' | 'break';
+  shift_name: string;
+  shift_date: string;
+  start_ts: string;
+  end_ts: string;
+}
+
+// Millisecond interval of working time
+export interface WorkingInterval {
+  start: number;
+  end: number;
+}
+
+// ========== ShiftCalendarService Class ==========
+
+export class ShiftCalendarService {
+  // Fallback when a work center has no shift rules
+  private static readonly DEFAULT_HOURS_PER_DAY = 8;
+  private static readonly DEFAULT_DAYS_PER_WEEK = 5;
+  private static readonly DEFAULT_SHIFT_START_HOUR = 6;
+
+  // ========== Calendars ==========
+
+  /**
+   * Get all shift calendars
+   */
+  static async getCalendars(activeOnly = false): Promise<ShiftCalendar[]> {
+    try {
+      let query = supabase
+        .from('shift_calendars')
+        .select('id, name, description, timezone, is_default, is_active, created_at, updated_at')
+        .order('name');
+
+      if (activeOnly) {
+        query = query.eq('is_active', true);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return (data || []) as ShiftCalendar[];
+    } catch (error) {
+      console.error('Error getting shift calendars:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a shift calendar
+   */
+  static async createCalendar(input: {
+    name: string;
+    description?: string;
+    timezone?: string;
+    is_default?: boolean;
+  }): Promise<{ success: boolean; calendar?: ShiftCalendar; error?: string }> {
+    try {
+      if (input.is_default) {
+        await this.clearDefaultCalendar();
+      }
+
+      const { data, error } = await supabase
+        .from('shift_calendars')
+        .insert({
+          name: input.name,
+          description: input.description || null,
+          timezone: input.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+          is_default: input.is_default ?? false,
+          is_active: true,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, calendar: data as ShiftCalendar };
+    } catch (error) {
+      console.error('Error creating shift calendar:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create shift calendar' };
+    }
+  }
+
+  /**
+   * Update a shift calendar; making it the default clears the previous default
+   */
+  static async updateCalendar(
+    calendarId: string,
+    updates: Partial<Pick<ShiftCalendar, 'name' | 'description' | 'timezone' | 'is_default' | 'is_active'>>
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (updates.is_default) {
+        await this.clearDefaultCalendar(calendarId);
+      }
+
+      const { error } = await supabase
+        .from('shift_calendars')
+        .update(updates)
+        .eq('id', calendarId);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating shift calendar:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update shift calendar' };
+    }
+  }
+
+  /**
+   * Assign a calendar to a work center (null reverts to the default calendar)
+   */
+  static async assignCalendar(
+    workCenterId: string,
+    calendarId: string | null
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('work_centers')
+        .update({ shift_calendar_id: calendarId })
+        .eq('id', workCenterId);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error assigning shift calendar:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to assign shift calendar' };
+    }
+  }
+
+  // ========== Shift Patterns ==========
+
+  /**
+   * Get a calendar's shift rules with their breaks
+   */
+  static async getRules(calendarId: string): Promise<ShiftCalendarRule[]> {
+    try {
+      const { data, error } = await supabase
+        .from('shift_calendar_rules')
+        .select('*, breaks:shift_calendar_breaks(id, rule_id, name, start_time, end_time)')
+        .eq('calendar_id', calendarId)
+        .order('start_time')
+        .order('day_of_week');
+
+      if (error) throw error;
+
+      return (data || []) as unknown as ShiftCalendarRule[];
+    } catch (error) {
+      console.error('Error getting shift rules:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a calendar's shifts grouped by shift name
+   */
+  static async getShiftPatterns(calendarId: string): Promise<ShiftPattern[]> {
+    const rules = await this.getRules(calendarId);
+    const patterns = new Map<string, ShiftPattern>();
+
+    for (const rule of rules.filter(r => r.is_active)) {
+      const existing = patterns.get(rule.shift_name);
+      if (existing) {
+        existing.days_of_week.push(rule.day_of_week);
+        continue;
+      }
+      patterns.set(rule.shift_name, {
+        shift_name: rule.shift_name,
+        days_of_week: [rule.day_of_week],
+        start_time: rule.start_time.slice(0, 5),
+        end_time: rule.end_time.slice(0, 5),
+        breaks: (rule.breaks || [])
+          .map(b => ({ name: b.name, start_time: b.start_time.slice(0, 5), end_time: b.end_time.slice(0, 5) }))
+          .sort((a, b) => a.start_time.localeCompare(b.start_time)),
+      });
+    }
+
+    return Array.from(patterns.values()).map(p => ({
+      ...p,
+      days_of_week: p.days_of_week.sort((a, b) => a - b),
+    }));
+  }
+
+  /**
+   * Create or replace a shift pattern: one rule per day, each with the same breaks
+   *
+   * Pass previousShiftName when renaming so the old rules are replaced.
+   */
+  static async saveShiftPattern(
+    calendarId: string,
+    pattern: ShiftPattern,
+    previousShiftName?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!pattern.shift_name.trim()) {
+        return { success: false, error: 'Shift name is required' };
+      }
+      if (pattern.days_of_week.length === 0) {
+        return { success: false, error: 'Select at least one day' };
+      }
+      if (pattern.start_time === pattern.end_time) {
+        return { success: false, error: 'Shift start and end cannot be the same time' };
+      }
+
+      const names = Array.from(new Set([pattern.shift_name, previousShiftName].filter(Boolean))) as string[];
+      const { error: deleteError } = await supabase
+        .from('shift_calendar_rules')
+        .delete()
+        .eq('calendar_id', calendarId)
+        .in('shift_name', names);
+
+      if (deleteError) throw deleteError;
+
+      const { data: rules, error: ruleError } = await supabase
+        .from('shift_calendar_rules')
+        .insert(pattern.days_of_week.map(day => ({
+          calendar_id: calendarId,
+          shift_name: pattern.shift_name.trim(),
+          day_of_week: day,
+          start_time: pattern.start_time,
+          end_time: pattern.end_time,
+          is_active: true,
+        })))
+        .select('id');
+
+      if (ruleError) throw ruleError;
+
+      if (pattern.breaks.length > 0 && rules) {
+        const { error: breakError } = await supabase
+          .from('shift_calendar_breaks')
+          .insert(rules.flatMap((rule: { id: string }) => pattern.breaks.map(b => ({
+            rule_id: rule.id,
+            name: b.name || 'Break',
+            start_time: b.start_time,
+            end_time: b.end_time,
+          }))));
+
+        if (breakError) throw breakError;
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving shift pattern:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to save shift' };
+    }
+  }
+
+  /**
+   * Delete every rule (and break) of a shift
+   */
+  static async deleteShiftPattern(
+    calendarId: string,
+    shiftName: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('shift_calendar_rules')
+        .delete()
+        .eq('calendar_id', calendarId)
+        .eq('shift_name', shiftName);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting shift pattern:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to delete shift' };
+    }
+  }
+
+  // ========== Holidays ==========
+
+  /**
+   * Get holidays for a calendar, including plant-wide holidays
+   */
+  static async getHolidays(calendarId?: string): Promise<ShiftHoliday[]> {
+    try {
+      let query = supabase
+        .from('shift_calendar_holidays')
+        .select('id, calendar_id, holiday_date, name')
+        .order('holiday_date');
+
+      query = calendarId
+        ? query.or(`calendar_id.eq.${calendarId},calendar_id.is.null`)
+        : query.is('calendar_id', null);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return (data || []) as ShiftHoliday[];
+    } catch (error) {
+      console.error('Error getting holidays:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add a holiday; calendarId null applies it to every calendar
+   */
+  static async addHoliday(
+    calendarId: string | null,
+    holidayDate: string,
+    name: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: user } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('shift_calendar_holidays')
+        .insert({
+          calendar_id: calendarId,
+          holiday_date: holidayDate,
+          name,
+          created_by: user?.user?.id,
+        });
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error adding holiday:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to add holiday' };
+    }
+  }
+
+  /**
+   * Remove a holiday
+   */
+  static async deleteHoliday(holidayId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('shift_calendar_holidays')
+        .delete()
+        .eq('id', holidayId);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to delete holiday' };
+    }
+  }
+
+  // ========== Planned Downtime ==========
+
+  /**
+   * Get planned downtime windows overlapping a time range
+   */
+  static async getPlannedDowntime(filters: {
+    work_center_id?: string;
+    calendar_id?: string;
+    from?: string;
+    to?: string;
+  } = {}): Promise<PlannedDowntimeWindow[]> {
+    try {
+      let query = supabase
+        .from('planned_downtime_windows')
+        .select(`
+          *,
+          work_center:work_centers(name),
+          equipment:equipment_assets(name),
+          reason:downtime_reason_codes(name)
+        `)
+        .order('start_ts');
+
+      if (filters.work_center_id) {
+        query = query.eq('work_center_id', filters.work_center_id);
+      }
+      if (filters.calendar_id) {
+        query = query.eq('calendar_id', filters.calendar_id);
+      }
+      if (filters.from) {
+        query = query.gt('end_ts', filters.from);
+      }
+      if (filters.to) {
+        query = query.lt('start_ts', filters.to);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return (data || []).map(w => ({
+        ...w,
+        work_center_name: (w.work_center as unknown as { name: string } | null)?.name ?? null,
+        equipment_name: (w.equipment as unknown as { name: string } | null)?.name ?? null,
+        reason_name: (w.reason as unknown as { name: string } | null)?.name ?? null,
+      })) as PlannedDowntimeWindow[];
+    } catch (error) {
+      console.error('Error getting planned downtime:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Schedule a planned downtime window (maintenance, changeover, meeting)
+   *
+   * Scope is the most specific target given: equipment, work center, else calendar-wide.
+   */
+  static async createPlannedDowntime(
+    input: CreatePlannedDowntimeInput
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (new Date(input.end_ts) <= new Date(input.start_ts)) {
+        return { success: false, error: 'End must be after start' };
+      }
+
+      const { data: user } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('planned_downtime_windows')
+        .insert({
+          calendar_id: input.calendar_id || null,
+          equipment_asset_id: input.equipment_asset_id || null,
+          work_center_id: input.work_center_id || null,
+          start_ts: input.start_ts,
+          end_ts: input.end_ts,
+          reason_code_id: input.reason_code_id || null,
+          description: input.description || null,
+          created_by: user?.user?.id,
+        });
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error creating planned downtime:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create planned downtime' };
+    }
+  }
+
+  /**
+   * Delete a planned downtime window
+   */
+  static async deletePlannedDowntime(windowId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('planned_downtime_windows')
+        .delete()
+        .eq('id', windowId);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting planned downtime:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to delete planned downtime' };
+    }
+  }
+
+  // ========== Working Time ==========
+
+  /**
+   * Get shift and break intervals for a work center (calendar timezone aware)
+   */
+  static async getShiftWindows(
+    workCenterId: string,
+    fromDate: string,
+    toDate: string
+  ): Promise<ShiftWindow[]> {
+    try {
+      const { data, error } = await supabase.rpc('fn_get_shift_windows', {
+        p_work_center_id: workCenterId,
+        p_from: fromDate,
+        p_to: toDate,
+      });
+
+      if (error) throw error;
+
+      return (data || []) as ShiftWindow[];
+    } catch (error) {
+      console.error('Error getting shift windows:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the start and end of a named shift on a date ('YYYY-MM-DD', shift start date)
+   *
+   * Without a shift name, spans every shift starting that day. Returns null when
+   * the calendar has no such shift (or the day is a holiday).
+   */
+  static async getShiftBounds(
+    workCenterId: string,
+    date: string,
+    shiftName?: string
+  ): Promise<{ start: string; end: string } | null> {
+    const day = date.slice(0, 10);
+    const from = new Date(`${day}T00:00:00Z`);
+    // Pad both sides so calendar timezones ahead of or behind UTC are covered
+    const windows = await this.getShiftWindows(
+      workCenterId,
+      new Date(from.getTime() - 24 * 60 * 60 * 1000).toISOString(),
+      new Date(from.getTime() + 3 * 24 * 60 * 60 * 1000).toISOString()
+    );
+
+    const shifts = windows.filter(w =>
+      w.kind === 'shift' && w.shift_date === day && (!shiftName || w.shift_name === shiftName)
+    );
+    if (shifts.length === 0) return null;
+
+    const start = Math.min(...shifts.map(s => new Date(s.start_ts).getTime()));
+    const end = Math.max(...shifts.map(s => new Date(s.end_ts).getTime()));
+    return { start: new Date(start).toISOString(), end: new Date(end).toISOString() };
+  }
+
+  /**
+   * Working intervals per work center: shifts minus breaks minus planned downtime
+   *
+   * Planned downtime applies when scoped to the work center or calendar-wide;
+   * equipment-level windows stop a single asset, not the work center.
+   */
+  static async getWorkingWindows(
+    workCenterIds: string[],
+    fromMs: number,
+    toMs: number
+  ): Promise<Map<string, WorkingInterval[]>> {
+    const result = new Map<string, WorkingInterval[]>();
+    if (workCenterIds.length === 0 || toMs <= fromMs) return result;
+
+    const fromDate = new Date(fromMs).toISOString();
+    const toDate = new Date(toMs).toISOString();
+
+    try {
+      const [{ data: workCenters }, { data: defaultCalendar }, { data: downtime }, { data: holidays }] = await Promise.all([
+        supabase
+          .from('work_centers')
+          .select('id, hours_per_day, days_per_week, shift_calendar_id, calendar:shift_calendars(is_active)')
+          .in('id', workCenterIds),
+        supabase
+          .from('shift_calendars')
+          .select('id')
+          .eq('is_default', true)
+          .eq('is_active', true)
+          .order('created_at')
+          .limit(1)
+          .maybeSingle(),
+        supabase
+          .from('planned_downtime_windows')
+          .select('work_center_id, equipment_asset_id, calendar_id, start_ts, end_ts')
+          .lt('start_ts', toDate)
+          .gt('end_ts', fromDate),
+        supabase
+          .from('shift_calendar_holidays')
+          .select('holiday_date')
+          .is('calendar_id', null),
+      ]);
+
+      type WorkCenterCalendar = {
+        id: string;
+        hours_per_day: number | null;
+        days_per_week: number | null;
+        shift_calendar_id: string | null;
+        calendar: { is_active: boolean } | null;
+      };
+      const rows = (workCenters || []) as unknown as WorkCenterCalendar[];
+
+      const calendarByWorkCenter = new Map<string, string | null>();
+      for (const wc of rows) {
+        const assigned = wc.shift_calendar_id && wc.calendar?.is_active ? wc.shift_calendar_id : null;
+        calendarByWorkCenter.set(wc.id, assigned ?? defaultCalendar?.id ?? null);
+      }
+
+      const calendarIds = Array.from(new Set(Array.from(calendarByWorkCenter.values()).filter(Boolean))) as string[];
+      const calendarsWithRules = new Set<string>();
+      if (calendarIds.length > 0) {
+        const { data: rules } = await supabase
+          .from('shift_calendar_rules')
+          .select('calendar_id')
+          .in('calendar_id', calendarIds)
+          .eq('is_active', true);
+        for (const rule of rules || []) calendarsWithRules.add(rule.calendar_id);
+      }
+
+      const plantHolidays = new Set((holidays || []).map(h => h.holiday_date as string));
+
+      for (const wc of rows) {
+        const calendarId = calendarByWorkCenter.get(wc.id) ?? null;
+        let windows: WorkingInterval[];
+
+        if (calendarId && calendarsWithRules.has(calendarId)) {
+          const shiftWindows = await this.getShiftWindows(wc.id, fromDate, toDate);
+          const toInterval = (w: ShiftWindow) => ({ start: new Date(w.start_ts).getTime(), end: new Date(w.end_ts).getTime() });
+          windows = this.subtractIntervals(
+            shiftWindows.filter(w => w.kind === 'shift').map(toInterval),
+            shiftWindows.filter(w => w.kind === 'break').map(toInterval)
+          );
+        } else {
+          windows = this.getFallbackWindows(
+            wc.hours_per_day ?? this.DEFAULT_HOURS_PER_DAY,
+            wc.days_per_week ?? this.DEFAULT_DAYS_PER_WEEK,
+            plantHolidays,
+            fromMs,
+            toMs
+          );
+        }
+
+        const stops = (downtime || [])
+          .filter(d => !d.equipment_asset_id && (
+            d.work_center_id === wc.id
+            || (!d.work_center_id && (!d.calendar_id || d.calendar_id === calendarId))
+          ))
+          .map(d => ({ start: new Date(d.start_ts).getTime(), end: new Date(d.end_ts).getTime() }));
+
+        result.set(wc.id, this.mergeIntervals(this.subtractIntervals(windows, stops))
+          .map(w => ({ start: Math.max(w.start, fromMs), end: Math.min(w.end, toMs) }))
+          .filter(w => w.end > w.start));
+      }
+    } catch (error) {
+      console.error('Error getting working windows:', error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Planned production time for a work center, in seconds
+   */
+  static async getPlannedProductionSeconds(
+    workCenterId: string,
+    fromDate: string,
+    toDate: string
+  ): Promise<number> {
+    const fromMs = new Date(fromDate).getTime();
+    const toMs = new Date(toDate).getTime();
+    const windows = await this.getWorkingWindows([workCenterId], fromMs, toMs);
+    return this.sumWindowSeconds(windows.get(workCenterId) || [], fromMs, toMs);
+  }
+
+  /**
+   * Seconds of working time that fall inside [fromMs, toMs)
+   */
+  static sumWindowSeconds(windows: WorkingInterval[], fromMs: number, toMs: number): number {
+    return windows.reduce((sum, w) => {
+      const overlap = Math.min(w.end, toMs) - Math.max(w.start, fromMs);
+      return overlap > 0 ? sum + overlap / 1000 : sum;
+    }, 0);
+  }
+
+  // ========== Private Helper Methods ==========
+
+  private static async clearDefaultCalendar(exceptId?: string): Promise<void> {
+    let query = supabase
+      .from('shift_calendars')
+      .update({ is_default: false })
+      .eq('is_default', true);
+
+    if (exceptId) {
+      query = query.neq('id', exceptId);
+    }
+
+    const { error } = await query;
+    if (error) throw error;
+  }
+
+  /**
+   * hours_per_day starting at 06:00 local time on working days
+   * (Mon-Fri, Mon-Sat or every day), skipping plant-wide holidays
+   */
+  private static getFallbackWindows(
+    hoursPerDay: number,
+    daysPerWeek: number,
+    holidays: Set<string>,
+    fromMs: number,
+    toMs: number
+  ): WorkingInterval[] {
+    const windows: WorkingInterval[] = [];
+
+    // Start a day early so windows that began before the range are included
+    const day = new Date(fromMs);
+    day.setHours(0, 0, 0, 0);
+    day.setDate(day.getDate() - 1);
+
+    while (day.getTime() < toMs) {
+      const dow = day.getDay();
+      const isWorkDay = daysPerWeek >= 7
+        || (daysPerWeek >= 6 && dow >= 1)
+        || (dow >= 1 && dow <= Math.min(daysPerWeek, 5));
+      const dateKey = `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+
+      if (isWorkDay && !holidays.has(dateKey)) {
+        const start = new Date(day);
+        start.setHours(this.DEFAULT_SHIFT_START_HOUR, 0, 0, 0);
+        windows.push({ start: start.getTime(), end: start.getTime() + hoursPerDay * 60 * 60 * 1000 });
+      }
+
+      day.setDate(day.getDate() + 1);
+    }
+
+    return windows;
+  }
+
+  private static subtractIntervals(windows: WorkingInterval[], cuts: WorkingInterval[]): WorkingInterval[] {
+    let result = windows;
+    for (const cut of cuts) {
+      result = result.flatMap(w => {
+        if (cut.end <= w.start || cut.start >= w.end) return [w];
+        const parts: WorkingInterval[] = [];
+        if (cut.start > w.start) parts.push({ start: w.start, end: cut.start });
+        if (cut.end < w.end) parts.push({ start: cut.end, end: w.end });
+        return parts;
+      });
+    }
+    return result;
+  }
+
+  // Sorted and non-overlapping, so overlapping shifts are not double counted
+  private static mergeIntervals(windows: WorkingInterval[]): WorkingInterval[] {
+    const sorted = [...windows].sort((a, b) => a.start - b.start);
+    const merged: WorkingInterval[] = [];
+    for (const w of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && w.start <= last.end) {
+        last.end = Math.max(last.end, w.end);
+      } else {
+        merged.push({ ...w });
+      }
+    }
+    return merged;
+  }
+}
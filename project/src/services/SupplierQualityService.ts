@@ -0,0 +1,407 @@
+/**
+ * SupplierQualityService
+ *
+ * Supplier quality for purchased parts:
+ * - Incoming inspection plan lookup for received parts (vendor-specific plans win)
+ * - Receipt quarantine: the receipt is held out of stock until its inspection
+ *   run passes (released by a database trigger) or is dispositioned
+ * - Rejected quantities raise a SUPPLIER nonconformance with a RETURN_TO_VENDOR
+ *   disposition and a supplier corrective action request (SCAR)
+ * - Vendor quality metrics: incoming PPM, lot reject rate and open SCARs
+ */
+
+import { supabase } from '../lib/supabase';
+import {
+  QualityExecutionService,
+  InspectionPlan,
+  InspectionRunStatus,
+  NCSeverity,
+  Nonconformance,
+} from './QualityExecutionService';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type ReceiptInspectionStatus =
+  | 'NOT_REQUIRED'
+  | 'QUARANTINED'
+  | 'AWAITING_DISPOSITION'
+  | 'ACCEPTED'
+  | 'PARTIALLY_ACCEPTED'
+  | 'REJECTED';
+
+export type SCARStatus = 'ISSUED' | 'ACKNOWLEDGED' | 'RESPONDED' | 'ACCEPTED' | 'REJECTED' | 'CLOSED';
+
+export interface QuarantinedReceipt {
+  id: string;
+  po_id: string;
+  po_line_id: string;
+  receipt_date: string;
+  quantity_received: number;
+  quantity_accepted?: number | null;
+  quantity_rejected?: number | null;
+  lot_number?: string | null;
+  inspection_status: ReceiptInspectionStatus;
+  inspection_run_id?: string | null;
+  received_at_location_id?: string | null;
+  purchase_order?: { po_number: string; vendor_id: string; vendors?: { name: string } | null } | null;
+  line?: { part_id: string; parts?: { part_number: string; name: string; is_serialized: boolean } | null } | null;
+  inspection_run?: { status: InspectionRunStatus; lot_disposition?: string | null } | null;
+  serials?: { serial_number: string }[];
+}
+
+export interface QuarantineReceiptInput {
+  receipt_id: string;
+  inspection_plan_id: string;
+  part_id: string;
+  vendor_id?: string | null;
+  quantity: number;
+}
+
+export interface ReceiptDispositionInput {
+  quantity_accepted: number;
+  rejected_serials?: string[];
+  severity?: NCSeverity;
+  defect_code_id?: string;
+  description?: string;
+  response_due_date?: string;
+}
+
+export interface ReceiptDispositionResult {
+  receipt: QuarantinedReceipt;
+  nonconformance?: Nonconformance;
+  scar?: SupplierCorrectiveAction;
+}
+
+export interface SupplierCorrectiveAction {
+  id: string;
+  scar_number: string;
+  vendor_id: string;
+  nonconformance_id?: string | null;
+  po_receipt_id?: string | null;
+  part_id?: string | null;
+  status: SCARStatus;
+  problem_description: string;
+  qty_rejected?: number | null;
+  response_due_date?: string | null;
+  containment_action?: string | null;
+  root_cause?: string | null;
+  corrective_action?: string | null;
+  responded_at?: string | null;
+  review_notes?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  issued_by?: string | null;
+  issued_at: string;
+  closed_at?: string | null;
+  vendor?: { name: string } | null;
+  part?: { part_number: string; name: string } | null;
+  nonconformance?: { nc_number: string } | null;
+}
+
+export interface SCARResponseInput {
+  containment_action: string;
+  root_cause: string;
+  corrective_action: string;
+}
+
+export interface VendorQualityMetrics {
+  vendor_id: string;
+  lots_inspected: number;
+  lots_rejected: number;
+  qty_inspected: number;
+  qty_rejected: number;
+  lot_reject_rate: number | null;
+  ppm: number | null;
+  open_scars: number;
+}
+
+export const SCAR_RESPONSE_DAYS = 30;
+
+const OPEN_SCAR_STATUSES: SCARStatus[] = ['ISSUED', 'ACKNOWLEDGED', 'RESPONDED', 'REJECTED'];
+
+// =====================================================
+// SERVICE CLASS
+// =====================================================
+
+class SupplierQualityServiceClass {
+  // =====================================================
+  // INCOMING INSPECTION PLANS
+  // =====================================================
+
+  /**
+   * Active INCOMING plans keyed by part. A plan scoped to the vendor takes
+   * precedence over a plan that applies to the part from any vendor.
+   */
+  async getIncomingPlans(partIds: string[], vendorId?: string | null): Promise<Record<string, InspectionPlan>> {
+    if (partIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('quality_inspection_plans')
+      .select('*, sampling_plan:quality_sampling_plans(*)')
+      .eq('plan_type', 'INCOMING')
+      .eq('is_active', true)
+      .in('part_id', partIds);
+
+    if (error) throw error;
+
+    const plans: Record<string, InspectionPlan> = {};
+    for (const plan of (data || []) as unknown as InspectionPlan[]) {
+      if (!plan.part_id) continue;
+      if (plan.vendor_id && plan.vendor_id !== vendorId) continue;
+      if (!plans[plan.part_id] || plan.vendor_id) {
+        plans[plan.part_id] = plan;
+      }
+    }
+    return plans;
+  }
+
+  // =====================================================
+  // RECEIPT QUARANTINE
+  // =====================================================
+
+  /**
+   * Put a PO receipt into quarantine and open its incoming inspection run.
+   * The caller records the receipt without posting stock and holds the
+   * quantity on the PO line as quantity_in_inspection.
+   */
+  async quarantineReceipt(input: QuarantineReceiptInput): Promise<string> {
+    const run = await QualityExecutionService.createInspectionRun({
+      inspection_plan_id: input.inspection_plan_id,
+      part_id: input.part_id,
+      vendor_id: input.vendor_id || undefined,
+      po_receipt_id: input.receipt_id,
+      lot_size: input.quantity,
+    });
+
+    const { error } = await supabase
+      .from('purchase_order_receipts')
+      .update({ inspection_status: 'QUARANTINED', inspection_run_id: run.id })
+      .eq('id', input.receipt_id);
+
+    if (error) throw error;
+    return run.id;
+  }
+
+  async getQuarantinedReceipts(filters?: {
+    status?: ReceiptInspectionStatus;
+    vendor_id?: string;
+  }): Promise<QuarantinedReceipt[]> {
+    let query = supabase
+      .from('purchase_order_receipts')
+      .select(`
+        *,
+        purchase_order:purchase_orders!inner(po_number, vendor_id, vendors(name)),
+        line:purchase_order_lines(part_id, parts(part_number, name, is_serialized)),
+        inspection_run:quality_inspection_runs!purchase_order_receipts_inspection_run_id_fkey(status, lot_disposition),
+        serials:receipt_serial_numbers(serial_number)
+      `)
+      .order('receipt_date');
+
+    if (filters?.status) {
+      query = query.eq('inspection_status', filters.status);
+    } else {
+      query = query.in('inspection_status', ['QUARANTINED', 'AWAITING_DISPOSITION']);
+    }
+    if (filters?.vendor_id) {
+      query = query.eq('purchase_order.vendor_id', filters.vendor_id);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  private async getReceipt(id: string): Promise<QuarantinedReceipt | null> {
+    const { data, error } = await supabase
+      .from('purchase_order_receipts')
+      .select(`
+        *,
+        purchase_order:purchase_orders(po_number, vendor_id, vendors(name)),
+        line:purchase_order_lines(part_id, parts(part_number, name, is_serialized)),
+        inspection_run:quality_inspection_runs!purchase_order_receipts_inspection_run_id_fkey(status, lot_disposition),
+        serials:receipt_serial_numbers(serial_number)
+      `)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Disposition a receipt whose inspection failed: the accepted quantity
+   * goes into stock and anything rejected is returned to the vendor under a
+   * supplier NC and SCAR. The release, NC, disposition and SCAR are written
+   * in one server transaction.
+   */
+  async dispositionReceipt(receiptId: string, input: ReceiptDispositionInput): Promise<ReceiptDispositionResult> {
+    const receipt = await this.getReceipt(receiptId);
+    if (!receipt) throw new Error('Receipt not found');
+
+    const quantityRejected = Number(receipt.quantity_received) - input.quantity_accepted;
+    if (input.quantity_accepted < 0 || quantityRejected < 0) {
+      throw new Error(`Accepted quantity must be between 0 and ${receipt.quantity_received}`);
+    }
+    if (quantityRejected > 0 && !input.description?.trim()) {
+      throw new Error('Describe the nonconformance for the rejected quantity');
+    }
+
+    const { data, error } = await supabase.rpc('fn_disposition_receipt', {
+      p_receipt_id: receiptId,
+      p_quantity_accepted: input.quantity_accepted,
+      p_rejected_serials: input.rejected_serials || [],
+      p_description: input.description?.trim() || null,
+      p_severity: input.severity || 'MAJOR',
+      p_defect_code_id: input.defect_code_id || null,
+      p_response_due_date: quantityRejected > 0
+        ? input.response_due_date || this.addDays(new Date(), SCAR_RESPONSE_DAYS)
+        : null,
+    });
+
+    if (error) throw error;
+
+    const result = data as unknown as {
+      receipt: QuarantinedReceipt;
+      nonconformance: Nonconformance | null;
+      scar: SupplierCorrectiveAction | null;
+    };
+
+    return {
+      receipt: { ...receipt, ...result.receipt },
+      nonconformance: result.nonconformance || undefined,
+      scar: result.scar || undefined,
+    };
+  }
+
+  // =====================================================
+  // SUPPLIER CORRECTIVE ACTIONS
+  // =====================================================
+
+  async getSCARs(filters?: {
+    vendor_id?: string;
+    status?: SCARStatus;
+    openOnly?: boolean;
+  }): Promise<SupplierCorrectiveAction[]> {
+    let query = supabase
+      .from('quality_supplier_cars')
+      .select(`
+        *,
+        vendor:vendors(name),
+        part:parts(part_number, name),
+        nonconformance:quality_nonconformances(nc_number)
+      `)
+      .order('issued_at', { ascending: false });
+
+    if (filters?.vendor_id) {
+      query = query.eq('vendor_id', filters.vendor_id);
+    }
+    if (filters?.status) {
+      query = query.eq('status', filters.status);
+    } else if (filters?.openOnly) {
+      query = query.in('status', OPEN_SCAR_STATUSES);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createSCAR(input: Partial<SupplierCorrectiveAction>): Promise<SupplierCorrectiveAction> {
+    if (!input.vendor_id) throw new Error('Vendor is required');
+    if (!input.problem_description?.trim()) throw new Error('Problem description is required');
+
+    const { data, error } = await supabase
+      .from('quality_supplier_cars')
+      .insert({ ...input, status: 'ISSUED' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateSCAR(id: string, updates: Partial<SupplierCorrectiveAction>): Promise<SupplierCorrectiveAction> {
+    const { data, error } = await supabase
+      .from('quality_supplier_cars')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async acknowledgeSCAR(id: string): Promise<SupplierCorrectiveAction> {
+    return this.updateSCAR(id, { status: 'ACKNOWLEDGED' });
+  }
+
+  /**
+   * Record the supplier's containment, root cause and corrective action. A
+   * rejected response can be resubmitted.
+   */
+  async recordSCARResponse(id: string, response: SCARResponseInput): Promise<SupplierCorrectiveAction> {
+    if (!response.containment_action.trim() || !response.root_cause.trim() || !response.corrective_action.trim()) {
+      throw new Error('Containment, root cause and corrective action are all required');
+    }
+
+    return this.updateSCAR(id, {
+      ...response,
+      status: 'RESPONDED',
+      responded_at: new Date().toISOString(),
+    });
+  }
+
+  async reviewSCAR(id: string, accepted: boolean, notes?: string): Promise<SupplierCorrectiveAction> {
+    if (!accepted && !notes?.trim()) {
+      throw new Error('Explain why the response is rejected');
+    }
+    const { data: userData } = await supabase.auth.getUser();
+
+    return this.updateSCAR(id, {
+      status: accepted ? 'ACCEPTED' : 'REJECTED',
+      review_notes: notes || null,
+      reviewed_by: userData.user?.id || null,
+      reviewed_at: new Date().toISOString(),
+    });
+  }
+
+  async closeSCAR(id: string): Promise<SupplierCorrectiveAction> {
+    return this.updateSCAR(id, {
+      status: 'CLOSED',
+      closed_at: new Date().toISOString(),
+    });
+  }
+
+  isSCAROverdue(scar: SupplierCorrectiveAction): boolean {
+    return !!scar.response_due_date
+      && (scar.status === 'ISSUED' || scar.status === 'ACKNOWLEDGED')
+      && scar.response_due_date < new Date().toISOString().split('T')[0];
+  }
+
+  // =====================================================
+  // VENDOR METRICS
+  // =====================================================
+
+  async getVendorQualityMetrics(vendorId?: string): Promise<VendorQualityMetrics[]> {
+    let query = supabase.from('vw_vendor_quality_metrics').select('*');
+
+    if (vendorId) {
+      query = query.eq('vendor_id', vendorId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  private addDays(date: Date, days: number): string {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result.toISOString().split('T')[0];
+  }
+}
+
+export const SupplierQualityService = new SupplierQualityServiceClass();
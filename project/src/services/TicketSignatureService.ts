@@ -0,0 +1,165 @@
+/**
+ * TicketSignatureService
+ *
+ * Customer signatures captured on screen against a service ticket:
+ * - Work authorization, required before work starts on a service call
+ * - Completion acceptance, required before the technician completes a service call
+ * - Declined recommended repairs, listing what was offered and declined
+ * Each signature is stamped with the time and the device's GPS position and
+ * goes through the technician action queue, so it can be captured offline.
+ */
+
+import { supabase } from '../lib/supabase';
+import { GeolocationService } from './GeolocationService';
+import { OfflineSyncService, type ActionResult } from './OfflineSyncService';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type TicketSignatureType = 'work_authorization' | 'work_completion' | 'declined_repairs';
+
+export interface DeclinedRepair {
+  description: string;
+  estimated_cost: number | null;
+}
+
+export interface TicketSignature {
+  id: string;
+  ticket_id: string;
+  signature_type: TicketSignatureType;
+  signer_name: string;
+  signer_title: string | null;
+  statement: string;
+  declined_items: DeclinedRepair[];
+  signature_image: string;
+  signed_at: string;
+  latitude: number | null;
+  longitude: number | null;
+  location_accuracy: number | null;
+  location_captured_at: string | null;
+  captured_by: string | null;
+  captured_by_profile?: { full_name: string } | null;
+}
+
+export interface SignatureCaptureInput {
+  signature_type: TicketSignatureType;
+  signer_name: string;
+  signer_title?: string;
+  statement: string;
+  declined_items?: DeclinedRepair[];
+  signature_image: string;
+}
+
+export const SIGNATURE_TYPE_LABELS: Record<TicketSignatureType, string> = {
+  work_authorization: 'Work Authorization',
+  work_completion: 'Completion Acceptance',
+  declined_repairs: 'Declined Repairs',
+};
+
+// =====================================================
+// SERVICE CLASS
+// =====================================================
+
+class TicketSignatureServiceClass {
+  /**
+   * The statement the customer signs, shown on screen and stored with the
+   * signature.
+   */
+  getStatement(type: TicketSignatureType, companyName: string): string {
+    switch (type) {
+      case 'work_authorization':
+        return `I authorize ${companyName} to perform the work described on this ticket and agree to pay for the labor and materials used at the applicable rates.`;
+      case 'work_completion':
+        return `The work described on this ticket has been completed by ${companyName} to my satisfaction.`;
+      case 'declined_repairs':
+        return `${companyName} has recommended the repairs listed above. I decline to have them performed at this time and understand that the condition may worsen or cause further damage.`;
+    }
+  }
+
+  /**
+   * Whether the ticket needs the work authorization and completion
+   * acceptance: service tickets not generated from a PM plan. Project
+   * tickets and PM visits are authorized under their project or contract.
+   * Mirrors fn_ticket_requires_customer_signatures.
+   */
+  requiresSignatures(ticket: { ticket_type?: string | null; pm_plan_id?: string | null }): boolean {
+    return (ticket.ticket_type ?? 'SVC') === 'SVC' && !ticket.pm_plan_id;
+  }
+
+  async getTicketSignatures(ticketId: string): Promise<TicketSignature[]> {
+    return OfflineSyncService.cached(`ticket-signatures:${ticketId}`, async () => {
+      const { data, error } = await supabase
+        .from('ticket_signatures')
+        .select('*, captured_by_profile:profiles!ticket_signatures_captured_by_fkey(full_name)')
+        .eq('ticket_id', ticketId)
+        .order('signed_at');
+
+      if (error) throw error;
+      return (data || []) as unknown as TicketSignature[];
+    });
+  }
+
+  async getSignaturesForTickets(ticketIds: string[]): Promise<TicketSignature[]> {
+    if (ticketIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('ticket_signatures')
+      .select('*')
+      .in('ticket_id', ticketIds)
+      .order('signed_at');
+
+    if (error) throw error;
+    return (data || []) as unknown as TicketSignature[];
+  }
+
+  /**
+   * Record a customer signature, with the GPS position if the device can
+   * provide one in time. Queued when offline.
+   */
+  async capture(
+    userId: string,
+    ticket: { id: string; ticket_number?: string },
+    input: SignatureCaptureInput
+  ): Promise<ActionResult> {
+    if (!input.signer_name.trim()) throw new Error('Enter the name of the person signing');
+    if (!input.signature_image) throw new Error('The customer has not signed');
+    if (input.signature_type === 'declined_repairs' && !input.declined_items?.length) {
+      throw new Error('List the recommended repairs that were declined');
+    }
+
+    let position = GeolocationService.getLastPosition();
+    try {
+      position = await GeolocationService.getCurrentPosition({ timeout: 8000 });
+    } catch (error) {
+      console.warn('No GPS fix for signature, using last known position:', error);
+    }
+
+    return OfflineSyncService.submit(userId, {
+      action_type: 'CAPTURE_SIGNATURE',
+      ticket_id: ticket.id,
+      ticket_number: ticket.ticket_number,
+      label: `${SIGNATURE_TYPE_LABELS[input.signature_type]} signed by ${input.signer_name.trim()}`,
+      payload: {
+        signature_type: input.signature_type,
+        signer_name: input.signer_name.trim(),
+        signer_title: input.signer_title?.trim() || null,
+        statement: input.statement,
+        declined_items: input.declined_items || [],
+        signature_image: input.signature_image,
+        latitude: position?.latitude ?? null,
+        longitude: position?.longitude ?? null,
+        location_accuracy: position?.accuracy ?? null,
+        location_captured_at: position ? new Date(position.timestamp).toISOString() : null,
+      },
+    });
+  }
+
+  formatLocation(signature: Pick<TicketSignature, 'latitude' | 'longitude' | 'location_accuracy'>): string | null {
+    if (signature.latitude === null || signature.longitude === null) return null;
+    const accuracy = signature.location_accuracy !== null ? ` (±${Math.round(signature.location_accuracy)} m)` : '';
+    return `${Number(signature.latitude).toFixed(5)}, ${Number(signature.longitude).toFixed(5)}${accuracy}`;
+  }
+}
+
+export const TicketSignatureService = new TicketSignatureServiceClass();
@@ -0,0 +1,230 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey, X-Ingest-Key',
+};
+
+const MAX_BATCH_SIZE = 1000;
+// Machine clocks drift; anything further ahead than this is rejected
+const MAX_FUTURE_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Batch body. Each message may be MQTT-style, OPC-UA style or already flat:
+ * - MQTT:   { topic, payload: 1 | { value, ts }, ts?, message_id? }
+ * - OPC-UA: { nodeId, value: 1 | { value, sourceTimestamp }, sourceTimestamp?, sequenceNumber? }
+ * - Flat:   { tag, value, ts, message_id? }
+ */
+interface MachineIngestRequest {
+  source?: string;
+  messages: Record<string, unknown>[];
+}
+
+interface NormalizedSignal {
+  index: number;
+  tag: string;
+  value: string;
+  ts: string;
+  message_id: string | null;
+}
+
+interface SignalResult {
+  index: number;
+  tag: string | null;
+  status: string;
+  message?: string | null;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toTimestamp = (value: unknown): string | null => {
+  if (typeof value === 'number') {
+    // Epoch seconds or milliseconds
+    const ms = value < 1e12 ? value * 1000 : value;
+    return new Date(ms).toISOString();
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+  }
+  return null;
+};
+
+const toValue = (value: unknown): string | null => {
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (typeof value === 'string') return value;
+  return null;
+};
+
+function normalizeMessage(
+  message: Record<string, unknown>,
+  index: number,
+  receivedAt: string
+): NormalizedSignal | string {
+  let tag: unknown;
+  let rawValue: unknown;
+  let ts: unknown;
+  let messageId: unknown;
+
+  if ('topic' in message) {
+    // MQTT-style: payload is the value or an object carrying value/ts
+    tag = message.topic;
+    const payload = message.payload;
+    rawValue = isRecord(payload) ? payload.value : payload;
+    ts = (isRecord(payload) ? payload.ts ?? payload.timestamp : undefined) ?? message.ts ?? message.timestamp;
+    messageId = message.message_id ?? message.messageId ?? (isRecord(payload) ? payload.message_id : undefined);
+  } else if ('nodeId' in message || 'node_id' in message) {
+    // OPC-UA style: value may be a DataValue with its own source timestamp
+    tag = message.nodeId ?? message.node_id;
+    const dataValue = message.value;
+    rawValue = isRecord(dataValue) ? dataValue.value : dataValue;
+    ts = (isRecord(dataValue) ? dataValue.sourceTimestamp : undefined)
+      ?? message.sourceTimestamp
+      ?? message.source_timestamp
+      ?? message.serverTimestamp;
+    const sequence = message.sequenceNumber ?? message.sequence_number;
+    messageId = message.message_id ?? (sequence !== undefined ? `${String(tag)}#${String(sequence)}` : undefined);
+  } else {
+    tag = message.tag;
+    rawValue = message.value;
+    ts = message.ts ?? message.timestamp;
+    messageId = message.message_id;
+  }
+
+  if (typeof tag !== 'string' || tag.trim() === '') {
+    return 'Missing tag (topic / nodeId / tag)';
+  }
+
+  const value = toValue(rawValue);
+  if (value === null) {
+    return 'Missing or non-scalar value';
+  }
+
+  // Signals without a device timestamp are stamped on arrival
+  const timestamp = ts === undefined || ts === null ? receivedAt : toTimestamp(ts);
+  if (!timestamp) {
+    return 'Invalid timestamp';
+  }
+  if (new Date(timestamp).getTime() - Date.now() > MAX_FUTURE_SKEW_MS) {
+    return 'Timestamp is in the future';
+  }
+
+  return {
+    index,
+    tag: tag.trim(),
+    value,
+    ts: timestamp,
+    message_id: messageId !== undefined && messageId !== null ? String(messageId) : null,
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    // Machines authenticate with a shared ingest key rather than a user session
+    const ingestKey = Deno.env.get('MACHINE_INGEST_KEY');
+    if (!ingestKey) {
+      return jsonResponse({ error: 'Machine ingestion is not configured' }, 503);
+    }
+    if (req.headers.get('x-ingest-key') !== ingestKey) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const requestData: MachineIngestRequest = await req.json();
+    const source = (requestData.source || 'mqtt').trim().toLowerCase();
+
+    if (!Array.isArray(requestData.messages) || requestData.messages.length === 0) {
+      return jsonResponse({ error: 'messages must be a non-empty array' }, 400);
+    }
+
+    if (requestData.messages.length > MAX_BATCH_SIZE) {
+      return jsonResponse({ error: `Batch exceeds ${MAX_BATCH_SIZE} messages` }, 413);
+    }
+
+    const receivedAt = new Date().toISOString();
+    const results: SignalResult[] = [];
+    const signals: NormalizedSignal[] = [];
+
+    requestData.messages.forEach((message, index) => {
+      const normalized = isRecord(message)
+        ? normalizeMessage(message, index, receivedAt)
+        : 'Message must be an object';
+
+      if (typeof normalized === 'string') {
+        results.push({ index, tag: null, status: 'rejected', message: normalized });
+      } else {
+        signals.push(normalized);
+      }
+    });
+
+    // Apply in source-time order so counters and state changes see a consistent sequence
+    signals.sort((a, b) => a.ts.localeCompare(b.ts) || a.index - b.index);
+
+    for (const signal of signals) {
+      const { data, error } = await supabase.rpc('fn_ingest_machine_signal', {
+        p_source: source,
+        p_tag: signal.tag,
+        p_value: signal.value,
+        p_source_ts: signal.ts,
+        p_message_id: signal.message_id,
+      });
+
+      if (error) {
+        console.error('Error ingesting machine signal:', error);
+        results.push({ index: signal.index, tag: signal.tag, status: 'error', message: error.message });
+        continue;
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      results.push({
+        index: signal.index,
+        tag: signal.tag,
+        status: row?.out_status ?? 'error',
+        message: row?.out_message ?? null,
+      });
+    }
+
+    results.sort((a, b) => a.index - b.index);
+
+    const summary = results.reduce<Record<string, number>>((acc, result) => {
+      acc[result.status] = (acc[result.status] || 0) + 1;
+      return acc;
+    }, {});
+
+    return jsonResponse({
+      success: true,
+      received: requestData.messages.length,
+      summary,
+      results,
+    });
+  } catch (error) {
+    console.error('Error in machine-ingest function:', error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      500
+    );
+  }
+});
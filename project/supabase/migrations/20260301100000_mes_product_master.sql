@@ -0,0 +1,617 @@
+/*
+  # MES Product Master (Versioned BOMs & Routings)
+
+  ## Overview
+  Adds a product master so finished-good parts carry reusable, versioned
+  bills of material and standard routings. Production orders created for a
+  product are exploded into order BOM lines and steps automatically.
+
+  ## New Tables
+  - product_revisions: Revision header per finished-good part (draft/released/superseded)
+  - product_bom_lines: Components per revision (phantom lines explode multi-level)
+  - product_routing_operations: Standard operations with work center and setup/run times
+
+  ## Additive-only changes
+  - production_orders.product_id / product_revision_id
+  - production_steps.routing_operation_id
+  - bill_of_materials.product_bom_line_id / production_step_id
+
+  ## Engineering Change
+  - Released revisions are immutable; changes go through a new draft revision
+  - Orders keep the revision they were exploded from, so releasing a new
+    revision never alters in-flight orders
+*/
+
+-- =====================================================
+-- ENUMS
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE product_revision_status AS ENUM ('draft', 'released', 'superseded');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Product Revisions (one row per engineering revision of a finished good)
+CREATE TABLE IF NOT EXISTS product_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    part_id UUID NOT NULL REFERENCES parts(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+    revision_code TEXT NOT NULL,
+    status product_revision_status NOT NULL DEFAULT 'draft',
+    description TEXT,
+    change_reason TEXT,
+    based_on_revision_id UUID REFERENCES product_revisions(id) ON DELETE SET NULL,
+    released_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    released_at TIMESTAMPTZ,
+    superseded_at TIMESTAMPTZ,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(part_id, revision_number)
+);
+
+-- Product BOM Lines (components per revision)
+CREATE TABLE IF NOT EXISTS product_bom_lines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    revision_id UUID NOT NULL REFERENCES product_revisions(id) ON DELETE CASCADE,
+    line_number INTEGER NOT NULL,
+    component_part_id UUID NOT NULL REFERENCES parts(id) ON DELETE RESTRICT,
+    quantity_per NUMERIC(12, 4) NOT NULL DEFAULT 1 CHECK (quantity_per > 0),
+    scrap_percent NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (scrap_percent >= 0 AND scrap_percent < 100),
+    -- Phantom sub-assemblies are exploded into their own released BOM
+    is_phantom BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Routing operation sequence at which the component is issued
+    operation_sequence INTEGER,
+    source_location_id UUID REFERENCES stock_locations(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(revision_id, line_number)
+);
+
+-- Product Routing Operations (standard routing per revision)
+CREATE TABLE IF NOT EXISTS product_routing_operations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    revision_id UUID NOT NULL REFERENCES product_revisions(id) ON DELETE CASCADE,
+    sequence INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    work_center_id UUID REFERENCES work_centers(id) ON DELETE SET NULL,
+    setup_minutes NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (setup_minutes >= 0),
+    run_minutes_per_unit NUMERIC(10, 4) NOT NULL DEFAULT 0 CHECK (run_minutes_per_unit >= 0),
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(revision_id, sequence)
+);
+
+-- =====================================================
+-- SCHEMA ADDITIONS (Additive only)
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'production_orders' AND column_name = 'product_id'
+    ) THEN
+        ALTER TABLE production_orders ADD COLUMN product_id UUID REFERENCES parts(id) ON DELETE SET NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'production_orders' AND column_name = 'product_revision_id'
+    ) THEN
+        ALTER TABLE production_orders ADD COLUMN product_revision_id UUID REFERENCES product_revisions(id) ON DELETE RESTRICT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'production_steps' AND column_name = 'routing_operation_id'
+    ) THEN
+        ALTER TABLE production_steps ADD COLUMN routing_operation_id UUID REFERENCES product_routing_operations(id) ON DELETE SET NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'bill_of_materials' AND column_name = 'product_bom_line_id'
+    ) THEN
+        ALTER TABLE bill_of_materials ADD COLUMN product_bom_line_id UUID REFERENCES product_bom_lines(id) ON DELETE SET NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'bill_of_materials' AND column_name = 'production_step_id'
+    ) THEN
+        ALTER TABLE bill_of_materials ADD COLUMN production_step_id UUID REFERENCES production_steps(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_product_revisions_part_id ON product_revisions(part_id);
+CREATE INDEX IF NOT EXISTS idx_product_revisions_status ON product_revisions(status);
+
+-- Only one released and one draft revision per product at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_revisions_one_released
+    ON product_revisions(part_id) WHERE status = 'released';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_revisions_one_draft
+    ON product_revisions(part_id) WHERE status = 'draft';
+
+CREATE INDEX IF NOT EXISTS idx_product_bom_lines_revision_id ON product_bom_lines(revision_id);
+CREATE INDEX IF NOT EXISTS idx_product_bom_lines_component_part_id ON product_bom_lines(component_part_id);
+
+CREATE INDEX IF NOT EXISTS idx_product_routing_operations_revision_id ON product_routing_operations(revision_id);
+CREATE INDEX IF NOT EXISTS idx_product_routing_operations_work_center_id ON product_routing_operations(work_center_id);
+
+CREATE INDEX IF NOT EXISTS idx_production_orders_product_id ON production_orders(product_id) WHERE product_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_production_orders_product_revision_id ON production_orders(product_revision_id) WHERE product_revision_id IS NOT NULL;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_product_revisions_updated_at ON product_revisions;
+CREATE TRIGGER trigger_product_revisions_updated_at
+    BEFORE UPDATE ON product_revisions FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_product_bom_lines_updated_at ON product_bom_lines;
+CREATE TRIGGER trigger_product_bom_lines_updated_at
+    BEFORE UPDATE ON product_bom_lines FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_product_routing_operations_updated_at ON product_routing_operations;
+CREATE TRIGGER trigger_product_routing_operations_updated_at
+    BEFORE UPDATE ON product_routing_operations FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+-- Released/superseded revisions are frozen: BOM and routing edits require a new revision
+CREATE OR REPLACE FUNCTION fn_guard_product_revision_lines()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_status product_revision_status;
+    v_part_id UUID;
+BEGIN
+    SELECT status, part_id INTO v_status, v_part_id
+    FROM product_revisions
+    WHERE id = COALESCE(NEW.revision_id, OLD.revision_id);
+
+    IF v_status IS NOT NULL AND v_status != 'draft' THEN
+        RAISE EXCEPTION 'Revision is % and cannot be modified. Create a new revision instead.', v_status;
+    END IF;
+
+    IF TG_TABLE_NAME = 'product_bom_lines' AND TG_OP != 'DELETE' AND NEW.component_part_id = v_part_id THEN
+        RAISE EXCEPTION 'A product cannot be a component of itself';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_guard_product_bom_lines ON product_bom_lines;
+CREATE TRIGGER trigger_guard_product_bom_lines
+    BEFORE INSERT OR UPDATE OR DELETE ON product_bom_lines
+    FOR EACH ROW EXECUTE FUNCTION fn_guard_product_revision_lines();
+
+DROP TRIGGER IF EXISTS trigger_guard_product_routing_operations ON product_routing_operations;
+CREATE TRIGGER trigger_guard_product_routing_operations
+    BEFORE INSERT OR UPDATE OR DELETE ON product_routing_operations
+    FOR EACH ROW EXECUTE FUNCTION fn_guard_product_revision_lines();
+
+-- Audit trail for revision lifecycle
+DROP TRIGGER IF EXISTS trigger_mes_audit_product_revisions ON product_revisions;
+CREATE TRIGGER trigger_mes_audit_product_revisions
+    AFTER INSERT OR UPDATE OR DELETE ON product_revisions
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+-- =====================================================
+-- FUNCTION: Create Revision (Engineering Change)
+-- =====================================================
+
+-- Creates a new draft revision copied from the latest revision of the product.
+-- Idempotent: returns the existing draft if one is already open.
+CREATE OR REPLACE FUNCTION fn_create_product_revision(
+    p_part_id UUID,
+    p_change_reason TEXT DEFAULT NULL,
+    p_description TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_draft_id UUID;
+    v_base_id UUID;
+    v_next_number INTEGER;
+    v_new_id UUID;
+BEGIN
+    -- Idempotency: only one open draft per product
+    SELECT id INTO v_draft_id
+    FROM product_revisions
+    WHERE part_id = p_part_id AND status = 'draft';
+
+    IF v_draft_id IS NOT NULL THEN
+        RETURN v_draft_id;
+    END IF;
+
+    -- Base the new revision on the released one, falling back to the latest
+    SELECT id INTO v_base_id
+    FROM product_revisions
+    WHERE part_id = p_part_id
+    ORDER BY (status = 'released') DESC, revision_number DESC
+    LIMIT 1;
+
+    SELECT COALESCE(MAX(revision_number), 0) + 1 INTO v_next_number
+    FROM product_revisions
+    WHERE part_id = p_part_id;
+
+    INSERT INTO product_revisions (
+        part_id,
+        revision_number,
+        revision_code,
+        status,
+        description,
+        change_reason,
+        based_on_revision_id,
+        created_by
+    )
+    VALUES (
+        p_part_id,
+        v_next_number,
+        CASE WHEN v_next_number <= 26 THEN CHR(64 + v_next_number) ELSE v_next_number::TEXT END,
+        'draft',
+        COALESCE(p_description, (SELECT description FROM product_revisions WHERE id = v_base_id)),
+        COALESCE(p_change_reason, CASE WHEN v_base_id IS NULL THEN 'Initial release' END),
+        v_base_id,
+        auth.uid()
+    )
+    RETURNING id INTO v_new_id;
+
+    -- Copy BOM and routing from the base revision
+    IF v_base_id IS NOT NULL THEN
+        INSERT INTO product_bom_lines (
+            revision_id, line_number, component_part_id, quantity_per, scrap_percent,
+            is_phantom, operation_sequence, source_location_id, notes
+        )
+        SELECT
+            v_new_id, line_number, component_part_id, quantity_per, scrap_percent,
+            is_phantom, operation_sequence, source_location_id, notes
+        FROM product_bom_lines
+        WHERE revision_id = v_base_id;
+
+        INSERT INTO product_routing_operations (
+            revision_id, sequence, name, description, work_center_id,
+            setup_minutes, run_minutes_per_unit, notes
+        )
+        SELECT
+            v_new_id, sequence, name, description, work_center_id,
+            setup_minutes, run_minutes_per_unit, notes
+        FROM product_routing_operations
+        WHERE revision_id = v_base_id;
+    END IF;
+
+    RETURN v_new_id;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTION: Release Revision
+-- =====================================================
+
+-- Releases a draft revision and supersedes the previously released one.
+-- Orders already exploded from the old revision are untouched.
+CREATE OR REPLACE FUNCTION fn_release_product_revision(p_revision_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_revision RECORD;
+BEGIN
+    SELECT * INTO v_revision
+    FROM product_revisions
+    WHERE id = p_revision_id
+    FOR UPDATE;
+
+    IF v_revision.id IS NULL THEN
+        RAISE EXCEPTION 'Product revision not found: %', p_revision_id;
+    END IF;
+
+    -- Idempotent: already released
+    IF v_revision.status = 'released' THEN
+        RETURN p_revision_id;
+    END IF;
+
+    IF v_revision.status != 'draft' THEN
+        RAISE EXCEPTION 'Only draft revisions can be released (status: %)', v_revision.status;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM product_bom_lines WHERE revision_id = p_revision_id)
+       AND NOT EXISTS (SELECT 1 FROM product_routing_operations WHERE revision_id = p_revision_id) THEN
+        RAISE EXCEPTION 'Revision has no BOM lines or routing operations';
+    END IF;
+
+    UPDATE product_revisions
+    SET status = 'superseded',
+        superseded_at = NOW()
+    WHERE part_id = v_revision.part_id
+    AND status = 'released';
+
+    UPDATE product_revisions
+    SET status = 'released',
+        released_by = auth.uid(),
+        released_at = NOW()
+    WHERE id = p_revision_id;
+
+    RETURN p_revision_id;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTION: Explode Product Into Production Order
+-- =====================================================
+
+-- Copies the order's product revision into order BOM lines and steps,
+-- scaled by quantity_ordered. Phantom components are exploded through
+-- their currently released revisions (multi-level). Quantities of the same
+-- part are summed to honour the one-line-per-part order BOM.
+-- Idempotent: orders that already have steps or BOM lines are skipped.
+CREATE OR REPLACE FUNCTION fn_explode_product_revision(p_production_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_order RECORD;
+    v_step_count INTEGER := 0;
+    v_bom_count INTEGER := 0;
+BEGIN
+    SELECT id, product_revision_id, COALESCE(quantity_ordered, 1) AS qty, status
+    INTO v_order
+    FROM production_orders
+    WHERE id = p_production_order_id
+    FOR UPDATE;
+
+    IF v_order.id IS NULL THEN
+        RAISE EXCEPTION 'Production order not found: %', p_production_order_id;
+    END IF;
+
+    IF v_order.product_revision_id IS NULL THEN
+        RAISE EXCEPTION 'Production order has no product revision';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM production_steps WHERE production_order_id = p_production_order_id)
+       OR EXISTS (SELECT 1 FROM bill_of_materials WHERE production_order_id = p_production_order_id) THEN
+        RETURN jsonb_build_object('steps_created', 0, 'bom_lines_created', 0, 'skipped', true);
+    END IF;
+
+    -- Routing -> steps (setup once, run time per unit)
+    INSERT INTO production_steps (
+        production_order_id,
+        step_number,
+        name,
+        description,
+        work_center_id,
+        estimated_minutes,
+        routing_operation_id
+    )
+    SELECT
+        p_production_order_id,
+        ROW_NUMBER() OVER (ORDER BY ro.sequence),
+        ro.name,
+        ro.description,
+        ro.work_center_id,
+        CEIL(ro.setup_minutes + ro.run_minutes_per_unit * v_order.qty)::INTEGER,
+        ro.id
+    FROM product_routing_operations ro
+    WHERE ro.revision_id = v_order.product_revision_id;
+
+    GET DIAGNOSTICS v_step_count = ROW_COUNT;
+
+    -- BOM -> order lines (multi-level through phantom sub-assemblies)
+    WITH RECURSIVE exploded AS (
+        SELECT
+            bl.id AS bom_line_id,
+            bl.component_part_id,
+            bl.is_phantom,
+            bl.source_location_id,
+            bl.operation_sequence,
+            bl.notes,
+            bl.quantity_per * (1 + bl.scrap_percent / 100.0) * v_order.qty AS qty_required,
+            1 AS depth
+        FROM product_bom_lines bl
+        WHERE bl.revision_id = v_order.product_revision_id
+
+        UNION ALL
+
+        SELECT
+            child.id,
+            child.component_part_id,
+            child.is_phantom,
+            COALESCE(child.source_location_id, parent.source_location_id),
+            -- Phantom children are issued at the parent's operation
+            COALESCE(parent.operation_sequence, child.operation_sequence),
+            child.notes,
+            child.quantity_per * (1 + child.scrap_percent / 100.0) * parent.qty_required,
+            parent.depth + 1
+        FROM exploded parent
+        JOIN product_revisions pr
+            ON pr.part_id = parent.component_part_id
+            AND pr.status = 'released'
+        JOIN product_bom_lines child ON child.revision_id = pr.id
+        WHERE parent.is_phantom = TRUE
+        AND parent.depth < 10
+    ),
+    leaf AS (
+        -- A phantom without a released BOM is issued as a regular component
+        SELECT e.*
+        FROM exploded e
+        WHERE e.is_phantom = FALSE
+        OR NOT EXISTS (
+            SELECT 1 FROM product_revisions pr
+            JOIN product_bom_lines child ON child.revision_id = pr.id
+            WHERE pr.part_id = e.component_part_id AND pr.status = 'released'
+        )
+    ),
+    aggregated AS (
+        SELECT
+            component_part_id,
+            SUM(qty_required) AS qty_required,
+            (ARRAY_AGG(bom_line_id ORDER BY depth, operation_sequence NULLS LAST))[1] AS bom_line_id,
+            (ARRAY_AGG(source_location_id ORDER BY depth) FILTER (WHERE source_location_id IS NOT NULL))[1] AS source_location_id,
+            MIN(operation_sequence) AS operation_sequence,
+            STRING_AGG(DISTINCT notes, '; ') AS notes
+        FROM leaf
+        GROUP BY component_part_id
+    )
+    INSERT INTO bill_of_materials (
+        production_order_id,
+        part_id,
+        quantity_required,
+        source_location_id,
+        unit_cost,
+        notes,
+        product_bom_line_id,
+        production_step_id
+    )
+    SELECT
+        p_production_order_id,
+        a.component_part_id,
+        ROUND(a.qty_required, 4),
+        a.source_location_id,
+        p.unit_cost,
+        a.notes,
+        a.bom_line_id,
+        (
+            SELECT ps.id
+            FROM production_steps ps
+            JOIN product_routing_operations ro ON ro.id = ps.routing_operation_id
+            WHERE ps.production_order_id = p_production_order_id
+            AND ro.sequence = a.operation_sequence
+            LIMIT 1
+        )
+    FROM aggregated a
+    JOIN parts p ON p.id = a.component_part_id;
+
+    GET DIAGNOSTICS v_bom_count = ROW_COUNT;
+
+    RETURN jsonb_build_object(
+        'steps_created', v_step_count,
+        'bom_lines_created', v_bom_count,
+        'skipped', false
+    );
+END;
+$$;
+
+-- =====================================================
+-- VIEWS
+-- =====================================================
+
+CREATE OR REPLACE VIEW vw_product_revisions AS
+SELECT
+    pr.id,
+    pr.part_id,
+    p.part_number,
+    p.name AS part_name,
+    pr.revision_number,
+    pr.revision_code,
+    pr.status,
+    pr.description,
+    pr.change_reason,
+    pr.released_at,
+    releaser.full_name AS released_by_name,
+    pr.superseded_at,
+    pr.created_at,
+    (SELECT COUNT(*) FROM product_bom_lines WHERE revision_id = pr.id) AS bom_line_count,
+    (SELECT COUNT(*) FROM product_routing_operations WHERE revision_id = pr.id) AS operation_count,
+    (SELECT COUNT(*) FROM production_orders WHERE product_revision_id = pr.id) AS order_count
+FROM product_revisions pr
+JOIN parts p ON pr.part_id = p.id
+LEFT JOIN profiles releaser ON pr.released_by = releaser.id;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE product_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_bom_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_routing_operations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view product_revisions"
+    ON product_revisions FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage product_revisions"
+    ON product_revisions FOR ALL TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('admin', 'dispatcher', 'supervisor')
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('admin', 'dispatcher', 'supervisor')
+        )
+    );
+
+CREATE POLICY "Authenticated users can view product_bom_lines"
+    ON product_bom_lines FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage product_bom_lines"
+    ON product_bom_lines FOR ALL TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('admin', 'dispatcher', 'supervisor')
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('admin', 'dispatcher', 'supervisor')
+        )
+    );
+
+CREATE POLICY "Authenticated users can view product_routing_operations"
+    ON product_routing_operations FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage product_routing_operations"
+    ON product_routing_operations FOR ALL TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('admin', 'dispatcher', 'supervisor')
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('admin', 'dispatcher', 'supervisor')
+        )
+    );
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE product_revisions IS 'Engineering revisions of finished-good parts; released revisions are immutable';
+COMMENT ON TABLE product_bom_lines IS 'Versioned multi-level bill of materials per product revision';
+COMMENT ON TABLE product_routing_operations IS 'Standard routing operations per product revision';
+COMMENT ON FUNCTION fn_create_product_revision IS 'Open a draft engineering revision copied from the current revision (idempotent)';
+COMMENT ON FUNCTION fn_release_product_revision IS 'Release a draft revision and supersede the previous one';
+COMMENT ON FUNCTION fn_explode_product_revision IS 'Explode a product revision into order BOM lines and steps scaled by quantity (idempotent)';
+COMMENT ON VIEW vw_product_revisions IS 'Product revisions with BOM/routing/order counts';
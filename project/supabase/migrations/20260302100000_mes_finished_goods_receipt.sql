@@ -0,0 +1,301 @@
+/*
+  # MES Finished-Goods Receipt
+
+  ## Overview
+  Posts finished product into stock when a production order completes
+  (fully or partially). Each receipt is recorded in inventory_movements and
+  valued at the order's accumulated material and labor cost.
+
+  ## New Tables
+  - production_receipts: One row per completion posted to stock
+
+  ## Valuation
+  - Material: net material_consumption_log cost for the order (reversals included)
+  - Labor: closed production_time_logs x profiles.labor_cost_per_hour
+  - Each receipt relieves the WIP cost accumulated since the previous receipt,
+    so the sum of receipts always equals the order's total cost
+
+  ## Idempotency
+  - idempotency_key is unique; replaying a key returns the existing receipt
+  - p_expected_received_qty guards against posting from a stale view
+*/
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS production_receipts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    production_order_id UUID NOT NULL REFERENCES production_orders(id) ON DELETE CASCADE,
+    part_id UUID NOT NULL REFERENCES parts(id) ON DELETE RESTRICT,
+    stock_location_id UUID NOT NULL REFERENCES stock_locations(id) ON DELETE RESTRICT,
+    qty INTEGER NOT NULL CHECK (qty > 0),
+    -- Valuation (relieved from WIP by this receipt)
+    material_cost NUMERIC(14, 4) NOT NULL DEFAULT 0,
+    labor_cost NUMERIC(14, 4) NOT NULL DEFAULT 0,
+    total_cost NUMERIC(14, 4) NOT NULL DEFAULT 0,
+    unit_cost NUMERIC(14, 4),
+    is_final BOOLEAN NOT NULL DEFAULT FALSE,
+    inventory_movement_id UUID REFERENCES inventory_movements(id) ON DELETE SET NULL,
+    idempotency_key TEXT,
+    notes TEXT,
+    received_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_production_receipts_order ON production_receipts(production_order_id);
+CREATE INDEX IF NOT EXISTS idx_production_receipts_part ON production_receipts(part_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_production_receipts_idempotency
+    ON production_receipts(idempotency_key)
+    WHERE idempotency_key IS NOT NULL;
+
+-- Audit trail
+DROP TRIGGER IF EXISTS trigger_mes_audit_production_receipts ON production_receipts;
+CREATE TRIGGER trigger_mes_audit_production_receipts
+    AFTER INSERT OR UPDATE OR DELETE ON production_receipts
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+-- =====================================================
+-- FUNCTION: Receive Finished Goods
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_receive_finished_goods(
+    p_production_order_id UUID,
+    p_qty INTEGER,
+    p_stock_location_id UUID,
+    p_idempotency_key TEXT DEFAULT NULL,
+    p_is_final BOOLEAN DEFAULT FALSE,
+    p_expected_received_qty INTEGER DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_existing_id UUID;
+    v_order RECORD;
+    v_received_qty INTEGER;
+    v_received_material NUMERIC;
+    v_received_labor NUMERIC;
+    v_material_total NUMERIC;
+    v_labor_total NUMERIC;
+    v_material_cost NUMERIC;
+    v_labor_cost NUMERIC;
+    v_unit_cost NUMERIC;
+    v_movement_id UUID;
+    v_receipt_id UUID;
+BEGIN
+    SELECT id, order_number, product_id, COALESCE(quantity_ordered, 1) AS quantity_ordered
+    INTO v_order
+    FROM production_orders
+    WHERE id = p_production_order_id
+    FOR UPDATE; -- Serialize receipts per order (concurrent double clicks wait here)
+
+    IF v_order.id IS NULL THEN
+        RAISE EXCEPTION 'Production order not found: %', p_production_order_id;
+    END IF;
+
+    -- =====================================================
+    -- IDEMPOTENCY CHECK
+    -- =====================================================
+    IF p_idempotency_key IS NOT NULL THEN
+        SELECT id INTO v_existing_id
+        FROM production_receipts
+        WHERE idempotency_key = p_idempotency_key;
+
+        IF v_existing_id IS NOT NULL THEN
+            RETURN v_existing_id;
+        END IF;
+    END IF;
+
+    -- =====================================================
+    -- VALIDATION
+    -- =====================================================
+    IF v_order.product_id IS NULL THEN
+        RAISE EXCEPTION 'Production order has no product to receive';
+    END IF;
+
+    IF p_qty IS NULL OR p_qty <= 0 THEN
+        RAISE EXCEPTION 'Receipt quantity must be greater than zero';
+    END IF;
+
+    SELECT
+        COALESCE(SUM(qty), 0),
+        COALESCE(SUM(material_cost), 0),
+        COALESCE(SUM(labor_cost), 0)
+    INTO v_received_qty, v_received_material, v_received_labor
+    FROM production_receipts
+    WHERE production_order_id = p_production_order_id;
+
+    IF p_expected_received_qty IS NOT NULL AND p_expected_received_qty != v_received_qty THEN
+        RAISE EXCEPTION 'Order receipts changed (received: %, expected: %). Refresh and try again.',
+            v_received_qty, p_expected_received_qty;
+    END IF;
+
+    IF v_received_qty + p_qty > v_order.quantity_ordered THEN
+        RAISE EXCEPTION 'Receipt exceeds ordered quantity. Ordered: %, Already received: %, Requested: %',
+            v_order.quantity_ordered, v_received_qty, p_qty;
+    END IF;
+
+    -- =====================================================
+    -- VALUATION (accumulated cost not yet relieved)
+    -- =====================================================
+    SELECT COALESCE(SUM(qty * COALESCE(unit_cost, 0)), 0)
+    INTO v_material_total
+    FROM material_consumption_log
+    WHERE production_order_id = p_production_order_id;
+
+    SELECT COALESCE(SUM(ptl.duration_minutes / 60.0 * COALESCE(pr.labor_cost_per_hour, 0)), 0)
+    INTO v_labor_total
+    FROM production_time_logs ptl
+    LEFT JOIN profiles pr ON ptl.technician_id = pr.id
+    WHERE ptl.production_order_id = p_production_order_id
+    AND ptl.clock_out IS NOT NULL;
+
+    v_material_cost := GREATEST(0, v_material_total - v_received_material);
+    v_labor_cost := GREATEST(0, v_labor_total - v_received_labor);
+    v_unit_cost := ROUND((v_material_cost + v_labor_cost) / p_qty, 4);
+
+    -- =====================================================
+    -- POST TO INVENTORY
+    -- =====================================================
+    INSERT INTO inventory_movements (
+        movement_type,
+        movement_date,
+        part_id,
+        quantity,
+        to_location_id,
+        reference_type,
+        reference_id,
+        moved_by,
+        notes
+    )
+    VALUES (
+        'receipt',
+        NOW(),
+        v_order.product_id,
+        p_qty,
+        p_stock_location_id,
+        'production_order',
+        p_production_order_id,
+        auth.uid(),
+        COALESCE(p_notes, 'Finished goods from ' || v_order.order_number)
+    )
+    RETURNING id INTO v_movement_id;
+
+    -- Same canonical on-hand path as material consumption
+    PERFORM fn_adjust_inventory_canonical(
+        v_order.product_id,
+        p_stock_location_id,
+        p_qty,
+        v_unit_cost
+    );
+
+    INSERT INTO production_receipts (
+        production_order_id,
+        part_id,
+        stock_location_id,
+        qty,
+        material_cost,
+        labor_cost,
+        total_cost,
+        unit_cost,
+        is_final,
+        inventory_movement_id,
+        idempotency_key,
+        notes,
+        received_by
+    )
+    VALUES (
+        p_production_order_id,
+        v_order.product_id,
+        p_stock_location_id,
+        p_qty,
+        v_material_cost,
+        v_labor_cost,
+        v_material_cost + v_labor_cost,
+        v_unit_cost,
+        p_is_final,
+        v_movement_id,
+        p_idempotency_key,
+        p_notes,
+        auth.uid()
+    )
+    RETURNING id INTO v_receipt_id;
+
+    -- Keep completed quantity in step with what has been received
+    UPDATE production_orders
+    SET quantity_completed = GREATEST(COALESCE(quantity_completed, 0), v_received_qty + p_qty)
+    WHERE id = p_production_order_id;
+
+    RETURN v_receipt_id;
+END;
+$$;
+
+-- =====================================================
+-- VIEWS
+-- =====================================================
+
+CREATE OR REPLACE VIEW vw_production_order_costs AS
+SELECT
+    po.id AS production_order_id,
+    po.order_number,
+    po.product_id,
+    po.quantity_ordered,
+    COALESCE(mat.material_cost, 0) AS material_cost,
+    COALESCE(lab.labor_cost, 0) AS labor_cost,
+    COALESCE(lab.labor_minutes, 0) AS labor_minutes,
+    COALESCE(mat.material_cost, 0) + COALESCE(lab.labor_cost, 0) AS total_cost,
+    COALESCE(rec.received_qty, 0) AS received_qty,
+    COALESCE(rec.received_cost, 0) AS received_cost,
+    COALESCE(mat.material_cost, 0) + COALESCE(lab.labor_cost, 0) - COALESCE(rec.received_cost, 0) AS wip_cost
+FROM production_orders po
+LEFT JOIN (
+    SELECT production_order_id, SUM(qty * COALESCE(unit_cost, 0)) AS material_cost
+    FROM material_consumption_log
+    GROUP BY production_order_id
+) mat ON mat.production_order_id = po.id
+LEFT JOIN (
+    SELECT
+        ptl.production_order_id,
+        SUM(ptl.duration_minutes) AS labor_minutes,
+        SUM(ptl.duration_minutes / 60.0 * COALESCE(pr.labor_cost_per_hour, 0)) AS labor_cost
+    FROM production_time_logs ptl
+    LEFT JOIN profiles pr ON ptl.technician_id = pr.id
+    WHERE ptl.clock_out IS NOT NULL
+    GROUP BY ptl.production_order_id
+) lab ON lab.production_order_id = po.id
+LEFT JOIN (
+    SELECT production_order_id, SUM(qty) AS received_qty, SUM(total_cost) AS received_cost
+    FROM production_receipts
+    GROUP BY production_order_id
+) rec ON rec.production_order_id = po.id;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE production_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view production_receipts"
+    ON production_receipts FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Production roles can create production_receipts"
+    ON production_receipts FOR INSERT TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('admin', 'dispatcher', 'supervisor', 'operator', 'material_handler')
+        )
+    );
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE production_receipts IS 'Finished-goods receipts posted to stock from production orders';
+COMMENT ON COLUMN production_receipts.idempotency_key IS 'Unique key for idempotent receipt (e.g., "FG:order:received_before:qty")';
+COMMENT ON FUNCTION fn_receive_finished_goods IS 'Receive finished goods into a stock location valued at accumulated material + labor (idempotent)';
+COMMENT ON VIEW vw_production_order_costs IS 'Accumulated material/labor cost, received value, and remaining WIP per production order';
@@ -0,0 +1,508 @@
+/*
+  # MES Lot / Batch Genealogy
+
+  ## Overview
+  Records lot numbers where material enters stock (vendor receipts and
+  finished-goods receipts) and where it is consumed, and links them into a
+  genealogy that can be walked in both directions.
+
+  ## Modified Tables
+  - purchase_order_receipts: + lot_number (vendor lot/batch)
+  - production_receipts: + lot_number (finished lot, defaults to the order number)
+
+  ## New Views
+  - vw_lot_sources: Where each lot came from (purchase or production)
+  - vw_order_material_lots: Net quantity of each component lot consumed per order
+
+  ## New Functions
+  - fn_trace_lot_forward: lot -> consuming orders -> their output lots -> ... with customer/ticket
+  - fn_trace_order_backward: order -> component lots -> producing orders -> ... down to vendor lots
+
+  ## Notes
+  - material_consumption_log.lot_number already exists; reversals copy the lot
+    with a negative qty so fully reversed lots drop out of the genealogy
+  - Recursion is capped at 10 levels and never revisits an order on the same path
+*/
+
+-- =====================================================
+-- COLUMNS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'purchase_order_receipts' AND column_name = 'lot_number'
+    ) THEN
+        ALTER TABLE purchase_order_receipts ADD COLUMN lot_number TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'production_receipts' AND column_name = 'lot_number'
+    ) THEN
+        ALTER TABLE production_receipts ADD COLUMN lot_number TEXT;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_receipts_lot_number
+    ON purchase_order_receipts(lot_number) WHERE lot_number IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_production_receipts_lot_number
+    ON production_receipts(lot_number) WHERE lot_number IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_material_consumption_log_lot_number
+    ON material_consumption_log(lot_number) WHERE lot_number IS NOT NULL;
+
+-- Existing receipts take the order number as their lot
+UPDATE production_receipts r
+SET lot_number = po.order_number
+FROM production_orders po
+WHERE r.production_order_id = po.id
+AND r.lot_number IS NULL;
+
+-- =====================================================
+-- FUNCTION: Receive Finished Goods (adds p_lot_number)
+-- =====================================================
+
+DROP FUNCTION IF EXISTS fn_receive_finished_goods(UUID, INTEGER, UUID, TEXT, BOOLEAN, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION fn_receive_finished_goods(
+    p_production_order_id UUID,
+    p_qty INTEGER,
+    p_stock_location_id UUID,
+    p_idempotency_key TEXT DEFAULT NULL,
+    p_is_final BOOLEAN DEFAULT FALSE,
+    p_expected_received_qty INTEGER DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL,
+    p_lot_number TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_existing_id UUID;
+    v_order RECORD;
+    v_received_qty INTEGER;
+    v_received_material NUMERIC;
+    v_received_labor NUMERIC;
+    v_material_total NUMERIC;
+    v_labor_total NUMERIC;
+    v_material_cost NUMERIC;
+    v_labor_cost NUMERIC;
+    v_unit_cost NUMERIC;
+    v_lot_number TEXT;
+    v_movement_id UUID;
+    v_receipt_id UUID;
+BEGIN
+    SELECT id, order_number, product_id, COALESCE(quantity_ordered, 1) AS quantity_ordered
+    INTO v_order
+    FROM production_orders
+    WHERE id = p_production_order_id
+    FOR UPDATE; -- Serialize receipts per order (concurrent double clicks wait here)
+
+    IF v_order.id IS NULL THEN
+        RAISE EXCEPTION 'Production order not found: %', p_production_order_id;
+    END IF;
+
+    -- =====================================================
+    -- IDEMPOTENCY CHECK
+    -- =====================================================
+    IF p_idempotency_key IS NOT NULL THEN
+        SELECT id INTO v_existing_id
+        FROM production_receipts
+        WHERE idempotency_key = p_idempotency_key;
+
+        IF v_existing_id IS NOT NULL THEN
+            RETURN v_existing_id;
+        END IF;
+    END IF;
+
+    -- =====================================================
+    -- VALIDATION
+    -- =====================================================
+    IF v_order.product_id IS NULL THEN
+        RAISE EXCEPTION 'Production order has no product to receive';
+    END IF;
+
+    IF p_qty IS NULL OR p_qty <= 0 THEN
+        RAISE EXCEPTION 'Receipt quantity must be greater than zero';
+    END IF;
+
+    SELECT
+        COALESCE(SUM(qty), 0),
+        COALESCE(SUM(material_cost), 0),
+        COALESCE(SUM(labor_cost), 0)
+    INTO v_received_qty, v_received_material, v_received_labor
+    FROM production_receipts
+    WHERE production_order_id = p_production_order_id;
+
+    IF p_expected_received_qty IS NOT NULL AND p_expected_received_qty != v_received_qty THEN
+        RAISE EXCEPTION 'Order receipts changed (received: %, expected: %). Refresh and try again.',
+            v_received_qty, p_expected_received_qty;
+    END IF;
+
+    IF v_received_qty + p_qty > v_order.quantity_ordered THEN
+        RAISE EXCEPTION 'Receipt exceeds ordered quantity. Ordered: %, Already received: %, Requested: %',
+            v_order.quantity_ordered, v_received_qty, p_qty;
+    END IF;
+
+    v_lot_number := COALESCE(NULLIF(TRIM(p_lot_number), ''), v_order.order_number);
+
+    -- =====================================================
+    -- VALUATION (accumulated cost not yet relieved)
+    -- =====================================================
+    SELECT COALESCE(SUM(qty * COALESCE(unit_cost, 0)), 0)
+    INTO v_material_total
+    FROM material_consumption_log
+    WHERE production_order_id = p_production_order_id;
+
+    SELECT COALESCE(SUM(ptl.duration_minutes / 60.0 * COALESCE(pr.labor_cost_per_hour, 0)), 0)
+    INTO v_labor_total
+    FROM production_time_logs ptl
+    LEFT JOIN profiles pr ON ptl.technician_id = pr.id
+    WHERE ptl.production_order_id = p_production_order_id
+    AND ptl.clock_out IS NOT NULL;
+
+    v_material_cost := GREATEST(0, v_material_total - v_received_material);
+    v_labor_cost := GREATEST(0, v_labor_total - v_received_labor);
+    v_unit_cost := ROUND((v_material_cost + v_labor_cost) / p_qty, 4);
+
+    -- =====================================================
+    -- POST TO INVENTORY
+    -- =====================================================
+    INSERT INTO inventory_movements (
+        movement_type,
+        movement_date,
+        part_id,
+        quantity,
+        to_location_id,
+        reference_type,
+        reference_id,
+        moved_by,
+        notes
+    )
+    VALUES (
+        'receipt',
+        NOW(),
+        v_order.product_id,
+        p_qty,
+        p_stock_location_id,
+        'production_order',
+        p_production_order_id,
+        auth.uid(),
+        COALESCE(p_notes, 'Finished goods from ' || v_order.order_number) || ' (lot ' || v_lot_number || ')'
+    )
+    RETURNING id INTO v_movement_id;
+
+    -- Same canonical on-hand path as material consumption
+    PERFORM fn_adjust_inventory_canonical(
+        v_order.product_id,
+        p_stock_location_id,
+        p_qty,
+        v_unit_cost
+    );
+
+    INSERT INTO production_receipts (
+        production_order_id,
+        part_id,
+        stock_location_id,
+        qty,
+        material_cost,
+        labor_cost,
+        total_cost,
+        unit_cost,
+        is_final,
+        lot_number,
+        inventory_movement_id,
+        idempotency_key,
+        notes,
+        received_by
+    )
+    VALUES (
+        p_production_order_id,
+        v_order.product_id,
+        p_stock_location_id,
+        p_qty,
+        v_material_cost,
+        v_labor_cost,
+        v_material_cost + v_labor_cost,
+        v_unit_cost,
+        p_is_final,
+        v_lot_number,
+        v_movement_id,
+        p_idempotency_key,
+        p_notes,
+        auth.uid()
+    )
+    RETURNING id INTO v_receipt_id;
+
+    -- Keep completed quantity in step with what has been received
+    UPDATE production_orders
+    SET quantity_completed = GREATEST(COALESCE(quantity_completed, 0), v_received_qty + p_qty)
+    WHERE id = p_production_order_id;
+
+    RETURN v_receipt_id;
+END;
+$$;
+
+-- =====================================================
+-- VIEWS
+-- =====================================================
+
+CREATE OR REPLACE VIEW vw_lot_sources AS
+SELECT
+    'purchase'::TEXT AS source_type,
+    por.id AS source_id,
+    por.lot_number,
+    pol.part_id,
+    p.part_number,
+    p.name AS part_name,
+    por.quantity_received AS qty,
+    por.po_id AS purchase_order_id,
+    po.po_number AS reference_number,
+    v.name AS supplier_name,
+    NULL::UUID AS production_order_id,
+    por.received_at_location_id AS stock_location_id,
+    por.created_at AS received_at
+FROM purchase_order_receipts por
+JOIN purchase_order_lines pol ON por.po_line_id = pol.id
+JOIN purchase_orders po ON por.po_id = po.id
+LEFT JOIN vendors v ON po.vendor_id = v.id
+LEFT JOIN parts p ON pol.part_id = p.id
+WHERE por.lot_number IS NOT NULL
+UNION ALL
+SELECT
+    'production'::TEXT AS source_type,
+    r.id AS source_id,
+    r.lot_number,
+    r.part_id,
+    p.part_number,
+    p.name AS part_name,
+    r.qty,
+    NULL::UUID AS purchase_order_id,
+    po.order_number AS reference_number,
+    NULL::TEXT AS supplier_name,
+    r.production_order_id,
+    r.stock_location_id,
+    r.received_at
+FROM production_receipts r
+JOIN production_orders po ON r.production_order_id = po.id
+LEFT JOIN parts p ON r.part_id = p.id
+WHERE r.lot_number IS NOT NULL;
+
+CREATE OR REPLACE VIEW vw_order_material_lots AS
+SELECT
+    mcl.production_order_id,
+    mcl.part_id,
+    mcl.lot_number,
+    SUM(mcl.qty) AS net_qty,
+    MIN(mcl.consumed_at) AS first_consumed_at,
+    MAX(mcl.consumed_at) AS last_consumed_at
+FROM material_consumption_log mcl
+GROUP BY mcl.production_order_id, mcl.part_id, mcl.lot_number
+HAVING SUM(mcl.qty) > 0;
+
+-- =====================================================
+-- FUNCTION: Forward Trace (lot -> orders -> customers)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_trace_lot_forward(
+    p_lot_number TEXT,
+    p_part_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    depth INTEGER,
+    part_id UUID,
+    part_number TEXT,
+    part_name TEXT,
+    lot_number TEXT,
+    qty_consumed NUMERIC,
+    production_order_id UUID,
+    order_number TEXT,
+    order_status TEXT,
+    output_part_id UUID,
+    output_lot_numbers TEXT,
+    customer_id UUID,
+    customer_name TEXT,
+    ticket_id UUID,
+    ticket_number TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH RECURSIVE trace AS (
+        SELECT
+            1 AS depth,
+            c.part_id,
+            c.lot_number,
+            c.net_qty,
+            c.production_order_id,
+            ARRAY[c.production_order_id] AS path
+        FROM vw_order_material_lots c
+        WHERE c.lot_number = p_lot_number
+        AND (p_part_id IS NULL OR c.part_id = p_part_id)
+
+        UNION ALL
+
+        -- Output lots of a consuming order are consumed by the next level
+        SELECT
+            t.depth + 1,
+            c.part_id,
+            c.lot_number,
+            c.net_qty,
+            c.production_order_id,
+            t.path || c.production_order_id
+        FROM trace t
+        JOIN (
+            SELECT DISTINCT pr.production_order_id, pr.part_id, pr.lot_number
+            FROM production_receipts pr
+            WHERE pr.lot_number IS NOT NULL
+        ) out ON out.production_order_id = t.production_order_id
+        JOIN vw_order_material_lots c
+            ON c.part_id = out.part_id
+            AND c.lot_number = out.lot_number
+        WHERE t.depth < 10
+        AND NOT c.production_order_id = ANY(t.path)
+    ),
+    first_seen AS (
+        SELECT DISTINCT ON (t.production_order_id, t.part_id, t.lot_number)
+            t.depth, t.part_id, t.lot_number, t.net_qty, t.production_order_id
+        FROM trace t
+        ORDER BY t.production_order_id, t.part_id, t.lot_number, t.depth
+    )
+    SELECT
+        f.depth,
+        f.part_id,
+        p.part_number,
+        p.name,
+        f.lot_number,
+        f.net_qty,
+        po.id,
+        po.order_number,
+        po.status::TEXT,
+        po.product_id,
+        (
+            SELECT string_agg(DISTINCT pr.lot_number, ', ')
+            FROM production_receipts pr
+            WHERE pr.production_order_id = po.id
+        ),
+        po.customer_id,
+        cu.name,
+        po.ticket_id,
+        tk.ticket_number
+    FROM first_seen f
+    JOIN production_orders po ON f.production_order_id = po.id
+    LEFT JOIN parts p ON f.part_id = p.id
+    LEFT JOIN customers cu ON po.customer_id = cu.id
+    LEFT JOIN tickets tk ON po.ticket_id = tk.id
+    ORDER BY f.depth, po.order_number;
+$$;
+
+-- =====================================================
+-- FUNCTION: Backward Trace (order -> component lots)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_trace_order_backward(
+    p_production_order_id UUID
+)
+RETURNS TABLE (
+    depth INTEGER,
+    production_order_id UUID,
+    order_number TEXT,
+    part_id UUID,
+    part_number TEXT,
+    part_name TEXT,
+    lot_number TEXT,
+    qty_consumed NUMERIC,
+    source_order_id UUID,
+    source_order_number TEXT,
+    supplier_names TEXT,
+    po_numbers TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH RECURSIVE trace AS (
+        SELECT
+            1 AS depth,
+            c.production_order_id,
+            c.part_id,
+            c.lot_number,
+            c.net_qty,
+            ARRAY[c.production_order_id] AS path
+        FROM vw_order_material_lots c
+        WHERE c.production_order_id = p_production_order_id
+
+        UNION ALL
+
+        -- A consumed lot that was produced in-house pulls in its producing order's lots
+        SELECT
+            t.depth + 1,
+            c.production_order_id,
+            c.part_id,
+            c.lot_number,
+            c.net_qty,
+            t.path || c.production_order_id
+        FROM trace t
+        JOIN (
+            SELECT DISTINCT pr.production_order_id, pr.part_id, pr.lot_number
+            FROM production_receipts pr
+            WHERE pr.lot_number IS NOT NULL
+        ) src ON src.part_id = t.part_id AND src.lot_number = t.lot_number
+        JOIN vw_order_material_lots c ON c.production_order_id = src.production_order_id
+        WHERE t.depth < 10
+        AND NOT src.production_order_id = ANY(t.path)
+    ),
+    first_seen AS (
+        SELECT DISTINCT ON (t.production_order_id, t.part_id, t.lot_number)
+            t.depth, t.production_order_id, t.part_id, t.lot_number, t.net_qty
+        FROM trace t
+        ORDER BY t.production_order_id, t.part_id, t.lot_number, t.depth
+    )
+    SELECT
+        f.depth,
+        f.production_order_id,
+        po.order_number,
+        f.part_id,
+        p.part_number,
+        p.name,
+        f.lot_number,
+        f.net_qty,
+        prod.production_order_id,
+        prod.reference_number,
+        purch.supplier_names,
+        purch.po_numbers
+    FROM first_seen f
+    JOIN production_orders po ON f.production_order_id = po.id
+    LEFT JOIN parts p ON f.part_id = p.id
+    LEFT JOIN LATERAL (
+        SELECT s.production_order_id, s.reference_number
+        FROM vw_lot_sources s
+        WHERE s.source_type = 'production'
+        AND s.part_id = f.part_id
+        AND s.lot_number = f.lot_number
+        ORDER BY s.received_at
+        LIMIT 1
+    ) prod ON TRUE
+    LEFT JOIN LATERAL (
+        SELECT
+            string_agg(DISTINCT s.supplier_name, ', ') AS supplier_names,
+            string_agg(DISTINCT s.reference_number, ', ') AS po_numbers
+        FROM vw_lot_sources s
+        WHERE s.source_type = 'purchase'
+        AND s.part_id = f.part_id
+        AND s.lot_number = f.lot_number
+    ) purch ON TRUE
+    ORDER BY f.depth, po.order_number, p.part_number;
+$$;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON COLUMN purchase_order_receipts.lot_number IS 'Vendor lot/batch number received';
+COMMENT ON COLUMN production_receipts.lot_number IS 'Finished lot number (defaults to the production order number)';
+COMMENT ON FUNCTION fn_receive_finished_goods IS 'Receive finished goods into a stock location valued at accumulated material + labor (idempotent)';
+COMMENT ON VIEW vw_lot_sources IS 'Origin of each lot: vendor receipt or production receipt';
+COMMENT ON VIEW vw_order_material_lots IS 'Net quantity consumed per order, part and lot (fully reversed lots excluded)';
+COMMENT ON FUNCTION fn_trace_lot_forward IS 'Forward genealogy: orders (and their customers/tickets) that consumed a lot, following output lots downstream';
+COMMENT ON FUNCTION fn_trace_order_backward IS 'Backward genealogy: component lots consumed by an order, following in-house lots to their producing orders';
@@ -0,0 +1,90 @@
+/*
+  # MES Auto-Scheduler Support
+
+  ## Overview
+  Adds the schedule lock used by the finite-capacity auto-scheduler. Locked
+  operation runs are treated as fixed: the scheduler plans around them and
+  never moves them.
+
+  ## Modified Tables
+  - production_operation_runs: + is_locked, locked_by, locked_at
+
+  ## Modified Views
+  - vw_work_center_schedule: + is_locked, order_due_ts (production_orders.scheduled_end)
+*/
+
+-- =====================================================
+-- COLUMNS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'production_operation_runs' AND column_name = 'is_locked'
+    ) THEN
+        ALTER TABLE production_operation_runs ADD COLUMN is_locked BOOLEAN NOT NULL DEFAULT FALSE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'production_operation_runs' AND column_name = 'locked_by'
+    ) THEN
+        ALTER TABLE production_operation_runs ADD COLUMN locked_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'production_operation_runs' AND column_name = 'locked_at'
+    ) THEN
+        ALTER TABLE production_operation_runs ADD COLUMN locked_at TIMESTAMPTZ;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_production_operation_runs_is_locked
+    ON production_operation_runs(work_center_id) WHERE is_locked = TRUE;
+
+-- =====================================================
+-- VIEWS
+-- =====================================================
+
+CREATE OR REPLACE VIEW vw_work_center_schedule AS
+SELECT
+    por.id AS operation_run_id,
+    por.production_order_id,
+    po.order_number,
+    po.title AS order_title,
+    po.priority AS order_priority,
+    po.customer_id,
+    c.name AS customer_name,
+    por.production_step_id,
+    ps.step_number,
+    ps.name AS step_name,
+    por.work_center_id,
+    wc.name AS work_center_name,
+    wc.code AS work_center_code,
+    por.equipment_asset_id,
+    ea.name AS equipment_name,
+    por.status,
+    por.scheduled_start_ts,
+    por.scheduled_end_ts,
+    por.start_ts AS actual_start_ts,
+    por.end_ts AS actual_end_ts,
+    por.sequence_number,
+    ps.estimated_minutes,
+    wc.capacity_per_hour,
+    por.is_locked,
+    po.scheduled_end AS order_due_ts
+FROM production_operation_runs por
+JOIN production_orders po ON por.production_order_id = po.id
+LEFT JOIN production_steps ps ON por.production_step_id = ps.id
+LEFT JOIN work_centers wc ON por.work_center_id = wc.id
+LEFT JOIN equipment_assets ea ON por.equipment_asset_id = ea.id
+LEFT JOIN customers c ON po.customer_id = c.id
+ORDER BY por.work_center_id, por.scheduled_start_ts NULLS LAST, por.sequence_number;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON COLUMN production_operation_runs.is_locked IS 'Locked runs are fixed in place; the auto-scheduler plans around them';
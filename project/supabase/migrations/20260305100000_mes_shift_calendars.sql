@@ -0,0 +1,304 @@
+/*
+  # MES Shift Calendars
+
+  ## Overview
+  Turns shift_calendars into the source of planned production time. Work centers
+  are assigned a calendar (falling back to the default calendar), shifts carry
+  unpaid breaks, and holidays remove whole days. Planned production time is
+  shift time minus breaks minus planned downtime windows; OEE availability and
+  scheduling capacity are both computed from it.
+
+  ## New Tables
+  - shift_calendar_breaks: Breaks within a shift rule (lunch, changeover huddle)
+  - shift_calendar_holidays: Non-working dates, per calendar or plant-wide (calendar_id NULL)
+
+  ## Modified Tables
+  - work_centers: + shift_calendar_id
+
+  ## New Functions
+  - fn_get_work_center_calendar: Calendar in effect for a work center
+  - fn_get_shift_windows: Shift and break intervals for a work center over a time range
+
+  ## Modified Functions
+  - fn_auto_create_downtime_event: Stops that begin inside a planned downtime
+    window, during a break or outside shift hours are recorded as planned
+*/
+
+-- =====================================================
+-- COLUMNS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'work_centers' AND column_name = 'shift_calendar_id'
+    ) THEN
+        ALTER TABLE work_centers ADD COLUMN shift_calendar_id UUID REFERENCES shift_calendars(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Breaks within a shift. Times are wall-clock in the calendar timezone; a break
+-- earlier than the shift start belongs to the overnight part of the shift.
+CREATE TABLE IF NOT EXISTS shift_calendar_breaks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    rule_id UUID NOT NULL REFERENCES shift_calendar_rules(id) ON DELETE CASCADE,
+    name TEXT NOT NULL DEFAULT 'Break',
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (end_time <> start_time)
+);
+
+CREATE TABLE IF NOT EXISTS shift_calendar_holidays (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    calendar_id UUID REFERENCES shift_calendars(id) ON DELETE CASCADE, -- NULL = all calendars
+    holiday_date DATE NOT NULL,
+    name TEXT NOT NULL,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(calendar_id, holiday_date)
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_work_centers_shift_calendar_id ON work_centers(shift_calendar_id) WHERE shift_calendar_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_shift_calendar_rules_calendar_id ON shift_calendar_rules(calendar_id);
+CREATE INDEX IF NOT EXISTS idx_shift_calendar_breaks_rule_id ON shift_calendar_breaks(rule_id);
+CREATE INDEX IF NOT EXISTS idx_shift_calendar_holidays_holiday_date ON shift_calendar_holidays(holiday_date);
+CREATE INDEX IF NOT EXISTS idx_planned_downtime_windows_start_ts ON planned_downtime_windows(start_ts, end_ts);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_shift_calendar_breaks_updated_at ON shift_calendar_breaks;
+CREATE TRIGGER trigger_shift_calendar_breaks_updated_at
+    BEFORE UPDATE ON shift_calendar_breaks FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_shift_calendar_holidays_updated_at ON shift_calendar_holidays;
+CREATE TRIGGER trigger_shift_calendar_holidays_updated_at
+    BEFORE UPDATE ON shift_calendar_holidays FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+-- =====================================================
+-- FUNCTION: Calendar for a Work Center
+-- =====================================================
+
+-- Assigned active calendar, else the default active calendar, else NULL.
+CREATE OR REPLACE FUNCTION fn_get_work_center_calendar(p_work_center_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COALESCE(
+        (
+            SELECT sc.id
+            FROM work_centers wc
+            JOIN shift_calendars sc ON sc.id = wc.shift_calendar_id AND sc.is_active = TRUE
+            WHERE wc.id = p_work_center_id
+        ),
+        (
+            SELECT sc.id
+            FROM shift_calendars sc
+            WHERE sc.is_default = TRUE AND sc.is_active = TRUE
+            ORDER BY sc.created_at
+            LIMIT 1
+        )
+    );
+$$;
+
+-- =====================================================
+-- FUNCTION: Shift Windows
+-- =====================================================
+
+-- Expands the work center's calendar into concrete shift and break intervals,
+-- clipped to [p_from, p_to). Shift rules are keyed by the weekday the shift
+-- starts on; shifts ending at or before their start time run past midnight.
+-- Holidays remove every shift that starts on that date.
+CREATE OR REPLACE FUNCTION fn_get_shift_windows(
+    p_work_center_id UUID,
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ
+)
+RETURNS TABLE (
+    kind TEXT,
+    shift_name TEXT,
+    shift_date DATE,
+    start_ts TIMESTAMPTZ,
+    end_ts TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH cal AS (
+        SELECT sc.id, COALESCE(sc.timezone, 'UTC') AS tz
+        FROM shift_calendars sc
+        WHERE sc.id = fn_get_work_center_calendar(p_work_center_id)
+    ),
+    days AS (
+        -- Start a day early so overnight shifts from the previous day are included
+        SELECT d::DATE AS shift_date, cal.id AS calendar_id, cal.tz
+        FROM cal,
+             generate_series(
+                 (p_from AT TIME ZONE cal.tz)::DATE - 1,
+                 (p_to AT TIME ZONE cal.tz)::DATE,
+                 INTERVAL '1 day'
+             ) d
+        WHERE NOT EXISTS (
+            SELECT 1 FROM shift_calendar_holidays h
+            WHERE h.holiday_date = d::DATE
+            AND (h.calendar_id = cal.id OR h.calendar_id IS NULL)
+        )
+    ),
+    shifts AS (
+        SELECT
+            r.id AS rule_id,
+            r.shift_name,
+            dy.shift_date,
+            dy.tz,
+            r.start_time,
+            (dy.shift_date + r.start_time) AT TIME ZONE dy.tz AS start_ts,
+            (dy.shift_date + r.end_time
+                + CASE WHEN r.end_time <= r.start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END
+            ) AT TIME ZONE dy.tz AS end_ts
+        FROM days dy
+        JOIN shift_calendar_rules r
+            ON r.calendar_id = dy.calendar_id
+            AND r.day_of_week = EXTRACT(DOW FROM dy.shift_date)::INTEGER
+            AND r.is_active = TRUE
+    ),
+    windows AS (
+        SELECT 'shift'::TEXT AS kind, s.shift_name, s.shift_date, s.start_ts, s.end_ts
+        FROM shifts s
+
+        UNION ALL
+
+        SELECT
+            'break'::TEXT,
+            s.shift_name,
+            s.shift_date,
+            (s.shift_date + b.start_time
+                + CASE WHEN b.start_time < s.start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END
+            ) AT TIME ZONE s.tz,
+            (s.shift_date + b.end_time
+                + CASE WHEN b.end_time <= s.start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END
+            ) AT TIME ZONE s.tz
+        FROM shifts s
+        JOIN shift_calendar_breaks b ON b.rule_id = s.rule_id
+    )
+    SELECT
+        w.kind,
+        w.shift_name,
+        w.shift_date,
+        GREATEST(w.start_ts, p_from),
+        LEAST(w.end_ts, p_to)
+    FROM windows w
+    WHERE w.start_ts < p_to AND w.end_ts > p_from AND w.end_ts > w.start_ts
+    ORDER BY 4, 1 DESC;
+$$;
+
+-- =====================================================
+-- FUNCTION: Auto-Create Downtime Event (planned stop aware)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_auto_create_downtime_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_work_center_id UUID;
+    v_calendar_id UUID;
+    v_window_id UUID;
+    v_is_planned BOOLEAN := FALSE;
+BEGIN
+    -- Only create downtime event for STOP, IDLE states
+    IF NEW.state IN ('STOP', 'IDLE') AND NEW.end_ts IS NOT NULL THEN
+        v_work_center_id := NEW.work_center_id;
+        IF v_work_center_id IS NULL THEN
+            SELECT work_center_id INTO v_work_center_id
+            FROM equipment_assets WHERE id = NEW.equipment_asset_id;
+        END IF;
+        v_calendar_id := fn_get_work_center_calendar(v_work_center_id);
+
+        -- Stop started inside a planned downtime window for this asset, work center or calendar
+        SELECT pdw.id INTO v_window_id
+        FROM planned_downtime_windows pdw
+        WHERE NEW.start_ts >= pdw.start_ts
+        AND NEW.start_ts < pdw.end_ts
+        AND (
+            pdw.equipment_asset_id = NEW.equipment_asset_id
+            OR (pdw.equipment_asset_id IS NULL AND pdw.work_center_id = v_work_center_id)
+            OR (pdw.equipment_asset_id IS NULL AND pdw.work_center_id IS NULL
+                AND (pdw.calendar_id IS NULL OR pdw.calendar_id = v_calendar_id))
+        )
+        ORDER BY pdw.start_ts DESC
+        LIMIT 1;
+
+        IF v_window_id IS NOT NULL THEN
+            v_is_planned := TRUE;
+        ELSIF EXISTS (
+            SELECT 1 FROM shift_calendar_rules
+            WHERE calendar_id = v_calendar_id AND is_active = TRUE
+        ) THEN
+            -- Outside shift hours or on a break: not scheduled to run
+            v_is_planned := NOT EXISTS (
+                SELECT 1 FROM fn_get_shift_windows(v_work_center_id, NEW.start_ts, NEW.start_ts + INTERVAL '1 second') w
+                WHERE w.kind = 'shift'
+            ) OR EXISTS (
+                SELECT 1 FROM fn_get_shift_windows(v_work_center_id, NEW.start_ts, NEW.start_ts + INTERVAL '1 second') w
+                WHERE w.kind = 'break'
+            );
+        END IF;
+
+        INSERT INTO downtime_events (equipment_state_event_id, is_classified, is_planned, planned_downtime_window_id)
+        VALUES (NEW.id, FALSE, v_is_planned, v_window_id)
+        ON CONFLICT (equipment_state_event_id) DO NOTHING;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE shift_calendar_breaks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shift_calendar_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view shift_calendar_breaks"
+    ON shift_calendar_breaks FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin can manage shift_calendar_breaks"
+    ON shift_calendar_breaks FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'));
+
+CREATE POLICY "Authenticated users can view shift_calendar_holidays"
+    ON shift_calendar_holidays FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin can manage shift_calendar_holidays"
+    ON shift_calendar_holidays FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON shift_calendar_breaks TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON shift_calendar_holidays TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON COLUMN work_centers.shift_calendar_id IS 'Shift calendar for planned production time; NULL uses the default calendar';
+COMMENT ON TABLE shift_calendar_breaks IS 'Unpaid breaks within a shift rule, excluded from planned production time';
+COMMENT ON TABLE shift_calendar_holidays IS 'Non-working dates; calendar_id NULL applies to every calendar';
+COMMENT ON FUNCTION fn_get_work_center_calendar IS 'Shift calendar in effect for a work center (assigned, else default)';
+COMMENT ON FUNCTION fn_get_shift_windows IS 'Shift and break intervals for a work center within a time range';
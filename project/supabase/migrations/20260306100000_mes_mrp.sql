@@ -0,0 +1,349 @@
+/*
+  # Material Requirements Planning (MRP)
+
+  ## Overview
+  Stores the output of an MRP run: gross requirements from production order
+  BOM lines, planned ticket parts, open ticket parts requests and reorder
+  policies are netted against on-hand stock, BOM allocations, open purchase
+  orders and open production orders. The run produces time-phased planned
+  purchase and production orders that a buyer firms into real orders.
+
+  ## New Tables
+  - mrp_runs: One row per MRP run (horizon, status, counts)
+  - mrp_planned_orders: Planned purchase/production orders with need and release dates
+  - mrp_planned_order_pegs: Demands each planned order covers (pegging)
+
+  ## Firming
+  - Purchase: fn_firm_mrp_purchase_orders groups planned orders by vendor
+    into draft purchase orders (same numbering as fn_generate_reorder_pos)
+  - Production: the service creates the production order from the part's
+    released product revision and links it back to the planned order
+
+  ## Notes
+  - On-hand comes from part_inventory (inventory_balances is deprecated)
+  - Planned orders from older runs stay readable; only 'planned' rows can be firmed
+*/
+
+-- =====================================================
+-- ENUMS
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE mrp_run_status AS ENUM ('running', 'complete', 'failed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE mrp_planned_order_type AS ENUM ('purchase', 'production');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE mrp_planned_order_status AS ENUM ('planned', 'firmed', 'cancelled');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- MRP Runs
+CREATE TABLE IF NOT EXISTS mrp_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    status mrp_run_status NOT NULL DEFAULT 'running',
+    horizon_days INTEGER NOT NULL DEFAULT 90 CHECK (horizon_days > 0),
+    parts_planned INTEGER NOT NULL DEFAULT 0,
+    planned_order_count INTEGER NOT NULL DEFAULT 0,
+    exception_count INTEGER NOT NULL DEFAULT 0,
+    error_message TEXT,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- MRP Planned Orders
+CREATE TABLE IF NOT EXISTS mrp_planned_orders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id UUID NOT NULL REFERENCES mrp_runs(id) ON DELETE CASCADE,
+    order_type mrp_planned_order_type NOT NULL,
+    status mrp_planned_order_status NOT NULL DEFAULT 'planned',
+    part_id UUID NOT NULL REFERENCES parts(id) ON DELETE CASCADE,
+    vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL,
+    product_revision_id UUID REFERENCES product_revisions(id) ON DELETE SET NULL,
+    quantity NUMERIC(12, 4) NOT NULL CHECK (quantity > 0),
+    net_requirement NUMERIC(12, 4) NOT NULL DEFAULT 0,
+    unit_cost NUMERIC(12, 4),
+    need_date DATE NOT NULL,
+    release_date DATE NOT NULL,
+    lead_days INTEGER NOT NULL DEFAULT 0,
+    -- policy | vendor_history | vendor_catalog | vendor_default | default | routing
+    lead_time_source TEXT,
+    -- Release date already in the past when planned
+    is_past_due BOOLEAN NOT NULL DEFAULT FALSE,
+    exception_message TEXT,
+    firmed_purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE SET NULL,
+    firmed_production_order_id UUID REFERENCES production_orders(id) ON DELETE SET NULL,
+    firmed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    firmed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- MRP Pegging (which demands a planned order covers)
+CREATE TABLE IF NOT EXISTS mrp_planned_order_pegs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    planned_order_id UUID NOT NULL REFERENCES mrp_planned_orders(id) ON DELETE CASCADE,
+    -- production_bom | ticket_planned | ticket_request | safety_stock | reorder_min | dependent
+    source_type TEXT NOT NULL,
+    source_id UUID,
+    source_reference TEXT,
+    quantity NUMERIC(12, 4) NOT NULL,
+    need_date DATE NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_mrp_runs_started_at ON mrp_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mrp_planned_orders_run_id ON mrp_planned_orders(run_id);
+CREATE INDEX IF NOT EXISTS idx_mrp_planned_orders_part_id ON mrp_planned_orders(part_id);
+CREATE INDEX IF NOT EXISTS idx_mrp_planned_orders_status ON mrp_planned_orders(status) WHERE status = 'planned';
+CREATE INDEX IF NOT EXISTS idx_mrp_planned_order_pegs_planned_order_id ON mrp_planned_order_pegs(planned_order_id);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_mrp_planned_orders_updated_at ON mrp_planned_orders;
+CREATE TRIGGER trigger_mrp_planned_orders_updated_at
+    BEFORE UPDATE ON mrp_planned_orders FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_mrp_planned_orders ON mrp_planned_orders;
+CREATE TRIGGER trigger_mes_audit_mrp_planned_orders
+    AFTER INSERT OR UPDATE OR DELETE ON mrp_planned_orders
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+-- =====================================================
+-- FUNCTION: Firm Planned Purchase Orders
+-- =====================================================
+
+-- Creates one draft purchase order per vendor from the given planned
+-- purchase orders. Expected delivery is the earliest need date; each line
+-- carries its own need date. Rows that are not 'planned' purchase orders
+-- with a vendor are ignored, so the call is safe to repeat.
+CREATE OR REPLACE FUNCTION fn_firm_mrp_purchase_orders(p_planned_order_ids UUID[])
+RETURNS TABLE (
+    out_po_id UUID,
+    out_po_number TEXT,
+    out_vendor_id UUID,
+    out_line_count INTEGER,
+    out_total_amount NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_vendor RECORD;
+    v_line RECORD;
+    v_next_number INTEGER;
+    v_po_id UUID;
+    v_po_number TEXT;
+    v_line_number INTEGER;
+    v_subtotal NUMERIC;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('admin', 'dispatcher', 'supervisor')
+    ) THEN
+        RAISE EXCEPTION 'Not authorized to firm planned orders';
+    END IF;
+
+    SELECT COALESCE(MAX(SUBSTRING(po_number FROM 'PO-(\d+)')::integer), 0) + 1
+    INTO v_next_number
+    FROM purchase_orders;
+
+    FOR v_vendor IN
+        SELECT mpo.vendor_id, MIN(mpo.need_date) AS expected_date
+        FROM mrp_planned_orders mpo
+        WHERE mpo.id = ANY(p_planned_order_ids)
+        AND mpo.order_type = 'purchase'
+        AND mpo.status = 'planned'
+        AND mpo.vendor_id IS NOT NULL
+        GROUP BY mpo.vendor_id
+    LOOP
+        v_po_number := 'PO-' || LPAD(v_next_number::text, 6, '0');
+        v_next_number := v_next_number + 1;
+
+        INSERT INTO purchase_orders (
+            po_number,
+            vendor_id,
+            order_date,
+            expected_delivery_date,
+            status,
+            notes,
+            created_by
+        ) VALUES (
+            v_po_number,
+            v_vendor.vendor_id,
+            CURRENT_DATE,
+            v_vendor.expected_date,
+            'draft',
+            'Firmed from MRP planned orders',
+            auth.uid()
+        )
+        RETURNING id INTO v_po_id;
+
+        v_line_number := 0;
+        v_subtotal := 0;
+
+        FOR v_line IN
+            SELECT mpo.id, mpo.part_id, mpo.quantity, mpo.need_date,
+                   COALESCE(mpo.unit_cost, 0) AS unit_cost,
+                   COALESCE(p.description, p.part_number) AS description
+            FROM mrp_planned_orders mpo
+            JOIN parts p ON p.id = mpo.part_id
+            WHERE mpo.id = ANY(p_planned_order_ids)
+            AND mpo.order_type = 'purchase'
+            AND mpo.status = 'planned'
+            AND mpo.vendor_id = v_vendor.vendor_id
+            ORDER BY mpo.need_date, p.part_number
+            FOR UPDATE OF mpo
+        LOOP
+            v_line_number := v_line_number + 1;
+
+            INSERT INTO purchase_order_lines (
+                po_id,
+                part_id,
+                line_number,
+                description,
+                quantity_ordered,
+                unit_price,
+                line_total,
+                expected_date
+            ) VALUES (
+                v_po_id,
+                v_line.part_id,
+                v_line_number,
+                v_line.description,
+                v_line.quantity,
+                v_line.unit_cost,
+                v_line.quantity * v_line.unit_cost,
+                v_line.need_date
+            );
+
+            v_subtotal := v_subtotal + v_line.quantity * v_line.unit_cost;
+
+            UPDATE mrp_planned_orders
+            SET status = 'firmed',
+                firmed_purchase_order_id = v_po_id,
+                firmed_by = auth.uid(),
+                firmed_at = NOW()
+            WHERE id = v_line.id;
+        END LOOP;
+
+        UPDATE purchase_orders
+        SET subtotal = v_subtotal,
+            total_amount = v_subtotal
+        WHERE id = v_po_id;
+
+        out_po_id := v_po_id;
+        out_po_number := v_po_number;
+        out_vendor_id := v_vendor.vendor_id;
+        out_line_count := v_line_number;
+        out_total_amount := v_subtotal;
+        RETURN NEXT;
+    END LOOP;
+
+    RETURN;
+END;
+$$;
+
+-- =====================================================
+-- VIEWS
+-- =====================================================
+
+CREATE OR REPLACE VIEW vw_mrp_planned_orders AS
+SELECT
+    mpo.id,
+    mpo.run_id,
+    mpo.order_type,
+    mpo.status,
+    mpo.part_id,
+    p.part_number,
+    p.description AS part_description,
+    mpo.vendor_id,
+    v.name AS vendor_name,
+    mpo.product_revision_id,
+    mpo.quantity,
+    mpo.net_requirement,
+    mpo.unit_cost,
+    mpo.need_date,
+    mpo.release_date,
+    mpo.lead_days,
+    mpo.lead_time_source,
+    mpo.is_past_due,
+    mpo.exception_message,
+    mpo.firmed_purchase_order_id,
+    po.po_number AS firmed_po_number,
+    mpo.firmed_production_order_id,
+    pro.order_number AS firmed_order_number,
+    mpo.firmed_at,
+    (SELECT COUNT(*) FROM mrp_planned_order_pegs peg WHERE peg.planned_order_id = mpo.id) AS peg_count
+FROM mrp_planned_orders mpo
+JOIN parts p ON p.id = mpo.part_id
+LEFT JOIN vendors v ON v.id = mpo.vendor_id
+LEFT JOIN purchase_orders po ON po.id = mpo.firmed_purchase_order_id
+LEFT JOIN production_orders pro ON pro.id = mpo.firmed_production_order_id;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE mrp_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mrp_planned_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mrp_planned_order_pegs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view mrp_runs"
+    ON mrp_runs FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage mrp_runs"
+    ON mrp_runs FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+CREATE POLICY "Authenticated users can view mrp_planned_orders"
+    ON mrp_planned_orders FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage mrp_planned_orders"
+    ON mrp_planned_orders FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+CREATE POLICY "Authenticated users can view mrp_planned_order_pegs"
+    ON mrp_planned_order_pegs FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage mrp_planned_order_pegs"
+    ON mrp_planned_order_pegs FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON mrp_runs TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON mrp_planned_orders TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON mrp_planned_order_pegs TO authenticated;
+GRANT SELECT ON vw_mrp_planned_orders TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE mrp_runs IS 'MRP runs netting production, ticket and reorder-policy demand against supply';
+COMMENT ON TABLE mrp_planned_orders IS 'Time-phased planned purchase and production orders from an MRP run';
+COMMENT ON TABLE mrp_planned_order_pegs IS 'Demands covered by each MRP planned order';
+COMMENT ON FUNCTION fn_firm_mrp_purchase_orders IS 'Firm planned purchase orders into one draft purchase order per vendor';
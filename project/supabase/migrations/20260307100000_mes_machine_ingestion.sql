@@ -0,0 +1,437 @@
+/*
+  # Machine / PLC Data Ingestion
+
+  ## Overview
+  Lets machines report cycles, counts and run state without an operator.
+  The machine-ingest edge function normalizes MQTT-style or OPC-UA style
+  JSON batches into (source, tag, value, timestamp) signals and passes each
+  one to fn_ingest_machine_signal, which maps the tag to a work center or
+  equipment asset and turns it into production counts or state events.
+
+  ## New Tables
+  - machine_tag_mappings: Tag -> work center / equipment asset, signal type and
+    counter settings; also holds the last counter reading per tag
+  - machine_signal_log: Every ingested signal with its outcome (de-duplication key)
+
+  ## Modified Tables
+  - production_counts: Adds source ('manual' or 'plc')
+
+  ## Signal Types
+  - state: Raw value mapped through state_map (or the equipment_state name)
+    opens/closes equipment_state_events; downtime events follow via
+    trigger_auto_create_downtime_event
+  - cycle / good_count: Units recorded as good against the running operation
+  - scrap_count: Units recorded as scrap against the running operation
+
+  ## Notes
+  - Duplicates: signals are keyed on message id (or tag + source timestamp);
+    a repeated key is acknowledged and ignored
+  - Out-of-order: state signals are placed on the machine's timeline by their
+    source timestamp, splitting or extending neighbouring intervals. Delta
+    counts are booked to the run active at the signal time. A cumulative
+    counter reading older than the last one is stale and ignored, since the
+    newer reading already includes it
+  - Machine counts are backflushed when the operation is completed
+*/
+
+-- =====================================================
+-- ENUMS
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE machine_signal_type AS ENUM ('state', 'cycle', 'good_count', 'scrap_count');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE machine_signal_status AS ENUM (
+        'processed',
+        'unchanged',
+        'stale',
+        'unmapped',
+        'no_active_run',
+        'rejected'
+    );
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Machine Tag Mappings
+CREATE TABLE IF NOT EXISTS machine_tag_mappings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    source TEXT NOT NULL DEFAULT 'mqtt', -- mqtt, opcua, etc.
+    tag TEXT NOT NULL, -- MQTT topic or OPC-UA node id
+    signal_type machine_signal_type NOT NULL,
+    work_center_id UUID NOT NULL REFERENCES work_centers(id) ON DELETE CASCADE,
+    equipment_asset_id UUID REFERENCES equipment_assets(id) ON DELETE CASCADE,
+    state_map JSONB NOT NULL DEFAULT '{}'::JSONB, -- raw value -> equipment_state, e.g. {"0": "STOP", "1": "RUN"}
+    units_per_signal NUMERIC(12, 4) NOT NULL DEFAULT 1 CHECK (units_per_signal > 0),
+    is_cumulative BOOLEAN NOT NULL DEFAULT FALSE, -- value is a running counter rather than a delta
+    last_value NUMERIC(18, 4),
+    last_signal_ts TIMESTAMPTZ,
+    last_received_at TIMESTAMPTZ,
+    description TEXT,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(source, tag),
+    CHECK (signal_type <> 'state' OR equipment_asset_id IS NOT NULL)
+);
+
+-- Machine Signal Log
+CREATE TABLE IF NOT EXISTS machine_signal_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    source TEXT NOT NULL,
+    tag TEXT NOT NULL,
+    mapping_id UUID REFERENCES machine_tag_mappings(id) ON DELETE SET NULL,
+    dedupe_key TEXT NOT NULL,
+    raw_value TEXT,
+    source_ts TIMESTAMPTZ NOT NULL,
+    received_at TIMESTAMPTZ DEFAULT NOW(),
+    status machine_signal_status NOT NULL,
+    production_count_id UUID REFERENCES production_counts(id) ON DELETE SET NULL,
+    equipment_state_event_id UUID REFERENCES equipment_state_events(id) ON DELETE SET NULL,
+    message TEXT
+);
+
+-- Unmapped signals are logged for visibility but don't block a re-send once the tag is mapped
+CREATE UNIQUE INDEX IF NOT EXISTS idx_machine_signal_log_dedupe
+    ON machine_signal_log(source, dedupe_key)
+    WHERE status <> 'unmapped';
+
+-- Add source to production_counts
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'production_counts' AND column_name = 'source'
+    ) THEN
+        ALTER TABLE production_counts ADD COLUMN source TEXT DEFAULT 'manual';
+    END IF;
+END $$;
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_machine_tag_mappings_work_center_id ON machine_tag_mappings(work_center_id);
+CREATE INDEX IF NOT EXISTS idx_machine_tag_mappings_equipment_asset_id ON machine_tag_mappings(equipment_asset_id);
+CREATE INDEX IF NOT EXISTS idx_machine_signal_log_mapping_id ON machine_signal_log(mapping_id);
+CREATE INDEX IF NOT EXISTS idx_machine_signal_log_received_at ON machine_signal_log(received_at);
+CREATE INDEX IF NOT EXISTS idx_machine_signal_log_status ON machine_signal_log(status);
+CREATE INDEX IF NOT EXISTS idx_equipment_state_events_source ON equipment_state_events(equipment_asset_id, source, start_ts);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_machine_tag_mappings_updated_at ON machine_tag_mappings;
+CREATE TRIGGER trigger_machine_tag_mappings_updated_at
+    BEFORE UPDATE ON machine_tag_mappings FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_machine_tag_mappings ON machine_tag_mappings;
+CREATE TRIGGER trigger_mes_audit_machine_tag_mappings
+    AFTER INSERT OR UPDATE OR DELETE ON machine_tag_mappings
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+-- =====================================================
+-- FUNCTION: Ingest Machine Signal
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_ingest_machine_signal(
+    p_source TEXT,
+    p_tag TEXT,
+    p_value TEXT,
+    p_source_ts TIMESTAMPTZ,
+    p_message_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    out_status TEXT,
+    out_signal_log_id UUID,
+    out_production_count_id UUID,
+    out_equipment_state_event_id UUID,
+    out_message TEXT
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_mapping machine_tag_mappings%ROWTYPE;
+    v_dedupe_key TEXT;
+    v_log_id UUID;
+    v_status machine_signal_status := 'processed';
+    v_message TEXT;
+    v_state_text TEXT;
+    v_state equipment_state;
+    v_prev_id UUID;
+    v_prev_state equipment_state;
+    v_prev_end TIMESTAMPTZ;
+    v_next_id UUID;
+    v_next_state equipment_state;
+    v_next_start TIMESTAMPTZ;
+    v_event_id UUID;
+    v_numeric NUMERIC;
+    v_units NUMERIC;
+    v_run_id UUID;
+    v_run_order_id UUID;
+    v_count_id UUID;
+BEGIN
+    v_dedupe_key := COALESCE(
+        NULLIF(p_message_id, ''),
+        p_tag || '@' || to_char(p_source_ts AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US')
+    );
+
+    -- Lock the mapping so signals for one tag are applied one at a time
+    SELECT * INTO v_mapping
+    FROM machine_tag_mappings
+    WHERE source = p_source
+    AND tag = p_tag
+    AND is_active = TRUE
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        INSERT INTO machine_signal_log (source, tag, dedupe_key, raw_value, source_ts, status, message)
+        VALUES (p_source, p_tag, v_dedupe_key, p_value, p_source_ts, 'unmapped', 'No active mapping for tag')
+        RETURNING id INTO v_log_id;
+
+        RETURN QUERY SELECT 'unmapped'::TEXT, v_log_id, NULL::UUID, NULL::UUID, 'No active mapping for tag'::TEXT;
+        RETURN;
+    END IF;
+
+    -- De-duplication: a key already seen is acknowledged without reprocessing
+    INSERT INTO machine_signal_log (source, tag, mapping_id, dedupe_key, raw_value, source_ts, status)
+    VALUES (p_source, p_tag, v_mapping.id, v_dedupe_key, p_value, p_source_ts, 'processed')
+    ON CONFLICT (source, dedupe_key) WHERE status <> 'unmapped' DO NOTHING
+    RETURNING id INTO v_log_id;
+
+    IF v_log_id IS NULL THEN
+        RETURN QUERY SELECT 'duplicate'::TEXT, NULL::UUID, NULL::UUID, NULL::UUID, 'Signal already ingested'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_mapping.signal_type = 'state' THEN
+        v_state_text := UPPER(TRIM(COALESCE(v_mapping.state_map ->> p_value, p_value)));
+
+        IF v_state_text IS NULL OR v_state_text NOT IN (SELECT unnest(enum_range(NULL::equipment_state))::TEXT) THEN
+            v_status := 'rejected';
+            v_message := 'Value ' || COALESCE(p_value, 'NULL') || ' does not map to an equipment state';
+        ELSE
+            v_state := v_state_text::equipment_state;
+
+            -- Interval in effect at the signal time and the one after it on the machine timeline
+            SELECT id, state, end_ts INTO v_prev_id, v_prev_state, v_prev_end
+            FROM equipment_state_events
+            WHERE equipment_asset_id = v_mapping.equipment_asset_id
+            AND source = 'plc'
+            AND start_ts <= p_source_ts
+            ORDER BY start_ts DESC
+            LIMIT 1
+            FOR UPDATE;
+
+            SELECT id, state, start_ts INTO v_next_id, v_next_state, v_next_start
+            FROM equipment_state_events
+            WHERE equipment_asset_id = v_mapping.equipment_asset_id
+            AND source = 'plc'
+            AND start_ts > p_source_ts
+            ORDER BY start_ts ASC
+            LIMIT 1
+            FOR UPDATE;
+
+            -- A previous interval that already ended before the signal is not affected
+            IF v_prev_id IS NOT NULL AND v_prev_end IS NOT NULL AND v_prev_end <= p_source_ts THEN
+                v_prev_id := NULL;
+            END IF;
+
+            IF v_prev_id IS NOT NULL AND v_prev_state = v_state THEN
+                -- Machine already in this state
+                v_status := 'unchanged';
+                v_event_id := v_prev_id;
+            ELSE
+                IF v_prev_id IS NOT NULL THEN
+                    UPDATE equipment_state_events
+                    SET end_ts = p_source_ts
+                    WHERE id = v_prev_id;
+                END IF;
+
+                IF v_next_id IS NOT NULL AND v_next_state = v_state THEN
+                    -- Late signal for the start of the following interval: pull it earlier
+                    UPDATE equipment_state_events
+                    SET start_ts = p_source_ts
+                    WHERE id = v_next_id;
+
+                    v_event_id := v_next_id;
+                ELSE
+                    -- Open interval, or closed at the next known change for a late signal
+                    INSERT INTO equipment_state_events (
+                        equipment_asset_id,
+                        work_center_id,
+                        state,
+                        start_ts,
+                        end_ts,
+                        external_event_id,
+                        source,
+                        notes
+                    )
+                    VALUES (
+                        v_mapping.equipment_asset_id,
+                        v_mapping.work_center_id,
+                        v_state,
+                        p_source_ts,
+                        v_next_start,
+                        'PLC:' || p_source || ':' || v_dedupe_key,
+                        'plc',
+                        'Machine tag ' || p_tag
+                    )
+                    RETURNING id INTO v_event_id;
+                END IF;
+            END IF;
+        END IF;
+    ELSE
+        -- Count signals: numeric value, or a boolean cycle pulse
+        IF LOWER(TRIM(p_value)) IN ('true', 'on') THEN
+            v_numeric := 1;
+        ELSIF LOWER(TRIM(p_value)) IN ('false', 'off') THEN
+            v_numeric := 0;
+        ELSIF TRIM(p_value) ~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+            v_numeric := TRIM(p_value)::NUMERIC;
+        END IF;
+
+        IF v_numeric IS NULL OR v_numeric < 0 THEN
+            v_status := 'rejected';
+            v_message := 'Value ' || COALESCE(p_value, 'NULL') || ' is not a count';
+        ELSIF v_mapping.is_cumulative THEN
+            IF v_mapping.last_signal_ts IS NOT NULL AND p_source_ts <= v_mapping.last_signal_ts THEN
+                -- A newer counter reading already includes this one
+                v_status := 'stale';
+                v_message := 'Counter reading older than ' || v_mapping.last_signal_ts::TEXT;
+            ELSE
+                v_units := CASE
+                    WHEN v_mapping.last_value IS NULL THEN 0 -- first reading sets the baseline
+                    WHEN v_numeric < v_mapping.last_value THEN v_numeric -- counter reset or rollover
+                    ELSE v_numeric - v_mapping.last_value
+                END;
+
+                UPDATE machine_tag_mappings
+                SET last_value = v_numeric,
+                    last_signal_ts = p_source_ts
+                WHERE id = v_mapping.id;
+            END IF;
+        ELSE
+            v_units := v_numeric;
+
+            UPDATE machine_tag_mappings
+            SET last_value = v_numeric,
+                last_signal_ts = GREATEST(COALESCE(last_signal_ts, p_source_ts), p_source_ts)
+            WHERE id = v_mapping.id;
+        END IF;
+
+        IF v_status = 'processed' THEN
+            v_units := v_units * v_mapping.units_per_signal;
+
+            IF v_units <= 0 THEN
+                v_status := 'unchanged';
+            ELSE
+                -- Operation running on the machine (or its work center) at the signal time
+                SELECT r.id, r.production_order_id INTO v_run_id, v_run_order_id
+                FROM production_operation_runs r
+                WHERE r.status <> 'NOT_STARTED'
+                AND r.start_ts <= p_source_ts
+                AND (r.end_ts IS NULL OR r.end_ts >= p_source_ts)
+                AND (
+                    (v_mapping.equipment_asset_id IS NOT NULL AND r.equipment_asset_id = v_mapping.equipment_asset_id)
+                    OR (r.work_center_id = v_mapping.work_center_id
+                        AND (r.equipment_asset_id IS NULL OR v_mapping.equipment_asset_id IS NULL))
+                )
+                ORDER BY (r.equipment_asset_id IS NOT DISTINCT FROM v_mapping.equipment_asset_id) DESC, r.start_ts DESC
+                LIMIT 1;
+
+                IF v_run_id IS NULL THEN
+                    v_status := 'no_active_run';
+                    v_message := 'No operation running at ' || p_source_ts::TEXT;
+                ELSE
+                    INSERT INTO production_counts (
+                        operation_run_id,
+                        production_order_id,
+                        work_center_id,
+                        equipment_asset_id,
+                        count_timestamp,
+                        total_qty,
+                        good_qty,
+                        scrap_qty,
+                        rework_qty,
+                        notes,
+                        source
+                    )
+                    VALUES (
+                        v_run_id,
+                        v_run_order_id,
+                        v_mapping.work_center_id,
+                        v_mapping.equipment_asset_id,
+                        p_source_ts,
+                        v_units,
+                        CASE WHEN v_mapping.signal_type = 'scrap_count' THEN 0 ELSE v_units END,
+                        CASE WHEN v_mapping.signal_type = 'scrap_count' THEN v_units ELSE 0 END,
+                        0,
+                        'Machine tag ' || p_tag,
+                        'plc'
+                    )
+                    RETURNING id INTO v_count_id;
+                END IF;
+            END IF;
+        END IF;
+    END IF;
+
+    UPDATE machine_tag_mappings
+    SET last_received_at = NOW()
+    WHERE id = v_mapping.id;
+
+    UPDATE machine_signal_log
+    SET status = v_status,
+        production_count_id = v_count_id,
+        equipment_state_event_id = v_event_id,
+        message = v_message
+    WHERE id = v_log_id;
+
+    RETURN QUERY SELECT v_status::TEXT, v_log_id, v_count_id, v_event_id, v_message;
+END;
+$$;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE machine_tag_mappings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE machine_signal_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view machine_tag_mappings"
+    ON machine_tag_mappings FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage machine_tag_mappings"
+    ON machine_tag_mappings FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+CREATE POLICY "Authenticated users can view machine_signal_log"
+    ON machine_signal_log FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage machine_signal_log"
+    ON machine_signal_log FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON machine_tag_mappings TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON machine_signal_log TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE machine_tag_mappings IS 'Maps machine/PLC tags to work centers and equipment assets for automatic counts and state';
+COMMENT ON TABLE machine_signal_log IS 'Ingested machine signals with outcome; de-duplicated on (source, dedupe_key)';
+COMMENT ON COLUMN production_counts.source IS 'manual (operator entry) or plc (machine ingestion)';
+COMMENT ON FUNCTION fn_ingest_machine_signal IS 'Apply one machine signal: de-duplicate, then record a production count or place a state change on the equipment timeline';
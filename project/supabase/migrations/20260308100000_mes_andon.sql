@@ -0,0 +1,266 @@
+/*
+  # Andon Board and Help Calls
+
+  ## Overview
+  Supports a live shop-floor andon board. Operators raise help calls
+  (maintenance, quality, material) from a work center; each call notifies
+  the users whose role is routed to that call type and shows on every board
+  watching the work center until it is acknowledged and resolved.
+
+  ## New Tables
+  - andon_call_routes: Which roles are notified for each call type
+  - andon_calls: Help calls raised from a work center
+
+  ## Realtime
+  Adds the tables the board listens to into the supabase_realtime
+  publication: equipment_state_events, downtime_events, production_counts,
+  production_operation_runs, quality_nonconformances, spc_rule_violations
+  and andon_calls.
+
+  ## Functions
+  - fn_raise_andon_call: Creates the call and inserts one notification per
+    active user in the routed roles (SECURITY DEFINER, since operators
+    cannot insert notifications directly)
+*/
+
+-- =====================================================
+-- ENUMS
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE andon_call_type AS ENUM ('maintenance', 'quality', 'material');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE andon_call_status AS ENUM ('open', 'acknowledged', 'resolved', 'cancelled');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Andon Call Routes
+CREATE TABLE IF NOT EXISTS andon_call_routes (
+    call_type andon_call_type PRIMARY KEY,
+    notify_roles TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO andon_call_routes (call_type, notify_roles)
+VALUES
+    ('maintenance', ARRAY['technician', 'supervisor']),
+    ('quality', ARRAY['quality_inspector', 'supervisor']),
+    ('material', ARRAY['material_handler', 'supervisor'])
+ON CONFLICT (call_type) DO NOTHING;
+
+-- Andon Calls
+CREATE TABLE IF NOT EXISTS andon_calls (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    work_center_id UUID NOT NULL REFERENCES work_centers(id) ON DELETE CASCADE,
+    equipment_asset_id UUID REFERENCES equipment_assets(id) ON DELETE SET NULL,
+    operation_run_id UUID REFERENCES production_operation_runs(id) ON DELETE SET NULL,
+    production_order_id UUID REFERENCES production_orders(id) ON DELETE SET NULL,
+    call_type andon_call_type NOT NULL,
+    status andon_call_status NOT NULL DEFAULT 'open',
+    message TEXT,
+    raised_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    raised_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    acknowledged_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    acknowledged_at TIMESTAMPTZ,
+    resolved_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMPTZ,
+    resolution_notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_andon_calls_work_center_id ON andon_calls(work_center_id);
+CREATE INDEX IF NOT EXISTS idx_andon_calls_status ON andon_calls(status) WHERE status IN ('open', 'acknowledged');
+CREATE INDEX IF NOT EXISTS idx_andon_calls_raised_at ON andon_calls(raised_at);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_andon_call_routes_updated_at ON andon_call_routes;
+CREATE TRIGGER trigger_andon_call_routes_updated_at
+    BEFORE UPDATE ON andon_call_routes FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_andon_calls_updated_at ON andon_calls;
+CREATE TRIGGER trigger_andon_calls_updated_at
+    BEFORE UPDATE ON andon_calls FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_andon_calls ON andon_calls;
+CREATE TRIGGER trigger_mes_audit_andon_calls
+    AFTER INSERT OR UPDATE OR DELETE ON andon_calls
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+-- =====================================================
+-- FUNCTION: Raise Andon Call
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_raise_andon_call(
+    p_work_center_id UUID,
+    p_call_type andon_call_type,
+    p_message TEXT DEFAULT NULL,
+    p_equipment_asset_id UUID DEFAULT NULL,
+    p_operation_run_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_call_id UUID;
+    v_order_id UUID;
+    v_work_center_name TEXT;
+    v_roles TEXT[];
+BEGIN
+    IF auth.uid() IS NULL OR NOT EXISTS (
+        SELECT 1 FROM profiles WHERE id = auth.uid() AND is_active = TRUE
+    ) THEN
+        RAISE EXCEPTION 'Only active users can raise andon calls';
+    END IF;
+
+    SELECT name INTO v_work_center_name
+    FROM work_centers
+    WHERE id = p_work_center_id;
+
+    IF v_work_center_name IS NULL THEN
+        RAISE EXCEPTION 'Work center % not found', p_work_center_id;
+    END IF;
+
+    -- One open call per type per work center; repeat presses return it
+    SELECT id INTO v_call_id
+    FROM andon_calls
+    WHERE work_center_id = p_work_center_id
+    AND call_type = p_call_type
+    AND status IN ('open', 'acknowledged');
+
+    IF v_call_id IS NOT NULL THEN
+        RETURN v_call_id;
+    END IF;
+
+    IF p_operation_run_id IS NOT NULL THEN
+        SELECT production_order_id INTO v_order_id
+        FROM production_operation_runs
+        WHERE id = p_operation_run_id;
+    END IF;
+
+    INSERT INTO andon_calls (
+        work_center_id,
+        equipment_asset_id,
+        operation_run_id,
+        production_order_id,
+        call_type,
+        message,
+        raised_by
+    )
+    VALUES (
+        p_work_center_id,
+        p_equipment_asset_id,
+        p_operation_run_id,
+        v_order_id,
+        p_call_type,
+        NULLIF(TRIM(p_message), ''),
+        auth.uid()
+    )
+    RETURNING id INTO v_call_id;
+
+    SELECT notify_roles INTO v_roles
+    FROM andon_call_routes
+    WHERE call_type = p_call_type;
+
+    INSERT INTO notifications (user_id, notification_type, title, message, metadata)
+    SELECT
+        p.id,
+        'andon_call',
+        INITCAP(p_call_type::TEXT) || ' help needed at ' || v_work_center_name,
+        COALESCE(NULLIF(TRIM(p_message), ''), 'Help call raised from the andon board'),
+        jsonb_build_object(
+            'andon_call_id', v_call_id,
+            'work_center_id', p_work_center_id,
+            'call_type', p_call_type
+        )
+    FROM profiles p
+    WHERE p.is_active = TRUE
+    AND p.role::TEXT = ANY(COALESCE(v_roles, '{}'));
+
+    RETURN v_call_id;
+END;
+$$;
+
+-- =====================================================
+-- REALTIME
+-- =====================================================
+
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        FOREACH v_table IN ARRAY ARRAY[
+            'equipment_state_events',
+            'downtime_events',
+            'production_counts',
+            'production_operation_runs',
+            'quality_nonconformances',
+            'spc_rule_violations',
+            'andon_calls'
+        ]
+        LOOP
+            IF NOT EXISTS (
+                SELECT 1 FROM pg_publication_tables
+                WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+            ) THEN
+                EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+            END IF;
+        END LOOP;
+    END IF;
+END $$;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE andon_call_routes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE andon_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view andon_call_routes"
+    ON andon_call_routes FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin can manage andon_call_routes"
+    ON andon_call_routes FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'));
+
+CREATE POLICY "Authenticated users can view andon_calls"
+    ON andon_calls FOR SELECT TO authenticated USING (true);
+
+-- Calls are raised through fn_raise_andon_call; anyone on the floor can acknowledge/resolve
+CREATE POLICY "Authenticated users can update andon_calls"
+    ON andon_calls FOR UPDATE TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_active = TRUE))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_active = TRUE));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON andon_call_routes TO authenticated;
+GRANT SELECT, UPDATE ON andon_calls TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_raise_andon_call TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE andon_call_routes IS 'Roles notified for each andon help call type';
+COMMENT ON TABLE andon_calls IS 'Help calls raised from the shop-floor andon board';
+COMMENT ON FUNCTION fn_raise_andon_call IS 'Raise a help call for a work center and notify the routed roles';
@@ -0,0 +1,643 @@
+/*
+  # Preventive Maintenance
+
+  ## Overview
+  PM plans schedule recurring maintenance for two kinds of targets:
+  - Shop assets (equipment_assets): calendar-, runtime- or count-based plans
+    generate maintenance work orders and a planned downtime window on the
+    asset, so OEE and the scheduler treat the PM as planned time
+  - Customer equipment (equipment) under an active service contract:
+    calendar-based plans generate PM service tickets; when no interval is
+    given the contract's included_visits_per_year sets the cadence, and no
+    more PM tickets are generated once the term's included visits are used
+
+  Each plan carries a task list that is copied into a checklist on every
+  generated work order or ticket.
+
+  ## New Tables
+  - pm_plans: Plan definition, trigger and due tracking
+  - pm_plan_tasks: Task list template per plan
+  - maintenance_work_orders: Work orders on shop assets (PM or corrective)
+  - pm_checklist_items: Task checklist on a work order or ticket
+
+  ## Modified Tables
+  - tickets: pm_plan_id links PM tickets to the plan that generated them
+
+  ## Meters
+  - runtime: hours the asset spent in RUN (equipment_state_events) since
+    the plan's meter baseline
+  - count: units counted (production_counts) on the asset since the
+    baseline; counts recorded against the work center only are included
+  The baseline moves to the completion time when the work is completed.
+
+  ## Functions
+  - fn_get_pm_meter: Current runtime/count meter reading for a plan
+  - fn_generate_due_pm_work: Generates work orders and tickets for every
+    plan that is due (safe to call repeatedly; a plan with open work is skipped)
+*/
+
+-- =====================================================
+-- ENUMS
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE pm_target_type AS ENUM ('shop_asset', 'customer_equipment');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE pm_trigger_type AS ENUM ('calendar', 'runtime', 'count');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE maintenance_wo_status AS ENUM ('open', 'in_progress', 'completed', 'cancelled');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- PM Plans
+CREATE TABLE IF NOT EXISTS pm_plans (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    description TEXT,
+    target_type pm_target_type NOT NULL,
+    equipment_asset_id UUID REFERENCES equipment_assets(id) ON DELETE CASCADE,
+    equipment_id UUID REFERENCES equipment(id) ON DELETE CASCADE,
+    service_contract_id UUID REFERENCES service_contracts(id) ON DELETE CASCADE,
+    trigger_type pm_trigger_type NOT NULL DEFAULT 'calendar',
+    interval_days INTEGER CHECK (interval_days IS NULL OR interval_days > 0),
+    interval_runtime_hours NUMERIC(12, 2) CHECK (interval_runtime_hours IS NULL OR interval_runtime_hours > 0),
+    interval_count NUMERIC(14, 2) CHECK (interval_count IS NULL OR interval_count > 0),
+    lead_days INTEGER NOT NULL DEFAULT 0 CHECK (lead_days >= 0),
+    estimated_duration_minutes INTEGER NOT NULL DEFAULT 60 CHECK (estimated_duration_minutes > 0),
+    -- Planned downtime for shop assets starts at this local time on the due date
+    creates_planned_downtime BOOLEAN NOT NULL DEFAULT TRUE,
+    downtime_start_time TIME NOT NULL DEFAULT '06:00',
+    downtime_reason_code_id UUID REFERENCES downtime_reason_codes(id) ON DELETE SET NULL,
+    assigned_to UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    next_due_date DATE,
+    meter_baseline_ts TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_generated_at TIMESTAMPTZ,
+    last_completed_at TIMESTAMPTZ,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (
+        (target_type = 'shop_asset' AND equipment_asset_id IS NOT NULL AND equipment_id IS NULL)
+        OR (target_type = 'customer_equipment' AND equipment_id IS NOT NULL
+            AND service_contract_id IS NOT NULL AND equipment_asset_id IS NULL
+            AND trigger_type = 'calendar')
+    ),
+    CHECK (
+        (trigger_type = 'calendar' AND (interval_days IS NOT NULL OR target_type = 'customer_equipment'))
+        OR (trigger_type = 'runtime' AND interval_runtime_hours IS NOT NULL)
+        OR (trigger_type = 'count' AND interval_count IS NOT NULL)
+    )
+);
+
+-- PM Plan Tasks
+CREATE TABLE IF NOT EXISTS pm_plan_tasks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    pm_plan_id UUID NOT NULL REFERENCES pm_plans(id) ON DELETE CASCADE,
+    sequence_number INTEGER NOT NULL DEFAULT 1,
+    description TEXT NOT NULL,
+    is_required BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Maintenance Work Orders
+CREATE TABLE IF NOT EXISTS maintenance_work_orders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    wo_number TEXT NOT NULL UNIQUE, -- MWO-000001
+    pm_plan_id UUID REFERENCES pm_plans(id) ON DELETE SET NULL,
+    equipment_asset_id UUID NOT NULL REFERENCES equipment_assets(id) ON DELETE CASCADE,
+    work_center_id UUID REFERENCES work_centers(id) ON DELETE SET NULL,
+    status maintenance_wo_status NOT NULL DEFAULT 'open',
+    title TEXT NOT NULL,
+    description TEXT,
+    trigger_reason TEXT,
+    meter_value NUMERIC(14, 2),
+    due_date DATE,
+    planned_downtime_window_id UUID REFERENCES planned_downtime_windows(id) ON DELETE SET NULL,
+    assigned_to UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    completed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    completion_notes TEXT,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- PM Checklist Items
+CREATE TABLE IF NOT EXISTS pm_checklist_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    maintenance_work_order_id UUID REFERENCES maintenance_work_orders(id) ON DELETE CASCADE,
+    ticket_id UUID REFERENCES tickets(id) ON DELETE CASCADE,
+    sequence_number INTEGER NOT NULL DEFAULT 1,
+    description TEXT NOT NULL,
+    is_required BOOLEAN NOT NULL DEFAULT TRUE,
+    is_completed BOOLEAN NOT NULL DEFAULT FALSE,
+    completed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    completed_at TIMESTAMPTZ,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (num_nonnulls(maintenance_work_order_id, ticket_id) = 1)
+);
+
+-- Link PM tickets to their plan
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tickets' AND column_name = 'pm_plan_id'
+    ) THEN
+        ALTER TABLE tickets ADD COLUMN pm_plan_id UUID REFERENCES pm_plans(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_pm_plans_equipment_asset_id ON pm_plans(equipment_asset_id);
+CREATE INDEX IF NOT EXISTS idx_pm_plans_equipment_id ON pm_plans(equipment_id);
+CREATE INDEX IF NOT EXISTS idx_pm_plans_service_contract_id ON pm_plans(service_contract_id);
+CREATE INDEX IF NOT EXISTS idx_pm_plans_next_due_date ON pm_plans(next_due_date) WHERE is_active = TRUE;
+CREATE INDEX IF NOT EXISTS idx_pm_plan_tasks_pm_plan_id ON pm_plan_tasks(pm_plan_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_work_orders_pm_plan_id ON maintenance_work_orders(pm_plan_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_work_orders_equipment_asset_id ON maintenance_work_orders(equipment_asset_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_work_orders_status ON maintenance_work_orders(status);
+CREATE INDEX IF NOT EXISTS idx_pm_checklist_items_work_order_id ON pm_checklist_items(maintenance_work_order_id);
+CREATE INDEX IF NOT EXISTS idx_pm_checklist_items_ticket_id ON pm_checklist_items(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_tickets_pm_plan_id ON tickets(pm_plan_id) WHERE pm_plan_id IS NOT NULL;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_pm_plans_updated_at ON pm_plans;
+CREATE TRIGGER trigger_pm_plans_updated_at
+    BEFORE UPDATE ON pm_plans FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_pm_plan_tasks_updated_at ON pm_plan_tasks;
+CREATE TRIGGER trigger_pm_plan_tasks_updated_at
+    BEFORE UPDATE ON pm_plan_tasks FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_maintenance_work_orders_updated_at ON maintenance_work_orders;
+CREATE TRIGGER trigger_maintenance_work_orders_updated_at
+    BEFORE UPDATE ON maintenance_work_orders FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_pm_checklist_items_updated_at ON pm_checklist_items;
+CREATE TRIGGER trigger_pm_checklist_items_updated_at
+    BEFORE UPDATE ON pm_checklist_items FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_pm_plans ON pm_plans;
+CREATE TRIGGER trigger_mes_audit_pm_plans
+    AFTER INSERT OR UPDATE OR DELETE ON pm_plans
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_maintenance_work_orders ON maintenance_work_orders;
+CREATE TRIGGER trigger_mes_audit_maintenance_work_orders
+    AFTER INSERT OR UPDATE OR DELETE ON maintenance_work_orders
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+-- =====================================================
+-- FUNCTION: Reset Plan Meter On Completion
+-- =====================================================
+
+-- Completing a PM work order or PM ticket restarts the plan's meter so
+-- runtime/count plans measure from the last time the work was done.
+CREATE OR REPLACE FUNCTION fn_pm_work_completed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.pm_plan_id IS NOT NULL
+       AND NEW.status::TEXT = 'completed'
+       AND OLD.status::TEXT IS DISTINCT FROM 'completed' THEN
+        UPDATE pm_plans
+        SET last_completed_at = NOW(),
+            meter_baseline_ts = NOW()
+        WHERE id = NEW.pm_plan_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_maintenance_work_orders_pm_completed ON maintenance_work_orders;
+CREATE TRIGGER trigger_maintenance_work_orders_pm_completed
+    AFTER UPDATE OF status ON maintenance_work_orders
+    FOR EACH ROW EXECUTE FUNCTION fn_pm_work_completed();
+
+DROP TRIGGER IF EXISTS trigger_tickets_pm_completed ON tickets;
+CREATE TRIGGER trigger_tickets_pm_completed
+    AFTER UPDATE OF status ON tickets
+    FOR EACH ROW EXECUTE FUNCTION fn_pm_work_completed();
+
+-- =====================================================
+-- FUNCTION: PM Meter Reading
+-- =====================================================
+
+-- Runtime plans: RUN hours since the baseline. Count plans: units counted
+-- since the baseline. Calendar plans have no meter (NULL).
+CREATE OR REPLACE FUNCTION fn_get_pm_meter(p_plan_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_plan RECORD;
+    v_work_center_id UUID;
+    v_value NUMERIC;
+BEGIN
+    SELECT * INTO v_plan FROM pm_plans WHERE id = p_plan_id;
+
+    IF v_plan.id IS NULL OR v_plan.target_type <> 'shop_asset' THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_plan.trigger_type = 'runtime' THEN
+        SELECT COALESCE(SUM(
+            EXTRACT(EPOCH FROM (
+                LEAST(COALESCE(ese.end_ts, NOW()), NOW()) - GREATEST(ese.start_ts, v_plan.meter_baseline_ts)
+            ))
+        ), 0) / 3600.0
+        INTO v_value
+        FROM equipment_state_events ese
+        WHERE ese.equipment_asset_id = v_plan.equipment_asset_id
+        AND ese.state = 'RUN'
+        AND COALESCE(ese.end_ts, NOW()) > v_plan.meter_baseline_ts;
+
+        RETURN ROUND(v_value, 2);
+    END IF;
+
+    IF v_plan.trigger_type = 'count' THEN
+        SELECT work_center_id INTO v_work_center_id
+        FROM equipment_assets
+        WHERE id = v_plan.equipment_asset_id;
+
+        SELECT COALESCE(SUM(pc.total_qty), 0)
+        INTO v_value
+        FROM production_counts pc
+        WHERE pc.count_timestamp >= v_plan.meter_baseline_ts
+        AND (
+            pc.equipment_asset_id = v_plan.equipment_asset_id
+            OR (pc.equipment_asset_id IS NULL AND pc.work_center_id = v_work_center_id)
+        );
+
+        RETURN v_value;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTION: Generate Due PM Work
+-- =====================================================
+
+-- One pass over active plans. A plan is skipped while work it generated is
+-- still open. Calendar plans advance next_due_date by one interval from the
+-- previous due date so the cadence does not drift with late generation.
+-- Callable by planners from the UI, or by a scheduled job with the service role.
+CREATE OR REPLACE FUNCTION fn_generate_due_pm_work(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+    out_plan_id UUID,
+    out_plan_name TEXT,
+    out_work_order_id UUID,
+    out_ticket_id UUID,
+    out_reason TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_plan RECORD;
+    v_asset RECORD;
+    v_contract RECORD;
+    v_interval_days INTEGER;
+    v_due_date DATE;
+    v_meter NUMERIC;
+    v_reason TEXT;
+    v_next_number INTEGER;
+    v_wo_id UUID;
+    v_ticket_id UUID;
+    v_window_id UUID;
+    v_timezone TEXT;
+    v_window_start TIMESTAMPTZ;
+    v_visits_used INTEGER;
+    v_user_id UUID;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('admin', 'dispatcher', 'supervisor')
+    ) THEN
+        RAISE EXCEPTION 'Not authorized to generate preventive maintenance';
+    END IF;
+
+    SELECT COALESCE(MAX(SUBSTRING(wo_number FROM 'MWO-(\d+)')::integer), 0) + 1
+    INTO v_next_number
+    FROM maintenance_work_orders;
+
+    FOR v_plan IN
+        SELECT * FROM pm_plans
+        WHERE is_active = TRUE
+        ORDER BY next_due_date NULLS FIRST, name
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        v_due_date := NULL;
+        v_meter := NULL;
+        v_interval_days := v_plan.interval_days;
+
+        -- Skip while previously generated work is open
+        IF v_plan.target_type = 'shop_asset' AND EXISTS (
+            SELECT 1 FROM maintenance_work_orders
+            WHERE pm_plan_id = v_plan.id AND status IN ('open', 'in_progress')
+        ) THEN
+            CONTINUE;
+        END IF;
+
+        IF v_plan.target_type = 'customer_equipment' AND EXISTS (
+            SELECT 1 FROM tickets
+            WHERE pm_plan_id = v_plan.id
+            AND status NOT IN ('completed', 'cancelled', 'ready_to_invoice', 'closed_billed', 'closed_no_charge')
+        ) THEN
+            CONTINUE;
+        END IF;
+
+        IF v_plan.target_type = 'customer_equipment' THEN
+            SELECT * INTO v_contract FROM service_contracts WHERE id = v_plan.service_contract_id;
+
+            IF v_contract.id IS NULL
+               OR v_contract.status <> 'active'
+               OR v_contract.start_date > p_as_of
+               OR (v_contract.end_date IS NOT NULL AND v_contract.end_date < p_as_of) THEN
+                CONTINUE;
+            END IF;
+
+            IF v_interval_days IS NULL THEN
+                IF COALESCE(v_contract.included_visits_per_year, 0) <= 0 THEN
+                    CONTINUE;
+                END IF;
+                v_interval_days := FLOOR(365.0 / v_contract.included_visits_per_year);
+            END IF;
+
+            -- Included visits are a per-term allowance
+            IF COALESCE(v_contract.included_visits_per_year, 0) > 0 THEN
+                SELECT COUNT(*) INTO v_visits_used
+                FROM tickets t
+                JOIN pm_plans pp ON pp.id = t.pm_plan_id
+                WHERE pp.service_contract_id = v_contract.id
+                AND t.status <> 'cancelled'
+                AND t.created_at >= COALESCE(v_contract.last_renewed_at, v_contract.start_date::TIMESTAMPTZ);
+
+                IF v_visits_used >= v_contract.included_visits_per_year THEN
+                    CONTINUE;
+                END IF;
+            END IF;
+        END IF;
+
+        -- Due check
+        IF v_plan.trigger_type = 'calendar' THEN
+            v_due_date := COALESCE(v_plan.next_due_date, p_as_of);
+            IF v_due_date - v_plan.lead_days > p_as_of THEN
+                CONTINUE;
+            END IF;
+            v_reason := 'Calendar: due ' || TO_CHAR(v_due_date, 'YYYY-MM-DD');
+        ELSE
+            v_meter := COALESCE(fn_get_pm_meter(v_plan.id), 0);
+            IF v_plan.trigger_type = 'runtime' THEN
+                IF v_meter < v_plan.interval_runtime_hours THEN
+                    CONTINUE;
+                END IF;
+                v_reason := 'Runtime: ' || v_meter || ' of ' || v_plan.interval_runtime_hours || ' run hours';
+            ELSE
+                IF v_meter < v_plan.interval_count THEN
+                    CONTINUE;
+                END IF;
+                v_reason := 'Count: ' || v_meter || ' of ' || v_plan.interval_count || ' units';
+            END IF;
+            v_due_date := p_as_of;
+        END IF;
+
+        v_user_id := COALESCE(auth.uid(), v_plan.created_by);
+        v_wo_id := NULL;
+        v_ticket_id := NULL;
+        v_window_id := NULL;
+
+        IF v_plan.target_type = 'shop_asset' THEN
+            SELECT * INTO v_asset FROM equipment_assets WHERE id = v_plan.equipment_asset_id;
+
+            INSERT INTO maintenance_work_orders (
+                wo_number,
+                pm_plan_id,
+                equipment_asset_id,
+                work_center_id,
+                title,
+                description,
+                trigger_reason,
+                meter_value,
+                due_date,
+                assigned_to,
+                created_by
+            ) VALUES (
+                'MWO-' || LPAD(v_next_number::text, 6, '0'),
+                v_plan.id,
+                v_asset.id,
+                v_asset.work_center_id,
+                v_plan.name || ' - ' || v_asset.name,
+                v_plan.description,
+                v_reason,
+                v_meter,
+                v_due_date,
+                v_plan.assigned_to,
+                v_user_id
+            )
+            RETURNING id INTO v_wo_id;
+
+            v_next_number := v_next_number + 1;
+
+            IF v_plan.creates_planned_downtime THEN
+                SELECT sc.timezone INTO v_timezone
+                FROM shift_calendars sc
+                WHERE sc.id = fn_get_work_center_calendar(v_asset.work_center_id);
+
+                v_window_start := (v_due_date + v_plan.downtime_start_time)
+                    AT TIME ZONE COALESCE(v_timezone, 'America/New_York');
+
+                -- A window already in the past would not plan anything; take the next day
+                IF v_window_start < NOW() THEN
+                    v_window_start := ((GREATEST(v_due_date, p_as_of) + 1) + v_plan.downtime_start_time)
+                        AT TIME ZONE COALESCE(v_timezone, 'America/New_York');
+                END IF;
+
+                INSERT INTO planned_downtime_windows (
+                    equipment_asset_id,
+                    start_ts,
+                    end_ts,
+                    reason_code_id,
+                    description,
+                    created_by
+                ) VALUES (
+                    v_asset.id,
+                    v_window_start,
+                    v_window_start + make_interval(mins => v_plan.estimated_duration_minutes),
+                    v_plan.downtime_reason_code_id,
+                    'PM: ' || v_plan.name,
+                    v_user_id
+                )
+                RETURNING id INTO v_window_id;
+
+                UPDATE maintenance_work_orders
+                SET planned_downtime_window_id = v_window_id
+                WHERE id = v_wo_id;
+            END IF;
+
+            INSERT INTO pm_checklist_items (maintenance_work_order_id, sequence_number, description, is_required)
+            SELECT v_wo_id, t.sequence_number, t.description, t.is_required
+            FROM pm_plan_tasks t
+            WHERE t.pm_plan_id = v_plan.id;
+        ELSE
+            INSERT INTO tickets (
+                ticket_type,
+                customer_id,
+                equipment_id,
+                service_contract_id,
+                pm_plan_id,
+                title,
+                description,
+                priority,
+                service_type,
+                status,
+                assigned_to,
+                scheduled_date,
+                estimated_duration,
+                created_by
+            ) VALUES (
+                'SVC',
+                v_contract.customer_id,
+                v_plan.equipment_id,
+                v_contract.id,
+                v_plan.id,
+                'PM: ' || v_plan.name,
+                COALESCE(v_plan.description || E'\n\n', '') || v_reason,
+                'normal',
+                'Preventive Maintenance',
+                'open',
+                v_plan.assigned_to,
+                v_due_date,
+                v_plan.estimated_duration_minutes,
+                v_user_id
+            )
+            RETURNING id INTO v_ticket_id;
+
+            INSERT INTO pm_checklist_items (ticket_id, sequence_number, description, is_required)
+            SELECT v_ticket_id, t.sequence_number, t.description, t.is_required
+            FROM pm_plan_tasks t
+            WHERE t.pm_plan_id = v_plan.id;
+        END IF;
+
+        UPDATE pm_plans
+        SET last_generated_at = NOW(),
+            next_due_date = CASE
+                WHEN v_plan.trigger_type = 'calendar' THEN v_due_date + v_interval_days
+                ELSE next_due_date
+            END
+        WHERE id = v_plan.id;
+
+        out_plan_id := v_plan.id;
+        out_plan_name := v_plan.name;
+        out_work_order_id := v_wo_id;
+        out_ticket_id := v_ticket_id;
+        out_reason := v_reason;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE pm_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pm_plan_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE maintenance_work_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pm_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view pm_plans"
+    ON pm_plans FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage pm_plans"
+    ON pm_plans FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+CREATE POLICY "Authenticated users can view pm_plan_tasks"
+    ON pm_plan_tasks FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage pm_plan_tasks"
+    ON pm_plan_tasks FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+CREATE POLICY "Authenticated users can view maintenance_work_orders"
+    ON maintenance_work_orders FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage maintenance_work_orders"
+    ON maintenance_work_orders FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+-- Technicians work the orders on the floor
+CREATE POLICY "Technicians can update maintenance_work_orders"
+    ON maintenance_work_orders FOR UPDATE TO authenticated
+    USING (assigned_to = auth.uid() OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'technician'))
+    WITH CHECK (assigned_to = auth.uid() OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'technician'));
+
+CREATE POLICY "Authenticated users can view pm_checklist_items"
+    ON pm_checklist_items FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Active users can update pm_checklist_items"
+    ON pm_checklist_items FOR UPDATE TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_active = TRUE))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_active = TRUE));
+
+CREATE POLICY "Admin and supervisors can manage pm_checklist_items"
+    ON pm_checklist_items FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON pm_plans TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON pm_plan_tasks TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON maintenance_work_orders TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON pm_checklist_items TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_get_pm_meter TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_generate_due_pm_work TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE pm_plans IS 'Preventive maintenance plans for shop assets and contract customer equipment';
+COMMENT ON TABLE pm_plan_tasks IS 'Task list template copied into each generated PM checklist';
+COMMENT ON TABLE maintenance_work_orders IS 'Maintenance work orders on shop assets';
+COMMENT ON TABLE pm_checklist_items IS 'PM task checklist on a maintenance work order or service ticket';
+COMMENT ON COLUMN tickets.pm_plan_id IS 'PM plan that generated this ticket';
+COMMENT ON FUNCTION fn_get_pm_meter IS 'Runtime hours or units counted since the plan meter baseline';
+COMMENT ON FUNCTION fn_generate_due_pm_work IS 'Generate work orders and tickets for every due PM plan';
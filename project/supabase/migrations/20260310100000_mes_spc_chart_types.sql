@@ -0,0 +1,65 @@
+/*
+  # MES SPC Chart Types
+
+  ## Overview
+  Extends SPC beyond X-bar R. Each quality characteristic can pin a chart type
+  or leave it to be chosen from its type and subgroup size:
+  - VARIABLE: n = 1 -> I-MR, n 2-9 -> X-bar R, n >= 10 -> X-bar S
+  - ATTRIBUTE, pass/fail capture (defectives): constant n -> np, varying n -> p
+  - ATTRIBUTE, count capture (defects): constant n -> c, varying n -> u
+
+  Attribute subgroups carry no spc_points; n is the number of units inspected
+  and defect_count holds defective units (p/np) or defects found (c/u).
+
+  ## New Types
+  - spc_chart_type
+
+  ## Modified Tables
+  - quality_characteristics: + spc_chart_type (NULL = automatic), + subgroup_size
+  - spc_subgroups: + defect_count
+*/
+
+-- =====================================================
+-- ENUM TYPES
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE spc_chart_type AS ENUM ('XBAR_R', 'XBAR_S', 'IMR', 'P', 'NP', 'C', 'U');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+-- =====================================================
+-- COLUMNS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_characteristics' AND column_name = 'spc_chart_type'
+    ) THEN
+        ALTER TABLE quality_characteristics ADD COLUMN spc_chart_type spc_chart_type;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_characteristics' AND column_name = 'subgroup_size'
+    ) THEN
+        ALTER TABLE quality_characteristics ADD COLUMN subgroup_size INTEGER CHECK (subgroup_size IS NULL OR subgroup_size > 0);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'spc_subgroups' AND column_name = 'defect_count'
+    ) THEN
+        ALTER TABLE spc_subgroups ADD COLUMN defect_count INTEGER CHECK (defect_count IS NULL OR defect_count >= 0);
+    END IF;
+END $$;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON COLUMN quality_characteristics.spc_chart_type IS 'Pinned SPC chart type; NULL selects from char_type, data_capture and subgroup size';
+COMMENT ON COLUMN quality_characteristics.subgroup_size IS 'Planned SPC subgroup size (units per sample)';
+COMMENT ON COLUMN spc_subgroups.defect_count IS 'Attribute subgroups: defective units (p/np) or defects found (c/u) among n inspected';
@@ -0,0 +1,169 @@
+/*
+  # MES SPC Locked Control Limits
+
+  ## Overview
+  Control limits were recalculated from whatever subgroups fell in the query
+  window, so they drifted with the data they were meant to judge. Quality
+  engineers now freeze limits from a baseline period for a characteristic,
+  optionally scoped to one work center. Each freeze is a numbered revision
+  with a reason; it takes effect only once a supervisor approves it, which
+  supersedes the previous revision. Subgroups are charted and rule-checked
+  against the revision in effect at their timestamp.
+
+  For p, np and u charts the per-subgroup limits depend on n, so center_line
+  stores the process rate (p-bar or u-bar) and limits are derived per point;
+  ucl/lcl hold the limits at the baseline average n for reference.
+
+  ## New Types
+  - spc_limit_status: PENDING, ACTIVE, SUPERSEDED, REJECTED
+
+  ## New Tables
+  - spc_control_limit_sets: Frozen control limit revisions
+
+  ## New Functions
+  - fn_approve_spc_control_limits: Approve a pending revision and supersede the active one
+*/
+
+-- =====================================================
+-- ENUM TYPES
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE spc_limit_status AS ENUM ('PENDING', 'ACTIVE', 'SUPERSEDED', 'REJECTED');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS spc_control_limit_sets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    characteristic_id UUID NOT NULL REFERENCES quality_characteristics(id) ON DELETE CASCADE,
+    work_center_id UUID REFERENCES work_centers(id) ON DELETE CASCADE, -- NULL = all work centers
+    revision INTEGER NOT NULL,
+    chart_type spc_chart_type NOT NULL,
+    status spc_limit_status NOT NULL DEFAULT 'PENDING',
+    -- Baseline the limits were calculated from
+    baseline_from TIMESTAMPTZ NOT NULL,
+    baseline_to TIMESTAMPTZ NOT NULL,
+    baseline_subgroups INTEGER NOT NULL,
+    baseline_avg_n NUMERIC(10, 3),
+    -- Primary chart (X-bar, X or attribute statistic)
+    center_line NUMERIC(18, 8) NOT NULL,
+    ucl NUMERIC(18, 8) NOT NULL,
+    lcl NUMERIC(18, 8) NOT NULL,
+    -- Dispersion chart (R, S or MR)
+    secondary_center_line NUMERIC(18, 8),
+    secondary_ucl NUMERIC(18, 8),
+    secondary_lcl NUMERIC(18, 8),
+    -- Revision control
+    reason TEXT NOT NULL,
+    requested_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    approved_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    approved_at TIMESTAMPTZ, -- Revision is in effect from this time
+    superseded_at TIMESTAMPTZ,
+    rejection_reason TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT spc_control_limit_sets_baseline_check CHECK (baseline_to > baseline_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_spc_control_limit_sets_characteristic ON spc_control_limit_sets(characteristic_id);
+CREATE INDEX IF NOT EXISTS idx_spc_control_limit_sets_work_center ON spc_control_limit_sets(work_center_id) WHERE work_center_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_spc_control_limit_sets_status ON spc_control_limit_sets(status);
+
+-- Revisions are numbered per characteristic and scope; one active revision per scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_spc_control_limit_sets_revision
+    ON spc_control_limit_sets(characteristic_id, COALESCE(work_center_id, '00000000-0000-0000-0000-000000000000'::UUID), revision);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_spc_control_limit_sets_active
+    ON spc_control_limit_sets(characteristic_id, COALESCE(work_center_id, '00000000-0000-0000-0000-000000000000'::UUID))
+    WHERE status = 'ACTIVE';
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_spc_control_limit_sets_updated_at ON spc_control_limit_sets;
+CREATE TRIGGER trigger_spc_control_limit_sets_updated_at
+    BEFORE UPDATE ON spc_control_limit_sets FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_spc_control_limit_sets ON spc_control_limit_sets;
+CREATE TRIGGER trigger_mes_audit_spc_control_limit_sets
+    AFTER INSERT OR UPDATE OR DELETE ON spc_control_limit_sets
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+-- =====================================================
+-- FUNCTION: Approve Control Limits
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_approve_spc_control_limits(p_limit_set_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_set RECORD;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'supervisor')
+    ) THEN
+        RAISE EXCEPTION 'Only admins and supervisors can approve control limits';
+    END IF;
+
+    SELECT * INTO v_set
+    FROM spc_control_limit_sets
+    WHERE id = p_limit_set_id
+    FOR UPDATE;
+
+    IF v_set.id IS NULL THEN
+        RAISE EXCEPTION 'Control limit set % not found', p_limit_set_id;
+    END IF;
+
+    IF v_set.status <> 'PENDING' THEN
+        RAISE EXCEPTION 'Only pending control limits can be approved (revision % is %)', v_set.revision, v_set.status;
+    END IF;
+
+    UPDATE spc_control_limit_sets
+    SET status = 'SUPERSEDED',
+        superseded_at = NOW()
+    WHERE characteristic_id = v_set.characteristic_id
+    AND work_center_id IS NOT DISTINCT FROM v_set.work_center_id
+    AND status = 'ACTIVE';
+
+    UPDATE spc_control_limit_sets
+    SET status = 'ACTIVE',
+        approved_by = auth.uid(),
+        approved_at = NOW()
+    WHERE id = p_limit_set_id;
+
+    RETURN p_limit_set_id;
+END;
+$$;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE spc_control_limit_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view spc_control_limit_sets"
+    ON spc_control_limit_sets FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage spc_control_limit_sets"
+    ON spc_control_limit_sets FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON spc_control_limit_sets TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_approve_spc_control_limits TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE spc_control_limit_sets IS 'Frozen SPC control limit revisions per characteristic and optional work center';
+COMMENT ON COLUMN spc_control_limit_sets.center_line IS 'Center line; for p, np and u charts the process rate used to derive per-subgroup limits';
+COMMENT ON FUNCTION fn_approve_spc_control_limits IS 'Approves a pending control limit revision and supersedes the active one';
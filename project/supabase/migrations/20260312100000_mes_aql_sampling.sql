@@ -0,0 +1,221 @@
+/*
+  # MES AQL Sampling (ANSI/ASQ Z1.4)
+
+  ## Overview
+  AQL sampling plans now drive lot inspection. When an incoming or final
+  inspection run is created for a lot, the Z1.4 code letter, sample size and
+  accept/reject numbers are computed from the lot size, AQL, inspection level
+  and the inspection severity currently in force, and stored on the run.
+  Completing the run accepts or rejects the lot (asking for a second sample
+  under double sampling) and applies the normal/tightened/reduced switching
+  rules for the part and vendor.
+
+  The Z1.4 tables themselves live in AQLSamplingService.
+
+  ## New Types
+  - aql_inspection_level: S1-S4 (special), I, II, III (general)
+  - aql_sampling_scheme: SINGLE, DOUBLE
+  - aql_inspection_severity: NORMAL, TIGHTENED, REDUCED, DISCONTINUED
+  - aql_lot_disposition: ACCEPTED, REJECTED
+
+  ## New Tables
+  - quality_aql_switching_states: Inspection severity and switching counters per part and vendor
+
+  ## Modified Tables
+  - quality_sampling_plans: + inspection_level, + sampling_scheme
+  - quality_inspection_plans: + sampling_plan_id (lot-level sampling plan)
+  - quality_inspection_runs: + part/vendor, lot size and the computed Z1.4 plan and lot decision
+*/
+
+-- =====================================================
+-- ENUM TYPES
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE aql_inspection_level AS ENUM ('S1', 'S2', 'S3', 'S4', 'I', 'II', 'III');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE aql_sampling_scheme AS ENUM ('SINGLE', 'DOUBLE');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE aql_inspection_severity AS ENUM ('NORMAL', 'TIGHTENED', 'REDUCED', 'DISCONTINUED');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE aql_lot_disposition AS ENUM ('ACCEPTED', 'REJECTED');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+-- =====================================================
+-- COLUMNS
+-- =====================================================
+
+DO $$
+BEGIN
+    -- Sampling plans
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_sampling_plans' AND column_name = 'inspection_level'
+    ) THEN
+        ALTER TABLE quality_sampling_plans ADD COLUMN inspection_level aql_inspection_level NOT NULL DEFAULT 'II';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_sampling_plans' AND column_name = 'sampling_scheme'
+    ) THEN
+        ALTER TABLE quality_sampling_plans ADD COLUMN sampling_scheme aql_sampling_scheme NOT NULL DEFAULT 'SINGLE';
+    END IF;
+
+    -- Inspection plans
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_inspection_plans' AND column_name = 'sampling_plan_id'
+    ) THEN
+        ALTER TABLE quality_inspection_plans ADD COLUMN sampling_plan_id UUID REFERENCES quality_sampling_plans(id) ON DELETE SET NULL;
+    END IF;
+
+    -- Inspection runs: lot and part/vendor context
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_inspection_runs' AND column_name = 'part_id'
+    ) THEN
+        ALTER TABLE quality_inspection_runs ADD COLUMN part_id UUID REFERENCES parts(id) ON DELETE SET NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_inspection_runs' AND column_name = 'vendor_id'
+    ) THEN
+        ALTER TABLE quality_inspection_runs ADD COLUMN vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_inspection_runs' AND column_name = 'lot_size'
+    ) THEN
+        ALTER TABLE quality_inspection_runs ADD COLUMN lot_size INTEGER CHECK (lot_size IS NULL OR lot_size > 0);
+    END IF;
+
+    -- Inspection runs: computed Z1.4 plan
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_inspection_runs' AND column_name = 'aql_level'
+    ) THEN
+        ALTER TABLE quality_inspection_runs
+            ADD COLUMN aql_level TEXT,
+            ADD COLUMN inspection_level aql_inspection_level,
+            ADD COLUMN sampling_scheme aql_sampling_scheme,
+            ADD COLUMN inspection_severity aql_inspection_severity,
+            ADD COLUMN code_letter TEXT,
+            ADD COLUMN sample_size INTEGER,
+            ADD COLUMN accept_number INTEGER,
+            ADD COLUMN reject_number INTEGER,
+            ADD COLUMN second_sample_size INTEGER,
+            ADD COLUMN second_accept_number INTEGER,
+            ADD COLUMN second_reject_number INTEGER;
+    END IF;
+
+    -- Inspection runs: lot decision
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_inspection_runs' AND column_name = 'lot_disposition'
+    ) THEN
+        ALTER TABLE quality_inspection_runs
+            ADD COLUMN first_sample_defects INTEGER CHECK (first_sample_defects IS NULL OR first_sample_defects >= 0),
+            ADD COLUMN second_sample_defects INTEGER CHECK (second_sample_defects IS NULL OR second_sample_defects >= 0),
+            ADD COLUMN lot_disposition aql_lot_disposition;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_quality_inspection_plans_sampling ON quality_inspection_plans(sampling_plan_id) WHERE sampling_plan_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_quality_inspection_runs_part ON quality_inspection_runs(part_id) WHERE part_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_quality_inspection_runs_vendor ON quality_inspection_runs(vendor_id) WHERE vendor_id IS NOT NULL;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS quality_aql_switching_states (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    part_id UUID NOT NULL REFERENCES parts(id) ON DELETE CASCADE,
+    vendor_id UUID REFERENCES vendors(id) ON DELETE CASCADE, -- NULL = in-house (final inspection)
+    severity aql_inspection_severity NOT NULL DEFAULT 'NORMAL',
+    -- Switching counters
+    switching_score INTEGER NOT NULL DEFAULT 0, -- Normal -> reduced at 30
+    recent_results BOOLEAN[] NOT NULL DEFAULT '{}', -- Last 5 lots on normal, true = accepted
+    consecutive_accepted INTEGER NOT NULL DEFAULT 0, -- Tightened -> normal at 5
+    tightened_rejections INTEGER NOT NULL DEFAULT 0, -- Tightened -> discontinued at 5
+    lots_inspected INTEGER NOT NULL DEFAULT 0,
+    last_run_id UUID REFERENCES quality_inspection_runs(id) ON DELETE SET NULL,
+    severity_changed_at TIMESTAMPTZ,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quality_aql_switching_states_part_vendor
+    ON quality_aql_switching_states(part_id, COALESCE(vendor_id, '00000000-0000-0000-0000-000000000000'::UUID));
+CREATE INDEX IF NOT EXISTS idx_quality_aql_switching_states_vendor ON quality_aql_switching_states(vendor_id) WHERE vendor_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_quality_aql_switching_states_severity ON quality_aql_switching_states(severity);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_quality_aql_switching_states_updated_at ON quality_aql_switching_states;
+CREATE TRIGGER trigger_quality_aql_switching_states_updated_at
+    BEFORE UPDATE ON quality_aql_switching_states FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_aql_switching_states ON quality_aql_switching_states;
+CREATE TRIGGER trigger_mes_audit_quality_aql_switching_states
+    AFTER INSERT OR UPDATE OR DELETE ON quality_aql_switching_states
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE quality_aql_switching_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view quality_aql_switching_states"
+    ON quality_aql_switching_states FOR SELECT TO authenticated USING (true);
+
+-- Updated by whoever completes the inspection run
+CREATE POLICY "Authorized users can manage quality_aql_switching_states"
+    ON quality_aql_switching_states FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'dispatcher', 'supervisor', 'operator', 'technician')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'dispatcher', 'supervisor', 'operator', 'technician')));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON quality_aql_switching_states TO authenticated;
+
+-- =====================================================
+-- SEED AQL SAMPLING PLANS
+-- =====================================================
+
+INSERT INTO quality_sampling_plans (name, description, method, aql_level, inspection_level, sampling_scheme)
+SELECT v.name, v.description, 'AQL'::sampling_method, v.aql_level, 'II'::aql_inspection_level, v.scheme::aql_sampling_scheme
+FROM (VALUES
+    ('AQL 0.65 - Level II', 'Z1.4 single sampling, general level II', '0.65', 'SINGLE'),
+    ('AQL 1.0 - Level II', 'Z1.4 single sampling, general level II', '1.0', 'SINGLE'),
+    ('AQL 2.5 - Level II', 'Z1.4 single sampling, general level II', '2.5', 'SINGLE'),
+    ('AQL 4.0 - Level II', 'Z1.4 single sampling, general level II', '4.0', 'SINGLE'),
+    ('AQL 2.5 - Level II Double', 'Z1.4 double sampling, general level II', '2.5', 'DOUBLE')
+) AS v(name, description, aql_level, scheme)
+WHERE NOT EXISTS (SELECT 1 FROM quality_sampling_plans sp WHERE sp.name = v.name);
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE quality_aql_switching_states IS 'Z1.4 inspection severity and switching counters per part and vendor';
+COMMENT ON COLUMN quality_inspection_plans.sampling_plan_id IS 'Lot-level sampling plan; AQL plans size incoming and final inspection samples';
+COMMENT ON COLUMN quality_inspection_runs.lot_size IS 'Units in the lot under inspection';
+COMMENT ON COLUMN quality_inspection_runs.accept_number IS 'Z1.4 acceptance number for the first (or only) sample';
+COMMENT ON COLUMN quality_inspection_runs.second_accept_number IS 'Z1.4 double sampling: cumulative acceptance number over both samples';
+COMMENT ON COLUMN quality_inspection_runs.first_sample_defects IS 'Nonconforming units found in the first (or only) sample';
@@ -0,0 +1,325 @@
+/*
+  # MES Gauges, Calibration and Gage R&R
+
+  ## Overview
+  Measurements recorded which value was taken but not with which instrument.
+  Gauges are now kept in a register with their type, resolution, location and
+  calibration interval. Each calibration is logged and rolls the due date
+  forward; a failed calibration takes the gauge out of service. A gauge can
+  only be used for a measurement while it is in service and within its
+  calibration due date, enforced here so every client is covered.
+
+  Crossed Gage R&R studies (every appraiser measures every part the same
+  number of times) are stored with their raw readings and the ANOVA results
+  calculated by GaugeService.
+
+  ## New Types
+  - gauge_type: Instrument family
+  - gauge_status: IN_SERVICE, OUT_OF_CALIBRATION, OUT_FOR_CALIBRATION, QUARANTINED, RETIRED
+  - gauge_calibration_result: PASS, ADJUSTED, FAIL
+  - grr_study_status: DRAFT, COMPLETED
+
+  ## New Tables
+  - quality_gauges: Gauge and measurement equipment register
+  - quality_gauge_calibrations: Calibration history
+  - quality_grr_studies: Gage R&R studies with ANOVA results
+  - quality_grr_readings: Study readings (part x appraiser x trial)
+
+  ## Modified Tables
+  - quality_measurements: + gauge_id
+  - quality_characteristics: gage_id now references quality_gauges (default gauge)
+
+  ## New Functions
+  - fn_gauge_is_usable: True when a gauge is in service and calibrated
+  - fn_check_measurement_gauge: Rejects measurements taken with an unusable gauge
+*/
+
+-- =====================================================
+-- ENUM TYPES
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE gauge_type AS ENUM (
+        'CALIPER', 'MICROMETER', 'HEIGHT_GAUGE', 'DIAL_INDICATOR', 'BORE_GAUGE',
+        'PIN_GAUGE', 'THREAD_GAUGE', 'CMM', 'SCALE', 'TORQUE_WRENCH', 'OTHER'
+    );
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE gauge_status AS ENUM ('IN_SERVICE', 'OUT_OF_CALIBRATION', 'OUT_FOR_CALIBRATION', 'QUARANTINED', 'RETIRED');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE gauge_calibration_result AS ENUM ('PASS', 'ADJUSTED', 'FAIL');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE grr_study_status AS ENUM ('DRAFT', 'COMPLETED');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS quality_gauges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    gauge_number TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    gauge_type gauge_type NOT NULL DEFAULT 'OTHER',
+    manufacturer TEXT,
+    model TEXT,
+    serial_number TEXT,
+    -- Measuring capability
+    resolution NUMERIC(15, 6),
+    uom TEXT,
+    range_min NUMERIC(15, 6),
+    range_max NUMERIC(15, 6),
+    -- Location
+    location TEXT,
+    work_center_id UUID REFERENCES work_centers(id) ON DELETE SET NULL,
+    -- Calibration
+    calibration_interval_days INTEGER NOT NULL DEFAULT 365 CHECK (calibration_interval_days > 0),
+    last_calibrated_at DATE,
+    calibration_due_date DATE, -- NULL = never calibrated, not usable
+    status gauge_status NOT NULL DEFAULT 'IN_SERVICE',
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT quality_gauges_range_check CHECK (range_min IS NULL OR range_max IS NULL OR range_max > range_min)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_gauges_status ON quality_gauges(status);
+CREATE INDEX IF NOT EXISTS idx_quality_gauges_due ON quality_gauges(calibration_due_date) WHERE status <> 'RETIRED';
+CREATE INDEX IF NOT EXISTS idx_quality_gauges_work_center ON quality_gauges(work_center_id) WHERE work_center_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS quality_gauge_calibrations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    gauge_id UUID NOT NULL REFERENCES quality_gauges(id) ON DELETE CASCADE,
+    calibrated_at DATE NOT NULL,
+    result gauge_calibration_result NOT NULL,
+    performed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    provider TEXT, -- External calibration lab, NULL = in-house
+    certificate_number TEXT,
+    as_found_notes TEXT,
+    as_left_notes TEXT,
+    next_due_date DATE, -- NULL when the calibration failed
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_gauge_calibrations_gauge ON quality_gauge_calibrations(gauge_id, calibrated_at DESC);
+
+CREATE TABLE IF NOT EXISTS quality_grr_studies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    characteristic_id UUID NOT NULL REFERENCES quality_characteristics(id) ON DELETE CASCADE,
+    gauge_id UUID NOT NULL REFERENCES quality_gauges(id) ON DELETE CASCADE,
+    part_count INTEGER NOT NULL CHECK (part_count >= 2),
+    appraisers TEXT[] NOT NULL CHECK (array_length(appraisers, 1) >= 2),
+    trial_count INTEGER NOT NULL CHECK (trial_count >= 2),
+    tolerance NUMERIC(15, 6), -- USL - LSL at the time of the study
+    status grr_study_status NOT NULL DEFAULT 'DRAFT',
+    -- ANOVA results (standard deviations)
+    repeatability NUMERIC(18, 8),
+    reproducibility NUMERIC(18, 8),
+    interaction NUMERIC(18, 8),
+    grr NUMERIC(18, 8),
+    part_variation NUMERIC(18, 8),
+    total_variation NUMERIC(18, 8),
+    interaction_p_value NUMERIC(10, 6),
+    interaction_pooled BOOLEAN,
+    pct_grr NUMERIC(8, 3), -- % of total study variation
+    pct_grr_tolerance NUMERIC(8, 3),
+    ndc INTEGER,
+    notes TEXT,
+    performed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_grr_studies_characteristic ON quality_grr_studies(characteristic_id);
+CREATE INDEX IF NOT EXISTS idx_quality_grr_studies_gauge ON quality_grr_studies(gauge_id);
+
+CREATE TABLE IF NOT EXISTS quality_grr_readings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    study_id UUID NOT NULL REFERENCES quality_grr_studies(id) ON DELETE CASCADE,
+    part_index INTEGER NOT NULL CHECK (part_index >= 1),
+    appraiser TEXT NOT NULL,
+    trial INTEGER NOT NULL CHECK (trial >= 1),
+    value NUMERIC(15, 6) NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(study_id, part_index, appraiser, trial)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_grr_readings_study ON quality_grr_readings(study_id);
+
+-- =====================================================
+-- COLUMNS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_measurements' AND column_name = 'gauge_id'
+    ) THEN
+        ALTER TABLE quality_measurements ADD COLUMN gauge_id UUID REFERENCES quality_gauges(id) ON DELETE RESTRICT;
+    END IF;
+
+    -- The characteristic gage_id placeholder becomes the default gauge
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.table_constraints
+        WHERE table_name = 'quality_characteristics' AND constraint_name = 'quality_characteristics_gage_id_fkey'
+    ) THEN
+        UPDATE quality_characteristics SET gage_id = NULL
+        WHERE gage_id IS NOT NULL AND gage_id NOT IN (SELECT id FROM quality_gauges);
+
+        ALTER TABLE quality_characteristics
+            ADD CONSTRAINT quality_characteristics_gage_id_fkey
+            FOREIGN KEY (gage_id) REFERENCES quality_gauges(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_quality_measurements_gauge ON quality_measurements(gauge_id) WHERE gauge_id IS NOT NULL;
+
+-- =====================================================
+-- FUNCTION: Gauge Usability
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_gauge_is_usable(p_gauge_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM quality_gauges
+        WHERE id = p_gauge_id
+        AND status = 'IN_SERVICE'
+        AND calibration_due_date >= CURRENT_DATE
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION fn_check_measurement_gauge()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_gauge RECORD;
+BEGIN
+    IF NEW.gauge_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    -- Edits that keep the original gauge are allowed after it lapses
+    IF TG_OP = 'UPDATE' AND NEW.gauge_id IS NOT DISTINCT FROM OLD.gauge_id THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT fn_gauge_is_usable(NEW.gauge_id) THEN
+        SELECT gauge_number, status, calibration_due_date INTO v_gauge
+        FROM quality_gauges WHERE id = NEW.gauge_id;
+
+        IF v_gauge.status <> 'IN_SERVICE' THEN
+            RAISE EXCEPTION 'Gauge % is % and cannot be used', v_gauge.gauge_number, v_gauge.status;
+        END IF;
+        RAISE EXCEPTION 'Gauge % is out of calibration (due %)', v_gauge.gauge_number, COALESCE(v_gauge.calibration_due_date::TEXT, 'never calibrated');
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_check_measurement_gauge ON quality_measurements;
+CREATE TRIGGER trigger_check_measurement_gauge
+    BEFORE INSERT OR UPDATE OF gauge_id ON quality_measurements
+    FOR EACH ROW EXECUTE FUNCTION fn_check_measurement_gauge();
+
+DROP TRIGGER IF EXISTS trigger_quality_gauges_updated_at ON quality_gauges;
+CREATE TRIGGER trigger_quality_gauges_updated_at
+    BEFORE UPDATE ON quality_gauges FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_quality_grr_studies_updated_at ON quality_grr_studies;
+CREATE TRIGGER trigger_quality_grr_studies_updated_at
+    BEFORE UPDATE ON quality_grr_studies FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_gauges ON quality_gauges;
+CREATE TRIGGER trigger_mes_audit_quality_gauges
+    AFTER INSERT OR UPDATE OR DELETE ON quality_gauges
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_gauge_calibrations ON quality_gauge_calibrations;
+CREATE TRIGGER trigger_mes_audit_quality_gauge_calibrations
+    AFTER INSERT OR UPDATE OR DELETE ON quality_gauge_calibrations
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_grr_studies ON quality_grr_studies;
+CREATE TRIGGER trigger_mes_audit_quality_grr_studies
+    AFTER INSERT OR UPDATE OR DELETE ON quality_grr_studies
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE quality_gauges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quality_gauge_calibrations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quality_grr_studies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quality_grr_readings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view quality_gauges"
+    ON quality_gauges FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage quality_gauges"
+    ON quality_gauges FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+CREATE POLICY "Authenticated users can view quality_gauge_calibrations"
+    ON quality_gauge_calibrations FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage quality_gauge_calibrations"
+    ON quality_gauge_calibrations FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+CREATE POLICY "Authenticated users can view quality_grr_studies"
+    ON quality_grr_studies FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage quality_grr_studies"
+    ON quality_grr_studies FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+CREATE POLICY "Authenticated users can view quality_grr_readings"
+    ON quality_grr_readings FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage quality_grr_readings"
+    ON quality_grr_readings FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON quality_gauges TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON quality_gauge_calibrations TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON quality_grr_studies TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON quality_grr_readings TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_gauge_is_usable TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE quality_gauges IS 'Gauge and measurement equipment register with calibration status';
+COMMENT ON TABLE quality_gauge_calibrations IS 'Calibration history per gauge';
+COMMENT ON TABLE quality_grr_studies IS 'Crossed Gage R&R studies with ANOVA results';
+COMMENT ON TABLE quality_grr_readings IS 'Gage R&R readings by part, appraiser and trial';
+COMMENT ON COLUMN quality_measurements.gauge_id IS 'Gauge the measurement was taken with';
+COMMENT ON COLUMN quality_characteristics.gage_id IS 'Default gauge for measuring this characteristic';
+COMMENT ON FUNCTION fn_gauge_is_usable IS 'True when the gauge is in service and within its calibration due date';
@@ -0,0 +1,464 @@
+/*
+  # MES Supplier Quality
+
+  ## Overview
+  Receiving now feeds incoming inspection. A PO receipt of a part with an
+  active INCOMING inspection plan is quarantined: the quantity is held on the
+  PO line as "in inspection" instead of being received into stock, and an
+  inspection run is created for the receipt. When the run passes (or is
+  waived) the receipt is released into stock automatically. A failed run
+  waits for a disposition of accepted and rejected quantities; rejected
+  quantities raise a supplier nonconformance with a RETURN_TO_VENDOR
+  disposition and a supplier corrective action request (SCAR).
+
+  Releasing quantity onto purchase_order_lines.quantity_received keeps the
+  existing ticket staging trigger working for ticket-linked lines.
+
+  ## New Types
+  - receipt_inspection_status: NOT_REQUIRED, QUARANTINED, AWAITING_DISPOSITION,
+    ACCEPTED, PARTIALLY_ACCEPTED, REJECTED
+  - scar_status: ISSUED, ACKNOWLEDGED, RESPONDED, ACCEPTED, REJECTED, CLOSED
+  - nc_source: + SUPPLIER
+  - serialized_part_status: + quarantined
+  - contract_sla_metric: + incoming_ppm, + lot_reject_rate
+
+  ## New Tables
+  - quality_supplier_cars: Supplier corrective action requests
+
+  ## Modified Tables
+  - purchase_order_receipts: + inspection status, run and accepted/rejected quantities
+  - purchase_order_lines: + quantity_in_inspection, + quantity_rejected
+  - quality_inspection_runs: + po_receipt_id
+  - quality_nonconformances: + vendor_id, + po_receipt_id
+
+  ## New Functions
+  - fn_release_receipt_inspection: Posts accepted quantity to stock and closes the quarantine
+  - fn_receipt_inspection_completed: Releases or holds the receipt when its run completes
+
+  ## New Views
+  - vw_vendor_quality_metrics: Trailing 12-month incoming PPM and lot reject rate per vendor
+*/
+
+-- =====================================================
+-- ENUM TYPES
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE receipt_inspection_status AS ENUM (
+        'NOT_REQUIRED', 'QUARANTINED', 'AWAITING_DISPOSITION', 'ACCEPTED', 'PARTIALLY_ACCEPTED', 'REJECTED'
+    );
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE scar_status AS ENUM ('ISSUED', 'ACKNOWLEDGED', 'RESPONDED', 'ACCEPTED', 'REJECTED', 'CLOSED');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TYPE nc_source ADD VALUE IF NOT EXISTS 'SUPPLIER';
+ALTER TYPE serialized_part_status ADD VALUE IF NOT EXISTS 'quarantined';
+ALTER TYPE contract_sla_metric ADD VALUE IF NOT EXISTS 'incoming_ppm';
+ALTER TYPE contract_sla_metric ADD VALUE IF NOT EXISTS 'lot_reject_rate';
+
+-- =====================================================
+-- COLUMNS
+-- =====================================================
+
+DO $$
+BEGIN
+    -- Receipts
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'purchase_order_receipts' AND column_name = 'inspection_status'
+    ) THEN
+        ALTER TABLE purchase_order_receipts ADD COLUMN inspection_status receipt_inspection_status NOT NULL DEFAULT 'NOT_REQUIRED';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'purchase_order_receipts' AND column_name = 'inspection_run_id'
+    ) THEN
+        ALTER TABLE purchase_order_receipts ADD COLUMN inspection_run_id UUID REFERENCES quality_inspection_runs(id) ON DELETE SET NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'purchase_order_receipts' AND column_name = 'quantity_accepted'
+    ) THEN
+        ALTER TABLE purchase_order_receipts ADD COLUMN quantity_accepted NUMERIC(10, 2);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'purchase_order_receipts' AND column_name = 'quantity_rejected'
+    ) THEN
+        ALTER TABLE purchase_order_receipts ADD COLUMN quantity_rejected NUMERIC(10, 2);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'purchase_order_receipts' AND column_name = 'released_at'
+    ) THEN
+        ALTER TABLE purchase_order_receipts ADD COLUMN released_at TIMESTAMPTZ;
+    END IF;
+
+    -- PO lines
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'purchase_order_lines' AND column_name = 'quantity_in_inspection'
+    ) THEN
+        ALTER TABLE purchase_order_lines ADD COLUMN quantity_in_inspection NUMERIC(10, 2) NOT NULL DEFAULT 0;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'purchase_order_lines' AND column_name = 'quantity_rejected'
+    ) THEN
+        ALTER TABLE purchase_order_lines ADD COLUMN quantity_rejected NUMERIC(10, 2) NOT NULL DEFAULT 0;
+    END IF;
+
+    -- Inspection runs
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_inspection_runs' AND column_name = 'po_receipt_id'
+    ) THEN
+        ALTER TABLE quality_inspection_runs ADD COLUMN po_receipt_id UUID REFERENCES purchase_order_receipts(id) ON DELETE SET NULL;
+    END IF;
+
+    -- Nonconformances
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_nonconformances' AND column_name = 'vendor_id'
+    ) THEN
+        ALTER TABLE quality_nonconformances ADD COLUMN vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_nonconformances' AND column_name = 'po_receipt_id'
+    ) THEN
+        ALTER TABLE quality_nonconformances ADD COLUMN po_receipt_id UUID REFERENCES purchase_order_receipts(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_receipts_inspection_status
+    ON purchase_order_receipts(inspection_status) WHERE inspection_status <> 'NOT_REQUIRED';
+CREATE INDEX IF NOT EXISTS idx_quality_inspection_runs_po_receipt
+    ON quality_inspection_runs(po_receipt_id) WHERE po_receipt_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_quality_nonconformances_vendor
+    ON quality_nonconformances(vendor_id) WHERE vendor_id IS NOT NULL;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS quality_supplier_cars (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scar_number TEXT NOT NULL UNIQUE, -- auto-generated: SCAR-YY-00001
+    vendor_id UUID NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+    nonconformance_id UUID REFERENCES quality_nonconformances(id) ON DELETE SET NULL,
+    po_receipt_id UUID REFERENCES purchase_order_receipts(id) ON DELETE SET NULL,
+    part_id UUID REFERENCES parts(id) ON DELETE SET NULL,
+    status scar_status NOT NULL DEFAULT 'ISSUED',
+    problem_description TEXT NOT NULL,
+    qty_rejected NUMERIC(10, 2),
+    response_due_date DATE,
+    -- Supplier response
+    containment_action TEXT,
+    root_cause TEXT,
+    corrective_action TEXT,
+    responded_at TIMESTAMPTZ,
+    -- Review
+    review_notes TEXT,
+    reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ,
+    issued_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    issued_at TIMESTAMPTZ DEFAULT NOW(),
+    closed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_supplier_cars_vendor ON quality_supplier_cars(vendor_id, status);
+CREATE INDEX IF NOT EXISTS idx_quality_supplier_cars_nc ON quality_supplier_cars(nonconformance_id) WHERE nonconformance_id IS NOT NULL;
+
+-- =====================================================
+-- AUTO-GENERATE SCAR NUMBERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_generate_scar_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_year TEXT;
+    v_seq INTEGER;
+BEGIN
+    v_year := TO_CHAR(NOW(), 'YY');
+
+    SELECT COALESCE(MAX(
+        CAST(SUBSTRING(scar_number FROM 'SCAR-' || v_year || '-(\d+)') AS INTEGER)
+    ), 0) + 1
+    INTO v_seq
+    FROM quality_supplier_cars
+    WHERE scar_number LIKE 'SCAR-' || v_year || '-%';
+
+    NEW.scar_number := 'SCAR-' || v_year || '-' || LPAD(v_seq::TEXT, 5, '0');
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_generate_scar_number ON quality_supplier_cars;
+CREATE TRIGGER trigger_generate_scar_number
+    BEFORE INSERT ON quality_supplier_cars
+    FOR EACH ROW
+    WHEN (NEW.scar_number IS NULL OR NEW.scar_number = '')
+    EXECUTE FUNCTION fn_generate_scar_number();
+
+-- =====================================================
+-- FUNCTION: Release Receipt Inspection
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_release_receipt_inspection(
+    p_receipt_id UUID,
+    p_quantity_accepted NUMERIC,
+    p_rejected_serials TEXT[] DEFAULT '{}'
+)
+RETURNS purchase_order_receipts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_receipt purchase_order_receipts;
+    v_line RECORD;
+    v_rejected NUMERIC;
+    v_all_received BOOLEAN;
+BEGIN
+    SELECT * INTO v_receipt FROM purchase_order_receipts WHERE id = p_receipt_id FOR UPDATE;
+
+    IF v_receipt.id IS NULL THEN
+        RAISE EXCEPTION 'Receipt not found';
+    END IF;
+
+    IF v_receipt.inspection_status NOT IN ('QUARANTINED', 'AWAITING_DISPOSITION') THEN
+        RAISE EXCEPTION 'Receipt is not in quarantine (status %)', v_receipt.inspection_status;
+    END IF;
+
+    IF p_quantity_accepted < 0 OR p_quantity_accepted > v_receipt.quantity_received THEN
+        RAISE EXCEPTION 'Accepted quantity must be between 0 and %', v_receipt.quantity_received;
+    END IF;
+
+    v_rejected := v_receipt.quantity_received - p_quantity_accepted;
+
+    SELECT pol.id, pol.po_id, pol.part_id, pol.linked_ticket_id, p.is_serialized
+    INTO v_line
+    FROM purchase_order_lines pol
+    JOIN parts p ON p.id = pol.part_id
+    WHERE pol.id = v_receipt.po_line_id;
+
+    -- Serialized units: rejected serials go back to the vendor, the rest into stock
+    IF v_line.is_serialized THEN
+        IF COALESCE(array_length(p_rejected_serials, 1), 0) <> v_rejected THEN
+            RAISE EXCEPTION 'List the % rejected serial number(s)', v_rejected;
+        END IF;
+
+        UPDATE serialized_parts
+        SET status = CASE WHEN serial_number = ANY(p_rejected_serials) THEN 'returned' ELSE 'in_stock' END::serialized_part_status,
+            updated_at = NOW()
+        WHERE po_line_id = v_receipt.po_line_id
+        AND status = 'quarantined'
+        AND serial_number IN (
+            SELECT serial_number FROM receipt_serial_numbers WHERE receipt_id = v_receipt.id
+        );
+    ELSIF v_line.linked_ticket_id IS NULL AND p_quantity_accepted > 0 THEN
+        -- Ticket-linked lines are staged by the receiving trigger on purchase_order_lines
+        PERFORM fn_upsert_part_inventory(v_line.part_id, v_receipt.received_at_location_id, p_quantity_accepted);
+    END IF;
+
+    UPDATE purchase_order_lines
+    SET quantity_in_inspection = GREATEST(quantity_in_inspection - v_receipt.quantity_received, 0),
+        quantity_received = COALESCE(quantity_received, 0) + p_quantity_accepted,
+        quantity_rejected = quantity_rejected + v_rejected
+    WHERE id = v_line.id;
+
+    UPDATE purchase_order_receipts
+    SET inspection_status = (CASE
+            WHEN v_rejected = 0 THEN 'ACCEPTED'
+            WHEN p_quantity_accepted = 0 THEN 'REJECTED'
+            ELSE 'PARTIALLY_ACCEPTED'
+        END)::receipt_inspection_status,
+        quantity_accepted = p_quantity_accepted,
+        quantity_rejected = v_rejected,
+        released_at = NOW()
+    WHERE id = v_receipt.id
+    RETURNING * INTO v_receipt;
+
+    SELECT NOT EXISTS (
+        SELECT 1 FROM purchase_order_lines
+        WHERE po_id = v_line.po_id
+        AND COALESCE(quantity_received, 0) < quantity_ordered
+    ) INTO v_all_received;
+
+    UPDATE purchase_orders
+    SET status = (CASE WHEN v_all_received THEN 'received' ELSE 'partial' END)::purchase_order_status
+    WHERE id = v_line.po_id;
+
+    RETURN v_receipt;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTION: Receipt Inspection Completed
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_receipt_inspection_completed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_quantity NUMERIC;
+BEGIN
+    IF NEW.po_receipt_id IS NULL OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status IN ('PASSED', 'WAIVED') THEN
+        SELECT quantity_received INTO v_quantity
+        FROM purchase_order_receipts
+        WHERE id = NEW.po_receipt_id AND inspection_status = 'QUARANTINED';
+
+        IF v_quantity IS NOT NULL THEN
+            PERFORM fn_release_receipt_inspection(NEW.po_receipt_id, v_quantity);
+        END IF;
+    ELSIF NEW.status = 'FAILED' THEN
+        UPDATE purchase_order_receipts
+        SET inspection_status = 'AWAITING_DISPOSITION'
+        WHERE id = NEW.po_receipt_id AND inspection_status = 'QUARANTINED';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Receipt inspections raise their own supplier NC once the rejected quantity is known
+CREATE OR REPLACE FUNCTION fn_auto_create_ncr_on_inspection_fail()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_plan_name TEXT;
+BEGIN
+    -- Only trigger when status changes to FAILED
+    IF NEW.status = 'FAILED' AND (OLD.status IS NULL OR OLD.status != 'FAILED') AND NEW.po_receipt_id IS NULL THEN
+        -- Get plan name for NCR title
+        SELECT name INTO v_plan_name
+        FROM quality_inspection_plans
+        WHERE id = NEW.inspection_plan_id;
+
+        -- Create NCR
+        INSERT INTO quality_nonconformances (
+            source,
+            inspection_run_id,
+            production_order_id,
+            operation_run_id,
+            serial_id,
+            severity,
+            title,
+            description,
+            reported_by
+        )
+        VALUES (
+            'INSPECTION',
+            NEW.id,
+            NEW.production_order_id,
+            NEW.operation_run_id,
+            NEW.serial_id,
+            'MAJOR', -- default severity for inspection failures
+            'Failed Inspection: ' || COALESCE(v_plan_name, 'Unknown'),
+            'Inspection failed with ' || NEW.failed_characteristics || ' characteristic(s) out of spec.',
+            NEW.inspector_id
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- VIEW: Vendor Quality Metrics
+-- =====================================================
+
+CREATE OR REPLACE VIEW vw_vendor_quality_metrics AS
+SELECT
+    po.vendor_id,
+    COUNT(*) AS lots_inspected,
+    COUNT(*) FILTER (WHERE por.inspection_status IN ('REJECTED', 'PARTIALLY_ACCEPTED')) AS lots_rejected,
+    COALESCE(SUM(por.quantity_received), 0) AS qty_inspected,
+    COALESCE(SUM(por.quantity_rejected), 0) AS qty_rejected,
+    ROUND(
+        COUNT(*) FILTER (WHERE por.inspection_status IN ('REJECTED', 'PARTIALLY_ACCEPTED'))::NUMERIC
+        / NULLIF(COUNT(*), 0) * 100, 2
+    ) AS lot_reject_rate,
+    ROUND(
+        COALESCE(SUM(por.quantity_rejected), 0) / NULLIF(SUM(por.quantity_received), 0) * 1000000
+    ) AS ppm,
+    (
+        SELECT COUNT(*) FROM quality_supplier_cars scar
+        WHERE scar.vendor_id = po.vendor_id AND scar.status NOT IN ('ACCEPTED', 'CLOSED')
+    ) AS open_scars
+FROM purchase_order_receipts por
+JOIN purchase_orders po ON po.id = por.po_id
+WHERE por.inspection_status IN ('ACCEPTED', 'PARTIALLY_ACCEPTED', 'REJECTED')
+AND por.released_at >= NOW() - INTERVAL '12 months'
+GROUP BY po.vendor_id;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_receipt_inspection_completed ON quality_inspection_runs;
+CREATE TRIGGER trigger_receipt_inspection_completed
+    AFTER UPDATE OF status ON quality_inspection_runs
+    FOR EACH ROW EXECUTE FUNCTION fn_receipt_inspection_completed();
+
+DROP TRIGGER IF EXISTS trigger_quality_supplier_cars_updated_at ON quality_supplier_cars;
+CREATE TRIGGER trigger_quality_supplier_cars_updated_at
+    BEFORE UPDATE ON quality_supplier_cars FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_supplier_cars ON quality_supplier_cars;
+CREATE TRIGGER trigger_mes_audit_quality_supplier_cars
+    AFTER INSERT OR UPDATE OR DELETE ON quality_supplier_cars
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE quality_supplier_cars ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view quality_supplier_cars"
+    ON quality_supplier_cars FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage quality_supplier_cars"
+    ON quality_supplier_cars FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON quality_supplier_cars TO authenticated;
+GRANT SELECT ON vw_vendor_quality_metrics TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_release_receipt_inspection TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE quality_supplier_cars IS 'Supplier corrective action requests raised from rejected receipts';
+COMMENT ON COLUMN purchase_order_receipts.inspection_status IS 'Incoming inspection state; QUARANTINED and AWAITING_DISPOSITION quantities are not in stock';
+COMMENT ON COLUMN purchase_order_lines.quantity_in_inspection IS 'Received quantity held in incoming inspection quarantine';
+COMMENT ON COLUMN purchase_order_lines.quantity_rejected IS 'Quantity rejected at incoming inspection and returned to the vendor';
+COMMENT ON COLUMN quality_inspection_runs.po_receipt_id IS 'PO receipt inspected by this incoming inspection run';
+COMMENT ON FUNCTION fn_release_receipt_inspection IS 'Releases a quarantined receipt: accepted quantity into stock, rejected quantity back to the vendor';
+COMMENT ON VIEW vw_vendor_quality_metrics IS 'Trailing 12-month incoming inspection PPM, lot reject rate and open SCARs per vendor';
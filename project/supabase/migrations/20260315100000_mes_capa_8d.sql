@@ -0,0 +1,493 @@
+/*
+  # MES 8D Corrective Action Workflow
+
+  ## Overview
+  CAPAs now follow the eight disciplines (8D). Each CAPA records the
+  discipline it is on (D1 team through D8 closure); the capa_status enum is
+  kept and moves with it: OPEN at D1, IN_PROGRESS from D2, VERIFIED once the
+  corrective actions are verified effective, CLOSED at D8.
+
+  One CAPA can cover several nonconformances and customer complaints through
+  quality_capa_links. The original quality_capa.nonconformance_id stays as
+  the originating NC and is backfilled into the link table.
+
+  Containment, corrective and preventive actions are individual rows with an
+  owner and due date. fn_escalate_overdue_capas raises the escalation level
+  of CAPAs whose due date or oldest open action is past due and notifies the
+  owner (level 1) and then quality management (level 2).
+
+  ## New Types
+  - capa_team_role: CHAMPION, LEADER, MEMBER
+  - capa_action_type: CONTAINMENT, CORRECTIVE, PREVENTIVE
+  - capa_action_status: OPEN, COMPLETED, CANCELLED
+  - complaint_status: OPEN, INVESTIGATING, RESOLVED, CLOSED
+
+  ## New Tables
+  - quality_customer_complaints: Customer complaints (CC-YY-00001)
+  - quality_capa_team_members: D1 team
+  - quality_capa_actions: Containment, corrective and preventive actions
+  - quality_capa_links: NCs and complaints covered by a CAPA
+
+  ## Modified Tables
+  - quality_capa: + title, discipline, problem statement, 5-Why, fishbone,
+    effectiveness verification, lessons learned, due date and escalation
+
+  ## New Functions
+  - fn_escalate_overdue_capas: Escalates overdue CAPAs and notifies owners
+*/
+
+-- =====================================================
+-- ENUM TYPES
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE capa_team_role AS ENUM ('CHAMPION', 'LEADER', 'MEMBER');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE capa_action_type AS ENUM ('CONTAINMENT', 'CORRECTIVE', 'PREVENTIVE');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE capa_action_status AS ENUM ('OPEN', 'COMPLETED', 'CANCELLED');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE complaint_status AS ENUM ('OPEN', 'INVESTIGATING', 'RESOLVED', 'CLOSED');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+-- =====================================================
+-- COLUMNS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_capa' AND column_name = 'title'
+    ) THEN
+        ALTER TABLE quality_capa ADD COLUMN title TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_capa' AND column_name = 'discipline'
+    ) THEN
+        ALTER TABLE quality_capa ADD COLUMN discipline SMALLINT NOT NULL DEFAULT 1
+            CHECK (discipline BETWEEN 1 AND 8);
+    END IF;
+
+    -- D2: Problem description (is / is not)
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_capa' AND column_name = 'problem_statement'
+    ) THEN
+        ALTER TABLE quality_capa ADD COLUMN problem_statement TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_capa' AND column_name = 'problem_is_not'
+    ) THEN
+        ALTER TABLE quality_capa ADD COLUMN problem_is_not TEXT;
+    END IF;
+
+    -- D4: Root cause tools
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_capa' AND column_name = 'five_whys'
+    ) THEN
+        ALTER TABLE quality_capa ADD COLUMN five_whys JSONB NOT NULL DEFAULT '[]'::jsonb;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_capa' AND column_name = 'fishbone'
+    ) THEN
+        ALTER TABLE quality_capa ADD COLUMN fishbone JSONB NOT NULL DEFAULT '{}'::jsonb;
+    END IF;
+
+    -- D6: Effectiveness verification
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_capa' AND column_name = 'effectiveness_criteria'
+    ) THEN
+        ALTER TABLE quality_capa ADD COLUMN effectiveness_criteria TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_capa' AND column_name = 'is_effective'
+    ) THEN
+        ALTER TABLE quality_capa ADD COLUMN is_effective BOOLEAN;
+    END IF;
+
+    -- D8: Closure
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_capa' AND column_name = 'lessons_learned'
+    ) THEN
+        ALTER TABLE quality_capa ADD COLUMN lessons_learned TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_capa' AND column_name = 'closed_by'
+    ) THEN
+        ALTER TABLE quality_capa ADD COLUMN closed_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_capa' AND column_name = 'closed_at'
+    ) THEN
+        ALTER TABLE quality_capa ADD COLUMN closed_at TIMESTAMPTZ;
+    END IF;
+
+    -- Escalation
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_capa' AND column_name = 'due_date'
+    ) THEN
+        ALTER TABLE quality_capa ADD COLUMN due_date DATE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_capa' AND column_name = 'escalation_level'
+    ) THEN
+        ALTER TABLE quality_capa ADD COLUMN escalation_level SMALLINT NOT NULL DEFAULT 0;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_capa' AND column_name = 'escalated_at'
+    ) THEN
+        ALTER TABLE quality_capa ADD COLUMN escalated_at TIMESTAMPTZ;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_quality_capa_due_date
+    ON quality_capa(due_date) WHERE status IN ('OPEN', 'IN_PROGRESS');
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Customer complaints
+CREATE TABLE IF NOT EXISTS quality_customer_complaints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    complaint_number TEXT NOT NULL UNIQUE, -- auto-generated: CC-YY-00001
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    ticket_id UUID REFERENCES tickets(id) ON DELETE SET NULL,
+    part_id UUID REFERENCES parts(id) ON DELETE SET NULL,
+    serial_number TEXT,
+    severity nc_severity NOT NULL DEFAULT 'MAJOR',
+    status complaint_status NOT NULL DEFAULT 'OPEN',
+    title TEXT NOT NULL,
+    description TEXT,
+    qty_affected NUMERIC(10, 2),
+    received_at DATE NOT NULL DEFAULT CURRENT_DATE,
+    reported_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    resolution TEXT,
+    closed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_customer_complaints_customer ON quality_customer_complaints(customer_id);
+CREATE INDEX IF NOT EXISTS idx_quality_customer_complaints_status ON quality_customer_complaints(status);
+
+-- D1: Team
+CREATE TABLE IF NOT EXISTS quality_capa_team_members (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    capa_id UUID NOT NULL REFERENCES quality_capa(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    team_role capa_team_role NOT NULL DEFAULT 'MEMBER',
+    responsibility TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (capa_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_capa_team_members_user ON quality_capa_team_members(user_id);
+
+-- D3/D5/D7: Actions
+CREATE TABLE IF NOT EXISTS quality_capa_actions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    capa_id UUID NOT NULL REFERENCES quality_capa(id) ON DELETE CASCADE,
+    action_type capa_action_type NOT NULL,
+    description TEXT NOT NULL,
+    owner_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    due_date DATE,
+    status capa_action_status NOT NULL DEFAULT 'OPEN',
+    completed_at TIMESTAMPTZ,
+    completed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    completion_notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_capa_actions_capa ON quality_capa_actions(capa_id, action_type);
+CREATE INDEX IF NOT EXISTS idx_quality_capa_actions_owner
+    ON quality_capa_actions(owner_id, due_date) WHERE status = 'OPEN';
+
+-- Nonconformances and complaints covered by a CAPA
+CREATE TABLE IF NOT EXISTS quality_capa_links (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    capa_id UUID NOT NULL REFERENCES quality_capa(id) ON DELETE CASCADE,
+    nonconformance_id UUID REFERENCES quality_nonconformances(id) ON DELETE CASCADE,
+    complaint_id UUID REFERENCES quality_customer_complaints(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (num_nonnulls(nonconformance_id, complaint_id) = 1)
+);
+
+-- An NC or complaint is addressed by at most one CAPA
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quality_capa_links_nc
+    ON quality_capa_links(nonconformance_id) WHERE nonconformance_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quality_capa_links_complaint
+    ON quality_capa_links(complaint_id) WHERE complaint_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_quality_capa_links_capa ON quality_capa_links(capa_id);
+
+-- =====================================================
+-- BACKFILL
+-- =====================================================
+
+INSERT INTO quality_capa_links (capa_id, nonconformance_id)
+SELECT c.id, c.nonconformance_id
+FROM quality_capa c
+WHERE c.nonconformance_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+UPDATE quality_capa c
+SET title = COALESCE(nc.title, c.capa_number),
+    due_date = COALESCE(c.due_date, GREATEST(c.corrective_due_date, c.preventive_due_date))
+FROM quality_nonconformances nc
+WHERE nc.id = c.nonconformance_id
+AND c.title IS NULL;
+
+UPDATE quality_capa
+SET title = capa_number
+WHERE title IS NULL;
+
+UPDATE quality_capa
+SET discipline = CASE status
+        WHEN 'CLOSED' THEN 8
+        WHEN 'VERIFIED' THEN 7
+        WHEN 'IN_PROGRESS' THEN 4
+        ELSE 1
+    END
+WHERE discipline = 1;
+
+-- =====================================================
+-- AUTO-GENERATE COMPLAINT NUMBERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_generate_complaint_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_year TEXT;
+    v_seq INTEGER;
+BEGIN
+    v_year := TO_CHAR(NOW(), 'YY');
+
+    SELECT COALESCE(MAX(
+        CAST(SUBSTRING(complaint_number FROM 'CC-' || v_year || '-(\d+)') AS INTEGER)
+    ), 0) + 1
+    INTO v_seq
+    FROM quality_customer_complaints
+    WHERE complaint_number LIKE 'CC-' || v_year || '-%';
+
+    NEW.complaint_number := 'CC-' || v_year || '-' || LPAD(v_seq::TEXT, 5, '0');
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_generate_complaint_number ON quality_customer_complaints;
+CREATE TRIGGER trigger_generate_complaint_number
+    BEFORE INSERT ON quality_customer_complaints
+    FOR EACH ROW
+    WHEN (NEW.complaint_number IS NULL OR NEW.complaint_number = '')
+    EXECUTE FUNCTION fn_generate_complaint_number();
+
+-- =====================================================
+-- FUNCTION: Escalate Overdue CAPAs
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_escalate_overdue_capas(
+    p_management_after_days INTEGER DEFAULT 14
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_capa RECORD;
+    v_level SMALLINT;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_capa IN
+        SELECT
+            c.id,
+            c.capa_number,
+            c.title,
+            c.owner_id,
+            c.escalation_level,
+            CURRENT_DATE - LEAST(
+                c.due_date,
+                (
+                    SELECT MIN(a.due_date) FROM quality_capa_actions a
+                    WHERE a.capa_id = c.id AND a.status = 'OPEN'
+                )
+            ) AS days_overdue
+        FROM quality_capa c
+        WHERE c.status IN ('OPEN', 'IN_PROGRESS')
+        FOR UPDATE OF c
+    LOOP
+        IF v_capa.days_overdue IS NULL OR v_capa.days_overdue <= 0 THEN
+            CONTINUE;
+        END IF;
+
+        v_level := CASE WHEN v_capa.days_overdue > p_management_after_days THEN 2 ELSE 1 END;
+        IF v_level <= v_capa.escalation_level THEN
+            CONTINUE;
+        END IF;
+
+        UPDATE quality_capa
+        SET escalation_level = v_level,
+            escalated_at = NOW()
+        WHERE id = v_capa.id;
+
+        -- Level 1: CAPA owner and owners of overdue actions
+        INSERT INTO notifications (user_id, notification_type, title, message, metadata)
+        SELECT DISTINCT
+            u.user_id,
+            'capa_overdue',
+            v_capa.capa_number || ' is overdue',
+            COALESCE(v_capa.title, v_capa.capa_number) || ' is ' || v_capa.days_overdue || ' day(s) past due',
+            jsonb_build_object('capa_id', v_capa.id, 'escalation_level', v_level)
+        FROM (
+            SELECT v_capa.owner_id AS user_id
+            UNION
+            SELECT a.owner_id FROM quality_capa_actions a
+            WHERE a.capa_id = v_capa.id AND a.status = 'OPEN' AND a.due_date < CURRENT_DATE
+        ) u
+        WHERE u.user_id IS NOT NULL;
+
+        -- Level 2: Quality management
+        IF v_level = 2 THEN
+            INSERT INTO notifications (user_id, notification_type, title, message, metadata)
+            SELECT
+                p.id,
+                'capa_escalated',
+                v_capa.capa_number || ' escalated',
+                COALESCE(v_capa.title, v_capa.capa_number) || ' is ' || v_capa.days_overdue
+                    || ' day(s) past due and has been escalated to management',
+                jsonb_build_object('capa_id', v_capa.id, 'escalation_level', v_level)
+            FROM profiles p
+            WHERE p.is_active = TRUE
+            AND p.role IN ('admin', 'supervisor')
+            AND p.id IS DISTINCT FROM v_capa.owner_id;
+        END IF;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_quality_customer_complaints_updated_at ON quality_customer_complaints;
+CREATE TRIGGER trigger_quality_customer_complaints_updated_at
+    BEFORE UPDATE ON quality_customer_complaints FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_quality_capa_actions_updated_at ON quality_capa_actions;
+CREATE TRIGGER trigger_quality_capa_actions_updated_at
+    BEFORE UPDATE ON quality_capa_actions FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_customer_complaints ON quality_customer_complaints;
+CREATE TRIGGER trigger_mes_audit_quality_customer_complaints
+    AFTER INSERT OR UPDATE OR DELETE ON quality_customer_complaints
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_capa_actions ON quality_capa_actions;
+CREATE TRIGGER trigger_mes_audit_quality_capa_actions
+    AFTER INSERT OR UPDATE OR DELETE ON quality_capa_actions
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE quality_customer_complaints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quality_capa_team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quality_capa_actions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quality_capa_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view quality_customer_complaints"
+    ON quality_customer_complaints FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage quality_customer_complaints"
+    ON quality_customer_complaints FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+CREATE POLICY "Authenticated users can view quality_capa_team_members"
+    ON quality_capa_team_members FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage quality_capa_team_members"
+    ON quality_capa_team_members FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+CREATE POLICY "Authenticated users can view quality_capa_actions"
+    ON quality_capa_actions FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage quality_capa_actions"
+    ON quality_capa_actions FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+-- Action owners complete their own actions
+CREATE POLICY "Action owners can update quality_capa_actions"
+    ON quality_capa_actions FOR UPDATE TO authenticated
+    USING (owner_id = auth.uid())
+    WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Authenticated users can view quality_capa_links"
+    ON quality_capa_links FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage quality_capa_links"
+    ON quality_capa_links FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON quality_customer_complaints TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON quality_capa_team_members TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON quality_capa_actions TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON quality_capa_links TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_escalate_overdue_capas TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE quality_customer_complaints IS 'Customer complaints that can be addressed by a CAPA';
+COMMENT ON TABLE quality_capa_team_members IS '8D D1 team for a CAPA';
+COMMENT ON TABLE quality_capa_actions IS '8D containment (D3), corrective (D5/D6) and preventive (D7) actions with owners and due dates';
+COMMENT ON TABLE quality_capa_links IS 'Nonconformances and customer complaints addressed by a CAPA';
+COMMENT ON COLUMN quality_capa.discipline IS 'Current 8D discipline, 1 (team) through 8 (closure)';
+COMMENT ON COLUMN quality_capa.five_whys IS 'D4 5-Why chain: [{why, because}]';
+COMMENT ON COLUMN quality_capa.fishbone IS 'D4 fishbone causes keyed by category (man, machine, method, material, measurement, environment)';
+COMMENT ON COLUMN quality_capa.escalation_level IS '0 = on time, 1 = owner notified of overdue, 2 = escalated to management';
+COMMENT ON FUNCTION fn_escalate_overdue_capas IS 'Raises escalation on overdue CAPAs and notifies owners, then management after p_management_after_days';
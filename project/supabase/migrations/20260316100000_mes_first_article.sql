@@ -0,0 +1,555 @@
+/*
+  # MES First Article Inspection (AS9102-style)
+
+  ## Overview
+  Inspection plans can now be flagged as requiring a first article. When a
+  production order for a product covered by a flagged plan starts its first
+  step, a first article inspection (FAI) is raised if the product has never
+  passed one, has no passed FAI for the order's revision, or the order's
+  routing differs from every routing a passed FAI was run against.
+
+  The FAI follows the AS9102 forms:
+  - Form 1 (part accountability): the quality_first_articles header
+  - Form 2 (product accountability): materials, special processes and
+    functional tests with their certificates
+  - Form 3 (characteristic accountability): every ballooned characteristic,
+    seeded from the flagged plans and inspected at 100%
+
+  The FAI passes once every characteristic conforms and it carries the
+  inspector and quality signatures (plus the customer's when required).
+  Until then no step of the order can be completed or skipped. Later orders
+  for the same product, revision and routing are gated by the open FAI
+  instead of raising their own.
+
+  ## New Types
+  - fai_status: OPEN, SUBMITTED, PASSED, FAILED
+  - fai_reason: NEW_PART, NEW_REVISION, ROUTING_CHANGE
+  - fai_item_type: MATERIAL, SPECIAL_PROCESS, FUNCTIONAL_TEST
+  - fai_signature_role: INSPECTOR, QUALITY, CUSTOMER
+
+  ## New Tables
+  - quality_first_articles: FAI header (form 1)
+  - quality_fai_product_items: Product accountability (form 2)
+  - quality_fai_characteristics: Ballooned characteristics and results (form 3)
+  - quality_fai_signatures: Approval signatures
+
+  ## Modified Tables
+  - quality_inspection_plans: + first_article_required
+
+  ## New Functions
+  - fn_order_routing_signature: Hash of an order's steps and work centers
+  - fn_require_first_article: Returns the FAI gating an order, raising one when required
+  - fn_guard_first_article_steps: Blocks step completion until the FAI passes
+  - fn_check_first_article_status: Only lets a fully signed, conforming FAI pass
+*/
+
+-- =====================================================
+-- ENUM TYPES
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE fai_status AS ENUM ('OPEN', 'SUBMITTED', 'PASSED', 'FAILED');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE fai_reason AS ENUM ('NEW_PART', 'NEW_REVISION', 'ROUTING_CHANGE');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE fai_item_type AS ENUM ('MATERIAL', 'SPECIAL_PROCESS', 'FUNCTIONAL_TEST');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE fai_signature_role AS ENUM ('INSPECTOR', 'QUALITY', 'CUSTOMER');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+-- =====================================================
+-- COLUMNS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_inspection_plans' AND column_name = 'first_article_required'
+    ) THEN
+        ALTER TABLE quality_inspection_plans ADD COLUMN first_article_required BOOLEAN NOT NULL DEFAULT FALSE;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_quality_inspection_plans_fai
+    ON quality_inspection_plans(product_id) WHERE first_article_required;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- FAI header (form 1: part accountability)
+CREATE TABLE IF NOT EXISTS quality_first_articles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    fai_number TEXT NOT NULL UNIQUE,
+    production_order_id UUID REFERENCES production_orders(id) ON DELETE SET NULL,
+    part_id UUID NOT NULL REFERENCES parts(id) ON DELETE RESTRICT,
+    product_revision_id UUID REFERENCES product_revisions(id) ON DELETE SET NULL,
+    routing_signature TEXT,
+    reason fai_reason NOT NULL,
+    -- Form 1 fields
+    serial_number TEXT,
+    drawing_number TEXT,
+    drawing_revision TEXT,
+    -- Status
+    status fai_status NOT NULL DEFAULT 'OPEN',
+    customer_approval_required BOOLEAN NOT NULL DEFAULT FALSE,
+    nonconformance_id UUID REFERENCES quality_nonconformances(id) ON DELETE SET NULL,
+    submitted_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    submitted_at TIMESTAMPTZ,
+    approved_at TIMESTAMPTZ,
+    notes TEXT,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_first_articles_order ON quality_first_articles(production_order_id);
+CREATE INDEX IF NOT EXISTS idx_quality_first_articles_part ON quality_first_articles(part_id, product_revision_id, status);
+CREATE INDEX IF NOT EXISTS idx_quality_first_articles_status ON quality_first_articles(status);
+
+-- Form 2: product accountability
+CREATE TABLE IF NOT EXISTS quality_fai_product_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    first_article_id UUID NOT NULL REFERENCES quality_first_articles(id) ON DELETE CASCADE,
+    item_type fai_item_type NOT NULL DEFAULT 'MATERIAL',
+    name TEXT NOT NULL,
+    specification TEXT,
+    supplier TEXT,
+    certificate_number TEXT,
+    is_conforming BOOLEAN, -- NULL = not yet reviewed
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_fai_product_items_fai ON quality_fai_product_items(first_article_id);
+
+-- Form 3: characteristic accountability
+CREATE TABLE IF NOT EXISTS quality_fai_characteristics (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    first_article_id UUID NOT NULL REFERENCES quality_first_articles(id) ON DELETE CASCADE,
+    balloon_number INTEGER NOT NULL CHECK (balloon_number > 0),
+    characteristic_id UUID REFERENCES quality_characteristics(id) ON DELETE SET NULL,
+    characteristic TEXT NOT NULL,
+    drawing_zone TEXT,
+    requirement TEXT,
+    char_type characteristic_type NOT NULL DEFAULT 'VARIABLE',
+    target_value NUMERIC(15, 6),
+    lsl NUMERIC(15, 6),
+    usl NUMERIC(15, 6),
+    uom TEXT,
+    -- Result
+    actual_value NUMERIC(15, 6),
+    actual_text TEXT,
+    is_conforming BOOLEAN, -- NULL = not yet inspected
+    gauge_id UUID REFERENCES quality_gauges(id) ON DELETE RESTRICT,
+    measured_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    measured_at TIMESTAMPTZ,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(first_article_id, balloon_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_fai_characteristics_fai ON quality_fai_characteristics(first_article_id, balloon_number);
+
+CREATE TABLE IF NOT EXISTS quality_fai_signatures (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    first_article_id UUID NOT NULL REFERENCES quality_first_articles(id) ON DELETE CASCADE,
+    signature_role fai_signature_role NOT NULL,
+    signed_by UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+    signer_name TEXT, -- Customer representative when signed on their behalf
+    approved BOOLEAN NOT NULL DEFAULT TRUE,
+    comments TEXT,
+    signed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(first_article_id, signature_role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_fai_signatures_fai ON quality_fai_signatures(first_article_id);
+
+-- =====================================================
+-- FUNCTION: FAI Number Generator
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_generate_fai_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_year TEXT;
+    v_seq INTEGER;
+BEGIN
+    v_year := TO_CHAR(NOW(), 'YY');
+
+    SELECT COALESCE(MAX(
+        CAST(SUBSTRING(fai_number FROM 'FAI-' || v_year || '-(\d+)') AS INTEGER)
+    ), 0) + 1
+    INTO v_seq
+    FROM quality_first_articles
+    WHERE fai_number LIKE 'FAI-' || v_year || '-%';
+
+    NEW.fai_number := 'FAI-' || v_year || '-' || LPAD(v_seq::TEXT, 5, '0');
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_generate_fai_number ON quality_first_articles;
+CREATE TRIGGER trigger_generate_fai_number
+    BEFORE INSERT ON quality_first_articles
+    FOR EACH ROW
+    WHEN (NEW.fai_number IS NULL OR NEW.fai_number = '')
+    EXECUTE FUNCTION fn_generate_fai_number();
+
+-- =====================================================
+-- FUNCTION: Routing Signature
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_order_routing_signature(p_production_order_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT md5(COALESCE(
+        string_agg(lower(trim(name)) || ':' || COALESCE(work_center_id::TEXT, ''), '|' ORDER BY step_number),
+        ''
+    ))
+    FROM production_steps
+    WHERE production_order_id = p_production_order_id;
+$$;
+
+-- =====================================================
+-- FUNCTION: Require First Article
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_require_first_article(p_production_order_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order RECORD;
+    v_signature TEXT;
+    v_reason fai_reason;
+    v_fai_id UUID;
+BEGIN
+    -- An FAI already raised for this order keeps gating it
+    SELECT id INTO v_fai_id
+    FROM quality_first_articles
+    WHERE production_order_id = p_production_order_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_fai_id IS NOT NULL THEN
+        RETURN v_fai_id;
+    END IF;
+
+    SELECT po.id, po.product_id, po.product_revision_id, po.customer_id, p.part_number, pr.revision_code
+    INTO v_order
+    FROM production_orders po
+    LEFT JOIN parts p ON p.id = po.product_id
+    LEFT JOIN product_revisions pr ON pr.id = po.product_revision_id
+    WHERE po.id = p_production_order_id;
+
+    IF v_order.id IS NULL OR v_order.product_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM quality_inspection_plans
+        WHERE first_article_required
+        AND is_active
+        AND COALESCE(product_id, part_id) = v_order.product_id
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    v_signature := fn_order_routing_signature(p_production_order_id);
+
+    -- Already proven for this product, revision and routing
+    IF EXISTS (
+        SELECT 1 FROM quality_first_articles
+        WHERE part_id = v_order.product_id
+        AND product_revision_id IS NOT DISTINCT FROM v_order.product_revision_id
+        AND routing_signature = v_signature
+        AND status = 'PASSED'
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    -- An earlier order's FAI for the same configuration gates this order too
+    SELECT id INTO v_fai_id
+    FROM quality_first_articles
+    WHERE part_id = v_order.product_id
+    AND product_revision_id IS NOT DISTINCT FROM v_order.product_revision_id
+    AND routing_signature = v_signature
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_fai_id IS NOT NULL THEN
+        RETURN v_fai_id;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM quality_first_articles
+        WHERE part_id = v_order.product_id AND status = 'PASSED'
+    ) THEN
+        v_reason := 'NEW_PART';
+    ELSIF NOT EXISTS (
+        SELECT 1 FROM quality_first_articles
+        WHERE part_id = v_order.product_id
+        AND product_revision_id IS NOT DISTINCT FROM v_order.product_revision_id
+        AND status = 'PASSED'
+    ) THEN
+        v_reason := 'NEW_REVISION';
+    ELSE
+        v_reason := 'ROUTING_CHANGE';
+    END IF;
+
+    INSERT INTO quality_first_articles (
+        production_order_id, part_id, product_revision_id, routing_signature, reason,
+        drawing_number, drawing_revision, created_by
+    ) VALUES (
+        p_production_order_id, v_order.product_id, v_order.product_revision_id, v_signature, v_reason,
+        v_order.part_number, v_order.revision_code, auth.uid()
+    )
+    RETURNING id INTO v_fai_id;
+
+    -- Form 3: balloon every active characteristic of the flagged plans
+    INSERT INTO quality_fai_characteristics (
+        first_article_id, balloon_number, characteristic_id, characteristic, requirement,
+        char_type, target_value, lsl, usl, uom, gauge_id
+    )
+    SELECT
+        v_fai_id,
+        ROW_NUMBER() OVER (ORDER BY qp.created_at, qc.sequence, qc.created_at),
+        qc.id,
+        qc.name,
+        qc.description,
+        qc.char_type,
+        qc.target_value,
+        qc.lsl,
+        qc.usl,
+        qc.uom,
+        CASE WHEN fn_gauge_is_usable(qc.gage_id) THEN qc.gage_id END
+    FROM quality_characteristics qc
+    JOIN quality_inspection_plans qp ON qp.id = qc.inspection_plan_id
+    WHERE qp.first_article_required
+    AND qp.is_active
+    AND COALESCE(qp.product_id, qp.part_id) = v_order.product_id
+    AND qc.is_active;
+
+    -- Form 2: the order's materials need their certificates reviewed
+    INSERT INTO quality_fai_product_items (first_article_id, item_type, name, specification)
+    SELECT v_fai_id, 'MATERIAL', p.name, p.part_number
+    FROM bill_of_materials bom
+    JOIN parts p ON p.id = bom.part_id
+    WHERE bom.production_order_id = p_production_order_id
+    ORDER BY p.part_number;
+
+    RETURN v_fai_id;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTION: Step Completion Guard
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_guard_first_article_steps()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_fai RECORD;
+BEGIN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status
+       OR NEW.status NOT IN ('in_progress', 'complete', 'skipped') THEN
+        RETURN NEW;
+    END IF;
+
+    -- Starting work raises the FAI; completing work requires it to have passed
+    SELECT fai_number, status INTO v_fai
+    FROM quality_first_articles
+    WHERE id = fn_require_first_article(NEW.production_order_id);
+
+    IF NEW.status IN ('complete', 'skipped') AND v_fai.fai_number IS NOT NULL AND v_fai.status <> 'PASSED' THEN
+        RAISE EXCEPTION 'First article inspection % is %; steps cannot be completed until it passes', v_fai.fai_number, v_fai.status;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTION: FAI Pass Check
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_check_first_article_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.status <> 'PASSED' OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM quality_fai_characteristics WHERE first_article_id = NEW.id) THEN
+        RAISE EXCEPTION 'First article % has no characteristics', NEW.fai_number;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM quality_fai_characteristics
+        WHERE first_article_id = NEW.id AND is_conforming IS NOT TRUE
+    ) THEN
+        RAISE EXCEPTION 'Every characteristic of first article % must be inspected and conforming', NEW.fai_number;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM quality_fai_product_items
+        WHERE first_article_id = NEW.id AND is_conforming IS NOT TRUE
+    ) THEN
+        RAISE EXCEPTION 'Every product accountability item of first article % must be reviewed and conforming', NEW.fai_number;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM quality_fai_signatures
+        WHERE first_article_id = NEW.id AND signature_role = 'INSPECTOR' AND approved
+    ) OR NOT EXISTS (
+        SELECT 1 FROM quality_fai_signatures
+        WHERE first_article_id = NEW.id AND signature_role = 'QUALITY' AND approved
+    ) OR (NEW.customer_approval_required AND NOT EXISTS (
+        SELECT 1 FROM quality_fai_signatures
+        WHERE first_article_id = NEW.id AND signature_role = 'CUSTOMER' AND approved
+    )) THEN
+        RAISE EXCEPTION 'First article % is missing a required approval signature', NEW.fai_number;
+    END IF;
+
+    NEW.approved_at := NOW();
+    RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_guard_first_article_steps ON production_steps;
+CREATE TRIGGER trigger_guard_first_article_steps
+    BEFORE UPDATE OF status ON production_steps
+    FOR EACH ROW EXECUTE FUNCTION fn_guard_first_article_steps();
+
+DROP TRIGGER IF EXISTS trigger_check_first_article_status ON quality_first_articles;
+CREATE TRIGGER trigger_check_first_article_status
+    BEFORE UPDATE OF status ON quality_first_articles
+    FOR EACH ROW EXECUTE FUNCTION fn_check_first_article_status();
+
+DROP TRIGGER IF EXISTS trigger_check_fai_characteristic_gauge ON quality_fai_characteristics;
+CREATE TRIGGER trigger_check_fai_characteristic_gauge
+    BEFORE INSERT OR UPDATE OF gauge_id ON quality_fai_characteristics
+    FOR EACH ROW EXECUTE FUNCTION fn_check_measurement_gauge();
+
+DROP TRIGGER IF EXISTS trigger_quality_first_articles_updated_at ON quality_first_articles;
+CREATE TRIGGER trigger_quality_first_articles_updated_at
+    BEFORE UPDATE ON quality_first_articles FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_quality_fai_product_items_updated_at ON quality_fai_product_items;
+CREATE TRIGGER trigger_quality_fai_product_items_updated_at
+    BEFORE UPDATE ON quality_fai_product_items FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_quality_fai_characteristics_updated_at ON quality_fai_characteristics;
+CREATE TRIGGER trigger_quality_fai_characteristics_updated_at
+    BEFORE UPDATE ON quality_fai_characteristics FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_first_articles ON quality_first_articles;
+CREATE TRIGGER trigger_mes_audit_quality_first_articles
+    AFTER INSERT OR UPDATE OR DELETE ON quality_first_articles
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_fai_characteristics ON quality_fai_characteristics;
+CREATE TRIGGER trigger_mes_audit_quality_fai_characteristics
+    AFTER INSERT OR UPDATE OR DELETE ON quality_fai_characteristics
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_fai_signatures ON quality_fai_signatures;
+CREATE TRIGGER trigger_mes_audit_quality_fai_signatures
+    AFTER INSERT OR UPDATE OR DELETE ON quality_fai_signatures
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE quality_first_articles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quality_fai_product_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quality_fai_characteristics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quality_fai_signatures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view quality_first_articles"
+    ON quality_first_articles FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Authorized users can manage quality_first_articles"
+    ON quality_first_articles FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'dispatcher', 'supervisor', 'operator', 'technician')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'dispatcher', 'supervisor', 'operator', 'technician')));
+
+CREATE POLICY "Authenticated users can view quality_fai_product_items"
+    ON quality_fai_product_items FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Authorized users can manage quality_fai_product_items"
+    ON quality_fai_product_items FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'dispatcher', 'supervisor', 'operator', 'technician')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'dispatcher', 'supervisor', 'operator', 'technician')));
+
+CREATE POLICY "Authenticated users can view quality_fai_characteristics"
+    ON quality_fai_characteristics FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Authorized users can manage quality_fai_characteristics"
+    ON quality_fai_characteristics FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'dispatcher', 'supervisor', 'operator', 'technician')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'dispatcher', 'supervisor', 'operator', 'technician')));
+
+CREATE POLICY "Authenticated users can view quality_fai_signatures"
+    ON quality_fai_signatures FOR SELECT TO authenticated USING (true);
+
+-- Inspectors sign for themselves; quality and customer approvals are reserved for supervisors
+CREATE POLICY "Inspectors can sign quality_fai_signatures"
+    ON quality_fai_signatures FOR INSERT TO authenticated
+    WITH CHECK (
+        signed_by = auth.uid()
+        AND signature_role = 'INSPECTOR'
+        AND EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'dispatcher', 'supervisor', 'operator', 'technician'))
+    );
+
+CREATE POLICY "Admin and supervisors can manage quality_fai_signatures"
+    ON quality_fai_signatures FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON quality_first_articles TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON quality_fai_product_items TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON quality_fai_characteristics TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON quality_fai_signatures TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_require_first_article TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE quality_first_articles IS 'First article inspections (AS9102 form 1: part accountability)';
+COMMENT ON TABLE quality_fai_product_items IS 'FAI product accountability: materials, special processes, functional tests (form 2)';
+COMMENT ON TABLE quality_fai_characteristics IS 'FAI ballooned characteristics and results (form 3)';
+COMMENT ON TABLE quality_fai_signatures IS 'FAI inspector, quality and customer approval signatures';
+COMMENT ON COLUMN quality_inspection_plans.first_article_required IS 'Raise a first article inspection for new parts, revisions and routing changes of the plan product';
+COMMENT ON COLUMN quality_first_articles.routing_signature IS 'Hash of the order steps (name and work center) the FAI was run against';
+COMMENT ON FUNCTION fn_require_first_article IS 'Return the FAI gating a production order, raising one when the product, revision or routing is unproven';
+COMMENT ON FUNCTION fn_order_routing_signature IS 'Hash of a production order''s steps and work centers in sequence';
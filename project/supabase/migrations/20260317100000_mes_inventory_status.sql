@@ -0,0 +1,602 @@
+/*
+  # MES Inventory Status (Quality Hold and Quarantine)
+
+  ## Overview
+  Stock in part_inventory was always fully available, even while a
+  nonconformance against it was open or awaiting disposition. Stock now
+  carries a status per location and lot: available, quarantine, hold or
+  rejected.
+
+  part_inventory keeps the physical on-hand quantity. Quantity that is not
+  available is recorded as active rows in inventory_status_holds, and the
+  available quantity is on-hand minus active holds. A guard on part_inventory
+  stops consumption, installation, transfers and adjustments from drawing
+  stock down into held quantity, so every inventory path (fn_consume_material,
+  inventory_movements, InventoryService) respects holds without changes.
+
+  - Raising a nonconformance against a part at a stock location places a
+    hold on the affected quantity automatically. A nonconformance against a
+    serialized unit quarantines the unit itself.
+  - A SCRAP or RETURN_TO_VENDOR disposition marks the held stock rejected
+    while it awaits approval.
+  - Approving the disposition releases (USE_AS_IS), scraps or returns
+    (SCRAP, RETURN_TO_VENDOR) the held stock, or moves it to a rework/sort
+    location where it stays quarantined until the disposition is executed
+    (REWORK, SORT_100).
+
+  Receipts held in incoming inspection (purchase_order_lines.quantity_in_inspection)
+  never reach part_inventory, so nonconformances raised against a PO receipt
+  do not place stock holds.
+
+  ## New Types
+  - inventory_stock_status: available, quarantine, hold, rejected
+
+  ## New Tables
+  - inventory_status_holds: Held quantity per part, location and lot
+
+  ## Modified Tables
+  - quality_nonconformances: + stock_location_id, + lot_number
+
+  ## New Views
+  - vw_inventory_status: On-hand, held and available quantity per part and location
+
+  ## Modified Views
+  - vw_technician_truck_inventory: + qty_held, + qty_available
+
+  ## New Functions
+  - fn_available_quantity: Available quantity of a part at a location
+  - fn_guard_held_inventory: Blocks drawing part_inventory below held quantity
+  - fn_hold_nonconformance_stock: Places the hold for a nonconformance
+  - fn_release_inventory_hold: Releases, scraps, returns or moves a hold
+  - fn_approve_disposition: Approves a disposition and applies it to held stock
+*/
+
+-- =====================================================
+-- ENUM TYPES
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE inventory_stock_status AS ENUM ('available', 'quarantine', 'hold', 'rejected');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+-- =====================================================
+-- COLUMNS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_nonconformances' AND column_name = 'stock_location_id'
+    ) THEN
+        ALTER TABLE quality_nonconformances ADD COLUMN stock_location_id UUID REFERENCES stock_locations(id) ON DELETE SET NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_nonconformances' AND column_name = 'lot_number'
+    ) THEN
+        ALTER TABLE quality_nonconformances ADD COLUMN lot_number TEXT;
+    END IF;
+END $$;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Held stock. Active while released_at IS NULL.
+CREATE TABLE IF NOT EXISTS inventory_status_holds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    part_id UUID NOT NULL REFERENCES parts(id) ON DELETE CASCADE,
+    stock_location_id UUID NOT NULL REFERENCES stock_locations(id) ON DELETE CASCADE,
+    lot_number TEXT,
+    serialized_part_id UUID REFERENCES serialized_parts(id) ON DELETE CASCADE,
+    status inventory_stock_status NOT NULL DEFAULT 'hold' CHECK (status <> 'available'),
+    quantity NUMERIC(10, 2) NOT NULL CHECK (quantity > 0),
+    reason TEXT,
+    nonconformance_id UUID REFERENCES quality_nonconformances(id) ON DELETE SET NULL,
+    placed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    placed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- Release
+    released_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    released_at TIMESTAMPTZ,
+    release_action TEXT CHECK (release_action IN ('released', 'scrapped', 'returned', 'moved')),
+    release_notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_status_holds_active
+    ON inventory_status_holds(part_id, stock_location_id) WHERE released_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_inventory_status_holds_nc
+    ON inventory_status_holds(nonconformance_id) WHERE nonconformance_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_inventory_status_holds_lot
+    ON inventory_status_holds(lot_number) WHERE lot_number IS NOT NULL;
+
+-- =====================================================
+-- VIEWS
+-- =====================================================
+
+-- Serialized holds are excluded from the quantities: a serialized unit's
+-- availability is carried by serialized_parts.status
+CREATE OR REPLACE VIEW vw_inventory_status AS
+SELECT
+    pi.part_id,
+    pi.stock_location_id,
+    pi.quantity AS on_hand,
+    COALESCE(h.quarantine_quantity, 0) AS quarantine_quantity,
+    COALESCE(h.hold_quantity, 0) AS hold_quantity,
+    COALESCE(h.rejected_quantity, 0) AS rejected_quantity,
+    GREATEST(pi.quantity - COALESCE(h.held_quantity, 0), 0) AS available_quantity
+FROM part_inventory pi
+LEFT JOIN (
+    SELECT
+        part_id,
+        stock_location_id,
+        SUM(quantity) FILTER (WHERE status = 'quarantine') AS quarantine_quantity,
+        SUM(quantity) FILTER (WHERE status = 'hold') AS hold_quantity,
+        SUM(quantity) FILTER (WHERE status = 'rejected') AS rejected_quantity,
+        SUM(quantity) AS held_quantity
+    FROM inventory_status_holds
+    WHERE released_at IS NULL
+    AND serialized_part_id IS NULL
+    GROUP BY part_id, stock_location_id
+) h ON h.part_id = pi.part_id AND h.stock_location_id = pi.stock_location_id;
+
+-- Technician pick list: held stock on the truck is shown but not offered
+CREATE OR REPLACE VIEW vw_technician_truck_inventory AS
+SELECT
+  p.id as technician_id,
+  p.full_name as technician_name,
+  p.default_vehicle_id,
+  sl.name as vehicle_name,
+  sl.location_code as vehicle_code,
+  pi.part_id,
+  pt.part_number,
+  pt.name as part_name,
+  pt.unit_price,
+  pi.quantity as qty_on_hand,
+  pi.quantity - vis.available_quantity as qty_held,
+  vis.available_quantity as qty_available
+FROM profiles p
+JOIN stock_locations sl ON sl.id = p.default_vehicle_id
+JOIN part_inventory pi ON pi.stock_location_id = sl.id
+JOIN vw_inventory_status vis ON vis.part_id = pi.part_id AND vis.stock_location_id = pi.stock_location_id
+JOIN parts pt ON pt.id = pi.part_id
+WHERE p.role = 'technician'
+  AND sl.location_type = 'truck'
+  AND pi.quantity > 0;
+
+-- =====================================================
+-- FUNCTION: Available Quantity
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_available_quantity(
+    p_part_id UUID,
+    p_location_id UUID
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE((
+        SELECT available_quantity FROM vw_inventory_status
+        WHERE part_id = p_part_id AND stock_location_id = p_location_id
+    ), 0);
+$$;
+
+-- =====================================================
+-- FUNCTION: Guard Held Inventory
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_guard_held_inventory()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_held NUMERIC;
+BEGIN
+    SELECT COALESCE(SUM(quantity), 0) INTO v_held
+    FROM inventory_status_holds
+    WHERE part_id = NEW.part_id
+    AND stock_location_id = NEW.stock_location_id
+    AND released_at IS NULL
+    AND serialized_part_id IS NULL;
+
+    IF NEW.quantity < v_held THEN
+        RAISE EXCEPTION 'Insufficient inventory. Available: %, Required: % (% on quality hold)',
+            GREATEST(OLD.quantity - v_held, 0), OLD.quantity - NEW.quantity, v_held;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTION: Hold Nonconformance Stock
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_hold_nonconformance_stock(p_nonconformance_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_nc quality_nonconformances;
+    v_serial RECORD;
+    v_on_hand NUMERIC;
+    v_quantity NUMERIC;
+    v_hold_id UUID;
+BEGIN
+    SELECT * INTO v_nc FROM quality_nonconformances WHERE id = p_nonconformance_id;
+
+    -- Receipts in incoming inspection are already out of stock
+    IF v_nc.id IS NULL OR v_nc.part_id IS NULL OR v_nc.po_receipt_id IS NOT NULL OR v_nc.status = 'CLOSED' THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT id INTO v_hold_id
+    FROM inventory_status_holds
+    WHERE nonconformance_id = v_nc.id
+    LIMIT 1;
+
+    IF v_hold_id IS NOT NULL THEN
+        RETURN v_hold_id;
+    END IF;
+
+    -- Serialized unit: quarantine the unit where it sits
+    IF v_nc.serial_id IS NOT NULL THEN
+        SELECT id, current_location_id INTO v_serial
+        FROM serialized_parts
+        WHERE id = v_nc.serial_id AND status = 'in_stock' AND current_location_id IS NOT NULL
+        FOR UPDATE;
+
+        IF v_serial.id IS NULL THEN
+            RETURN NULL;
+        END IF;
+
+        UPDATE serialized_parts
+        SET status = 'quarantined', updated_at = NOW()
+        WHERE id = v_serial.id;
+
+        INSERT INTO inventory_status_holds (
+            part_id, stock_location_id, lot_number, serialized_part_id, status,
+            quantity, reason, nonconformance_id, placed_by
+        ) VALUES (
+            v_nc.part_id, v_serial.current_location_id, v_nc.lot_number, v_serial.id, 'hold',
+            1, v_nc.nc_number || ': ' || v_nc.title, v_nc.id, COALESCE(auth.uid(), v_nc.reported_by)
+        )
+        RETURNING id INTO v_hold_id;
+
+        RETURN v_hold_id;
+    END IF;
+
+    IF v_nc.stock_location_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- Hold what is still available, never more than is on hand
+    SELECT quantity INTO v_on_hand
+    FROM part_inventory
+    WHERE part_id = v_nc.part_id AND stock_location_id = v_nc.stock_location_id
+    FOR UPDATE;
+
+    v_quantity := LEAST(
+        COALESCE(v_nc.qty_affected, 1),
+        fn_available_quantity(v_nc.part_id, v_nc.stock_location_id)
+    );
+
+    IF v_on_hand IS NULL OR v_quantity <= 0 THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO inventory_status_holds (
+        part_id, stock_location_id, lot_number, status,
+        quantity, reason, nonconformance_id, placed_by
+    ) VALUES (
+        v_nc.part_id, v_nc.stock_location_id, v_nc.lot_number, 'hold',
+        v_quantity, v_nc.nc_number || ': ' || v_nc.title, v_nc.id, COALESCE(auth.uid(), v_nc.reported_by)
+    )
+    RETURNING id INTO v_hold_id;
+
+    RETURN v_hold_id;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTION: Release Inventory Hold
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_release_inventory_hold(
+    p_hold_id UUID,
+    p_action TEXT DEFAULT 'released',
+    p_target_location_id UUID DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS inventory_status_holds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_hold inventory_status_holds;
+    v_from_location_id UUID;
+BEGIN
+    SELECT * INTO v_hold FROM inventory_status_holds WHERE id = p_hold_id FOR UPDATE;
+
+    IF v_hold.id IS NULL THEN
+        RAISE EXCEPTION 'Inventory hold not found';
+    END IF;
+
+    IF v_hold.released_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Inventory hold was already %', v_hold.release_action;
+    END IF;
+
+    IF p_action NOT IN ('released', 'scrapped', 'returned', 'moved') THEN
+        RAISE EXCEPTION 'Unknown hold release action: %', p_action;
+    END IF;
+
+    -- Moved stock stays quarantined at the target location
+    IF p_action = 'moved' THEN
+        IF p_target_location_id IS NULL OR p_target_location_id = v_hold.stock_location_id THEN
+            RAISE EXCEPTION 'Select a different location to move the held stock to';
+        END IF;
+
+        v_from_location_id := v_hold.stock_location_id;
+
+        UPDATE inventory_status_holds
+        SET stock_location_id = p_target_location_id,
+            status = 'quarantine',
+            release_notes = p_notes
+        WHERE id = v_hold.id
+        RETURNING * INTO v_hold;
+
+        IF v_hold.serialized_part_id IS NOT NULL THEN
+            UPDATE serialized_parts
+            SET current_location_id = p_target_location_id, updated_at = NOW()
+            WHERE id = v_hold.serialized_part_id;
+        ELSE
+            INSERT INTO inventory_movements (
+                movement_type, part_id, quantity, from_location_id, to_location_id,
+                reference_type, reference_id, moved_by, notes
+            ) VALUES (
+                'transfer', v_hold.part_id, v_hold.quantity, v_from_location_id, p_target_location_id,
+                'inventory_hold', v_hold.id, auth.uid(), COALESCE(p_notes, v_hold.reason)
+            );
+        END IF;
+
+        RETURN v_hold;
+    END IF;
+
+    -- Close the hold first so the guard lets the stock leave
+    UPDATE inventory_status_holds
+    SET released_at = NOW(),
+        released_by = auth.uid(),
+        release_action = p_action,
+        release_notes = p_notes
+    WHERE id = v_hold.id
+    RETURNING * INTO v_hold;
+
+    IF v_hold.serialized_part_id IS NOT NULL THEN
+        UPDATE serialized_parts
+        SET status = (CASE p_action
+                WHEN 'scrapped' THEN 'defective'
+                WHEN 'returned' THEN 'returned'
+                ELSE 'in_stock'
+            END)::serialized_part_status,
+            current_location_id = CASE WHEN p_action = 'released' THEN current_location_id ELSE NULL END,
+            updated_at = NOW()
+        WHERE id = v_hold.serialized_part_id
+        AND status = 'quarantined';
+    ELSIF p_action IN ('scrapped', 'returned') THEN
+        INSERT INTO inventory_movements (
+            movement_type, part_id, quantity, from_location_id,
+            reference_type, reference_id, moved_by, notes
+        ) VALUES (
+            'disposal', v_hold.part_id, v_hold.quantity, v_hold.stock_location_id,
+            'inventory_hold', v_hold.id, auth.uid(),
+            CASE WHEN p_action = 'returned' THEN 'Returned to vendor: ' ELSE 'Scrapped: ' END || COALESCE(p_notes, v_hold.reason, '')
+        );
+    END IF;
+
+    RETURN v_hold;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTION: Approve Disposition
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_approve_disposition(
+    p_disposition_id UUID,
+    p_approved_by UUID,
+    p_target_location_id UUID DEFAULT NULL
+)
+RETURNS quality_dispositions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_disposition quality_dispositions;
+    v_hold RECORD;
+BEGIN
+    SELECT * INTO v_disposition FROM quality_dispositions WHERE id = p_disposition_id FOR UPDATE;
+
+    IF v_disposition.id IS NULL THEN
+        RAISE EXCEPTION 'Disposition not found';
+    END IF;
+
+    IF v_disposition.approved_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Disposition is already approved';
+    END IF;
+
+    UPDATE quality_dispositions
+    SET approved_by = p_approved_by,
+        approved_at = NOW(),
+        updated_at = NOW()
+    WHERE id = v_disposition.id
+    RETURNING * INTO v_disposition;
+
+    FOR v_hold IN
+        SELECT id, stock_location_id FROM inventory_status_holds
+        WHERE nonconformance_id = v_disposition.nonconformance_id
+        AND released_at IS NULL
+    LOOP
+        CASE v_disposition.disposition
+            WHEN 'USE_AS_IS' THEN
+                PERFORM fn_release_inventory_hold(v_hold.id, 'released', NULL, 'Use as is');
+            WHEN 'SCRAP' THEN
+                PERFORM fn_release_inventory_hold(v_hold.id, 'scrapped', NULL, v_disposition.instructions);
+            WHEN 'RETURN_TO_VENDOR' THEN
+                PERFORM fn_release_inventory_hold(v_hold.id, 'returned', NULL, v_disposition.instructions);
+            ELSE
+                -- Rework and sort: stock stays quarantined (at the target, if moved) until executed
+                IF p_target_location_id IS NOT NULL AND p_target_location_id <> v_hold.stock_location_id THEN
+                    PERFORM fn_release_inventory_hold(v_hold.id, 'moved', p_target_location_id, v_disposition.instructions);
+                ELSE
+                    UPDATE inventory_status_holds SET status = 'quarantine' WHERE id = v_hold.id;
+                END IF;
+        END CASE;
+    END LOOP;
+
+    RETURN v_disposition;
+END;
+$$;
+
+-- =====================================================
+-- TRIGGER FUNCTIONS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_nonconformance_hold_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM fn_hold_nonconformance_stock(NEW.id);
+    RETURN NEW;
+END;
+$$;
+
+-- A pending scrap or return disposition marks the held stock rejected
+CREATE OR REPLACE FUNCTION fn_disposition_hold_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM fn_hold_nonconformance_stock(NEW.nonconformance_id);
+
+    IF NEW.disposition IN ('SCRAP', 'RETURN_TO_VENDOR') THEN
+        UPDATE inventory_status_holds
+        SET status = 'rejected'
+        WHERE nonconformance_id = NEW.nonconformance_id
+        AND released_at IS NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Executing a rework or sort disposition returns the stock to available
+CREATE OR REPLACE FUNCTION fn_disposition_executed_release_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_hold_id UUID;
+BEGIN
+    IF NEW.executed_at IS NULL OR OLD.executed_at IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    FOR v_hold_id IN
+        SELECT id FROM inventory_status_holds
+        WHERE nonconformance_id = NEW.nonconformance_id
+        AND released_at IS NULL
+    LOOP
+        PERFORM fn_release_inventory_hold(v_hold_id, 'released', NULL, NEW.execution_notes);
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_guard_held_inventory ON part_inventory;
+CREATE TRIGGER trigger_guard_held_inventory
+    BEFORE UPDATE OF quantity ON part_inventory
+    FOR EACH ROW
+    WHEN (NEW.quantity < OLD.quantity)
+    EXECUTE FUNCTION fn_guard_held_inventory();
+
+DROP TRIGGER IF EXISTS trigger_nonconformance_hold_stock ON quality_nonconformances;
+CREATE TRIGGER trigger_nonconformance_hold_stock
+    AFTER INSERT ON quality_nonconformances
+    FOR EACH ROW EXECUTE FUNCTION fn_nonconformance_hold_stock();
+
+DROP TRIGGER IF EXISTS trigger_disposition_hold_stock ON quality_dispositions;
+CREATE TRIGGER trigger_disposition_hold_stock
+    AFTER INSERT ON quality_dispositions
+    FOR EACH ROW EXECUTE FUNCTION fn_disposition_hold_stock();
+
+DROP TRIGGER IF EXISTS trigger_disposition_executed_release_stock ON quality_dispositions;
+CREATE TRIGGER trigger_disposition_executed_release_stock
+    AFTER UPDATE OF executed_at ON quality_dispositions
+    FOR EACH ROW EXECUTE FUNCTION fn_disposition_executed_release_stock();
+
+DROP TRIGGER IF EXISTS trigger_inventory_status_holds_updated_at ON inventory_status_holds;
+CREATE TRIGGER trigger_inventory_status_holds_updated_at
+    BEFORE UPDATE ON inventory_status_holds FOR EACH ROW EXECUTE FUNCTION update_mes_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_inventory_status_holds ON inventory_status_holds;
+CREATE TRIGGER trigger_mes_audit_inventory_status_holds
+    AFTER INSERT OR UPDATE OR DELETE ON inventory_status_holds
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE inventory_status_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view inventory_status_holds"
+    ON inventory_status_holds FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and supervisors can manage inventory_status_holds"
+    ON inventory_status_holds FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON inventory_status_holds TO authenticated;
+GRANT SELECT ON vw_inventory_status TO authenticated;
+GRANT SELECT ON vw_technician_truck_inventory TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_available_quantity TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_release_inventory_hold TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_approve_disposition TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE inventory_status_holds IS 'Stock held out of availability (quarantine, hold, rejected) per part, location and lot';
+COMMENT ON COLUMN inventory_status_holds.lot_number IS 'Held lot; part_inventory is not lot-tracked, so the quantity is held against the part at the location';
+COMMENT ON COLUMN inventory_status_holds.serialized_part_id IS 'Held serialized unit; excluded from held quantity since the unit status is quarantined';
+COMMENT ON COLUMN quality_nonconformances.stock_location_id IS 'Location of the nonconforming stock; the affected quantity is held there';
+COMMENT ON VIEW vw_inventory_status IS 'On-hand, held and available quantity per part and stock location';
+COMMENT ON FUNCTION fn_available_quantity IS 'On-hand quantity of a part at a location less active quality holds';
+COMMENT ON FUNCTION fn_hold_nonconformance_stock IS 'Place the stock hold for a nonconformance (at most once, never more than is available)';
+COMMENT ON FUNCTION fn_release_inventory_hold IS 'Release, scrap, return or move held stock';
+COMMENT ON FUNCTION fn_approve_disposition IS 'Approve a disposition and release, scrap, return or move its held stock accordingly';
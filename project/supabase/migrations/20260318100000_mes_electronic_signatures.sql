@@ -0,0 +1,511 @@
+/*
+  # MES Electronic Signatures and Quality Audit Trail (21 CFR Part 11 style)
+
+  ## Overview
+  Disposition approvals, CAPA effectiveness verification and inspection
+  waivers recorded only a user id. They now require an electronic signature:
+  the signer re-enters their password at signing time, states the meaning of
+  the signature (reviewed, approved, verified) and a reason, and the
+  signature is bound to a hash of the record as it stood when signed.
+
+  - fn_sign_quality_record verifies the password against auth.users on the
+    server, so a signature cannot be produced by a client holding only a
+    session token.
+  - Approving a disposition, verifying a CAPA and waiving an inspection run
+    are rejected unless the acting user signed that record with the matching
+    meaning within the last 5 minutes.
+  - Signatures are linked to their nonconformance and production order so
+    every signature for either can be reported.
+
+  mes_audit_log becomes tamper-evident: every new entry stores the SHA-256
+  hash of its content chained to the previous entry's hash, and entries (like
+  signatures) can no longer be updated or deleted. fn_verify_mes_audit_chain
+  recomputes the chain and reports the first entry that does not match.
+  Before/after audit triggers now cover the core quality tables. Because the
+  log is immutable, profiles referenced by audit entries or signatures must be
+  deactivated rather than deleted.
+
+  ## New Types
+  - esignature_meaning: REVIEWED, APPROVED, VERIFIED
+
+  ## New Tables
+  - quality_electronic_signatures: Signatures on quality records
+
+  ## Modified Tables
+  - mes_audit_log: + chain_seq, + prev_hash, + row_hash
+  - quality_inspection_runs: + waived_by, + waived_at
+
+  ## New Views
+  - vw_quality_signature_report: Signatures with signer, record, NC and order references
+
+  ## New Functions
+  - fn_sign_quality_record: Re-authenticates the signer and records a signature
+  - fn_has_recent_signature: Whether a user recently signed a record with a meaning
+  - fn_require_quality_signature: Blocks unsigned approvals, verifications and waivers
+  - fn_mes_audit_row_hash: Hash of an audit entry chained to its predecessor
+  - fn_chain_mes_audit_log: Chains new audit entries
+  - fn_prevent_record_modification: Blocks updates and deletes of audit entries and signatures
+  - fn_verify_mes_audit_chain: Recomputes the audit hash chain
+*/
+
+-- =====================================================
+-- ENUM TYPES
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE esignature_meaning AS ENUM ('REVIEWED', 'APPROVED', 'VERIFIED');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+-- =====================================================
+-- COLUMNS
+-- =====================================================
+
+CREATE SEQUENCE IF NOT EXISTS mes_audit_log_chain_seq;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'mes_audit_log' AND column_name = 'chain_seq'
+    ) THEN
+        ALTER TABLE mes_audit_log ADD COLUMN chain_seq BIGINT;
+        ALTER TABLE mes_audit_log ADD COLUMN prev_hash TEXT;
+        ALTER TABLE mes_audit_log ADD COLUMN row_hash TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'quality_inspection_runs' AND column_name = 'waived_by'
+    ) THEN
+        ALTER TABLE quality_inspection_runs ADD COLUMN waived_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+        ALTER TABLE quality_inspection_runs ADD COLUMN waived_at TIMESTAMPTZ;
+    END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mes_audit_log_chain_seq ON mes_audit_log(chain_seq) WHERE chain_seq IS NOT NULL;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS quality_electronic_signatures (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    record_type TEXT NOT NULL CHECK (record_type IN ('DISPOSITION', 'CAPA', 'INSPECTION_RUN')),
+    record_id UUID NOT NULL,
+    nonconformance_id UUID REFERENCES quality_nonconformances(id) ON DELETE RESTRICT,
+    production_order_id UUID REFERENCES production_orders(id) ON DELETE RESTRICT,
+    meaning esignature_meaning NOT NULL,
+    reason TEXT NOT NULL,
+    -- Signer as manifested at signing time
+    signed_by UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+    signer_name TEXT NOT NULL,
+    signer_email TEXT NOT NULL,
+    signed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- Binding to the record
+    record_hash TEXT NOT NULL,
+    signature_hash TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_quality_esignatures_record ON quality_electronic_signatures(record_type, record_id, meaning, signed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quality_esignatures_nc ON quality_electronic_signatures(nonconformance_id) WHERE nonconformance_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_quality_esignatures_order ON quality_electronic_signatures(production_order_id) WHERE production_order_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_quality_esignatures_signer ON quality_electronic_signatures(signed_by);
+
+-- =====================================================
+-- VIEWS
+-- =====================================================
+
+CREATE OR REPLACE VIEW vw_quality_signature_report AS
+SELECT
+    s.id,
+    s.record_type,
+    s.record_id,
+    s.meaning,
+    s.reason,
+    s.signed_by,
+    s.signer_name,
+    s.signer_email,
+    s.signed_at,
+    s.record_hash,
+    s.signature_hash,
+    s.nonconformance_id,
+    nc.nc_number,
+    s.production_order_id,
+    po.order_number,
+    CASE s.record_type
+        WHEN 'DISPOSITION' THEN 'Disposition ' || d.disposition::TEXT || ' (' || nc.nc_number || ')'
+        WHEN 'CAPA' THEN c.capa_number
+        WHEN 'INSPECTION_RUN' THEN 'Inspection ' || COALESCE(ip.name, '')
+    END AS record_label
+FROM quality_electronic_signatures s
+LEFT JOIN quality_nonconformances nc ON nc.id = s.nonconformance_id
+LEFT JOIN production_orders po ON po.id = s.production_order_id
+LEFT JOIN quality_dispositions d ON s.record_type = 'DISPOSITION' AND d.id = s.record_id
+LEFT JOIN quality_capa c ON s.record_type = 'CAPA' AND c.id = s.record_id
+LEFT JOIN quality_inspection_runs ir ON s.record_type = 'INSPECTION_RUN' AND ir.id = s.record_id
+LEFT JOIN quality_inspection_plans ip ON ip.id = ir.inspection_plan_id;
+
+-- =====================================================
+-- FUNCTION: Sign Quality Record
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_sign_quality_record(
+    p_record_type TEXT,
+    p_record_id UUID,
+    p_meaning esignature_meaning,
+    p_password TEXT,
+    p_reason TEXT
+)
+RETURNS quality_electronic_signatures
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth, extensions
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_password_hash TEXT;
+    v_email TEXT;
+    v_name TEXT;
+    v_record JSONB;
+    v_nc_id UUID;
+    v_order_id UUID;
+    v_signed_at TIMESTAMPTZ := NOW();
+    v_record_hash TEXT;
+    v_signature quality_electronic_signatures;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF COALESCE(TRIM(p_reason), '') = '' THEN
+        RAISE EXCEPTION 'A signature requires a reason';
+    END IF;
+
+    -- Re-authenticate the signer
+    SELECT encrypted_password, email INTO v_password_hash, v_email
+    FROM auth.users WHERE id = v_user_id;
+
+    IF v_password_hash IS NULL OR p_password IS NULL
+       OR crypt(p_password, v_password_hash) <> v_password_hash THEN
+        RAISE EXCEPTION 'Signature failed: password is incorrect';
+    END IF;
+
+    SELECT COALESCE(full_name, email, v_email) INTO v_name FROM profiles WHERE id = v_user_id;
+
+    CASE p_record_type
+        WHEN 'DISPOSITION' THEN
+            SELECT to_jsonb(d), d.nonconformance_id, nc.production_order_id
+            INTO v_record, v_nc_id, v_order_id
+            FROM quality_dispositions d
+            JOIN quality_nonconformances nc ON nc.id = d.nonconformance_id
+            WHERE d.id = p_record_id;
+        WHEN 'CAPA' THEN
+            SELECT to_jsonb(c), c.nonconformance_id, nc.production_order_id
+            INTO v_record, v_nc_id, v_order_id
+            FROM quality_capa c
+            LEFT JOIN quality_nonconformances nc ON nc.id = c.nonconformance_id
+            WHERE c.id = p_record_id;
+        WHEN 'INSPECTION_RUN' THEN
+            SELECT to_jsonb(r), NULL, r.production_order_id
+            INTO v_record, v_nc_id, v_order_id
+            FROM quality_inspection_runs r
+            WHERE r.id = p_record_id;
+        ELSE
+            RAISE EXCEPTION 'Unsupported record type %', p_record_type;
+    END CASE;
+
+    IF v_record IS NULL THEN
+        RAISE EXCEPTION 'Record to sign not found';
+    END IF;
+
+    v_record_hash := encode(digest(v_record::TEXT, 'sha256'), 'hex');
+
+    INSERT INTO quality_electronic_signatures (
+        record_type, record_id, nonconformance_id, production_order_id,
+        meaning, reason, signed_by, signer_name, signer_email, signed_at,
+        record_hash, signature_hash
+    ) VALUES (
+        p_record_type, p_record_id, v_nc_id, v_order_id,
+        p_meaning, TRIM(p_reason), v_user_id, v_name, v_email, v_signed_at,
+        v_record_hash,
+        encode(digest(concat_ws('|',
+            v_user_id::TEXT, v_name, p_meaning::TEXT, TRIM(p_reason),
+            p_record_type, p_record_id::TEXT, v_record_hash,
+            to_char(v_signed_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US')
+        ), 'sha256'), 'hex')
+    )
+    RETURNING * INTO v_signature;
+
+    RETURN v_signature;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTION: Signature Check
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_has_recent_signature(
+    p_record_type TEXT,
+    p_record_id UUID,
+    p_meaning esignature_meaning,
+    p_signed_by UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM quality_electronic_signatures
+        WHERE record_type = p_record_type
+        AND record_id = p_record_id
+        AND meaning = p_meaning
+        AND signed_by = p_signed_by
+        AND signed_at >= NOW() - INTERVAL '5 minutes'
+    );
+$$;
+
+-- Approvals, verifications and waivers must carry a fresh signature by the acting user
+CREATE OR REPLACE FUNCTION fn_require_quality_signature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'quality_dispositions' THEN
+        IF NEW.approved_at IS NOT NULL AND OLD.approved_at IS NULL
+           AND NOT fn_has_recent_signature('DISPOSITION', NEW.id, 'APPROVED', NEW.approved_by) THEN
+            RAISE EXCEPTION 'Disposition approval requires the approver''s electronic signature';
+        END IF;
+    ELSIF TG_TABLE_NAME = 'quality_capa' THEN
+        IF NEW.verified_at IS NOT NULL AND NEW.verified_at IS DISTINCT FROM OLD.verified_at
+           AND NOT fn_has_recent_signature('CAPA', NEW.id, 'VERIFIED', NEW.verified_by) THEN
+            RAISE EXCEPTION 'CAPA verification requires the verifier''s electronic signature';
+        END IF;
+    ELSIF TG_TABLE_NAME = 'quality_inspection_runs' THEN
+        IF NEW.status = 'WAIVED' AND OLD.status <> 'WAIVED' THEN
+            NEW.waived_by := COALESCE(NEW.waived_by, auth.uid());
+            NEW.waived_at := COALESCE(NEW.waived_at, NOW());
+            IF NOT fn_has_recent_signature('INSPECTION_RUN', NEW.id, 'APPROVED', NEW.waived_by) THEN
+                RAISE EXCEPTION 'Inspection waiver requires an approving electronic signature';
+            END IF;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTIONS: Tamper-Evident Audit Log
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_mes_audit_row_hash(
+    p_prev_hash TEXT,
+    p_entity_type TEXT,
+    p_entity_id UUID,
+    p_action TEXT,
+    p_before JSONB,
+    p_after JSONB,
+    p_performed_by UUID,
+    p_performed_at TIMESTAMPTZ
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+    SELECT encode(digest(concat_ws('|',
+        COALESCE(p_prev_hash, ''),
+        p_entity_type,
+        p_entity_id::TEXT,
+        p_action,
+        COALESCE(p_before::TEXT, ''),
+        COALESCE(p_after::TEXT, ''),
+        COALESCE(p_performed_by::TEXT, ''),
+        to_char(p_performed_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US')
+    ), 'sha256'), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION fn_chain_mes_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Serialize chain appends so every entry links to exactly one predecessor
+    PERFORM pg_advisory_xact_lock(hashtext('mes_audit_log_chain'));
+
+    SELECT row_hash INTO NEW.prev_hash
+    FROM mes_audit_log
+    WHERE chain_seq IS NOT NULL
+    ORDER BY chain_seq DESC
+    LIMIT 1;
+
+    NEW.chain_seq := nextval('mes_audit_log_chain_seq');
+    NEW.performed_at := COALESCE(NEW.performed_at, NOW());
+    NEW.row_hash := fn_mes_audit_row_hash(
+        NEW.prev_hash, NEW.entity_type, NEW.entity_id, NEW.action,
+        NEW.before_json, NEW.after_json, NEW.performed_by, NEW.performed_at
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_prevent_record_modification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RAISE EXCEPTION '% records cannot be modified or deleted', TG_TABLE_NAME;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_verify_mes_audit_chain()
+RETURNS TABLE (
+    entries_checked BIGINT,
+    is_intact BOOLEAN,
+    broken_entry_id UUID,
+    broken_chain_seq BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_entry RECORD;
+    v_prev_hash TEXT;
+    v_count BIGINT := 0;
+BEGIN
+    FOR v_entry IN
+        SELECT * FROM mes_audit_log
+        WHERE chain_seq IS NOT NULL
+        ORDER BY chain_seq
+    LOOP
+        v_count := v_count + 1;
+
+        IF v_entry.prev_hash IS DISTINCT FROM v_prev_hash
+           OR v_entry.row_hash IS DISTINCT FROM fn_mes_audit_row_hash(
+                v_entry.prev_hash, v_entry.entity_type, v_entry.entity_id, v_entry.action,
+                v_entry.before_json, v_entry.after_json, v_entry.performed_by, v_entry.performed_at
+           ) THEN
+            RETURN QUERY SELECT v_count, FALSE, v_entry.id, v_entry.chain_seq;
+            RETURN;
+        END IF;
+
+        v_prev_hash := v_entry.row_hash;
+    END LOOP;
+
+    RETURN QUERY SELECT v_count, TRUE, NULL::UUID, NULL::BIGINT;
+END;
+$$;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_chain_mes_audit_log ON mes_audit_log;
+CREATE TRIGGER trigger_chain_mes_audit_log
+    BEFORE INSERT ON mes_audit_log
+    FOR EACH ROW EXECUTE FUNCTION fn_chain_mes_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_prevent_mes_audit_log_modification ON mes_audit_log;
+CREATE TRIGGER trigger_prevent_mes_audit_log_modification
+    BEFORE UPDATE OR DELETE ON mes_audit_log
+    FOR EACH ROW EXECUTE FUNCTION fn_prevent_record_modification();
+
+DROP TRIGGER IF EXISTS trigger_prevent_quality_esignature_modification ON quality_electronic_signatures;
+CREATE TRIGGER trigger_prevent_quality_esignature_modification
+    BEFORE UPDATE OR DELETE ON quality_electronic_signatures
+    FOR EACH ROW EXECUTE FUNCTION fn_prevent_record_modification();
+
+DROP TRIGGER IF EXISTS trigger_require_disposition_signature ON quality_dispositions;
+CREATE TRIGGER trigger_require_disposition_signature
+    BEFORE UPDATE OF approved_at ON quality_dispositions
+    FOR EACH ROW EXECUTE FUNCTION fn_require_quality_signature();
+
+DROP TRIGGER IF EXISTS trigger_require_capa_signature ON quality_capa;
+CREATE TRIGGER trigger_require_capa_signature
+    BEFORE UPDATE OF verified_at ON quality_capa
+    FOR EACH ROW EXECUTE FUNCTION fn_require_quality_signature();
+
+DROP TRIGGER IF EXISTS trigger_require_inspection_waiver_signature ON quality_inspection_runs;
+CREATE TRIGGER trigger_require_inspection_waiver_signature
+    BEFORE UPDATE OF status ON quality_inspection_runs
+    FOR EACH ROW EXECUTE FUNCTION fn_require_quality_signature();
+
+-- Before/after audit of the core quality records
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_nonconformances ON quality_nonconformances;
+CREATE TRIGGER trigger_mes_audit_quality_nonconformances
+    AFTER INSERT OR UPDATE OR DELETE ON quality_nonconformances
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_nc_defects ON quality_nc_defects;
+CREATE TRIGGER trigger_mes_audit_quality_nc_defects
+    AFTER INSERT OR UPDATE OR DELETE ON quality_nc_defects
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_dispositions ON quality_dispositions;
+CREATE TRIGGER trigger_mes_audit_quality_dispositions
+    AFTER INSERT OR UPDATE OR DELETE ON quality_dispositions
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_capa ON quality_capa;
+CREATE TRIGGER trigger_mes_audit_quality_capa
+    AFTER INSERT OR UPDATE OR DELETE ON quality_capa
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_inspection_runs ON quality_inspection_runs;
+CREATE TRIGGER trigger_mes_audit_quality_inspection_runs
+    AFTER INSERT OR UPDATE OR DELETE ON quality_inspection_runs
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_measurements ON quality_measurements;
+CREATE TRIGGER trigger_mes_audit_quality_measurements
+    AFTER INSERT OR UPDATE OR DELETE ON quality_measurements
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_mes_audit_quality_electronic_signatures ON quality_electronic_signatures;
+CREATE TRIGGER trigger_mes_audit_quality_electronic_signatures
+    AFTER INSERT ON quality_electronic_signatures
+    FOR EACH ROW EXECUTE FUNCTION fn_mes_audit_log();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE quality_electronic_signatures ENABLE ROW LEVEL SECURITY;
+
+-- Signatures are only written through fn_sign_quality_record
+CREATE POLICY "Authenticated users can view quality_electronic_signatures"
+    ON quality_electronic_signatures FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Supervisors can view quality audit entries"
+    ON mes_audit_log FOR SELECT TO authenticated
+    USING (
+        entity_type LIKE 'quality\_%'
+        AND EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor'))
+    );
+
+GRANT SELECT ON quality_electronic_signatures TO authenticated;
+GRANT SELECT ON vw_quality_signature_report TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_sign_quality_record TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_verify_mes_audit_chain TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE quality_electronic_signatures IS 'Password re-authenticated electronic signatures on quality records (21 CFR Part 11 style)';
+COMMENT ON COLUMN quality_electronic_signatures.record_hash IS 'SHA-256 of the signed record as it stood at signing time';
+COMMENT ON COLUMN quality_electronic_signatures.signature_hash IS 'SHA-256 binding signer, meaning, reason, record hash and time';
+COMMENT ON COLUMN mes_audit_log.row_hash IS 'SHA-256 of the entry chained to prev_hash; verified by fn_verify_mes_audit_chain';
+COMMENT ON COLUMN quality_inspection_runs.waived_by IS 'User who waived the inspection under an approving electronic signature';
+COMMENT ON VIEW vw_quality_signature_report IS 'Electronic signatures with signer, signed record, nonconformance and production order';
+COMMENT ON FUNCTION fn_sign_quality_record IS 'Re-authenticate the current user and sign a disposition, CAPA or inspection run';
+COMMENT ON FUNCTION fn_require_quality_signature IS 'Reject disposition approvals, CAPA verifications and inspection waivers without a fresh matching signature';
+COMMENT ON FUNCTION fn_verify_mes_audit_chain IS 'Recompute the mes_audit_log hash chain and report the first entry that does not match';
@@ -0,0 +1,435 @@
+/*
+  # Offline Technician Sync
+
+  ## Overview
+  The technician app keeps working without signal: actions taken offline
+  (start/stop timer, updates and notes, parts used, photos, holds) are queued
+  on the device and replayed in order on reconnect through a single RPC.
+
+  - Every queued action carries a client-generated id. The first time an
+    action is applied its outcome is recorded; replaying the same id returns
+    the recorded outcome, so a retry after a dropped response never applies
+    an action twice
+  - Actions keep the time they happened on the device: timers, updates,
+    parts and photos are stamped with it rather than the sync time (clamped
+    to the server clock so a fast device cannot date work in the future)
+  - Conflicts with changes made on the server while the device was offline
+    are resolved here, not on the device:
+    - Start on a ticket that is completed, cancelled or on hold, or while
+      another ticket is being timed: rejected
+    - Stop with no open timer (stopped by a hold or by the office): rejected
+    - Status change on a ticket that has since been closed: the note is kept,
+      the status change is rejected
+    - Parts or photos on an invoiced ticket: rejected
+  Rejected actions are recorded as CONFLICT with the reason so the device can
+  show them; nothing is retried.
+
+  ## New Tables
+  - technician_sync_actions: Outcome of every action applied from the queue
+
+  ## Modified Functions
+  - fn_start_ticket_work: Optional p_started_at for work started offline
+  - fn_end_ticket_work: Optional p_ended_at for work stopped offline
+
+  ## New Functions
+  - fn_apply_technician_action: Applies one queued action idempotently
+*/
+
+-- =====================================================
+-- ENUMS
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE technician_action_type AS ENUM (
+        'START_WORK', 'END_WORK', 'ADD_UPDATE', 'ADD_PART', 'ADD_PHOTO', 'HOLD_FOR_PARTS', 'REPORT_ISSUE'
+    );
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE technician_action_status AS ENUM ('APPLIED', 'CONFLICT');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS technician_sync_actions (
+    client_action_id UUID PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    ticket_id UUID REFERENCES tickets(id) ON DELETE CASCADE,
+    action_type technician_action_type NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    occurred_at TIMESTAMPTZ NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    status technician_action_status NOT NULL,
+    result JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_technician_sync_actions_user ON technician_sync_actions(user_id, applied_at DESC);
+CREATE INDEX IF NOT EXISTS idx_technician_sync_actions_ticket ON technician_sync_actions(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_technician_sync_actions_conflicts ON technician_sync_actions(applied_at DESC) WHERE status = 'CONFLICT';
+
+-- =====================================================
+-- TICKET TIMER RPCS
+-- Adding a parameter changes the signature, so drop the old ones first
+-- to avoid ambiguous overloads
+-- =====================================================
+
+DROP FUNCTION IF EXISTS fn_start_ticket_work(uuid, uuid);
+DROP FUNCTION IF EXISTS fn_end_ticket_work(uuid, uuid, boolean);
+
+CREATE OR REPLACE FUNCTION fn_start_ticket_work(
+  p_tech_id uuid,
+  p_ticket_id uuid,
+  p_started_at timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_existing_ticket_log record;
+  v_new_log_id uuid;
+  v_ticket record;
+  v_started_at timestamptz := LEAST(COALESCE(p_started_at, NOW()), NOW());
+BEGIN
+  -- Check for existing open TICKET time entry (NOT main clock)
+  SELECT tl.id, tl.ticket_id, t.ticket_number
+  INTO v_existing_ticket_log
+  FROM time_logs tl
+  LEFT JOIN tickets t ON t.id = tl.ticket_id
+  WHERE tl.user_id = p_tech_id
+    AND tl.clock_out_time IS NULL
+    AND tl.ticket_id IS NOT NULL  -- Only check for ticket timers
+  LIMIT 1;
+
+  IF v_existing_ticket_log IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'already_timing',
+      'message', format('You are currently timing Ticket %s. End or complete it before starting another.',
+                       COALESCE(v_existing_ticket_log.ticket_number, 'Unknown')),
+      'existing_ticket_id', v_existing_ticket_log.ticket_id
+    );
+  END IF;
+
+  -- Verify ticket exists and is assigned
+  SELECT id, ticket_number, status, assigned_to
+  INTO v_ticket
+  FROM tickets
+  WHERE id = p_ticket_id;
+
+  IF v_ticket IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'ticket_not_found',
+      'message', 'Ticket not found'
+    );
+  END IF;
+
+  -- Create new time log entry for this ticket
+  INSERT INTO time_logs (
+    user_id,
+    ticket_id,
+    clock_in_time,
+    time_type,
+    status
+  ) VALUES (
+    p_tech_id,
+    p_ticket_id,
+    v_started_at,
+    'on_site',
+    'active'
+  )
+  RETURNING id INTO v_new_log_id;
+
+  -- Update ticket arrived_onsite_at if not already set
+  UPDATE tickets
+  SET arrived_onsite_at = COALESCE(arrived_onsite_at, v_started_at),
+      work_started_at = COALESCE(work_started_at, v_started_at),
+      status = CASE WHEN status IN ('open', 'scheduled') THEN 'in_progress' ELSE status END,
+      updated_at = NOW()
+  WHERE id = p_ticket_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'time_log_id', v_new_log_id,
+    'ticket_id', p_ticket_id,
+    'started_at', v_started_at,
+    'message', 'Timer started successfully'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_end_ticket_work(
+  p_tech_id uuid,
+  p_ticket_id uuid DEFAULT NULL,
+  p_mark_for_revisit boolean DEFAULT false,
+  p_ended_at timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_log record;
+  v_ended_at timestamptz;
+  v_total_hours numeric;
+BEGIN
+  -- Find active TICKET time log (NOT main clock)
+  SELECT id, clock_in_time, ticket_id
+  INTO v_log
+  FROM time_logs
+  WHERE user_id = p_tech_id
+    AND clock_out_time IS NULL
+    AND ticket_id IS NOT NULL  -- Only look for ticket timers
+    AND (p_ticket_id IS NULL OR ticket_id = p_ticket_id)
+  LIMIT 1;
+
+  IF v_log IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'no_active_timer',
+      'message', 'No active ticket timer found'
+    );
+  END IF;
+
+  -- Never before the timer started, never in the future
+  v_ended_at := GREATEST(LEAST(COALESCE(p_ended_at, NOW()), NOW()), v_log.clock_in_time);
+
+  -- Calculate total hours
+  v_total_hours := EXTRACT(EPOCH FROM (v_ended_at - v_log.clock_in_time)) / 3600;
+
+  -- Close the time log
+  UPDATE time_logs
+  SET clock_out_time = v_ended_at,
+      total_hours = v_total_hours,
+      status = 'completed',
+      updated_at = NOW()
+  WHERE id = v_log.id;
+
+  -- Update ticket hours if applicable
+  IF v_log.ticket_id IS NOT NULL THEN
+    UPDATE tickets
+    SET hours_onsite = COALESCE(hours_onsite, 0) + v_total_hours,
+        actual_duration_minutes = COALESCE(actual_duration_minutes, 0) + (v_total_hours * 60),
+        updated_at = NOW()
+    WHERE id = v_log.ticket_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'time_log_id', v_log.id,
+    'ticket_id', v_log.ticket_id,
+    'ended_at', v_ended_at,
+    'total_hours', ROUND(v_total_hours, 2),
+    'message', 'Ticket timer stopped successfully'
+  );
+END;
+$$;
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Apply one queued technician action. Safe to call again with the same
+-- client action id: the first outcome is returned with duplicate = true.
+CREATE OR REPLACE FUNCTION fn_apply_technician_action(
+    p_client_action_id UUID,
+    p_action_type technician_action_type,
+    p_ticket_id UUID,
+    p_occurred_at TIMESTAMPTZ,
+    p_payload JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_occurred_at TIMESTAMPTZ := LEAST(COALESCE(p_occurred_at, NOW()), NOW());
+    v_existing technician_sync_actions%ROWTYPE;
+    v_ticket RECORD;
+    v_result JSONB;
+    v_status ticket_status;
+    v_id UUID;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Serialize replays of the same action
+    PERFORM pg_advisory_xact_lock(hashtext(p_client_action_id::text));
+
+    SELECT * INTO v_existing FROM technician_sync_actions WHERE client_action_id = p_client_action_id;
+    IF FOUND THEN
+        IF v_existing.user_id <> v_user_id THEN
+            RAISE EXCEPTION 'Action % belongs to another user', p_client_action_id;
+        END IF;
+        RETURN v_existing.result || jsonb_build_object('duplicate', true);
+    END IF;
+
+    SELECT id, ticket_number, status, hold_active, hold_parts_active, hold_issue_active
+    INTO v_ticket
+    FROM tickets
+    WHERE id = p_ticket_id;
+
+    IF NOT FOUND THEN
+        v_result := jsonb_build_object('success', false, 'error', 'ticket_not_found', 'message', 'Ticket not found');
+
+    ELSIF p_action_type = 'START_WORK' THEN
+        IF v_ticket.status IN ('completed', 'cancelled', 'closed_billed', 'closed_no_charge', 'ready_to_invoice') THEN
+            v_result := jsonb_build_object('success', false, 'error', 'ticket_closed',
+                'message', format('Ticket %s was %s before work could be started', v_ticket.ticket_number, replace(v_ticket.status::text, '_', ' ')));
+        ELSIF v_ticket.hold_active THEN
+            v_result := jsonb_build_object('success', false, 'error', 'ticket_on_hold',
+                'message', format('Ticket %s was put on hold before work could be started', v_ticket.ticket_number));
+        ELSE
+            v_result := fn_start_ticket_work(v_user_id, p_ticket_id, v_occurred_at);
+            IF (v_result->>'success')::boolean THEN
+                INSERT INTO ticket_updates (ticket_id, technician_id, update_type, notes, progress_percent, status, created_at)
+                VALUES (p_ticket_id, v_user_id, 'arrived', 'Arrived on site and started work', 0, 'in_progress', v_occurred_at);
+            END IF;
+        END IF;
+
+    ELSIF p_action_type = 'END_WORK' THEN
+        v_result := fn_end_ticket_work(v_user_id, p_ticket_id, false, v_occurred_at);
+        IF (v_result->>'success')::boolean AND COALESCE((p_payload->>'mark_complete')::boolean, false) THEN
+            UPDATE tickets
+            SET status = 'completed', completed_date = v_occurred_at, updated_at = NOW()
+            WHERE id = p_ticket_id
+              AND status NOT IN ('completed', 'cancelled', 'closed_billed', 'closed_no_charge', 'ready_to_invoice');
+        END IF;
+
+    ELSIF p_action_type = 'ADD_UPDATE' THEN
+        v_status := NULLIF(p_payload->>'status', '')::ticket_status;
+
+        INSERT INTO ticket_updates (ticket_id, technician_id, update_type, notes, progress_percent, status, created_at)
+        VALUES (
+            p_ticket_id, v_user_id,
+            COALESCE(p_payload->>'update_type', 'progress_note'),
+            p_payload->>'notes',
+            COALESCE((p_payload->>'progress_percent')::integer, 0),
+            v_status,
+            v_occurred_at
+        )
+        RETURNING id INTO v_id;
+
+        IF v_status IS NOT NULL
+           AND v_ticket.status <> v_status
+           AND v_ticket.status IN ('completed', 'cancelled', 'closed_billed', 'closed_no_charge', 'ready_to_invoice') THEN
+            v_result := jsonb_build_object('success', false, 'error', 'status_superseded', 'update_id', v_id,
+                'message', format('Update saved on Ticket %s, but the status was not changed: the ticket is already %s',
+                                  v_ticket.ticket_number, replace(v_ticket.status::text, '_', ' ')));
+        ELSE
+            IF v_status IS NOT NULL THEN
+                UPDATE tickets
+                SET status = v_status,
+                    completed_date = CASE WHEN v_status = 'completed' THEN v_occurred_at ELSE completed_date END,
+                    problem_code = CASE WHEN v_status = 'completed' THEN COALESCE(NULLIF(p_payload->>'problem_code', ''), problem_code) ELSE problem_code END,
+                    resolution_code = CASE WHEN v_status = 'completed' THEN COALESCE(NULLIF(p_payload->>'resolution_code', ''), resolution_code) ELSE resolution_code END,
+                    updated_at = NOW()
+                WHERE id = p_ticket_id;
+            END IF;
+            v_result := jsonb_build_object('success', true, 'update_id', v_id, 'message', 'Update saved');
+        END IF;
+
+    ELSIF p_action_type IN ('ADD_PART', 'ADD_PHOTO') AND v_ticket.status = 'closed_billed' THEN
+        v_result := jsonb_build_object('success', false, 'error', 'ticket_invoiced',
+            'message', format('Ticket %s was invoiced before the %s could be recorded',
+                              v_ticket.ticket_number, CASE WHEN p_action_type = 'ADD_PART' THEN 'part' ELSE 'photo' END));
+
+    ELSIF p_action_type = 'ADD_PART' THEN
+        INSERT INTO ticket_parts_used (ticket_id, part_id, quantity, installed_by, notes, created_at)
+        VALUES (
+            p_ticket_id,
+            (p_payload->>'part_id')::uuid,
+            (p_payload->>'quantity')::numeric,
+            v_user_id,
+            p_payload->>'notes',
+            v_occurred_at
+        )
+        RETURNING id INTO v_id;
+        v_result := jsonb_build_object('success', true, 'part_used_id', v_id, 'message', 'Part recorded');
+
+    ELSIF p_action_type = 'ADD_PHOTO' THEN
+        INSERT INTO ticket_photos (ticket_id, uploaded_by, photo_url, photo_type, caption, created_at)
+        VALUES (
+            p_ticket_id,
+            v_user_id,
+            p_payload->>'photo_url',
+            COALESCE(p_payload->>'photo_type', 'during'),
+            NULLIF(p_payload->>'caption', ''),
+            v_occurred_at
+        )
+        RETURNING id INTO v_id;
+        v_result := jsonb_build_object('success', true, 'photo_id', v_id, 'message', 'Photo saved');
+
+    ELSIF p_action_type IN ('HOLD_FOR_PARTS', 'REPORT_ISSUE') THEN
+        -- The hold RPCs stop the timer at the current time; stop it at the
+        -- time the hold was placed on the device first
+        PERFORM fn_end_ticket_work(v_user_id, p_ticket_id, false, v_occurred_at);
+
+        IF p_action_type = 'HOLD_FOR_PARTS' THEN
+            v_result := fn_ticket_hold_for_parts(
+                p_ticket_id,
+                COALESCE(p_payload->>'urgency', 'medium'),
+                COALESCE(p_payload->>'notes', 'Parts requested'),
+                COALESCE(p_payload->>'summary', 'Waiting for parts'),
+                COALESCE(p_payload->'parts', '[]'::jsonb)
+            );
+        ELSE
+            v_result := fn_ticket_report_issue(
+                p_ticket_id,
+                COALESCE(p_payload->>'category', 'other'),
+                COALESCE(p_payload->>'severity', 'medium'),
+                p_payload->>'description',
+                p_payload->>'summary',
+                COALESCE(p_payload->'metadata', '{}'::jsonb)
+            );
+        END IF;
+    END IF;
+
+    INSERT INTO technician_sync_actions (
+        client_action_id, user_id, ticket_id, action_type, payload, occurred_at, status, result
+    ) VALUES (
+        p_client_action_id, v_user_id, v_ticket.id, p_action_type, p_payload, v_occurred_at,
+        CASE WHEN COALESCE((v_result->>'success')::boolean, false) THEN 'APPLIED' ELSE 'CONFLICT' END::technician_action_status,
+        v_result
+    );
+
+    RETURN v_result;
+END;
+$$;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE technician_sync_actions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by fn_apply_technician_action
+CREATE POLICY "Users can view their own sync actions"
+    ON technician_sync_actions FOR SELECT TO authenticated
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Admin and dispatchers can view sync actions"
+    ON technician_sync_actions FOR SELECT TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+GRANT SELECT ON technician_sync_actions TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_start_ticket_work(uuid, uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_end_ticket_work(uuid, uuid, boolean, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_apply_technician_action TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE technician_sync_actions IS 'Outcome of each technician action replayed from the offline queue, keyed by the client action id for idempotent replay';
+COMMENT ON FUNCTION fn_apply_technician_action IS 'Applies one queued technician action (timer, update, part, photo, hold) at the time it happened on the device; conflicts with server-side changes are recorded, not applied';
@@ -0,0 +1,298 @@
+/*
+  # Customer Signatures on Tickets
+
+  ## Overview
+  Technicians capture the customer's signature on screen for three forms:
+  - Work authorization: required before work on the ticket can start
+  - Completion acceptance: required before the technician completes the ticket
+  - Declined recommended repairs: the repairs offered and declined, with
+    their estimates, acknowledged by the customer
+
+  Each signature stores the signer, the statement they agreed to, the
+  signature image (PNG data URL), the time of signing and the device's GPS
+  position when it was available. Signatures are never updated or deleted.
+
+  Signatures are captured through the technician action queue
+  (CAPTURE_SIGNATURE), so they can be taken without signal and the start or
+  completion that follows them is replayed after them.
+
+  ## New Tables
+  - ticket_signatures: Customer signatures captured against a ticket
+
+  ## Modified Functions
+  - fn_apply_technician_action: CAPTURE_SIGNATURE action; START_WORK requires
+    a work authorization and completing through ADD_UPDATE requires a
+    completion acceptance
+*/
+
+-- =====================================================
+-- ENUMS
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE ticket_signature_type AS ENUM ('work_authorization', 'work_completion', 'declined_repairs');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TYPE technician_action_type ADD VALUE IF NOT EXISTS 'CAPTURE_SIGNATURE';
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS ticket_signatures (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+    signature_type ticket_signature_type NOT NULL,
+    signer_name TEXT NOT NULL CHECK (length(trim(signer_name)) > 0),
+    signer_title TEXT,
+    statement TEXT NOT NULL,
+    -- [{ "description": text, "estimated_cost": number }] for declined_repairs
+    declined_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    signature_image TEXT NOT NULL CHECK (signature_image LIKE 'data:image/png;base64,%'),
+    signed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    latitude NUMERIC(10,7),
+    longitude NUMERIC(10,7),
+    location_accuracy NUMERIC,
+    location_captured_at TIMESTAMPTZ,
+    captured_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT chk_declined_repairs_items CHECK (
+        signature_type <> 'declined_repairs' OR jsonb_array_length(declined_items) > 0
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_signatures_ticket ON ticket_signatures(ticket_id, signature_type);
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Apply one queued technician action. Safe to call again with the same
+-- client action id: the first outcome is returned with duplicate = true.
+CREATE OR REPLACE FUNCTION fn_apply_technician_action(
+    p_client_action_id UUID,
+    p_action_type technician_action_type,
+    p_ticket_id UUID,
+    p_occurred_at TIMESTAMPTZ,
+    p_payload JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_occurred_at TIMESTAMPTZ := LEAST(COALESCE(p_occurred_at, NOW()), NOW());
+    v_existing technician_sync_actions%ROWTYPE;
+    v_ticket RECORD;
+    v_result JSONB;
+    v_status ticket_status;
+    v_id UUID;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Serialize replays of the same action
+    PERFORM pg_advisory_xact_lock(hashtext(p_client_action_id::text));
+
+    SELECT * INTO v_existing FROM technician_sync_actions WHERE client_action_id = p_client_action_id;
+    IF FOUND THEN
+        IF v_existing.user_id <> v_user_id THEN
+            RAISE EXCEPTION 'Action % belongs to another user', p_client_action_id;
+        END IF;
+        RETURN v_existing.result || jsonb_build_object('duplicate', true);
+    END IF;
+
+    SELECT id, ticket_number, status, hold_active, hold_parts_active, hold_issue_active
+    INTO v_ticket
+    FROM tickets
+    WHERE id = p_ticket_id;
+
+    IF NOT FOUND THEN
+        v_result := jsonb_build_object('success', false, 'error', 'ticket_not_found', 'message', 'Ticket not found');
+
+    ELSIF p_action_type = 'START_WORK' THEN
+        IF v_ticket.status IN ('completed', 'cancelled', 'closed_billed', 'closed_no_charge', 'ready_to_invoice') THEN
+            v_result := jsonb_build_object('success', false, 'error', 'ticket_closed',
+                'message', format('Ticket %s was %s before work could be started', v_ticket.ticket_number, replace(v_ticket.status::text, '_', ' ')));
+        ELSIF v_ticket.hold_active THEN
+            v_result := jsonb_build_object('success', false, 'error', 'ticket_on_hold',
+                'message', format('Ticket %s was put on hold before work could be started', v_ticket.ticket_number));
+        ELSIF NOT EXISTS (
+            SELECT 1 FROM ticket_signatures
+            WHERE ticket_id = p_ticket_id AND signature_type = 'work_authorization'
+        ) THEN
+            v_result := jsonb_build_object('success', false, 'error', 'authorization_required',
+                'message', format('Ticket %s needs the customer''s signed work authorization before work can start', v_ticket.ticket_number));
+        ELSE
+            v_result := fn_start_ticket_work(v_user_id, p_ticket_id, v_occurred_at);
+            IF (v_result->>'success')::boolean THEN
+                INSERT INTO ticket_updates (ticket_id, technician_id, update_type, notes, progress_percent, status, created_at)
+                VALUES (p_ticket_id, v_user_id, 'arrived', 'Arrived on site and started work', 0, 'in_progress', v_occurred_at);
+            END IF;
+        END IF;
+
+    ELSIF p_action_type = 'END_WORK' THEN
+        v_result := fn_end_ticket_work(v_user_id, p_ticket_id, false, v_occurred_at);
+        IF (v_result->>'success')::boolean AND COALESCE((p_payload->>'mark_complete')::boolean, false) THEN
+            UPDATE tickets
+            SET status = 'completed', completed_date = v_occurred_at, updated_at = NOW()
+            WHERE id = p_ticket_id
+              AND status NOT IN ('completed', 'cancelled', 'closed_billed', 'closed_no_charge', 'ready_to_invoice');
+        END IF;
+
+    ELSIF p_action_type = 'ADD_UPDATE'
+          AND NULLIF(p_payload->>'status', '') = 'completed'
+          AND NOT EXISTS (
+              SELECT 1 FROM ticket_signatures
+              WHERE ticket_id = p_ticket_id AND signature_type = 'work_completion'
+          ) THEN
+        v_result := jsonb_build_object('success', false, 'error', 'acceptance_required',
+            'message', format('Ticket %s needs the customer''s signed completion acceptance before it can be completed', v_ticket.ticket_number));
+
+    ELSIF p_action_type = 'ADD_UPDATE' THEN
+        v_status := NULLIF(p_payload->>'status', '')::ticket_status;
+
+        INSERT INTO ticket_updates (ticket_id, technician_id, update_type, notes, progress_percent, status, created_at)
+        VALUES (
+            p_ticket_id, v_user_id,
+            COALESCE(p_payload->>'update_type', 'progress_note'),
+            p_payload->>'notes',
+            COALESCE((p_payload->>'progress_percent')::integer, 0),
+            v_status,
+            v_occurred_at
+        )
+        RETURNING id INTO v_id;
+
+        IF v_status IS NOT NULL
+           AND v_ticket.status <> v_status
+           AND v_ticket.status IN ('completed', 'cancelled', 'closed_billed', 'closed_no_charge', 'ready_to_invoice') THEN
+            v_result := jsonb_build_object('success', false, 'error', 'status_superseded', 'update_id', v_id,
+                'message', format('Update saved on Ticket %s, but the status was not changed: the ticket is already %s',
+                                  v_ticket.ticket_number, replace(v_ticket.status::text, '_', ' ')));
+        ELSE
+            IF v_status IS NOT NULL THEN
+                UPDATE tickets
+                SET status = v_status,
+                    completed_date = CASE WHEN v_status = 'completed' THEN v_occurred_at ELSE completed_date END,
+                    problem_code = CASE WHEN v_status = 'completed' THEN COALESCE(NULLIF(p_payload->>'problem_code', ''), problem_code) ELSE problem_code END,
+                    resolution_code = CASE WHEN v_status = 'completed' THEN COALESCE(NULLIF(p_payload->>'resolution_code', ''), resolution_code) ELSE resolution_code END,
+                    updated_at = NOW()
+                WHERE id = p_ticket_id;
+            END IF;
+            v_result := jsonb_build_object('success', true, 'update_id', v_id, 'message', 'Update saved');
+        END IF;
+
+    ELSIF p_action_type IN ('ADD_PART', 'ADD_PHOTO') AND v_ticket.status = 'closed_billed' THEN
+        v_result := jsonb_build_object('success', false, 'error', 'ticket_invoiced',
+            'message', format('Ticket %s was invoiced before the %s could be recorded',
+                              v_ticket.ticket_number, CASE WHEN p_action_type = 'ADD_PART' THEN 'part' ELSE 'photo' END));
+
+    ELSIF p_action_type = 'ADD_PART' THEN
+        INSERT INTO ticket_parts_used (ticket_id, part_id, quantity, installed_by, notes, created_at)
+        VALUES (
+            p_ticket_id,
+            (p_payload->>'part_id')::uuid,
+            (p_payload->>'quantity')::numeric,
+            v_user_id,
+            p_payload->>'notes',
+            v_occurred_at
+        )
+        RETURNING id INTO v_id;
+        v_result := jsonb_build_object('success', true, 'part_used_id', v_id, 'message', 'Part recorded');
+
+    ELSIF p_action_type = 'ADD_PHOTO' THEN
+        INSERT INTO ticket_photos (ticket_id, uploaded_by, photo_url, photo_type, caption, created_at)
+        VALUES (
+            p_ticket_id,
+            v_user_id,
+            p_payload->>'photo_url',
+            COALESCE(p_payload->>'photo_type', 'during'),
+            NULLIF(p_payload->>'caption', ''),
+            v_occurred_at
+        )
+        RETURNING id INTO v_id;
+        v_result := jsonb_build_object('success', true, 'photo_id', v_id, 'message', 'Photo saved');
+
+    ELSIF p_action_type = 'CAPTURE_SIGNATURE' THEN
+        -- The client action id doubles as the signature id
+        INSERT INTO ticket_signatures (
+            id, ticket_id, signature_type, signer_name, signer_title, statement, declined_items,
+            signature_image, signed_at, latitude, longitude, location_accuracy, location_captured_at, captured_by
+        ) VALUES (
+            p_client_action_id,
+            p_ticket_id,
+            (p_payload->>'signature_type')::ticket_signature_type,
+            p_payload->>'signer_name',
+            NULLIF(p_payload->>'signer_title', ''),
+            p_payload->>'statement',
+            COALESCE(p_payload->'declined_items', '[]'::jsonb),
+            p_payload->>'signature_image',
+            v_occurred_at,
+            (p_payload->>'latitude')::numeric,
+            (p_payload->>'longitude')::numeric,
+            (p_payload->>'location_accuracy')::numeric,
+            (p_payload->>'location_captured_at')::timestamptz,
+            v_user_id
+        );
+        v_result := jsonb_build_object('success', true, 'signature_id', p_client_action_id, 'message', 'Signature saved');
+
+    ELSIF p_action_type IN ('HOLD_FOR_PARTS', 'REPORT_ISSUE') THEN
+        -- The hold RPCs stop the timer at the current time; stop it at the
+        -- time the hold was placed on the device first
+        PERFORM fn_end_ticket_work(v_user_id, p_ticket_id, false, v_occurred_at);
+
+        IF p_action_type = 'HOLD_FOR_PARTS' THEN
+            v_result := fn_ticket_hold_for_parts(
+                p_ticket_id,
+                COALESCE(p_payload->>'urgency', 'medium'),
+                COALESCE(p_payload->>'notes', 'Parts requested'),
+                COALESCE(p_payload->>'summary', 'Waiting for parts'),
+                COALESCE(p_payload->'parts', '[]'::jsonb)
+            );
+        ELSE
+            v_result := fn_ticket_report_issue(
+                p_ticket_id,
+                COALESCE(p_payload->>'category', 'other'),
+                COALESCE(p_payload->>'severity', 'medium'),
+                p_payload->>'description',
+                p_payload->>'summary',
+                COALESCE(p_payload->'metadata', '{}'::jsonb)
+            );
+        END IF;
+    END IF;
+
+    INSERT INTO technician_sync_actions (
+        client_action_id, user_id, ticket_id, action_type, payload, occurred_at, status, result
+    ) VALUES (
+        p_client_action_id, v_user_id, v_ticket.id, p_action_type, p_payload, v_occurred_at,
+        CASE WHEN COALESCE((v_result->>'success')::boolean, false) THEN 'APPLIED' ELSE 'CONFLICT' END::technician_action_status,
+        v_result
+    );
+
+    RETURN v_result;
+END;
+$$;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE ticket_signatures ENABLE ROW LEVEL SECURITY;
+
+-- Written only by fn_apply_technician_action; never updated or deleted
+CREATE POLICY "Authenticated users can view ticket_signatures"
+    ON ticket_signatures FOR SELECT TO authenticated USING (true);
+
+GRANT SELECT ON ticket_signatures TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE ticket_signatures IS 'Customer signatures for work authorization, completion acceptance and declined repairs, with time and GPS position of signing';
+COMMENT ON COLUMN ticket_signatures.statement IS 'Text the customer agreed to, as shown on screen when signing';
@@ -0,0 +1,792 @@
+/*
+  # Job Forms and Checklists
+
+  ## Overview
+  Admins build job forms (checklists, readings, photos) and assign them to
+  tickets by ticket type, equipment type or contract plan. A form is added
+  to a ticket when the ticket is created or its type, equipment or service
+  contract changes, and can be pushed to open tickets when the form is
+  saved. Technicians fill the forms in on the ticket; required forms must be
+  complete before work on the ticket can end.
+
+  Field types:
+  - checkbox: must be ticked when required
+  - numeric: a number, with an optional acceptable range and unit
+  - photo: a photo taken on site
+  - refrigerant_reading: refrigerant, suction/liquid pressure, superheat
+    and subcooling (optional outdoor ambient)
+  - pass_fail: pass or fail
+  - dropdown: one of the options set on the field
+
+  Numeric values and refrigerant readings outside the field's range are
+  saved and flagged out of range rather than rejected. Removed fields are
+  retired (is_active = false) so past answers stay reportable.
+
+  Answers are saved through the technician action queue
+  (SAVE_FORM_ANSWERS), so forms can be filled in without signal and the
+  end of work that follows is replayed after them.
+
+  ## New Tables
+  - job_form_templates: Form definitions
+  - job_form_fields: Fields on a form
+  - job_form_assignments: Ticket type, equipment type or contract plan a
+    form applies to
+  - ticket_job_forms: Forms attached to a ticket
+  - job_form_answers: Answers per ticket form and field
+
+  ## New Views
+  - vw_job_form_answers: Every answer with its ticket, customer, equipment
+    and field, for reporting across tickets
+
+  ## New Functions
+  - fn_assign_job_forms: Attaches matching active forms to one ticket, or to
+    every open and scheduled ticket
+  - fn_job_form_missing_fields: Required fields still unanswered on a form
+  - fn_save_job_form_answers: Upserts answers and updates form completion
+
+  ## Modified Functions
+  - fn_end_ticket_work: Fails while required forms are incomplete, unless
+    the work is not finished (p_mark_for_revisit: paused, on hold or
+    needing a return visit)
+  - fn_apply_technician_action: SAVE_FORM_ANSWERS action; END_WORK with
+    pause = true does not require the forms; completing through ADD_UPDATE
+    requires complete forms
+*/
+
+-- =====================================================
+-- ENUMS
+-- =====================================================
+
+DO $$ BEGIN
+    CREATE TYPE job_form_field_type AS ENUM (
+        'checkbox', 'numeric', 'photo', 'refrigerant_reading', 'pass_fail', 'dropdown'
+    );
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TYPE technician_action_type ADD VALUE IF NOT EXISTS 'SAVE_FORM_ANSWERS';
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS job_form_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    description TEXT,
+    is_required BOOLEAN NOT NULL DEFAULT TRUE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS job_form_fields (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_id UUID NOT NULL REFERENCES job_form_templates(id) ON DELETE CASCADE,
+    sequence_number INTEGER NOT NULL DEFAULT 1,
+    label TEXT NOT NULL,
+    field_type job_form_field_type NOT NULL,
+    help_text TEXT,
+    is_required BOOLEAN NOT NULL DEFAULT TRUE,
+    -- numeric: acceptable range; refrigerant_reading: superheat range
+    min_value NUMERIC,
+    max_value NUMERIC,
+    unit TEXT,
+    -- dropdown: ["option", ...]
+    options JSONB NOT NULL DEFAULT '[]'::jsonb,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (min_value IS NULL OR max_value IS NULL OR min_value <= max_value),
+    CHECK (field_type <> 'dropdown' OR jsonb_array_length(options) > 0)
+);
+
+CREATE TABLE IF NOT EXISTS job_form_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_id UUID NOT NULL REFERENCES job_form_templates(id) ON DELETE CASCADE,
+    ticket_type ticket_type,
+    equipment_type TEXT,
+    contract_plan_id UUID REFERENCES contract_plans(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (num_nonnulls(ticket_type, equipment_type, contract_plan_id) = 1)
+);
+
+CREATE TABLE IF NOT EXISTS ticket_job_forms (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+    template_id UUID NOT NULL REFERENCES job_form_templates(id) ON DELETE CASCADE,
+    equipment_id UUID REFERENCES equipment(id) ON DELETE SET NULL,
+    is_required BOOLEAN NOT NULL DEFAULT TRUE,
+    completed_at TIMESTAMPTZ,
+    completed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (ticket_id, template_id)
+);
+
+CREATE TABLE IF NOT EXISTS job_form_answers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_job_form_id UUID NOT NULL REFERENCES ticket_job_forms(id) ON DELETE CASCADE,
+    field_id UUID NOT NULL REFERENCES job_form_fields(id) ON DELETE CASCADE,
+    value_boolean BOOLEAN,
+    value_numeric NUMERIC,
+    value_text TEXT,
+    -- refrigerant_reading: { refrigerant, suction_pressure, liquid_pressure,
+    -- superheat, subcooling, outdoor_ambient }
+    readings JSONB,
+    photo_url TEXT,
+    out_of_range BOOLEAN NOT NULL DEFAULT FALSE,
+    answered_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    answered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (ticket_job_form_id, field_id)
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_job_form_fields_template_id ON job_form_fields(template_id, sequence_number);
+CREATE INDEX IF NOT EXISTS idx_job_form_assignments_template_id ON job_form_assignments(template_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_job_forms_ticket_id ON ticket_job_forms(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_job_forms_equipment_id ON ticket_job_forms(equipment_id);
+CREATE INDEX IF NOT EXISTS idx_job_form_answers_field_id ON job_form_answers(field_id);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_job_form_templates_updated_at ON job_form_templates;
+CREATE TRIGGER trigger_job_form_templates_updated_at
+    BEFORE UPDATE ON job_form_templates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS trigger_job_form_fields_updated_at ON job_form_fields;
+CREATE TRIGGER trigger_job_form_fields_updated_at
+    BEFORE UPDATE ON job_form_fields FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS trigger_ticket_job_forms_updated_at ON ticket_job_forms;
+CREATE TRIGGER trigger_ticket_job_forms_updated_at
+    BEFORE UPDATE ON ticket_job_forms FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Attach every active form whose assignment matches the ticket's type,
+-- equipment type or contract plan. With no ticket, every open and
+-- scheduled ticket is checked. Forms already on a ticket are left alone.
+CREATE OR REPLACE FUNCTION fn_assign_job_forms(p_ticket_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    INSERT INTO ticket_job_forms (ticket_id, template_id, equipment_id, is_required)
+    SELECT DISTINCT ON (t.id, ft.id) t.id, ft.id, t.equipment_id, ft.is_required
+    FROM tickets t
+    LEFT JOIN equipment e ON e.id = t.equipment_id
+    LEFT JOIN service_contracts sc ON sc.id = t.service_contract_id
+    JOIN job_form_assignments a ON
+        a.ticket_type = t.ticket_type
+        OR lower(trim(a.equipment_type)) = lower(trim(e.equipment_type))
+        OR a.contract_plan_id = sc.contract_plan_id
+    JOIN job_form_templates ft ON ft.id = a.template_id AND ft.is_active
+    WHERE (p_ticket_id IS NULL AND t.status IN ('open', 'scheduled'))
+       OR t.id = p_ticket_id
+    ON CONFLICT (ticket_id, template_id) DO NOTHING;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION trg_ticket_assign_job_forms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.status NOT IN ('completed', 'cancelled', 'closed_billed', 'closed_no_charge', 'ready_to_invoice') THEN
+        PERFORM fn_assign_job_forms(NEW.id);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_ticket_assign_job_forms ON tickets;
+CREATE TRIGGER trigger_ticket_assign_job_forms
+    AFTER INSERT OR UPDATE OF ticket_type, equipment_id, service_contract_id ON tickets
+    FOR EACH ROW EXECUTE FUNCTION trg_ticket_assign_job_forms();
+
+-- Required, active fields on a ticket form that have no usable answer
+CREATE OR REPLACE FUNCTION fn_job_form_missing_fields(p_ticket_job_form_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COUNT(*)::integer
+    FROM ticket_job_forms tf
+    JOIN job_form_fields f ON f.template_id = tf.template_id AND f.is_active AND f.is_required
+    LEFT JOIN job_form_answers a ON a.ticket_job_form_id = tf.id AND a.field_id = f.id
+    WHERE tf.id = p_ticket_job_form_id
+      AND NOT COALESCE(CASE f.field_type
+            WHEN 'checkbox' THEN a.value_boolean IS TRUE
+            WHEN 'numeric' THEN a.value_numeric IS NOT NULL
+            WHEN 'photo' THEN a.photo_url IS NOT NULL
+            WHEN 'pass_fail' THEN a.value_boolean IS NOT NULL
+            WHEN 'dropdown' THEN NULLIF(a.value_text, '') IS NOT NULL
+            WHEN 'refrigerant_reading' THEN
+                NULLIF(a.readings->>'refrigerant', '') IS NOT NULL
+                AND a.readings->>'suction_pressure' IS NOT NULL
+                AND a.readings->>'liquid_pressure' IS NOT NULL
+                AND a.readings->>'superheat' IS NOT NULL
+                AND a.readings->>'subcooling' IS NOT NULL
+          END, false);
+$$;
+
+-- Required forms on a ticket that are not complete, as "Name (n missing)"
+CREATE OR REPLACE FUNCTION fn_incomplete_job_forms(p_ticket_id UUID)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(array_agg(format('%s (%s missing)', ft.name, fn_job_form_missing_fields(tf.id)) ORDER BY ft.name), '{}')
+    FROM ticket_job_forms tf
+    JOIN job_form_templates ft ON ft.id = tf.template_id
+    WHERE tf.ticket_id = p_ticket_id
+      AND tf.is_required
+      AND fn_job_form_missing_fields(tf.id) > 0;
+$$;
+
+-- Upsert answers on one ticket form. Each answer is
+-- { field_id, value_boolean, value_numeric, value_text, readings, photo_url };
+-- p_photo_url fills in photo answers uploaded with the action. Runs with
+-- the caller's rights, so only fn_apply_technician_action can write.
+CREATE OR REPLACE FUNCTION fn_save_job_form_answers(
+    p_ticket_job_form_id UUID,
+    p_answers JSONB,
+    p_user_id UUID,
+    p_answered_at TIMESTAMPTZ DEFAULT NOW(),
+    p_photo_url TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_form RECORD;
+    v_answer JSONB;
+    v_field job_form_fields%ROWTYPE;
+    v_numeric NUMERIC;
+    v_missing INTEGER;
+BEGIN
+    SELECT tf.id, tf.template_id INTO v_form FROM ticket_job_forms tf WHERE tf.id = p_ticket_job_form_id;
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'form_not_found', 'message', 'Form not found on this ticket');
+    END IF;
+
+    FOR v_answer IN SELECT * FROM jsonb_array_elements(COALESCE(p_answers, '[]'::jsonb)) LOOP
+        SELECT * INTO v_field FROM job_form_fields
+        WHERE id = (v_answer->>'field_id')::uuid AND template_id = v_form.template_id;
+        CONTINUE WHEN NOT FOUND;
+
+        v_numeric := CASE v_field.field_type
+            WHEN 'numeric' THEN (v_answer->>'value_numeric')::numeric
+            WHEN 'refrigerant_reading' THEN (v_answer->'readings'->>'superheat')::numeric
+        END;
+
+        INSERT INTO job_form_answers (
+            ticket_job_form_id, field_id, value_boolean, value_numeric, value_text, readings,
+            photo_url, out_of_range, answered_by, answered_at
+        ) VALUES (
+            v_form.id,
+            v_field.id,
+            (v_answer->>'value_boolean')::boolean,
+            CASE WHEN v_field.field_type = 'numeric' THEN v_numeric END,
+            NULLIF(v_answer->>'value_text', ''),
+            CASE WHEN v_field.field_type = 'refrigerant_reading' THEN v_answer->'readings' END,
+            CASE WHEN v_field.field_type = 'photo' THEN COALESCE(NULLIF(v_answer->>'photo_url', ''), p_photo_url) END,
+            COALESCE(v_numeric < v_field.min_value, false) OR COALESCE(v_numeric > v_field.max_value, false)
+                OR (v_field.field_type = 'pass_fail' AND (v_answer->>'value_boolean')::boolean IS FALSE),
+            p_user_id,
+            p_answered_at
+        )
+        ON CONFLICT (ticket_job_form_id, field_id) DO UPDATE SET
+            value_boolean = EXCLUDED.value_boolean,
+            value_numeric = EXCLUDED.value_numeric,
+            value_text = EXCLUDED.value_text,
+            readings = EXCLUDED.readings,
+            -- A later save without a new photo keeps the one already taken
+            photo_url = COALESCE(EXCLUDED.photo_url, job_form_answers.photo_url),
+            out_of_range = EXCLUDED.out_of_range,
+            answered_by = EXCLUDED.answered_by,
+            answered_at = EXCLUDED.answered_at;
+    END LOOP;
+
+    v_missing := fn_job_form_missing_fields(v_form.id);
+
+    UPDATE ticket_job_forms
+    SET completed_at = CASE WHEN v_missing = 0 THEN COALESCE(completed_at, p_answered_at) END,
+        completed_by = CASE WHEN v_missing = 0 THEN COALESCE(completed_by, p_user_id) END
+    WHERE id = v_form.id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'ticket_job_form_id', v_form.id,
+        'missing_fields', v_missing,
+        'message', CASE WHEN v_missing = 0 THEN 'Form complete' ELSE 'Form saved' END
+    );
+END;
+$$;
+
+-- =====================================================
+-- TICKET TIMER RPCS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_end_ticket_work(
+  p_tech_id uuid,
+  p_ticket_id uuid DEFAULT NULL,
+  p_mark_for_revisit boolean DEFAULT false,
+  p_ended_at timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_log record;
+  v_ended_at timestamptz;
+  v_total_hours numeric;
+  v_incomplete_forms text[];
+BEGIN
+  -- Find active TICKET time log (NOT main clock)
+  SELECT id, clock_in_time, ticket_id
+  INTO v_log
+  FROM time_logs
+  WHERE user_id = p_tech_id
+    AND clock_out_time IS NULL
+    AND ticket_id IS NOT NULL  -- Only look for ticket timers
+    AND (p_ticket_id IS NULL OR ticket_id = p_ticket_id)
+  LIMIT 1;
+
+  IF v_log IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'no_active_timer',
+      'message', 'No active ticket timer found'
+    );
+  END IF;
+
+  -- Required job forms must be complete unless the work is not finished
+  IF NOT COALESCE(p_mark_for_revisit, false) THEN
+    v_incomplete_forms := fn_incomplete_job_forms(v_log.ticket_id);
+    IF cardinality(v_incomplete_forms) > 0 THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', 'forms_incomplete',
+        'message', format('Complete the required forms before ending work: %s', array_to_string(v_incomplete_forms, ', ')),
+        'incomplete_forms', to_jsonb(v_incomplete_forms)
+      );
+    END IF;
+  END IF;
+
+  -- Never before the timer started, never in the future
+  v_ended_at := GREATEST(LEAST(COALESCE(p_ended_at, NOW()), NOW()), v_log.clock_in_time);
+
+  -- Calculate total hours
+  v_total_hours := EXTRACT(EPOCH FROM (v_ended_at - v_log.clock_in_time)) / 3600;
+
+  -- Close the time log
+  UPDATE time_logs
+  SET clock_out_time = v_ended_at,
+      total_hours = v_total_hours,
+      status = 'completed',
+      updated_at = NOW()
+  WHERE id = v_log.id;
+
+  -- Update ticket hours if applicable
+  IF v_log.ticket_id IS NOT NULL THEN
+    UPDATE tickets
+    SET hours_onsite = COALESCE(hours_onsite, 0) + v_total_hours,
+        actual_duration_minutes = COALESCE(actual_duration_minutes, 0) + (v_total_hours * 60),
+        updated_at = NOW()
+    WHERE id = v_log.ticket_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'time_log_id', v_log.id,
+    'ticket_id', v_log.ticket_id,
+    'ended_at', v_ended_at,
+    'total_hours', ROUND(v_total_hours, 2),
+    'message', 'Ticket timer stopped successfully'
+  );
+END;
+$$;
+
+-- =====================================================
+-- TECHNICIAN ACTIONS
+-- =====================================================
+
+-- Apply one queued technician action. Safe to call again with the same
+-- client action id: the first outcome is returned with duplicate = true.
+CREATE OR REPLACE FUNCTION fn_apply_technician_action(
+    p_client_action_id UUID,
+    p_action_type technician_action_type,
+    p_ticket_id UUID,
+    p_occurred_at TIMESTAMPTZ,
+    p_payload JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_occurred_at TIMESTAMPTZ := LEAST(COALESCE(p_occurred_at, NOW()), NOW());
+    v_existing technician_sync_actions%ROWTYPE;
+    v_ticket RECORD;
+    v_result JSONB;
+    v_status ticket_status;
+    v_id UUID;
+    v_incomplete_forms TEXT[];
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Serialize replays of the same action
+    PERFORM pg_advisory_xact_lock(hashtext(p_client_action_id::text));
+
+    SELECT * INTO v_existing FROM technician_sync_actions WHERE client_action_id = p_client_action_id;
+    IF FOUND THEN
+        IF v_existing.user_id <> v_user_id THEN
+            RAISE EXCEPTION 'Action % belongs to another user', p_client_action_id;
+        END IF;
+        RETURN v_existing.result || jsonb_build_object('duplicate', true);
+    END IF;
+
+    SELECT id, ticket_number, status, hold_active, hold_parts_active, hold_issue_active
+    INTO v_ticket
+    FROM tickets
+    WHERE id = p_ticket_id;
+
+    IF NOT FOUND THEN
+        v_result := jsonb_build_object('success', false, 'error', 'ticket_not_found', 'message', 'Ticket not found');
+
+    ELSIF p_action_type = 'START_WORK' THEN
+        IF v_ticket.status IN ('completed', 'cancelled', 'closed_billed', 'closed_no_charge', 'ready_to_invoice') THEN
+            v_result := jsonb_build_object('success', false, 'error', 'ticket_closed',
+                'message', format('Ticket %s was %s before work could be started', v_ticket.ticket_number, replace(v_ticket.status::text, '_', ' ')));
+        ELSIF v_ticket.hold_active THEN
+            v_result := jsonb_build_object('success', false, 'error', 'ticket_on_hold',
+                'message', format('Ticket %s was put on hold before work could be started', v_ticket.ticket_number));
+        ELSIF NOT EXISTS (
+            SELECT 1 FROM ticket_signatures
+            WHERE ticket_id = p_ticket_id AND signature_type = 'work_authorization'
+        ) THEN
+            v_result := jsonb_build_object('success', false, 'error', 'authorization_required',
+                'message', format('Ticket %s needs the customer''s signed work authorization before work can start', v_ticket.ticket_number));
+        ELSE
+            v_result := fn_start_ticket_work(v_user_id, p_ticket_id, v_occurred_at);
+            IF (v_result->>'success')::boolean THEN
+                INSERT INTO ticket_updates (ticket_id, technician_id, update_type, notes, progress_percent, status, created_at)
+                VALUES (p_ticket_id, v_user_id, 'arrived', 'Arrived on site and started work', 0, 'in_progress', v_occurred_at);
+            END IF;
+        END IF;
+
+    ELSIF p_action_type = 'END_WORK' THEN
+        -- Pausing leaves the work unfinished, so the forms are not required yet
+        v_result := fn_end_ticket_work(v_user_id, p_ticket_id, COALESCE((p_payload->>'pause')::boolean, false), v_occurred_at);
+        IF (v_result->>'success')::boolean AND COALESCE((p_payload->>'mark_complete')::boolean, false) THEN
+            UPDATE tickets
+            SET status = 'completed', completed_date = v_occurred_at, updated_at = NOW()
+            WHERE id = p_ticket_id
+              AND status NOT IN ('completed', 'cancelled', 'closed_billed', 'closed_no_charge', 'ready_to_invoice');
+        END IF;
+
+    ELSIF p_action_type = 'ADD_UPDATE'
+          AND NULLIF(p_payload->>'status', '') = 'completed'
+          AND NOT EXISTS (
+              SELECT 1 FROM ticket_signatures
+              WHERE ticket_id = p_ticket_id AND signature_type = 'work_completion'
+          ) THEN
+        v_result := jsonb_build_object('success', false, 'error', 'acceptance_required',
+            'message', format('Ticket %s needs the customer''s signed completion acceptance before it can be completed', v_ticket.ticket_number));
+
+    ELSIF p_action_type = 'ADD_UPDATE'
+          AND NULLIF(p_payload->>'status', '') = 'completed'
+          AND cardinality(fn_incomplete_job_forms(p_ticket_id)) > 0 THEN
+        v_incomplete_forms := fn_incomplete_job_forms(p_ticket_id);
+        v_result := jsonb_build_object('success', false, 'error', 'forms_incomplete',
+            'message', format('Ticket %s cannot be completed until the required forms are complete: %s',
+                              v_ticket.ticket_number, array_to_string(v_incomplete_forms, ', ')),
+            'incomplete_forms', to_jsonb(v_incomplete_forms));
+
+    ELSIF p_action_type = 'ADD_UPDATE' THEN
+        v_status := NULLIF(p_payload->>'status', '')::ticket_status;
+
+        INSERT INTO ticket_updates (ticket_id, technician_id, update_type, notes, progress_percent, status, created_at)
+        VALUES (
+            p_ticket_id, v_user_id,
+            COALESCE(p_payload->>'update_type', 'progress_note'),
+            p_payload->>'notes',
+            COALESCE((p_payload->>'progress_percent')::integer, 0),
+            v_status,
+            v_occurred_at
+        )
+        RETURNING id INTO v_id;
+
+        IF v_status IS NOT NULL
+           AND v_ticket.status <> v_status
+           AND v_ticket.status IN ('completed', 'cancelled', 'closed_billed', 'closed_no_charge', 'ready_to_invoice') THEN
+            v_result := jsonb_build_object('success', false, 'error', 'status_superseded', 'update_id', v_id,
+                'message', format('Update saved on Ticket %s, but the status was not changed: the ticket is already %s',
+                                  v_ticket.ticket_number, replace(v_ticket.status::text, '_', ' ')));
+        ELSE
+            IF v_status IS NOT NULL THEN
+                UPDATE tickets
+                SET status = v_status,
+                    completed_date = CASE WHEN v_status = 'completed' THEN v_occurred_at ELSE completed_date END,
+                    problem_code = CASE WHEN v_status = 'completed' THEN COALESCE(NULLIF(p_payload->>'problem_code', ''), problem_code) ELSE problem_code END,
+                    resolution_code = CASE WHEN v_status = 'completed' THEN COALESCE(NULLIF(p_payload->>'resolution_code', ''), resolution_code) ELSE resolution_code END,
+                    updated_at = NOW()
+                WHERE id = p_ticket_id;
+            END IF;
+            v_result := jsonb_build_object('success', true, 'update_id', v_id, 'message', 'Update saved');
+        END IF;
+
+    ELSIF p_action_type IN ('ADD_PART', 'ADD_PHOTO', 'SAVE_FORM_ANSWERS') AND v_ticket.status = 'closed_billed' THEN
+        v_result := jsonb_build_object('success', false, 'error', 'ticket_invoiced',
+            'message', format('Ticket %s was invoiced before the %s could be recorded',
+                              v_ticket.ticket_number,
+                              CASE p_action_type WHEN 'ADD_PART' THEN 'part' WHEN 'ADD_PHOTO' THEN 'photo' ELSE 'form answers' END));
+
+    ELSIF p_action_type = 'ADD_PART' THEN
+        INSERT INTO ticket_parts_used (ticket_id, part_id, quantity, installed_by, notes, created_at)
+        VALUES (
+            p_ticket_id,
+            (p_payload->>'part_id')::uuid,
+            (p_payload->>'quantity')::numeric,
+            v_user_id,
+            p_payload->>'notes',
+            v_occurred_at
+        )
+        RETURNING id INTO v_id;
+        v_result := jsonb_build_object('success', true, 'part_used_id', v_id, 'message', 'Part recorded');
+
+    ELSIF p_action_type = 'ADD_PHOTO' THEN
+        INSERT INTO ticket_photos (ticket_id, uploaded_by, photo_url, photo_type, caption, created_at)
+        VALUES (
+            p_ticket_id,
+            v_user_id,
+            p_payload->>'photo_url',
+            COALESCE(p_payload->>'photo_type', 'during'),
+            NULLIF(p_payload->>'caption', ''),
+            v_occurred_at
+        )
+        RETURNING id INTO v_id;
+        v_result := jsonb_build_object('success', true, 'photo_id', v_id, 'message', 'Photo saved');
+
+    ELSIF p_action_type = 'CAPTURE_SIGNATURE' THEN
+        -- The client action id doubles as the signature id
+        INSERT INTO ticket_signatures (
+            id, ticket_id, signature_type, signer_name, signer_title, statement, declined_items,
+            signature_image, signed_at, latitude, longitude, location_accuracy, location_captured_at, captured_by
+        ) VALUES (
+            p_client_action_id,
+            p_ticket_id,
+            (p_payload->>'signature_type')::ticket_signature_type,
+            p_payload->>'signer_name',
+            NULLIF(p_payload->>'signer_title', ''),
+            p_payload->>'statement',
+            COALESCE(p_payload->'declined_items', '[]'::jsonb),
+            p_payload->>'signature_image',
+            v_occurred_at,
+            (p_payload->>'latitude')::numeric,
+            (p_payload->>'longitude')::numeric,
+            (p_payload->>'location_accuracy')::numeric,
+            (p_payload->>'location_captured_at')::timestamptz,
+            v_user_id
+        );
+        v_result := jsonb_build_object('success', true, 'signature_id', p_client_action_id, 'message', 'Signature saved');
+
+    ELSIF p_action_type = 'SAVE_FORM_ANSWERS' THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM ticket_job_forms
+            WHERE id = (p_payload->>'ticket_job_form_id')::uuid AND ticket_id = p_ticket_id
+        ) THEN
+            v_result := jsonb_build_object('success', false, 'error', 'form_not_found',
+                'message', format('The form is no longer on Ticket %s', v_ticket.ticket_number));
+        ELSE
+            v_result := fn_save_job_form_answers(
+                (p_payload->>'ticket_job_form_id')::uuid,
+                COALESCE(p_payload->'answers', '[]'::jsonb),
+                v_user_id,
+                v_occurred_at,
+                NULLIF(p_payload->>'photo_url', '')
+            );
+        END IF;
+
+    ELSIF p_action_type IN ('HOLD_FOR_PARTS', 'REPORT_ISSUE') THEN
+        -- The hold RPCs stop the timer at the current time; stop it at the
+        -- time the hold was placed on the device first. Work on hold is not
+        -- finished, so the forms are not required yet.
+        PERFORM fn_end_ticket_work(v_user_id, p_ticket_id, true, v_occurred_at);
+
+        IF p_action_type = 'HOLD_FOR_PARTS' THEN
+            v_result := fn_ticket_hold_for_parts(
+                p_ticket_id,
+                COALESCE(p_payload->>'urgency', 'medium'),
+                COALESCE(p_payload->>'notes', 'Parts requested'),
+                COALESCE(p_payload->>'summary', 'Waiting for parts'),
+                COALESCE(p_payload->'parts', '[]'::jsonb)
+            );
+        ELSE
+            v_result := fn_ticket_report_issue(
+                p_ticket_id,
+                COALESCE(p_payload->>'category', 'other'),
+                COALESCE(p_payload->>'severity', 'medium'),
+                p_payload->>'description',
+                p_payload->>'summary',
+                COALESCE(p_payload->'metadata', '{}'::jsonb)
+            );
+        END IF;
+    END IF;
+
+    INSERT INTO technician_sync_actions (
+        client_action_id, user_id, ticket_id, action_type, payload, occurred_at, status, result
+    ) VALUES (
+        p_client_action_id, v_user_id, v_ticket.id, p_action_type, p_payload, v_occurred_at,
+        CASE WHEN COALESCE((v_result->>'success')::boolean, false) THEN 'APPLIED' ELSE 'CONFLICT' END::technician_action_status,
+        v_result
+    );
+
+    RETURN v_result;
+END;
+$$;
+
+-- =====================================================
+-- VIEWS
+-- =====================================================
+
+-- One row per answer, with the ticket, customer and equipment it was
+-- recorded against, for reporting across tickets
+CREATE OR REPLACE VIEW vw_job_form_answers AS
+SELECT
+    a.id AS answer_id,
+    a.ticket_job_form_id,
+    tf.ticket_id,
+    t.ticket_number,
+    t.status AS ticket_status,
+    t.customer_id,
+    c.name AS customer_name,
+    tf.equipment_id,
+    e.equipment_type,
+    e.manufacturer,
+    e.model_number,
+    e.serial_number,
+    tf.template_id,
+    ft.name AS template_name,
+    a.field_id,
+    f.label AS field_label,
+    f.field_type,
+    f.unit,
+    f.min_value,
+    f.max_value,
+    a.value_boolean,
+    a.value_numeric,
+    a.value_text,
+    a.photo_url,
+    a.readings->>'refrigerant' AS refrigerant,
+    (a.readings->>'suction_pressure')::numeric AS suction_pressure,
+    (a.readings->>'liquid_pressure')::numeric AS liquid_pressure,
+    (a.readings->>'superheat')::numeric AS superheat,
+    (a.readings->>'subcooling')::numeric AS subcooling,
+    (a.readings->>'outdoor_ambient')::numeric AS outdoor_ambient,
+    a.out_of_range,
+    a.answered_by,
+    p.full_name AS answered_by_name,
+    a.answered_at
+FROM job_form_answers a
+JOIN ticket_job_forms tf ON tf.id = a.ticket_job_form_id
+JOIN tickets t ON t.id = tf.ticket_id
+LEFT JOIN customers c ON c.id = t.customer_id
+LEFT JOIN equipment e ON e.id = tf.equipment_id
+JOIN job_form_templates ft ON ft.id = tf.template_id
+JOIN job_form_fields f ON f.id = a.field_id
+LEFT JOIN profiles p ON p.id = a.answered_by;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE job_form_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_form_fields ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_form_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ticket_job_forms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_form_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view job_form_templates"
+    ON job_form_templates FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage job_form_templates"
+    ON job_form_templates FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'));
+
+CREATE POLICY "Authenticated users can view job_form_fields"
+    ON job_form_fields FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage job_form_fields"
+    ON job_form_fields FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'));
+
+CREATE POLICY "Authenticated users can view job_form_assignments"
+    ON job_form_assignments FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage job_form_assignments"
+    ON job_form_assignments FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'));
+
+-- Attached by fn_assign_job_forms; dispatch can remove a form from a ticket
+CREATE POLICY "Authenticated users can view ticket_job_forms"
+    ON ticket_job_forms FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and dispatchers can delete ticket_job_forms"
+    ON ticket_job_forms FOR DELETE TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')));
+
+-- Written only by fn_save_job_form_answers
+CREATE POLICY "Authenticated users can view job_form_answers"
+    ON job_form_answers FOR SELECT TO authenticated USING (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON job_form_templates TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON job_form_fields TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON job_form_assignments TO authenticated;
+GRANT SELECT, DELETE ON ticket_job_forms TO authenticated;
+GRANT SELECT ON job_form_answers TO authenticated;
+GRANT SELECT ON vw_job_form_answers TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_assign_job_forms TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_job_form_missing_fields TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_incomplete_job_forms TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE job_form_templates IS 'Job forms and checklists technicians fill in on service tickets';
+COMMENT ON TABLE job_form_fields IS 'Fields on a job form; removed fields are retired so past answers stay reportable';
+COMMENT ON TABLE job_form_assignments IS 'Ticket type, equipment type or contract plan a job form is attached to';
+COMMENT ON TABLE ticket_job_forms IS 'Job forms attached to a ticket, with completion';
+COMMENT ON TABLE job_form_answers IS 'Answers recorded on a ticket job form';
+COMMENT ON COLUMN job_form_answers.out_of_range IS 'Numeric value or superheat outside the field range, or a failed pass/fail check';
+COMMENT ON VIEW vw_job_form_answers IS 'Job form answers across tickets with customer, equipment and field details';
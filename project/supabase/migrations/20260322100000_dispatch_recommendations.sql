@@ -0,0 +1,122 @@
+/*
+  # Dispatch Recommendations
+
+  ## Overview
+  Gives dispatch the data to rank technicians for a ticket instead of only
+  checking who is free. Each technician records the equipment types they
+  work on, at a proficiency level, with the certification that covers it
+  and when it expires. Service territories group ZIP codes; technicians
+  cover one or more territories, one of them as their primary.
+
+  The ranking itself runs in the app (DispatchRecommendationService) and
+  combines these with the technician's last reported location and drive
+  time, their jobs that day, truck stock for the ticket's planned parts and
+  the service contract's response time SLA.
+
+  ## New Tables
+  - technician_skills: Equipment types a technician works on, with
+    proficiency and certification
+  - service_territories: Named groups of ZIP codes
+  - technician_territories: Territories a technician covers
+*/
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS technician_skills (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    technician_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    -- Matches equipment.equipment_type, case-insensitively
+    equipment_type TEXT NOT NULL,
+    proficiency TEXT NOT NULL DEFAULT 'qualified' CHECK (proficiency IN ('trainee', 'qualified', 'expert')),
+    certification TEXT,
+    certification_number TEXT,
+    certified_until DATE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS service_territories (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    zip_codes TEXT[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS technician_territories (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    technician_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    territory_id UUID NOT NULL REFERENCES service_territories(id) ON DELETE CASCADE,
+    is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (technician_id, territory_id)
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_technician_skills_tech_equipment
+    ON technician_skills(technician_id, lower(equipment_type));
+CREATE INDEX IF NOT EXISTS idx_service_territories_zip_codes ON service_territories USING GIN (zip_codes);
+CREATE INDEX IF NOT EXISTS idx_technician_territories_territory_id ON technician_territories(territory_id);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_technician_skills_updated_at ON technician_skills;
+CREATE TRIGGER trigger_technician_skills_updated_at
+    BEFORE UPDATE ON technician_skills FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS trigger_service_territories_updated_at ON service_territories;
+CREATE TRIGGER trigger_service_territories_updated_at
+    BEFORE UPDATE ON service_territories FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE technician_skills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_territories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE technician_territories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view technician_skills"
+    ON technician_skills FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and dispatchers can manage technician_skills"
+    ON technician_skills FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher')));
+
+CREATE POLICY "Authenticated users can view service_territories"
+    ON service_territories FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and dispatchers can manage service_territories"
+    ON service_territories FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher')));
+
+CREATE POLICY "Authenticated users can view technician_territories"
+    ON technician_territories FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and dispatchers can manage technician_territories"
+    ON technician_territories FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher')));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON technician_skills TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON service_territories TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON technician_territories TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON TABLE technician_skills IS 'Equipment types a technician works on, with proficiency and certification, used to rank technicians for dispatch';
+COMMENT ON TABLE service_territories IS 'Named groups of ZIP codes technicians cover';
+COMMENT ON TABLE technician_territories IS 'Territories a technician covers; is_primary marks their home territory';
+COMMENT ON COLUMN technician_skills.certified_until IS 'Expiry of the certification; an expired certification ranks the technician as a trainee on this equipment';
@@ -0,0 +1,84 @@
+/*
+  # Dispatch Day Planning
+
+  ## Overview
+  Adds what the day planner needs to route several technicians at once:
+  the customer's arrival window on a ticket, and each technician's working
+  hours, lunch break and start location.
+
+  The planner runs in the app (RouteOptimizationService.planDay). It
+  assigns and sequences the day's open and scheduled tickets across
+  technicians, emergencies first, within arrival windows, shifts and lunch
+  breaks, and the dispatcher accepts the plan into the schedule.
+
+  ## Modified Tables
+  - tickets: arrival_window_start, arrival_window_end (time of day the
+    technician may arrive)
+
+  ## New Tables
+  - technician_work_hours: Shift start/end, lunch break and start location
+    per technician; technicians without a row work the defaults
+*/
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS arrival_window_start TIME;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS arrival_window_end TIME;
+
+DO $$ BEGIN
+    ALTER TABLE tickets ADD CONSTRAINT tickets_arrival_window_check
+        CHECK (arrival_window_start IS NULL OR arrival_window_end IS NULL OR arrival_window_start < arrival_window_end);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS technician_work_hours (
+    technician_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+    shift_start TIME NOT NULL DEFAULT '08:00',
+    shift_end TIME NOT NULL DEFAULT '17:00',
+    -- Lunch starts between lunch_earliest and lunch_latest
+    lunch_earliest TIME NOT NULL DEFAULT '11:30',
+    lunch_latest TIME NOT NULL DEFAULT '13:30',
+    lunch_minutes INTEGER NOT NULL DEFAULT 30 CHECK (lunch_minutes BETWEEN 0 AND 120),
+    start_address TEXT,
+    start_latitude NUMERIC(10,7),
+    start_longitude NUMERIC(10,7),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (shift_start < shift_end),
+    CHECK (lunch_earliest <= lunch_latest)
+);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS trigger_technician_work_hours_updated_at ON technician_work_hours;
+CREATE TRIGGER trigger_technician_work_hours_updated_at
+    BEFORE UPDATE ON technician_work_hours FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE technician_work_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view technician_work_hours"
+    ON technician_work_hours FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and dispatchers can manage technician_work_hours"
+    ON technician_work_hours FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher')))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher')));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON technician_work_hours TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON COLUMN tickets.arrival_window_start IS 'Earliest time of day the technician may arrive';
+COMMENT ON COLUMN tickets.arrival_window_end IS 'Latest time of day the technician may arrive';
+COMMENT ON TABLE technician_work_hours IS 'Technician shift, lunch break and start location used by the dispatch day planner';
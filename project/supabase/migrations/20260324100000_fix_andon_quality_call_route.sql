@@ -0,0 +1,17 @@
+/*
+  # Fix Andon Quality Call Route
+
+  ## Problem
+  The default route for quality andon calls notified the role
+  `quality_inspector`, which is not a user_role value, so only supervisors
+  were ever notified of quality calls.
+
+  ## Fix
+  - andon_call_routes (quality): notify admins in place of quality_inspector,
+    alongside supervisors. Routes an admin has since edited are left alone.
+*/
+
+UPDATE andon_call_routes
+SET notify_roles = array_replace(notify_roles, 'quality_inspector', 'admin')
+WHERE call_type = 'quality'
+AND 'quality_inspector' = ANY(notify_roles);
@@ -0,0 +1,144 @@
+/*
+  # Fix Supplier Receipt Disposition
+
+  ## Problem
+  1. Dispositioning a failed receipt inspection was several client calls:
+     release the receipt, then raise the supplier NC, its disposition and
+     the SCAR. A failure part way left stock released with no NC or SCAR.
+  2. fn_release_receipt_inspection was executable by any authenticated
+     user, so a receipt could be released into stock without passing or
+     being dispositioned by anyone with the right role.
+
+  ## Fix
+  - fn_disposition_receipt: Role-checked RPC that releases the accepted
+    quantity and raises the supplier NC, RETURN_TO_VENDOR disposition and
+    SCAR for any rejected quantity in the same transaction
+  - fn_release_receipt_inspection: No longer executable by clients; it is
+    called when a run passes and by fn_disposition_receipt
+*/
+
+-- =====================================================
+-- FUNCTION: Disposition Receipt
+-- =====================================================
+
+-- Disposition a receipt whose inspection failed, in one transaction: the
+-- accepted quantity goes into stock and any rejected quantity is returned
+-- to the vendor under a supplier NC, RETURN_TO_VENDOR disposition and SCAR
+CREATE OR REPLACE FUNCTION fn_disposition_receipt(
+    p_receipt_id UUID,
+    p_quantity_accepted NUMERIC,
+    p_rejected_serials TEXT[] DEFAULT '{}',
+    p_description TEXT DEFAULT NULL,
+    p_severity nc_severity DEFAULT 'MAJOR',
+    p_defect_code_id UUID DEFAULT NULL,
+    p_response_due_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_receipt purchase_order_receipts;
+    v_line RECORD;
+    v_rejected NUMERIC;
+    v_nc quality_nonconformances;
+    v_scar quality_supplier_cars;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')
+    ) THEN
+        RAISE EXCEPTION 'Only admins, dispatchers and supervisors can disposition receipts';
+    END IF;
+
+    SELECT * INTO v_receipt FROM purchase_order_receipts WHERE id = p_receipt_id FOR UPDATE;
+
+    IF v_receipt.id IS NULL THEN
+        RAISE EXCEPTION 'Receipt not found';
+    END IF;
+
+    -- Passed and waived runs release the receipt themselves
+    IF v_receipt.inspection_status <> 'AWAITING_DISPOSITION' THEN
+        RAISE EXCEPTION 'Receipt is not awaiting disposition (status %)', v_receipt.inspection_status;
+    END IF;
+
+    v_rejected := v_receipt.quantity_received - p_quantity_accepted;
+
+    IF v_rejected > 0 AND NULLIF(trim(p_description), '') IS NULL THEN
+        RAISE EXCEPTION 'Describe the nonconformance for the rejected quantity';
+    END IF;
+
+    v_receipt := fn_release_receipt_inspection(p_receipt_id, p_quantity_accepted, p_rejected_serials);
+
+    IF v_rejected > 0 THEN
+        SELECT po.po_number, po.vendor_id, pol.part_id, p.part_number
+        INTO v_line
+        FROM purchase_order_lines pol
+        JOIN purchase_orders po ON po.id = pol.po_id
+        JOIN parts p ON p.id = pol.part_id
+        WHERE pol.id = v_receipt.po_line_id;
+
+        IF v_line.vendor_id IS NULL THEN
+            RAISE EXCEPTION 'Receipt has no vendor';
+        END IF;
+
+        INSERT INTO quality_nonconformances (
+            source, inspection_run_id, part_id, vendor_id, po_receipt_id,
+            severity, title, description, qty_affected, reported_by
+        ) VALUES (
+            'SUPPLIER', v_receipt.inspection_run_id, v_line.part_id, v_line.vendor_id, v_receipt.id,
+            COALESCE(p_severity, 'MAJOR'),
+            format('Supplier Reject: %s on %s', v_line.part_number, v_line.po_number),
+            trim(p_description), v_rejected, auth.uid()
+        )
+        RETURNING * INTO v_nc;
+
+        IF p_defect_code_id IS NOT NULL THEN
+            INSERT INTO quality_nc_defects (nonconformance_id, defect_code_id, qty_affected)
+            VALUES (v_nc.id, p_defect_code_id, v_rejected);
+        END IF;
+
+        INSERT INTO quality_dispositions (nonconformance_id, disposition, instructions)
+        VALUES (
+            v_nc.id, 'RETURN_TO_VENDOR',
+            format('Return %s to vendor against %s', trim_scale(v_rejected), v_line.po_number)
+                || COALESCE(', lot ' || v_receipt.lot_number, '')
+        );
+
+        UPDATE quality_nonconformances
+        SET status = 'DISPOSITIONED', updated_at = NOW()
+        WHERE id = v_nc.id
+        RETURNING * INTO v_nc;
+
+        INSERT INTO quality_supplier_cars (
+            vendor_id, nonconformance_id, po_receipt_id, part_id,
+            problem_description, qty_rejected, response_due_date, status, issued_by
+        ) VALUES (
+            v_line.vendor_id, v_nc.id, v_receipt.id, v_line.part_id,
+            trim(p_description), v_rejected, p_response_due_date, 'ISSUED', auth.uid()
+        )
+        RETURNING * INTO v_scar;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'receipt', to_jsonb(v_receipt),
+        'nonconformance', CASE WHEN v_nc.id IS NULL THEN NULL ELSE to_jsonb(v_nc) END,
+        'scar', CASE WHEN v_scar.id IS NULL THEN NULL ELSE to_jsonb(v_scar) END
+    );
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION fn_disposition_receipt TO authenticated;
+-- Releasing directly would skip incoming inspection
+REVOKE EXECUTE ON FUNCTION fn_release_receipt_inspection FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON FUNCTION fn_disposition_receipt IS 'Dispositions a failed receipt inspection and raises the supplier NC and SCAR for rejected quantity';
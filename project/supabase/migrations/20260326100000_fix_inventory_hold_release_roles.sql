@@ -0,0 +1,207 @@
+/*
+  # Fix Inventory Hold Release and Disposition Approval Roles
+
+  ## Problem
+  1. fn_release_inventory_hold and fn_approve_disposition run with definer
+     rights, so the inventory_status_holds and quality_dispositions policies
+     did not apply: any authenticated user could release held stock or
+     approve a disposition.
+  2. fn_approve_disposition recorded whatever approver id the client passed.
+
+  ## Fix
+  - fn_release_inventory_hold: Admins, dispatchers and supervisors only
+  - fn_approve_disposition: Admins and supervisors only; p_approved_by is
+    dropped and the caller is recorded as the approver
+*/
+
+-- The approver parameter is removed, so the old signature is dropped
+DROP FUNCTION IF EXISTS fn_approve_disposition(UUID, UUID, UUID);
+
+-- =====================================================
+-- FUNCTION: Release Inventory Hold
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_release_inventory_hold(
+    p_hold_id UUID,
+    p_action TEXT DEFAULT 'released',
+    p_target_location_id UUID DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS inventory_status_holds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_hold inventory_status_holds;
+    v_from_location_id UUID;
+BEGIN
+    -- Runs with definer rights to move stock, so apply the holds policy here
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'dispatcher', 'supervisor')
+    ) THEN
+        RAISE EXCEPTION 'Only admins, dispatchers and supervisors can release held stock';
+    END IF;
+
+    SELECT * INTO v_hold FROM inventory_status_holds WHERE id = p_hold_id FOR UPDATE;
+
+    IF v_hold.id IS NULL THEN
+        RAISE EXCEPTION 'Inventory hold not found';
+    END IF;
+
+    IF v_hold.released_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Inventory hold was already %', v_hold.release_action;
+    END IF;
+
+    IF p_action NOT IN ('released', 'scrapped', 'returned', 'moved') THEN
+        RAISE EXCEPTION 'Unknown hold release action: %', p_action;
+    END IF;
+
+    -- Moved stock stays quarantined at the target location
+    IF p_action = 'moved' THEN
+        IF p_target_location_id IS NULL OR p_target_location_id = v_hold.stock_location_id THEN
+            RAISE EXCEPTION 'Select a different location to move the held stock to';
+        END IF;
+
+        v_from_location_id := v_hold.stock_location_id;
+
+        UPDATE inventory_status_holds
+        SET stock_location_id = p_target_location_id,
+            status = 'quarantine',
+            release_notes = p_notes
+        WHERE id = v_hold.id
+        RETURNING * INTO v_hold;
+
+        IF v_hold.serialized_part_id IS NOT NULL THEN
+            UPDATE serialized_parts
+            SET current_location_id = p_target_location_id, updated_at = NOW()
+            WHERE id = v_hold.serialized_part_id;
+        ELSE
+            INSERT INTO inventory_movements (
+                movement_type, part_id, quantity, from_location_id, to_location_id,
+                reference_type, reference_id, moved_by, notes
+            ) VALUES (
+                'transfer', v_hold.part_id, v_hold.quantity, v_from_location_id, p_target_location_id,
+                'inventory_hold', v_hold.id, auth.uid(), COALESCE(p_notes, v_hold.reason)
+            );
+        END IF;
+
+        RETURN v_hold;
+    END IF;
+
+    -- Close the hold first so the guard lets the stock leave
+    UPDATE inventory_status_holds
+    SET released_at = NOW(),
+        released_by = auth.uid(),
+        release_action = p_action,
+        release_notes = p_notes
+    WHERE id = v_hold.id
+    RETURNING * INTO v_hold;
+
+    IF v_hold.serialized_part_id IS NOT NULL THEN
+        UPDATE serialized_parts
+        SET status = (CASE p_action
+                WHEN 'scrapped' THEN 'defective'
+                WHEN 'returned' THEN 'returned'
+                ELSE 'in_stock'
+            END)::serialized_part_status,
+            current_location_id = CASE WHEN p_action = 'released' THEN current_location_id ELSE NULL END,
+            updated_at = NOW()
+        WHERE id = v_hold.serialized_part_id
+        AND status = 'quarantined';
+    ELSIF p_action IN ('scrapped', 'returned') THEN
+        INSERT INTO inventory_movements (
+            movement_type, part_id, quantity, from_location_id,
+            reference_type, reference_id, moved_by, notes
+        ) VALUES (
+            'disposal', v_hold.part_id, v_hold.quantity, v_hold.stock_location_id,
+            'inventory_hold', v_hold.id, auth.uid(),
+            CASE WHEN p_action = 'returned' THEN 'Returned to vendor: ' ELSE 'Scrapped: ' END || COALESCE(p_notes, v_hold.reason, '')
+        );
+    END IF;
+
+    RETURN v_hold;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTION: Approve Disposition
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_approve_disposition(
+    p_disposition_id UUID,
+    p_target_location_id UUID DEFAULT NULL
+)
+RETURNS quality_dispositions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_disposition quality_dispositions;
+    v_hold RECORD;
+BEGIN
+    -- Same roles as the dispositions policy; the approver is always the caller
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'supervisor')
+    ) THEN
+        RAISE EXCEPTION 'Only admins and supervisors can approve dispositions';
+    END IF;
+
+    SELECT * INTO v_disposition FROM quality_dispositions WHERE id = p_disposition_id FOR UPDATE;
+
+    IF v_disposition.id IS NULL THEN
+        RAISE EXCEPTION 'Disposition not found';
+    END IF;
+
+    IF v_disposition.approved_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Disposition is already approved';
+    END IF;
+
+    UPDATE quality_dispositions
+    SET approved_by = auth.uid(),
+        approved_at = NOW(),
+        updated_at = NOW()
+    WHERE id = v_disposition.id
+    RETURNING * INTO v_disposition;
+
+    FOR v_hold IN
+        SELECT id, stock_location_id FROM inventory_status_holds
+        WHERE nonconformance_id = v_disposition.nonconformance_id
+        AND released_at IS NULL
+    LOOP
+        CASE v_disposition.disposition
+            WHEN 'USE_AS_IS' THEN
+                PERFORM fn_release_inventory_hold(v_hold.id, 'released', NULL, 'Use as is');
+            WHEN 'SCRAP' THEN
+                PERFORM fn_release_inventory_hold(v_hold.id, 'scrapped', NULL, v_disposition.instructions);
+            WHEN 'RETURN_TO_VENDOR' THEN
+                PERFORM fn_release_inventory_hold(v_hold.id, 'returned', NULL, v_disposition.instructions);
+            ELSE
+                -- Rework and sort: stock stays quarantined (at the target, if moved) until executed
+                IF p_target_location_id IS NOT NULL AND p_target_location_id <> v_hold.stock_location_id THEN
+                    PERFORM fn_release_inventory_hold(v_hold.id, 'moved', p_target_location_id, v_disposition.instructions);
+                ELSE
+                    UPDATE inventory_status_holds SET status = 'quarantine' WHERE id = v_hold.id;
+                END IF;
+        END CASE;
+    END LOOP;
+
+    RETURN v_disposition;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION fn_release_inventory_hold TO authenticated;
+GRANT EXECUTE ON FUNCTION fn_approve_disposition TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON FUNCTION fn_approve_disposition IS 'Approve a disposition as the current user and release, scrap, return or move its held stock accordingly';
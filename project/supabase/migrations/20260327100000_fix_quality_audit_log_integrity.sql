@@ -0,0 +1,185 @@
+/*
+  # Fix Quality Audit Log and Signature Integrity
+
+  ## Problem
+  1. The policy "System can insert mes_audit_log" let any authenticated user
+     insert audit entries directly, with made-up before/after values and
+     performed_by, and the chain trigger hashed them in as valid entries.
+  2. fn_require_quality_signature checked the signature of whoever the
+     client named in approved_by, verified_by or waived_by, so a user could
+     name someone who had signed and get past the signature requirement.
+
+  ## Fix
+  - mes_audit_log: The insert policy is dropped and clients can no longer
+    write to the table; entries are only written by fn_mes_audit_log, which
+    now runs with definer rights
+  - fn_chain_mes_audit_log: performed_by and performed_at are set on the
+    server from the session, whatever the insert supplied
+  - fn_require_quality_signature: The approver, verifier or waiver is always
+    the current user, who must have signed the record with the matching
+    meaning; changing the signer of a signed-off record needs a new signature
+*/
+
+-- =====================================================
+-- AUDIT LOG WRITES
+-- =====================================================
+
+DROP POLICY IF EXISTS "System can insert mes_audit_log" ON mes_audit_log;
+REVOKE INSERT, UPDATE, DELETE ON mes_audit_log FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION fn_mes_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_entity_id UUID;
+    v_before_json JSONB;
+    v_after_json JSONB;
+    v_changed_fields TEXT[];
+BEGIN
+    -- Get entity ID
+    IF TG_OP = 'DELETE' THEN
+        v_entity_id := OLD.id;
+        v_before_json := to_jsonb(OLD);
+        v_after_json := NULL;
+    ELSIF TG_OP = 'INSERT' THEN
+        v_entity_id := NEW.id;
+        v_before_json := NULL;
+        v_after_json := to_jsonb(NEW);
+    ELSE -- UPDATE
+        v_entity_id := NEW.id;
+        v_before_json := to_jsonb(OLD);
+        v_after_json := to_jsonb(NEW);
+
+        -- Calculate changed fields
+        SELECT array_agg(key)
+        INTO v_changed_fields
+        FROM jsonb_each(v_after_json) AS a(key, value)
+        WHERE v_before_json->key IS DISTINCT FROM a.value;
+    END IF;
+
+    INSERT INTO mes_audit_log (
+        entity_type,
+        entity_id,
+        action,
+        before_json,
+        after_json,
+        changed_fields,
+        performed_by,
+        performed_at
+    )
+    VALUES (
+        TG_TABLE_NAME,
+        v_entity_id,
+        TG_OP,
+        v_before_json,
+        v_after_json,
+        v_changed_fields,
+        auth.uid(),
+        NOW()
+    );
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    ELSE
+        RETURN NEW;
+    END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_chain_mes_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Serialize chain appends so every entry links to exactly one predecessor
+    PERFORM pg_advisory_xact_lock(hashtext('mes_audit_log_chain'));
+
+    SELECT row_hash INTO NEW.prev_hash
+    FROM mes_audit_log
+    WHERE chain_seq IS NOT NULL
+    ORDER BY chain_seq DESC
+    LIMIT 1;
+
+    -- Who and when come from the session, never from the inserted values
+    NEW.performed_by := auth.uid();
+    NEW.performed_at := NOW();
+    NEW.chain_seq := nextval('mes_audit_log_chain_seq');
+    NEW.row_hash := fn_mes_audit_row_hash(
+        NEW.prev_hash, NEW.entity_type, NEW.entity_id, NEW.action,
+        NEW.before_json, NEW.after_json, NEW.performed_by, NEW.performed_at
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- SIGNATURE REQUIREMENT
+-- =====================================================
+
+-- The signer is always the acting user; a signer named by the client is
+-- replaced rather than trusted
+CREATE OR REPLACE FUNCTION fn_require_quality_signature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'quality_dispositions' THEN
+        IF NEW.approved_at IS NOT NULL
+           AND (OLD.approved_at IS NULL OR NEW.approved_by IS DISTINCT FROM OLD.approved_by) THEN
+            NEW.approved_by := auth.uid();
+            IF NOT fn_has_recent_signature('DISPOSITION', NEW.id, 'APPROVED', NEW.approved_by) THEN
+                RAISE EXCEPTION 'Disposition approval requires the approver''s electronic signature';
+            END IF;
+        END IF;
+    ELSIF TG_TABLE_NAME = 'quality_capa' THEN
+        IF NEW.verified_at IS NOT NULL
+           AND (NEW.verified_at IS DISTINCT FROM OLD.verified_at OR NEW.verified_by IS DISTINCT FROM OLD.verified_by) THEN
+            NEW.verified_by := auth.uid();
+            IF NOT fn_has_recent_signature('CAPA', NEW.id, 'VERIFIED', NEW.verified_by) THEN
+                RAISE EXCEPTION 'CAPA verification requires the verifier''s electronic signature';
+            END IF;
+        END IF;
+    ELSIF TG_TABLE_NAME = 'quality_inspection_runs' THEN
+        IF NEW.status = 'WAIVED'
+           AND (OLD.status <> 'WAIVED' OR NEW.waived_by IS DISTINCT FROM OLD.waived_by) THEN
+            NEW.waived_by := auth.uid();
+            NEW.waived_at := NOW();
+            IF NOT fn_has_recent_signature('INSPECTION_RUN', NEW.id, 'APPROVED', NEW.waived_by) THEN
+                RAISE EXCEPTION 'Inspection waiver requires an approving electronic signature';
+            END IF;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Also fire when only the signer column is changed
+DROP TRIGGER IF EXISTS trigger_require_disposition_signature ON quality_dispositions;
+CREATE TRIGGER trigger_require_disposition_signature
+    BEFORE UPDATE OF approved_at, approved_by ON quality_dispositions
+    FOR EACH ROW EXECUTE FUNCTION fn_require_quality_signature();
+
+DROP TRIGGER IF EXISTS trigger_require_capa_signature ON quality_capa;
+CREATE TRIGGER trigger_require_capa_signature
+    BEFORE UPDATE OF verified_at, verified_by ON quality_capa
+    FOR EACH ROW EXECUTE FUNCTION fn_require_quality_signature();
+
+DROP TRIGGER IF EXISTS trigger_require_inspection_waiver_signature ON quality_inspection_runs;
+CREATE TRIGGER trigger_require_inspection_waiver_signature
+    BEFORE UPDATE OF status, waived_by ON quality_inspection_runs
+    FOR EACH ROW EXECUTE FUNCTION fn_require_quality_signature();
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON FUNCTION fn_mes_audit_log IS 'Trigger function to capture audit trail; the only writer of mes_audit_log';
+COMMENT ON FUNCTION fn_require_quality_signature IS 'Record the current user as approver, verifier or waiver and reject the change without their fresh matching signature';
@@ -0,0 +1,342 @@
+/*
+  # Fix Ticket Customer Signature Requirements
+
+  ## Problem
+  1. END_WORK with mark_complete completed a ticket without the customer's
+     completion acceptance; only ADD_UPDATE checked for it.
+  2. The work authorization and completion acceptance were required on
+     every ticket, including project tickets and PM visits generated from a
+     PM plan, which are already authorized under the project or service
+     contract.
+
+  ## Fix
+  - fn_ticket_requires_customer_signatures: Service (SVC) tickets that were
+    not generated from a PM plan need the customer's signatures
+  - fn_apply_technician_action: START_WORK requires the work authorization,
+    and completing through END_WORK (mark_complete) or ADD_UPDATE requires
+    the completion acceptance, only on tickets that need signatures
+  - trigger_ticket_require_completion_signature: A technician cannot set a
+    ticket that needs signatures to completed without the completion
+    acceptance, however they update it. Admins, dispatchers and supervisors
+    completing from the office, and back-office imports, are not blocked.
+*/
+
+-- =====================================================
+-- FUNCTION: Signature Requirement
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION fn_ticket_requires_customer_signatures(p_ticket_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM tickets
+        WHERE id = p_ticket_id
+        AND COALESCE(ticket_type::TEXT, 'SVC') = 'SVC'
+        AND pm_plan_id IS NULL
+    );
+$$;
+
+-- =====================================================
+-- TECHNICIAN ACTIONS
+-- =====================================================
+
+-- Apply one queued technician action. Safe to call again with the same
+-- client action id: the first outcome is returned with duplicate = true.
+CREATE OR REPLACE FUNCTION fn_apply_technician_action(
+    p_client_action_id UUID,
+    p_action_type technician_action_type,
+    p_ticket_id UUID,
+    p_occurred_at TIMESTAMPTZ,
+    p_payload JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_occurred_at TIMESTAMPTZ := LEAST(COALESCE(p_occurred_at, NOW()), NOW());
+    v_existing technician_sync_actions%ROWTYPE;
+    v_ticket RECORD;
+    v_result JSONB;
+    v_status ticket_status;
+    v_id UUID;
+    v_incomplete_forms TEXT[];
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Serialize replays of the same action
+    PERFORM pg_advisory_xact_lock(hashtext(p_client_action_id::text));
+
+    SELECT * INTO v_existing FROM technician_sync_actions WHERE client_action_id = p_client_action_id;
+    IF FOUND THEN
+        IF v_existing.user_id <> v_user_id THEN
+            RAISE EXCEPTION 'Action % belongs to another user', p_client_action_id;
+        END IF;
+        RETURN v_existing.result || jsonb_build_object('duplicate', true);
+    END IF;
+
+    SELECT id, ticket_number, status, hold_active, hold_parts_active, hold_issue_active,
+           fn_ticket_requires_customer_signatures(id) AS signatures_required
+    INTO v_ticket
+    FROM tickets
+    WHERE id = p_ticket_id;
+
+    IF NOT FOUND THEN
+        v_result := jsonb_build_object('success', false, 'error', 'ticket_not_found', 'message', 'Ticket not found');
+
+    ELSIF p_action_type = 'START_WORK' THEN
+        IF v_ticket.status IN ('completed', 'cancelled', 'closed_billed', 'closed_no_charge', 'ready_to_invoice') THEN
+            v_result := jsonb_build_object('success', false, 'error', 'ticket_closed',
+                'message', format('Ticket %s was %s before work could be started', v_ticket.ticket_number, replace(v_ticket.status::text, '_', ' ')));
+        ELSIF v_ticket.hold_active THEN
+            v_result := jsonb_build_object('success', false, 'error', 'ticket_on_hold',
+                'message', format('Ticket %s was put on hold before work could be started', v_ticket.ticket_number));
+        ELSIF v_ticket.signatures_required AND NOT EXISTS (
+            SELECT 1 FROM ticket_signatures
+            WHERE ticket_id = p_ticket_id AND signature_type = 'work_authorization'
+        ) THEN
+            v_result := jsonb_build_object('success', false, 'error', 'authorization_required',
+                'message', format('Ticket %s needs the customer''s signed work authorization before work can start', v_ticket.ticket_number));
+        ELSE
+            v_result := fn_start_ticket_work(v_user_id, p_ticket_id, v_occurred_at);
+            IF (v_result->>'success')::boolean THEN
+                INSERT INTO ticket_updates (ticket_id, technician_id, update_type, notes, progress_percent, status, created_at)
+                VALUES (p_ticket_id, v_user_id, 'arrived', 'Arrived on site and started work', 0, 'in_progress', v_occurred_at);
+            END IF;
+        END IF;
+
+    ELSIF p_action_type = 'END_WORK'
+          AND COALESCE((p_payload->>'mark_complete')::boolean, false)
+          AND v_ticket.signatures_required
+          AND NOT EXISTS (
+              SELECT 1 FROM ticket_signatures
+              WHERE ticket_id = p_ticket_id AND signature_type = 'work_completion'
+          ) THEN
+        v_result := jsonb_build_object('success', false, 'error', 'acceptance_required',
+            'message', format('Ticket %s needs the customer''s signed completion acceptance before it can be completed', v_ticket.ticket_number));
+
+    ELSIF p_action_type = 'END_WORK' THEN
+        -- Pausing leaves the work unfinished, so the forms are not required yet
+        v_result := fn_end_ticket_work(v_user_id, p_ticket_id, COALESCE((p_payload->>'pause')::boolean, false), v_occurred_at);
+        IF (v_result->>'success')::boolean AND COALESCE((p_payload->>'mark_complete')::boolean, false) THEN
+            UPDATE tickets
+            SET status = 'completed', completed_date = v_occurred_at, updated_at = NOW()
+            WHERE id = p_ticket_id
+              AND status NOT IN ('completed', 'cancelled', 'closed_billed', 'closed_no_charge', 'ready_to_invoice');
+        END IF;
+
+    ELSIF p_action_type = 'ADD_UPDATE'
+          AND NULLIF(p_payload->>'status', '') = 'completed'
+          AND v_ticket.signatures_required
+          AND NOT EXISTS (
+              SELECT 1 FROM ticket_signatures
+              WHERE ticket_id = p_ticket_id AND signature_type = 'work_completion'
+          ) THEN
+        v_result := jsonb_build_object('success', false, 'error', 'acceptance_required',
+            'message', format('Ticket %s needs the customer''s signed completion acceptance before it can be completed', v_ticket.ticket_number));
+
+    ELSIF p_action_type = 'ADD_UPDATE'
+          AND NULLIF(p_payload->>'status', '') = 'completed'
+          AND cardinality(fn_incomplete_job_forms(p_ticket_id)) > 0 THEN
+        v_incomplete_forms := fn_incomplete_job_forms(p_ticket_id);
+        v_result := jsonb_build_object('success', false, 'error', 'forms_incomplete',
+            'message', format('Ticket %s cannot be completed until the required forms are complete: %s',
+                              v_ticket.ticket_number, array_to_string(v_incomplete_forms, ', ')),
+            'incomplete_forms', to_jsonb(v_incomplete_forms));
+
+    ELSIF p_action_type = 'ADD_UPDATE' THEN
+        v_status := NULLIF(p_payload->>'status', '')::ticket_status;
+
+        INSERT INTO ticket_updates (ticket_id, technician_id, update_type, notes, progress_percent, status, created_at)
+        VALUES (
+            p_ticket_id, v_user_id,
+            COALESCE(p_payload->>'update_type', 'progress_note'),
+            p_payload->>'notes',
+            COALESCE((p_payload->>'progress_percent')::integer, 0),
+            v_status,
+            v_occurred_at
+        )
+        RETURNING id INTO v_id;
+
+        IF v_status IS NOT NULL
+           AND v_ticket.status <> v_status
+           AND v_ticket.status IN ('completed', 'cancelled', 'closed_billed', 'closed_no_charge', 'ready_to_invoice') THEN
+            v_result := jsonb_build_object('success', false, 'error', 'status_superseded', 'update_id', v_id,
+                'message', format('Update saved on Ticket %s, but the status was not changed: the ticket is already %s',
+                                  v_ticket.ticket_number, replace(v_ticket.status::text, '_', ' ')));
+        ELSE
+            IF v_status IS NOT NULL THEN
+                UPDATE tickets
+                SET status = v_status,
+                    completed_date = CASE WHEN v_status = 'completed' THEN v_occurred_at ELSE completed_date END,
+                    problem_code = CASE WHEN v_status = 'completed' THEN COALESCE(NULLIF(p_payload->>'problem_code', ''), problem_code) ELSE problem_code END,
+                    resolution_code = CASE WHEN v_status = 'completed' THEN COALESCE(NULLIF(p_payload->>'resolution_code', ''), resolution_code) ELSE resolution_code END,
+                    updated_at = NOW()
+                WHERE id = p_ticket_id;
+            END IF;
+            v_result := jsonb_build_object('success', true, 'update_id', v_id, 'message', 'Update saved');
+        END IF;
+
+    ELSIF p_action_type IN ('ADD_PART', 'ADD_PHOTO', 'SAVE_FORM_ANSWERS') AND v_ticket.status = 'closed_billed' THEN
+        v_result := jsonb_build_object('success', false, 'error', 'ticket_invoiced',
+            'message', format('Ticket %s was invoiced before the %s could be recorded',
+                              v_ticket.ticket_number,
+                              CASE p_action_type WHEN 'ADD_PART' THEN 'part' WHEN 'ADD_PHOTO' THEN 'photo' ELSE 'form answers' END));
+
+    ELSIF p_action_type = 'ADD_PART' THEN
+        INSERT INTO ticket_parts_used (ticket_id, part_id, quantity, installed_by, notes, created_at)
+        VALUES (
+            p_ticket_id,
+            (p_payload->>'part_id')::uuid,
+            (p_payload->>'quantity')::numeric,
+            v_user_id,
+            p_payload->>'notes',
+            v_occurred_at
+        )
+        RETURNING id INTO v_id;
+        v_result := jsonb_build_object('success', true, 'part_used_id', v_id, 'message', 'Part recorded');
+
+    ELSIF p_action_type = 'ADD_PHOTO' THEN
+        INSERT INTO ticket_photos (ticket_id, uploaded_by, photo_url, photo_type, caption, created_at)
+        VALUES (
+            p_ticket_id,
+            v_user_id,
+            p_payload->>'photo_url',
+            COALESCE(p_payload->>'photo_type', 'during'),
+            NULLIF(p_payload->>'caption', ''),
+            v_occurred_at
+        )
+        RETURNING id INTO v_id;
+        v_result := jsonb_build_object('success', true, 'photo_id', v_id, 'message', 'Photo saved');
+
+    ELSIF p_action_type = 'CAPTURE_SIGNATURE' THEN
+        -- The client action id doubles as the signature id
+        INSERT INTO ticket_signatures (
+            id, ticket_id, signature_type, signer_name, signer_title, statement, declined_items,
+            signature_image, signed_at, latitude, longitude, location_accuracy, location_captured_at, captured_by
+        ) VALUES (
+            p_client_action_id,
+            p_ticket_id,
+            (p_payload->>'signature_type')::ticket_signature_type,
+            p_payload->>'signer_name',
+            NULLIF(p_payload->>'signer_title', ''),
+            p_payload->>'statement',
+            COALESCE(p_payload->'declined_items', '[]'::jsonb),
+            p_payload->>'signature_image',
+            v_occurred_at,
+            (p_payload->>'latitude')::numeric,
+            (p_payload->>'longitude')::numeric,
+            (p_payload->>'location_accuracy')::numeric,
+            (p_payload->>'location_captured_at')::timestamptz,
+            v_user_id
+        );
+        v_result := jsonb_build_object('success', true, 'signature_id', p_client_action_id, 'message', 'Signature saved');
+
+    ELSIF p_action_type = 'SAVE_FORM_ANSWERS' THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM ticket_job_forms
+            WHERE id = (p_payload->>'ticket_job_form_id')::uuid AND ticket_id = p_ticket_id
+        ) THEN
+            v_result := jsonb_build_object('success', false, 'error', 'form_not_found',
+                'message', format('The form is no longer on Ticket %s', v_ticket.ticket_number));
+        ELSE
+            v_result := fn_save_job_form_answers(
+                (p_payload->>'ticket_job_form_id')::uuid,
+                COALESCE(p_payload->'answers', '[]'::jsonb),
+                v_user_id,
+                v_occurred_at,
+                NULLIF(p_payload->>'photo_url', '')
+            );
+        END IF;
+
+    ELSIF p_action_type IN ('HOLD_FOR_PARTS', 'REPORT_ISSUE') THEN
+        -- The hold RPCs stop the timer at the current time; stop it at the
+        -- time the hold was placed on the device first. Work on hold is not
+        -- finished, so the forms are not required yet.
+        PERFORM fn_end_ticket_work(v_user_id, p_ticket_id, true, v_occurred_at);
+
+        IF p_action_type = 'HOLD_FOR_PARTS' THEN
+            v_result := fn_ticket_hold_for_parts(
+                p_ticket_id,
+                COALESCE(p_payload->>'urgency', 'medium'),
+                COALESCE(p_payload->>'notes', 'Parts requested'),
+                COALESCE(p_payload->>'summary', 'Waiting for parts'),
+                COALESCE(p_payload->'parts', '[]'::jsonb)
+            );
+        ELSE
+            v_result := fn_ticket_report_issue(
+                p_ticket_id,
+                COALESCE(p_payload->>'category', 'other'),
+                COALESCE(p_payload->>'severity', 'medium'),
+                p_payload->>'description',
+                p_payload->>'summary',
+                COALESCE(p_payload->'metadata', '{}'::jsonb)
+            );
+        END IF;
+    END IF;
+
+    INSERT INTO technician_sync_actions (
+        client_action_id, user_id, ticket_id, action_type, payload, occurred_at, status, result
+    ) VALUES (
+        p_client_action_id, v_user_id, v_ticket.id, p_action_type, p_payload, v_occurred_at,
+        CASE WHEN COALESCE((v_result->>'success')::boolean, false) THEN 'APPLIED' ELSE 'CONFLICT' END::technician_action_status,
+        v_result
+    );
+
+    RETURN v_result;
+END;
+$$;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+-- Backstop for technicians completing a ticket other than through the
+-- action queue, e.g. by editing the status directly
+CREATE OR REPLACE FUNCTION trg_ticket_require_completion_signature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status = 'completed'
+       AND OLD.status IS DISTINCT FROM 'completed'
+       AND EXISTS (
+           SELECT 1 FROM profiles
+           WHERE profiles.id = auth.uid() AND profiles.role = 'technician'
+       )
+       AND fn_ticket_requires_customer_signatures(NEW.id)
+       AND NOT EXISTS (
+           SELECT 1 FROM ticket_signatures
+           WHERE ticket_id = NEW.id AND signature_type = 'work_completion'
+       ) THEN
+        RAISE EXCEPTION 'Ticket % needs the customer''s signed completion acceptance before it can be completed', NEW.ticket_number
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_ticket_require_completion_signature ON tickets;
+CREATE TRIGGER trigger_ticket_require_completion_signature
+    BEFORE UPDATE OF status ON tickets
+    FOR EACH ROW EXECUTE FUNCTION trg_ticket_require_completion_signature();
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION fn_ticket_requires_customer_signatures TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON FUNCTION fn_ticket_requires_customer_signatures IS 'Whether a ticket needs the customer''s work authorization and completion acceptance (service tickets not generated from a PM plan)';